@@ -0,0 +1,276 @@
+import {
+  extractBacklinkReferences,
+  getBacklinks,
+  getMentionTargetIds,
+  indexDocumentBacklinks,
+  indexWorkspaceBacklinks,
+  removeBacklinkSources,
+} from '@/application/backlinks';
+import * as Y from 'yjs';
+
+import { db } from '@/application/db';
+import { CollabService } from '@/application/services/domains';
+import { getTokenParsed } from '@/application/session/token';
+import { insertBlock, withTestingYDoc } from '@/application/slate-yjs/__tests__/withTestingYjsEditor';
+import { BlockType, MentionType, View, ViewLayout, YDoc } from '@/application/types';
+
+jest.mock('nanoid');
+
+jest.mock('@/application/db', () => ({
+  db: {
+    backlinks: {
+      put: jest.fn(),
+      delete: jest.fn(),
+      where: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('@/application/services/domains', () => ({
+  CollabService: {
+    getPageCollab: jest.fn(),
+  },
+}));
+
+jest.mock('@/application/session/token', () => ({
+  getTokenParsed: jest.fn(),
+}));
+
+const backlinksTable = db.backlinks as unknown as {
+  put: jest.Mock;
+  delete: jest.Mock;
+  where: jest.Mock;
+};
+
+function addParagraph(doc: YDoc, id: string, delta: Parameters<ReturnType<typeof insertBlock>['applyDelta']>[0]) {
+  const block = insertBlock({
+    doc,
+    blockObject: {
+      id,
+      ty: BlockType.Paragraph,
+      relation_id: id,
+      text_id: id,
+      data: '{}',
+    },
+  });
+
+  block.applyDelta(delta);
+  return block;
+}
+
+function pageMention(pageId: string) {
+  return { insert: '@', attributes: { mention: { type: MentionType.PageRef, page_id: pageId } } };
+}
+
+describe('backlinks', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getTokenParsed as jest.Mock).mockReturnValue({ user: { id: 'user-1' } });
+  });
+
+  describe('getMentionTargetIds', () => {
+    it('returns the page of page and child page mentions', () => {
+      expect(getMentionTargetIds({ type: MentionType.PageRef, page_id: 'page-1' })).toEqual(['page-1']);
+      expect(getMentionTargetIds({ type: MentionType.childPage, page_id: 'page-2' })).toEqual(['page-2']);
+    });
+
+    it('returns the row document of row mentions', () => {
+      expect(
+        getMentionTargetIds({
+          type: MentionType.PageRef,
+          page_id: 'grid-view',
+          row_id: 'row-1',
+          row_document_id: 'row-doc-1',
+        })
+      ).toEqual(['row-doc-1']);
+      expect(getMentionTargetIds({ type: MentionType.PageRef, page_id: 'grid-view', row_id: 'row-1' })).toEqual([]);
+    });
+
+    it('ignores other mention types', () => {
+      expect(getMentionTargetIds({ type: MentionType.Person, person_id: 'person-1' })).toEqual([]);
+      expect(getMentionTargetIds({ type: MentionType.Date, date: '2024-01-01' })).toEqual([]);
+    });
+  });
+
+  describe('extractBacklinkReferences', () => {
+    it('collects page mentions with the surrounding text', () => {
+      const doc = withTestingYDoc('source') as YDoc;
+
+      addParagraph(doc, 'block-1', [{ insert: 'See ' }, pageMention('target'), { insert: ' for details' }]);
+
+      expect(extractBacklinkReferences(doc, 'source')).toEqual([
+        { target_id: 'target', block_id: 'block-1', before: 'See ', after: ' for details' },
+      ]);
+    });
+
+    it('walks nested blocks in reading order', () => {
+      const doc = withTestingYDoc('source') as YDoc;
+
+      const second = addParagraph(doc, 'block-2', [{ insert: 'Second ' }, pageMention('b')]);
+
+      addParagraph(doc, 'block-1', [pageMention('a'), { insert: ' first' }]);
+      second
+        .appendChild({ id: 'child', ty: BlockType.Paragraph, relation_id: 'child', text_id: 'child', data: '{}' })
+        .applyDelta([{ insert: 'Nested ' }, pageMention('a')]);
+
+      expect(extractBacklinkReferences(doc, 'source').map(({ target_id, block_id }) => [target_id, block_id])).toEqual([
+        ['a', 'block-1'],
+        ['b', 'block-2'],
+        ['a', 'child'],
+      ]);
+    });
+
+    it('truncates long snippets and ignores mentions of the document itself', () => {
+      const doc = withTestingYDoc('source') as YDoc;
+      const long = 'word '.repeat(40);
+
+      addParagraph(doc, 'block-1', [{ insert: long }, pageMention('target'), { insert: long }, pageMention('source')]);
+
+      const [reference, ...rest] = extractBacklinkReferences(doc, 'source');
+
+      expect(rest).toHaveLength(0);
+      expect(reference.before.startsWith('…')).toBe(true);
+      expect(reference.after.endsWith('…')).toBe(true);
+      expect(reference.before.length).toBeLessThanOrEqual(61);
+    });
+  });
+
+  describe('indexDocumentBacklinks', () => {
+    it('stores the mentions of a row document', async () => {
+      const doc = withTestingYDoc('row-doc') as YDoc;
+
+      addParagraph(doc, 'block-1', [pageMention('target'), pageMention('target'), pageMention('other')]);
+
+      await indexDocumentBacklinks(doc, {
+        workspaceId: 'workspace-1',
+        sourceId: 'row-doc',
+        databaseId: 'database-1',
+        databaseViewId: 'grid-view',
+        rowId: 'row-1',
+      });
+
+      expect(backlinksTable.put).toHaveBeenCalledWith(
+        expect.objectContaining({
+          user_id: 'user-1',
+          workspace_id: 'workspace-1',
+          source_id: 'row-doc',
+          database_view_id: 'grid-view',
+          row_id: 'row-1',
+          target_ids: ['target', 'other'],
+        })
+      );
+      expect(backlinksTable.put.mock.calls[0][0].references).toHaveLength(3);
+    });
+
+    it('keeps an empty record for documents that no longer mention any page', async () => {
+      const doc = withTestingYDoc('source') as YDoc;
+
+      addParagraph(doc, 'block-1', [{ insert: 'No links' }]);
+      await indexDocumentBacklinks(doc, { workspaceId: 'workspace-1', sourceId: 'source' });
+
+      expect(backlinksTable.put).toHaveBeenCalledWith(
+        expect.objectContaining({ source_id: 'source', target_ids: [], references: [] })
+      );
+    });
+
+    it('does nothing without a signed-in user', async () => {
+      (getTokenParsed as jest.Mock).mockReturnValue(null);
+      const doc = withTestingYDoc('source') as YDoc;
+
+      addParagraph(doc, 'block-1', [pageMention('target')]);
+      await indexDocumentBacklinks(doc, { workspaceId: 'workspace-1', sourceId: 'source' });
+
+      expect(backlinksTable.put).not.toHaveBeenCalled();
+      expect(backlinksTable.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('indexWorkspaceBacklinks', () => {
+    const view = (viewId: string, layout: ViewLayout, lastEdited?: string) =>
+      ({ view_id: viewId, layout, last_edited_time: lastEdited } as View);
+
+    it('fetches pages that are not indexed or were edited since', async () => {
+      const doc = withTestingYDoc('unopened') as YDoc;
+
+      addParagraph(doc, 'block-1', [pageMention('target')]);
+      (CollabService.getPageCollab as jest.Mock).mockResolvedValue({ data: Y.encodeStateAsUpdate(doc) });
+
+      const equals = jest.fn(() => ({
+        toArray: async () => [
+          { source_id: 'indexed', updated_at: Date.parse('2026-01-02') },
+          { source_id: 'edited', updated_at: Date.parse('2026-01-02') },
+        ],
+      }));
+
+      backlinksTable.where.mockReturnValue({ equals });
+
+      await indexWorkspaceBacklinks('workspace-1', [
+        view('unopened', ViewLayout.Document),
+        view('indexed', ViewLayout.Document, '2026-01-01'),
+        view('edited', ViewLayout.Document, '2026-01-03'),
+        view('grid', ViewLayout.Grid),
+      ]);
+
+      expect(equals).toHaveBeenCalledWith(['user-1', 'workspace-1']);
+      expect((CollabService.getPageCollab as jest.Mock).mock.calls).toEqual([
+        ['workspace-1', 'unopened'],
+        ['workspace-1', 'edited'],
+      ]);
+      expect(backlinksTable.put).toHaveBeenCalledWith(
+        expect.objectContaining({ source_id: 'unopened', target_ids: ['target'] })
+      );
+    });
+  });
+
+  describe('getBacklinks', () => {
+    it('returns records of the current user and workspace, newest first', async () => {
+      const records = [
+        { user_id: 'user-1', workspace_id: 'workspace-1', source_id: 'old', updated_at: 1 },
+        { user_id: 'user-2', workspace_id: 'workspace-1', source_id: 'other-user', updated_at: 3 },
+        { user_id: 'user-1', workspace_id: 'workspace-2', source_id: 'other-workspace', updated_at: 3 },
+        { user_id: 'user-1', workspace_id: 'workspace-1', source_id: 'new', updated_at: 2 },
+      ];
+      const equals = jest.fn(() => ({
+        filter: (predicate: (record: (typeof records)[number]) => boolean) => ({
+          toArray: async () => records.filter(predicate),
+        }),
+      }));
+
+      backlinksTable.where.mockReturnValue({ equals });
+
+      const result = await getBacklinks('workspace-1', 'target');
+
+      expect(backlinksTable.where).toHaveBeenCalledWith('target_ids');
+      expect(equals).toHaveBeenCalledWith('target');
+      expect(result.map((record) => record.source_id)).toEqual(['new', 'old']);
+    });
+  });
+
+  describe('removeBacklinkSources', () => {
+    it('deletes trashed pages and the rows of trashed database views', async () => {
+      const records = [
+        { source_id: 'trashed-page' },
+        { source_id: 'row-doc', database_view_id: 'trashed-grid' },
+        { source_id: 'kept-page' },
+        { source_id: 'kept-row-doc', database_view_id: 'kept-grid' },
+      ];
+      let deleted: typeof records = [];
+      const equals = jest.fn(() => ({
+        filter: (predicate: (record: (typeof records)[number]) => boolean) => ({
+          delete: async () => {
+            deleted = records.filter(predicate);
+            return deleted.length;
+          },
+        }),
+      }));
+
+      backlinksTable.where.mockReturnValue({ equals });
+
+      await removeBacklinkSources('workspace-1', ['trashed-page', 'trashed-grid']);
+
+      expect(backlinksTable.where).toHaveBeenCalledWith('[user_id+workspace_id]');
+      expect(equals).toHaveBeenCalledWith(['user-1', 'workspace-1']);
+      expect(deleted.map((record) => record.source_id)).toEqual(['trashed-page', 'row-doc']);
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { Element } from 'slate';
+
+import {
+  fillPageTemplate,
+  getPageTemplateContent,
+  getPageTemplates,
+  getTemplateVariables,
+  pageTemplateToPageData,
+} from '@/application/page-template';
+import { withTestingYDoc } from '@/application/slate-yjs/__tests__/withTestingYjsEditor';
+import { INLINE_COMMENT_IDS_KEY } from '@/application/slate-yjs/types';
+import { slateContentInsertToYData } from '@/application/slate-yjs/utils/convert';
+import { BlockType, View, ViewLayout, YDoc, YjsEditorKey } from '@/application/types';
+
+jest.mock('nanoid');
+
+const paragraph = (...texts: Array<string | { text: string; [key: string]: unknown }>) =>
+  ({
+    type: BlockType.Paragraph,
+    data: {},
+    children: [
+      {
+        type: YjsEditorKey.text,
+        children: texts.map((text) => (typeof text === 'string' ? { text } : text)),
+      },
+    ],
+  } as Element);
+
+const view = (viewId: string, extra: View['extra'], children: View[] = []) =>
+  ({
+    view_id: viewId,
+    name: viewId,
+    layout: ViewLayout.Document,
+    extra,
+    children,
+  } as View);
+
+const texts = (nodes: Element[]) =>
+  nodes.map((node) =>
+    ((node.children[0] as Element).children as Array<{ text: string }>).map(({ text }) => text).join('')
+  );
+
+describe('page templates', () => {
+  it('finds template pages anywhere in the outline', () => {
+    const outline = [
+      view('space', { is_space: true }, [view('meeting', { page_template: true }), view('notes', null)]),
+      view('weekly', { page_template: true }),
+    ];
+
+    expect(getPageTemplates(outline).map((template) => template.view_id)).toEqual(['meeting', 'weekly']);
+  });
+
+  it('lists the variables to prompt for once, in reading order', () => {
+    const nodes = [
+      paragraph('{{ project }} kickoff on {{date}} by {{user}}'),
+      paragraph('Owner: {{owner}}, {{project}}'),
+    ];
+
+    expect(getTemplateVariables(nodes)).toEqual(['project', 'owner']);
+  });
+
+  it('fills built-in and prompted variables and keeps unknown ones', () => {
+    const nodes = [
+      paragraph('{{page_title}} — {{date}} {{time}}'),
+      paragraph({ text: '{{project}}', bold: true, [INLINE_COMMENT_IDS_KEY]: 'comment-1' }, ' by {{user}} {{missing}}'),
+    ];
+
+    const filled = fillPageTemplate(nodes, {
+      user: 'Ada',
+      pageTitle: 'Standup',
+      values: { project: 'Apollo' },
+      now: new Date(2026, 0, 2, 9, 5),
+    });
+
+    expect(texts(filled)).toEqual(['Standup — Jan 2, 2026 09:05', 'Apollo by Ada {{missing}}']);
+    expect((filled[1].children[0] as Element).children[0]).toEqual({ text: 'Apollo', bold: true });
+    expect(texts(nodes)[1]).toBe('{{project}} by {{user}} {{missing}}');
+  });
+
+  it('reads the template blocks from its document', () => {
+    const doc = withTestingYDoc('template') as YDoc;
+
+    slateContentInsertToYData('template', 0, [paragraph('Agenda for {{topic}}'), paragraph('Notes')], doc);
+
+    const content = getPageTemplateContent(doc);
+
+    expect(content.map((node) => node.type)).toEqual([BlockType.Paragraph, BlockType.Paragraph]);
+    expect(texts(content)).toEqual(['Agenda for {{topic}}', 'Notes']);
+  });
+
+  it('converts filled blocks to page data with deltas', () => {
+    const nested = {
+      type: BlockType.ToggleListBlock,
+      data: { collapsed: false },
+      children: [{ type: YjsEditorKey.text, children: [{ text: 'Details', italic: true }] }, paragraph('inside')],
+    } as Element;
+
+    expect(pageTemplateToPageData([nested])).toEqual({
+      type: 'page',
+      children: [
+        {
+          type: BlockType.ToggleListBlock,
+          data: { collapsed: false, delta: [{ insert: 'Details', attributes: { italic: true } }] },
+          children: [{ type: BlockType.Paragraph, data: { delta: [{ insert: 'inside' }] }, children: [] }],
+        },
+      ],
+    });
+  });
+});
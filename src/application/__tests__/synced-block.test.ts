@@ -0,0 +1,84 @@
+import { withTestingYDoc } from '@/application/slate-yjs/__tests__/withTestingYjsEditor';
+import {
+  getSyncedBlockReferences,
+  observeSyncedBlockReferences,
+  pruneSyncedBlockReferences,
+  registerSyncedBlockReference,
+  unregisterSyncedBlockReference,
+} from '@/application/synced-block';
+import { YDoc } from '@/application/types';
+
+jest.mock('nanoid');
+
+describe('synced block references', () => {
+  let doc: YDoc;
+
+  beforeEach(() => {
+    doc = withTestingYDoc('source') as YDoc;
+  });
+
+  it('starts without references', () => {
+    expect(getSyncedBlockReferences(doc)).toEqual([]);
+  });
+
+  it('registers one reference per block', () => {
+    registerSyncedBlockReference(doc, { blockId: 'block-a', viewId: 'page-1' });
+    registerSyncedBlockReference(doc, { blockId: 'block-b', viewId: 'page-2' });
+    registerSyncedBlockReference(doc, { blockId: 'block-a', viewId: 'page-1' });
+
+    expect(getSyncedBlockReferences(doc)).toEqual(
+      expect.arrayContaining([
+        { blockId: 'block-a', viewId: 'page-1' },
+        { blockId: 'block-b', viewId: 'page-2' },
+      ])
+    );
+    expect(getSyncedBlockReferences(doc)).toHaveLength(2);
+  });
+
+  it('unregisters a reference', () => {
+    registerSyncedBlockReference(doc, { blockId: 'block-a', viewId: 'page-1' });
+    unregisterSyncedBlockReference(doc, 'block-a');
+    unregisterSyncedBlockReference(doc, 'missing');
+
+    expect(getSyncedBlockReferences(doc)).toEqual([]);
+  });
+
+  it('notifies observers when references are created and changed', () => {
+    const callback = jest.fn();
+    const unobserve = observeSyncedBlockReferences(doc, callback);
+
+    registerSyncedBlockReference(doc, { blockId: 'block-a', viewId: 'page-1' });
+    expect(callback).toHaveBeenCalledTimes(1);
+
+    registerSyncedBlockReference(doc, { blockId: 'block-b', viewId: 'page-2' });
+    expect(callback).toHaveBeenCalledTimes(2);
+
+    unobserve();
+    unregisterSyncedBlockReference(doc, 'block-a');
+    expect(callback).toHaveBeenCalledTimes(2);
+  });
+
+  it('prunes references whose page or block is gone', async () => {
+    registerSyncedBlockReference(doc, { blockId: 'block-a', viewId: 'page-1' });
+    registerSyncedBlockReference(doc, { blockId: 'block-b', viewId: 'trashed-page' });
+    registerSyncedBlockReference(doc, { blockId: 'block-c', viewId: 'page-1' });
+
+    await pruneSyncedBlockReferences(
+      doc,
+      (reference) => reference.viewId !== 'trashed-page' && reference.blockId !== 'block-c'
+    );
+
+    expect(getSyncedBlockReferences(doc)).toEqual([{ blockId: 'block-a', viewId: 'page-1' }]);
+  });
+
+  it('keeps a reference registered on another page while it was being checked', async () => {
+    registerSyncedBlockReference(doc, { blockId: 'block-a', viewId: 'page-1' });
+
+    await pruneSyncedBlockReferences(doc, async () => {
+      registerSyncedBlockReference(doc, { blockId: 'block-a', viewId: 'page-2' });
+      return false;
+    });
+
+    expect(getSyncedBlockReferences(doc)).toEqual([{ blockId: 'block-a', viewId: 'page-2' }]);
+  });
+});
@@ -0,0 +1,100 @@
+import { insertBlock, withTestingYDoc } from '@/application/slate-yjs/__tests__/withTestingYjsEditor';
+import { getBlock, getChildrenArray, getText } from '@/application/slate-yjs/utils/yjs';
+import { BlockType, YDoc, YjsEditorKey, YSharedRoot } from '@/application/types';
+import { diffDocumentVersions, diffText, restoreVersionBlock } from '@/application/version-diff';
+
+jest.mock('nanoid');
+
+function docWithParagraphs(paragraphs: Array<[id: string, text: string]>): YDoc {
+  const doc = withTestingYDoc('page') as YDoc;
+  const sharedRoot = doc.getMap(YjsEditorKey.data_section) as YSharedRoot;
+  let prevBlockId: string | undefined;
+
+  paragraphs.forEach(([id, text]) => {
+    insertBlock({
+      doc,
+      prevBlockId,
+      blockObject: { id, ty: BlockType.Paragraph, relation_id: id, text_id: id, data: '{}' },
+    }).applyDelta([{ insert: text }]);
+    getBlock(id, sharedRoot).set(YjsEditorKey.block_parent, 'page');
+    prevBlockId = id;
+  });
+
+  return doc;
+}
+
+function pageTexts(doc: YDoc): string[] {
+  const sharedRoot = doc.getMap(YjsEditorKey.data_section) as YSharedRoot;
+
+  return getChildrenArray('page', sharedRoot)
+    .toArray()
+    .map((id) => getText(getBlock(id, sharedRoot).get(YjsEditorKey.block_external_id), sharedRoot).toString());
+}
+
+describe('version diff', () => {
+  it('diffs text word by word', () => {
+    expect(diffText('the quick fox', 'the slow fox')).toEqual([
+      { text: 'the ', status: 'unchanged' },
+      { text: 'quick', status: 'deleted' },
+      { text: 'slow', status: 'inserted' },
+      { text: ' fox', status: 'unchanged' },
+    ]);
+  });
+
+  it('marks inserted, deleted and changed blocks in document order', () => {
+    const oldDoc = docWithParagraphs([
+      ['a', 'Hello world'],
+      ['b', 'Remove me'],
+      ['c', 'Same'],
+    ]);
+    const newDoc = docWithParagraphs([
+      ['a', 'Hello there world'],
+      ['c', 'Same'],
+      ['d', 'New'],
+    ]);
+
+    const diff = diffDocumentVersions(oldDoc, newDoc);
+
+    expect(diff.map(({ blockId, status }) => [blockId, status])).toEqual([
+      ['a', 'changed'],
+      ['b', 'deleted'],
+      ['c', 'unchanged'],
+      ['d', 'inserted'],
+    ]);
+    expect(diff[0].segments).toEqual([
+      { text: 'Hello ', status: 'unchanged' },
+      { text: 'there ', status: 'inserted' },
+      { text: 'world', status: 'unchanged' },
+    ]);
+  });
+
+  it('restores a deleted block after its previous sibling', () => {
+    const version = docWithParagraphs([
+      ['a', 'First'],
+      ['b', 'Lost'],
+      ['c', 'Last'],
+    ]);
+    const current = docWithParagraphs([
+      ['a', 'First'],
+      ['c', 'Last'],
+    ]);
+
+    expect(restoreVersionBlock(current, version, 'b')).toBe(true);
+    expect(pageTexts(current)).toEqual(['First', 'Lost', 'Last']);
+  });
+
+  it('restores the text of a changed block only', () => {
+    const version = docWithParagraphs([
+      ['a', 'Original'],
+      ['b', 'Other'],
+    ]);
+    const current = docWithParagraphs([
+      ['a', 'Edited'],
+      ['b', 'Other edited'],
+    ]);
+
+    expect(restoreVersionBlock(current, version, 'a')).toBe(true);
+    expect(pageTexts(current)).toEqual(['Original', 'Other edited']);
+    expect(restoreVersionBlock(current, version, 'missing')).toBe(false);
+  });
+});
@@ -0,0 +1,137 @@
+import { Awareness } from 'y-protocols/awareness';
+
+import { createWorkspacePresenceStore, getPresenceUsers } from '@/application/awareness/presence';
+import { AwarenessPresence, AwarenessState } from '@/application/awareness/types';
+
+const LOCAL_CLIENT_ID = 1;
+
+const createState = ({
+  deviceId,
+  name,
+  presence,
+  timestamp = 1,
+  uuid,
+}: {
+  deviceId: string;
+  name: string;
+  presence?: AwarenessPresence;
+  timestamp?: number;
+  uuid?: string;
+}): AwarenessState => ({
+  version: 1,
+  timestamp,
+  user: {
+    uid: 1,
+    device_id: deviceId,
+  },
+  metadata: JSON.stringify({
+    user_name: name,
+    cursor_color: '#00b5ff',
+    selection_color: '',
+    user_avatar: '',
+    user_uuid: uuid,
+  }),
+  presence,
+});
+
+const createAwarenessHarness = (initialStates: Array<[number, AwarenessState]>) => {
+  const states = new Map(initialStates);
+  const changeListeners = new Set<() => void>();
+  const awareness = {
+    clientID: LOCAL_CLIENT_ID,
+    getStates: () => states,
+    on: (event: string, listener: () => void) => {
+      if (event === 'change') changeListeners.add(listener);
+    },
+    off: (event: string, listener: () => void) => {
+      if (event === 'change') changeListeners.delete(listener);
+    },
+  } as unknown as Awareness;
+
+  return {
+    awareness,
+    emitChange: () => changeListeners.forEach((listener) => listener()),
+    states,
+  };
+};
+
+describe('getPresenceUsers', () => {
+  it('skips the local client, this device and states without a presence', () => {
+    const { awareness } = createAwarenessHarness([
+      [LOCAL_CLIENT_ID, createState({ deviceId: 'local', name: 'Me', presence: { view_id: 'view-1' } })],
+      [2, createState({ deviceId: 'local', name: 'Me in another tab', presence: { view_id: 'view-1' } })],
+      [3, createState({ deviceId: 'remote-1', name: 'Lucas', uuid: 'u-1' })],
+      [4, createState({ deviceId: 'remote-2', name: 'Nathan', uuid: 'u-2', presence: { view_id: 'view-1' } })],
+    ]);
+
+    expect(getPresenceUsers(awareness, 'local').map((user) => user.name)).toEqual(['Nathan']);
+  });
+
+  it('keeps the most recent presence of a user with several tabs', () => {
+    const { awareness } = createAwarenessHarness([
+      [2, createState({ deviceId: 'a', name: 'Lucas', uuid: 'u-1', timestamp: 1, presence: { view_id: 'view-1' } })],
+      [3, createState({ deviceId: 'b', name: 'Lucas', uuid: 'u-1', timestamp: 2, presence: { view_id: 'view-2' } })],
+    ]);
+
+    expect(getPresenceUsers(awareness).map((user) => user.presence.view_id)).toEqual(['view-2']);
+  });
+});
+
+describe('createWorkspacePresenceStore', () => {
+  it('indexes users by page, open row and selected cell', () => {
+    const { awareness } = createAwarenessHarness([
+      [
+        2,
+        createState({
+          deviceId: 'remote-1',
+          name: 'Lucas',
+          uuid: 'u-1',
+          presence: { view_id: 'grid-1', row_id: 'row-1' },
+        }),
+      ],
+      [
+        3,
+        createState({
+          deviceId: 'remote-2',
+          name: 'Nathan',
+          uuid: 'u-2',
+          presence: { view_id: 'grid-1', cell: { row_id: 'row-2', field_id: 'status' } },
+        }),
+      ],
+    ]);
+    const store = createWorkspacePresenceStore(awareness);
+
+    expect(store.getViewUsers('grid-1').map((user) => user.name)).toEqual(['Lucas', 'Nathan']);
+    expect(store.getRowUsers('row-1').map((user) => user.name)).toEqual(['Lucas']);
+    expect(store.getCellUsers('row-2', 'status').map((user) => user.name)).toEqual(['Nathan']);
+    expect(store.getCellUsers('row-1', 'status')).toHaveLength(0);
+  });
+
+  it('keeps unchanged entries stable and notifies subscribers on change', () => {
+    const { awareness, emitChange, states } = createAwarenessHarness([
+      [2, createState({ deviceId: 'remote-1', name: 'Lucas', uuid: 'u-1', presence: { view_id: 'page-1' } })],
+      [3, createState({ deviceId: 'remote-2', name: 'Nathan', uuid: 'u-2', presence: { view_id: 'page-2' } })],
+    ]);
+    const store = createWorkspacePresenceStore(awareness);
+    const listener = jest.fn();
+
+    store.subscribe(listener);
+
+    const page1Users = store.getViewUsers('page-1');
+
+    states.set(
+      3,
+      createState({ deviceId: 'remote-2', name: 'Nathan', uuid: 'u-2', timestamp: 2, presence: { view_id: 'page-3' } })
+    );
+    emitChange();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(store.getViewUsers('page-1')).toBe(page1Users);
+    expect(store.getViewUsers('page-2')).toHaveLength(0);
+    expect(store.getViewUsers('page-3').map((user) => user.name)).toEqual(['Nathan']);
+
+    store.destroy();
+    emitChange();
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
@@ -9,7 +9,7 @@ import { getUserIconUrl } from '@/application/user-metadata';
 import { useCurrentUser } from '@/components/main/app.hooks';
 import { Log } from '@/utils/log';
 
-import { AwarenessMetadata, AwarenessState } from './types';
+import { AwarenessMetadata, AwarenessPresence, AwarenessState } from './types';
 import { convertSlateSelectionToAwareness, generateUserColors } from './utils';
 
 // User information parameters for awareness synchronization
@@ -61,6 +61,44 @@ export function useDispatchUserAwareness(awareness?: Awareness) {
   return dispatchUser;
 }
 
+/**
+ * Hook to dispatch workspace presence to awareness
+ * Updates user metadata together with the page, row and cell the user is on
+ */
+export function useDispatchPresenceAwareness(awareness?: Awareness) {
+  const dispatchPresence = useCallback(
+    (userParams: UserAwarenessParams, presence: AwarenessPresence) => {
+      if (!awareness) return;
+
+      const metadata: AwarenessMetadata = {
+        user_name: userParams.user_name || '',
+        cursor_color: userParams.cursor_color,
+        selection_color: userParams.selection_color,
+        user_avatar: userParams.user_avatar || '',
+        user_uuid: userParams.user_uuid,
+      };
+
+      const awarenessState: AwarenessState = {
+        version: 1,
+        timestamp: dayjs().unix(),
+        user: {
+          uid: userParams.uid,
+          device_id: userParams.device_id,
+        },
+        metadata: JSON.stringify(metadata),
+        presence,
+      };
+
+      awareness.setLocalState(awarenessState);
+
+      Log.debug('📡 Presence awareness dispatched:', awarenessState);
+    },
+    [awareness]
+  );
+
+  return dispatchPresence;
+}
+
 /**
  * Hook to dispatch cursor selection to awareness
  * Updates both user metadata and current selection information
@@ -1,7 +1,22 @@
 // Export all types
 // Export all hooks and functions
-export { useDispatchClearAwareness, useDispatchCursorAwareness, useDispatchUserAwareness } from './dispatch';
+export {
+  useDispatchClearAwareness,
+  useDispatchCursorAwareness,
+  useDispatchPresenceAwareness,
+  useDispatchUserAwareness,
+} from './dispatch';
 export type { UserAwarenessParams } from './dispatch';
+export { createWorkspacePresenceStore, getPresenceUsers } from './presence';
+export type { WorkspacePresenceStore } from './presence';
 export { useRemoteSelectionsSelector, useUsersSelector } from './selector';
-export type { AwarenessMetadata, AwarenessSelection, AwarenessState, AwarenessUser, Cursor } from './types';
+export type {
+  AwarenessMetadata,
+  AwarenessPresence,
+  AwarenessSelection,
+  AwarenessState,
+  AwarenessUser,
+  Cursor,
+  PresenceUser,
+} from './types';
 export { convertAwarenessSelection, convertSlateSelectionToAwareness, generateUserColors } from './utils';
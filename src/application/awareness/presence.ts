@@ -0,0 +1,144 @@
+import { Awareness } from 'y-protocols/awareness';
+
+import { getAwarenessIdentityKey, getNormalizedMetadata } from './selector';
+import { AwarenessState, PresenceUser } from './types';
+
+const EMPTY_USERS: PresenceUser[] = [];
+
+type PresenceIndex = Map<string, PresenceUser[]>;
+
+export interface WorkspacePresenceStore {
+  /** Other users currently viewing the page. */
+  getViewUsers: (viewId: string) => PresenceUser[];
+  /** Other users with the row's detail modal open. */
+  getRowUsers: (rowId: string) => PresenceUser[];
+  /** Other users with the grid cell selected. */
+  getCellUsers: (rowId: string, fieldId: string) => PresenceUser[];
+  subscribe: (listener: () => void) => () => void;
+  destroy: () => void;
+}
+
+const getCellKey = (rowId: string, fieldId: string) => `${rowId}:${fieldId}`;
+
+const isSameUser = (a: PresenceUser, b: PresenceUser) =>
+  getAwarenessIdentityKey(a.uuid, a.uid, a.device_id) === getAwarenessIdentityKey(b.uuid, b.uid, b.device_id) &&
+  a.name === b.name &&
+  a.avatar === b.avatar &&
+  a.color === b.color;
+
+/**
+ * Remote users that share a presence, one entry per user. When a user has
+ * several tabs open, the most recently updated one wins.
+ */
+export function getPresenceUsers(awareness: Awareness, localDeviceId?: string): PresenceUser[] {
+  const usersByIdentity = new Map<string, PresenceUser>();
+  const states = awareness.getStates() as Map<number, AwarenessState>;
+
+  states.forEach((state, clientId) => {
+    if (clientId === awareness.clientID || !state.user || !state.presence) return;
+    if (localDeviceId && localDeviceId === state.user.device_id) return;
+
+    const meta = getNormalizedMetadata(state.metadata);
+
+    if (!meta?.user_name) return;
+
+    const user: PresenceUser = {
+      uid: Number(state.user.uid),
+      uuid: meta.user_uuid,
+      name: meta.user_name,
+      timestamp: state.timestamp,
+      device_id: state.user.device_id,
+      color: meta.cursor_color,
+      avatar: meta.user_avatar,
+      presence: state.presence,
+    };
+    const identity = getAwarenessIdentityKey(user.uuid, user.uid, user.device_id);
+    const current = usersByIdentity.get(identity);
+
+    if (!current || user.timestamp > current.timestamp) {
+      usersByIdentity.set(identity, user);
+    }
+  });
+
+  return Array.from(usersByIdentity.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function addToIndex(index: PresenceIndex, key: string | undefined, user: PresenceUser) {
+  if (!key) return;
+
+  const users = index.get(key);
+
+  if (users) {
+    users.push(user);
+  } else {
+    index.set(key, [user]);
+  }
+}
+
+// Keep the previous array for keys whose users did not change, so
+// subscribers that compare snapshots by reference skip re-rendering.
+function reuseUnchanged(prev: PresenceIndex, next: PresenceIndex): PresenceIndex {
+  next.forEach((users, key) => {
+    const prevUsers = prev.get(key);
+
+    if (
+      prevUsers &&
+      prevUsers.length === users.length &&
+      prevUsers.every((user, index) => isSameUser(user, users[index]))
+    ) {
+      next.set(key, prevUsers);
+    }
+  });
+
+  return next;
+}
+
+/**
+ * Indexes the remote presences of a workspace awareness by page, row and
+ * cell, so each sidebar item or grid cell only looks up its own entry.
+ */
+export function createWorkspacePresenceStore(awareness: Awareness, localDeviceId?: string): WorkspacePresenceStore {
+  let views: PresenceIndex = new Map();
+  let rows: PresenceIndex = new Map();
+  let cells: PresenceIndex = new Map();
+  const listeners = new Set<() => void>();
+
+  const rebuild = () => {
+    const nextViews: PresenceIndex = new Map();
+    const nextRows: PresenceIndex = new Map();
+    const nextCells: PresenceIndex = new Map();
+
+    getPresenceUsers(awareness, localDeviceId).forEach((user) => {
+      const { view_id, row_id, cell } = user.presence;
+
+      addToIndex(nextViews, view_id, user);
+      addToIndex(nextRows, row_id, user);
+      addToIndex(nextCells, cell ? getCellKey(cell.row_id, cell.field_id) : undefined, user);
+    });
+
+    views = reuseUnchanged(views, nextViews);
+    rows = reuseUnchanged(rows, nextRows);
+    cells = reuseUnchanged(cells, nextCells);
+    listeners.forEach((listener) => listener());
+  };
+
+  rebuild();
+  awareness.on('change', rebuild);
+
+  return {
+    getViewUsers: (viewId) => views.get(viewId) ?? EMPTY_USERS,
+    getRowUsers: (rowId) => rows.get(rowId) ?? EMPTY_USERS,
+    getCellUsers: (rowId, fieldId) => cells.get(getCellKey(rowId, fieldId)) ?? EMPTY_USERS,
+    subscribe: (listener) => {
+      listeners.add(listener);
+
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    destroy: () => {
+      awareness.off('change', rebuild);
+      listeners.clear();
+    },
+  };
+}
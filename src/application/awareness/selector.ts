@@ -12,7 +12,7 @@ import { convertAwarenessSelection } from './utils';
 // Re-export types for backward compatibility
 export type { AwarenessMetadata, AwarenessSelection, AwarenessState, AwarenessUser, Cursor } from './types';
 
-const getAwarenessIdentityKey = (uuid: string | undefined, uid: number, deviceId: string) => {
+export const getAwarenessIdentityKey = (uuid: string | undefined, uid: number, deviceId: string) => {
   if (uuid) {
     return `uuid:${uuid}`;
   }
@@ -56,7 +56,7 @@ const getUniqueUsersInStableOrder = (users: AwarenessUser[]) => {
     .map(([, user]) => user);
 };
 
-const getNormalizedMetadata = (rawMetadata?: string): AwarenessMetadata | null => {
+export const getNormalizedMetadata = (rawMetadata?: string): AwarenessMetadata | null => {
   if (!rawMetadata) {
     return null;
   }
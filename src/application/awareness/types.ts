@@ -38,6 +38,23 @@ export interface AwarenessState {
   };
   metadata?: string;
   selection?: AwarenessSelection | null;
+  presence?: AwarenessPresence | null;
+}
+
+/** Where a user is in the workspace, shared through the workspace awareness. */
+export interface AwarenessPresence {
+  view_id?: string;
+  /** Row whose detail modal is open. */
+  row_id?: string;
+  /** Grid cell currently selected. */
+  cell?: {
+    row_id: string;
+    field_id: string;
+  };
+}
+
+export interface PresenceUser extends AwarenessUser {
+  presence: AwarenessPresence;
 }
 
 export interface Cursor {
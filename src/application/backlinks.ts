@@ -0,0 +1,236 @@
+import { Element, Text } from 'slate';
+import * as Y from 'yjs';
+
+import { db } from '@/application/db';
+import { BacklinkRecord, BacklinkReference } from '@/application/db/tables/backlinks';
+import { CollabService } from '@/application/services/domains';
+import { getTokenParsed } from '@/application/session/token';
+import { yDataToSlateContent } from '@/application/slate-yjs/utils/convert';
+import { Mention, MentionType, View, ViewLayout, YDoc, YjsEditorKey, YSharedRoot } from '@/application/types';
+import { applyYDoc } from '@/application/ydoc/apply';
+import { Log } from '@/utils/log';
+
+const SNIPPET_CONTEXT_LENGTH = 60;
+
+/** Where an indexed document lives: a page, or the document of a database row. */
+export interface BacklinkSource {
+  workspaceId: string;
+  sourceId: string;
+  databaseId?: string;
+  databaseViewId?: string;
+  rowId?: string;
+}
+
+function currentUserId(): string | undefined {
+  return getTokenParsed()?.user?.id;
+}
+
+/**
+ * The views a mention points at. Row mentions point at the row document rather
+ * than the database view that hosts it.
+ */
+export function getMentionTargetIds(mention: Mention): string[] {
+  if (mention.type !== MentionType.PageRef && mention.type !== MentionType.childPage) return [];
+
+  if (mention.row_id || mention.database_row_id) {
+    return mention.row_document_id ? [mention.row_document_id] : [];
+  }
+
+  return mention.page_id ? [mention.page_id] : [];
+}
+
+function leafText(leaf: Text): string {
+  if (leaf.mention) return '@';
+  if (leaf.formula) return leaf.formula;
+  if (leaf.footnote) return '';
+  return leaf.text;
+}
+
+function collapseWhitespace(text: string) {
+  return text.replace(/\s+/g, ' ');
+}
+
+function truncateStart(text: string) {
+  const value = collapseWhitespace(text).trimStart();
+
+  return value.length > SNIPPET_CONTEXT_LENGTH ? `…${value.slice(-SNIPPET_CONTEXT_LENGTH).trimStart()}` : value;
+}
+
+function truncateEnd(text: string) {
+  const value = collapseWhitespace(text).trimEnd();
+
+  return value.length > SNIPPET_CONTEXT_LENGTH ? `${value.slice(0, SNIPPET_CONTEXT_LENGTH).trimEnd()}…` : value;
+}
+
+function collectBlockReferences(blockId: string, leaves: Text[], sourceId: string): BacklinkReference[] {
+  const texts = leaves.map(leafText);
+  const references: BacklinkReference[] = [];
+
+  leaves.forEach((leaf, index) => {
+    if (!leaf.mention) return;
+
+    getMentionTargetIds(leaf.mention as Mention).forEach((targetId) => {
+      if (targetId === sourceId) return;
+
+      references.push({
+        target_id: targetId,
+        block_id: blockId,
+        before: truncateStart(texts.slice(0, index).join('')),
+        after: truncateEnd(texts.slice(index + 1).join('')),
+      });
+    });
+  });
+
+  return references;
+}
+
+/**
+ * Every page mention in the document, in reading order, with the text around it.
+ * Mentions of the document itself are ignored.
+ */
+export function extractBacklinkReferences(doc: YDoc, sourceId: string): BacklinkReference[] {
+  const sharedRoot = doc.getMap(YjsEditorKey.data_section) as YSharedRoot;
+
+  if (!sharedRoot.get(YjsEditorKey.document)) return [];
+
+  const root = yDataToSlateContent(sharedRoot);
+  const references: BacklinkReference[] = [];
+
+  if (!root) return references;
+
+  const walk = (element: Element) => {
+    element.children.forEach((child) => {
+      if (!Element.isElement(child)) return;
+
+      if (child.type === YjsEditorKey.text) {
+        if (element.blockId) {
+          references.push(...collectBlockReferences(element.blockId, child.children as Text[], sourceId));
+        }
+
+        return;
+      }
+
+      walk(child);
+    });
+  };
+
+  walk(root);
+  return references;
+}
+
+/**
+ * Replace the indexed mentions of one document. Documents without page
+ * mentions keep an empty record, so the workspace pass knows they are indexed.
+ */
+export async function indexDocumentBacklinks(doc: YDoc, source: BacklinkSource): Promise<void> {
+  const userId = currentUserId();
+
+  if (!userId) return;
+
+  const references = extractBacklinkReferences(doc, source.sourceId);
+
+  try {
+    await db.backlinks.put({
+      user_id: userId,
+      workspace_id: source.workspaceId,
+      source_id: source.sourceId,
+      database_id: source.databaseId,
+      database_view_id: source.databaseViewId,
+      row_id: source.rowId,
+      target_ids: Array.from(new Set(references.map((reference) => reference.target_id))),
+      references,
+      updated_at: Date.now(),
+    });
+  } catch (error) {
+    Log.warn('[Backlinks] failed to index document', { sourceId: source.sourceId, error });
+  }
+}
+
+/**
+ * Index the pages of the workspace edited since they were last indexed, one at
+ * a time, so pages never opened on this device show up as backlinks too.
+ * Pages are fetched from the server without touching the local collab cache.
+ * Row documents are indexed when they are opened.
+ */
+export async function indexWorkspaceBacklinks(
+  workspaceId: string,
+  views: View[],
+  isCancelled: () => boolean = () => false
+): Promise<void> {
+  const userId = currentUserId();
+
+  if (!userId) return;
+
+  let indexedAt: Map<string, number>;
+
+  try {
+    const records = await db.backlinks.where('[user_id+workspace_id]').equals([userId, workspaceId]).toArray();
+
+    indexedAt = new Map(records.map((record) => [record.source_id, record.updated_at]));
+  } catch (error) {
+    Log.warn('[Backlinks] failed to read the index', { workspaceId, error });
+    return;
+  }
+
+  for (const view of views) {
+    if (isCancelled()) return;
+    if (view.layout !== ViewLayout.Document || view.extra?.is_space) continue;
+
+    const lastIndexed = indexedAt.get(view.view_id);
+
+    if (lastIndexed !== undefined && !(Date.parse(view.last_edited_time ?? '') > lastIndexed)) continue;
+
+    try {
+      const { data } = await CollabService.getPageCollab(workspaceId, view.view_id);
+      const doc = new Y.Doc() as YDoc;
+
+      applyYDoc(doc, data);
+      await indexDocumentBacklinks(doc, { workspaceId, sourceId: view.view_id });
+      doc.destroy();
+    } catch (error) {
+      Log.warn('[Backlinks] failed to index page', { viewId: view.view_id, error });
+    }
+  }
+}
+
+/** Documents in the workspace that mention `viewId`, most recently edited first. */
+export async function getBacklinks(workspaceId: string, viewId: string): Promise<BacklinkRecord[]> {
+  const userId = currentUserId();
+
+  if (!userId) return [];
+
+  try {
+    const records = await db.backlinks
+      .where('target_ids')
+      .equals(viewId)
+      .filter((record) => record.user_id === userId && record.workspace_id === workspaceId)
+      .toArray();
+
+    return records.sort((a, b) => b.updated_at - a.updated_at);
+  } catch (error) {
+    Log.warn('[Backlinks] failed to read backlinks', { viewId, error });
+    return [];
+  }
+}
+
+/**
+ * Drop the indexed mentions of pages that were moved to the trash or deleted,
+ * along with the rows of trashed database views.
+ */
+export async function removeBacklinkSources(workspaceId: string, viewIds: string[]): Promise<void> {
+  const userId = currentUserId();
+
+  if (!userId || viewIds.length === 0) return;
+
+  const ids = new Set(viewIds);
+
+  try {
+    await db.backlinks
+      .where('[user_id+workspace_id]')
+      .equals([userId, workspaceId])
+      .filter((record) => ids.has(record.source_id) || (!!record.database_view_id && ids.has(record.database_view_id)))
+      .delete();
+  } catch (error) {
+    Log.warn('[Backlinks] failed to remove sources', { workspaceId, error });
+  }
+}
@@ -0,0 +1,298 @@
+import * as Y from 'yjs';
+
+import { getDatabaseRowDocFromSeed } from '@/application/database-blob';
+import {
+  compareSnapshotRows,
+  createDatabaseSnapshot,
+  deleteDatabaseSnapshot,
+  getDatabaseRowIds,
+  openDatabaseSnapshot,
+  restoreDatabaseSnapshot,
+} from '@/application/database-snapshots';
+import { CollabService } from '@/application/services/domains';
+import { Types, YDatabase, YDoc, YjsDatabaseKey, YjsEditorKey, YSharedRoot } from '@/application/types';
+import { getDatabaseIdFromDoc } from '@/application/view-loader';
+
+// The shared lodash-es mock treats every value as equal
+jest.mock('lodash-es', () => jest.requireActual('lodash'));
+
+jest.mock('@/application/services/domains', () => ({
+  CollabService: {
+    createVersion: jest.fn(),
+    getVersions: jest.fn(),
+    previewVersion: jest.fn(),
+    deleteVersion: jest.fn(),
+  },
+}));
+
+jest.mock('@/application/view-loader', () => ({
+  getDatabaseIdFromDoc: jest.fn(),
+}));
+
+jest.mock('@/application/database-blob', () => ({
+  getDatabaseRowDocFromSeed: jest.fn(),
+  prefetchDatabaseBlobDiff: jest.fn(() => Promise.resolve()),
+}));
+
+jest.mock('@/application/services/js-services/cache', () => ({
+  createRow: jest.fn(),
+}));
+
+/**
+ * Collab versions kept the way the server does: the snapshot of a live doc,
+ * read back by rebuilding the doc as it was at that snapshot.
+ */
+function mockVersionServer(docs: Record<string, YDoc>) {
+  const versions: { objectId: string; versionId: string; name: string; snapshot: Uint8Array; deleted?: boolean }[] = [];
+
+  jest.mocked(CollabService.createVersion).mockImplementation(async (_workspaceId, objectId, _type, name, snapshot) => {
+    const versionId = `version-${versions.length + 1}`;
+
+    versions.push({ objectId, versionId, name, snapshot });
+    return versionId;
+  });
+  jest.mocked(CollabService.getVersions).mockImplementation(async (_workspaceId, objectId) =>
+    versions
+      .filter((version) => version.objectId === objectId)
+      .map(({ versionId, name, deleted }) => ({
+        versionId,
+        name,
+        parentId: null,
+        createdAt: new Date(),
+        deletedAt: deleted ? new Date() : null,
+        editors: [],
+      }))
+  );
+  jest.mocked(CollabService.deleteVersion).mockImplementation(async (_workspaceId, objectId, versionId) => {
+    const version = versions.find((item) => item.objectId === objectId && item.versionId === versionId);
+
+    if (version) version.deleted = true;
+  });
+  jest.mocked(CollabService.previewVersion).mockImplementation(async (_workspaceId, objectId, versionId) => {
+    const version = versions.find((item) => item.versionId === versionId);
+
+    if (!version) throw new Error('version not found');
+    return Y.encodeStateAsUpdate(Y.createDocFromSnapshot(docs[objectId], Y.decodeSnapshot(version.snapshot)));
+  });
+}
+
+function createDatabaseDoc(fieldIds: string[], rowIds: string[]): YDoc {
+  const doc = new Y.Doc({ gc: false }) as YDoc;
+  const database = new Y.Map() as YDatabase;
+  const fields = new Y.Map();
+  const views = new Y.Map();
+  const view = new Y.Map();
+  const rowOrders = new Y.Array();
+
+  (doc.getMap(YjsEditorKey.data_section) as YSharedRoot).set(YjsEditorKey.database, database);
+  database.set(YjsDatabaseKey.id, 'database-1');
+  database.set(YjsDatabaseKey.fields, fields);
+  database.set(YjsDatabaseKey.views, views);
+  fieldIds.forEach((fieldId, index) => {
+    const field = new Y.Map();
+
+    field.set(YjsDatabaseKey.id, fieldId);
+    field.set(YjsDatabaseKey.name, fieldId);
+    field.set(YjsDatabaseKey.is_primary, index === 0);
+    fields.set(fieldId, field);
+  });
+  views.set('view-1', view);
+  view.set(YjsDatabaseKey.row_orders, rowOrders);
+  rowOrders.push(rowIds.map((id) => ({ id, height: 36 })));
+  return doc;
+}
+
+function createRowDoc(rowId: string, cells: Record<string, string>): YDoc {
+  const doc = new Y.Doc({ gc: false }) as YDoc;
+  const row = new Y.Map();
+  const cellsMap = new Y.Map();
+
+  (doc.getMap(YjsEditorKey.data_section) as YSharedRoot).set(YjsEditorKey.database_row, row);
+  row.set(YjsDatabaseKey.id, rowId);
+  row.set(YjsDatabaseKey.cells, cellsMap);
+  Object.entries(cells).forEach(([fieldId, data]) => {
+    const cell = new Y.Map();
+
+    cell.set(YjsDatabaseKey.data, data);
+    cellsMap.set(fieldId, cell);
+  });
+  return doc;
+}
+
+function rowCells(rowDoc: YDoc) {
+  const row = (rowDoc.getMap(YjsEditorKey.data_section) as YSharedRoot).get(YjsEditorKey.database_row);
+
+  return row.get(YjsDatabaseKey.cells).toJSON();
+}
+
+function fieldIds(doc: YDoc) {
+  const database = (doc.getMap(YjsEditorKey.data_section) as YSharedRoot).get(YjsEditorKey.database);
+
+  return Array.from(database.get(YjsDatabaseKey.fields).keys()).sort();
+}
+
+async function takeSnapshot(doc: YDoc, rows: Record<string, YDoc>) {
+  jest.mocked(getDatabaseRowDocFromSeed).mockImplementation((rowKey) => rows[rowKey.split('_rows_')[1]] ?? null);
+
+  mockVersionServer({ 'database-1': doc, ...rows });
+
+  const created = await createDatabaseSnapshot('workspace-1', doc, 'Before cleanup');
+
+  if (!created) throw new Error('snapshot not created');
+  return openDatabaseSnapshot('workspace-1', 'database-1', created);
+}
+
+describe('database snapshots', () => {
+  let doc: YDoc;
+  let rows: Record<string, YDoc>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.mocked(getDatabaseIdFromDoc).mockReturnValue('database-1');
+
+    doc = createDatabaseDoc(['name', 'status'], ['row-1', 'row-2']);
+    rows = {
+      'row-1': createRowDoc('row-1', { name: 'Write spec', status: 'Done' }),
+      'row-2': createRowDoc('row-2', { name: 'Ship it', status: 'Todo' }),
+    };
+  });
+
+  it('saves the database and every listed row as versions on the server', async () => {
+    const snapshot = await takeSnapshot(doc, rows);
+
+    expect(CollabService.createVersion).toHaveBeenCalledWith(
+      'workspace-1',
+      'database-1',
+      Types.Database,
+      'Before cleanup',
+      expect.any(Uint8Array)
+    );
+    expect(CollabService.createVersion).toHaveBeenCalledWith(
+      'workspace-1',
+      'row-2',
+      Types.DatabaseRow,
+      'version-1',
+      expect.any(Uint8Array)
+    );
+    expect(getDatabaseRowIds(snapshot.doc)).toEqual(['row-1', 'row-2']);
+    expect(rowCells(snapshot.rowMap['row-2'])).toEqual({ name: { data: 'Ship it' }, status: { data: 'Todo' } });
+  });
+
+  it('restores a deleted field, its cells and deleted rows for the whole database', async () => {
+    const snapshot = await takeSnapshot(doc, rows);
+    const database = (doc.getMap(YjsEditorKey.data_section) as YSharedRoot).get(YjsEditorKey.database);
+    const rowOrders = database.get(YjsDatabaseKey.views).get('view-1').get(YjsDatabaseKey.row_orders);
+
+    database.get(YjsDatabaseKey.fields).delete('status');
+    Object.values(rows).forEach((rowDoc) => {
+      (rowDoc.getMap(YjsEditorKey.data_section) as YSharedRoot)
+        .get(YjsEditorKey.database_row)
+        .get(YjsDatabaseKey.cells)
+        .delete('status');
+    });
+    rowOrders.delete(1, 1);
+    rowOrders.push([{ id: 'row-3', height: 36 }]);
+
+    const releaseRow = jest.fn();
+
+    await restoreDatabaseSnapshot(doc, snapshot, {
+      openRow: (rowKey) => Promise.resolve(rows[rowKey.split('_rows_')[1]]),
+      releaseRow,
+    });
+
+    expect(fieldIds(doc)).toEqual(['name', 'status']);
+    expect(getDatabaseRowIds(doc)).toEqual(['row-1', 'row-2']);
+    expect(rowCells(rows['row-1'])).toEqual({ name: { data: 'Write spec' }, status: { data: 'Done' } });
+    expect(releaseRow).toHaveBeenCalledTimes(2);
+    // Observers hold on to the row orders array, so it must be updated in place
+    expect(database.get(YjsDatabaseKey.views).get('view-1').get(YjsDatabaseKey.row_orders)).toBe(rowOrders);
+  });
+
+  it('restores only the selected rows and re-lists them where they were', async () => {
+    const snapshot = await takeSnapshot(doc, rows);
+    const database = (doc.getMap(YjsEditorKey.data_section) as YSharedRoot).get(YjsEditorKey.database);
+    const rowOrders = database.get(YjsDatabaseKey.views).get('view-1').get(YjsDatabaseKey.row_orders);
+
+    rowOrders.delete(0, 1);
+    rowOrders.push([{ id: 'row-3', height: 36 }]);
+    database.get(YjsDatabaseKey.fields).delete('status');
+
+    await restoreDatabaseSnapshot(
+      doc,
+      snapshot,
+      { openRow: (rowKey) => Promise.resolve(rows[rowKey.split('_rows_')[1]]) },
+      ['row-1']
+    );
+
+    expect(getDatabaseRowIds(doc)).toEqual(['row-1', 'row-2', 'row-3']);
+    expect(fieldIds(doc)).toEqual(['name']);
+  });
+
+  it('reports deleted and changed rows', async () => {
+    const snapshot = await takeSnapshot(doc, rows);
+    const liveRows = {
+      'row-2': createRowDoc('row-2', { name: 'Ship it', status: 'In progress' }),
+    };
+    const database = (doc.getMap(YjsEditorKey.data_section) as YSharedRoot).get(YjsEditorKey.database);
+
+    database.get(YjsDatabaseKey.views).get('view-1').get(YjsDatabaseKey.row_orders).delete(0, 1);
+
+    expect(compareSnapshotRows(doc, snapshot, (rowId) => liveRows[rowId as keyof typeof liveRows])).toEqual([
+      { rowId: 'row-1', title: 'Write spec', status: 'deleted' },
+      { rowId: 'row-2', title: 'Ship it', status: 'changed' },
+    ]);
+  });
+
+  it('deletes the versions it created when a row cannot be saved', async () => {
+    mockVersionServer({ 'database-1': doc, ...rows });
+    jest.mocked(getDatabaseRowDocFromSeed).mockImplementation((rowKey) => rows[rowKey.split('_rows_')[1]] ?? null);
+    jest.mocked(CollabService.createVersion).mockImplementationOnce(async () => 'version-1');
+    jest.mocked(CollabService.createVersion).mockImplementationOnce(async () => 'version-2');
+    jest.mocked(CollabService.createVersion).mockRejectedValueOnce(new Error('quota exceeded'));
+
+    await expect(createDatabaseSnapshot('workspace-1', doc, 'Before cleanup')).rejects.toThrow('quota exceeded');
+
+    expect(CollabService.deleteVersion).toHaveBeenCalledWith('workspace-1', 'database-1', 'version-1');
+    expect(CollabService.deleteVersion).toHaveBeenCalledWith('workspace-1', 'row-1', 'version-2');
+  });
+
+  it('reports rows without a saved version and skips them on restore', async () => {
+    const snapshot = await takeSnapshot(doc, rows);
+    const rowVersion = (await CollabService.getVersions('workspace-1', 'row-2'))[0];
+
+    await CollabService.deleteVersion('workspace-1', 'row-2', rowVersion.versionId);
+
+    const reopened = await openDatabaseSnapshot('workspace-1', 'database-1', {
+      id: 'version-1',
+      name: 'Before cleanup',
+      createdAt: new Date(),
+    });
+
+    expect(reopened.missingRowIds).toEqual(['row-2']);
+    expect(compareSnapshotRows(doc, reopened, () => null)).toEqual([
+      { rowId: 'row-1', title: 'Write spec', status: 'unchanged' },
+      { rowId: 'row-2', title: '', status: 'missing' },
+    ]);
+    await expect(
+      restoreDatabaseSnapshot(doc, reopened, { openRow: (rowKey) => Promise.resolve(rows[rowKey.split('_rows_')[1]]) })
+    ).resolves.toEqual(['row-2']);
+    expect(snapshot.missingRowIds).toEqual([]);
+  });
+
+  it('deletes the row versions together with the checkpoint', async () => {
+    await takeSnapshot(doc, rows);
+
+    await deleteDatabaseSnapshot('workspace-1', 'database-1', {
+      id: 'version-1',
+      name: 'Before cleanup',
+      createdAt: new Date(),
+    });
+
+    const remaining = await Promise.all(
+      ['database-1', 'row-1', 'row-2'].map((objectId) => CollabService.getVersions('workspace-1', objectId))
+    );
+
+    expect(remaining.flat().every((version) => version.deletedAt)).toBe(true);
+    expect(CollabService.deleteVersion).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,520 @@
+/**
+ * Named checkpoints of a database.
+ *
+ * A checkpoint stores the database collab (fields, views, filters, sorts and
+ * row orders) together with the collab of every row the views listed, so the
+ * cell values are captured as well. Checkpoints are collab versions on the
+ * server, so every member of the workspace sees them. Restoring writes the checkpoint back into the live collabs as
+ * regular local edits, so other clients receive it through normal sync and
+ * the restore itself shows up in row activity like any other change.
+ */
+
+import { isEqual } from 'lodash-es';
+import * as Y from 'yjs';
+
+import { getDatabaseRowDocFromSeed, prefetchDatabaseBlobDiff } from '@/application/database-blob';
+import { getRowKey } from '@/application/database-yjs/row_meta';
+import { CollabService } from '@/application/services/domains';
+import { createRow } from '@/application/services/js-services/cache';
+import {
+  CollabOrigin,
+  RowId,
+  Types,
+  YDatabase,
+  YDatabaseField,
+  YDatabaseRow,
+  YDoc,
+  YjsDatabaseKey,
+  YjsEditorKey,
+  YSharedRoot,
+} from '@/application/types';
+import { encodeVersionSnapshot } from '@/application/version-diff';
+import { getDatabaseIdFromDoc } from '@/application/view-loader';
+import { Log } from '@/utils/log';
+
+export type DatabaseSnapshotRowStatus = 'deleted' | 'changed' | 'unchanged' | 'missing';
+
+/**
+ * How a row of a checkpoint compares with the live database. `missing` rows
+ * are listed by the checkpoint but their version could not be found, so their
+ * cells cannot be previewed or restored.
+ */
+export interface DatabaseSnapshotRowChange {
+  rowId: RowId;
+  /** Text of the primary field in the checkpoint. */
+  title: string;
+  status: DatabaseSnapshotRowStatus;
+}
+
+/** A checkpoint decoded into documents the `Database` component can render. */
+export interface OpenedDatabaseSnapshot {
+  doc: YDoc;
+  rowMap: Record<RowId, YDoc>;
+  /** Rows the checkpoint lists without a row version on the server. */
+  missingRowIds: RowId[];
+}
+
+/** Opens a live row collab for writing and releases it again. */
+export interface DatabaseSnapshotRowAccess {
+  openRow: (rowKey: string) => Promise<YDoc>;
+  releaseRow?: (rowId: RowId) => void;
+}
+
+function getDatabase(doc: YDoc): YDatabase | undefined {
+  return (doc.getMap(YjsEditorKey.data_section) as YSharedRoot).get(YjsEditorKey.database);
+}
+
+function getRow(rowDoc: YDoc): YDatabaseRow | undefined {
+  return (rowDoc.getMap(YjsEditorKey.data_section) as YSharedRoot).get(YjsEditorKey.database_row);
+}
+
+/** Ids of the rows any view of the database lists, in the order they first appear. */
+export function getDatabaseRowIds(doc: YDoc): RowId[] {
+  const rowIds = new Set<RowId>();
+
+  getDatabase(doc)
+    ?.get(YjsDatabaseKey.views)
+    ?.forEach((view) => {
+      view
+        .get(YjsDatabaseKey.row_orders)
+        ?.toArray()
+        .forEach((row) => {
+          if (!row.is_deleted) rowIds.add(row.id);
+        });
+    });
+
+  return Array.from(rowIds);
+}
+
+function cloneValue(value: unknown): unknown {
+  return value instanceof Y.AbstractType ? value.clone() : value;
+}
+
+function sameValue(left: unknown, right: unknown): boolean {
+  const toPlain = (value: unknown) => (value instanceof Y.AbstractType ? value.toJSON() : value);
+
+  return isEqual(toPlain(left), toPlain(right));
+}
+
+/**
+ * Make `target` hold the same content as `source`. Nested maps and arrays are
+ * updated in place rather than replaced, so observers attached to them by the
+ * database selectors keep working after a restore.
+ */
+export function syncYMap(target: Y.Map<unknown>, source: Y.Map<unknown>) {
+  Array.from(target.keys())
+    .filter((key) => !source.has(key))
+    .forEach((key) => target.delete(key));
+
+  source.forEach((value, key) => {
+    const current = target.get(key);
+
+    if (value instanceof Y.Map && current instanceof Y.Map) {
+      syncYMap(current, value);
+      return;
+    }
+
+    if (sameValue(value, current)) return;
+
+    if (value instanceof Y.Array && current instanceof Y.Array) {
+      current.delete(0, current.length);
+      current.insert(0, value.toArray().map(cloneValue));
+      return;
+    }
+
+    target.set(key, cloneValue(value));
+  });
+}
+
+/**
+ * Restore fields and the settings and row orders of every view that still
+ * exists. Views created after the checkpoint are kept; views deleted since
+ * then are not re-created because they also live in the folder.
+ */
+export function restoreDatabaseStructure(doc: YDoc, snapshotDoc: YDoc) {
+  const database = getDatabase(doc);
+  const snapshotDatabase = getDatabase(snapshotDoc);
+
+  if (!database || !snapshotDatabase) return;
+
+  doc.transact(() => {
+    syncYMap(database.get(YjsDatabaseKey.fields), snapshotDatabase.get(YjsDatabaseKey.fields));
+
+    const views = database.get(YjsDatabaseKey.views);
+
+    snapshotDatabase.get(YjsDatabaseKey.views).forEach((snapshotView, viewId) => {
+      const view = views.get(viewId);
+
+      if (view) syncYMap(view, snapshotView);
+    });
+  }, CollabOrigin.LocalManual);
+}
+
+/**
+ * Put rows back into the views that listed them in the checkpoint: after the
+ * closest previous row that is still there, or first when there is none.
+ */
+export function restoreRowOrders(doc: YDoc, snapshotDoc: YDoc, rowIds: RowId[]) {
+  const database = getDatabase(doc);
+  const snapshotDatabase = getDatabase(snapshotDoc);
+
+  if (!database || !snapshotDatabase) return;
+
+  doc.transact(() => {
+    const views = database.get(YjsDatabaseKey.views);
+
+    snapshotDatabase.get(YjsDatabaseKey.views).forEach((snapshotView, viewId) => {
+      const rowOrders = views.get(viewId)?.get(YjsDatabaseKey.row_orders);
+      const snapshotRows = snapshotView.get(YjsDatabaseKey.row_orders)?.toArray() ?? [];
+
+      if (!rowOrders) return;
+
+      rowIds.forEach((rowId) => {
+        const snapshotIndex = snapshotRows.findIndex((row) => row.id === rowId && !row.is_deleted);
+
+        if (snapshotIndex === -1) return;
+
+        const liveRows = rowOrders.toArray();
+        const liveIndex = liveRows.findIndex((row) => row.id === rowId);
+
+        if (liveIndex !== -1) {
+          if (!liveRows[liveIndex].is_deleted) return;
+
+          rowOrders.delete(liveIndex, 1);
+          rowOrders.insert(liveIndex, [{ ...snapshotRows[snapshotIndex] }]);
+          return;
+        }
+
+        let insertAt = 0;
+
+        for (let i = snapshotIndex - 1; i >= 0; i--) {
+          const previousIndex = liveRows.findIndex((row) => row.id === snapshotRows[i].id);
+
+          if (previousIndex !== -1) {
+            insertAt = previousIndex + 1;
+            break;
+          }
+        }
+
+        rowOrders.insert(insertAt, [{ ...snapshotRows[snapshotIndex] }]);
+      });
+    });
+  }, CollabOrigin.LocalManual);
+}
+
+/** Restore the cells and meta (icon, cover) of one row collab. */
+export function restoreRowContent(rowDoc: YDoc, snapshotRowDoc: YDoc) {
+  const sharedRoot = rowDoc.getMap(YjsEditorKey.data_section);
+  const snapshotRoot = snapshotRowDoc.getMap(YjsEditorKey.data_section);
+
+  rowDoc.transact(() => {
+    [YjsEditorKey.database_row, YjsEditorKey.meta].forEach((key) => {
+      const value = snapshotRoot.get(key);
+      const current = sharedRoot.get(key);
+
+      if (!(value instanceof Y.Map)) return;
+
+      if (current instanceof Y.Map) {
+        syncYMap(current, value);
+      } else {
+        sharedRoot.set(key, value.clone());
+      }
+    });
+  }, CollabOrigin.LocalManual);
+}
+
+function getPrimaryFieldId(doc: YDoc): string | undefined {
+  let primaryFieldId: string | undefined;
+
+  getDatabase(doc)
+    ?.get(YjsDatabaseKey.fields)
+    ?.forEach((field: YDatabaseField, fieldId) => {
+      if (field.get(YjsDatabaseKey.is_primary)) primaryFieldId = fieldId;
+    });
+
+  return primaryFieldId;
+}
+
+/**
+ * Compare the rows of a checkpoint with the live database. `getLiveRow`
+ * returns the live row collab when it is loaded; rows it cannot provide are
+ * reported by their presence in the row orders only.
+ */
+export function compareSnapshotRows(
+  doc: YDoc,
+  snapshot: OpenedDatabaseSnapshot,
+  getLiveRow: (rowId: RowId) => YDoc | null | undefined
+): DatabaseSnapshotRowChange[] {
+  const liveRowIds = new Set(getDatabaseRowIds(doc));
+  const missingRowIds = new Set(snapshot.missingRowIds);
+  const primaryFieldId = getPrimaryFieldId(snapshot.doc);
+
+  return getDatabaseRowIds(snapshot.doc).map((rowId) => {
+    const snapshotRow = snapshot.rowMap[rowId] ? getRow(snapshot.rowMap[rowId]) : undefined;
+    const title = primaryFieldId
+      ? String(snapshotRow?.get(YjsDatabaseKey.cells)?.get(primaryFieldId)?.get(YjsDatabaseKey.data) ?? '')
+      : '';
+
+    if (missingRowIds.has(rowId)) return { rowId, title, status: 'missing' };
+    if (!liveRowIds.has(rowId)) return { rowId, title, status: 'deleted' };
+
+    const liveRowDoc = getLiveRow(rowId);
+    const liveCells = liveRowDoc ? getRow(liveRowDoc)?.get(YjsDatabaseKey.cells) : undefined;
+    const changed = Boolean(liveCells) && !sameValue(snapshotRow?.get(YjsDatabaseKey.cells), liveCells);
+
+    return { rowId, title, status: changed ? 'changed' : 'unchanged' };
+  });
+}
+
+/** How many row versions are created or fetched at the same time. */
+const ROW_REQUEST_CONCURRENCY = 6;
+
+/** A named checkpoint: a named version of the database collab on the server. */
+export interface DatabaseSnapshot {
+  /** Id of the database collab version. */
+  id: string;
+  name: string;
+  createdAt: Date;
+}
+
+/**
+ * Run `run` over the items a batch at a time. A batch is always settled before
+ * the first failure is rethrown, so callers can clean up what the other
+ * requests of the batch created.
+ */
+async function forEachConcurrently<T>(items: T[], run: (item: T) => Promise<unknown>) {
+  for (let start = 0; start < items.length; start += ROW_REQUEST_CONCURRENCY) {
+    const results = await Promise.allSettled(items.slice(start, start + ROW_REQUEST_CONCURRENCY).map(run));
+    const failed = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+
+    if (failed) throw failed.reason;
+  }
+}
+
+/** The live row collab, loading the database's row seeds when it is not in memory yet. */
+async function readRowDoc(databaseId: string, rowId: RowId, prefetch: () => Promise<void>) {
+  const rowKey = getRowKey(databaseId, rowId);
+  let rowDoc = getDatabaseRowDocFromSeed(rowKey);
+
+  if (!rowDoc) {
+    await prefetch();
+    rowDoc = getDatabaseRowDocFromSeed(rowKey) ?? (await createRow(rowKey));
+  }
+
+  return rowDoc && getRow(rowDoc) ? rowDoc : null;
+}
+
+/** Delete versions on the server, logging the ones that fail instead of throwing. */
+async function deleteVersions(workspaceId: string, versions: { objectId: string; versionId: string }[]) {
+  await forEachConcurrently(versions, async ({ objectId, versionId }) => {
+    try {
+      await CollabService.deleteVersion(workspaceId, objectId, versionId);
+    } catch (error) {
+      Log.warn('[DatabaseSnapshots] failed to delete version', { objectId, versionId, error });
+    }
+  });
+}
+
+/**
+ * Save the current state of a database and its rows as a named checkpoint.
+ * The database collab gets a named version; every listed row gets a version
+ * named after it, which is how {@link openDatabaseSnapshot} finds the rows.
+ * When a row cannot be saved the versions created so far are deleted again,
+ * so an incomplete checkpoint is never listed.
+ */
+export async function createDatabaseSnapshot(
+  workspaceId: string,
+  doc: YDoc,
+  name: string
+): Promise<DatabaseSnapshot | undefined> {
+  const databaseId = getDatabaseIdFromDoc(doc);
+
+  if (!databaseId) return;
+
+  let prefetched: Promise<void> | undefined;
+  const prefetch = () => {
+    prefetched ??= prefetchDatabaseBlobDiff(workspaceId, databaseId, { forceFullSync: true }).then(
+      () => undefined,
+      (error) => Log.warn('[DatabaseSnapshots] failed to fetch rows for checkpoint', { databaseId, error })
+    );
+    return prefetched;
+  };
+
+  const id = await CollabService.createVersion(
+    workspaceId,
+    databaseId,
+    Types.Database,
+    name,
+    encodeVersionSnapshot(doc)
+  );
+
+  const rowVersions: { objectId: string; versionId: string }[] = [];
+
+  try {
+    await forEachConcurrently(getDatabaseRowIds(doc), async (rowId) => {
+      const rowDoc = await readRowDoc(databaseId, rowId, prefetch);
+
+      if (!rowDoc) {
+        throw new Error(`Row ${rowId} could not be loaded`);
+      }
+
+      const versionId = await CollabService.createVersion(
+        workspaceId,
+        rowId,
+        Types.DatabaseRow,
+        id,
+        encodeVersionSnapshot(rowDoc)
+      );
+
+      rowVersions.push({ objectId: rowId, versionId });
+    });
+  } catch (error) {
+    await deleteVersions(workspaceId, [{ objectId: databaseId, versionId: id }, ...rowVersions]);
+    throw error;
+  }
+
+  return { id, name, createdAt: new Date() };
+}
+
+/** Checkpoints of a database, newest first. */
+export async function listDatabaseSnapshots(workspaceId: string, databaseId: string): Promise<DatabaseSnapshot[]> {
+  const versions = await CollabService.getVersions(workspaceId, databaseId);
+
+  return versions
+    .filter((version) => version.name && !version.deletedAt)
+    .map((version) => ({ id: version.versionId, name: version.name as string, createdAt: version.createdAt }))
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
+
+/** The version of each row of a checkpoint; rows without one are left out. */
+async function findRowVersions(workspaceId: string, rowIds: RowId[], snapshot: DatabaseSnapshot) {
+  const versions = new Map<RowId, string>();
+
+  await forEachConcurrently(rowIds, async (rowId) => {
+    // Row versions are created right after the database version.
+    const rowVersions = await CollabService.getVersions(workspaceId, rowId, snapshot.createdAt);
+    const version = rowVersions.find((item) => item.name === snapshot.id && !item.deletedAt);
+
+    if (version) versions.set(rowId, version.versionId);
+  });
+
+  return versions;
+}
+
+/**
+ * Delete a checkpoint together with the row versions it points at. The row
+ * versions go first, so a checkpoint whose deletion is interrupted is still
+ * listed and can be deleted again.
+ */
+export async function deleteDatabaseSnapshot(workspaceId: string, databaseId: string, snapshot: DatabaseSnapshot) {
+  const doc = createSnapshotDoc(
+    databaseId,
+    await CollabService.previewVersion(workspaceId, databaseId, snapshot.id, Types.Database)
+  );
+
+  try {
+    const rowVersions = await findRowVersions(workspaceId, getDatabaseRowIds(doc), snapshot);
+
+    await forEachConcurrently(Array.from(rowVersions), ([rowId, versionId]) =>
+      CollabService.deleteVersion(workspaceId, rowId, versionId)
+    );
+  } finally {
+    doc.destroy();
+  }
+
+  await CollabService.deleteVersion(workspaceId, databaseId, snapshot.id);
+}
+
+function createSnapshotDoc(guid: string, state: Uint8Array) {
+  const doc = new Y.Doc({ guid }) as YDoc;
+
+  doc.object_id = guid;
+  Y.applyUpdate(doc, state);
+  return doc;
+}
+
+/**
+ * Fetch a checkpoint from the server and decode it into detached documents.
+ * Rows without a version of the checkpoint are reported in `missingRowIds`.
+ * Callers destroy the documents with {@link closeDatabaseSnapshot}.
+ */
+export async function openDatabaseSnapshot(
+  workspaceId: string,
+  databaseId: string,
+  snapshot: DatabaseSnapshot
+): Promise<OpenedDatabaseSnapshot> {
+  const doc = createSnapshotDoc(
+    databaseId,
+    await CollabService.previewVersion(workspaceId, databaseId, snapshot.id, Types.Database)
+  );
+  const rowIds = getDatabaseRowIds(doc);
+  const rowMap: Record<RowId, YDoc> = {};
+
+  try {
+    const rowVersions = await findRowVersions(workspaceId, rowIds, snapshot);
+
+    await forEachConcurrently(Array.from(rowVersions), async ([rowId, versionId]) => {
+      rowMap[rowId] = createSnapshotDoc(
+        rowId,
+        await CollabService.previewVersion(workspaceId, rowId, versionId, Types.DatabaseRow)
+      );
+    });
+  } catch (error) {
+    closeDatabaseSnapshot({ doc, rowMap, missingRowIds: [] });
+    throw error;
+  }
+
+  return { doc, rowMap, missingRowIds: rowIds.filter((rowId) => !rowMap[rowId]) };
+}
+
+export function closeDatabaseSnapshot(snapshot: OpenedDatabaseSnapshot) {
+  snapshot.doc.destroy();
+  Object.values(snapshot.rowMap).forEach((rowDoc) => rowDoc.destroy());
+}
+
+/**
+ * Write a checkpoint back into the live database. Without `rowIds` the whole
+ * database is restored: fields, views, row orders and every row's cells.
+ * With `rowIds` only those rows get their cells back and are re-listed in the
+ * views they were removed from. Resolves with the rows whose cells could not
+ * be restored because the checkpoint has no version of them.
+ */
+export async function restoreDatabaseSnapshot(
+  doc: YDoc,
+  snapshot: OpenedDatabaseSnapshot,
+  rows: DatabaseSnapshotRowAccess,
+  rowIds?: RowId[]
+): Promise<RowId[]> {
+  const databaseId = getDatabaseIdFromDoc(doc);
+
+  if (!databaseId) {
+    throw new Error('Database not found');
+  }
+
+  const missingRowIds: RowId[] = [];
+
+  for (const rowId of rowIds ?? getDatabaseRowIds(snapshot.doc)) {
+    const snapshotRowDoc = snapshot.rowMap[rowId];
+
+    if (!snapshotRowDoc) {
+      missingRowIds.push(rowId);
+      continue;
+    }
+
+    const rowDoc = await rows.openRow(getRowKey(databaseId, rowId));
+
+    try {
+      restoreRowContent(rowDoc, snapshotRowDoc);
+    } finally {
+      rows.releaseRow?.(rowId);
+    }
+  }
+
+  if (rowIds) {
+    restoreRowOrders(doc, snapshot.doc, rowIds);
+  } else {
+    restoreDatabaseStructure(doc, snapshot.doc);
+  }
+
+  return missingRowIds;
+}
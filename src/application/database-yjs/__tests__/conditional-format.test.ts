@@ -0,0 +1,248 @@
+import * as Y from 'yjs';
+
+jest.mock('@/utils/runtime-config', () => ({
+  getConfigValue: (_key: string, defaultValue: string) => defaultValue,
+}));
+
+import {
+  createConditionalFormat,
+  DEFAULT_CONDITIONAL_FORMAT_COLOR,
+  EMPTY_CONDITIONAL_FORMAT_STYLE,
+  getConditionalFormatStyle,
+  isConditionalFormatStyleEqual,
+  parseConditionalFormatRule,
+} from '@/application/database-yjs/conditional-format';
+import { FieldType, FilterType } from '@/application/database-yjs/database.type';
+import { NumberFilterCondition, SelectOptionColor, TextFilterCondition } from '@/application/database-yjs/fields';
+import {
+  ConditionalFormatTarget,
+  RowId,
+  YDatabaseConditionalFormat,
+  YDatabaseConditionalFormats,
+  YDatabaseFields,
+  YDoc,
+  YjsDatabaseKey,
+} from '@/application/types';
+
+import { createCell, createField, createRowDoc } from './test-helpers';
+
+const databaseId = 'db-format';
+const textFieldId = 'text-field';
+const numberFieldId = 'number-field';
+
+function createFormats(
+  configs: {
+    fieldId: string;
+    fieldType: FieldType;
+    condition: number;
+    content?: string;
+    target: ConditionalFormatTarget;
+    color: SelectOptionColor;
+  }[]
+): YDatabaseConditionalFormats {
+  const doc = new Y.Doc();
+  const formats = doc.getArray('formats') as YDatabaseConditionalFormats;
+
+  formats.push(
+    configs.map((config, index) => {
+      const format = new Y.Map() as YDatabaseConditionalFormat;
+
+      format.set(YjsDatabaseKey.id, `format-${index}`);
+      format.set(YjsDatabaseKey.field_id, config.fieldId);
+      format.set(YjsDatabaseKey.type, config.fieldType);
+      format.set(YjsDatabaseKey.filter_type, FilterType.Data);
+      format.set(YjsDatabaseKey.condition, config.condition);
+      format.set(YjsDatabaseKey.content, config.content ?? '');
+      format.set(YjsDatabaseKey.format_target, config.target);
+      format.set(YjsDatabaseKey.format_color, config.color);
+      return format;
+    })
+  );
+  return formats;
+}
+
+describe('conditional format rules', () => {
+  const fields = new Map() as unknown as YDatabaseFields;
+
+  fields.set(textFieldId, createField(textFieldId, FieldType.RichText));
+  fields.set(numberFieldId, createField(numberFieldId, FieldType.Number));
+
+  const rowMetas: Record<RowId, YDoc> = {
+    'row-a': createRowDoc('row-a', databaseId, {
+      [textFieldId]: createCell(FieldType.RichText, 'Urgent fix'),
+      [numberFieldId]: createCell(FieldType.Number, '80'),
+    }),
+    'row-b': createRowDoc('row-b', databaseId, {
+      [textFieldId]: createCell(FieldType.RichText, 'Docs'),
+      [numberFieldId]: createCell(FieldType.Number, '20'),
+    }),
+  };
+
+  it('colors the row with the first matching rule', () => {
+    const formats = createFormats([
+      {
+        fieldId: numberFieldId,
+        fieldType: FieldType.Number,
+        condition: NumberFilterCondition.GreaterThan,
+        content: '50',
+        target: ConditionalFormatTarget.Row,
+        color: SelectOptionColor.OptionColor1,
+      },
+      {
+        fieldId: textFieldId,
+        fieldType: FieldType.RichText,
+        condition: TextFilterCondition.TextContains,
+        content: 'urgent',
+        target: ConditionalFormatTarget.Row,
+        color: SelectOptionColor.OptionColor2,
+      },
+    ]);
+
+    expect(getConditionalFormatStyle(formats, fields, rowMetas, 'row-a')).toEqual({
+      rowColor: SelectOptionColor.OptionColor1,
+      cellColors: {},
+    });
+    expect(getConditionalFormatStyle(formats, fields, rowMetas, 'row-b')).toBe(EMPTY_CONDITIONAL_FORMAT_STYLE);
+  });
+
+  it('colors cells per field independently of row rules', () => {
+    const formats = createFormats([
+      {
+        fieldId: numberFieldId,
+        fieldType: FieldType.Number,
+        condition: NumberFilterCondition.LessThan,
+        content: '50',
+        target: ConditionalFormatTarget.Cell,
+        color: SelectOptionColor.OptionColor3,
+      },
+      {
+        fieldId: numberFieldId,
+        fieldType: FieldType.Number,
+        condition: NumberFilterCondition.LessThan,
+        content: '100',
+        target: ConditionalFormatTarget.Cell,
+        color: SelectOptionColor.OptionColor4,
+      },
+      {
+        fieldId: textFieldId,
+        fieldType: FieldType.RichText,
+        condition: TextFilterCondition.TextIsNotEmpty,
+        target: ConditionalFormatTarget.Row,
+        color: SelectOptionColor.OptionColor6,
+      },
+    ]);
+
+    expect(getConditionalFormatStyle(formats, fields, rowMetas, 'row-a')).toEqual({
+      rowColor: SelectOptionColor.OptionColor6,
+      cellColors: { [numberFieldId]: SelectOptionColor.OptionColor4 },
+    });
+    expect(getConditionalFormatStyle(formats, fields, rowMetas, 'row-b')).toEqual({
+      rowColor: SelectOptionColor.OptionColor6,
+      cellColors: { [numberFieldId]: SelectOptionColor.OptionColor3 },
+    });
+  });
+
+  it('has no style without rules or for an unloaded row', () => {
+    const formats = createFormats([
+      {
+        fieldId: textFieldId,
+        fieldType: FieldType.RichText,
+        condition: TextFilterCondition.TextIsNotEmpty,
+        target: ConditionalFormatTarget.Row,
+        color: SelectOptionColor.OptionColor1,
+      },
+    ]);
+
+    expect(getConditionalFormatStyle(undefined, fields, rowMetas, 'row-a')).toBe(EMPTY_CONDITIONAL_FORMAT_STYLE);
+    expect(getConditionalFormatStyle(formats, fields, rowMetas, 'row-missing')).toBe(EMPTY_CONDITIONAL_FORMAT_STYLE);
+  });
+
+  it('matches relation rules against the resolved relation titles', () => {
+    const relationFieldId = 'relation-field';
+    const relationFields = new Map() as unknown as YDatabaseFields;
+
+    relationFields.set(relationFieldId, createField(relationFieldId, FieldType.Relation));
+
+    const relationRowMetas: Record<RowId, YDoc> = {
+      'row-a': createRowDoc('row-a', databaseId, {
+        [relationFieldId]: createCell(FieldType.Relation, new Y.Array<string>()),
+      }),
+    };
+    const formats = createFormats([
+      {
+        fieldId: relationFieldId,
+        fieldType: FieldType.Relation,
+        condition: TextFilterCondition.TextContains,
+        content: 'alpha',
+        target: ConditionalFormatTarget.Cell,
+        color: SelectOptionColor.OptionColor2,
+      },
+    ]);
+
+    expect(
+      getConditionalFormatStyle(formats, relationFields, relationRowMetas, 'row-a', {
+        getRelationCellText: () => 'Alpha, Beta',
+      })
+    ).toEqual({ cellColors: { [relationFieldId]: SelectOptionColor.OptionColor2 } });
+    expect(
+      getConditionalFormatStyle(formats, relationFields, relationRowMetas, 'row-a', {
+        getRelationCellText: () => 'Beta',
+      })
+    ).toBe(EMPTY_CONDITIONAL_FORMAT_STYLE);
+  });
+
+  it('creates a rule with the default filter condition of the field', () => {
+    const created = createConditionalFormat('format-new', fields.get(textFieldId), {
+      target: ConditionalFormatTarget.Cell,
+      color: SelectOptionColor.OptionColor7,
+    });
+    const formats = new Y.Doc().getArray('formats') as YDatabaseConditionalFormats;
+
+    if (created) formats.push([created]);
+    const format = formats.get(0);
+
+    expect(format?.get(YjsDatabaseKey.field_id)).toBe(textFieldId);
+    expect(format?.get(YjsDatabaseKey.condition)).toBe(TextFilterCondition.TextContains);
+    expect(format && parseConditionalFormatRule(format)).toEqual({
+      id: 'format-new',
+      fieldId: textFieldId,
+      target: ConditionalFormatTarget.Cell,
+      color: SelectOptionColor.OptionColor7,
+    });
+  });
+
+  it('falls back to a row rule with the default color for unknown values', () => {
+    const format = createFormats([
+      {
+        fieldId: textFieldId,
+        fieldType: FieldType.RichText,
+        condition: TextFilterCondition.TextIsEmpty,
+        target: ConditionalFormatTarget.Row,
+        color: SelectOptionColor.OptionColor1,
+      },
+    ]).get(0);
+
+    format.set(YjsDatabaseKey.format_target, 9);
+    format.set(YjsDatabaseKey.format_color, 'not-a-color');
+
+    expect(parseConditionalFormatRule(format)).toMatchObject({
+      target: ConditionalFormatTarget.Row,
+      color: DEFAULT_CONDITIONAL_FORMAT_COLOR,
+    });
+  });
+
+  it('compares styles by value', () => {
+    expect(
+      isConditionalFormatStyleEqual(
+        { rowColor: SelectOptionColor.OptionColor1, cellColors: { a: SelectOptionColor.OptionColor2 } },
+        { rowColor: SelectOptionColor.OptionColor1, cellColors: { a: SelectOptionColor.OptionColor2 } }
+      )
+    ).toBe(true);
+    expect(
+      isConditionalFormatStyleEqual(
+        { cellColors: { a: SelectOptionColor.OptionColor2 } },
+        { cellColors: { a: SelectOptionColor.OptionColor3 } }
+      )
+    ).toBe(false);
+  });
+});
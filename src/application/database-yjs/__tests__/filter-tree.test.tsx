@@ -0,0 +1,301 @@
+import { act, renderHook } from '@testing-library/react';
+import type React from 'react';
+import * as Y from 'yjs';
+
+jest.mock('@/utils/runtime-config', () => ({
+  getConfigValue: (_key: string, defaultValue: string) => defaultValue,
+}));
+
+import {
+  CheckboxFilterCondition,
+  DatabaseContext,
+  DatabaseContextState,
+  FieldType,
+  FilterType,
+  TextFilterCondition,
+} from '@/application/database-yjs';
+import {
+  useAddAdvancedFilterAndRebuild,
+  useAddAdvancedFilterGroup,
+  useRemoveAdvancedFilterAndRebuild,
+  useUpdateAdvancedFilterGroupType,
+} from '@/application/database-yjs/dispatch';
+import {
+  filterBy,
+  FilterDraft,
+  FilterGroupDraft,
+  isFilterGroupNode,
+  mapFilterTreeLeaves,
+  readFilterTree,
+  removeFilterTreeNode,
+  updateFilterTreeGroup,
+} from '@/application/database-yjs/filter';
+import {
+  RowId,
+  YDatabaseField,
+  YDatabaseFields,
+  YDatabaseFilter,
+  YDatabaseFilters,
+  YDatabaseView,
+  YDoc,
+  YjsDatabaseKey,
+  YjsEditorKey,
+} from '@/application/types';
+
+import { createCell, createField, createRowDoc } from './test-helpers';
+
+const textFieldId = 'text-field';
+const checkboxFieldId = 'checkbox-field';
+
+function createDataNode(id: string, fieldId: string, fieldType: FieldType, condition: number, content = '') {
+  const node = new Y.Map() as YDatabaseFilter;
+
+  node.set(YjsDatabaseKey.id, id);
+  node.set(YjsDatabaseKey.field_id, fieldId);
+  node.set(YjsDatabaseKey.filter_type, FilterType.Data);
+  node.set(YjsDatabaseKey.type, fieldType);
+  node.set(YjsDatabaseKey.condition, condition);
+  node.set(YjsDatabaseKey.content, content);
+  return node;
+}
+
+function createGroupNode(id: string, filterType: FilterType.And | FilterType.Or, children: YDatabaseFilter[]) {
+  const node = new Y.Map() as YDatabaseFilter;
+  const childArray = new Y.Array() as YDatabaseFilters;
+
+  childArray.push(children);
+  node.set(YjsDatabaseKey.id, id);
+  node.set(YjsDatabaseKey.filter_type, filterType);
+  node.set(YjsDatabaseKey.children, childArray);
+  return node;
+}
+
+function createFiltersArray(nodes: YDatabaseFilter[]) {
+  const filters = new Y.Doc().getArray('filters') as YDatabaseFilters;
+
+  filters.push(nodes);
+  return filters;
+}
+
+/** Shape of a tree without draft details, for readable assertions. */
+function describeTree(group: FilterGroupDraft): unknown {
+  return {
+    [group.filterType === FilterType.Or ? 'or' : 'and']: group.children.map((child) =>
+      isFilterGroupNode(child) ? describeTree(child) : child.id
+    ),
+  };
+}
+
+function draft(id: string): FilterDraft {
+  return { id, fieldId: textFieldId, fieldType: FieldType.RichText, condition: 0, content: '', operator: null };
+}
+
+describe('nested filter tree', () => {
+  const fields = new Map() as unknown as YDatabaseFields;
+
+  fields.set(textFieldId, createField(textFieldId, FieldType.RichText));
+  fields.set(checkboxFieldId, createField(checkboxFieldId, FieldType.Checkbox));
+
+  it('reads nested groups with their structure intact', () => {
+    const filters = createFiltersArray([
+      createGroupNode('root', FilterType.Or, [
+        createGroupNode('left', FilterType.And, [
+          createDataNode('a', textFieldId, FieldType.RichText, TextFilterCondition.TextContains, 'me'),
+          createDataNode('b', checkboxFieldId, FieldType.Checkbox, CheckboxFilterCondition.IsUnChecked),
+        ]),
+        createGroupNode('right', FilterType.And, [
+          createDataNode('c', textFieldId, FieldType.RichText, TextFilterCondition.TextIsEmpty),
+          createDataNode('d', checkboxFieldId, FieldType.Checkbox, CheckboxFilterCondition.IsUnChecked),
+        ]),
+      ]),
+    ]);
+    const tree = readFilterTree(filters, fields);
+
+    expect(tree && describeTree(tree)).toEqual({ or: [{ and: ['a', 'b'] }, { and: ['c', 'd'] }] });
+    expect(tree?.id).toBe('root');
+  });
+
+  it('reads plain-object groups synced from desktop and gives id-less groups a stable id', () => {
+    const filters = createFiltersArray([
+      {
+        id: 'root',
+        filter_type: FilterType.And,
+        children: [
+          { filter_type: FilterType.Or, children: [{ id: 'a', field_id: textFieldId, filter_type: FilterType.Data }] },
+        ],
+      } as unknown as YDatabaseFilter,
+    ]);
+    const tree = readFilterTree(filters, fields);
+    const nested = tree?.children[0];
+
+    expect(tree && describeTree(tree)).toEqual({ and: [{ or: ['a'] }] });
+    expect(nested && isFilterGroupNode(nested) ? nested.id : null).toBe('root-0');
+  });
+
+  it('ANDs top-level siblings with an Or root', () => {
+    const filters = createFiltersArray([
+      createGroupNode('root', FilterType.Or, [
+        createDataNode('a', textFieldId, FieldType.RichText, TextFilterCondition.TextIsEmpty),
+        createDataNode('b', textFieldId, FieldType.RichText, TextFilterCondition.TextIsNotEmpty),
+      ]),
+      createDataNode('c', checkboxFieldId, FieldType.Checkbox, CheckboxFilterCondition.IsChecked),
+    ]);
+    const tree = readFilterTree(filters, fields);
+
+    expect(tree && describeTree(tree)).toEqual({ and: [{ or: ['a', 'b'] }, 'c'] });
+  });
+
+  it('has no tree for flat filters', () => {
+    const filters = createFiltersArray([
+      createDataNode('a', textFieldId, FieldType.RichText, TextFilterCondition.TextIsEmpty),
+    ]);
+
+    expect(readFilterTree(filters, fields)).toBeNull();
+    expect(readFilterTree(undefined, fields)).toBeNull();
+  });
+
+  it('removes a filter and prunes groups left empty', () => {
+    const tree: FilterGroupDraft = {
+      id: 'root',
+      filterType: FilterType.And,
+      children: [draft('a'), { id: 'group', filterType: FilterType.Or, children: [draft('b')] }],
+    };
+
+    expect(describeTree(removeFilterTreeNode(tree, 'b') as FilterGroupDraft)).toEqual({ and: ['a'] });
+    expect(describeTree(removeFilterTreeNode(tree, 'group') as FilterGroupDraft)).toEqual({ and: ['a'] });
+    expect(removeFilterTreeNode({ ...tree, children: [draft('a')] }, 'a')).toBeNull();
+  });
+
+  it('updates a nested group and maps filters in place', () => {
+    const tree: FilterGroupDraft = {
+      id: 'root',
+      filterType: FilterType.And,
+      children: [draft('a'), { id: 'group', filterType: FilterType.And, children: [draft('b'), draft('c')] }],
+    };
+    const updated = updateFilterTreeGroup(tree, 'group', (group) => ({ ...group, filterType: FilterType.Or }));
+    const ids = mapFilterTreeLeaves(updated, (leaf, group, index) => `${leaf.id}:${group.id}:${index}`);
+
+    expect(describeTree(updated)).toEqual({ and: ['a', { or: ['b', 'c'] }] });
+    expect(ids.children[0]).toBe('a:root:0');
+    expect((ids.children[1] as { children: string[] }).children).toEqual(['b:group:0', 'c:group:1']);
+  });
+
+  it('filters rows by nested groups', () => {
+    const rowMetas: Record<RowId, YDoc> = {
+      mine: createRowDoc('mine', 'db', {
+        [textFieldId]: createCell(FieldType.RichText, 'me'),
+        [checkboxFieldId]: createCell(FieldType.Checkbox, 'No'),
+      }),
+      unassigned: createRowDoc('unassigned', 'db', {
+        [checkboxFieldId]: createCell(FieldType.Checkbox, 'No'),
+      }),
+      done: createRowDoc('done', 'db', {
+        [textFieldId]: createCell(FieldType.RichText, 'me'),
+        [checkboxFieldId]: createCell(FieldType.Checkbox, 'Yes'),
+      }),
+      other: createRowDoc('other', 'db', {
+        [textFieldId]: createCell(FieldType.RichText, 'someone'),
+        [checkboxFieldId]: createCell(FieldType.Checkbox, 'No'),
+      }),
+    };
+    // (assigned to me OR unassigned) AND not done
+    const filters = createFiltersArray([
+      createGroupNode('root', FilterType.And, [
+        createGroupNode('assignee', FilterType.Or, [
+          createDataNode('a', textFieldId, FieldType.RichText, TextFilterCondition.TextIs, 'me'),
+          createDataNode('b', textFieldId, FieldType.RichText, TextFilterCondition.TextIsEmpty),
+        ]),
+        createDataNode('c', checkboxFieldId, FieldType.Checkbox, CheckboxFilterCondition.IsUnChecked),
+      ]),
+    ]);
+    const rows = Object.keys(rowMetas).map((id) => ({ id, height: 0 }));
+
+    expect(filterBy(rows, filters, fields, rowMetas).map((row) => row.id)).toEqual(['mine', 'unassigned']);
+  });
+});
+
+describe('nested filter group dispatch', () => {
+  function createFixture() {
+    const doc = new Y.Doc() as unknown as YDoc;
+    const sharedRoot = doc.getMap(YjsEditorKey.data_section);
+    const database = new Y.Map();
+    const fieldMap = new Y.Map<YDatabaseField>();
+    const views = new Y.Map();
+    const view = new Y.Map() as YDatabaseView;
+    const textField = new Y.Map() as YDatabaseField;
+    const checkboxField = new Y.Map() as YDatabaseField;
+
+    textField.set(YjsDatabaseKey.id, textFieldId);
+    textField.set(YjsDatabaseKey.type, FieldType.RichText);
+    checkboxField.set(YjsDatabaseKey.id, checkboxFieldId);
+    checkboxField.set(YjsDatabaseKey.type, FieldType.Checkbox);
+    fieldMap.set(textFieldId, textField);
+    fieldMap.set(checkboxFieldId, checkboxField);
+    views.set('view-id', view);
+    database.set(YjsDatabaseKey.id, 'database-id');
+    database.set(YjsDatabaseKey.fields, fieldMap);
+    database.set(YjsDatabaseKey.views, views);
+    sharedRoot.set(YjsEditorKey.database, database);
+
+    const contextValue: DatabaseContextState = {
+      readOnly: false,
+      databaseDoc: doc,
+      databasePageId: 'view-id',
+      activeViewId: 'view-id',
+      rowMap: {} as Record<RowId, YDoc>,
+      workspaceId: 'workspace-id',
+    };
+    const wrapper = ({ children }: { children: React.ReactNode }) => (
+      <DatabaseContext.Provider value={contextValue}>{children}</DatabaseContext.Provider>
+    );
+
+    return { view, fields: fieldMap as unknown as YDatabaseFields, wrapper };
+  }
+
+  it('adds, switches and removes nested groups without flattening the tree', () => {
+    const { view, fields, wrapper } = createFixture();
+    const { result } = renderHook(
+      () => ({
+        addFilter: useAddAdvancedFilterAndRebuild(),
+        addGroup: useAddAdvancedFilterGroup(),
+        setGroupType: useUpdateAdvancedFilterGroupType(),
+        remove: useRemoveAdvancedFilterAndRebuild(),
+      }),
+      { wrapper }
+    );
+    const readTree = () => readFilterTree(view.get(YjsDatabaseKey.filters), fields) as FilterGroupDraft;
+
+    let first: string | undefined;
+    let nested: string | undefined;
+    let inner: string | undefined;
+
+    act(() => {
+      first = result.current.addFilter(textFieldId);
+    });
+    act(() => {
+      nested = result.current.addGroup(checkboxFieldId);
+    });
+
+    const groupId = (readTree().children[1] as FilterGroupDraft).id;
+
+    act(() => {
+      inner = result.current.addFilter(textFieldId, groupId);
+      result.current.setGroupType(groupId, FilterType.Or);
+    });
+
+    expect(describeTree(readTree())).toEqual({ and: [first, { or: [nested, inner] }] });
+
+    act(() => {
+      result.current.remove(first as string);
+    });
+
+    expect(describeTree(readTree())).toEqual({ and: [{ or: [nested, inner] }] });
+    expect((readTree().children[0] as FilterGroupDraft).id).toBe(groupId);
+
+    act(() => {
+      result.current.remove(groupId);
+    });
+
+    expect(view.get(YjsDatabaseKey.filters).length).toBe(0);
+  });
+});
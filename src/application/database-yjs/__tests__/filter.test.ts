@@ -21,6 +21,7 @@ import { FieldType, FilterType } from '@/application/database-yjs/database.type'
 import {
   CheckboxFilterCondition,
   ChecklistFilterCondition,
+  DateFilter,
   DateFilterCondition,
   NumberFilterCondition,
   PersonFilterCondition,
@@ -374,6 +375,52 @@ describe('date filter tests', () => {
   });
 });
 
+describe('relative date window filter tests', () => {
+  const now = new Date(Date.UTC(2024, 5, 12, 10));
+  const context = { now, timezone: 'UTC' };
+  const unix = (day: number, hour = 0) => String(Date.UTC(2024, 5, day, hour) / 1000);
+  const cellAt = (data: string, includeTime = false, endTimestamp = ''): DateTimeCell => ({
+    fieldType: FieldType.DateTime,
+    data,
+    endTimestamp,
+    includeTime,
+    createdAt: 0,
+    lastModified: 0,
+  });
+
+  it('matches the next N days, today included', () => {
+    const filter = { condition: DateFilterCondition.DateStartsWithinNext, offset: { amount: 14, unit: 'day' } } as DateFilter;
+
+    expect(dateFilterCheck(cellAt(unix(12)), filter, context)).toBe(true);
+    expect(dateFilterCheck(cellAt(unix(26, 23), true), filter, context)).toBe(true);
+    expect(dateFilterCheck(cellAt(unix(27)), filter, context)).toBe(false);
+    expect(dateFilterCheck(cellAt(unix(11)), filter, context)).toBe(false);
+  });
+
+  it('matches overdue dates and end dates of ranges', () => {
+    const overdue = { condition: DateFilterCondition.DateStartsOverdue } as DateFilter;
+    const endsOverdue = { condition: DateFilterCondition.DateEndsOverdue } as DateFilter;
+
+    expect(dateFilterCheck(cellAt(unix(12, 9), true), overdue, context)).toBe(true);
+    expect(dateFilterCheck(cellAt(unix(12, 11), true), overdue, context)).toBe(false);
+    // A date-only cell due today is not overdue yet.
+    expect(dateFilterCheck(cellAt(unix(12)), overdue, context)).toBe(false);
+    expect(dateFilterCheck(cellAt(unix(1), false, unix(20)), endsOverdue, context)).toBe(false);
+    expect(dateFilterCheck(cellAt(unix(1), false, unix(5)), endsOverdue, context)).toBe(true);
+  });
+
+  it('parses the offset from the filter content', () => {
+    const filter = new Y.Map() as YDatabaseFilter;
+
+    new Y.Doc().getArray('filters').push([filter]);
+    filter.set(YjsDatabaseKey.condition, DateFilterCondition.DateStartsWithinPast);
+    filter.set(YjsDatabaseKey.content, '{"amount":3,"unit":"month"}');
+
+    expect((parseFilter(FieldType.DateTime, filter) as DateFilter).offset).toEqual({ amount: 3, unit: 'month' });
+    expect(rowTimeFilterCheck(unix(1), parseFilter(FieldType.DateTime, filter) as DateFilter, context)).toBe(true);
+  });
+});
+
 describe('row time filter tests', () => {
   const base = dayjs('2024-01-10').startOf('day');
   const timestamp = base.unix().toString();
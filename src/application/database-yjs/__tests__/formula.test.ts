@@ -0,0 +1,330 @@
+import * as Y from 'yjs';
+
+jest.mock('@/utils/runtime-config', () => ({
+  getConfigValue: (_key: string, defaultValue: string) => defaultValue,
+}));
+
+import { parseFormulaCell } from '@/application/database-yjs/cell.parse';
+import { FieldType, FilterType, SortCondition } from '@/application/database-yjs/database.type';
+import {
+  CheckboxFilterCondition,
+  evaluateFormula,
+  FormulaResultType,
+  NumberFilterCondition,
+  parseFormula,
+  refreshFormulaResultTypes,
+  resolveFormulaResultType,
+  TextFilterCondition,
+} from '@/application/database-yjs/fields';
+import { filterBy, getDefaultFilterCondition } from '@/application/database-yjs/filter';
+import { Row } from '@/application/database-yjs/selector';
+import { sortBy } from '@/application/database-yjs/sort';
+import {
+  RowId,
+  YDatabaseField,
+  YDatabaseFields,
+  YDatabaseFilter,
+  YDatabaseFilters,
+  YDatabaseRow,
+  YDatabaseSort,
+  YDatabaseSorts,
+  YDoc,
+  YjsDatabaseKey,
+  YjsEditorKey,
+} from '@/application/types';
+
+import { createCell, createField, createFieldWithTypeOption, createRowDoc } from './test-helpers';
+
+const databaseId = 'db-formula';
+
+function namedField(field: YDatabaseField, name: string) {
+  field.set(YjsDatabaseKey.name, name);
+  return field;
+}
+
+function createFormulaField(fieldId: string, expression: string, fields: YDatabaseFields) {
+  return createFieldWithTypeOption(fieldId, FieldType.Formula, {
+    [YjsDatabaseKey.expression]: expression,
+    [YjsDatabaseKey.result_type]: resolveFormulaResultType(expression, fields),
+  });
+}
+
+function getRow(rowDoc: YDoc) {
+  return rowDoc.getMap(YjsEditorKey.data_section).get(YjsEditorKey.database_row) as YDatabaseRow;
+}
+
+function evaluate(expression: string, props: Record<string, string | number | boolean | Date | null> = {}) {
+  return evaluateFormula(expression, {
+    getProperty: (name) => props[name] ?? null,
+    now: () => new Date(2024, 0, 15, 9, 30),
+  });
+}
+
+describe('formula expressions', () => {
+  it('respects operator precedence and associativity', () => {
+    expect(evaluate('1 + 2 * 3').value).toBe(7);
+    expect(evaluate('(1 + 2) * 3').value).toBe(9);
+    expect(evaluate('2 ^ 3 ^ 2').value).toBe(512);
+    expect(evaluate('-2 ^ 2').value).toBe(-4);
+    expect(evaluate('10 - 4 - 3').value).toBe(3);
+  });
+
+  it('supports logical keywords and their symbol spellings', () => {
+    expect(evaluate('true and not false').value).toBe(true);
+    expect(evaluate('false || 1 > 0').value).toBe(true);
+    expect(evaluate('!(1 = 1)').value).toBe(false);
+  });
+
+  it('reads properties and concatenates text', () => {
+    const result = evaluate('prop("Name") + " x" + prop("Qty")', { Name: 'Widget', Qty: 3 });
+
+    expect(result).toEqual({ value: 'Widget x3' });
+  });
+
+  it('evaluates conditional and text functions', () => {
+    expect(evaluate('if(prop("Done"), "yes", "no")', { Done: true }).value).toBe('yes');
+    expect(evaluate('upper(trim("  abc "))').value).toBe('ABC');
+    expect(evaluate('contains("Hello", "ell")').value).toBe(true);
+    expect(evaluate('join(", ", "a", "", "b")').value).toBe('a, b');
+    expect(evaluate('round(2.345, 2)').value).toBe(2.35);
+  });
+
+  it('does date math', () => {
+    const start = new Date(2024, 0, 1);
+
+    expect(evaluate('dateBetween(now(), prop("Start"), "days")', { Start: start }).value).toBe(14);
+    expect(evaluate('month(dateAdd(prop("Start"), 1, "quarter"))', { Start: start }).value).toBe(4);
+    expect(evaluate('formatDate(today(), "YYYY-MM-DD")').value).toBe('2024-01-15');
+  });
+
+  it('reports syntax and runtime errors instead of throwing', () => {
+    expect(() => parseFormula('1 +')).toThrow('Unexpected end of formula');
+    expect(evaluate('1 +').error).toContain('Unexpected end of formula');
+    expect(evaluate('1 / 0').error).toBe('Division by zero');
+    expect(evaluate('unknown(1)').error).toBe('Unknown function "unknown"');
+    expect(evaluate('constructor(1)').error).toBe('Unknown function "constructor"');
+    expect(evaluate('__proto__(1)').error).toBe('Unknown function "__proto__"');
+    expect(evaluate('"abc" * 2').error).toBe('Cannot convert "abc" to a number');
+  });
+
+  it('treats a blank expression as an empty value', () => {
+    expect(evaluate('   ')).toEqual({ value: null });
+  });
+});
+
+describe('formula result type inference', () => {
+  const fields = new Map() as unknown as YDatabaseFields;
+
+  fields.set('price', namedField(createField('price', FieldType.Number), 'Price'));
+  fields.set('title', namedField(createField('title', FieldType.RichText), 'Title'));
+  fields.set('due', namedField(createField('due', FieldType.DateTime), 'Due'));
+
+  it.each([
+    ['prop("Price") * 2', FormulaResultType.Number],
+    ['prop("Title") + "!"', FormulaResultType.Text],
+    ['prop("Price") > 10', FormulaResultType.Checkbox],
+    ['dateAdd(prop("Due"), 1, "day")', FormulaResultType.Date],
+    ['if(true, prop("Price"), 0)', FormulaResultType.Number],
+    ['if(true, 0, prop("Title"))', FormulaResultType.Text],
+    ['prop("Due")', FormulaResultType.Date],
+    ['1 +', FormulaResultType.Text],
+  ])('infers %s', (expression, expected) => {
+    expect(resolveFormulaResultType(expression, fields)).toBe(expected);
+  });
+});
+
+describe('refreshFormulaResultTypes', () => {
+  it('re-infers formulas after a referenced property is renamed or retyped', () => {
+    const fields = new Map() as unknown as YDatabaseFields;
+
+    fields.set('price', namedField(createField('price', FieldType.Number), 'Price'));
+    fields.set('total', namedField(createFormulaField('total', 'prop("Price") * 2', fields), 'Total'));
+    fields.set('label', namedField(createFormulaField('label', 'prop("Amount")', fields), 'Label'));
+    fields.set('copy', namedField(createFormulaField('copy', 'prop("Label")', fields), 'Copy'));
+
+    const getResultType = (fieldId: string) =>
+      fields.get(fieldId).get(YjsDatabaseKey.type_option).get(String(FieldType.Formula)).get(YjsDatabaseKey.result_type);
+
+    expect(getResultType('label')).toBe(FormulaResultType.Text);
+
+    fields.get('price').set(YjsDatabaseKey.name, 'Amount');
+    refreshFormulaResultTypes(fields);
+
+    expect(getResultType('label')).toBe(FormulaResultType.Number);
+    expect(getResultType('copy')).toBe(FormulaResultType.Number);
+
+    fields.get('price').set(YjsDatabaseKey.type, FieldType.DateTime);
+    refreshFormulaResultTypes(fields);
+
+    expect(getResultType('label')).toBe(FormulaResultType.Date);
+    expect(getResultType('copy')).toBe(FormulaResultType.Date);
+  });
+});
+
+describe('parseFormulaCell', () => {
+  const fields = new Map() as unknown as YDatabaseFields;
+
+  fields.set('price', namedField(createField('price', FieldType.Number), 'Price'));
+  fields.set('qty', namedField(createField('qty', FieldType.Number), 'Qty'));
+  fields.set('done', namedField(createField('done', FieldType.Checkbox), 'Done'));
+  fields.set('total', namedField(createFormulaField('total', 'prop("Price") * prop("Qty")', fields), 'Total'));
+  fields.set(
+    'label',
+    namedField(createFormulaField('label', 'if(prop("Done"), "Paid", prop("Total"))', fields), 'Label')
+  );
+
+  it('computes values from the row cells', () => {
+    const rowDoc = createRowDoc('row-1', databaseId, {
+      price: createCell(FieldType.Number, '2.5'),
+      qty: createCell(FieldType.Number, '4'),
+      done: createCell(FieldType.Checkbox, 'No'),
+    });
+    const cell = parseFormulaCell(getRow(rowDoc), fields.get('total'), fields);
+
+    expect(cell).toMatchObject({
+      fieldType: FieldType.Formula,
+      value: 10,
+      data: '10',
+      resultType: FormulaResultType.Number,
+    });
+  });
+
+  it('lets formulas reference other formulas', () => {
+    const rowDoc = createRowDoc('row-1', databaseId, {
+      price: createCell(FieldType.Number, '3'),
+      qty: createCell(FieldType.Number, '3'),
+      done: createCell(FieldType.Checkbox, 'Yes'),
+    });
+
+    expect(parseFormulaCell(getRow(rowDoc), fields.get('label'), fields).data).toBe('Paid');
+
+    getRow(rowDoc).get(YjsDatabaseKey.cells).get('done').set(YjsDatabaseKey.data, 'No');
+    expect(parseFormulaCell(getRow(rowDoc), fields.get('label'), fields).data).toBe('9');
+  });
+
+  it('reports circular references and unknown properties', () => {
+    const cyclic = new Map() as unknown as YDatabaseFields;
+
+    cyclic.set('a', namedField(createFormulaField('a', 'prop("B") + 1', cyclic), 'A'));
+    cyclic.set('b', namedField(createFormulaField('b', 'prop("A") + 1', cyclic), 'B'));
+    cyclic.set('c', namedField(createFormulaField('c', 'prop("Missing")', cyclic), 'C'));
+
+    const row = getRow(createRowDoc('row-1', databaseId, {}));
+
+    expect(parseFormulaCell(row, cyclic.get('a'), cyclic).error).toContain('Circular reference');
+    expect(parseFormulaCell(row, cyclic.get('c'), cyclic)).toMatchObject({
+      value: null,
+      data: '',
+      error: 'Unknown property "Missing"',
+    });
+  });
+
+  it('exposes row timestamps as dates', () => {
+    const timestamps = new Map() as unknown as YDatabaseFields;
+
+    timestamps.set('created', namedField(createField('created', FieldType.CreatedTime), 'Created'));
+    timestamps.set('year', namedField(createFormulaField('year', 'year(prop("Created"))', timestamps), 'Year'));
+
+    const createdAt = String(Math.floor(new Date(2023, 5, 1).getTime() / 1000));
+    const row = getRow(createRowDoc('row-1', databaseId, {}, createdAt));
+
+    expect(parseFormulaCell(row, timestamps.get('year'), timestamps).value).toBe(2023);
+  });
+});
+
+describe('formula sort and filter', () => {
+  const fields = new Map() as unknown as YDatabaseFields;
+
+  fields.set('price', namedField(createField('price', FieldType.Number), 'Price'));
+  fields.set('name', namedField(createField('name', FieldType.RichText), 'Name'));
+  fields.set('double', namedField(createFormulaField('double', 'prop("Price") * 2', fields), 'Double'));
+  fields.set('expensive', namedField(createFormulaField('expensive', 'prop("Price") >= 10', fields), 'Expensive'));
+  fields.set('shout', namedField(createFormulaField('shout', 'upper(prop("Name"))', fields), 'Shout'));
+
+  const rowMetas: Record<RowId, YDoc> = {
+    a: createRowDoc('a', databaseId, {
+      price: createCell(FieldType.Number, '12'),
+      name: createCell(FieldType.RichText, 'apple'),
+    }),
+    b: createRowDoc('b', databaseId, {
+      price: createCell(FieldType.Number, '3'),
+      name: createCell(FieldType.RichText, 'banana'),
+    }),
+    c: createRowDoc('c', databaseId, {
+      price: createCell(FieldType.Number, 'oops'),
+      name: createCell(FieldType.RichText, 'cherry'),
+    }),
+  };
+  const rows: Row[] = ['a', 'b', 'c'].map((id) => ({ id, height: 0 }));
+
+  function createSorts(fieldId: string, condition: SortCondition): YDatabaseSorts {
+    const sort = new Y.Doc().getMap('sort') as YDatabaseSort;
+
+    sort.set(YjsDatabaseKey.id, 'sort');
+    sort.set(YjsDatabaseKey.field_id, fieldId);
+    sort.set(YjsDatabaseKey.condition, condition);
+    return { toArray: () => [sort] } as YDatabaseSorts;
+  }
+
+  function createFilters(fieldId: string, condition: number, content = ''): YDatabaseFilters {
+    const filter = new Y.Doc().getMap('filter') as YDatabaseFilter;
+
+    filter.set(YjsDatabaseKey.id, 'filter');
+    filter.set(YjsDatabaseKey.field_id, fieldId);
+    filter.set(YjsDatabaseKey.filter_type, FilterType.Data);
+    filter.set(YjsDatabaseKey.condition, condition);
+    filter.set(YjsDatabaseKey.content, content);
+    return { toArray: () => [filter] } as YDatabaseFilters;
+  }
+
+  it('sorts numeric formulas by value, treating empty inputs as zero', () => {
+    const ascending = sortBy(rows, createSorts('double', SortCondition.Ascending), fields, rowMetas);
+    const descending = sortBy(rows, createSorts('double', SortCondition.Descending), fields, rowMetas);
+
+    expect(ascending.map((row) => row.id)).toEqual(['c', 'b', 'a']);
+    expect(descending.map((row) => row.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('sorts rows whose formula fails last', () => {
+    const failing = new Map() as unknown as YDatabaseFields;
+
+    failing.set('price', fields.get('price'));
+    failing.set('ratio', namedField(createFormulaField('ratio', '100 / prop("Price")', failing), 'Ratio'));
+
+    const ascending = sortBy(rows, createSorts('ratio', SortCondition.Ascending), failing, rowMetas);
+
+    expect(ascending.map((row) => row.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('filters numeric formulas with number conditions', () => {
+    const result = filterBy(rows, createFilters('double', NumberFilterCondition.GreaterThan, '10'), fields, rowMetas);
+
+    expect(result.map((row) => row.id)).toEqual(['a']);
+  });
+
+  it('filters boolean formulas with checkbox conditions', () => {
+    const result = filterBy(rows, createFilters('expensive', CheckboxFilterCondition.IsUnChecked), fields, rowMetas);
+
+    expect(result.map((row) => row.id)).toEqual(['b', 'c']);
+  });
+
+  it('filters text formulas with text conditions', () => {
+    const result = filterBy(rows, createFilters('shout', TextFilterCondition.TextContains, 'AN'), fields, rowMetas);
+
+    expect(result.map((row) => row.id)).toEqual(['b']);
+  });
+
+  it('picks default filter conditions from the result type', () => {
+    expect(getDefaultFilterCondition(FieldType.Formula, fields.get('double'))).toEqual({
+      condition: NumberFilterCondition.Equal,
+      content: '',
+    });
+    expect(getDefaultFilterCondition(FieldType.Formula, fields.get('expensive'))).toEqual({
+      condition: CheckboxFilterCondition.IsChecked,
+    });
+    expect(getDefaultFilterCondition(FieldType.Formula, fields.get('shout'))).toEqual({
+      condition: TextFilterCondition.TextContains,
+      content: '',
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import * as Y from 'yjs';
+
+import { touchRowAttribution } from '@/application/database-yjs/attribution';
+import { FieldType } from '@/application/database-yjs/database.type';
+import {
+  decodeRowActivityValue,
+  deriveInitialRowActivity,
+  getRowActivity,
+  recordRowActivity,
+} from '@/application/database-yjs/row-activity';
+import { YDatabaseCell, YDatabaseRow, YDoc, YjsDatabaseKey, YjsEditorKey } from '@/application/types';
+
+import { createCell, createField, createRowDoc } from './test-helpers';
+
+const statusFieldId = 'status';
+const nameFieldId = 'name';
+const statusOptions = {
+  options: [
+    { id: 'todo', name: 'To Do', color: 'Purple' },
+    { id: 'done', name: 'Done', color: 'Green' },
+  ],
+  disable_color: false,
+};
+
+function getRow(rowDoc: YDoc) {
+  return rowDoc.getMap(YjsEditorKey.data_section).get(YjsEditorKey.database_row) as YDatabaseRow;
+}
+
+function setCell(rowDoc: YDoc, fieldId: string, data: string, uid: string, timestamp: string) {
+  rowDoc.transact(() => {
+    const row = getRow(rowDoc);
+    const cell = row.get(YjsDatabaseKey.cells).get(fieldId) as YDatabaseCell;
+
+    cell.set(YjsDatabaseKey.data, data);
+    cell.set(YjsDatabaseKey.last_modified, timestamp);
+    touchRowAttribution(row, uid, timestamp);
+  });
+}
+
+function createStatusRow(rowId: string) {
+  const rowDoc = createRowDoc(
+    rowId,
+    'database-id',
+    {
+      [nameFieldId]: { ...createCell(FieldType.RichText, 'Card'), lastModified: '100' },
+      [statusFieldId]: { ...createCell(FieldType.SingleSelect, 'todo'), lastModified: '200' },
+    },
+    '0',
+    '200'
+  );
+
+  getRow(rowDoc).set(YjsDatabaseKey.last_edited_by, '7');
+  return rowDoc;
+}
+
+describe('row activity', () => {
+  it('attributes only the last edited cell of the initial state', () => {
+    const entries = deriveInitialRowActivity(getRow(createStatusRow('initial-row')));
+
+    expect(entries.map(({ fieldId, oldData, newData, uid }) => ({ fieldId, oldData, newData, uid }))).toEqual([
+      { fieldId: statusFieldId, oldData: undefined, newData: 'todo', uid: '7' },
+      { fieldId: nameFieldId, oldData: undefined, newData: 'Card', uid: null },
+    ]);
+  });
+
+  it('records who changed a cell and when', () => {
+    const rowDoc = createStatusRow('local-row');
+    const release = recordRowActivity(rowDoc);
+
+    setCell(rowDoc, statusFieldId, 'done', '42', '300');
+
+    expect(getRowActivity(rowDoc)[0]).toMatchObject({
+      fieldId: statusFieldId,
+      oldData: 'todo',
+      newData: 'done',
+      uid: '42',
+      timestamp: 300,
+    });
+    expect(getRowActivity(rowDoc)).toHaveLength(2);
+    release();
+  });
+
+  it('keeps recorded changes in the row document', () => {
+    const rowDoc = createStatusRow('reloaded-row');
+    const release = recordRowActivity(rowDoc);
+
+    setCell(rowDoc, statusFieldId, 'done', '42', '300');
+    release();
+
+    const reloadedDoc = new Y.Doc() as YDoc;
+
+    Y.applyUpdate(reloadedDoc, Y.encodeStateAsUpdate(rowDoc));
+
+    expect(getRowActivity(reloadedDoc)[0]).toMatchObject({ fieldId: statusFieldId, oldData: 'todo', uid: '42' });
+  });
+
+  it('receives changes recorded by another client', () => {
+    const rowDoc = createStatusRow('remote-row');
+    const remoteDoc = new Y.Doc() as YDoc;
+
+    Y.applyUpdate(remoteDoc, Y.encodeStateAsUpdate(rowDoc));
+
+    const release = recordRowActivity(rowDoc);
+    const releaseRemote = recordRowActivity(remoteDoc);
+
+    remoteDoc.on('update', (update: Uint8Array) => Y.applyUpdate(rowDoc, update));
+    setCell(remoteDoc, nameFieldId, 'Renamed card', '9', '400');
+
+    expect(getRowActivity(rowDoc)[0]).toMatchObject({
+      fieldId: nameFieldId,
+      oldData: 'Card',
+      newData: 'Renamed card',
+      uid: '9',
+      timestamp: 400,
+    });
+    // Only the editing client writes the entry.
+    expect(rowDoc.getArray('row_activity').length).toBe(1);
+    release();
+    releaseRemote();
+  });
+
+  it('stops recording once every recorder is released', () => {
+    const rowDoc = createStatusRow('released-row');
+    const releaseFirst = recordRowActivity(rowDoc);
+    const releaseSecond = recordRowActivity(rowDoc);
+
+    releaseFirst();
+    setCell(rowDoc, statusFieldId, 'done', '42', '300');
+    expect(rowDoc.getArray('row_activity').length).toBe(1);
+
+    releaseSecond();
+    setCell(rowDoc, statusFieldId, 'todo', '42', '400');
+    expect(rowDoc.getArray('row_activity').length).toBe(1);
+  });
+
+  it('decodes recorded values with the field', () => {
+    const field = createField(statusFieldId, FieldType.SingleSelect, statusOptions);
+
+    expect(decodeRowActivityValue('done', field)).toBe('Done');
+    expect(decodeRowActivityValue('', field)).toBe('');
+  });
+});
@@ -0,0 +1,173 @@
+import dayjs from 'dayjs';
+import * as Y from 'yjs';
+
+import { FieldType } from '@/application/database-yjs/database.type';
+import {
+  getTimelineBarRange,
+  getTimelineBounds,
+  getTimelineDayDelta,
+  getTimelineTicks,
+  moveTimelineCellDates,
+  normalizeCreatedDatabaseTimelineView,
+  parseTimelineLayoutSetting,
+  resizeTimelineCellDates,
+} from '@/application/database-yjs/timeline-layout';
+import { DatabaseViewLayout, TimelineZoom, YDatabase, YDoc, YjsDatabaseKey, YjsEditorKey } from '@/application/types';
+
+function unix(date: string) {
+  return String(dayjs(date).unix());
+}
+
+function createGridDatabaseDoc(fieldTypes: FieldType[]): YDoc {
+  const doc = new Y.Doc() as unknown as YDoc;
+  const sharedRoot = doc.getMap(YjsEditorKey.data_section);
+  const database = new Y.Map();
+  const fields = new Y.Map();
+  const views = new Y.Map();
+  const gridView = new Y.Map();
+  const fieldOrders = new Y.Array<{ id: string }>();
+
+  fieldTypes.forEach((type, index) => {
+    const field = new Y.Map();
+
+    field.set(YjsDatabaseKey.id, `field-${index}`);
+    field.set(YjsDatabaseKey.type, type);
+    field.set(YjsDatabaseKey.is_primary, index === 0);
+    fields.set(`field-${index}`, field);
+    fieldOrders.push([{ id: `field-${index}` }]);
+  });
+  gridView.set(YjsDatabaseKey.layout, DatabaseViewLayout.Grid);
+  gridView.set(YjsDatabaseKey.field_orders, fieldOrders);
+  views.set('grid-view-id', gridView);
+  database.set(YjsDatabaseKey.fields, fields);
+  database.set(YjsDatabaseKey.views, views);
+  sharedRoot.set(YjsEditorKey.database, database);
+  return doc;
+}
+
+function getView(doc: YDoc) {
+  const database = doc.getMap(YjsEditorKey.data_section).get(YjsEditorKey.database) as YDatabase;
+
+  return database.get(YjsDatabaseKey.views).get('grid-view-id');
+}
+
+describe('Timeline view normalization', () => {
+  it('converts the created Grid and selects the first date field', () => {
+    const doc = createGridDatabaseDoc([FieldType.RichText, FieldType.Number, FieldType.DateTime]);
+
+    expect(normalizeCreatedDatabaseTimelineView(doc, 'grid-view-id', { name: 'Timeline' })).toBe('grid-view-id');
+
+    const view = getView(doc);
+
+    expect(view.get(YjsDatabaseKey.layout)).toBe(DatabaseViewLayout.Timeline);
+    expect(view.get(YjsDatabaseKey.name)).toBe('Timeline');
+    expect(parseTimelineLayoutSetting(view.get(YjsDatabaseKey.layout_settings).get('6'))).toEqual({
+      fieldId: 'field-2',
+      zoom: TimelineZoom.Week,
+    });
+  });
+
+  it('leaves the date field unset when the database has none', () => {
+    const doc = createGridDatabaseDoc([FieldType.RichText]);
+
+    normalizeCreatedDatabaseTimelineView(doc, 'grid-view-id');
+
+    expect(parseTimelineLayoutSetting(getView(doc).get(YjsDatabaseKey.layout_settings).get('6')).fieldId).toBe(
+      undefined
+    );
+  });
+
+  it('returns null for a view that is not in the payload', () => {
+    expect(normalizeCreatedDatabaseTimelineView(createGridDatabaseDoc([]), 'missing')).toBeNull();
+  });
+});
+
+describe('Timeline bar dates', () => {
+  it('treats a single date as a one-day bar', () => {
+    const range = getTimelineBarRange({ data: unix('2024-03-05T10:00:00') });
+
+    expect(range?.start.format('YYYY-MM-DD')).toBe('2024-03-05');
+    expect(range?.end.format('YYYY-MM-DD')).toBe('2024-03-05');
+  });
+
+  it('reads the end of a range and ignores an end before the start', () => {
+    const range = getTimelineBarRange({
+      data: unix('2024-03-05'),
+      endTimestamp: unix('2024-03-09'),
+      isRange: true,
+    });
+    const inverted = getTimelineBarRange({
+      data: unix('2024-03-05'),
+      endTimestamp: unix('2024-03-01'),
+      isRange: true,
+    });
+
+    expect(range?.end.format('YYYY-MM-DD')).toBe('2024-03-09');
+    expect(inverted?.end.format('YYYY-MM-DD')).toBe('2024-03-05');
+  });
+
+  it('has no bar for an empty cell', () => {
+    expect(getTimelineBarRange({ data: '' })).toBeNull();
+    expect(getTimelineBarRange(undefined)).toBeNull();
+  });
+
+  it('moves both edges and keeps the time of day', () => {
+    const moved = moveTimelineCellDates(
+      { data: unix('2024-03-05T09:30:00'), endTimestamp: unix('2024-03-07T17:00:00'), isRange: true },
+      3
+    );
+
+    expect(dayjs.unix(Number(moved.data)).format('YYYY-MM-DD HH:mm')).toBe('2024-03-08 09:30');
+    expect(dayjs.unix(Number(moved.endTimestamp)).format('YYYY-MM-DD HH:mm')).toBe('2024-03-10 17:00');
+    expect(moveTimelineCellDates({ data: unix('2024-03-05') }, -1).endTimestamp).toBeUndefined();
+  });
+
+  it('turns a single date into a range when resized', () => {
+    const resized = resizeTimelineCellDates({ data: unix('2024-03-05') }, 'end', 2);
+
+    expect(resized).toEqual({ data: unix('2024-03-05'), endTimestamp: unix('2024-03-07') });
+  });
+
+  it('does not drag an edge past the other one', () => {
+    const cell = { data: unix('2024-03-05'), endTimestamp: unix('2024-03-07'), isRange: true };
+
+    expect(resizeTimelineCellDates(cell, 'start', 5).data).toBe(unix('2024-03-07'));
+    expect(resizeTimelineCellDates(cell, 'end', -5).endTimestamp).toBe(unix('2024-03-05'));
+  });
+});
+
+describe('Timeline scale', () => {
+  it('snaps pointer movement to whole days for the zoom level', () => {
+    expect(getTimelineDayDelta(50, TimelineZoom.Day)).toBe(1);
+    expect(getTimelineDayDelta(-41, TimelineZoom.Week)).toBe(-2);
+    expect(getTimelineDayDelta(1, TimelineZoom.Quarter)).toBe(1);
+    expect(getTimelineDayDelta(0, TimelineZoom.Month)).toBe(0);
+  });
+
+  it('pads the bounds around every bar and today', () => {
+    const today = dayjs('2024-03-13');
+    const bounds = getTimelineBounds(
+      [{ start: dayjs('2024-02-20'), end: dayjs('2024-04-02') }],
+      TimelineZoom.Month,
+      today
+    );
+
+    expect(bounds.start.format('YYYY-MM-DD')).toBe('2023-12-01');
+    expect(bounds.end.format('YYYY-MM-DD')).toBe('2024-07-01');
+  });
+
+  it('aligns quarter ticks to calendar quarters', () => {
+    const bounds = getTimelineBounds([], TimelineZoom.Quarter, dayjs('2024-05-20'));
+    const ticks = getTimelineTicks(bounds, TimelineZoom.Quarter);
+
+    expect(ticks.map((tick) => tick.date.format('YYYY-MM'))).toEqual([
+      '2023-10',
+      '2024-01',
+      '2024-04',
+      '2024-07',
+      '2024-10',
+    ]);
+    expect(ticks[0].offset).toBe(0);
+    expect(ticks[1].offset).toBe(ticks[0].span);
+  });
+});
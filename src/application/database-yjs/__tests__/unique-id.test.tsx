@@ -0,0 +1,244 @@
+import { act, renderHook } from '@testing-library/react';
+import type React from 'react';
+import * as Y from 'yjs';
+
+jest.mock('@/utils/runtime-config', () => ({
+  getConfigValue: (_key: string, defaultValue: string) => defaultValue,
+}));
+
+import { DatabaseContext, DatabaseContextState, FieldType, FilterType } from '@/application/database-yjs';
+import { decodeCellForSort, decodeCellToText } from '@/application/database-yjs/decode';
+import { useSwitchPropertyType, useUpdateUniqueIdPrefix } from '@/application/database-yjs/dispatch';
+import { allocateRowUniqueIds, resolveDuplicateUniqueIds } from '@/application/database-yjs/dispatch/row-lifecycle';
+import { parseUniqueIdTypeOption, TextFilterCondition } from '@/application/database-yjs/fields';
+import { filterBy } from '@/application/database-yjs/filter';
+import { sortBy } from '@/application/database-yjs/sort';
+import {
+  RowId,
+  YDatabase,
+  YDatabaseCell,
+  YDatabaseField,
+  YDatabaseFields,
+  YDatabaseFilter,
+  YDatabaseFilters,
+  YDatabaseRow,
+  YDatabaseSort,
+  YDatabaseSorts,
+  YDatabaseView,
+  YDoc,
+  YjsDatabaseKey,
+  YjsEditorKey,
+} from '@/application/types';
+
+import { createCell, createRowDoc } from './test-helpers';
+
+const databaseId = 'database-id';
+const viewId = 'view-id';
+const idFieldId = 'id-field';
+const nameFieldId = 'name-field';
+
+function createDatabaseDoc(idFieldType: FieldType = FieldType.UniqueId) {
+  const doc = new Y.Doc({ guid: databaseId }) as YDoc;
+  const sharedRoot = doc.getMap(YjsEditorKey.data_section);
+  const database = new Y.Map() as YDatabase;
+  const fields = new Y.Map() as YDatabaseFields;
+  const views = new Y.Map();
+  const view = new Y.Map() as YDatabaseView;
+
+  [
+    [nameFieldId, FieldType.RichText],
+    [idFieldId, idFieldType],
+  ].forEach(([fieldId, fieldType]) => {
+    const field = new Y.Map() as YDatabaseField;
+
+    field.set(YjsDatabaseKey.id, fieldId);
+    field.set(YjsDatabaseKey.name, fieldId);
+    field.set(YjsDatabaseKey.type, fieldType);
+    field.set(YjsDatabaseKey.created_at, '1');
+    field.set(YjsDatabaseKey.last_modified, '2');
+    fields.set(String(fieldId), field);
+  });
+
+  view.set(YjsDatabaseKey.row_orders, new Y.Array());
+  views.set(viewId, view);
+  database.set(YjsDatabaseKey.id, databaseId);
+  database.set(YjsDatabaseKey.fields, fields);
+  database.set(YjsDatabaseKey.views, views);
+  sharedRoot.set(YjsEditorKey.database, database);
+
+  return { doc, database, fields };
+}
+
+function getRow(rowDoc: YDoc) {
+  return rowDoc.getMap(YjsEditorKey.data_section).get(YjsEditorKey.database_row) as YDatabaseRow;
+}
+
+function getIdCell(rowDoc: YDoc): YDatabaseCell {
+  return getRow(rowDoc).get(YjsDatabaseKey.cells).get(idFieldId);
+}
+
+function createRows(database: YDatabase, count: number, prefix = 'row', knownRows?: Record<RowId, YDoc>) {
+  const rowMetas: Record<RowId, YDoc> = {};
+
+  for (let index = 1; index <= count; index += 1) {
+    const rowId = `${prefix}-${index}`;
+    const rowDoc = createRowDoc(
+      rowId,
+      databaseId,
+      { [nameFieldId]: createCell(FieldType.RichText, rowId) },
+      String(index)
+    );
+
+    allocateRowUniqueIds(database, getRow(rowDoc), knownRows);
+    rowMetas[rowId] = rowDoc;
+  }
+
+  return rowMetas;
+}
+
+function renderDispatch(doc: YDoc, rowMap: Record<RowId, YDoc>) {
+  const contextValue = {
+    readOnly: false,
+    databaseDoc: doc,
+    databasePageId: viewId,
+    activeViewId: viewId,
+    rowMap,
+    workspaceId: 'workspace-id',
+  } as unknown as DatabaseContextState;
+  const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <DatabaseContext.Provider value={contextValue}>{children}</DatabaseContext.Provider>
+  );
+
+  return renderHook(
+    () => ({
+      switchType: useSwitchPropertyType(),
+      updatePrefix: useUpdateUniqueIdPrefix(idFieldId),
+    }),
+    { wrapper }
+  ).result;
+}
+
+describe('unique ID field', () => {
+  it('numbers created rows in order and advances the counter', () => {
+    const { database, fields } = createDatabaseDoc();
+    const rowMetas = createRows(database, 3);
+    const field = fields.get(idFieldId);
+
+    expect(Object.values(rowMetas).map((rowDoc) => decodeCellToText(getIdCell(rowDoc), field))).toEqual(['1', '2', '3']);
+    expect(parseUniqueIdTypeOption(field).next_id).toBe(4);
+  });
+
+  it('continues after the highest number held by a loaded row', () => {
+    const { doc, database, fields } = createDatabaseDoc();
+    const staleDoc = new Y.Doc() as YDoc;
+
+    Y.applyUpdate(staleDoc, Y.encodeStateAsUpdate(doc));
+
+    const staleDatabase = staleDoc.getMap(YjsEditorKey.data_section).get(YjsEditorKey.database) as YDatabase;
+    const synced = createRows(database, 2);
+    const created = createRows(staleDatabase, 1, 'stale', synced);
+
+    expect(decodeCellToText(getIdCell(created['stale-1']), fields.get(idFieldId))).toBe('3');
+  });
+
+  it('renumbers rows that two offline clients gave the same number, the same way on both', () => {
+    const { doc, database, fields } = createDatabaseDoc();
+    const offlineDoc = new Y.Doc() as YDoc;
+
+    Y.applyUpdate(offlineDoc, Y.encodeStateAsUpdate(doc));
+
+    const offlineDatabase = offlineDoc.getMap(YjsEditorKey.data_section).get(YjsEditorKey.database) as YDatabase;
+    const rowMap = { ...createRows(database, 2), ...createRows(offlineDatabase, 1, 'offline') };
+    const copies = Object.fromEntries(
+      Object.entries(rowMap).map(([rowId, rowDoc]) => {
+        const copy = new Y.Doc() as YDoc;
+
+        Y.applyUpdate(copy, Y.encodeStateAsUpdate(rowDoc));
+        return [rowId, copy];
+      })
+    );
+
+    Y.applyUpdate(offlineDoc, Y.encodeStateAsUpdate(doc));
+    Y.applyUpdate(doc, Y.encodeStateAsUpdate(offlineDoc));
+
+    // row-1 and offline-1 share 1 and were created at the same time, so the row id decides.
+    expect(resolveDuplicateUniqueIds(database, rowMap)).toEqual(['row-1']);
+    expect(resolveDuplicateUniqueIds(offlineDatabase, copies)).toEqual(['row-1']);
+
+    const field = fields.get(idFieldId);
+
+    expect(Object.values(rowMap).map((rowDoc) => decodeCellToText(getIdCell(rowDoc), field))).toEqual(['3', '2', '1']);
+    expect(decodeCellToText(getIdCell(copies['row-1']), field)).toBe('3');
+    expect(parseUniqueIdTypeOption(field).next_id).toBe(4);
+    expect(resolveDuplicateUniqueIds(database, rowMap)).toEqual([]);
+  });
+
+  it('relabels every row when the prefix changes', () => {
+    const { doc, database, fields } = createDatabaseDoc();
+    const rowMetas = createRows(database, 2);
+    const result = renderDispatch(doc, rowMetas);
+
+    act(() => {
+      result.current.updatePrefix(' BUG ');
+    });
+
+    expect(decodeCellToText(getIdCell(rowMetas['row-2']), fields.get(idFieldId))).toBe('BUG-2');
+  });
+
+  it('sorts numerically and filters by the displayed ID', () => {
+    const { doc, database, fields } = createDatabaseDoc();
+    const rowMetas = createRows(database, 10);
+    const result = renderDispatch(doc, rowMetas);
+
+    act(() => {
+      result.current.updatePrefix('BUG');
+    });
+
+    const rows = Object.keys(rowMetas).map((id) => ({ id, height: 0 }));
+    const sorts = new Y.Doc().getArray('sorts') as YDatabaseSorts;
+    const sort = new Y.Map() as YDatabaseSort;
+
+    sort.set(YjsDatabaseKey.id, 'sort');
+    sort.set(YjsDatabaseKey.field_id, idFieldId);
+    sort.set(YjsDatabaseKey.condition, 1);
+    sorts.push([sort]);
+
+    expect(decodeCellForSort(getIdCell(rowMetas['row-9']), fields.get(idFieldId))).toBe(9);
+    expect(
+      sortBy(rows, sorts, fields, rowMetas)
+        .map((row) => row.id)
+        .slice(0, 2)
+    ).toEqual(['row-10', 'row-9']);
+
+    const filters = new Y.Doc().getArray('filters') as YDatabaseFilters;
+    const filter = new Y.Map() as YDatabaseFilter;
+
+    filter.set(YjsDatabaseKey.id, 'filter');
+    filter.set(YjsDatabaseKey.field_id, idFieldId);
+    filter.set(YjsDatabaseKey.filter_type, FilterType.Data);
+    filter.set(YjsDatabaseKey.condition, TextFilterCondition.TextIs);
+    filter.set(YjsDatabaseKey.content, 'BUG-7');
+    filters.push([filter]);
+
+    expect(filterBy(rows, filters, fields, rowMetas).map((row) => row.id)).toEqual(['row-7']);
+  });
+
+  it('backfills existing rows oldest first when a field becomes a unique ID', async () => {
+    const { doc, fields } = createDatabaseDoc(FieldType.RichText);
+    const rowMap: Record<RowId, YDoc> = {
+      newer: createRowDoc('newer', databaseId, { [idFieldId]: createCell(FieldType.RichText, 'text') }, '200'),
+      older: createRowDoc('older', databaseId, {}, '100'),
+    };
+    const result = renderDispatch(doc, rowMap);
+
+    await act(async () => {
+      await result.current.switchType(idFieldId, FieldType.UniqueId);
+    });
+
+    const field = fields.get(idFieldId);
+
+    expect(decodeCellToText(getIdCell(rowMap.older), field)).toBe('1');
+    expect(decodeCellToText(getIdCell(rowMap.newer), field)).toBe('2');
+    expect(parseUniqueIdTypeOption(field).next_id).toBe(3);
+  });
+});
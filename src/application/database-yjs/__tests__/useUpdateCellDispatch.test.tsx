@@ -1,9 +1,13 @@
-import { renderHook, waitFor } from '@testing-library/react';
+import { act, renderHook, waitFor } from '@testing-library/react';
 import type React from 'react';
 import * as Y from 'yjs';
 
 import { DatabaseContext, DatabaseContextState, FieldType } from '@/application/database-yjs';
-import { useUpdateCellDispatch, useUpdateStartEndTimeCell } from '@/application/database-yjs/dispatch';
+import {
+  useBulkUpdateCellDispatch,
+  useUpdateCellDispatch,
+  useUpdateStartEndTimeCell,
+} from '@/application/database-yjs/dispatch';
 import {
   RowId,
   YDatabase,
@@ -221,3 +225,42 @@ describe('useUpdateStartEndTimeCell', () => {
     });
   });
 });
+
+describe('useBulkUpdateCellDispatch', () => {
+  it('writes one value to every resolvable row and skips the rest', async () => {
+    const databaseDoc = createDatabaseDoc();
+    const loadedRow = createRowDoc('row-a', databaseId, {});
+    const lazyRow = createRowDoc('row-b', databaseId, {});
+    const ensureRow = jest.fn<Promise<YDoc | undefined>, [RowId]>((id) =>
+      Promise.resolve(id === 'row-b' ? lazyRow : undefined)
+    );
+    const markCellLocalMutation = jest.fn();
+    const contextValue: DatabaseContextState = {
+      readOnly: false,
+      databaseDoc,
+      databasePageId: viewId,
+      activeViewId: viewId,
+      rowMap: { 'row-a': loadedRow },
+      ensureRow,
+      markCellLocalMutation,
+      workspaceId: 'workspace-id',
+    };
+    const { result } = renderHook(() => useBulkUpdateCellDispatch(fieldId), {
+      wrapper: createWrapper(contextValue),
+    });
+    let updated: string[] = [];
+
+    await act(async () => {
+      updated = await result.current(['row-a', 'row-b', 'row-missing'], 'Done');
+    });
+
+    expect(updated).toEqual(['row-a', 'row-b']);
+    expect(getCellData(loadedRow)).toBe('Done');
+    expect(getCellData(lazyRow)).toBe('Done');
+    expect(Number(getCell(lazyRow)?.get(YjsDatabaseKey.field_type))).toBe(FieldType.RichText);
+    expect(markCellLocalMutation.mock.calls).toEqual([
+      ['row-a', fieldId],
+      ['row-b', fieldId],
+    ]);
+  });
+});
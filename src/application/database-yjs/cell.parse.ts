@@ -8,6 +8,7 @@ import {
   SelectOptionColor,
   generateOptionId,
   getDateCellStr,
+  getUniqueIdText,
   parseChecklistData,
   parseDesktopChecklistText,
   parseDesktopDateToUnixSeconds,
@@ -20,6 +21,14 @@ import {
   parseNumberTypeOptions,
   stringifyDesktopNumberValue,
 } from '@/application/database-yjs/fields/number/parse';
+import {
+  FormulaError,
+  FormulaValue,
+  evaluateFormula,
+  findFieldByName,
+  formatFormulaValue,
+} from '@/application/database-yjs/fields/formula';
+import { parseFormulaTypeOption } from '@/application/database-yjs/fields/formula/parse';
 import { isFileMediaItem } from '@/application/database-yjs/fields/media/parse';
 import {
   parseCheckboxValue,
@@ -27,10 +36,10 @@ import {
   parseDesktopI64,
   parseTimeStringToMs,
 } from '@/application/database-yjs/fields/text/utils';
-import { User, YDatabaseCell, YDatabaseField, YjsDatabaseKey } from '@/application/types';
+import { User, YDatabaseCell, YDatabaseField, YDatabaseFields, YDatabaseRow, YjsDatabaseKey } from '@/application/types';
 
 import { getCellFieldTypeContext } from './cell.field-type';
-import { Cell, DateTimeCell, FileMediaCell, FileMediaCellData } from './cell.type';
+import { Cell, DateTimeCell, FileMediaCell, FileMediaCellData, FormulaCell } from './cell.type';
 
 export function parseYDatabaseCommonCellToCell(cell: YDatabaseCell, fieldType?: FieldType): Cell {
   return {
@@ -468,6 +477,9 @@ export function getCellDataText(cell: YDatabaseCell, field: YDatabaseField, curr
       return getDateCellStr({ cell: parsedCell as DateTimeCell, field, currentUser });
     }
 
+    case FieldType.UniqueId:
+      return getUniqueIdText(data, field);
+
     case FieldType.CreatedTime:
     case FieldType.LastEditedTime:
     case FieldType.Relation:
@@ -483,6 +495,129 @@ export function getCellDataText(cell: YDatabaseCell, field: YDatabaseField, curr
   }
 }
 
+function toRowTimestampDate(value: unknown): Date | null {
+  if (value === undefined || value === null || value === '') return null;
+  const seconds = Number(value);
+
+  return Number.isFinite(seconds) ? new Date(seconds * 1000) : null;
+}
+
+/**
+ * Resolve the value `prop()` returns for one property of a row. Numbers, dates
+ * and checkboxes keep their native kind so formulas can do arithmetic and date
+ * math on them; every other property is read as its display text.
+ */
+function getFormulaPropertyValue(
+  row: YDatabaseRow,
+  field: YDatabaseField,
+  fields: YDatabaseFields,
+  visiting: Set<string>,
+  currentUser?: User
+): FormulaValue {
+  const fieldType = Number(field.get(YjsDatabaseKey.type)) as FieldType;
+
+  if (fieldType === FieldType.CreatedTime) return toRowTimestampDate(row.get(YjsDatabaseKey.created_at));
+  if (fieldType === FieldType.LastEditedTime) return toRowTimestampDate(row.get(YjsDatabaseKey.last_modified));
+  if (fieldType === FieldType.Formula) return evaluateFormulaForRow(row, field, fields, visiting, currentUser).value;
+
+  const cell = row.get(YjsDatabaseKey.cells)?.get(field.get(YjsDatabaseKey.id));
+
+  switch (fieldType) {
+    case FieldType.Number:
+    case FieldType.Time: {
+      const data = cell ? parseYDatabaseCellToCell(cell, field).data : undefined;
+
+      if (data === undefined || data === null || String(data).trim() === '') return null;
+      const value = Number(data);
+
+      return Number.isFinite(value) ? value : null;
+    }
+
+    case FieldType.Checkbox: {
+      const data = cell ? parseYDatabaseCellToCell(cell, field).data : undefined;
+
+      return typeof data === 'string' || typeof data === 'number' || typeof data === 'boolean'
+        ? parseCheckboxValue(data)
+        : false;
+    }
+
+    case FieldType.DateTime: {
+      const data = cell ? parseYDatabaseCellToCell(cell, field).data : undefined;
+
+      return toRowTimestampDate(data);
+    }
+
+    default:
+      return cell ? getCellDataText(cell, field, currentUser) : '';
+  }
+}
+
+function evaluateFormulaForRow(
+  row: YDatabaseRow,
+  field: YDatabaseField,
+  fields: YDatabaseFields,
+  visiting: Set<string>,
+  currentUser?: User
+) {
+  const fieldId = field.get(YjsDatabaseKey.id);
+
+  if (visiting.has(fieldId)) {
+    throw new FormulaError(`Circular reference to "${field.get(YjsDatabaseKey.name)}"`);
+  }
+
+  const { expression } = parseFormulaTypeOption(field);
+
+  visiting.add(fieldId);
+
+  try {
+    const result = evaluateFormula(expression, {
+      getProperty: (name) => {
+        const target = findFieldByName(fields, name);
+
+        if (!target) throw new FormulaError(`Unknown property "${name}"`);
+        return getFormulaPropertyValue(row, target, fields, visiting, currentUser);
+      },
+    });
+
+    // Surface a failing referenced formula as a failure of this one too.
+    if (result.error && visiting.size > 1) throw new FormulaError(result.error);
+    return result;
+  } finally {
+    visiting.delete(fieldId);
+  }
+}
+
+/**
+ * Compute a formula cell for a row. Formula cells store no data of their own;
+ * the value is derived from the row's other cells every time it is read.
+ */
+export function parseFormulaCell(
+  row: YDatabaseRow,
+  field: YDatabaseField,
+  fields: YDatabaseFields,
+  currentUser?: User
+): FormulaCell {
+  const { result_type: resultType } = parseFormulaTypeOption(field);
+  let result: { value: FormulaValue; error?: string };
+
+  try {
+    result = evaluateFormulaForRow(row, field, fields, new Set(), currentUser);
+  } catch (error) {
+    if (!(error instanceof FormulaError)) throw error;
+    result = { value: null, error: error.message };
+  }
+
+  return {
+    createdAt: Number(row.get(YjsDatabaseKey.created_at)),
+    lastModified: Number(row.get(YjsDatabaseKey.last_modified)),
+    fieldType: FieldType.Formula,
+    data: result.error ? '' : formatFormulaValue(result.value),
+    value: result.value,
+    resultType,
+    error: result.error,
+  };
+}
+
 function stringifyFromSource(
   cell: YDatabaseCell,
   field: YDatabaseField | undefined,
@@ -574,9 +709,13 @@ function stringifyFromSource(
         .join(', ');
     }
 
+    case FieldType.UniqueId:
+      return getUniqueIdText(data, field);
+
     case FieldType.Relation:
     case FieldType.Person:
     case FieldType.Rollup:
+    case FieldType.Formula:
       return '';
 
     default:
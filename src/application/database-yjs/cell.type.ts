@@ -2,6 +2,7 @@ import React from 'react';
 import * as Y from 'yjs';
 
 import { FieldType } from '@/application/database-yjs/database.type';
+import { FormulaResultType, FormulaValue } from '@/application/database-yjs/fields/formula/formula.type';
 import { DateFormat, FieldId, RowId, TimeFormat } from '@/application/types';
 
 export interface Cell {
@@ -110,6 +111,15 @@ export interface RollupCell extends Cell {
   list?: string[];
 }
 
+export interface FormulaCell extends Cell {
+  fieldType: FieldType.Formula;
+  /** The evaluated value formatted for display. */
+  data: string;
+  value: FormulaValue;
+  resultType: FormulaResultType;
+  error?: string;
+}
+
 export interface PersonCell extends Cell {
   fieldType: FieldType.Person;
   data: string;
@@ -10,6 +10,8 @@ export enum ChartType {
   Line = 1,
   HorizontalBar = 2,
   Donut = 3,
+  StackedBar = 4,
+  Area = 5,
 }
 
 /**
@@ -25,6 +27,15 @@ export enum ChartAggregationType {
   CountValues = 6,
 }
 
+/**
+ * One plotted value per x category: an aggregation, over a y field unless it
+ * is a plain count.
+ */
+export interface ChartSeriesConfig {
+  aggregationType: ChartAggregationType;
+  yFieldId?: string;
+}
+
 /**
  * Chart layout settings matching Flutter's ChartLayoutSettingPB
  * Stored in YJS under layout_settings with key '3' (Chart layout enum value)
@@ -37,6 +48,22 @@ export interface ChartLayoutSettings {
   yFieldId?: string;
   cumulative: boolean;
   dateCondition: DateGroupCondition;
+  /** Series plotted next to the primary aggregation/yFieldId series. Web only. */
+  additionalSeries: ChartSeriesConfig[];
+  /** Second grouping field that splits every series into one segment per value. Web only. */
+  stackFieldId?: string;
+  /** Fill the gaps between date buckets so a date x-axis is continuous. Web only. */
+  continuousDates: boolean;
+}
+
+/**
+ * A rendered series: one aggregation, optionally narrowed to one value of the
+ * stack-by field.
+ */
+export interface ChartSeries {
+  key: string;
+  label: string;
+  color: string;
 }
 
 /**
@@ -53,6 +80,10 @@ export interface ChartDataItem {
   color?: string;
   /** True for "No {field}" category */
   isEmptyCategory?: boolean;
+  /** Value of every series in this category, keyed by `ChartSeries.key` */
+  seriesValues?: Record<string, number>;
+  /** Row IDs behind every series value, keyed by `ChartSeries.key` */
+  seriesRowIds?: Record<string, RowId[]>;
 }
 
 /**
@@ -94,8 +125,51 @@ export const ChartLayoutKeys = {
   yFieldId: 'yFieldId',
   cumulative: 'cumulative',
   dateCondition: 'dateCondition',
+  additionalSeries: 'additionalSeries',
+  stackFieldId: 'stackFieldId',
+  continuousDates: 'continuousDates',
 } as const;
 
+/**
+ * Additional series persist as a JSON string, since the chart setting map
+ * only holds primitives. Malformed entries are dropped.
+ */
+export function parseChartSeriesConfigs(raw: unknown): ChartSeriesConfig[] {
+  if (typeof raw !== 'string' || raw.length === 0) return [];
+
+  try {
+    const parsed: unknown = JSON.parse(raw);
+
+    if (!Array.isArray(parsed)) return [];
+
+    return parsed.flatMap((item) => {
+      if (!item || typeof item !== 'object') return [];
+      const { aggregationType, yFieldId } = item as Record<string, unknown>;
+
+      if (typeof aggregationType !== 'number' || !(aggregationType in ChartAggregationType)) return [];
+
+      return [
+        {
+          aggregationType: aggregationType as ChartAggregationType,
+          yFieldId: typeof yFieldId === 'string' && yFieldId ? yFieldId : undefined,
+        },
+      ];
+    });
+  } catch {
+    return [];
+  }
+}
+
+/** Chart types that plot every series rather than the primary one only. */
+export function isMultiSeriesChartType(chartType: ChartType): boolean {
+  return (
+    chartType === ChartType.Bar ||
+    chartType === ChartType.StackedBar ||
+    chartType === ChartType.Line ||
+    chartType === ChartType.Area
+  );
+}
+
 /**
  * Layout settings key for Chart (DatabaseViewLayout.Chart = 3)
  */
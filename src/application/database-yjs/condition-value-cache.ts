@@ -1,4 +1,4 @@
-import { parseYDatabaseCellToCell } from '@/application/database-yjs/cell.parse';
+import { parseFormulaCell, parseYDatabaseCellToCell } from '@/application/database-yjs/cell.parse';
 import { DateTimeCell } from '@/application/database-yjs/cell.type';
 import { decodeCellForSort, decodeCellToText } from '@/application/database-yjs/decode';
 import { getRelationRowIdsFromCell } from '@/application/database-yjs/relation/cell';
@@ -7,6 +7,7 @@ import {
   YDatabaseCell,
   YDatabaseCells,
   YDatabaseField,
+  YDatabaseFields,
   YDatabaseRow,
   YDoc,
   YjsDatabaseKey,
@@ -191,3 +192,11 @@ export function getConditionDateCell(snapshot: RowConditionSnapshot, fieldId: Fi
   snapshot.dateCellByField.set(fieldId, { revision, value });
   return value;
 }
+
+/**
+ * Formula values depend on every property they reference, so they are not
+ * cached per cell revision like the other condition values.
+ */
+export function getConditionFormulaCell(snapshot: RowConditionSnapshot, field: YDatabaseField, fields: YDatabaseFields) {
+  return parseFormulaCell(snapshot.row, field, fields);
+}
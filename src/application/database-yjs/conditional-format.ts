@@ -0,0 +1,155 @@
+import * as Y from 'yjs';
+
+import { FilterType } from '@/application/database-yjs/database.type';
+import { SelectOptionColor } from '@/application/database-yjs/fields/select-option/select_option.type';
+import {
+  compileFilterPredicate,
+  getDefaultFilterCondition,
+  resolveRollupFilterTargetFieldType,
+} from '@/application/database-yjs/filter';
+import type { FilterOptions } from '@/application/database-yjs/filter';
+import {
+  ConditionalFormatTarget,
+  FieldId,
+  RowId,
+  YDatabaseConditionalFormat,
+  YDatabaseConditionalFormats,
+  YDatabaseField,
+  YDatabaseFields,
+  YDatabaseFilter,
+  YDoc,
+  YjsDatabaseKey,
+} from '@/application/types';
+
+export interface ConditionalFormatRule {
+  id: string;
+  fieldId: FieldId;
+  target: ConditionalFormatTarget;
+  color: SelectOptionColor;
+}
+
+export interface ConditionalFormatStyle {
+  rowColor?: SelectOptionColor;
+  cellColors: Record<FieldId, SelectOptionColor>;
+}
+
+export const EMPTY_CONDITIONAL_FORMAT_STYLE: ConditionalFormatStyle = { cellColors: {} };
+
+export const DEFAULT_CONDITIONAL_FORMAT_COLOR = SelectOptionColor.OptionColor5;
+
+const SELECT_OPTION_COLORS = new Set<string>(Object.values(SelectOptionColor));
+
+export function parseConditionalFormatTarget(value: unknown): ConditionalFormatTarget {
+  return Number(value) === ConditionalFormatTarget.Cell ? ConditionalFormatTarget.Cell : ConditionalFormatTarget.Row;
+}
+
+export function parseConditionalFormatColor(value: unknown): SelectOptionColor {
+  return typeof value === 'string' && SELECT_OPTION_COLORS.has(value)
+    ? (value as SelectOptionColor)
+    : DEFAULT_CONDITIONAL_FORMAT_COLOR;
+}
+
+export function parseConditionalFormatRule(format: YDatabaseConditionalFormat): ConditionalFormatRule {
+  return {
+    id: format.get(YjsDatabaseKey.id),
+    fieldId: format.get(YjsDatabaseKey.field_id),
+    target: parseConditionalFormatTarget(format.get(YjsDatabaseKey.format_target)),
+    color: parseConditionalFormatColor(format.get(YjsDatabaseKey.format_color)),
+  };
+}
+
+/**
+ * Build a rule for a field with the field's default filter condition, the same
+ * starting point a new filter gets. Returns null for fields that cannot be filtered.
+ */
+export function createConditionalFormat(
+  id: string,
+  field: YDatabaseField,
+  { target, color }: { target: ConditionalFormatTarget; color: SelectOptionColor }
+): YDatabaseConditionalFormat | null {
+  const fieldType = Number(field.get(YjsDatabaseKey.type));
+  const conditionData = getDefaultFilterCondition(fieldType, field);
+
+  if (!conditionData) return null;
+
+  const format = new Y.Map() as YDatabaseConditionalFormat;
+
+  format.set(YjsDatabaseKey.id, id);
+  format.set(YjsDatabaseKey.field_id, field.get(YjsDatabaseKey.id));
+  format.set(YjsDatabaseKey.condition, conditionData.condition);
+  if (conditionData.content !== undefined) {
+    format.set(YjsDatabaseKey.content, conditionData.content);
+  }
+
+  format.set(YjsDatabaseKey.type, fieldType);
+  format.set(YjsDatabaseKey.filter_type, FilterType.Data);
+  const rollupTargetFieldType = resolveRollupFilterTargetFieldType(fieldType, field);
+
+  if (rollupTargetFieldType !== undefined) {
+    format.set(YjsDatabaseKey.rollup_target_type, rollupTargetFieldType);
+  }
+
+  format.set(YjsDatabaseKey.format_target, target);
+  format.set(YjsDatabaseKey.format_color, color);
+  return format;
+}
+
+/** Copy a rule so it can be re-inserted at another index; rules only hold plain values. */
+export function cloneConditionalFormat(format: YDatabaseConditionalFormat): YDatabaseConditionalFormat {
+  const clone = new Y.Map() as YDatabaseConditionalFormat;
+
+  format.forEach((value, key) => clone.set(key, value));
+  return clone;
+}
+
+/**
+ * Resolve the colors for one row. Rules are evaluated in order and the first
+ * matching rule wins: once for the row, and once per field for cell rules.
+ * Conditions use the filter evaluator, so a rule matches exactly the rows a
+ * filter with the same condition would keep.
+ */
+export function getConditionalFormatStyle(
+  formats: YDatabaseConditionalFormats | undefined,
+  fields: YDatabaseFields,
+  rowMetas: Record<RowId, YDoc>,
+  rowId: RowId,
+  options?: FilterOptions
+): ConditionalFormatStyle {
+  if (!formats || formats.length === 0 || !rowMetas[rowId]) return EMPTY_CONDITIONAL_FORMAT_STYLE;
+
+  let rowColor: SelectOptionColor | undefined;
+  const cellColors: Record<FieldId, SelectOptionColor> = {};
+
+  formats.forEach((format) => {
+    const rule = parseConditionalFormatRule(format);
+    const isCellRule = rule.target === ConditionalFormatTarget.Cell;
+
+    if (isCellRule ? cellColors[rule.fieldId] : rowColor) return;
+
+    // A rule is a data filter node with two extra keys the evaluator ignores.
+    const predicate = compileFilterPredicate(format as unknown as YDatabaseFilter, fields, rowMetas, options);
+
+    if (!predicate?.({ id: rowId, height: 0 })) return;
+
+    if (isCellRule) {
+      cellColors[rule.fieldId] = rule.color;
+    } else {
+      rowColor = rule.color;
+    }
+  });
+
+  if (!rowColor && Object.keys(cellColors).length === 0) return EMPTY_CONDITIONAL_FORMAT_STYLE;
+
+  return { rowColor, cellColors };
+}
+
+export function isConditionalFormatStyleEqual(a: ConditionalFormatStyle, b: ConditionalFormatStyle) {
+  if (a === b) return true;
+  if (a.rowColor !== b.rowColor) return false;
+
+  const aKeys = Object.keys(a.cellColors);
+
+  return (
+    aKeys.length === Object.keys(b.cellColors).length && aKeys.every((key) => a.cellColors[key] === b.cellColors[key])
+  );
+}
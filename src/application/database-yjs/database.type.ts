@@ -26,6 +26,8 @@ export enum FieldType {
   Rollup = 16,
   CreatedBy = 17,
   LastEditedBy = 18,
+  Formula = 19,
+  UniqueId = 20,
 }
 
 export const ATTRIBUTION_FIELD_TYPES = [FieldType.CreatedBy, FieldType.LastEditedBy] as const;
@@ -95,6 +97,15 @@ export interface Filter {
   rollupTargetFieldType?: FieldType;
 }
 
+/** An And/Or group of an advanced filter tree; children are filters or nested groups. */
+export interface FilterGroupNode<T> {
+  id: string;
+  filterType: FilterType.And | FilterType.Or;
+  children: (T | FilterGroupNode<T>)[];
+}
+
+export type FilterGroup = FilterGroupNode<Filter>;
+
 export enum CalendarLayout {
   MonthLayout = 0,
   WeekLayout = 1,
@@ -3,8 +3,10 @@ import { isCellDataTransformable, parseYDatabaseCellToCell } from '@/application
 import { DateTimeCell } from '@/application/database-yjs/cell.type';
 import { FieldType } from '@/application/database-yjs/database.type';
 import {
+  getUniqueIdText,
   parseChecklistFlexible,
   parseSelectOptionTypeOptions,
+  parseUniqueIdValue,
   stringifyChecklist,
 } from '@/application/database-yjs/fields';
 import { getDateCellStr } from '@/application/database-yjs/fields/date/utils';
@@ -68,6 +70,9 @@ export function decodeCellToText(cell: YDatabaseCell, field: YDatabaseField, cur
     case FieldType.Relation:
       return getRelationRowIdsFromCell(cell).join(',');
 
+    case FieldType.UniqueId:
+      return getUniqueIdText(data, field);
+
     default:
       return typeof data === 'string' || typeof data === 'number' ? String(data) : '';
   }
@@ -111,6 +116,9 @@ export function decodeCellForSort(
       }
 
       return '';
+    case FieldType.UniqueId:
+      // Numeric so BUG-9 sorts before BUG-10.
+      return parseUniqueIdValue(data) ?? '';
     case FieldType.Checklist: {
       if (typeof data !== 'string') return 0;
       const parsed = parseChecklistFlexible(data);
@@ -6,8 +6,20 @@ import * as Y from 'yjs';
 import { resolveUserAttributionUid, touchRowAttribution } from '@/application/database-yjs/attribution';
 import { calculateFieldValue } from '@/application/database-yjs/calculation';
 import { cloneDatabaseCell } from '@/application/database-yjs/cell.clone';
-import { normalizeLegacyCellFieldType, setCellStoredType } from '@/application/database-yjs/cell.field-type';
+import {
+  getStoredCellFieldType,
+  normalizeLegacyCellFieldType,
+  setCellStoredType,
+} from '@/application/database-yjs/cell.field-type';
 import { parseYDatabaseCellToCell } from '@/application/database-yjs/cell.parse';
+import { ChartSeriesConfig } from '@/application/database-yjs/chart.type';
+import {
+  cloneConditionalFormat,
+  createConditionalFormat,
+  DEFAULT_CONDITIONAL_FORMAT_COLOR,
+  parseConditionalFormatColor,
+  parseConditionalFormatTarget,
+} from '@/application/database-yjs/conditional-format';
 import { DEFAULT_FIELD_WRAP } from '@/application/database-yjs/const';
 import {
   useDatabase,
@@ -36,13 +48,22 @@ import {
 import { deleteReciprocalRelationField } from '@/application/database-yjs/dispatch/relation';
 import { useNewRowDispatch } from '@/application/database-yjs/dispatch/row';
 import {
+  createUniqueIdCell,
+  DEFAULT_UNIQUE_ID_START,
+  ensureUniqueIdTypeOption,
+  FormulaResultType,
   getFieldName,
   NumberFormat,
   parseChecklistData,
   parseSelectOptionTypeOptions,
+  parseUniqueIdTypeOption,
+  parseUniqueIdValue,
+  refreshFormulaResultTypes,
+  resolveFormulaResultType,
   SelectOption,
   SelectOptionColor,
   SelectTypeOption,
+  takeNextUniqueId,
 } from '@/application/database-yjs/fields';
 import { createCheckboxCell } from '@/application/database-yjs/fields/checkbox/utils';
 import { parseRelationTypeOption } from '@/application/database-yjs/fields/relation/parse';
@@ -77,16 +98,23 @@ import { waitForDatabaseRowHydration } from '@/application/database-yjs/row.hydr
 import { getInlineViewRowOrders, materializeVisibleRowOrders } from '@/application/database-yjs/row-order-visibility';
 import { getMetaIdMap } from '@/application/database-yjs/row_meta';
 import { useCalendarLayoutSetting, useFieldType } from '@/application/database-yjs/selector';
+import {
+  getValidTimelineField,
+  initializeTimelineLayoutSetting,
+  normalizeCreatedDatabaseTimelineView,
+} from '@/application/database-yjs/timeline-layout';
 import { deleteCollabDB } from '@/application/db';
 import { executeOperations } from '@/application/slate-yjs/utils/yjs';
 import { deleteOutboxByObjectId } from '@/application/sync-outbox';
 import {
+  ConditionalFormatTarget,
   DatabaseViewLayout,
   DateFormat,
   FieldId,
   GalleryLayoutSettings,
   RowId,
   TimeFormat,
+  TimelineLayoutSettings,
   UpdatePagePayload,
   View,
   ViewLayout,
@@ -97,6 +125,7 @@ import {
   YDatabaseCalendarLayoutSetting,
   YDatabaseCell,
   YDatabaseChartLayoutSetting,
+  YDatabaseConditionalFormats,
   YDatabaseField,
   YDatabaseFieldOrders,
   YDatabaseFields,
@@ -114,6 +143,7 @@ import {
   YDatabaseRowOrders,
   YDatabaseSort,
   YDatabaseSorts,
+  YDatabaseTimelineLayoutSetting,
   YDatabaseView,
   YDoc,
   YjsDatabaseKey,
@@ -315,7 +345,7 @@ export function useGroupByFieldDispatch() {
         [
           () => {
             const layout = Number(view.get(YjsDatabaseKey.layout)) as DatabaseViewLayout;
-            const supportsOptionalGrouping = layout === DatabaseViewLayout.Grid || layout === DatabaseViewLayout.List;
+            const supportsOptionalGrouping = isOptionalGroupingLayout(layout);
 
             if (!supportsOptionalGrouping) {
               // Board keeps its existing behavior: a field cannot simultaneously
@@ -395,7 +425,7 @@ export function useUpdateGroupContentDispatch() {
             if (!group) throw new Error('Group not found');
             const layout = Number(view?.get(YjsDatabaseKey.layout)) as DatabaseViewLayout;
 
-            if (layout === DatabaseViewLayout.Grid || layout === DatabaseViewLayout.List) {
+            if (isOptionalGroupingLayout(layout)) {
               markLocalDatabaseGroupInitialization(group);
             }
 
@@ -443,7 +473,7 @@ export function useUpdateDateGroupConditionDispatch() {
             replacement.set(YjsDatabaseKey.content, JSON.stringify({ ...configuration, condition }));
             const layout = Number(view?.get(YjsDatabaseKey.layout)) as DatabaseViewLayout;
 
-            if (layout === DatabaseViewLayout.Grid || layout === DatabaseViewLayout.List) {
+            if (isOptionalGroupingLayout(layout)) {
               markLocalDatabaseGroupInitialization(replacement);
             }
 
@@ -924,10 +954,19 @@ function getOrCreateBoardLayoutSetting(view: YDatabaseView) {
   return layoutSetting;
 }
 
+type OptionalGroupingLayout = DatabaseViewLayout.Grid | DatabaseViewLayout.List | DatabaseViewLayout.Timeline;
+
+/** Layouts where grouping is an optional view of the rows rather than the layout itself, unlike Board. */
+function isOptionalGroupingLayout(layout: DatabaseViewLayout): layout is OptionalGroupingLayout {
+  return (
+    layout === DatabaseViewLayout.Grid || layout === DatabaseViewLayout.List || layout === DatabaseViewLayout.Timeline
+  );
+}
+
 function getOrCreateDatabaseGroupingLayoutSetting(
   view: YDatabaseView,
-  layout: DatabaseViewLayout.Grid | DatabaseViewLayout.List
-): YDatabaseGridLayoutSetting | YDatabaseListLayoutSetting {
+  layout: OptionalGroupingLayout
+): YDatabaseGridLayoutSetting | YDatabaseListLayoutSetting | YDatabaseTimelineLayoutSetting {
   let layoutSettings = view.get(YjsDatabaseKey.layout_settings);
 
   if (!layoutSettings) {
@@ -935,17 +974,25 @@ function getOrCreateDatabaseGroupingLayoutSetting(
     view.set(YjsDatabaseKey.layout_settings, layoutSettings);
   }
 
-  let layoutSetting = layout === DatabaseViewLayout.List ? layoutSettings.get('4') : layoutSettings.get('0');
+  let layoutSetting =
+    layout === DatabaseViewLayout.List
+      ? layoutSettings.get('4')
+      : layout === DatabaseViewLayout.Timeline
+      ? layoutSettings.get('6')
+      : layoutSettings.get('0');
 
   if (!layoutSetting) {
-    layoutSetting = new Y.Map() as YDatabaseGridLayoutSetting | YDatabaseListLayoutSetting;
+    layoutSetting = new Y.Map() as
+      | YDatabaseGridLayoutSetting
+      | YDatabaseListLayoutSetting
+      | YDatabaseTimelineLayoutSetting;
     layoutSettings.set(String(layout), layoutSetting);
   }
 
   return layoutSetting;
 }
 
-export function useToggleDatabaseHideEmptyGroups(layout: DatabaseViewLayout.Grid | DatabaseViewLayout.List) {
+export function useToggleDatabaseHideEmptyGroups(layout: OptionalGroupingLayout) {
   const view = useDatabaseView();
   const sharedRoot = useSharedRoot();
 
@@ -974,6 +1021,10 @@ export function useToggleListHideEmptyGroups() {
   return useToggleDatabaseHideEmptyGroups(DatabaseViewLayout.List);
 }
 
+export function useToggleTimelineHideEmptyGroups() {
+  return useToggleDatabaseHideEmptyGroups(DatabaseViewLayout.Timeline);
+}
+
 export function useSetDatabaseGroupVisibilityDispatch(groupId?: string, fieldId?: string) {
   const view = useDatabaseView();
   const fields = useDatabaseFields();
@@ -1563,6 +1614,7 @@ export function useUpdatePropertyNameDispatch(fieldId: string) {
             field.set(YjsDatabaseKey.last_modified, String(dayjs().unix()));
 
             field.set(YjsDatabaseKey.name, name);
+            refreshFormulaResultTypes(database.get(YjsDatabaseKey.fields));
           },
         ],
         'updatePropertyName'
@@ -1887,6 +1939,7 @@ export function useDeletePropertyDispatch() {
           }
 
           fields.delete(fieldId);
+          refreshFormulaResultTypes(fields);
 
           const index = fieldOrders.toArray().findIndex((field) => field.id === fieldId);
 
@@ -1987,6 +2040,7 @@ export function useCreateCalendarEvent() {
 // exist as siblings, while TS picks the folder. Without this re-export the
 // two paths resolve to different implementations and silently drift.
 export {
+  useBulkDuplicateRowsDispatch,
   useDuplicateRowDispatch,
   useNewRowDispatch,
   useSoftDeleteRowsDispatch,
@@ -2430,7 +2484,7 @@ export function useUpdateRowMetaDispatch(rowId: string) {
   );
 }
 
-export { useUpdateCellDispatch, useUpdateStartEndTimeCell } from './dispatch/cell';
+export { useBulkUpdateCellDispatch, useUpdateCellDispatch, useUpdateStartEndTimeCell } from './dispatch/cell';
 
 function createBoardLayoutSetting() {
   const layoutSetting = new Y.Map() as YDatabaseBoardLayoutSetting;
@@ -2659,6 +2713,8 @@ export function useAddDatabaseView() {
         [DatabaseViewLayout.Chart]: ViewLayout.Chart,
         [DatabaseViewLayout.List]: ViewLayout.List,
         [DatabaseViewLayout.Gallery]: ViewLayout.Gallery,
+        // Cloud has no Timeline folder layout; the Grid is converted below.
+        [DatabaseViewLayout.Timeline]: ViewLayout.Grid,
       };
       const layoutToName: Record<DatabaseViewLayout, string> = {
         [DatabaseViewLayout.Grid]: 'Grid',
@@ -2667,6 +2723,7 @@ export function useAddDatabaseView() {
         [DatabaseViewLayout.Chart]: 'Chart',
         [DatabaseViewLayout.List]: 'List',
         [DatabaseViewLayout.Gallery]: 'Gallery',
+        [DatabaseViewLayout.Timeline]: 'Timeline',
       };
       const viewLayout = layoutToViewLayout[layout];
       const name = layoutToName[layout];
@@ -2864,6 +2921,31 @@ export function useAddDatabaseView() {
         }
       }
 
+      if (layout === DatabaseViewLayout.Timeline) {
+        const createdViewWasNew = Boolean(response.view_id) && !existingViewIds.has(response.view_id);
+
+        if (
+          !createdViewWasNew ||
+          normalizeCreatedDatabaseTimelineView(databaseDoc, response.view_id, { name: nameOverride ?? name }) !==
+            response.view_id
+        ) {
+          if (createdViewWasNew) {
+            removeCreatedDatabaseView(databaseDoc, response.view_id);
+
+            try {
+              await deletePage?.(response.view_id);
+            } catch (error) {
+              Log.warn('[useAddDatabaseView] failed to roll back an invalid Timeline view', {
+                viewId: response.view_id,
+                error,
+              });
+            }
+          }
+
+          throw new Error('The server did not return the requested Timeline database view');
+        }
+      }
+
       return response.view_id;
     },
     [
@@ -3097,7 +3179,19 @@ export function useUpdateDatabaseLayout(viewId: string) {
               initializeGalleryLayoutSetting(view);
             }
 
-            if (currentLayout === DatabaseViewLayout.Board && layout === DatabaseViewLayout.Grid) {
+            if (layout === DatabaseViewLayout.Timeline) {
+              const configuredFieldId = view.get(YjsDatabaseKey.layout_settings)?.get('6')?.get(YjsDatabaseKey.field_id);
+              const dateField =
+                getValidTimelineField(database, fieldOrders, configuredFieldId) ??
+                enhanceCalendarLayoutByFieldExists(fieldOrders);
+
+              initializeTimelineLayoutSetting(view, dateField?.get(YjsDatabaseKey.id));
+            }
+
+            if (
+              currentLayout === DatabaseViewLayout.Board &&
+              (layout === DatabaseViewLayout.Grid || layout === DatabaseViewLayout.Timeline)
+            ) {
               const groups = view.get(YjsDatabaseKey.groups);
 
               if (groups?.length) groups.delete(0, groups.length);
@@ -3155,6 +3249,30 @@ export function useUpdateGalleryLayoutSettings() {
   );
 }
 
+export function useUpdateTimelineLayoutSettings() {
+  const view = useDatabaseView();
+  const sharedRoot = useSharedRoot();
+
+  return useCallback(
+    (changes: Partial<TimelineLayoutSettings>) => {
+      if (!view) return;
+
+      executeOperations(
+        sharedRoot,
+        [
+          () => {
+            const timeline = initializeTimelineLayoutSetting(view, changes.fieldId);
+
+            if (changes.zoom !== undefined) timeline.set(YjsDatabaseKey.zoom, changes.zoom);
+          },
+        ],
+        'updateTimelineLayoutSettings'
+      );
+    },
+    [sharedRoot, view]
+  );
+}
+
 export function useUpdateDatabaseView() {
   const database = useDatabase();
   const sharedRoot = useSharedRoot();
@@ -3285,9 +3403,53 @@ function collectDatabaseRowIds(database: YDatabase, loadedRows: Record<RowId, YD
   return Array.from(rowIds);
 }
 
+/**
+ * Number the rows of a field that just became a unique ID, oldest row first.
+ * Rows still holding an ID from an earlier stint as a unique ID field keep it,
+ * and the counter continues after the highest number in use.
+ */
+function backfillUniqueIds(
+  database: YDatabase,
+  field: YDatabaseField,
+  fieldId: FieldId,
+  rowMap: Record<RowId, YDoc>
+) {
+  const rows = collectDatabaseRowIds(database, rowMap)
+    .map((rowId, index) => ({ rowDoc: rowMap[rowId], row: getFieldSwitchDatabaseRow(rowMap[rowId]), index }))
+    .filter((entry): entry is { rowDoc: YDoc; row: YDatabaseRow; index: number } => Boolean(entry.row))
+    .sort((a, b) => {
+      const createdA = Number(a.row.get(YjsDatabaseKey.created_at)) || 0;
+      const createdB = Number(b.row.get(YjsDatabaseKey.created_at)) || 0;
+
+      return createdA - createdB || a.index - b.index;
+    });
+  const keptIds = rows.map(({ row }) => {
+    const cell = row.get(YjsDatabaseKey.cells)?.get(fieldId);
+
+    return cell && getStoredCellFieldType(cell) === FieldType.UniqueId
+      ? parseUniqueIdValue(cell.get(YjsDatabaseKey.data))
+      : null;
+  });
+  const typeOption = ensureUniqueIdTypeOption(field);
+  const highest = Math.max(0, ...keptIds.map((value) => value ?? 0));
+
+  typeOption.set(YjsDatabaseKey.next_id, Math.max(parseUniqueIdTypeOption(field).next_id, highest + 1));
+
+  rows.forEach(({ rowDoc, row }, index) => {
+    if (keptIds[index] !== null) return;
+
+    rowDoc.transact(() => {
+      row.get(YjsDatabaseKey.cells)?.set(fieldId, createUniqueIdCell(fieldId, takeNextUniqueId(field)));
+    });
+  });
+}
+
 function fieldSwitchRequiresEveryRow(sourceType: FieldType, targetType: FieldType): boolean {
   if (sourceType === targetType) return false;
 
+  // Every row needs a number, including rows that are not on screen.
+  if (targetType === FieldType.UniqueId) return true;
+
   if (sourceType === FieldType.CreatedTime || sourceType === FieldType.LastEditedTime) {
     return true;
   }
@@ -3418,6 +3580,8 @@ export function useSwitchPropertyType() {
                   FieldType.Media,
                   FieldType.Translate,
                   FieldType.Rollup,
+                  FieldType.Formula,
+                  FieldType.UniqueId,
                 ].includes(fieldType)
               ) {
                 // Ensure the type option map is created
@@ -3461,6 +3625,12 @@ export function useSwitchPropertyType() {
                     newTypeOption.set(YjsDatabaseKey.calculation_type, CalculationType.Count);
                     newTypeOption.set(YjsDatabaseKey.show_as, RollupDisplayMode.Calculated);
                     newTypeOption.set(YjsDatabaseKey.condition_value, '');
+                  } else if (fieldType === FieldType.Formula) {
+                    newTypeOption.set(YjsDatabaseKey.expression, '');
+                    newTypeOption.set(YjsDatabaseKey.result_type, FormulaResultType.Text);
+                  } else if (fieldType === FieldType.UniqueId) {
+                    newTypeOption.set(YjsDatabaseKey.prefix, '');
+                    newTypeOption.set(YjsDatabaseKey.next_id, DEFAULT_UNIQUE_ID_START);
                   }
 
                   typeOptionMap.set(String(fieldType), newTypeOption);
@@ -3661,6 +3831,12 @@ export function useSwitchPropertyType() {
                   }
                 });
               });
+
+              if (fieldType === FieldType.UniqueId) {
+                backfillUniqueIds(database, field, fieldId, resolvedRowMap);
+              }
+
+              refreshFormulaResultTypes(database.get(YjsDatabaseKey.fields));
             },
           ],
           'switchPropertyType'
@@ -4381,6 +4557,80 @@ export function useUpdateRollupTypeOption(fieldId: string) {
   );
 }
 
+export function useUpdateFormulaTypeOption(fieldId: string) {
+  const database = useDatabase();
+  const sharedRoot = useSharedRoot();
+
+  return useCallback(
+    (expression: string) => {
+      executeOperations(
+        sharedRoot,
+        [
+          () => {
+            const fields = database.get(YjsDatabaseKey.fields);
+            const field = fields?.get(fieldId);
+
+            if (!field) {
+              throw new Error(`Field not found`);
+            }
+
+            let typeOptionMap = field?.get(YjsDatabaseKey.type_option);
+
+            if (!typeOptionMap) {
+              typeOptionMap = new Y.Map() as YDatabaseFieldTypeOption;
+              field.set(YjsDatabaseKey.type_option, typeOptionMap);
+            }
+
+            let typeOption = typeOptionMap.get(String(FieldType.Formula));
+
+            if (!typeOption) {
+              typeOption = new Y.Map() as YMapFieldTypeOption;
+              typeOptionMap.set(String(FieldType.Formula), typeOption);
+            }
+
+            typeOption.set(YjsDatabaseKey.expression, expression);
+            // Persist the inferred result kind so filters, sorts and calculations
+            // know how to treat the field without evaluating every row.
+            typeOption.set(YjsDatabaseKey.result_type, resolveFormulaResultType(expression, fields));
+            // Formulas that reference this one inherit its result type.
+            refreshFormulaResultTypes(fields);
+            field.set(YjsDatabaseKey.last_modified, String(dayjs().unix()));
+          },
+        ],
+        'updateFormulaTypeOption'
+      );
+    },
+    [database, fieldId, sharedRoot]
+  );
+}
+
+export function useUpdateUniqueIdPrefix(fieldId: string) {
+  const database = useDatabase();
+  const sharedRoot = useSharedRoot();
+
+  return useCallback(
+    (prefix: string) => {
+      executeOperations(
+        sharedRoot,
+        [
+          () => {
+            const field = database.get(YjsDatabaseKey.fields)?.get(fieldId);
+
+            if (!field) {
+              throw new Error(`Field not found`);
+            }
+
+            ensureUniqueIdTypeOption(field).set(YjsDatabaseKey.prefix, prefix.trim());
+            field.set(YjsDatabaseKey.last_modified, String(dayjs().unix()));
+          },
+        ],
+        'updateUniqueIdPrefix'
+      );
+    },
+    [database, fieldId, sharedRoot]
+  );
+}
+
 export function useAddSort() {
   const view = useDatabaseView();
   const sharedRoot = useSharedRoot();
@@ -4763,6 +5013,214 @@ export function useUpdateFilter() {
   );
 }
 
+export function useAddConditionalFormat() {
+  const view = useDatabaseView();
+  const sharedRoot = useSharedRoot();
+  const fields = useDatabaseFields();
+
+  return useCallback(
+    (fieldId: string, target: ConditionalFormatTarget = ConditionalFormatTarget.Row) => {
+      const field = fields.get(fieldId);
+
+      if (!view || !field) {
+        Log.warn('[useAddConditionalFormat] Skipping rule creation: view or field is missing', { fieldId });
+        return;
+      }
+
+      const id = nanoid(6);
+
+      executeOperations(
+        sharedRoot,
+        [
+          () => {
+            const format = createConditionalFormat(id, field, { target, color: DEFAULT_CONDITIONAL_FORMAT_COLOR });
+
+            if (!format) {
+              Log.warn('[useAddConditionalFormat] No default condition for field', { fieldId });
+              return;
+            }
+
+            let formats = view.get(YjsDatabaseKey.conditional_formats);
+
+            if (!formats) {
+              formats = new Y.Array() as YDatabaseConditionalFormats;
+              view.set(YjsDatabaseKey.conditional_formats, formats);
+            }
+
+            formats.push([format]);
+          },
+        ],
+        'addConditionalFormat'
+      );
+
+      return id;
+    },
+    [view, sharedRoot, fields]
+  );
+}
+
+export function useRemoveConditionalFormat() {
+  const view = useDatabaseView();
+  const sharedRoot = useSharedRoot();
+
+  return useCallback(
+    (formatId: string) => {
+      if (!view) return;
+      executeOperations(
+        sharedRoot,
+        [
+          () => {
+            const formats = view.get(YjsDatabaseKey.conditional_formats);
+            const index = formats?.toArray().findIndex((format) => format.get(YjsDatabaseKey.id) === formatId) ?? -1;
+
+            if (!formats || index === -1) return;
+
+            formats.delete(index);
+          },
+        ],
+        'removeConditionalFormat'
+      );
+    },
+    [view, sharedRoot]
+  );
+}
+
+export interface UpdateConditionalFormatParams {
+  formatId: string;
+  /** The field the edit was made against; edits aimed at a previous field are dropped. */
+  fieldId?: string;
+  condition?: number;
+  content?: string;
+  target?: ConditionalFormatTarget;
+  color?: SelectOptionColor;
+}
+
+export function useUpdateConditionalFormat() {
+  const view = useDatabaseView();
+  const sharedRoot = useSharedRoot();
+
+  return useCallback(
+    ({ formatId, fieldId, condition, content, target, color }: UpdateConditionalFormatParams) => {
+      if (!view) return;
+      executeOperations(
+        sharedRoot,
+        [
+          () => {
+            const format = view
+              .get(YjsDatabaseKey.conditional_formats)
+              ?.toArray()
+              .find((format) => format.get(YjsDatabaseKey.id) === formatId);
+
+            if (!format) {
+              Log.warn('[useUpdateConditionalFormat] Rule not found', { formatId });
+              return;
+            }
+
+            if (fieldId !== undefined && format.get(YjsDatabaseKey.field_id) !== fieldId) {
+              Log.debug('[useUpdateConditionalFormat] Skipping stale rule update', { formatId, fieldId });
+              return;
+            }
+
+            if (condition !== undefined) {
+              format.set(YjsDatabaseKey.condition, condition);
+            }
+
+            if (content !== undefined) {
+              format.set(YjsDatabaseKey.content, content);
+            }
+
+            if (target !== undefined) {
+              format.set(YjsDatabaseKey.format_target, target);
+            }
+
+            if (color !== undefined) {
+              format.set(YjsDatabaseKey.format_color, color);
+            }
+          },
+        ],
+        'updateConditionalFormat'
+      );
+    },
+    [view, sharedRoot]
+  );
+}
+
+/** Point a rule at another field. The condition resets to the new field's default. */
+export function useChangeConditionalFormatField() {
+  const view = useDatabaseView();
+  const sharedRoot = useSharedRoot();
+  const fields = useDatabaseFields();
+
+  return useCallback(
+    (formatId: string, fieldId: string) => {
+      const field = fields.get(fieldId);
+
+      if (!view || !field) return;
+      executeOperations(
+        sharedRoot,
+        [
+          () => {
+            const formats = view.get(YjsDatabaseKey.conditional_formats);
+            const index = formats?.toArray().findIndex((format) => format.get(YjsDatabaseKey.id) === formatId) ?? -1;
+
+            if (!formats || index === -1) return;
+
+            const format = formats.get(index);
+
+            if (format.get(YjsDatabaseKey.field_id) === fieldId) return;
+
+            const next = createConditionalFormat(formatId, field, {
+              target: parseConditionalFormatTarget(format.get(YjsDatabaseKey.format_target)),
+              color: parseConditionalFormatColor(format.get(YjsDatabaseKey.format_color)),
+            });
+
+            if (!next) return;
+
+            formats.delete(index);
+            formats.insert(index, [next]);
+          },
+        ],
+        'changeConditionalFormatField'
+      );
+    },
+    [view, sharedRoot, fields]
+  );
+}
+
+export function useReorderConditionalFormats() {
+  const view = useDatabaseView();
+  const sharedRoot = useSharedRoot();
+
+  return useCallback(
+    (formatId: string, beforeId?: string) => {
+      if (!view) return;
+      executeOperations(
+        sharedRoot,
+        [
+          () => {
+            const formats = view.get(YjsDatabaseKey.conditional_formats);
+
+            if (!formats) return;
+
+            const formatIds = formats.toArray().map((format) => format.get(YjsDatabaseKey.id));
+            const sourceIndex = formatIds.indexOf(formatId);
+            const targetIndex = beforeId !== undefined ? formatIds.indexOf(beforeId) + 1 : 0;
+
+            if (sourceIndex === -1) return;
+
+            const format = cloneConditionalFormat(formats.get(sourceIndex));
+
+            formats.delete(sourceIndex);
+            formats.insert(targetIndex > sourceIndex ? targetIndex - 1 : targetIndex, [format]);
+          },
+        ],
+        'reorderConditionalFormats'
+      );
+    },
+    [view, sharedRoot]
+  );
+}
+
 export function useUpdateFileMediaTypeOption(fieldId: string) {
   const database = useDatabase();
   const sharedRoot = useSharedRoot();
@@ -4888,6 +5346,8 @@ export {
   useClearAllFilters,
   useRebuildFilterTree,
   useAddAdvancedFilterAndRebuild,
+  useAddAdvancedFilterGroup,
+  useUpdateAdvancedFilterGroupType,
   useRemoveAdvancedFilterAndRebuild,
   useUpdateAdvancedFilterAndRebuild,
 } from './dispatch/sort-filter';
@@ -4900,6 +5360,10 @@ export interface ChartLayoutSetting {
   yFieldId?: string;
   cumulative?: boolean;
   dateCondition?: number;
+  additionalSeries?: ChartSeriesConfig[];
+  /** An empty string clears the stack-by field. */
+  stackFieldId?: string;
+  continuousDates?: boolean;
 }
 
 export function useUpdateChartSetting() {
@@ -4957,6 +5421,18 @@ export function useUpdateChartSetting() {
             if (settings.dateCondition !== undefined) {
               layoutSetting.set('dateCondition', settings.dateCondition);
             }
+
+            if (settings.additionalSeries !== undefined) {
+              layoutSetting.set('additionalSeries', JSON.stringify(settings.additionalSeries));
+            }
+
+            if (settings.stackFieldId !== undefined) {
+              layoutSetting.set('stackFieldId', settings.stackFieldId);
+            }
+
+            if (settings.continuousDates !== undefined) {
+              layoutSetting.set('continuousDates', settings.continuousDates);
+            }
           },
         ],
         'updateChartSetting'
@@ -3,6 +3,7 @@
  *
  * Handles cell value mutations:
  * - useUpdateCellDispatch: Update a cell's value
+ * - useBulkUpdateCellDispatch: Write one value to the same cell of many rows
  * - useUpdateStartEndTimeCell: Update date/time cell with start/end times
  */
 
@@ -16,7 +17,7 @@ import {
   touchRowAttribution,
 } from '@/application/database-yjs/attribution';
 import { setCellStoredType } from '@/application/database-yjs/cell.field-type';
-import { useDatabaseContext } from '@/application/database-yjs/context';
+import { DatabaseContextState, useDatabaseContext } from '@/application/database-yjs/context';
 import { FieldType } from '@/application/database-yjs/database.type';
 import { useFieldSelector } from '@/application/database-yjs/selector';
 import {
@@ -154,6 +155,24 @@ function waitForWritableRowTarget(rowDoc: YDoc): Promise<WritableRowTarget | nul
   });
 }
 
+async function resolveWritableRow(
+  rowId: string,
+  rowMap: DatabaseContextState['rowMap'],
+  ensureRow: DatabaseContextState['ensureRow']
+): Promise<{ rowDoc: YDoc; target: WritableRowTarget } | null> {
+  let rowDoc = rowMap?.[rowId];
+  let target = rowDoc ? getWritableRowTarget(rowDoc) : null;
+
+  if (!target && ensureRow) {
+    rowDoc = (await ensureRow(rowId)) ?? rowDoc;
+    target = rowDoc ? await waitForWritableRowTarget(rowDoc) : null;
+  }
+
+  if (!rowDoc || !target) return null;
+
+  return { rowDoc, target };
+}
+
 function writeCellToRow({
   rowDoc,
   row,
@@ -224,19 +243,15 @@ export function useUpdateCellDispatch(rowId: string, fieldId: string) {
           return;
         }
 
-        let rowDoc = rowMap?.[rowId];
-        let target = rowDoc ? getWritableRowTarget(rowDoc) : null;
+        const resolved = await resolveWritableRow(rowId, rowMap, ensureRow);
 
-        if (!target && ensureRow) {
-          rowDoc = (await ensureRow(rowId)) ?? rowDoc;
-          target = rowDoc ? await waitForWritableRowTarget(rowDoc) : null;
-        }
-
-        if (!rowDoc || !target) {
+        if (!resolved) {
           Log.warn('[useUpdateCellDispatch] Row doc not ready for cell update', { rowId, fieldId });
           return;
         }
 
+        const { rowDoc, target } = resolved;
+
         writeCellToRow({
           rowDoc,
           row: target.row,
@@ -256,6 +271,60 @@ export function useUpdateCellDispatch(rowId: string, fieldId: string) {
   );
 }
 
+/**
+ * Writes the same value to one field of every given row, e.g. the grid's
+ * "Set property" action for a multi-row selection.
+ *
+ * Rows that are not loaded yet are resolved first, so the write itself runs
+ * in a single synchronous pass with no other update interleaving. Every row
+ * lives in its own document, which means one transaction per row document.
+ * Resolves with the ids of the rows that were written.
+ */
+export function useBulkUpdateCellDispatch(fieldId: string) {
+  const { rowMap, ensureRow, markCellLocalMutation } = useDatabaseContext();
+  const { field } = useFieldSelector(fieldId);
+  const currentUser = useCurrentUserOptional();
+  const actorUid = resolveUserAttributionUid(currentUser);
+
+  return useCallback(
+    async (rowIds: string[], data: string, dateOpts?: DateCellOptions) => {
+      if (!field) {
+        Log.warn('[useBulkUpdateCellDispatch] Field not found', { fieldId });
+        return [];
+      }
+
+      const resolved = await Promise.all(rowIds.map((rowId) => resolveWritableRow(rowId, rowMap, ensureRow)));
+      const fieldType = Number(field.get(YjsDatabaseKey.type)) as FieldType;
+      const updatedRowIds: string[] = [];
+
+      resolved.forEach((entry, index) => {
+        const rowId = rowIds[index];
+
+        if (!entry) {
+          Log.warn('[useBulkUpdateCellDispatch] Row doc not ready for cell update', { rowId, fieldId });
+          return;
+        }
+
+        writeCellToRow({
+          rowDoc: entry.rowDoc,
+          row: entry.target.row,
+          cells: entry.target.cells,
+          fieldId,
+          fieldType,
+          data,
+          dateOpts,
+          actorUid,
+        });
+        updatedRowIds.push(rowId);
+      });
+
+      updatedRowIds.forEach((rowId) => markCellLocalMutation?.(rowId, fieldId));
+      return updatedRowIds;
+    },
+    [actorUid, ensureRow, field, fieldId, markCellLocalMutation, rowMap]
+  );
+}
+
 export function useUpdateStartEndTimeCell() {
   const { rowMap, ensureRow, markCellLocalMutation } = useDatabaseContext();
   const currentUser = useCurrentUserOptional();
@@ -264,20 +333,14 @@ export function useUpdateStartEndTimeCell() {
   return useCallback(
     (rowId: string, fieldId: string, startTimestamp: string, endTimestamp?: string, isAllDay?: boolean) => {
       void (async () => {
-        let rowDoc = rowMap?.[rowId];
-        let target = rowDoc ? getWritableRowTarget(rowDoc) : null;
-
-        if (!target && ensureRow) {
-          rowDoc = (await ensureRow(rowId)) ?? rowDoc;
-          target = rowDoc ? await waitForWritableRowTarget(rowDoc) : null;
-        }
+        const resolved = await resolveWritableRow(rowId, rowMap, ensureRow);
 
-        if (!rowDoc || !target) {
+        if (!resolved) {
           Log.warn('[useUpdateStartEndTimeCell] Row doc not ready for cell update', { rowId, fieldId });
           return;
         }
 
-        const writableTarget = target;
+        const { rowDoc, target: writableTarget } = resolved;
 
         rowDoc.transact(() => {
           let cell = writableTarget.cells.get(fieldId);
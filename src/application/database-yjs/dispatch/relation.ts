@@ -44,6 +44,8 @@ import {
 import { useCurrentUserOptional } from '@/components/main/app.hooks';
 import { Log } from '@/utils/log';
 
+import { allocateRowUniqueIds } from './row-lifecycle';
+
 type RelationTypeOptionUpdates = Partial<RelationTypeOption>;
 
 type RelationCellChanges = {
@@ -916,6 +918,7 @@ export async function createRowInRelatedDatabase(args: {
     primaryCell.set(YjsDatabaseKey.field_type, FieldType.RichText);
     primaryCell.set(YjsDatabaseKey.data, trimmed);
     cells.set(args.primaryFieldId, primaryCell);
+    allocateRowUniqueIds(relatedDatabase, row);
   });
 
   // Add the new row to every view's row_orders so it shows up in any open
@@ -1,5 +1,11 @@
 /**
- * Row lifecycle operations for the row-page trash flow.
+ * Row lifecycle operations for row creation and the row-page trash flow.
+ *
+ * Every newly created row gets the next number of each unique ID field.
+ * The counter lives on the field's type option in the database doc, so it
+ * advances in the same place for every client that creates rows. Numbers
+ * handed out twice by clients that were offline are renumbered once the rows
+ * meet (see resolveDuplicateUniqueIds).
  *
  * A row whose document has content is not hard-deleted: its row orders are
  * tombstoned (`is_deleted: true`, mirroring collab-database's RowOrder flag)
@@ -9,9 +15,18 @@
  * imperatively opened database collab.
  */
 
+import { FieldType } from '@/application/database-yjs/database.type';
+import { parseUniqueIdTypeOption } from '@/application/database-yjs/fields/unique-id/parse';
+import {
+  createUniqueIdCell,
+  ensureUniqueIdTypeOption,
+  getHighestUniqueId,
+  planUniqueIdRenumbering,
+  takeNextUniqueId,
+} from '@/application/database-yjs/fields/unique-id/utils';
 import { deleteCollabDB } from '@/application/db';
 import { deleteOutboxByObjectId } from '@/application/sync-outbox';
-import { YDatabase, YjsDatabaseKey, YSharedRoot } from '@/application/types';
+import { RowId, YDatabase, YDatabaseRow, YDoc, YjsDatabaseKey, YjsEditorKey, YSharedRoot } from '@/application/types';
 
 import { executeOperationWithAllViews } from './utils';
 
@@ -23,6 +38,84 @@ interface RowOrderEntry {
 
 const DEFAULT_ROW_HEIGHT = 36;
 
+function getRowFromDoc(rowDoc: YDoc): YDatabaseRow | undefined {
+  return (rowDoc.getMap(YjsEditorKey.data_section) as YSharedRoot).get(YjsEditorKey.database_row);
+}
+
+/**
+ * Give a new row its unique IDs. Call once per created row (duplicates
+ * included, since a copy is a new row) after its other cells are written.
+ *
+ * The number is never lower than the highest one held by the rows in
+ * `rowMap`, which covers a counter that another client advanced concurrently
+ * but whose update has not arrived yet while its rows have.
+ */
+export function allocateRowUniqueIds(database: YDatabase, row: YDatabaseRow, rowMap?: Record<RowId, YDoc> | null) {
+  const fields = database.get(YjsDatabaseKey.fields);
+  const cells = row.get(YjsDatabaseKey.cells);
+
+  if (!fields || !cells) return;
+
+  const knownRows = Object.values(rowMap ?? {}).map(getRowFromDoc);
+  const allocate = () => {
+    fields.forEach((field, fieldId) => {
+      if (Number(field.get(YjsDatabaseKey.type)) !== FieldType.UniqueId) return;
+
+      cells.set(fieldId, createUniqueIdCell(fieldId, takeNextUniqueId(field, getHighestUniqueId(knownRows, fieldId))));
+    });
+  };
+
+  if (database.doc) {
+    database.doc.transact(allocate);
+  } else {
+    allocate();
+  }
+}
+
+/**
+ * Renumber rows that share a unique ID, which happens when two clients create
+ * rows while offline and both read the same counter. Every client picks the
+ * same row to keep the number and the same new numbers for the others (see
+ * planUniqueIdRenumbering), so clients resolving the merge at the same time
+ * write identical values. Only the rows in `rowMap` are compared.
+ *
+ * Returns the ids of the renumbered rows.
+ */
+export function resolveDuplicateUniqueIds(database: YDatabase, rowMap: Record<RowId, YDoc>): RowId[] {
+  const fields = database.get(YjsDatabaseKey.fields);
+  const renumbered = new Set<RowId>();
+
+  if (!fields) return [];
+
+  const rows = Object.entries(rowMap)
+    .map(([rowId, rowDoc]) => ({ rowId, rowDoc, row: getRowFromDoc(rowDoc) }))
+    .filter((entry): entry is { rowId: RowId; rowDoc: YDoc; row: YDatabaseRow } => Boolean(entry.row));
+
+  fields.forEach((field, fieldId) => {
+    if (Number(field.get(YjsDatabaseKey.type)) !== FieldType.UniqueId) return;
+
+    const plan = planUniqueIdRenumbering(rows, fieldId);
+
+    if (plan.length === 0) return;
+
+    plan.forEach(({ rowId, row, value }) => {
+      rowMap[rowId].transact(() => {
+        row.get(YjsDatabaseKey.cells)?.set(fieldId, createUniqueIdCell(fieldId, value));
+      });
+      renumbered.add(rowId);
+    });
+
+    const { next_id: nextId } = parseUniqueIdTypeOption(field);
+    const highest = plan[plan.length - 1].value;
+
+    if (nextId <= highest) {
+      ensureUniqueIdTypeOption(field).set(YjsDatabaseKey.next_id, highest + 1);
+    }
+  });
+
+  return Array.from(renumbered);
+}
+
 function setRowOrdersDeleted(
   sharedRoot: YSharedRoot,
   database: YDatabase,
@@ -8,6 +8,7 @@
  * - useBulkDeleteRowDispatch: Delete multiple rows
  * - useNewRowDispatch: Create a new row
  * - useDuplicateRowDispatch: Duplicate an existing row
+ * - useBulkDuplicateRowsDispatch: Duplicate several rows
  * - useUpdateRowMetaDispatch: Update row metadata (icon, cover, etc.)
  */
 
@@ -84,11 +85,13 @@ import {
   YjsEditorKey,
   YSharedRoot,
 } from '@/application/types';
+import { MetadataKey } from '@/application/user-metadata';
 import { Log } from '@/utils/log';
+import { resolveUserTimezone } from '@/utils/timezone';
 import { useCurrentUserOptional } from '@/components/main/app.hooks';
 
 import { applyRelationReciprocalInserts } from './relation';
-import { removeRowsFromDatabase, softDeleteRowsInDatabase } from './row-lifecycle';
+import { allocateRowUniqueIds, removeRowsFromDatabase, softDeleteRowsInDatabase } from './row-lifecycle';
 import { executeOperationWithAllViews } from './utils';
 
 export function collectNewRowPrefillFilters(filters: YDatabaseFilters | undefined): YDatabaseFilter[] {
@@ -549,6 +552,7 @@ export function useNewRowDispatch() {
   const rowMap = useRowMap();
   const currentUser = useCurrentUserOptional();
   const actorUid = resolveUserAttributionUid(currentUser);
+  const timezone = resolveUserTimezone(currentUser?.metadata?.[MetadataKey.Timezone]);
 
   return useCallback(
     async ({
@@ -692,7 +696,7 @@ export function useNewRowDispatch() {
           }
 
           if (type === FieldType.DateTime) {
-            const { data, endTimestamp, isRange } = dateFilterFillData(filter);
+            const { data, endTimestamp, isRange } = dateFilterFillData(filter, { timezone });
 
             if (data !== null) {
               cell.set(YjsDatabaseKey.data, data);
@@ -806,6 +810,8 @@ export function useNewRowDispatch() {
           });
         }
 
+        allocateRowUniqueIds(database, row, rowMap);
+
         const newMeta = generateRowMeta(rowId, {
           [RowMetaKey.IsDocumentEmpty]: selectedTemplate?.isDocumentEmpty ?? true,
           [RowMetaKey.IconId]: selectedTemplate?.icon ?? null,
@@ -956,6 +962,7 @@ export function useNewRowDispatch() {
       rowMap,
       sharedRoot,
       duplicateRowDocument,
+      timezone,
       viewId,
     ]
   );
@@ -1044,6 +1051,8 @@ export function useDuplicateRowDispatch() {
             console.error(e);
           }
         });
+
+        allocateRowUniqueIds(database, row, rowMap);
       });
 
       executeOperationWithAllViews(
@@ -1188,6 +1197,31 @@ export function useDuplicateRowDispatch() {
   );
 }
 
+/**
+ * Duplicates rows one after another so each copy lands directly below its
+ * source. A failed row is logged and skipped; resolves with the new row ids.
+ */
+export function useBulkDuplicateRowsDispatch() {
+  const duplicateRow = useDuplicateRowDispatch();
+
+  return useCallback(
+    async (rowIds: string[]) => {
+      const newRowIds: string[] = [];
+
+      for (const rowId of rowIds) {
+        try {
+          newRowIds.push(await duplicateRow(rowId));
+        } catch (e) {
+          Log.error('[useBulkDuplicateRowsDispatch] duplicate row failed', { rowId, error: e });
+        }
+      }
+
+      return newRowIds;
+    },
+    [duplicateRow]
+  );
+}
+
 export function useUpdateRowMetaDispatch(rowId: string) {
   const rowMap = useRowMap();
   const currentUser = useCurrentUserOptional();
@@ -20,13 +20,25 @@ import { useDatabaseFields, useDatabaseView, useSharedRoot } from '@/application
 import { FilterType, SortCondition } from '@/application/database-yjs/database.type';
 import {
   FilterDraft,
-  flattenFilterTree,
+  FilterGroupDraft,
   getDefaultFilterCondition,
   groupByConsecutiveOperator,
+  isFilterGroupNode,
+  mapFilterTreeLeaves,
+  readFilterTree,
+  removeFilterTreeNode,
   resolveRollupFilterTargetFieldType,
+  updateFilterTreeGroup,
 } from '@/application/database-yjs/filter';
 import { executeOperations } from '@/application/slate-yjs/utils/yjs';
-import { YDatabaseFilter, YDatabaseFilters, YDatabaseSort, YDatabaseSorts, YjsDatabaseKey } from '@/application/types';
+import {
+  YDatabaseField,
+  YDatabaseFilter,
+  YDatabaseFilters,
+  YDatabaseSort,
+  YDatabaseSorts,
+  YjsDatabaseKey,
+} from '@/application/types';
 import { Log } from '@/utils/log';
 
 export function useClearSortingDispatch() {
@@ -834,17 +846,15 @@ export function useUpdateAdvancedFilter() {
             }
 
             // Slow path: filter node is a plain object (from desktop sync).
-            // Flatten the tree, update the matching draft, and rebuild.
-            const currentDrafts = flattenFilterTree(filtersArray, fields);
-            const idx = currentDrafts.findIndex((d) => d.id === filterId);
+            // Read the tree, update the matching draft, and rebuild it with its groups.
+            const tree = readFilterTree(filtersArray, fields);
+            const draft = tree && findFilterDraft(tree, filterId);
 
-            if (idx === -1) {
+            if (!tree || !draft) {
               Log.warn('[useUpdateAdvancedFilter] Filter not found in tree or drafts', { filterId });
               return;
             }
 
-            const draft = { ...currentDrafts[idx] };
-
             if (fieldId && draft.fieldId !== fieldId) {
               Log.debug('[useUpdateAdvancedFilter] Skipping stale plain-object filter update', {
                 filterId,
@@ -853,16 +863,18 @@ export function useUpdateAdvancedFilter() {
               return;
             }
 
-            if (condition !== undefined) draft.condition = condition;
-            if (content !== undefined) draft.content = content;
-
-            currentDrafts[idx] = draft;
-
-            filtersArray.delete(0, filtersArray.length);
-
-            const rootNode = buildFilterTreeFromDrafts(currentDrafts);
-
-            filtersArray.push([rootNode]);
+            writeFilterTree(
+              filtersArray,
+              mapFilterTreeLeaves(tree, (leaf) =>
+                leaf.id === filterId
+                  ? {
+                      ...leaf,
+                      condition: condition ?? leaf.condition,
+                      content: content ?? leaf.content,
+                    }
+                  : leaf
+              )
+            );
 
             Log.debug('[useUpdateAdvancedFilter] Rebuilt tree for plain-object filter', { filterId });
           },
@@ -981,10 +993,10 @@ export function useClearAllFilters() {
 // Per-row operator: tree rebuild
 // ============================================================================
 
-function createGroupNode(operator: FilterType.And | FilterType.Or): YDatabaseFilter {
+function createGroupNode(operator: FilterType.And | FilterType.Or, id = nanoid(6)): YDatabaseFilter {
   const node = new Y.Map() as YDatabaseFilter;
 
-  node.set(YjsDatabaseKey.id, nanoid(6));
+  node.set(YjsDatabaseKey.id, id);
   node.set(YjsDatabaseKey.filter_type, operator);
 
   return node;
@@ -1076,6 +1088,55 @@ function buildFilterTreeFromDrafts(drafts: FilterDraft[]): YDatabaseFilter {
   return currentNode;
 }
 
+/** Build a filter tree that keeps the nesting of `group`, including its group ids. */
+function buildFilterTreeFromGroupDraft(group: FilterGroupDraft): YDatabaseFilter {
+  const node = createGroupNode(group.filterType, group.id);
+  const children = new Y.Array() as YDatabaseFilters;
+
+  group.children.forEach((child) => {
+    children.push([isFilterGroupNode(child) ? buildFilterTreeFromGroupDraft(child) : createDataFilterNode(child)]);
+  });
+  node.set(YjsDatabaseKey.children, children);
+
+  return node;
+}
+
+/** Replace the view's filters with `tree`; a null tree removes every filter. */
+function writeFilterTree(filters: YDatabaseFilters, tree: FilterGroupDraft | null) {
+  filters.delete(0, filters.length);
+
+  if (tree) {
+    filters.push([buildFilterTreeFromGroupDraft(tree)]);
+  }
+}
+
+function findFilterDraft(group: FilterGroupDraft, filterId: string): FilterDraft | null {
+  for (const child of group.children) {
+    const found = isFilterGroupNode(child) ? findFilterDraft(child, filterId) : child.id === filterId ? child : null;
+
+    if (found) return found;
+  }
+
+  return null;
+}
+
+function createFilterDraft(id: string, fieldId: string, field: YDatabaseField): FilterDraft | null {
+  const fieldType = Number(field.get(YjsDatabaseKey.type));
+  const conditionData = getDefaultFilterCondition(fieldType, field);
+
+  if (!conditionData) return null;
+
+  return {
+    id,
+    fieldId,
+    fieldType,
+    rollupTargetFieldType: resolveRollupFilterTargetFieldType(fieldType, field),
+    condition: conditionData.condition,
+    content: conditionData.content ?? '',
+    operator: null,
+  };
+}
+
 /**
  * Rebuild the entire filter tree from a flat list of drafts.
  * Used when a per-row operator changes, or when adding/removing filters
@@ -1121,6 +1182,7 @@ export function useRebuildFilterTree() {
 
 /**
  * Add a new filter and rebuild the tree (works with nested trees).
+ * The filter joins the group with `groupId`, or the root group by default.
  */
 export function useAddAdvancedFilterAndRebuild() {
   const view = useDatabaseView();
@@ -1128,7 +1190,7 @@ export function useAddAdvancedFilterAndRebuild() {
   const fields = useDatabaseFields();
 
   return useCallback(
-    (fieldId: string) => {
+    (fieldId: string, groupId?: string) => {
       if (!view || !fieldId) return;
 
       const id = nanoid(6);
@@ -1138,13 +1200,9 @@ export function useAddAdvancedFilterAndRebuild() {
         [
           () => {
             const field = fields.get(fieldId);
+            const draft = field && createFilterDraft(id, fieldId, field);
 
-            if (!field) return;
-
-            const fieldType = Number(field.get(YjsDatabaseKey.type));
-            const conditionData = getDefaultFilterCondition(fieldType, field);
-
-            if (!conditionData) return;
+            if (!draft) return;
 
             let filters = view.get(YjsDatabaseKey.filters);
 
@@ -1153,53 +1211,78 @@ export function useAddAdvancedFilterAndRebuild() {
               view.set(YjsDatabaseKey.filters, filters);
             }
 
-            // Get current flat list
-            const currentDrafts = flattenFilterTree(filters, fields);
+            const tree = readFilterTree(filters, fields);
 
-            // Determine default operator: inherit from existing drafts or root group type
-            let defaultOperator: FilterType.And | FilterType.Or | null = null;
+            writeFilterTree(
+              filters,
+              tree
+                ? updateFilterTreeGroup(tree, groupId ?? tree.id, (group) => ({
+                    ...group,
+                    children: [...group.children, draft],
+                  }))
+                : { id: nanoid(6), filterType: FilterType.And, children: [draft] }
+            );
 
-            if (currentDrafts.length > 0) {
-              const existingOps = currentDrafts.slice(1).map((d) => d.operator ?? FilterType.And);
+            Log.debug('[useAddAdvancedFilterAndRebuild] Filter added and tree rebuilt', { id, groupId });
+          },
+        ],
+        'addAdvancedFilterAndRebuild'
+      );
 
-              if (existingOps.length > 0) {
-                // Multiple drafts: use dominant operator
-                defaultOperator = existingOps.every((op) => op === FilterType.Or)
-                  ? FilterType.Or
-                  : FilterType.And;
-              } else {
-                // Single draft: inspect the root group's actual type to preserve OR roots
-                const rootFilter = filters.get(0);
-                const rootType = rootFilter ? Number(rootFilter.get(YjsDatabaseKey.filter_type)) : FilterType.And;
+      return id;
+    },
+    [view, sharedRoot, fields]
+  );
+}
 
-                defaultOperator = rootType === FilterType.Or ? FilterType.Or : FilterType.And;
-              }
-            }
+/**
+ * Add a nested And group holding one new filter on `fieldId`. Groups are never
+ * created empty: an empty group matches nothing and desktop would not show it.
+ */
+export function useAddAdvancedFilterGroup() {
+  const view = useDatabaseView();
+  const sharedRoot = useSharedRoot();
+  const fields = useDatabaseFields();
 
-            // Add new draft
-            const newDraft: FilterDraft = {
-              id,
-              fieldId,
-              fieldType,
-              rollupTargetFieldType: resolveRollupFilterTargetFieldType(fieldType, field),
-              condition: conditionData.condition,
-              content: conditionData.content ?? '',
-              operator: defaultOperator,
-            };
+  return useCallback(
+    (fieldId: string, parentGroupId?: string) => {
+      if (!view || !fieldId) return;
 
-            const allDrafts = [...currentDrafts, newDraft];
+      const id = nanoid(6);
 
-            // Rebuild tree
-            filters.delete(0, filters.length);
+      executeOperations(
+        sharedRoot,
+        [
+          () => {
+            const field = fields.get(fieldId);
+            const draft = field && createFilterDraft(id, fieldId, field);
 
-            const rootNode = buildFilterTreeFromDrafts(allDrafts);
+            if (!draft) return;
 
-            filters.push([rootNode]);
+            let filters = view.get(YjsDatabaseKey.filters);
+
+            if (!filters) {
+              filters = new Y.Array() as YDatabaseFilters;
+              view.set(YjsDatabaseKey.filters, filters);
+            }
+
+            const tree = readFilterTree(filters, fields);
+            const group: FilterGroupDraft = { id: nanoid(6), filterType: FilterType.And, children: [draft] };
 
-            Log.debug('[useAddAdvancedFilterAndRebuild] Filter added and tree rebuilt', { id });
+            writeFilterTree(
+              filters,
+              tree
+                ? updateFilterTreeGroup(tree, parentGroupId ?? tree.id, (parent) => ({
+                    ...parent,
+                    children: [...parent.children, group],
+                  }))
+                : { id: nanoid(6), filterType: FilterType.And, children: [group] }
+            );
+
+            Log.debug('[useAddAdvancedFilterGroup] Group added', { groupId: group.id, parentGroupId });
           },
         ],
-        'addAdvancedFilterAndRebuild'
+        'addAdvancedFilterGroup'
       );
 
       return id;
@@ -1208,8 +1291,42 @@ export function useAddAdvancedFilterAndRebuild() {
   );
 }
 
+/** Switch a group, at any depth, between And and Or. */
+export function useUpdateAdvancedFilterGroupType() {
+  const view = useDatabaseView();
+  const sharedRoot = useSharedRoot();
+  const fields = useDatabaseFields();
+
+  return useCallback(
+    (groupId: string, filterType: FilterType.And | FilterType.Or) => {
+      if (!view) return;
+
+      executeOperations(
+        sharedRoot,
+        [
+          () => {
+            const filters = view.get(YjsDatabaseKey.filters);
+            const tree = readFilterTree(filters, fields);
+
+            if (!filters || !tree) return;
+
+            writeFilterTree(
+              filters,
+              updateFilterTreeGroup(tree, groupId, (group) => ({ ...group, filterType }))
+            );
+
+            Log.debug('[useUpdateAdvancedFilterGroupType] Group type updated', { groupId, filterType });
+          },
+        ],
+        'updateAdvancedFilterGroupType'
+      );
+    },
+    [view, sharedRoot, fields]
+  );
+}
+
 /**
- * Remove a filter and rebuild the tree (works with nested trees).
+ * Remove a filter or a whole group and rebuild the tree (works with nested trees).
  */
 export function useRemoveAdvancedFilterAndRebuild() {
   const view = useDatabaseView();
@@ -1225,27 +1342,19 @@ export function useRemoveAdvancedFilterAndRebuild() {
         [
           () => {
             const filters = view.get(YjsDatabaseKey.filters);
+            const tree = readFilterTree(filters, fields);
 
-            if (!filters) return;
+            if (!filters || !tree) return;
 
-            // Flatten, remove target, rebuild
-            const currentDrafts = flattenFilterTree(filters, fields);
-            const newDrafts = currentDrafts.filter((d) => d.id !== filterId);
+            const nextTree = removeFilterTreeNode(tree, filterId);
 
-            filters.delete(0, filters.length);
+            writeFilterTree(filters, nextTree);
 
-            if (newDrafts.length === 0) {
+            if (!nextTree) {
               Log.debug('[useRemoveAdvancedFilterAndRebuild] All filters removed');
               return;
             }
 
-            // Fix first draft's operator to null
-            newDrafts[0] = { ...newDrafts[0], operator: null };
-
-            const rootNode = buildFilterTreeFromDrafts(newDrafts);
-
-            filters.push([rootNode]);
-
             Log.debug('[useRemoveAdvancedFilterAndRebuild] Filter removed and tree rebuilt', { filterId });
           },
         ],
@@ -1275,40 +1384,37 @@ export function useUpdateAdvancedFilterAndRebuild() {
         [
           () => {
             const filters = view.get(YjsDatabaseKey.filters);
+            const tree = readFilterTree(filters, fields);
 
-            if (!filters) return;
-
-            const currentDrafts = flattenFilterTree(filters, fields);
-            const idx = currentDrafts.findIndex((d) => d.id === filterId);
-
-            if (idx === -1) {
+            if (!filters || !tree || !findFilterDraft(tree, filterId)) {
               Log.warn('[useUpdateAdvancedFilterAndRebuild] Filter not found', { filterId });
               return;
             }
 
-            const draft = { ...currentDrafts[idx] };
+            writeFilterTree(
+              filters,
+              mapFilterTreeLeaves(tree, (leaf) => {
+                if (leaf.id !== filterId) return leaf;
 
-            if (fieldId) {
-              draft.fieldId = fieldId;
+                const draft = { ...leaf };
 
-              const field = fields.get(fieldId);
+                if (fieldId) {
+                  draft.fieldId = fieldId;
 
-              if (field) {
-                draft.fieldType = Number(field.get(YjsDatabaseKey.type));
-                draft.rollupTargetFieldType = resolveRollupFilterTargetFieldType(draft.fieldType, field);
-              }
-            }
+                  const field = fields.get(fieldId);
 
-            if (condition !== undefined) draft.condition = condition;
-            if (content !== undefined) draft.content = content;
-
-            currentDrafts[idx] = draft;
-
-            filters.delete(0, filters.length);
+                  if (field) {
+                    draft.fieldType = Number(field.get(YjsDatabaseKey.type));
+                    draft.rollupTargetFieldType = resolveRollupFilterTargetFieldType(draft.fieldType, field);
+                  }
+                }
 
-            const rootNode = buildFilterTreeFromDrafts(currentDrafts);
+                if (condition !== undefined) draft.condition = condition;
+                if (content !== undefined) draft.content = content;
 
-            filters.push([rootNode]);
+                return draft;
+              })
+            );
 
             Log.debug('[useUpdateAdvancedFilterAndRebuild] Filter updated and tree rebuilt', { filterId });
           },
@@ -12,6 +12,8 @@
  * - useUpdateDateTimeFieldFormat
  * - useUpdateRelationDatabaseId
  * - useUpdateRollupTypeOption
+ * - useUpdateFormulaTypeOption
+ * - useUpdateUniqueIdPrefix
  * - useUpdateFileMediaTypeOption
  */
 
@@ -27,5 +29,7 @@ export {
   useUpdateDateTimeFieldFormat,
   useUpdateRelationDatabaseId,
   useUpdateRollupTypeOption,
+  useUpdateFormulaTypeOption,
+  useUpdateUniqueIdPrefix,
   useUpdateFileMediaTypeOption,
 } from '../dispatch';
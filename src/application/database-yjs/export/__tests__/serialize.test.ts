@@ -0,0 +1,88 @@
+import { TextDecoder, TextEncoder } from 'util';
+
+Object.assign(globalThis, { TextDecoder, TextEncoder });
+
+import { toCsv } from '../csv';
+import { getColumnName, sanitizeSheetName, toXlsx } from '../xlsx';
+import { crc32 } from '../zip';
+
+type ZipFile = { name: string; crc: number; data: Uint8Array };
+
+function readZip(archive: Uint8Array): ZipFile[] {
+  const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength);
+  const decoder = new TextDecoder();
+  const files: ZipFile[] = [];
+  let offset = 0;
+
+  while (view.getUint32(offset, true) === 0x04034b50) {
+    const crc = view.getUint32(offset + 14, true);
+    const size = view.getUint32(offset + 18, true);
+    const nameLength = view.getUint16(offset + 26, true);
+    const name = decoder.decode(archive.subarray(offset + 30, offset + 30 + nameLength));
+    const dataStart = offset + 30 + nameLength;
+
+    files.push({ name, crc, data: archive.subarray(dataStart, dataStart + size) });
+    offset = dataStart + size;
+  }
+
+  return files;
+}
+
+describe('database export serializers', () => {
+  const table = {
+    headers: ['Name', 'Notes'],
+    rows: [
+      ['Plain', 'a, b'],
+      ['Quote "me"', 'line 1\nline 2'],
+      ['<Tag> & co', ''],
+    ],
+  };
+
+  it('quotes CSV values containing separators, quotes or newlines', () => {
+    expect(toCsv(table)).toBe('Name,Notes\r\nPlain,"a, b"\r\n"Quote ""me""","line 1\nline 2"\r\n<Tag> & co,');
+  });
+
+  it('keeps CSV cells from running as formulas', () => {
+    const csv = toCsv({ headers: ['Value'], rows: [['=HYPERLINK("x")'], ['@SUM(A1)'], ['+1+1'], ['\tcmd'], ['-12.5']] });
+
+    expect(csv).toBe('Value\r\n"\'=HYPERLINK(""x"")"\r\n\'@SUM(A1)\r\n\'+1+1\r\n\'\tcmd\r\n-12.5');
+  });
+
+  it('computes the standard CRC-32 checksum', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+  });
+
+  it('maps column indexes to spreadsheet letters', () => {
+    expect([0, 25, 26, 27, 701, 702].map(getColumnName)).toEqual(['A', 'Z', 'AA', 'AB', 'ZZ', 'AAA']);
+  });
+
+  it('sanitizes sheet names Excel would reject', () => {
+    expect(sanitizeSheetName('Q1/Q2 [draft]')).toBe('Q1 Q2  draft');
+    expect(sanitizeSheetName('x'.repeat(40))).toHaveLength(31);
+    expect(sanitizeSheetName('  ')).toBe('Sheet1');
+  });
+
+  it('writes a workbook whose zip entries carry valid checksums', () => {
+    const files = readZip(toXlsx(table, 'Tasks'));
+
+    expect(files.map((file) => file.name)).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/workbook.xml',
+      'xl/_rels/workbook.xml.rels',
+      'xl/styles.xml',
+      'xl/worksheets/sheet1.xml',
+    ]);
+    files.forEach((file) => expect(crc32(file.data)).toBe(file.crc));
+
+    const decoder = new TextDecoder();
+    const workbook = decoder.decode(files.find((file) => file.name === 'xl/workbook.xml')?.data);
+    const sheet = decoder.decode(files.find((file) => file.name === 'xl/worksheets/sheet1.xml')?.data);
+
+    expect(workbook).toContain('<sheet name="Tasks" sheetId="1" r:id="rId1"/>');
+    expect(sheet).toContain('<c r="A1" t="inlineStr" s="1"><is><t xml:space="preserve">Name</t></is></c>');
+    expect(sheet).toContain('<t xml:space="preserve">line 1\nline 2</t>');
+    expect(sheet).toContain('<t xml:space="preserve">&lt;Tag&gt; &amp; co</t>');
+    expect(sheet).toContain('<c r="B4"/>');
+  });
+});
@@ -0,0 +1,165 @@
+import * as Y from 'yjs';
+
+jest.mock('@/utils/runtime-config', () => ({
+  getConfigValue: (_key: string, defaultValue: string) => defaultValue,
+}));
+
+import { FieldType, FieldVisibility, FilterType, SortCondition } from '@/application/database-yjs/database.type';
+import { NumberFilterCondition, NumberFormat } from '@/application/database-yjs/fields';
+import { YDatabase, YDatabaseField, YDatabaseView, YDoc, YjsDatabaseKey } from '@/application/types';
+
+import { createCell, createRowDoc } from '../../__tests__/test-helpers';
+import { buildDatabaseExportTable, getExportFieldIds } from '../table';
+
+const databaseId = 'db-export';
+
+function addField(
+  fields: Y.Map<YDatabaseField>,
+  fieldId: string,
+  name: string,
+  fieldType: FieldType,
+  typeOption?: Record<string, unknown>
+) {
+  const field = new Y.Map() as YDatabaseField;
+
+  fields.set(fieldId, field);
+  field.set(YjsDatabaseKey.id, fieldId);
+  field.set(YjsDatabaseKey.name, name);
+  field.set(YjsDatabaseKey.type, fieldType);
+
+  if (typeOption) {
+    const typeOptionMap = new Y.Map();
+    const option = new Y.Map();
+
+    field.set(YjsDatabaseKey.type_option, typeOptionMap);
+    typeOptionMap.set(String(fieldType), option);
+    Object.entries(typeOption).forEach(([key, value]) => option.set(key, value));
+  }
+}
+
+function createDatabase() {
+  const doc = new Y.Doc() as YDoc;
+  const database = doc.getMap('database') as YDatabase;
+  const fields = new Y.Map<YDatabaseField>();
+  const views = new Y.Map();
+  const view = new Y.Map() as YDatabaseView;
+  const fieldOrders = new Y.Array();
+  const fieldSettings = new Y.Map();
+  const rowOrders = new Y.Array();
+
+  database.set(YjsDatabaseKey.fields, fields);
+  database.set(YjsDatabaseKey.views, views);
+  views.set('view', view);
+  view.set(YjsDatabaseKey.name, 'Tasks');
+  view.set(YjsDatabaseKey.field_orders, fieldOrders);
+  view.set(YjsDatabaseKey.field_settings, fieldSettings);
+  view.set(YjsDatabaseKey.row_orders, rowOrders);
+  view.set(YjsDatabaseKey.sorts, new Y.Array());
+  view.set(YjsDatabaseKey.filters, new Y.Array());
+
+  addField(fields, 'name', 'Name', FieldType.RichText);
+  addField(fields, 'price', 'Price', FieldType.Number, { [YjsDatabaseKey.format]: NumberFormat.USD });
+  addField(fields, 'status', 'Status', FieldType.SingleSelect, {
+    [YjsDatabaseKey.content]: JSON.stringify({
+      options: [
+        { id: 'todo', name: 'To do', color: 'Purple' },
+        { id: 'done', name: 'Done', color: 'Green' },
+      ],
+      disable_color: false,
+    }),
+  });
+  addField(fields, 'owner', 'Owner', FieldType.Person);
+  addField(fields, 'secret', 'Secret', FieldType.RichText);
+
+  fieldOrders.push(['name', 'price', 'status', 'owner', 'secret'].map((id) => ({ id })));
+
+  const secretSetting = new Y.Map();
+
+  secretSetting.set(YjsDatabaseKey.visibility, FieldVisibility.AlwaysHidden);
+  fieldSettings.set('secret', secretSetting);
+
+  const rowMap: Record<string, YDoc> = {
+    'row-1': createRowDoc('row-1', databaseId, {
+      name: createCell(FieldType.RichText, 'Laptop'),
+      price: createCell(FieldType.Number, '1200'),
+      status: createCell(FieldType.SingleSelect, 'done'),
+      owner: createCell(FieldType.Person, JSON.stringify(['person-a', 'person-b'])),
+      secret: createCell(FieldType.RichText, 'hidden'),
+    }),
+    'row-2': createRowDoc('row-2', databaseId, {
+      name: createCell(FieldType.RichText, 'Mouse'),
+      price: createCell(FieldType.Number, '25'),
+      status: createCell(FieldType.SingleSelect, 'todo'),
+    }),
+    'row-3': createRowDoc('row-3', databaseId, {
+      name: createCell(FieldType.RichText, 'Cable'),
+      price: createCell(FieldType.Number, '5'),
+    }),
+  };
+
+  rowOrders.push(Object.keys(rowMap).map((id) => ({ id, height: 36 })));
+
+  return { doc, database, view, rowMap };
+}
+
+describe('buildDatabaseExportTable', () => {
+  const personNames: Record<string, string> = { 'person-a': 'Ada', 'person-b': 'Grace' };
+
+  it('exports only the visible fields in view order', () => {
+    const { database, view } = createDatabase();
+
+    expect(getExportFieldIds(view, database)).toEqual(['name', 'price', 'status', 'owner']);
+  });
+
+  it('renders cells as the grid displays them', async () => {
+    const { doc, database, view, rowMap } = createDatabase();
+
+    const table = await buildDatabaseExportTable({
+      database,
+      view,
+      baseDoc: doc,
+      rowMap,
+      getPersonName: (personId) => personNames[personId],
+    });
+
+    expect(table.headers).toEqual(['Name', 'Price', 'Status', 'Owner']);
+    expect(table.rows).toEqual([
+      ['Laptop', '$1,200', 'Done', 'Ada, Grace'],
+      ['Mouse', '$25', 'To do', ''],
+      ['Cable', '$5', '', ''],
+    ]);
+  });
+
+  it('applies the view filters and sorts', async () => {
+    const { doc, database, view, rowMap } = createDatabase();
+    const sort = new Y.Map();
+    const filter = new Y.Map();
+
+    view.get(YjsDatabaseKey.sorts).push([sort]);
+    sort.set(YjsDatabaseKey.id, 'sort');
+    sort.set(YjsDatabaseKey.field_id, 'price');
+    sort.set(YjsDatabaseKey.condition, SortCondition.Ascending);
+
+    view.get(YjsDatabaseKey.filters).push([filter]);
+    filter.set(YjsDatabaseKey.id, 'filter');
+    filter.set(YjsDatabaseKey.field_id, 'price');
+    filter.set(YjsDatabaseKey.filter_type, FilterType.Data);
+    filter.set(YjsDatabaseKey.condition, NumberFilterCondition.LessThan);
+    filter.set(YjsDatabaseKey.content, '100');
+
+    const table = await buildDatabaseExportTable({ database, view, baseDoc: doc, rowMap });
+
+    expect(table.rows.map((row) => row[0])).toEqual(['Cable', 'Mouse']);
+  });
+
+  it('loads row documents that are not open yet', async () => {
+    const { doc, database, view, rowMap } = createDatabase();
+    const { 'row-3': unloaded, ...openRows } = rowMap;
+    const loadRowDoc = jest.fn(async () => unloaded);
+
+    const table = await buildDatabaseExportTable({ database, view, baseDoc: doc, rowMap: openRows, loadRowDoc });
+
+    expect(loadRowDoc).toHaveBeenCalledWith('row-3');
+    expect(table.rows.map((row) => row[0])).toEqual(['Laptop', 'Mouse', 'Cable']);
+  });
+});
@@ -0,0 +1,104 @@
+import { normalizeAttributionUid } from '@/application/database-yjs/attribution';
+import { parseFormulaCell, parseYDatabaseCellToCell } from '@/application/database-yjs/cell.parse';
+import { FileMediaCellData } from '@/application/database-yjs/cell.type';
+import { FieldType } from '@/application/database-yjs/database.type';
+import { decodeCellToText } from '@/application/database-yjs/decode';
+import { getRowTimeString } from '@/application/database-yjs/fields/date/utils';
+import EnhancedBigStats from '@/application/database-yjs/fields/number/EnhancedBigStats';
+import { parseNumberTypeOptions } from '@/application/database-yjs/fields/number/parse';
+import { User, YDatabaseField, YDatabaseFields, YDatabaseRow, YjsDatabaseKey } from '@/application/types';
+
+export interface ExportCellContext {
+  row: YDatabaseRow;
+  rowId: string;
+  field: YDatabaseField;
+  fields: YDatabaseFields;
+  currentUser?: User;
+  /** Display name for a Person cell entry, keyed by `person_id`. */
+  getPersonName: (personId: string) => string | undefined;
+  /** Display name for a CreatedBy/LastEditedBy uid. */
+  getAttributionName: (uid: string) => string | undefined;
+  getRelationCellText: (rowId: string, fieldId: string) => string;
+  getRollupCellText: (rowId: string, fieldId: string) => string;
+}
+
+function parsePersonIds(data: unknown): string[] {
+  if (typeof data !== 'string' || !data) return [];
+
+  try {
+    const ids = JSON.parse(data) as unknown;
+
+    return Array.isArray(ids) ? ids.filter((id): id is string => typeof id === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Render one cell as the text the grid shows for it: option names instead of
+ * ids, numbers in the field's currency format, dates in the field's date
+ * format, people and related rows by name.
+ */
+export function getExportCellText(context: ExportCellContext): string {
+  const { row, rowId, field, fields, currentUser } = context;
+  const fieldId = field.get(YjsDatabaseKey.id);
+  const fieldType = Number(field.get(YjsDatabaseKey.type)) as FieldType;
+
+  switch (fieldType) {
+    case FieldType.CreatedTime:
+    case FieldType.LastEditedTime: {
+      const timestamp =
+        fieldType === FieldType.CreatedTime ? row.get(YjsDatabaseKey.created_at) : row.get(YjsDatabaseKey.last_modified);
+
+      return timestamp ? getRowTimeString(field, String(timestamp), currentUser) ?? '' : '';
+    }
+
+    case FieldType.CreatedBy:
+    case FieldType.LastEditedBy: {
+      const attribute = fieldType === FieldType.CreatedBy ? YjsDatabaseKey.created_by : YjsDatabaseKey.last_edited_by;
+      const uid = normalizeAttributionUid(row.get(attribute));
+
+      if (uid === null) return '';
+      return context.getAttributionName(uid) || `User ${uid}`;
+    }
+
+    case FieldType.Formula:
+      return parseFormulaCell(row, field, fields, currentUser).data;
+
+    case FieldType.Relation:
+      return context.getRelationCellText(rowId, fieldId);
+
+    case FieldType.Rollup:
+      return context.getRollupCellText(rowId, fieldId);
+  }
+
+  const cell = row.get(YjsDatabaseKey.cells)?.get(fieldId);
+
+  if (!cell) return '';
+
+  switch (fieldType) {
+    case FieldType.Number: {
+      const { format } = parseNumberTypeOptions(field);
+
+      return EnhancedBigStats.parse(decodeCellToText(cell, field, currentUser), format) ?? '';
+    }
+
+    case FieldType.Person:
+      return parsePersonIds(parseYDatabaseCellToCell(cell, field).data)
+        .map((personId) => context.getPersonName(personId))
+        .filter(Boolean)
+        .join(', ');
+
+    case FieldType.Media: {
+      const files = parseYDatabaseCellToCell(cell, field).data as FileMediaCellData | undefined;
+
+      return (files ?? [])
+        .map((file) => file.url || file.name)
+        .filter(Boolean)
+        .join(', ');
+    }
+
+    default:
+      return decodeCellToText(cell, field, currentUser);
+  }
+}
@@ -0,0 +1,27 @@
+import { DatabaseExportTable } from './types';
+
+const NEEDS_QUOTES = /[",\r\n]/;
+// Spreadsheets evaluate a cell starting with one of these as a formula.
+const FORMULA_TRIGGER = /^[=+\-@\t\r]/;
+const PLAIN_NUMBER = /^[+-]?\d+(\.\d+)?$/;
+
+/** Prefix formula-like text with `'` so opening the file cannot run it; numbers stay numbers. */
+function neutralizeFormula(value: string) {
+  return FORMULA_TRIGGER.test(value) && !PLAIN_NUMBER.test(value) ? `'${value}` : value;
+}
+
+function escapeCsvValue(raw: string) {
+  const value = neutralizeFormula(raw);
+
+  return NEEDS_QUOTES.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/** Serialize a table as RFC 4180 CSV, with CRLF line endings. */
+export function toCsv({ headers, rows }: DatabaseExportTable): string {
+  return [headers, ...rows].map((row) => row.map(escapeCsvValue).join(',')).join('\r\n');
+}
+
+export function createCsvBlob(table: DatabaseExportTable) {
+  // The byte order mark makes Excel read the file as UTF-8 instead of the system code page.
+  return new Blob(['\ufeff', toCsv(table)], { type: 'text/csv;charset=utf-8' });
+}
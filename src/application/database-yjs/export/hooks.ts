@@ -0,0 +1,96 @@
+import { useCallback } from 'react';
+
+import { hasRowConditionData } from '@/application/database-yjs/condition-value-cache';
+import { useDatabase, useDatabaseContext, useDatabaseView } from '@/application/database-yjs/context';
+import { RowId, YjsDatabaseKey } from '@/application/types';
+import { canonicalizeUserUid } from '@/application/user-uid';
+import { useMentionableUsers } from '@/components/database/components/cell/person/useMentionableUsers';
+import { useCurrentUserOptional } from '@/components/main/app.hooks';
+import { downloadBlob } from '@/utils/download';
+
+import { createCsvBlob } from './csv';
+import { buildDatabaseExportTable } from './table';
+import { DatabaseExportFormat } from './types';
+import { createXlsxBlob } from './xlsx';
+
+const INVALID_FILE_NAME_CHARS = /[\\/:*?"<>|]/g;
+
+export function getExportFileName(name: string | undefined, format: DatabaseExportFormat) {
+  const baseName = (name ?? '').replace(INVALID_FILE_NAME_CHARS, ' ').trim() || 'Untitled';
+
+  return `${baseName}.${format}`;
+}
+
+/** Export the active view, as the grid currently filters and sorts it, to a downloaded file. */
+export function useDatabaseExport() {
+  const database = useDatabase();
+  const view = useDatabaseView();
+  const { databaseDoc, rowMap, ensureRow, loadRowFromSeed, loadView, createRow, getViewIdFromDatabaseId } =
+    useDatabaseContext();
+  const currentUser = useCurrentUserOptional();
+  const { fetchUsers } = useMentionableUsers();
+
+  const loadRowDoc = useCallback(
+    async (rowId: RowId) => {
+      try {
+        const seededDoc = await loadRowFromSeed?.(rowId);
+
+        if (hasRowConditionData(seededDoc)) return seededDoc;
+      } catch (error) {
+        if (!ensureRow) throw error;
+      }
+
+      return (await ensureRow?.(rowId)) || undefined;
+    },
+    [ensureRow, loadRowFromSeed]
+  );
+
+  return useCallback(
+    async (format: DatabaseExportFormat) => {
+      if (!database || !view) return;
+
+      const users = await fetchUsers();
+      const namesByPersonId = new Map<string, string>();
+      const namesByUid = new Map<string, string>();
+
+      users.forEach((person) => {
+        const name = person.name?.trim() || person.email?.trim();
+        const uid = canonicalizeUserUid(person.uid);
+
+        if (!name) return;
+        namesByPersonId.set(person.person_id, name);
+        if (uid) namesByUid.set(uid, name);
+      });
+
+      const table = await buildDatabaseExportTable({
+        database,
+        view,
+        baseDoc: databaseDoc,
+        rowMap,
+        loadRowDoc,
+        currentUser,
+        loadView,
+        createRow,
+        getViewIdFromDatabaseId,
+        getPersonName: (personId) => namesByPersonId.get(personId),
+        getAttributionName: (uid) => namesByUid.get(uid),
+      });
+      const viewName = view.get(YjsDatabaseKey.name);
+      const blob = format === DatabaseExportFormat.CSV ? createCsvBlob(table) : createXlsxBlob(table, viewName);
+
+      downloadBlob(blob, getExportFileName(viewName, format));
+    },
+    [
+      createRow,
+      currentUser,
+      database,
+      databaseDoc,
+      fetchUsers,
+      getViewIdFromDatabaseId,
+      loadRowDoc,
+      loadView,
+      rowMap,
+      view,
+    ]
+  );
+}
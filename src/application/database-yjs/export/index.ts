@@ -0,0 +1,7 @@
+export * from './cell';
+export * from './csv';
+export * from './hooks';
+export * from './table';
+export * from './types';
+export * from './xlsx';
+export * from './zip';
@@ -0,0 +1,165 @@
+import { hasRowConditionData } from '@/application/database-yjs/condition-value-cache';
+import { FieldType, FieldVisibility } from '@/application/database-yjs/database.type';
+import { filterBy } from '@/application/database-yjs/filter';
+import { readRelationCell, RelationComputeContext } from '@/application/database-yjs/relation/cache';
+import { readRollupCell } from '@/application/database-yjs/rollup/cache';
+import { getInlineViewRowOrders, materializeVisibleRowOrders } from '@/application/database-yjs/row-order-visibility';
+import { Row } from '@/application/database-yjs/selector';
+import { sortBy } from '@/application/database-yjs/sort';
+import {
+  RowId,
+  User,
+  YDatabase,
+  YDatabaseField,
+  YDatabaseRow,
+  YDatabaseView,
+  YDoc,
+  YjsDatabaseKey,
+  YjsEditorKey,
+} from '@/application/types';
+
+import { getExportCellText } from './cell';
+import { DatabaseExportTable } from './types';
+
+type RelatedRowLoaders = Pick<RelationComputeContext, 'loadView' | 'createRow' | 'getViewIdFromDatabaseId'>;
+
+export interface DatabaseExportOptions extends RelatedRowLoaders {
+  database: YDatabase;
+  view: YDatabaseView;
+  baseDoc: YDoc;
+  /** Row docs that are already open; anything else is loaded through `loadRowDoc`. */
+  rowMap?: Record<RowId, YDoc> | null;
+  loadRowDoc?: (rowId: RowId) => Promise<YDoc | undefined>;
+  currentUser?: User;
+  getPersonName?: (personId: string) => string | undefined;
+  getAttributionName?: (uid: string) => string | undefined;
+}
+
+const EXPORTED_VISIBILITIES = [FieldVisibility.AlwaysShown, FieldVisibility.HideWhenEmpty];
+
+function getRowData(rowDoc?: YDoc) {
+  return rowDoc?.getMap(YjsEditorKey.data_section).get(YjsEditorKey.database_row) as YDatabaseRow | undefined;
+}
+
+/** The fields the view shows, in the view's column order. */
+export function getExportFieldIds(view: YDatabaseView, database: YDatabase): string[] {
+  const fields = database.get(YjsDatabaseKey.fields);
+  const fieldOrders = (view.get(YjsDatabaseKey.field_orders)?.toJSON() ?? []) as { id: string }[];
+  const fieldSettings = view.get(YjsDatabaseKey.field_settings);
+
+  return fieldOrders
+    .map(({ id }) => id)
+    .filter((fieldId) => {
+      if (!fields?.has(fieldId)) return false;
+      const visibility = Number(
+        fieldSettings?.get(fieldId)?.get(YjsDatabaseKey.visibility) || FieldVisibility.AlwaysShown
+      ) as FieldVisibility;
+
+      return EXPORTED_VISIBILITIES.includes(visibility);
+    });
+}
+
+/**
+ * Flatten a view into display text. Rows are filtered and sorted with the same
+ * `filterBy`/`sortBy` the grid uses, so the export matches what is on screen.
+ * Row docs and relation/rollup values are resolved up front because the
+ * synchronous grid caches may not have them yet.
+ */
+export async function buildDatabaseExportTable(options: DatabaseExportOptions): Promise<DatabaseExportTable> {
+  const { database, view, baseDoc, rowMap, loadRowDoc, currentUser, loadView, createRow, getViewIdFromDatabaseId } =
+    options;
+  const fields = database.get(YjsDatabaseKey.fields);
+  const fieldIds = getExportFieldIds(view, database);
+  const rowOrders =
+    materializeVisibleRowOrders(
+      view.get(YjsDatabaseKey.row_orders)?.toJSON() as Row[] | undefined,
+      getInlineViewRowOrders(database)?.toJSON() as Row[] | undefined
+    ) ?? [];
+
+  const rowDocs: Record<RowId, YDoc> = {};
+
+  for (const { id: rowId } of rowOrders) {
+    let rowDoc = rowMap?.[rowId];
+
+    if (!hasRowConditionData(rowDoc)) {
+      rowDoc = (await loadRowDoc?.(rowId)) ?? rowDoc;
+    }
+
+    if (rowDoc) rowDocs[rowId] = rowDoc;
+  }
+
+  const relatedFields: YDatabaseField[] = [];
+
+  fields.forEach((field) => {
+    const fieldType = Number(field.get(YjsDatabaseKey.type));
+
+    if (fieldType === FieldType.Relation || fieldType === FieldType.Rollup) relatedFields.push(field);
+  });
+
+  const relatedValues = new Map<string, { value: string; rawNumeric?: number }>();
+
+  for (const field of relatedFields) {
+    const fieldId = field.get(YjsDatabaseKey.id);
+    const isRelation = Number(field.get(YjsDatabaseKey.type)) === FieldType.Relation;
+
+    for (const [rowId, rowDoc] of Object.entries(rowDocs)) {
+      const row = getRowData(rowDoc);
+
+      if (!row) continue;
+      const loaders = { baseDoc, database, row, rowId, fieldId, loadView, createRow, getViewIdFromDatabaseId };
+      const value = isRelation
+        ? { value: await readRelationCell({ ...loaders, relationField: field }) }
+        : await readRollupCell({ ...loaders, rollupField: field });
+
+      relatedValues.set(`${rowId}:${fieldId}`, value);
+    }
+  }
+
+  const getRollupCellValue = (rowId: string, fieldId: string) =>
+    relatedValues.get(`${rowId}:${fieldId}`) ?? { value: '' };
+  const getRelatedCellText = (rowId: string, fieldId: string) => getRollupCellValue(rowId, fieldId).value;
+
+  let rows = rowOrders.filter(({ id }) => rowDocs[id]);
+  const sorts = view.get(YjsDatabaseKey.sorts);
+  const filters = view.get(YjsDatabaseKey.filters);
+
+  if (sorts?.length) {
+    rows = sortBy(rows, sorts, fields, rowDocs, {
+      getRelationCellText: getRelatedCellText,
+      getRollupCellValue,
+      getAttributionName: options.getAttributionName,
+    });
+  }
+
+  if (filters?.length) {
+    rows = filterBy(rows, filters, fields, rowDocs, {
+      getRelationCellText: getRelatedCellText,
+      getRollupCellText: getRelatedCellText,
+      getRollupCellValue,
+    });
+  }
+
+  return {
+    headers: fieldIds.map((fieldId) => String(fields.get(fieldId)?.get(YjsDatabaseKey.name) ?? '')),
+    rows: rows.map(({ id: rowId }) => {
+      const row = getRowData(rowDocs[rowId]);
+
+      return fieldIds.map((fieldId) => {
+        const field = fields.get(fieldId);
+
+        if (!row || !field) return '';
+        return getExportCellText({
+          row,
+          rowId,
+          field,
+          fields,
+          currentUser,
+          getPersonName: (personId) => options.getPersonName?.(personId),
+          getAttributionName: (uid) => options.getAttributionName?.(uid),
+          getRelationCellText: getRelatedCellText,
+          getRollupCellText: getRelatedCellText,
+        });
+      });
+    }),
+  };
+}
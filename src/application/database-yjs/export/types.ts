@@ -0,0 +1,10 @@
+export enum DatabaseExportFormat {
+  CSV = 'csv',
+  XLSX = 'xlsx',
+}
+
+/** A view flattened to display text: one header per visible field, one row per visible row. */
+export interface DatabaseExportTable {
+  headers: string[];
+  rows: string[][];
+}
@@ -0,0 +1,141 @@
+import { DatabaseExportTable } from './types';
+import { createZip } from './zip';
+
+const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+const MAX_SHEET_NAME_LENGTH = 31;
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+const CONTENT_TYPES =
+  XML_HEADER +
+  '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+  '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+  '<Default Extension="xml" ContentType="application/xml"/>' +
+  '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+  '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+  '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+  '</Types>';
+
+const ROOT_RELS =
+  XML_HEADER +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+  '</Relationships>';
+
+const WORKBOOK_RELS =
+  XML_HEADER +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+  '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+  '</Relationships>';
+
+// Style 0 is the default cell, style 1 is the bold header row.
+const STYLES =
+  XML_HEADER +
+  '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+  '</styleSheet>';
+
+// Control characters other than tab and newlines are not allowed anywhere in XML 1.0.
+// eslint-disable-next-line no-control-regex
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g;
+
+function escapeXml(value: string) {
+  return value
+    .replace(INVALID_XML_CHARS, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/** Convert a zero-based column index into its spreadsheet letters (0 → A, 26 → AA). */
+export function getColumnName(index: number) {
+  let name = '';
+  let n = index + 1;
+
+  while (n > 0) {
+    const remainder = (n - 1) % 26;
+
+    name = String.fromCharCode(65 + remainder) + name;
+    n = Math.floor((n - 1) / 26);
+  }
+
+  return name;
+}
+
+/** Excel rejects sheet names that are empty, longer than 31 characters or contain `[]:*?/\`. */
+export function sanitizeSheetName(name: string) {
+  const sanitized = name
+    .replace(/[[\]:*?/\\]/g, ' ')
+    .trim()
+    .slice(0, MAX_SHEET_NAME_LENGTH);
+
+  return sanitized || 'Sheet1';
+}
+
+function renderRow(values: string[], rowIndex: number, style?: number) {
+  const rowNumber = rowIndex + 1;
+  const styleAttr = style ? ` s="${style}"` : '';
+  const cells = values
+    .map((value, columnIndex) => {
+      const ref = `${getColumnName(columnIndex)}${rowNumber}`;
+
+      if (!value) return `<c r="${ref}"${styleAttr}/>`;
+      return `<c r="${ref}" t="inlineStr"${styleAttr}><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+    })
+    .join('');
+
+  return `<row r="${rowNumber}">${cells}</row>`;
+}
+
+function renderWorksheet({ headers, rows }: DatabaseExportTable) {
+  const sheetRows = [renderRow(headers, 0, 1), ...rows.map((row, index) => renderRow(row, index + 1))];
+
+  return (
+    XML_HEADER +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<sheetViews><sheetView workbookViewId="0">' +
+    '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>' +
+    '</sheetView></sheetViews>' +
+    `<sheetData>${sheetRows.join('')}</sheetData>` +
+    '</worksheet>'
+  );
+}
+
+function renderWorkbook(sheetName: string) {
+  return (
+    XML_HEADER +
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+    'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+    `<sheets><sheet name="${escapeXml(sanitizeSheetName(sheetName))}" sheetId="1" r:id="rId1"/></sheets>` +
+    '</workbook>'
+  );
+}
+
+/**
+ * Build a single-sheet .xlsx workbook. Every cell is written as an inline
+ * string so the spreadsheet shows exactly what the grid displays. Inline
+ * strings are never evaluated, so text like `=1+1` cannot run as a formula.
+ */
+export function toXlsx(table: DatabaseExportTable, sheetName: string): Uint8Array {
+  const encoder = new TextEncoder();
+
+  return createZip([
+    { name: '[Content_Types].xml', data: encoder.encode(CONTENT_TYPES) },
+    { name: '_rels/.rels', data: encoder.encode(ROOT_RELS) },
+    { name: 'xl/workbook.xml', data: encoder.encode(renderWorkbook(sheetName)) },
+    { name: 'xl/_rels/workbook.xml.rels', data: encoder.encode(WORKBOOK_RELS) },
+    { name: 'xl/styles.xml', data: encoder.encode(STYLES) },
+    { name: 'xl/worksheets/sheet1.xml', data: encoder.encode(renderWorksheet(table)) },
+  ]);
+}
+
+export function createXlsxBlob(table: DatabaseExportTable, sheetName: string) {
+  return new Blob([toXlsx(table, sheetName)], { type: XLSX_MIME_TYPE });
+}
@@ -29,6 +29,16 @@ export enum DateFilterCondition {
   DateEndsThisWeek = 25,
   DateEndsLastWeek = 26,
   DateEndsNextWeek = 27,
+  DateStartsWithinNext = 28,
+  DateStartsWithinPast = 29,
+  DateStartsThisQuarter = 30,
+  DateStartsThisYear = 31,
+  DateStartsOverdue = 32,
+  DateEndsWithinNext = 33,
+  DateEndsWithinPast = 34,
+  DateEndsThisQuarter = 35,
+  DateEndsThisYear = 36,
+  DateEndsOverdue = 37,
 }
 
 export enum DateFilterRelativeCondition {
@@ -38,6 +48,19 @@ export enum DateFilterRelativeCondition {
   ThisWeek = 'thisWeek',
   LastWeek = 'lastWeek',
   NextWeek = 'nextWeek',
+  WithinNext = 'withinNext',
+  WithinPast = 'withinPast',
+  ThisQuarter = 'thisQuarter',
+  ThisYear = 'thisYear',
+  Overdue = 'overdue',
+}
+
+export type RelativeDateUnit = 'day' | 'week' | 'month';
+
+/** The "N days/weeks/months" of the within-next/within-past conditions, stored as the filter content. */
+export interface RelativeDateOffset {
+  amount: number;
+  unit: RelativeDateUnit;
 }
 
 export interface DateFilter extends Filter {
@@ -45,4 +68,5 @@ export interface DateFilter extends Filter {
   start?: number;
   end?: number;
   timestamp?: number;
+  offset?: RelativeDateOffset;
 }
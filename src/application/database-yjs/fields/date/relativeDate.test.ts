@@ -1,13 +1,19 @@
 import dayjs from 'dayjs';
 import { expect } from '@jest/globals';
 
+import { FilterType } from '@/application/database-yjs/database.type';
+
 import {
+  DateFilter,
   DateFilterCondition,
   DateFilterRelativeCondition,
   dateRangeForRelative,
   isRelativeDateCondition,
   isStartDateCondition,
+  msUntilNextDay,
+  parseRelativeDateOffset,
   resolveRelativeDates,
+  resolveRelativeDateWindow,
   toEndDateCondition,
   toStartDateCondition,
 } from './';
@@ -15,6 +21,10 @@ import {
 // Deterministic anchor (Wed 2024-06-12) — matches desktop test fixture.
 const TEST_TODAY = dayjs('2024-06-12');
 
+function dateFilter(condition: DateFilterCondition, rest: Partial<DateFilter> = {}): DateFilter {
+  return { id: 'f', fieldId: 'date', filterType: FilterType.Data, content: '', condition, ...rest };
+}
+
 describe('relativeDate', () => {
   it('detects relative conditions', () => {
     expect(isRelativeDateCondition(DateFilterCondition.DateStartsToday)).toBe(true);
@@ -102,4 +112,70 @@ describe('relativeDate', () => {
 
     expect(resolveRelativeDates(filter, TEST_TODAY)).toBe(filter);
   });
+
+  it('resolves offsets and calendar windows', () => {
+    const next = dateRangeForRelative(DateFilterRelativeCondition.WithinNext, TEST_TODAY, { amount: 14, unit: 'day' });
+
+    expect(next.start.format('YYYY-MM-DD')).toBe('2024-06-12');
+    expect(next.end.format('YYYY-MM-DD')).toBe('2024-06-26');
+
+    const past = dateRangeForRelative(DateFilterRelativeCondition.WithinPast, TEST_TODAY, { amount: 2, unit: 'month' });
+
+    expect(past.start.format('YYYY-MM-DD')).toBe('2024-04-12');
+    expect(past.end.format('YYYY-MM-DD')).toBe('2024-06-12');
+
+    const quarter = dateRangeForRelative(DateFilterRelativeCondition.ThisQuarter, TEST_TODAY);
+
+    expect(quarter.start.format('YYYY-MM-DD')).toBe('2024-04-01');
+    expect(quarter.end.format('YYYY-MM-DD')).toBe('2024-06-30');
+
+    const year = dateRangeForRelative(DateFilterRelativeCondition.ThisYear, TEST_TODAY);
+
+    expect(year.start.format('YYYY-MM-DD')).toBe('2024-01-01');
+    expect(year.end.format('YYYY-MM-DD')).toBe('2024-12-31');
+  });
+
+  it('parses offsets and falls back to 7 days', () => {
+    expect(parseRelativeDateOffset('{"amount":3,"unit":"month"}')).toEqual({ amount: 3, unit: 'month' });
+    expect(parseRelativeDateOffset('{"amount":-1,"unit":"year"}')).toEqual({ amount: 7, unit: 'day' });
+    expect(parseRelativeDateOffset('{"timestamp":1718150400}')).toEqual({ amount: 7, unit: 'day' });
+    expect(parseRelativeDateOffset('')).toEqual({ amount: 7, unit: 'day' });
+  });
+
+  it('evaluates windows on the wall clock of the given timezone', () => {
+    // 2024-06-12 23:30 UTC is already June 13 in Tokyo but still June 12 in New York.
+    const now = new Date(Date.UTC(2024, 5, 12, 23, 30));
+    const filter = dateFilter(DateFilterCondition.DateStartsWithinNext, { offset: { amount: 1, unit: 'day' } });
+
+    expect(resolveRelativeDateWindow(filter, { now, timezone: 'Asia/Tokyo' })).toEqual({
+      start: Date.UTC(2024, 5, 12, 15) / 1000,
+      end: Date.UTC(2024, 5, 14, 15) / 1000,
+    });
+    expect(resolveRelativeDateWindow(filter, { now, timezone: 'America/New_York' })).toEqual({
+      start: Date.UTC(2024, 5, 12, 4) / 1000,
+      end: Date.UTC(2024, 5, 14, 4) / 1000,
+    });
+  });
+
+  it('treats overdue as before now, or before today for date-only cells', () => {
+    const now = new Date(Date.UTC(2024, 5, 12, 10));
+    const filter = dateFilter(DateFilterCondition.DateEndsOverdue);
+
+    expect(resolveRelativeDateWindow(filter, { now, timezone: 'UTC' })).toEqual({
+      start: null,
+      end: now.getTime() / 1000,
+    });
+    expect(resolveRelativeDateWindow(filter, { now, timezone: 'UTC' }, false)).toEqual({
+      start: null,
+      end: Date.UTC(2024, 5, 12) / 1000,
+    });
+    expect(resolveRelativeDateWindow(dateFilter(DateFilterCondition.DateStartsOn), { now })).toBeNull();
+  });
+
+  it('counts down to the next midnight in the timezone', () => {
+    const now = new Date(Date.UTC(2024, 5, 12, 22));
+
+    expect(msUntilNextDay('UTC', now)).toBe(2 * 60 * 60 * 1000);
+    expect(msUntilNextDay('Asia/Tokyo', now)).toBe(17 * 60 * 60 * 1000);
+  });
 });
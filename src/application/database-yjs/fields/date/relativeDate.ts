@@ -1,11 +1,47 @@
 import dayjs, { Dayjs } from 'dayjs';
+import { fromZonedTime, toZonedTime } from 'date-fns-tz';
 
 import {
   DateFilter,
   DateFilterCondition,
   DateFilterRelativeCondition,
+  RelativeDateOffset,
+  RelativeDateUnit,
 } from './date.type';
 
+export const RELATIVE_DATE_UNITS: readonly RelativeDateUnit[] = ['day', 'week', 'month'];
+
+export const DEFAULT_RELATIVE_DATE_OFFSET: RelativeDateOffset = { amount: 7, unit: 'day' };
+
+/** Conditions whose window length comes from a {@link RelativeDateOffset}. */
+export function isRelativeDateOffsetCondition(condition: DateFilterCondition): boolean {
+  const relative = relativeConditionFor(condition);
+
+  return relative === DateFilterRelativeCondition.WithinNext || relative === DateFilterRelativeCondition.WithinPast;
+}
+
+// Offsets are stored as JSON filter content, e.g. {"amount":14,"unit":"day"}. Anything
+// missing or malformed falls back to the default so a half-edited filter still applies.
+export function parseRelativeDateOffset(content?: string): RelativeDateOffset {
+  if (!content) return DEFAULT_RELATIVE_DATE_OFFSET;
+
+  try {
+    const { amount, unit } = JSON.parse(content) as Partial<RelativeDateOffset>;
+    const parsedAmount = Number(amount);
+
+    return {
+      amount: Number.isInteger(parsedAmount) && parsedAmount >= 0 ? parsedAmount : DEFAULT_RELATIVE_DATE_OFFSET.amount,
+      unit: unit && RELATIVE_DATE_UNITS.includes(unit) ? unit : DEFAULT_RELATIVE_DATE_OFFSET.unit,
+    };
+  } catch {
+    return DEFAULT_RELATIVE_DATE_OFFSET;
+  }
+}
+
+export function stringifyRelativeDateOffset(offset: RelativeDateOffset): string {
+  return JSON.stringify({ amount: offset.amount, unit: offset.unit });
+}
+
 export function relativeConditionFor(condition: DateFilterCondition): DateFilterRelativeCondition | null {
   switch (condition) {
     case DateFilterCondition.DateStartsToday:
@@ -26,6 +62,21 @@ export function relativeConditionFor(condition: DateFilterCondition): DateFilter
     case DateFilterCondition.DateStartsNextWeek:
     case DateFilterCondition.DateEndsNextWeek:
       return DateFilterRelativeCondition.NextWeek;
+    case DateFilterCondition.DateStartsWithinNext:
+    case DateFilterCondition.DateEndsWithinNext:
+      return DateFilterRelativeCondition.WithinNext;
+    case DateFilterCondition.DateStartsWithinPast:
+    case DateFilterCondition.DateEndsWithinPast:
+      return DateFilterRelativeCondition.WithinPast;
+    case DateFilterCondition.DateStartsThisQuarter:
+    case DateFilterCondition.DateEndsThisQuarter:
+      return DateFilterRelativeCondition.ThisQuarter;
+    case DateFilterCondition.DateStartsThisYear:
+    case DateFilterCondition.DateEndsThisYear:
+      return DateFilterRelativeCondition.ThisYear;
+    case DateFilterCondition.DateStartsOverdue:
+    case DateFilterCondition.DateEndsOverdue:
+      return DateFilterRelativeCondition.Overdue;
     default:
       return null;
   }
@@ -50,6 +101,11 @@ const START_END_PAIRS: ReadonlyArray<readonly [DateFilterCondition, DateFilterCo
   [DateFilterCondition.DateStartsThisWeek, DateFilterCondition.DateEndsThisWeek],
   [DateFilterCondition.DateStartsLastWeek, DateFilterCondition.DateEndsLastWeek],
   [DateFilterCondition.DateStartsNextWeek, DateFilterCondition.DateEndsNextWeek],
+  [DateFilterCondition.DateStartsWithinNext, DateFilterCondition.DateEndsWithinNext],
+  [DateFilterCondition.DateStartsWithinPast, DateFilterCondition.DateEndsWithinPast],
+  [DateFilterCondition.DateStartsThisQuarter, DateFilterCondition.DateEndsThisQuarter],
+  [DateFilterCondition.DateStartsThisYear, DateFilterCondition.DateEndsThisYear],
+  [DateFilterCondition.DateStartsOverdue, DateFilterCondition.DateEndsOverdue],
 ];
 
 export function isStartDateCondition(condition: DateFilterCondition): boolean {
@@ -73,9 +129,11 @@ export function toEndDateCondition(condition: DateFilterCondition): DateFilterCo
 }
 
 // Mirrors desktop: week starts on Monday (ISO 8601). Returns inclusive [start, end] dates.
+// Overdue has no day range (it is "before now"), see resolveRelativeDateWindow.
 export function dateRangeForRelative(
-  relative: DateFilterRelativeCondition,
+  relative: Exclude<DateFilterRelativeCondition, DateFilterRelativeCondition.Overdue>,
   today: Dayjs = dayjs(),
+  offset: RelativeDateOffset = DEFAULT_RELATIVE_DATE_OFFSET,
 ): { start: Dayjs; end: Dayjs } {
   const startOfToday = today.startOf('day');
 
@@ -100,6 +158,18 @@ export function dateRangeForRelative(
       return weekRange(startOfToday, -7);
     case DateFilterRelativeCondition.NextWeek:
       return weekRange(startOfToday, 7);
+    case DateFilterRelativeCondition.WithinNext:
+      return { start: startOfToday, end: startOfToday.add(offset.amount, offset.unit) };
+    case DateFilterRelativeCondition.WithinPast:
+      return { start: startOfToday.subtract(offset.amount, offset.unit), end: startOfToday };
+    case DateFilterRelativeCondition.ThisQuarter: {
+      const start = startOfToday.month(Math.floor(startOfToday.month() / 3) * 3).startOf('month');
+
+      return { start, end: start.add(2, 'month').endOf('month').startOf('day') };
+    }
+
+    case DateFilterRelativeCondition.ThisYear:
+      return { start: startOfToday.startOf('year'), end: startOfToday.endOf('year').startOf('day') };
   }
 }
 
@@ -112,14 +182,62 @@ function weekRange(today: Dayjs, offsetDays: number): { start: Dayjs; end: Dayjs
   return { start, end };
 }
 
+export interface RelativeDateContext {
+  /** IANA timezone the windows are evaluated in. Defaults to the runtime's local timezone. */
+  timezone?: string;
+  now?: Date;
+}
+
+/** A half-open [start, end) range of unix seconds. A null start is unbounded. */
+export interface RelativeDateWindow {
+  start: number | null;
+  end: number;
+}
+
+// Resolves a relative-date filter against "now" in the given timezone. Day boundaries are
+// computed on the wall clock of that timezone and converted back to instants, so a saved
+// "within the next 14 days" moves with the calendar of the user rather than the browser.
+// Date-only cells are overdue from the day after their date, timed cells from their instant.
+export function resolveRelativeDateWindow(
+  filter: DateFilter,
+  { timezone, now = new Date() }: RelativeDateContext = {},
+  includeTime = true,
+): RelativeDateWindow | null {
+  const relative = relativeConditionFor(filter.condition);
+
+  if (!relative) return null;
+
+  const wallNow = dayjs(timezone ? toZonedTime(now, timezone) : now);
+  const toUnix = (wallTime: Dayjs) =>
+    Math.floor((timezone ? fromZonedTime(wallTime.toDate(), timezone) : wallTime.toDate()).getTime() / 1000);
+
+  if (relative === DateFilterRelativeCondition.Overdue) {
+    return { start: null, end: includeTime ? Math.floor(now.getTime() / 1000) : toUnix(wallNow.startOf('day')) };
+  }
+
+  const { start, end } = dateRangeForRelative(relative, wallNow, filter.offset);
+
+  return { start: toUnix(start), end: toUnix(end.add(1, 'day')) };
+}
+
 // Returns a filter copy with relative-date conditions resolved into start/end timestamps
 // anchored at today's local date. For non-relative conditions this returns the filter as-is.
+// Overdue resolves to an open range ending yesterday.
 export function resolveRelativeDates(filter: DateFilter, today: Dayjs = dayjs()): DateFilter {
   const relative = relativeConditionFor(filter.condition);
 
   if (!relative) return filter;
 
-  const { start, end } = dateRangeForRelative(relative, today);
+  if (relative === DateFilterRelativeCondition.Overdue) {
+    return {
+      ...filter,
+      timestamp: undefined,
+      start: undefined,
+      end: today.startOf('day').subtract(1, 'day').unix(),
+    };
+  }
+
+  const { start, end } = dateRangeForRelative(relative, today, filter.offset);
   const startUnix = start.unix();
   const endUnix = end.unix();
 
@@ -139,3 +257,11 @@ export function resolveRelativeDates(filter: DateFilter, today: Dayjs = dayjs())
     end: endUnix,
   };
 }
+
+// Milliseconds until the next midnight in the given timezone, when relative windows shift.
+export function msUntilNextDay(timezone?: string, now: Date = new Date()): number {
+  const nextDay = dayjs(timezone ? toZonedTime(now, timezone) : now).add(1, 'day').startOf('day').toDate();
+  const instant = timezone ? fromZonedTime(nextDay, timezone) : nextDay;
+
+  return Math.max(instant.getTime() - now.getTime(), 1000);
+}
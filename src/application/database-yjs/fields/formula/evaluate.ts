@@ -0,0 +1,441 @@
+import dayjs, { OpUnitType } from 'dayjs';
+
+import { FormulaError, parseFormula } from './expression';
+import { FormulaNode, FormulaResult, FormulaResultType, FormulaValue } from './formula.type';
+
+export interface FormulaEvaluationContext {
+  /** Resolve `prop("Name")`. Throw a FormulaError for unknown properties. */
+  getProperty: (name: string) => FormulaValue;
+  /** Injected for deterministic tests; defaults to the current time. */
+  now?: () => Date;
+}
+
+type FormulaFunction = (args: FormulaNode[], context: FormulaEvaluationContext) => FormulaValue;
+
+const DATE_UNITS: Record<string, OpUnitType | 'quarter'> = {
+  year: 'year',
+  years: 'year',
+  quarter: 'quarter',
+  quarters: 'quarter',
+  month: 'month',
+  months: 'month',
+  week: 'week',
+  weeks: 'week',
+  day: 'day',
+  days: 'day',
+  hour: 'hour',
+  hours: 'hour',
+  minute: 'minute',
+  minutes: 'minute',
+  second: 'second',
+  seconds: 'second',
+};
+
+export function isEmptyFormulaValue(value: FormulaValue) {
+  return value === null || value === '' || (typeof value === 'number' && Number.isNaN(value));
+}
+
+export function toFormulaNumber(value: FormulaValue): number {
+  if (value === null || value === '') return 0;
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value instanceof Date) return value.getTime();
+
+  const parsed = Number(value.trim());
+
+  if (Number.isNaN(parsed)) {
+    throw new FormulaError(`Cannot convert "${value}" to a number`);
+  }
+
+  return parsed;
+}
+
+export function toFormulaBoolean(value: FormulaValue): boolean {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value !== 0 && !Number.isNaN(value);
+  if (value instanceof Date) return true;
+  if (value === null) return false;
+
+  const normalized = value.trim().toLowerCase();
+
+  return normalized !== '' && normalized !== 'false' && normalized !== 'no' && normalized !== '0';
+}
+
+function toFormulaDate(value: FormulaValue): Date {
+  if (value instanceof Date) return value;
+  if (typeof value === 'number') return new Date(value);
+
+  if (typeof value === 'string' && value.trim()) {
+    const parsed = dayjs(value.trim());
+
+    if (parsed.isValid()) return parsed.toDate();
+  }
+
+  throw new FormulaError('Expected a date');
+}
+
+function toDateUnit(value: FormulaValue) {
+  const unit =
+    DATE_UNITS[
+      String(value ?? '')
+        .trim()
+        .toLowerCase()
+    ];
+
+  if (!unit) throw new FormulaError(`Unknown date unit "${String(value)}"`);
+  return unit;
+}
+
+function formatNumber(value: number) {
+  if (!Number.isFinite(value)) return Number.isNaN(value) ? '' : String(value);
+  // Trim binary floating point noise such as 0.1 + 0.2 = 0.30000000000000004.
+  return String(Number(value.toPrecision(12)));
+}
+
+export function formatFormulaValue(value: FormulaValue): string {
+  if (value === null) return '';
+  if (typeof value === 'number') return formatNumber(value);
+  if (typeof value === 'boolean') return value ? 'true' : 'false';
+  if (value instanceof Date) {
+    const date = dayjs(value);
+    const hasTime = date.hour() !== 0 || date.minute() !== 0;
+
+    return date.format(hasTime ? 'MMM D, YYYY HH:mm' : 'MMM D, YYYY');
+  }
+
+  return value;
+}
+
+function addToDate(date: Date, amount: number, unit: OpUnitType | 'quarter') {
+  if (unit === 'quarter')
+    return dayjs(date)
+      .add(amount * 3, 'month')
+      .toDate();
+  return dayjs(date)
+    .add(amount, unit as dayjs.ManipulateType)
+    .toDate();
+}
+
+function expectArgs(name: string, args: FormulaNode[], min: number, max = min) {
+  if (args.length < min || args.length > max) {
+    const expected = min === max ? `${min}` : max === Infinity ? `at least ${min}` : `${min}-${max}`;
+
+    throw new FormulaError(`${name}() expects ${expected} argument${min === 1 && max === 1 ? '' : 's'}`);
+  }
+}
+
+function compareValues(left: FormulaValue, right: FormulaValue): number {
+  if (left instanceof Date || right instanceof Date) {
+    return toFormulaDate(left).getTime() - toFormulaDate(right).getTime();
+  }
+
+  if (typeof left === 'number' || typeof right === 'number') {
+    return toFormulaNumber(left) - toFormulaNumber(right);
+  }
+
+  return formatFormulaValue(left).localeCompare(formatFormulaValue(right));
+}
+
+function valuesEqual(left: FormulaValue, right: FormulaValue) {
+  if (left === null || right === null) return isEmptyFormulaValue(left) && isEmptyFormulaValue(right);
+  if (typeof left === 'boolean' || typeof right === 'boolean') {
+    return toFormulaBoolean(left) === toFormulaBoolean(right);
+  }
+
+  if (typeof left === 'string' && typeof right === 'string') return left === right;
+
+  try {
+    return compareValues(left, right) === 0;
+  } catch {
+    return false;
+  }
+}
+
+const numeric =
+  (name: string, fn: (...values: number[]) => number, min = 1, max = min): FormulaFunction =>
+  (args, context) => {
+    expectArgs(name, args, min, max);
+    return fn(...args.map((arg) => toFormulaNumber(evaluateNode(arg, context))));
+  };
+
+const textual =
+  (name: string, fn: (...values: string[]) => FormulaValue, min = 1, max = min): FormulaFunction =>
+  (args, context) => {
+    expectArgs(name, args, min, max);
+    return fn(...args.map((arg) => formatFormulaValue(evaluateNode(arg, context))));
+  };
+
+const FUNCTIONS: Record<string, FormulaFunction> = {
+  prop: (args, context) => {
+    expectArgs('prop', args, 1);
+    const name = evaluateNode(args[0], context);
+
+    if (typeof name !== 'string') throw new FormulaError('prop() expects a property name');
+    return context.getProperty(name);
+  },
+  if: (args, context) => {
+    expectArgs('if', args, 2, 3);
+    if (toFormulaBoolean(evaluateNode(args[0], context))) return evaluateNode(args[1], context);
+    return args[2] ? evaluateNode(args[2], context) : null;
+  },
+  empty: (args, context) => {
+    expectArgs('empty', args, 1);
+    return isEmptyFormulaValue(evaluateNode(args[0], context));
+  },
+  not: (args, context) => {
+    expectArgs('not', args, 1);
+    return !toFormulaBoolean(evaluateNode(args[0], context));
+  },
+  concat: (args, context) => args.map((arg) => formatFormulaValue(evaluateNode(arg, context))).join(''),
+  join: (args, context) => {
+    expectArgs('join', args, 1, Infinity);
+    const [separator, ...rest] = args.map((arg) => formatFormulaValue(evaluateNode(arg, context)));
+
+    return rest.filter(Boolean).join(separator);
+  },
+  length: textual('length', (text) => text.length),
+  lower: textual('lower', (text) => text.toLowerCase()),
+  upper: textual('upper', (text) => text.toUpperCase()),
+  trim: textual('trim', (text) => text.trim()),
+  contains: textual('contains', (text, search) => text.toLowerCase().includes(search.toLowerCase()), 2),
+  replace: textual('replace', (text, search, replacement) => text.split(search).join(replacement), 3),
+  format: textual('format', (text) => text),
+  tonumber: (args, context) => {
+    expectArgs('toNumber', args, 1);
+    const value = evaluateNode(args[0], context);
+
+    if (isEmptyFormulaValue(value)) return null;
+
+    try {
+      return toFormulaNumber(value);
+    } catch {
+      return null;
+    }
+  },
+  abs: numeric('abs', Math.abs),
+  floor: numeric('floor', Math.floor),
+  ceil: numeric('ceil', Math.ceil),
+  sqrt: numeric('sqrt', Math.sqrt),
+  pow: numeric('pow', Math.pow, 2),
+  round: numeric(
+    'round',
+    (value, digits = 0) => {
+      const factor = Math.pow(10, digits);
+
+      return Math.round(value * factor) / factor;
+    },
+    1,
+    2
+  ),
+  min: numeric('min', Math.min, 1, Infinity),
+  max: numeric('max', Math.max, 1, Infinity),
+  sum: numeric('sum', (...values) => values.reduce((total, value) => total + value, 0), 1, Infinity),
+  now: (args, context) => {
+    expectArgs('now', args, 0);
+    return context.now?.() ?? new Date();
+  },
+  today: (args, context) => {
+    expectArgs('today', args, 0);
+    return dayjs(context.now?.() ?? new Date())
+      .startOf('day')
+      .toDate();
+  },
+  dateadd: (args, context) => {
+    expectArgs('dateAdd', args, 3);
+    const [date, amount, unit] = args.map((arg) => evaluateNode(arg, context));
+
+    return addToDate(toFormulaDate(date), toFormulaNumber(amount), toDateUnit(unit));
+  },
+  datesubtract: (args, context) => {
+    expectArgs('dateSubtract', args, 3);
+    const [date, amount, unit] = args.map((arg) => evaluateNode(arg, context));
+
+    return addToDate(toFormulaDate(date), -toFormulaNumber(amount), toDateUnit(unit));
+  },
+  datebetween: (args, context) => {
+    expectArgs('dateBetween', args, 3);
+    const [end, start, unit] = args.map((arg) => evaluateNode(arg, context));
+    const resolvedUnit = toDateUnit(unit);
+    const endDate = dayjs(toFormulaDate(end));
+    const startDate = dayjs(toFormulaDate(start));
+
+    if (resolvedUnit === 'quarter') return Math.trunc(endDate.diff(startDate, 'month') / 3);
+    return endDate.diff(startDate, resolvedUnit);
+  },
+  formatdate: (args, context) => {
+    expectArgs('formatDate', args, 2);
+    const [date, pattern] = args.map((arg) => evaluateNode(arg, context));
+
+    return dayjs(toFormulaDate(date)).format(formatFormulaValue(pattern));
+  },
+  timestamp: (args, context) => {
+    expectArgs('timestamp', args, 1);
+    return toFormulaDate(evaluateNode(args[0], context)).getTime();
+  },
+  fromtimestamp: (args, context) => {
+    expectArgs('fromTimestamp', args, 1);
+    return new Date(toFormulaNumber(evaluateNode(args[0], context)));
+  },
+  year: (args, context) => {
+    expectArgs('year', args, 1);
+    return dayjs(toFormulaDate(evaluateNode(args[0], context))).year();
+  },
+  month: (args, context) => {
+    expectArgs('month', args, 1);
+    return dayjs(toFormulaDate(evaluateNode(args[0], context))).month() + 1;
+  },
+  day: (args, context) => {
+    expectArgs('day', args, 1);
+    return dayjs(toFormulaDate(evaluateNode(args[0], context))).date();
+  },
+};
+
+/** Function names accepted by the evaluator, in the casing shown to users. */
+export const FORMULA_FUNCTION_NAMES = [
+  'prop',
+  'if',
+  'empty',
+  'not',
+  'concat',
+  'join',
+  'length',
+  'lower',
+  'upper',
+  'trim',
+  'contains',
+  'replace',
+  'format',
+  'toNumber',
+  'abs',
+  'floor',
+  'ceil',
+  'sqrt',
+  'pow',
+  'round',
+  'min',
+  'max',
+  'sum',
+  'now',
+  'today',
+  'dateAdd',
+  'dateSubtract',
+  'dateBetween',
+  'formatDate',
+  'timestamp',
+  'fromTimestamp',
+  'year',
+  'month',
+  'day',
+];
+
+function evaluateBinary(node: Extract<FormulaNode, { kind: 'binary' }>, context: FormulaEvaluationContext) {
+  // Short-circuit logical operators so `if`-like guards do not evaluate the right side.
+  if (node.operator === 'and') {
+    return toFormulaBoolean(evaluateNode(node.left, context)) && toFormulaBoolean(evaluateNode(node.right, context));
+  }
+
+  if (node.operator === 'or') {
+    return toFormulaBoolean(evaluateNode(node.left, context)) || toFormulaBoolean(evaluateNode(node.right, context));
+  }
+
+  const left = evaluateNode(node.left, context);
+  const right = evaluateNode(node.right, context);
+
+  switch (node.operator) {
+    case '+':
+      if (typeof left === 'string' || typeof right === 'string') {
+        return formatFormulaValue(left) + formatFormulaValue(right);
+      }
+
+      return toFormulaNumber(left) + toFormulaNumber(right);
+    case '-':
+      return toFormulaNumber(left) - toFormulaNumber(right);
+    case '*':
+      return toFormulaNumber(left) * toFormulaNumber(right);
+    case '/': {
+      const divisor = toFormulaNumber(right);
+
+      if (divisor === 0) throw new FormulaError('Division by zero');
+      return toFormulaNumber(left) / divisor;
+    }
+
+    case '%': {
+      const divisor = toFormulaNumber(right);
+
+      if (divisor === 0) throw new FormulaError('Division by zero');
+      return toFormulaNumber(left) % divisor;
+    }
+
+    case '^':
+      return Math.pow(toFormulaNumber(left), toFormulaNumber(right));
+    case '==':
+      return valuesEqual(left, right);
+    case '!=':
+      return !valuesEqual(left, right);
+    case '<':
+      return compareValues(left, right) < 0;
+    case '<=':
+      return compareValues(left, right) <= 0;
+    case '>':
+      return compareValues(left, right) > 0;
+    case '>=':
+      return compareValues(left, right) >= 0;
+    default:
+      throw new FormulaError(`Unsupported operator "${node.operator}"`);
+  }
+}
+
+export function evaluateNode(node: FormulaNode, context: FormulaEvaluationContext): FormulaValue {
+  switch (node.kind) {
+    case 'number':
+    case 'string':
+    case 'boolean':
+      return node.value;
+    case 'unary': {
+      const operand = evaluateNode(node.operand, context);
+
+      return node.operator === 'not' ? !toFormulaBoolean(operand) : -toFormulaNumber(operand);
+    }
+
+    case 'binary':
+      return evaluateBinary(node, context);
+    case 'call': {
+      // Only own entries: names like `constructor` must not reach Object.prototype.
+      const fn = Object.hasOwn(FUNCTIONS, node.name) ? FUNCTIONS[node.name] : undefined;
+
+      if (!fn) throw new FormulaError(`Unknown function "${node.name}"`);
+      return fn(node.args, context);
+    }
+  }
+}
+
+/**
+ * Parse and evaluate a formula, reporting parse and runtime failures as an
+ * `error` instead of throwing so a bad expression never breaks rendering.
+ */
+export function evaluateFormula(expression: string, context: FormulaEvaluationContext): FormulaResult {
+  if (!expression.trim()) return { value: null };
+
+  try {
+    const value = evaluateNode(parseFormula(expression), context);
+
+    if (typeof value === 'number' && !Number.isFinite(value)) {
+      return { value: null, error: 'Result is not a finite number' };
+    }
+
+    return { value };
+  } catch (error) {
+    if (error instanceof FormulaError) {
+      return { value: null, error: error.message };
+    }
+
+    throw error;
+  }
+}
+
+export function getFormulaValueType(value: FormulaValue): FormulaResultType {
+  if (typeof value === 'number') return FormulaResultType.Number;
+  if (typeof value === 'boolean') return FormulaResultType.Checkbox;
+  if (value instanceof Date) return FormulaResultType.Date;
+  return FormulaResultType.Text;
+}
@@ -0,0 +1,289 @@
+import { FormulaBinaryOperator, FormulaNode } from './formula.type';
+
+export class FormulaError extends Error {
+  constructor(message: string, readonly position?: number) {
+    super(position === undefined ? message : `${message} (at ${position + 1})`);
+    this.name = 'FormulaError';
+  }
+}
+
+type Token =
+  | { type: 'number'; value: number; position: number }
+  | { type: 'string'; value: string; position: number }
+  | { type: 'identifier'; value: string; position: number }
+  | { type: 'operator'; value: string; position: number }
+  | { type: 'punctuation'; value: '(' | ')' | ','; position: number }
+  | { type: 'end'; position: number };
+
+const OPERATORS = ['==', '!=', '<=', '>=', '&&', '||', '+', '-', '*', '/', '%', '^', '<', '>', '!', '='];
+
+// Binding power of each binary operator; higher binds tighter.
+const BINARY_PRECEDENCE: Record<FormulaBinaryOperator, number> = {
+  or: 1,
+  and: 2,
+  '==': 3,
+  '!=': 3,
+  '<': 4,
+  '<=': 4,
+  '>': 4,
+  '>=': 4,
+  '+': 5,
+  '-': 5,
+  '*': 6,
+  '/': 6,
+  '%': 6,
+  '^': 8,
+};
+
+const UNARY_PRECEDENCE = 7;
+
+export function tokenizeFormula(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (/\s/.test(char)) {
+      index += 1;
+      continue;
+    }
+
+    if (/[0-9.]/.test(char)) {
+      const match = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(source.slice(index));
+
+      if (!match) throw new FormulaError(`Unexpected "${char}"`, index);
+      tokens.push({ type: 'number', value: Number(match[0]), position: index });
+      index += match[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const start = index;
+      let value = '';
+
+      index += 1;
+      while (index < source.length && source[index] !== char) {
+        if (source[index] === '\\' && index + 1 < source.length) {
+          const escaped = source[index + 1];
+
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+          index += 2;
+          continue;
+        }
+
+        value += source[index];
+        index += 1;
+      }
+
+      if (index >= source.length) throw new FormulaError('Unterminated string', start);
+      index += 1;
+      tokens.push({ type: 'string', value, position: start });
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(index));
+
+      if (!match) throw new FormulaError(`Unexpected "${char}"`, index);
+      tokens.push({ type: 'identifier', value: match[0], position: index });
+      index += match[0].length;
+      continue;
+    }
+
+    if (char === '(' || char === ')' || char === ',') {
+      tokens.push({ type: 'punctuation', value: char, position: index });
+      index += 1;
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => source.startsWith(op, index));
+
+    if (!operator) throw new FormulaError(`Unexpected "${char}"`, index);
+    tokens.push({ type: 'operator', value: operator, position: index });
+    index += operator.length;
+  }
+
+  tokens.push({ type: 'end', position: source.length });
+  return tokens;
+}
+
+function toBinaryOperator(token: Token): FormulaBinaryOperator | null {
+  if (token.type === 'identifier') {
+    const keyword = token.value.toLowerCase();
+
+    return keyword === 'and' || keyword === 'or' ? keyword : null;
+  }
+
+  if (token.type !== 'operator') return null;
+
+  switch (token.value) {
+    case '&&':
+      return 'and';
+    case '||':
+      return 'or';
+    case '=':
+      return '==';
+    case '!':
+      return null;
+    default:
+      return token.value as FormulaBinaryOperator;
+  }
+}
+
+/**
+ * Parse a formula expression into an AST.
+ *
+ * Supports arithmetic (`+ - * / % ^`), comparisons, `and`/`or`/`not` (and their
+ * `&& || !` spellings), string and number literals, `true`/`false`, and function
+ * calls such as `prop("Name")` or `if(cond, a, b)`.
+ */
+export function parseFormula(source: string): FormulaNode {
+  const tokens = tokenizeFormula(source);
+  let cursor = 0;
+
+  const peek = () => tokens[cursor];
+  const next = () => tokens[cursor++];
+
+  const expectPunctuation = (value: '(' | ')' | ',') => {
+    const token = next();
+
+    if (token.type !== 'punctuation' || token.value !== value) {
+      throw new FormulaError(`Expected "${value}"`, token.position);
+    }
+  };
+
+  const parsePrefix = (): FormulaNode => {
+    const token = next();
+
+    switch (token.type) {
+      case 'number':
+        return { kind: 'number', value: token.value };
+      case 'string':
+        return { kind: 'string', value: token.value };
+      case 'operator':
+        if (token.value === '-' || token.value === '+') {
+          const operand = parseExpression(UNARY_PRECEDENCE);
+
+          return token.value === '-' ? { kind: 'unary', operator: '-', operand } : operand;
+        }
+
+        if (token.value === '!') {
+          return { kind: 'unary', operator: 'not', operand: parseExpression(UNARY_PRECEDENCE) };
+        }
+
+        throw new FormulaError(`Unexpected "${token.value}"`, token.position);
+      case 'punctuation': {
+        if (token.value !== '(') throw new FormulaError(`Unexpected "${token.value}"`, token.position);
+        const inner = parseExpression(0);
+
+        expectPunctuation(')');
+        return inner;
+      }
+
+      case 'identifier': {
+        const name = token.value.toLowerCase();
+
+        if (name === 'true' || name === 'false') {
+          return { kind: 'boolean', value: name === 'true' };
+        }
+
+        if (name === 'not') {
+          return { kind: 'unary', operator: 'not', operand: parseExpression(UNARY_PRECEDENCE) };
+        }
+
+        const following = peek();
+
+        if (following.type !== 'punctuation' || following.value !== '(') {
+          throw new FormulaError(`Unknown name "${token.value}"`, token.position);
+        }
+
+        next();
+        const args: FormulaNode[] = [];
+        const closing = peek();
+
+        if (closing.type === 'punctuation' && closing.value === ')') {
+          next();
+          return { kind: 'call', name, args };
+        }
+
+        for (;;) {
+          args.push(parseExpression(0));
+          const separator = next();
+
+          if (separator.type === 'punctuation' && separator.value === ')') break;
+          if (separator.type !== 'punctuation' || separator.value !== ',') {
+            throw new FormulaError('Expected "," or ")"', separator.position);
+          }
+        }
+
+        return { kind: 'call', name, args };
+      }
+
+      default:
+        throw new FormulaError('Unexpected end of formula', token.position);
+    }
+  };
+
+  const parseExpression = (minPrecedence: number): FormulaNode => {
+    let left = parsePrefix();
+
+    for (;;) {
+      const operator = toBinaryOperator(peek());
+
+      if (!operator) break;
+      const precedence = BINARY_PRECEDENCE[operator];
+
+      if (precedence <= minPrecedence) break;
+      next();
+      // `^` is right-associative; everything else associates to the left.
+      const right = parseExpression(operator === '^' ? precedence - 1 : precedence);
+
+      left = { kind: 'binary', operator, left, right };
+    }
+
+    return left;
+  };
+
+  if (!source.trim()) {
+    throw new FormulaError('Formula is empty');
+  }
+
+  const root = parseExpression(0);
+  const trailing = peek();
+
+  if (trailing.type !== 'end') {
+    throw new FormulaError('Unexpected input', trailing.position);
+  }
+
+  return root;
+}
+
+/** Names of the properties referenced through `prop("...")` calls, in source order. */
+export function collectFormulaPropertyNames(node: FormulaNode): string[] {
+  const names: string[] = [];
+
+  const visit = (current: FormulaNode) => {
+    switch (current.kind) {
+      case 'unary':
+        visit(current.operand);
+        break;
+      case 'binary':
+        visit(current.left);
+        visit(current.right);
+        break;
+      case 'call':
+        if (current.name === 'prop' && current.args[0]?.kind === 'string') {
+          names.push(current.args[0].value);
+        }
+
+        current.args.forEach(visit);
+        break;
+      default:
+        break;
+    }
+  };
+
+  visit(node);
+  return names;
+}
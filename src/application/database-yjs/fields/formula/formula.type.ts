@@ -0,0 +1,43 @@
+export enum FormulaResultType {
+  Text = 0,
+  Number = 1,
+  Checkbox = 2,
+  Date = 3,
+}
+
+export interface FormulaTypeOption {
+  expression: string;
+  result_type: FormulaResultType;
+}
+
+/** A value produced while evaluating a formula. Dates are carried as `Date` instances. */
+export type FormulaValue = string | number | boolean | Date | null;
+
+export type FormulaNode =
+  | { kind: 'number'; value: number }
+  | { kind: 'string'; value: string }
+  | { kind: 'boolean'; value: boolean }
+  | { kind: 'unary'; operator: '-' | 'not'; operand: FormulaNode }
+  | { kind: 'binary'; operator: FormulaBinaryOperator; left: FormulaNode; right: FormulaNode }
+  | { kind: 'call'; name: string; args: FormulaNode[] };
+
+export type FormulaBinaryOperator =
+  | '+'
+  | '-'
+  | '*'
+  | '/'
+  | '%'
+  | '^'
+  | '=='
+  | '!='
+  | '<'
+  | '<='
+  | '>'
+  | '>='
+  | 'and'
+  | 'or';
+
+export interface FormulaResult {
+  value: FormulaValue;
+  error?: string;
+}
@@ -0,0 +1,5 @@
+export * from './evaluate';
+export * from './expression';
+export * from './formula.type';
+export * from './parse';
+export * from './utils';
@@ -0,0 +1,15 @@
+import { YDatabaseField } from '@/application/types';
+
+import { getTypeOptions } from '../type_option';
+
+import { FormulaResultType, FormulaTypeOption } from './formula.type';
+
+export function parseFormulaTypeOption(field: YDatabaseField): FormulaTypeOption {
+  const typeOption = getTypeOptions(field)?.toJSON() as Partial<FormulaTypeOption> | undefined;
+  const resultType = Number(typeOption?.result_type);
+
+  return {
+    expression: typeof typeOption?.expression === 'string' ? typeOption.expression : '',
+    result_type: Object.values(FormulaResultType).includes(resultType) ? resultType : FormulaResultType.Text,
+  };
+}
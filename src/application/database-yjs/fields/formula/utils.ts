@@ -0,0 +1,232 @@
+import dayjs from 'dayjs';
+import * as Y from 'yjs';
+
+import { FieldType } from '@/application/database-yjs/database.type';
+import {
+  YDatabaseField,
+  YDatabaseFieldTypeOption,
+  YDatabaseFields,
+  YMapFieldTypeOption,
+  YjsDatabaseKey,
+} from '@/application/types';
+
+import { FormulaError, parseFormula } from './expression';
+import { FormulaNode, FormulaResultType } from './formula.type';
+import { parseFormulaTypeOption } from './parse';
+
+const NUMBER_FUNCTIONS = new Set([
+  'length',
+  'tonumber',
+  'abs',
+  'floor',
+  'ceil',
+  'sqrt',
+  'pow',
+  'round',
+  'min',
+  'max',
+  'sum',
+  'datebetween',
+  'timestamp',
+  'year',
+  'month',
+  'day',
+]);
+const TEXT_FUNCTIONS = new Set(['concat', 'join', 'lower', 'upper', 'trim', 'replace', 'format', 'formatdate']);
+const BOOLEAN_FUNCTIONS = new Set(['empty', 'not', 'contains']);
+const DATE_FUNCTIONS = new Set(['now', 'today', 'dateadd', 'datesubtract', 'fromtimestamp']);
+
+export function createFormulaField(fieldId: string) {
+  const field = new Y.Map() as YDatabaseField;
+  const typeOptionMap = new Y.Map() as YDatabaseFieldTypeOption;
+  const typeOption = new Y.Map() as YMapFieldTypeOption;
+  const timestamp = String(dayjs().unix());
+
+  field.set(YjsDatabaseKey.name, 'Formula');
+  field.set(YjsDatabaseKey.id, fieldId);
+  field.set(YjsDatabaseKey.type, FieldType.Formula);
+  field.set(YjsDatabaseKey.created_at, timestamp);
+  field.set(YjsDatabaseKey.last_modified, timestamp);
+  field.set(YjsDatabaseKey.is_primary, false);
+  field.set(YjsDatabaseKey.icon, '');
+
+  typeOption.set(YjsDatabaseKey.expression, '');
+  typeOption.set(YjsDatabaseKey.result_type, FormulaResultType.Text);
+
+  typeOptionMap.set(String(FieldType.Formula), typeOption);
+  field.set(YjsDatabaseKey.type_option, typeOptionMap);
+
+  return field;
+}
+
+/** The value kind `prop()` yields for a property of the given type. */
+export function getFormulaPropertyResultType(fieldType: FieldType, field?: YDatabaseField): FormulaResultType {
+  switch (fieldType) {
+    case FieldType.Number:
+    case FieldType.Time:
+      return FormulaResultType.Number;
+    case FieldType.Checkbox:
+      return FormulaResultType.Checkbox;
+    case FieldType.DateTime:
+    case FieldType.CreatedTime:
+    case FieldType.LastEditedTime:
+      return FormulaResultType.Date;
+    case FieldType.Formula:
+      return field ? getFormulaResultType(field) : FormulaResultType.Text;
+    default:
+      return FormulaResultType.Text;
+  }
+}
+
+/**
+ * Statically infer what kind of value an expression produces. Used to pick
+ * the filter, sort and calculation vocabulary for the field without having to
+ * evaluate every row.
+ */
+export function inferFormulaResultType(
+  node: FormulaNode,
+  getPropertyType: (name: string) => FormulaResultType | undefined
+): FormulaResultType {
+  switch (node.kind) {
+    case 'number':
+      return FormulaResultType.Number;
+    case 'string':
+      return FormulaResultType.Text;
+    case 'boolean':
+      return FormulaResultType.Checkbox;
+    case 'unary':
+      return node.operator === 'not' ? FormulaResultType.Checkbox : FormulaResultType.Number;
+    case 'binary': {
+      if (node.operator === '+') {
+        const left = inferFormulaResultType(node.left, getPropertyType);
+        const right = inferFormulaResultType(node.right, getPropertyType);
+
+        return left === FormulaResultType.Text || right === FormulaResultType.Text
+          ? FormulaResultType.Text
+          : FormulaResultType.Number;
+      }
+
+      return ['-', '*', '/', '%', '^'].includes(node.operator) ? FormulaResultType.Number : FormulaResultType.Checkbox;
+    }
+
+    case 'call': {
+      if (node.name === 'prop') {
+        const arg = node.args[0];
+
+        return (arg?.kind === 'string' ? getPropertyType(arg.value) : undefined) ?? FormulaResultType.Text;
+      }
+
+      if (node.name === 'if') {
+        const [, then, otherwise] = node.args;
+
+        if (!then) return FormulaResultType.Text;
+
+        const thenType = inferFormulaResultType(then, getPropertyType);
+
+        // Branches of different kinds can only be shown and compared as text.
+        if (otherwise && inferFormulaResultType(otherwise, getPropertyType) !== thenType) {
+          return FormulaResultType.Text;
+        }
+
+        return thenType;
+      }
+
+      if (NUMBER_FUNCTIONS.has(node.name)) return FormulaResultType.Number;
+      if (BOOLEAN_FUNCTIONS.has(node.name)) return FormulaResultType.Checkbox;
+      if (DATE_FUNCTIONS.has(node.name)) return FormulaResultType.Date;
+      if (TEXT_FUNCTIONS.has(node.name)) return FormulaResultType.Text;
+      return FormulaResultType.Text;
+    }
+  }
+}
+
+/** Find a property by name, preferring an exact match over a case-insensitive one. */
+export function findFieldByName(fields: YDatabaseFields, name: string): YDatabaseField | undefined {
+  let caseInsensitiveMatch: YDatabaseField | undefined;
+  const normalized = name.trim().toLowerCase();
+
+  for (const field of fields.values()) {
+    const fieldName = String(field.get(YjsDatabaseKey.name) ?? '');
+
+    if (fieldName === name) return field;
+    if (!caseInsensitiveMatch && fieldName.trim().toLowerCase() === normalized) {
+      caseInsensitiveMatch = field;
+    }
+  }
+
+  return caseInsensitiveMatch;
+}
+
+/** Infer the result type of an expression against the current schema. */
+export function resolveFormulaResultType(expression: string, fields: YDatabaseFields): FormulaResultType {
+  if (!expression.trim()) return FormulaResultType.Text;
+
+  try {
+    return inferFormulaResultType(parseFormula(expression), (name) => {
+      const field = findFieldByName(fields, name);
+
+      if (!field) return undefined;
+      return getFormulaPropertyResultType(Number(field.get(YjsDatabaseKey.type)) as FieldType, field);
+    });
+  } catch (error) {
+    if (error instanceof FormulaError) return FormulaResultType.Text;
+    throw error;
+  }
+}
+
+/**
+ * Re-infer the stored result type of every formula. The type depends on the
+ * names and types of the properties an expression references, so it has to be
+ * refreshed whenever a property is renamed, retyped or removed. Formulas can
+ * reference each other, so this repeats until nothing changes.
+ */
+export function refreshFormulaResultTypes(fields: YDatabaseFields) {
+  for (let pass = 0; pass < fields.size; pass++) {
+    let changed = false;
+
+    fields.forEach((field) => {
+      if (Number(field.get(YjsDatabaseKey.type)) !== FieldType.Formula) return;
+
+      const typeOption = field.get(YjsDatabaseKey.type_option)?.get(String(FieldType.Formula));
+
+      if (!typeOption) return;
+
+      const { expression, result_type } = parseFormulaTypeOption(field);
+      const resultType = resolveFormulaResultType(expression, fields);
+
+      if (resultType !== result_type) {
+        typeOption.set(YjsDatabaseKey.result_type, resultType);
+        changed = true;
+      }
+    });
+
+    if (!changed) return;
+  }
+}
+
+export function getFormulaResultType(field?: YDatabaseField): FormulaResultType {
+  if (!field || Number(field.get(YjsDatabaseKey.type)) !== FieldType.Formula) return FormulaResultType.Text;
+
+  return parseFormulaTypeOption(field).result_type;
+}
+
+export function isNumericFormulaField(field?: YDatabaseField) {
+  return getFormulaResultType(field) === FormulaResultType.Number;
+}
+
+/**
+ * The field type whose filter conditions apply to a formula, so formulas reuse
+ * the Text/Number/Checkbox/Date filter vocabulary instead of defining their own.
+ */
+export function getFormulaFilterFieldType(field?: YDatabaseField): FieldType {
+  switch (getFormulaResultType(field)) {
+    case FormulaResultType.Number:
+      return FieldType.Number;
+    case FormulaResultType.Checkbox:
+      return FieldType.Checkbox;
+    case FormulaResultType.Date:
+      return FieldType.DateTime;
+    default:
+      return FieldType.RichText;
+  }
+}
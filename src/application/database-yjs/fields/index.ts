@@ -9,7 +9,9 @@ export * from './checkbox';
 export * from './checklist';
 export * from './relation';
 export * from './rollup';
+export * from './formula';
 export * from './person';
+export * from './unique-id';
 
 export function getFieldName (fieldType: FieldType) {
   switch (fieldType) {
@@ -51,6 +53,10 @@ export function getFieldName (fieldType: FieldType) {
       return 'Time';
     case FieldType.Rollup:
       return 'Rollup';
+    case FieldType.Formula:
+      return 'Formula';
+    case FieldType.UniqueId:
+      return 'ID';
     default:
       return 'Text';
   }
@@ -0,0 +1,3 @@
+export * from './parse';
+export * from './unique-id.type';
+export * from './utils';
@@ -0,0 +1,30 @@
+import { FieldType } from '@/application/database-yjs/database.type';
+import { YDatabaseField } from '@/application/types';
+
+import { getTypeOptions } from '../type_option';
+
+import { UniqueIdTypeOption } from './unique-id.type';
+
+export const DEFAULT_UNIQUE_ID_START = 1;
+
+/** The stored number of a unique ID cell, or null when it holds none. */
+export function parseUniqueIdValue(data: unknown): number | null {
+  if (typeof data !== 'string' && typeof data !== 'number') return null;
+  if (typeof data === 'string' && data.trim() === '') return null;
+  const value = Number(data);
+
+  return Number.isSafeInteger(value) && value > 0 ? value : null;
+}
+
+/**
+ * Always read by the unique ID type so cells converted to another type keep
+ * their prefix when stringified.
+ */
+export function parseUniqueIdTypeOption(field?: YDatabaseField): UniqueIdTypeOption {
+  const typeOption = getTypeOptions(field, FieldType.UniqueId)?.toJSON() as Partial<UniqueIdTypeOption> | undefined;
+
+  return {
+    prefix: typeof typeOption?.prefix === 'string' ? typeOption.prefix.trim() : '',
+    next_id: parseUniqueIdValue(typeOption?.next_id) ?? DEFAULT_UNIQUE_ID_START,
+  };
+}
@@ -0,0 +1,6 @@
+export interface UniqueIdTypeOption {
+  /** Text shown before the number, e.g. `BUG` for `BUG-142`. Empty shows the bare number. */
+  prefix: string;
+  /** The number the next created row receives. */
+  next_id: number;
+}
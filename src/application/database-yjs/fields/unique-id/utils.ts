@@ -0,0 +1,142 @@
+import dayjs from 'dayjs';
+import * as Y from 'yjs';
+
+import { FieldType } from '@/application/database-yjs/database.type';
+import {
+  YDatabaseCell,
+  YDatabaseField,
+  YDatabaseFields,
+  YDatabaseFieldTypeOption,
+  YDatabaseRow,
+  YMapFieldTypeOption,
+  YjsDatabaseKey,
+} from '@/application/types';
+
+import { parseUniqueIdTypeOption, parseUniqueIdValue } from './parse';
+
+/** `BUG-142` with a prefix, `142` without one. */
+export function formatUniqueId(prefix: string, value: number) {
+  return prefix ? `${prefix}-${value}` : String(value);
+}
+
+/**
+ * Display text of a unique ID cell. Cells store only the number so renaming
+ * the prefix relabels every row at once.
+ */
+export function getUniqueIdText(data: unknown, field?: YDatabaseField) {
+  const value = parseUniqueIdValue(data);
+
+  if (value === null) return '';
+  return formatUniqueId(parseUniqueIdTypeOption(field).prefix, value);
+}
+
+export function createUniqueIdCell(fieldId: string, value: number) {
+  const cell = new Y.Map() as YDatabaseCell;
+  const timestamp = String(dayjs().unix());
+
+  cell.set(YjsDatabaseKey.id, fieldId);
+  cell.set(YjsDatabaseKey.data, String(value));
+  cell.set(YjsDatabaseKey.field_type, FieldType.UniqueId);
+  cell.set(YjsDatabaseKey.created_at, timestamp);
+  cell.set(YjsDatabaseKey.last_modified, timestamp);
+
+  return cell;
+}
+
+/** The unique ID type option of a field, created on first use. */
+export function ensureUniqueIdTypeOption(field: YDatabaseField) {
+  let typeOptionMap = field.get(YjsDatabaseKey.type_option);
+
+  if (!typeOptionMap) {
+    typeOptionMap = new Y.Map() as YDatabaseFieldTypeOption;
+    field.set(YjsDatabaseKey.type_option, typeOptionMap);
+  }
+
+  let typeOption = typeOptionMap.get(String(FieldType.UniqueId));
+
+  if (!typeOption) {
+    typeOption = new Y.Map() as YMapFieldTypeOption;
+    typeOptionMap.set(String(FieldType.UniqueId), typeOption);
+  }
+
+  return typeOption;
+}
+
+/**
+ * Reserve the next number of a unique ID field and advance its counter.
+ * Numbers are never handed out twice by the same replica, so deleting a row
+ * leaves a gap rather than freeing its ID. `highestKnown` is the highest
+ * number seen on any row, which may be ahead of a counter that was advanced
+ * concurrently by another client.
+ */
+export function takeNextUniqueId(field: YDatabaseField, highestKnown = 0) {
+  const value = Math.max(parseUniqueIdTypeOption(field).next_id, highestKnown + 1);
+
+  ensureUniqueIdTypeOption(field).set(YjsDatabaseKey.next_id, value + 1);
+  return value;
+}
+
+/** The first unique ID field of a database, used to label rows it is referenced from. */
+export function findUniqueIdField(fields?: YDatabaseFields): YDatabaseField | undefined {
+  if (!fields) return undefined;
+
+  return Array.from(fields.values()).find((field) => Number(field.get(YjsDatabaseKey.type)) === FieldType.UniqueId);
+}
+
+/** The formatted unique ID of a row, or '' when it has none. */
+export function getRowUniqueIdText(row: YDatabaseRow | undefined, field: YDatabaseField) {
+  const cell = row?.get(YjsDatabaseKey.cells)?.get(field.get(YjsDatabaseKey.id));
+
+  return cell ? getUniqueIdText(cell.get(YjsDatabaseKey.data), field) : '';
+}
+
+function getUniqueIdValue(row: YDatabaseRow | undefined, fieldId: string) {
+  return parseUniqueIdValue(row?.get(YjsDatabaseKey.cells)?.get(fieldId)?.get(YjsDatabaseKey.data));
+}
+
+/** The highest number of a unique ID field held by any of `rows`, 0 when none. */
+export function getHighestUniqueId(rows: (YDatabaseRow | undefined)[], fieldId: string) {
+  return rows.reduce((highest, row) => Math.max(highest, getUniqueIdValue(row, fieldId) ?? 0), 0);
+}
+
+/** A row that has to give up a number it shares with an older row. */
+export interface UniqueIdRenumbering {
+  rowId: string;
+  row: YDatabaseRow;
+  value: number;
+}
+
+/**
+ * Decide how to resolve numbers of a unique ID field held by more than one
+ * row. The oldest row (by `created_at`, then row id) keeps the number and the
+ * others get new numbers after the highest in use, in the same order, so every
+ * client resolving the same rows writes the same numbers.
+ */
+export function planUniqueIdRenumbering(
+  rows: { rowId: string; row: YDatabaseRow }[],
+  fieldId: string
+): UniqueIdRenumbering[] {
+  const holders = new Map<number, { rowId: string; row: YDatabaseRow }[]>();
+
+  rows.forEach((entry) => {
+    const value = getUniqueIdValue(entry.row, fieldId);
+
+    if (value !== null) holders.set(value, [...(holders.get(value) ?? []), entry]);
+  });
+
+  const createdAt = (row: YDatabaseRow) => Number(row.get(YjsDatabaseKey.created_at)) || 0;
+  const losers = Array.from(holders)
+    .filter(([, entries]) => entries.length > 1)
+    .sort(([left], [right]) => left - right)
+    .flatMap(([, entries]) =>
+      entries
+        .sort((a, b) => createdAt(a.row) - createdAt(b.row) || (a.rowId < b.rowId ? -1 : a.rowId > b.rowId ? 1 : 0))
+        .slice(1)
+    );
+  const highest = getHighestUniqueId(
+    rows.map(({ row }) => row),
+    fieldId
+  );
+
+  return losers.map((entry, index) => ({ ...entry, value: highest + index + 1 }));
+}
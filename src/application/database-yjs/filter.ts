@@ -1,15 +1,16 @@
 import dayjs from 'dayjs';
 import { every, filter, some } from 'lodash-es';
 
-import { DateTimeCell } from '@/application/database-yjs/cell.type';
+import { DateTimeCell, FormulaCell } from '@/application/database-yjs/cell.type';
 import {
   getConditionCellData,
   getConditionRelationRowIds,
   getConditionCellText,
   getConditionDateCell,
+  getConditionFormulaCell,
   getRowConditionSnapshot,
 } from '@/application/database-yjs/condition-value-cache';
-import { FieldType, FilterType } from '@/application/database-yjs/database.type';
+import { FieldType, FilterGroupNode, FilterType } from '@/application/database-yjs/database.type';
 import {
   CheckboxFilter,
   CheckboxFilterCondition,
@@ -17,14 +18,19 @@ import {
   ChecklistFilterCondition,
   DateFilter,
   DateFilterCondition,
+  getFormulaFilterFieldType,
   isRelativeDateCondition,
+  isRelativeDateOffsetCondition,
+  isStartDateCondition,
   NumberFilter,
   NumberFilterCondition,
   parseChecklistFlexible,
+  parseRelativeDateOffset,
   parseSelectOptionTypeOptions,
   PersonFilterCondition,
   RelationFilterCondition,
-  resolveRelativeDates,
+  RelativeDateContext,
+  resolveRelativeDateWindow,
   SelectOptionFilter,
   SelectOptionFilterCondition,
   TextFilter,
@@ -89,12 +95,17 @@ export function parseFilter(fieldType: FieldType, filter: YDatabaseFilter) {
         condition === DateFilterCondition.DateStartIsEmpty ||
         condition === DateFilterCondition.DateStartIsNotEmpty ||
         condition === DateFilterCondition.DateEndIsEmpty ||
-        condition === DateFilterCondition.DateEndIsNotEmpty ||
-        isRelativeDateCondition(condition)
+        condition === DateFilterCondition.DateEndIsNotEmpty
       ) {
         return value as DateFilter;
       }
 
+      if (isRelativeDateCondition(condition)) {
+        return isRelativeDateOffsetCondition(condition)
+          ? ({ ...value, offset: parseRelativeDateOffset(content) } as DateFilter)
+          : (value as DateFilter);
+      }
+
       try {
         const data = JSON.parse(content) as DateFilter;
 
@@ -209,8 +220,20 @@ function hasListFilterContent(content: unknown) {
     .some(Boolean);
 }
 
+/**
+ * The field type whose filter conditions apply to a field. Formula fields borrow
+ * the vocabulary of the value kind their expression produces, and unique IDs
+ * are matched as the text they display (`BUG-142`).
+ */
+export function getFilterFieldType(field: YDatabaseField): FieldType {
+  const fieldType = Number(field.get(YjsDatabaseKey.type)) as FieldType;
+
+  if (fieldType === FieldType.UniqueId) return FieldType.RichText;
+  return fieldType === FieldType.Formula ? getFormulaFilterFieldType(field) : fieldType;
+}
+
 function isDataFilterEffective(filter: YDatabaseFilter, field: YDatabaseField) {
-  const fieldType = Number(field.get(YjsDatabaseKey.type));
+  const fieldType = getFilterFieldType(field);
   const condition = Number(filter.get(YjsDatabaseKey.condition));
   const content = filter.get(YjsDatabaseKey.content);
 
@@ -533,10 +556,20 @@ function collectFiltersRecursive(
     return;
   }
 
-  // Data filter - extract as draft
+  const draft = readFilterDraft(node, inheritedOperator, fields);
+
+  if (draft) result.push(draft);
+}
+
+/** Read a Data filter node into a draft. Returns null for nodes without a field. */
+function readFilterDraft(
+  node: YDatabaseFilter,
+  operator: FilterType.And | FilterType.Or | null,
+  fields: YDatabaseFields
+): FilterDraft | null {
   const fieldId = node.get(YjsDatabaseKey.field_id);
 
-  if (!fieldId) return;
+  if (!fieldId) return null;
 
   const field = fields.get(fieldId);
   let fieldTypeNum: number;
@@ -560,15 +593,15 @@ function collectFiltersRecursive(
         : resolveRollupFilterTargetFieldType(FieldType.Rollup, field);
   }
 
-  result.push({
+  return {
     id: String(node.get(YjsDatabaseKey.id) ?? ''),
     fieldId,
     fieldType: fieldTypeNum,
     rollupTargetFieldType,
     condition: Number(node.get(YjsDatabaseKey.condition)),
     content: String(node.get(YjsDatabaseKey.content) ?? ''),
-    operator: inheritedOperator,
-  });
+    operator,
+  };
 }
 
 /**
@@ -606,12 +639,126 @@ export function groupByConsecutiveOperator(
   return groups;
 }
 
-type FilterOptions = {
+// ============================================================================
+// Nested filter groups
+// ============================================================================
+
+export type FilterGroupDraft = FilterGroupNode<FilterDraft>;
+
+export function isFilterGroupNode<T>(node: T | FilterGroupNode<T>): node is FilterGroupNode<T> {
+  return Array.isArray((node as Partial<FilterGroupNode<T>>).children);
+}
+
+function readFilterTreeNode(
+  filterNode: YDatabaseFilter,
+  fallbackId: string,
+  fields: YDatabaseFields
+): FilterDraft | FilterGroupDraft | null {
+  const node = normalizeFilterNode(filterNode);
+
+  if (!node) return null;
+
+  const filterType = Number(node.get(YjsDatabaseKey.filter_type));
+
+  if (filterType !== FilterType.And && filterType !== FilterType.Or) {
+    return readFilterDraft(node, null, fields);
+  }
+
+  const id = String(node.get(YjsDatabaseKey.id) ?? '') || fallbackId;
+
+  return {
+    id,
+    filterType,
+    children: getFilterChildren(node)
+      .map((child, index) => readFilterTreeNode(child, `${id}-${index}`, fields))
+      .filter((child): child is FilterDraft | FilterGroupDraft => child !== null),
+  };
+}
+
+/**
+ * Read the advanced filter tree with its nesting intact, unlike flattenFilterTree().
+ * Groups synced without an id get one derived from their position so edits can
+ * target them. Top-level siblings are ANDed with the root, as filterBy() does.
+ */
+export function readFilterTree(
+  filtersArray: YDatabaseFilters | undefined,
+  fields: YDatabaseFields
+): FilterGroupDraft | null {
+  if (!filtersArray || filtersArray.length === 0 || !hasAdvancedFilterRoot(filtersArray)) return null;
+
+  const root = readFilterTreeNode(filtersArray.get(0), 'root', fields);
+
+  if (!root || !isFilterGroupNode(root)) return null;
+
+  const siblings: (FilterDraft | FilterGroupDraft)[] = [];
+
+  for (let i = 1; i < filtersArray.length; i++) {
+    const sibling = readFilterTreeNode(filtersArray.get(i), `root-${i}`, fields);
+
+    if (sibling) siblings.push(sibling);
+  }
+
+  if (siblings.length === 0) return root;
+
+  if (root.filterType === FilterType.And) {
+    return { ...root, children: [...root.children, ...siblings] };
+  }
+
+  return { id: `${root.id}-and`, filterType: FilterType.And, children: [root, ...siblings] };
+}
+
+/** Map every filter of a tree, keeping the groups. `index` is the filter's position in its group. */
+export function mapFilterTreeLeaves<T, U>(
+  group: FilterGroupNode<T>,
+  map: (leaf: T, group: FilterGroupNode<T>, index: number) => U
+): FilterGroupNode<U> {
+  return {
+    id: group.id,
+    filterType: group.filterType,
+    children: group.children.map((child, index) =>
+      isFilterGroupNode(child) ? mapFilterTreeLeaves(child, map) : map(child, group, index)
+    ),
+  };
+}
+
+/** Replace the group with `groupId`, wherever it is nested. */
+export function updateFilterTreeGroup<T>(
+  group: FilterGroupNode<T>,
+  groupId: string,
+  update: (group: FilterGroupNode<T>) => FilterGroupNode<T>
+): FilterGroupNode<T> {
+  if (group.id === groupId) return update(group);
+
+  return {
+    ...group,
+    children: group.children.map((child) =>
+      isFilterGroupNode(child) ? updateFilterTreeGroup(child, groupId, update) : child
+    ),
+  };
+}
+
+/**
+ * Remove a filter or a whole group. Groups left without children are removed
+ * too; returns null once the root group is empty.
+ */
+export function removeFilterTreeNode<T extends { id: string }>(
+  group: FilterGroupNode<T>,
+  nodeId: string
+): FilterGroupNode<T> | null {
+  const children = group.children
+    .filter((child) => child.id !== nodeId)
+    .map((child) => (isFilterGroupNode(child) ? removeFilterTreeNode(child, nodeId) : child))
+    .filter((child): child is T | FilterGroupNode<T> => child !== null);
+
+  return children.length > 0 ? { ...group, children } : null;
+}
+
+export type FilterOptions = {
   getRelationCellText?: (rowId: string, fieldId: string) => string;
   getRollupCellText?: (rowId: string, fieldId: string) => string;
   /** Full rollup result including the raw numeric, for desktop-parity numeric comparison. */
   getRollupCellValue?: (rowId: string, fieldId: string) => { value: string; rawNumeric?: number };
-};
+} & RelativeDateContext;
 
 type SelectOptionFilterContext = {
   content: string;
@@ -753,184 +900,198 @@ function personFilterCheckWithIds(data: string, filterIds: string[] | null, cond
   return personFilterCheckWithParsedIds(userIds, filterIds, condition);
 }
 
-export function filterBy(
-  rows: Row[],
-  filters: YDatabaseFilters,
+/**
+ * Compile one filter node (a data filter or an And/Or group) into a row
+ * predicate. Returns null when the node has no effect, e.g. an empty group or
+ * a filter on a deleted field.
+ */
+export function compileFilterPredicate(
+  filterNode: YDatabaseFilter,
   fields: YDatabaseFields,
   rowMetas: Record<RowId, YDoc>,
   options?: FilterOptions
-) {
-  const filterArray = filters.toArray();
+): ((row: Row) => boolean) | null {
+  if (!filterNode || typeof filterNode !== 'object') {
+    return null;
+  }
 
-  if (filterArray.length === 0 || Object.keys(rowMetas).length === 0 || fields.size === 0) return rows;
+  // Wrap plain objects that lack .get() (e.g. from desktop sync)
+  const node =
+    typeof filterNode.get === 'function'
+      ? filterNode
+      : wrapPlainObjectAsFilter(filterNode as unknown as Record<string, unknown>);
 
-  const compileFilterPredicate = (filterNode: YDatabaseFilter): ((row: Row) => boolean) | null => {
-    if (!filterNode || typeof filterNode !== 'object') {
-      return null;
-    }
+  const filterType = Number(node.get(YjsDatabaseKey.filter_type));
 
-    // Wrap plain objects that lack .get() (e.g. from desktop sync)
-    const node =
-      typeof filterNode.get === 'function'
-        ? filterNode
-        : wrapPlainObjectAsFilter(filterNode as unknown as Record<string, unknown>);
+  if (filterType === FilterType.And || filterType === FilterType.Or) {
+    const childPredicates = getFilterChildren(node)
+      .map((child) => compileFilterPredicate(child, fields, rowMetas, options))
+      .filter((predicate): predicate is (row: Row) => boolean => predicate !== null);
 
-    const filterType = Number(node.get(YjsDatabaseKey.filter_type));
+    if (childPredicates.length === 0) return null;
 
-    if (filterType === FilterType.And || filterType === FilterType.Or) {
-      const childPredicates = getFilterChildren(node)
-        .map(compileFilterPredicate)
-        .filter((predicate): predicate is (row: Row) => boolean => predicate !== null);
+    if (filterType === FilterType.And) {
+      return (row: Row) => every(childPredicates, (predicate) => predicate(row));
+    }
 
-      if (childPredicates.length === 0) return null;
+    return (row: Row) => some(childPredicates, (predicate) => predicate(row));
+  }
 
-      if (filterType === FilterType.And) {
-        return (row: Row) => every(childPredicates, (predicate) => predicate(row));
-      }
+  const fieldId = node.get(YjsDatabaseKey.field_id);
+  const field = fields.get(fieldId);
 
-      return (row: Row) => some(childPredicates, (predicate) => predicate(row));
-    }
+  if (!field || !isDataFilterEffective(node, field)) return null;
 
-    const fieldId = node.get(YjsDatabaseKey.field_id);
-    const field = fields.get(fieldId);
-
-    if (!field || !isDataFilterEffective(node, field)) return null;
-
-    const fieldType = Number(field.get(YjsDatabaseKey.type));
-    const filterValue = parseFilter(fieldType, node);
-    const condition = Number(filterValue.condition);
-    const rawContent = filterValue.content;
-    const content = typeof rawContent === 'string' ? rawContent : '';
-    const relationRowIds = fieldType === FieldType.Relation ? parseRelationFilterIds(content) : undefined;
-    const selectOptionContext =
-      fieldType === FieldType.SingleSelect || fieldType === FieldType.MultiSelect
-        ? createSelectOptionFilterContext(field, content)
-        : undefined;
-    const personFilterIds = [FieldType.Person, FieldType.CreatedBy, FieldType.LastEditedBy].includes(fieldType)
-      ? parseJsonStringArray(content)
+  const fieldType = Number(field.get(YjsDatabaseKey.type));
+  const filterValue = parseFilter(getFilterFieldType(field), node);
+  const condition = Number(filterValue.condition);
+  const rawContent = filterValue.content;
+  const content = typeof rawContent === 'string' ? rawContent : '';
+  const relationRowIds = fieldType === FieldType.Relation ? parseRelationFilterIds(content) : undefined;
+  const selectOptionContext =
+    fieldType === FieldType.SingleSelect || fieldType === FieldType.MultiSelect
+      ? createSelectOptionFilterContext(field, content)
       : undefined;
+  const personFilterIds = [FieldType.Person, FieldType.CreatedBy, FieldType.LastEditedBy].includes(fieldType)
+    ? parseJsonStringArray(content)
+    : undefined;
 
-    return (row: Row): boolean => {
-      const rowId = row.id;
-      const rowMeta = rowMetas[rowId];
+  return (row: Row): boolean => {
+    const rowId = row.id;
+    const rowMeta = rowMetas[rowId];
 
-      if (!rowMeta) return false;
+    if (!rowMeta) return false;
 
-      const snapshot = getRowConditionSnapshot(rowMeta);
+    const snapshot = getRowConditionSnapshot(rowMeta);
 
-      if (!snapshot) return false;
+    if (!snapshot) return false;
 
-      const cellData = getConditionCellData(snapshot, fieldId, field);
+    if (fieldType === FieldType.Formula) {
+      return formulaFilterCheck(getConditionFormulaCell(snapshot, field, fields), field, filterValue, options);
+    }
 
-      if (fieldType === FieldType.Relation) {
-        const relationCellData = getConditionRelationRowIds(snapshot, fieldId);
+    const cellData = getConditionCellData(snapshot, fieldId, field);
 
-        if (relationRowIds !== null && relationRowIds !== undefined) {
-          return relationFilterCheck(relationCellData, relationRowIds, condition);
-        }
+    if (fieldType === FieldType.Relation) {
+      const relationCellData = getConditionRelationRowIds(snapshot, fieldId);
 
-        // Empty content on the new relation conditions (IsEmpty / IsNotEmpty /
-        // Contains / DoesNotContain) means "evaluate by relation row IDs";
-        // route to relationFilterCheck so it inspects cellRowIds. Falling
-        // through to textFilterCheck would either hide every row (DoesNotContain)
-        // or treat rows with relation IDs but blank/deleted titles as empty.
-        if (
-          !content.trim() &&
-          (condition === RelationFilterCondition.RelationIsEmpty ||
-            condition === RelationFilterCondition.RelationIsNotEmpty ||
-            condition === RelationFilterCondition.RelationContains ||
-            condition === RelationFilterCondition.RelationDoesNotContain)
-        ) {
-          return relationFilterCheck(relationCellData, [], condition);
-        }
-
-        const cellText = options?.getRelationCellText?.(rowId, fieldId) ?? '';
+      if (relationRowIds !== null && relationRowIds !== undefined) {
+        return relationFilterCheck(relationCellData, relationRowIds, condition);
+      }
 
-        return textFilterCheck(cellText, content, condition);
+      // Empty content on the new relation conditions (IsEmpty / IsNotEmpty /
+      // Contains / DoesNotContain) means "evaluate by relation row IDs";
+      // route to relationFilterCheck so it inspects cellRowIds. Falling
+      // through to textFilterCheck would either hide every row (DoesNotContain)
+      // or treat rows with relation IDs but blank/deleted titles as empty.
+      if (
+        !content.trim() &&
+        (condition === RelationFilterCondition.RelationIsEmpty ||
+          condition === RelationFilterCondition.RelationIsNotEmpty ||
+          condition === RelationFilterCondition.RelationContains ||
+          condition === RelationFilterCondition.RelationDoesNotContain)
+      ) {
+        return relationFilterCheck(relationCellData, [], condition);
       }
 
-      switch (fieldType) {
-        case FieldType.URL:
-        case FieldType.RichText:
-          return textFilterCheck(getConditionCellText(snapshot, fieldId, field), content, condition);
-        case FieldType.Rollup: {
-          if (isNumericRollupField(field)) {
-            // Desktop parity: numeric rollups compare the raw calculated
-            // number. The formatted display can be currency/percent text
-            // ("$10.00", "50.0%") that would fail or skew string parsing.
-            const rollupValue = options?.getRollupCellValue?.(rowId, fieldId);
-
-            if (rollupValue) {
-              const numericData =
-                rollupValue.rawNumeric !== undefined && Number.isFinite(rollupValue.rawNumeric)
-                  ? String(rollupValue.rawNumeric)
-                  : '';
-
-              return numberFilterCheck(numericData, content, condition);
-            }
-
-            // Legacy callers that only supply the text getter keep the old
-            // formatted-string comparison.
-            return numberFilterCheck(options?.getRollupCellText?.(rowId, fieldId) ?? '', content, condition);
-          }
+      const cellText = options?.getRelationCellText?.(rowId, fieldId) ?? '';
 
-          const cellText = options?.getRollupCellText?.(rowId, fieldId) ?? '';
+      return textFilterCheck(cellText, content, condition);
+    }
 
-          return textFilterCheck(cellText, content, condition);
-        }
+    switch (fieldType) {
+      case FieldType.URL:
+      case FieldType.RichText:
+      case FieldType.UniqueId:
+        return textFilterCheck(getConditionCellText(snapshot, fieldId, field), content, condition);
+      case FieldType.Rollup: {
+        if (isNumericRollupField(field)) {
+          // Desktop parity: numeric rollups compare the raw calculated
+          // number. The formatted display can be currency/percent text
+          // ("$10.00", "50.0%") that would fail or skew string parsing.
+          const rollupValue = options?.getRollupCellValue?.(rowId, fieldId);
+
+          if (rollupValue) {
+            const numericData =
+              rollupValue.rawNumeric !== undefined && Number.isFinite(rollupValue.rawNumeric)
+                ? String(rollupValue.rawNumeric)
+                : '';
+
+            return numberFilterCheck(numericData, content, condition);
+          }
 
-        case FieldType.Time:
-        case FieldType.Number:
-          return numberFilterCheck(getConditionCellText(snapshot, fieldId, field), content, condition);
-        case FieldType.Checkbox:
-          return checkboxFilterCheck(cellData, condition);
-        case FieldType.SingleSelect:
-        case FieldType.MultiSelect:
-          return selectOptionContext
-            ? selectOptionFilterCheckWithContext(cellData, condition, selectOptionContext)
-            : selectOptionFilterCheck(field, cellData, content, condition);
-        case FieldType.Checklist:
-          return checklistFilterCheck(cellData as string, content, condition);
-        case FieldType.DateTime:
-          return dateFilterCheck(getConditionDateCell(snapshot, fieldId, field), filterValue as DateFilter);
-        case FieldType.CreatedTime: {
-          const data = snapshot.row.get(YjsDatabaseKey.created_at);
-
-          return rowTimeFilterCheck(data, filterValue as DateFilter);
+          // Legacy callers that only supply the text getter keep the old
+          // formatted-string comparison.
+          return numberFilterCheck(options?.getRollupCellText?.(rowId, fieldId) ?? '', content, condition);
         }
 
-        case FieldType.LastEditedTime: {
-          const data = snapshot.row.get(YjsDatabaseKey.last_modified);
+        const cellText = options?.getRollupCellText?.(rowId, fieldId) ?? '';
 
-          return rowTimeFilterCheck(data, filterValue as DateFilter);
-        }
+        return textFilterCheck(cellText, content, condition);
+      }
 
-        case FieldType.Person: {
-          return personFilterCheckWithIds(
-            typeof cellData === 'string' ? cellData : '',
-            personFilterIds ?? null,
-            condition
-          );
-        }
+      case FieldType.Time:
+      case FieldType.Number:
+        return numberFilterCheck(getConditionCellText(snapshot, fieldId, field), content, condition);
+      case FieldType.Checkbox:
+        return checkboxFilterCheck(cellData, condition);
+      case FieldType.SingleSelect:
+      case FieldType.MultiSelect:
+        return selectOptionContext
+          ? selectOptionFilterCheckWithContext(cellData, condition, selectOptionContext)
+          : selectOptionFilterCheck(field, cellData, content, condition);
+      case FieldType.Checklist:
+        return checklistFilterCheck(cellData as string, content, condition);
+      case FieldType.DateTime:
+        return dateFilterCheck(getConditionDateCell(snapshot, fieldId, field), filterValue as DateFilter, options);
+      case FieldType.CreatedTime: {
+        const data = snapshot.row.get(YjsDatabaseKey.created_at);
+
+        return rowTimeFilterCheck(data, filterValue as DateFilter, options);
+      }
 
-        case FieldType.CreatedBy:
-        case FieldType.LastEditedBy: {
-          const attribute =
-            fieldType === FieldType.CreatedBy ? YjsDatabaseKey.created_by : YjsDatabaseKey.last_edited_by;
-          const uid = canonicalizeUserUid(snapshot.row.get(attribute));
-          const userIds = uid === null ? [] : [uid];
+      case FieldType.LastEditedTime: {
+        const data = snapshot.row.get(YjsDatabaseKey.last_modified);
 
-          return personFilterCheckWithParsedIds(userIds, personFilterIds ?? [], condition);
-        }
+        return rowTimeFilterCheck(data, filterValue as DateFilter, options);
+      }
 
-        default:
-          return true;
+      case FieldType.Person: {
+        return personFilterCheckWithIds(
+          typeof cellData === 'string' ? cellData : '',
+          personFilterIds ?? null,
+          condition
+        );
       }
-    };
+
+      case FieldType.CreatedBy:
+      case FieldType.LastEditedBy: {
+        const attribute = fieldType === FieldType.CreatedBy ? YjsDatabaseKey.created_by : YjsDatabaseKey.last_edited_by;
+        const uid = canonicalizeUserUid(snapshot.row.get(attribute));
+        const userIds = uid === null ? [] : [uid];
+
+        return personFilterCheckWithParsedIds(userIds, personFilterIds ?? [], condition);
+      }
+
+      default:
+        return true;
+    }
   };
+}
+
+export function filterBy(
+  rows: Row[],
+  filters: YDatabaseFilters,
+  fields: YDatabaseFields,
+  rowMetas: Record<RowId, YDoc>,
+  options?: FilterOptions
+) {
+  const filterArray = filters.toArray();
+
+  if (filterArray.length === 0 || Object.keys(rowMetas).length === 0 || fields.size === 0) return rows;
 
   const conditions = filterArray
-    .map(compileFilterPredicate)
+    .map((filterNode) => compileFilterPredicate(filterNode, fields, rowMetas, options))
     .filter((predicate): predicate is (row: Row) => boolean => predicate !== null);
 
   if (conditions.length === 0) return rows;
@@ -940,6 +1101,36 @@ export function filterBy(
   return filter(rows, predicate);
 }
 
+function formulaFilterCheck(
+  cell: FormulaCell,
+  field: YDatabaseField,
+  filterValue: ReturnType<typeof parseFilter>,
+  context?: RelativeDateContext
+): boolean {
+  const { value, error } = cell;
+  const content = typeof filterValue.content === 'string' ? filterValue.content : '';
+  const condition = Number(filterValue.condition);
+  const hasValue = !error && value !== null;
+
+  switch (getFormulaFilterFieldType(field)) {
+    case FieldType.Number:
+      return numberFilterCheck(hasValue && typeof value === 'number' ? String(value) : '', content, condition);
+    case FieldType.Checkbox:
+      return checkboxFilterCheck(hasValue && value === true, condition);
+    case FieldType.DateTime: {
+      const dateCell: DateTimeCell | null =
+        hasValue && value instanceof Date
+          ? { ...cell, fieldType: FieldType.DateTime, data: String(Math.floor(value.getTime() / 1000)) }
+          : null;
+
+      return dateFilterCheck(dateCell, filterValue as DateFilter, context);
+    }
+
+    default:
+      return textFilterCheck(hasValue ? cell.data : '', content, condition);
+  }
+}
+
 export function textFilterCheck(data: string, content: string, condition: TextFilterCondition) {
   switch (condition) {
     case TextFilterCondition.TextContains:
@@ -1024,9 +1215,9 @@ export function checklistFilterCheck(data: unknown, content: string, condition:
   return percentage !== 1;
 }
 
-export function rowTimeFilterCheck(data: string, filter: DateFilter) {
+export function rowTimeFilterCheck(data: string, filter: DateFilter, context?: RelativeDateContext) {
   if (isRelativeDateCondition(filter.condition)) {
-    return relativeDateRangeMatches(data, filter);
+    return relativeDateRangeMatches(data, filter, context);
   }
 
   const { condition, end = '', start = '', timestamp = '' } = filter;
@@ -1058,39 +1249,35 @@ export function rowTimeFilterCheck(data: string, filter: DateFilter) {
   }
 }
 
-// Resolves a relative-date filter to a concrete [start, end] range and tests whether
-// the cell's relevant timestamp (start for "DateStarts*", end for "DateEnds*") falls in it.
-function relativeDateRangeMatches(data: string, filter: DateFilter, endTimestamp?: string): boolean {
+// Resolves a relative-date filter to a window and tests whether the cell's relevant
+// timestamp (start for "DateStarts*", end for "DateEnds*") falls in it.
+function relativeDateRangeMatches(
+  data: string,
+  filter: DateFilter,
+  context?: RelativeDateContext,
+  endTimestamp?: string,
+  includeTime = true
+): boolean {
   // Mirrors desktop: DateStarts* relatives match against cell.start; DateEnds* match against cell.end.
-  const isEndCondition = filter.condition >= DateFilterCondition.DateEndsToday;
-  const target = isEndCondition ? endTimestamp ?? '' : data;
+  const target = isStartDateCondition(filter.condition) ? data : endTimestamp ?? '';
 
   if (!target) return false;
 
-  const resolved = resolveRelativeDates(filter);
-
-  // Single-day relatives (Today/Yesterday/Tomorrow) → same-day check.
-  if (resolved.timestamp !== undefined) {
-    return isTimestampInSameDay(target, resolved.timestamp.toString());
-  }
+  const window = resolveRelativeDateWindow(filter, context, includeTime);
+  const unix = target.length > 10 ? Math.floor(Number(target) / 1000) : Number(target);
 
-  if (resolved.start !== undefined && resolved.end !== undefined) {
-    // resolved.end is local midnight of the last day; extend to end-of-day for inclusive matching.
-    const endInclusive = resolved.end + 24 * 60 * 60 - 1;
+  if (!window || isNaN(unix)) return false;
 
-    return isTimestampBetweenRange(target, resolved.start.toString(), endInclusive.toString());
-  }
-
-  return false;
+  return (window.start === null || unix >= window.start) && unix < window.end;
 }
 
-export function dateFilterCheck(cell: DateTimeCell | null, filter: DateFilter) {
+export function dateFilterCheck(cell: DateTimeCell | null, filter: DateFilter, context?: RelativeDateContext) {
   const { condition, end = '', start = '', timestamp = '' } = filter;
 
-  const { data = '', endTimestamp = '' } = cell || {};
+  const { data = '', endTimestamp = '', includeTime = false } = cell || {};
 
   if (isRelativeDateCondition(condition)) {
-    return relativeDateRangeMatches(data, filter, endTimestamp);
+    return relativeDateRangeMatches(data, filter, context, endTimestamp, includeTime);
   }
 
   switch (condition) {
@@ -1244,7 +1431,10 @@ export function selectOptionFilterFillData(content: string, condition: number) {
   }
 }
 
-export function dateFilterFillData(filter: YDatabaseFilter): {
+export function dateFilterFillData(
+  filter: YDatabaseFilter,
+  context?: RelativeDateContext
+): {
   data: string;
   endTimestamp?: string;
   includeTime?: boolean;
@@ -1258,14 +1448,19 @@ export function dateFilterFillData(filter: YDatabaseFilter): {
   // timestamp and always pre-fill from the resolved range so the new row
   // satisfies the filter.
   if (isRelativeDateCondition(condition)) {
-    const resolved = resolveRelativeDates({
-      condition,
-      timestamp: undefined,
-      start: undefined,
-      end: undefined,
-    } as DateFilter);
-    const isEnd = condition >= DateFilterCondition.DateEndsToday;
-    const fill = (resolved.timestamp ?? resolved.start ?? Number(today)).toString();
+    const window = resolveRelativeDateWindow(
+      {
+        condition,
+        offset: isRelativeDateOffsetCondition(condition) ? parseRelativeDateOffset(content) : undefined,
+      } as DateFilter,
+      context,
+      false
+    );
+    const isEnd = !isStartDateCondition(condition);
+    // Overdue has no start; the day before today is the latest date that is overdue.
+    const fill = (
+      window?.start ?? dayjs.unix(window?.end ?? Number(today)).subtract(1, 'day').unix()
+    ).toString();
 
     return isEnd ? { data: fill, endTimestamp: fill, isRange: true } : { data: fill, isRange: false };
   }
@@ -1423,9 +1618,12 @@ export function filterFillData(filter: YDatabaseFilter, field: YDatabaseField) {
 }
 
 export function getDefaultFilterCondition(fieldType: FieldType, field?: YDatabaseField) {
-  switch (fieldType) {
+  const filterFieldType = fieldType === FieldType.Formula ? getFormulaFilterFieldType(field) : fieldType;
+
+  switch (filterFieldType) {
     case FieldType.RichText:
     case FieldType.URL:
+    case FieldType.UniqueId:
       return {
         condition: TextFilterCondition.TextContains,
         content: '',
@@ -5,5 +5,8 @@ export * from './dispatch';
 export * from './fields';
 export * from './selector';
 export * from './gallery-layout';
+export * from './timeline-layout';
+export * from './conditional-format';
+export * from './row-activity';
 export * from './comment_dispatch';
 export * from './comment_selector';
@@ -514,19 +514,11 @@ export function ensureRelationGroupLabel(context: RelationGroupLabelContext): vo
   groupLabelInflight.set(labelId, promise);
 }
 
-export function readRelationCellText(context: RelationComputeContext): string {
-  pruneCache();
-  if (!context.row || !context.relationField || !context.database) return '';
-  const cellId = `${context.rowId}:${context.fieldId}`;
-  const generation = getGeneration(cellId);
-  const cached = cache.get(cellId);
-
-  if (cached && isEntryFresh(cached, generation)) {
-    return cached.value;
-  }
+function requestRelationCell(context: RelationComputeContext, cellId: string, generation: number) {
+  let promise = inflight.get(cellId);
 
-  if (!inflight.has(cellId)) {
-    const promise = (async () => {
+  if (!promise) {
+    promise = (async () => {
       const release = await semaphore.acquire();
 
       try {
@@ -552,5 +544,38 @@ export function readRelationCellText(context: RelationComputeContext): string {
     inflight.set(cellId, promise);
   }
 
+  return promise;
+}
+
+export function readRelationCellText(context: RelationComputeContext): string {
+  pruneCache();
+  if (!context.row || !context.relationField || !context.database) return '';
+  const cellId = `${context.rowId}:${context.fieldId}`;
+  const generation = getGeneration(cellId);
+  const cached = cache.get(cellId);
+
+  if (cached && isEntryFresh(cached, generation)) {
+    return cached.value;
+  }
+
+  void requestRelationCell(context, cellId, generation);
+
   return cached ? cached.value : '';
 }
+
+/** Like {@link readRelationCellText}, but waits for the titles to resolve instead of returning a stale value. */
+export async function readRelationCell(context: RelationComputeContext): Promise<string> {
+  pruneCache();
+  if (!context.row || !context.relationField || !context.database) return '';
+  const cellId = `${context.rowId}:${context.fieldId}`;
+  const generation = getGeneration(cellId);
+  const cached = cache.get(cellId);
+
+  if (cached && isEntryFresh(cached, generation)) {
+    return cached.value;
+  }
+
+  const value = await requestRelationCell(context, cellId, generation);
+
+  return value.value;
+}
@@ -0,0 +1,275 @@
+import * as Y from 'yjs';
+
+import { normalizeAttributionUid } from '@/application/database-yjs/attribution';
+import { setCellStoredType } from '@/application/database-yjs/cell.field-type';
+import { FieldType } from '@/application/database-yjs/database.type';
+import { decodeCellToText } from '@/application/database-yjs/decode';
+import {
+  FieldId,
+  YDatabaseCell,
+  YDatabaseField,
+  YDatabaseRow,
+  YDoc,
+  YjsDatabaseKey,
+  YjsEditorKey,
+} from '@/application/types';
+
+/**
+ * Row activity: a timeline of cell changes, kept in the row document so it
+ * syncs with the row and survives reloads. The client that makes an edit
+ * appends the entry; everyone else receives it with the row's updates.
+ */
+
+/**
+ * One cell change in a row's history. Values are the raw cell data; callers
+ * decode them with the field to display text.
+ */
+export interface RowActivityEntry {
+  id: string;
+  fieldId: FieldId;
+  /** Undefined when the previous value is unknown (the change predates the recorded log). */
+  oldData?: string;
+  newData: string;
+  /** Canonical attribution uid of the editor, when the change carried one. */
+  uid: string | null;
+  /** Unix seconds. */
+  timestamp: number;
+}
+
+/** Oldest entries are dropped once a row's log grows past this. */
+export const ROW_ACTIVITY_LIMIT = 200;
+
+/** Root array of the row document holding its recorded activity, newest first. */
+const ROW_ACTIVITY_KEY = 'row_activity';
+const ROW_ACTIVITY_ORIGIN = 'row-activity';
+
+type CellSnapshot = Map<FieldId, { data: string; lastModified?: string }>;
+
+let activitySequence = 0;
+
+function stringifyCellData(data: unknown): string {
+  if (data === undefined || data === null) return '';
+  if (data instanceof Y.AbstractType) return JSON.stringify(data.toJSON());
+  if (typeof data === 'object') return JSON.stringify(data);
+  return String(data);
+}
+
+function parseTimestamp(value: unknown): number | undefined {
+  const timestamp = Number(value);
+
+  return Number.isFinite(timestamp) && timestamp > 0 ? timestamp : undefined;
+}
+
+function getRow(rowDoc: YDoc): YDatabaseRow | undefined {
+  return rowDoc.getMap(YjsEditorKey.data_section).get(YjsEditorKey.database_row) as YDatabaseRow | undefined;
+}
+
+export function snapshotRowCells(row?: YDatabaseRow): CellSnapshot {
+  const snapshot: CellSnapshot = new Map();
+
+  row?.get(YjsDatabaseKey.cells)?.forEach((value, fieldId) => {
+    const cell = value as YDatabaseCell;
+
+    snapshot.set(fieldId, {
+      data: stringifyCellData(cell.get(YjsDatabaseKey.data)),
+      lastModified: cell.get(YjsDatabaseKey.last_modified),
+    });
+  });
+
+  return snapshot;
+}
+
+/**
+ * The starting timeline of a row: every cell's current value at its own
+ * last-modified time. Only the cell edited last can be attributed, since the
+ * row keeps a single last editor.
+ */
+export function deriveInitialRowActivity(row?: YDatabaseRow): RowActivityEntry[] {
+  if (!row) return [];
+
+  const rowLastModified = row.get(YjsDatabaseKey.last_modified);
+  const lastEditor = normalizeAttributionUid(row.get(YjsDatabaseKey.last_edited_by));
+  const entries: RowActivityEntry[] = [];
+
+  snapshotRowCells(row).forEach(({ data, lastModified }, fieldId) => {
+    const timestamp = parseTimestamp(lastModified);
+
+    if (timestamp === undefined || data === '') return;
+
+    entries.push({
+      id: `${fieldId}:${timestamp}:initial`,
+      fieldId,
+      newData: data,
+      uid: lastModified === rowLastModified ? lastEditor : null,
+      timestamp,
+    });
+  });
+
+  return entries.sort((left, right) => right.timestamp - left.timestamp);
+}
+
+/**
+ * Diffs the cells of a row against the snapshot taken before a transaction.
+ * Cell writes go through touchRowAttribution in the same transaction, so the
+ * row's last editor and last-modified time belong to this change only when
+ * the transaction wrote them.
+ */
+export function deriveRowActivityFromTransaction(
+  previous: CellSnapshot,
+  row: YDatabaseRow,
+  transaction: Y.Transaction
+): { entries: RowActivityEntry[]; snapshot: CellSnapshot } {
+  const snapshot = snapshotRowCells(row);
+  const rowKeys = transaction.changed.get(row as unknown as Y.AbstractType<Y.YEvent>);
+  const uid = rowKeys?.has(YjsDatabaseKey.last_edited_by)
+    ? normalizeAttributionUid(row.get(YjsDatabaseKey.last_edited_by))
+    : null;
+  const rowTimestamp = rowKeys?.has(YjsDatabaseKey.last_modified)
+    ? parseTimestamp(row.get(YjsDatabaseKey.last_modified))
+    : undefined;
+  const entries: RowActivityEntry[] = [];
+  const fieldIds = new Set([...previous.keys(), ...snapshot.keys()]);
+
+  fieldIds.forEach((fieldId) => {
+    const oldData = previous.get(fieldId)?.data ?? '';
+    const next = snapshot.get(fieldId);
+    const newData = next?.data ?? '';
+
+    if (oldData === newData) return;
+
+    const timestamp = rowTimestamp ?? parseTimestamp(next?.lastModified) ?? Math.floor(Date.now() / 1000);
+
+    activitySequence += 1;
+    entries.push({
+      id: `${fieldId}:${timestamp}:${transaction.doc.clientID}:${activitySequence}`,
+      fieldId,
+      oldData,
+      newData,
+      uid,
+      timestamp,
+    });
+  });
+
+  return { entries, snapshot };
+}
+
+/** Display text of a recorded value, decoded with the field's current type. */
+export function decodeRowActivityValue(data: string | undefined, field: YDatabaseField): string {
+  if (!data) return '';
+
+  const cell = new Y.Map() as YDatabaseCell;
+
+  // Cells are only readable once integrated into a document.
+  new Y.Doc().getArray<YDatabaseCell>('cells').push([cell]);
+  cell.set(YjsDatabaseKey.data, data);
+  setCellStoredType(cell, Number(field.get(YjsDatabaseKey.type)) as FieldType);
+
+  return decodeCellToText(cell, field);
+}
+
+type RowActivityListener = () => void;
+
+const rowActivityCache = new WeakMap<YDoc, RowActivityEntry[]>();
+const rowActivityCacheCleared = new WeakSet<YDoc>();
+const rowActivityRecorders = new WeakMap<YDoc, { count: number; detach: () => void }>();
+
+function getActivityLog(rowDoc: YDoc): Y.Array<RowActivityEntry> {
+  return rowDoc.getArray<RowActivityEntry>(ROW_ACTIVITY_KEY);
+}
+
+/**
+ * Newest first: the recorded log, followed by the current value of every
+ * cell the log has no entry for yet.
+ */
+export function getRowActivity(rowDoc: YDoc): RowActivityEntry[] {
+  const cached = rowActivityCache.get(rowDoc);
+
+  if (cached) return cached;
+
+  const recorded = getActivityLog(rowDoc).toArray();
+  const recordedFieldIds = new Set(recorded.map((entry) => entry.fieldId));
+  const initial = deriveInitialRowActivity(getRow(rowDoc)).filter((entry) => !recordedFieldIds.has(entry.fieldId));
+  const entries = [...recorded, ...initial].slice(0, ROW_ACTIVITY_LIMIT);
+
+  rowActivityCache.set(rowDoc, entries);
+
+  if (!rowActivityCacheCleared.has(rowDoc)) {
+    rowActivityCacheCleared.add(rowDoc);
+    rowDoc.on('update', () => rowActivityCache.delete(rowDoc));
+  }
+
+  return entries;
+}
+
+export function subscribeRowActivity(rowDoc: YDoc, listener: RowActivityListener) {
+  const handleUpdate = () => {
+    rowActivityCache.delete(rowDoc);
+    listener();
+  };
+
+  rowDoc.on('update', handleUpdate);
+
+  return () => rowDoc.off('update', handleUpdate);
+}
+
+function appendRowActivity(rowDoc: YDoc, entries: RowActivityEntry[]) {
+  rowDoc.transact(() => {
+    const log = getActivityLog(rowDoc);
+
+    log.insert(0, entries);
+    if (log.length > ROW_ACTIVITY_LIMIT) log.delete(ROW_ACTIVITY_LIMIT, log.length - ROW_ACTIVITY_LIMIT);
+  }, ROW_ACTIVITY_ORIGIN);
+}
+
+/**
+ * Appends the cell changes this client makes to a row document to the row's
+ * activity log. Recorders are shared per document; call the returned function
+ * to release this one.
+ */
+export function recordRowActivity(rowDoc: YDoc): () => void {
+  const existing = rowActivityRecorders.get(rowDoc);
+
+  if (existing) {
+    existing.count += 1;
+    return () => releaseRecorder(rowDoc);
+  }
+
+  let snapshot = snapshotRowCells(getRow(rowDoc));
+
+  const onAfterTransaction = (transaction: Y.Transaction) => {
+    const row = getRow(rowDoc);
+
+    if (!row || transaction.changed.size === 0 || transaction.origin === ROW_ACTIVITY_ORIGIN) return;
+
+    const result = deriveRowActivityFromTransaction(snapshot, row, transaction);
+
+    snapshot = result.snapshot;
+
+    // Remote changes, including the first sync of a lazily loaded row, were
+    // recorded by the client that made them.
+    if (!transaction.local || result.entries.length === 0) return;
+
+    appendRowActivity(rowDoc, result.entries);
+  };
+
+  rowDoc.on('afterTransaction', onAfterTransaction);
+  rowActivityRecorders.set(rowDoc, {
+    count: 1,
+    detach: () => rowDoc.off('afterTransaction', onAfterTransaction),
+  });
+
+  return () => releaseRecorder(rowDoc);
+}
+
+function releaseRecorder(rowDoc: YDoc) {
+  const recorder = rowActivityRecorders.get(rowDoc);
+
+  if (!recorder) return;
+
+  recorder.count -= 1;
+
+  if (recorder.count <= 0) {
+    recorder.detach();
+    rowActivityRecorders.delete(rowDoc);
+  }
+}
@@ -12,9 +12,16 @@ import {
 } from 'react';
 
 import { isUngroupedColumnHidden, resolveBoardColumnVisibility } from '@/application/database-yjs/board-visibility';
-import { parseYDatabaseCellToCell } from '@/application/database-yjs/cell.parse';
-import { DateTimeCell, RollupCell } from '@/application/database-yjs/cell.type';
+import { parseFormulaCell, parseYDatabaseCellToCell } from '@/application/database-yjs/cell.parse';
+import { DateTimeCell, FormulaCell, RollupCell } from '@/application/database-yjs/cell.type';
 import { hasRowConditionData, invalidateRowConditionCache } from '@/application/database-yjs/condition-value-cache';
+import {
+  EMPTY_CONDITIONAL_FORMAT_STYLE,
+  getConditionalFormatStyle,
+  isConditionalFormatStyleEqual,
+  parseConditionalFormatRule,
+} from '@/application/database-yjs/conditional-format';
+import type { ConditionalFormatRule, ConditionalFormatStyle } from '@/application/database-yjs/conditional-format';
 import { DEFAULT_FIELD_WRAP, getCell, MIN_COLUMN_WIDTH } from '@/application/database-yjs/const';
 import {
   useDatabase,
@@ -30,6 +37,7 @@ import {
   getDateCellStr,
   getFieldDateTimeFormats,
   getTypeOptions,
+  msUntilNextDay,
   parsePersonTypeOptions,
   parseRelationTypeOption,
   parseRollupTypeOption,
@@ -40,10 +48,15 @@ import {
   filterBy,
   flattenFilterTree,
   getEffectiveFiltersSnapshot,
+  getFilterFieldType,
   hasEffectiveFilters,
+  mapFilterTreeLeaves,
   parseFilter,
+  readFilterTree,
 } from '@/application/database-yjs/filter';
+import type { FilterDraft } from '@/application/database-yjs/filter';
 import { DEFAULT_GALLERY_LAYOUT_SETTINGS } from '@/application/database-yjs/gallery-layout';
+import { parseTimelineLayoutSetting } from '@/application/database-yjs/timeline-layout';
 import {
   areGroupRowsHydrated,
   getGroupColumns,
@@ -83,11 +96,14 @@ import {
   subscribeRollupCell,
   subscribeRollupCache,
 } from '@/application/database-yjs/rollup/cache';
+import { getRowActivity, recordRowActivity, subscribeRowActivity } from '@/application/database-yjs/row-activity';
+import type { RowActivityEntry } from '@/application/database-yjs/row-activity';
 import { getInlineViewRowOrders, materializeVisibleRowOrders } from '@/application/database-yjs/row-order-visibility';
 import { getMetaJSON, getRowKey } from '@/application/database-yjs/row_meta';
 import { subscribeSharedYjsDeep } from '@/application/database-yjs/shared-yjs-observer';
 import { sortBy } from '@/application/database-yjs/sort';
 import {
+  databaseLayoutMap,
   DatabaseViewLayout,
   FieldId,
   GalleryCardPreview,
@@ -96,10 +112,12 @@ import {
   RowId,
   SortId,
   TimeFormat,
+  TimelineLayoutSettings,
   YDatabase,
   YDatabaseChartLayoutSetting,
   YDatabaseField,
   YDatabaseFields,
+  YDatabaseFilter,
   YDatabaseFilters,
   YDatabaseGroup,
   YDatabaseMetas,
@@ -113,16 +131,19 @@ import {
 } from '@/application/types';
 import { MetadataKey } from '@/application/user-metadata';
 import { useMentionableUsersWithAutoFetch } from '@/components/database/components/cell/person/useMentionableUsers';
-import { useCurrentUser } from '@/components/main/app.hooks';
+import { useCurrentUser, useCurrentUserOptional } from '@/components/main/app.hooks';
+import { Log } from '@/utils/log';
 import { getDateFormat, getTimeFormat, renderDate } from '@/utils/time';
+import { resolveUserTimezone } from '@/utils/timezone';
 
-import { ChartLayoutSettings } from './chart.type';
+import { ChartLayoutSettings, parseChartSeriesConfigs } from './chart.type';
 import {
   CalendarLayoutSetting,
   DateGroupCondition,
   FieldType,
   FieldVisibility,
   Filter,
+  FilterGroup,
   FilterType,
   RowMeta,
   SortCondition,
@@ -629,9 +650,7 @@ export function useFilterSelector(filterId: string) {
         return;
       }
 
-      const fieldType = Number(field.get(YjsDatabaseKey.type)) as FieldType;
-
-      setFilterValue(parseFilter(fieldType, filter));
+      setFilterValue(parseFilter(getFilterFieldType(field), filter));
     };
 
     observerEvent();
@@ -716,6 +735,36 @@ export function useRootFilterInfo() {
   return rootInfo;
 }
 
+/** Parse a filter tree draft into the `Filter` shape the filter editors read. */
+function parseFilterDraft(
+  draft: FilterDraft,
+  operator: FilterType.And | FilterType.Or | null,
+  fields: YDatabaseFields
+): Filter {
+  const ft = draft.fieldType as FieldType;
+  const proxy = {
+    get: (key: string) => {
+      if (key === YjsDatabaseKey.field_id) return draft.fieldId;
+      if (key === YjsDatabaseKey.filter_type) return FilterType.Data;
+      if (key === YjsDatabaseKey.id) return draft.id;
+      if (key === YjsDatabaseKey.content) return draft.content;
+      if (key === YjsDatabaseKey.condition) return draft.condition;
+
+      return undefined;
+    },
+  };
+
+  const draftField = fields.get(draft.fieldId);
+  const parsed = parseFilter(draftField ? getFilterFieldType(draftField) : ft, proxy as Parameters<typeof parseFilter>[1]);
+
+  return {
+    ...parsed,
+    operator,
+    fieldType: ft,
+    rollupTargetFieldType: draft.rollupTargetFieldType,
+  } as Filter;
+}
+
 /**
  * Returns parsed filters from the root filter's children in advanced mode.
  * Recursively flattens nested AND/OR trees, extracting per-row operators.
@@ -742,32 +791,50 @@ export function useAdvancedFiltersSelector() {
       }
 
       const drafts = flattenFilterTree(filtersArray, fields);
+      const parsedFilters = drafts.map((draft) => parseFilterDraft(draft, draft.operator, fields));
 
-      const parsedFilters: Filter[] = drafts.map((draft) => {
-        const ft = draft.fieldType as FieldType;
-        const proxy = {
-          get: (key: string) => {
-            if (key === YjsDatabaseKey.field_id) return draft.fieldId;
-            if (key === YjsDatabaseKey.filter_type) return FilterType.Data;
-            if (key === YjsDatabaseKey.id) return draft.id;
-            if (key === YjsDatabaseKey.content) return draft.content;
-            if (key === YjsDatabaseKey.condition) return draft.condition;
-
-            return undefined;
-          },
-        };
+      setFilters(parsedFilters);
+    };
 
-        const parsed = parseFilter(ft, proxy as Parameters<typeof parseFilter>[1]);
+    observerEvent();
+    filtersArray.observeDeep(observerEvent);
 
-        return {
-          ...parsed,
-          operator: draft.operator,
-          fieldType: ft,
-          rollupTargetFieldType: draft.rollupTargetFieldType,
-        } as Filter;
-      });
+    return () => {
+      filtersArray.unobserveDeep(observerEvent);
+    };
+  }, [fields, filtersArray]);
 
-      setFilters(parsedFilters);
+  return filters;
+}
+
+/**
+ * Returns the advanced filter tree with its nested groups. Each filter's
+ * `operator` is the type of the group it belongs to (null for a group's first row).
+ */
+export function useAdvancedFilterTreeSelector() {
+  const database = useDatabase();
+  const viewId = useDatabaseViewId();
+  const fields = database?.get(YjsDatabaseKey.fields);
+  const view = database?.get(YjsDatabaseKey.views)?.get(viewId);
+  const filtersArray = view?.get(YjsDatabaseKey.filters);
+  const [tree, setTree] = useState<FilterGroup | null>(null);
+
+  useEffect(() => {
+    if (!fields || !filtersArray) {
+      setTree(null);
+      return;
+    }
+
+    const observerEvent = () => {
+      const drafts = readFilterTree(filtersArray, fields);
+
+      setTree(
+        drafts
+          ? mapFilterTreeLeaves(drafts, (draft, group, index) =>
+              parseFilterDraft(draft, index === 0 ? null : group.filterType, fields)
+            )
+          : null
+      );
     };
 
     observerEvent();
@@ -778,7 +845,7 @@ export function useAdvancedFiltersSelector() {
     };
   }, [fields, filtersArray]);
 
-  return filters;
+  return tree;
 }
 
 /**
@@ -887,7 +954,9 @@ export function useAdvancedFilterSelector(filterId: string) {
             get: (key: string) => (foundFilter as Record<string, unknown>)[key],
           };
 
-      setFilterValue(parseFilter(fieldType, filterProxy as Parameters<typeof parseFilter>[1]));
+      setFilterValue(
+        parseFilter(field ? getFilterFieldType(field) : fieldType, filterProxy as Parameters<typeof parseFilter>[1])
+      );
     };
 
     observerEvent();
@@ -983,6 +1052,223 @@ export function useSortSelector(sortId: SortId) {
   return sortValue;
 }
 
+function useConditionalFormatsArray() {
+  const view = useDatabaseView();
+  const subscribe = useCallback(
+    (onStoreChange: () => void) => {
+      if (!view) return () => undefined;
+
+      // The rules array is created lazily by the first added rule.
+      const observerEvent = (event: { keysChanged?: Set<string> }) => {
+        if (event.keysChanged?.has(YjsDatabaseKey.conditional_formats)) onStoreChange();
+      };
+
+      view.observe(observerEvent);
+      return () => {
+        view.unobserve(observerEvent);
+      };
+    },
+    [view]
+  );
+  const getSnapshot = useCallback(() => view?.get(YjsDatabaseKey.conditional_formats), [view]);
+
+  return useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+}
+
+export function useConditionalFormatsSelector() {
+  const formats = useConditionalFormatsArray();
+  const [rules, setRules] = useState<ConditionalFormatRule[]>([]);
+
+  useEffect(() => {
+    if (!formats) {
+      setRules([]);
+      return;
+    }
+
+    const observerEvent = () => {
+      setRules(formats.toArray().map(parseConditionalFormatRule));
+    };
+
+    observerEvent();
+    formats.observeDeep(observerEvent);
+
+    return () => {
+      formats.unobserveDeep(observerEvent);
+    };
+  }, [formats]);
+
+  return rules;
+}
+
+/** A rule's condition read as a filter, so the filter menus can edit it. */
+export function useConditionalFormatFilterSelector(formatId: string) {
+  const formats = useConditionalFormatsArray();
+  const fields = useDatabaseFields();
+  const [filter, setFilter] = useState<Filter | null>(null);
+
+  useEffect(() => {
+    if (!formats) {
+      setFilter(null);
+      return;
+    }
+
+    const observerEvent = () => {
+      const format = formats.toArray().find((format) => format.get(YjsDatabaseKey.id) === formatId);
+      const field = format ? fields?.get(format.get(YjsDatabaseKey.field_id)) : undefined;
+
+      if (!format || !field) {
+        setFilter(null);
+        return;
+      }
+
+      setFilter(parseFilter(getFilterFieldType(field), format as unknown as YDatabaseFilter));
+    };
+
+    observerEvent();
+    formats.observeDeep(observerEvent);
+
+    return () => {
+      formats.unobserveDeep(observerEvent);
+    };
+  }, [fields, formatId, formats]);
+
+  return filter;
+}
+
+/**
+ * The user's timezone for relative date conditions, and a revision that bumps
+ * when the day rolls over there, so "within the next 14 days" or "overdue"
+ * re-evaluate without anyone editing the view.
+ */
+function useRelativeDateTimezone(enabled: boolean) {
+  const currentUser = useCurrentUserOptional();
+  const setting = currentUser?.metadata?.[MetadataKey.Timezone];
+  const timezone = useMemo(() => resolveUserTimezone(setting), [setting]);
+  const [dayRevision, setDayRevision] = useState(0);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const timer = setTimeout(() => setDayRevision((revision) => revision + 1), msUntilNextDay(timezone));
+
+    return () => clearTimeout(timer);
+  }, [dayRevision, enabled, timezone]);
+
+  return { timezone, dayRevision };
+}
+
+/**
+ * The colors the view's conditional formatting rules give a row. Re-evaluated
+ * when the rules, the fields or the row's own data change.
+ */
+export function useRowConditionalFormat(rowId?: string): ConditionalFormatStyle {
+  const formats = useConditionalFormatsArray();
+  const fields = useDatabaseFields();
+  const rowMap = useRowMap();
+  const rowDoc = rowId ? rowMap?.[rowId] : undefined;
+  const rowDocs = useMemo(() => (rowId && rowDoc ? { [rowId]: rowDoc } : {}), [rowDoc, rowId]);
+  const { relationTextGetter, rollupValueGetter, rollupTextGetter } = useRelationRollupCellGetters(rowDocs);
+  const [style, setStyle] = useState<ConditionalFormatStyle>(EMPTY_CONDITIONAL_FORMAT_STYLE);
+  const { timezone, dayRevision } = useRelativeDateTimezone(Boolean(rowDoc && formats?.length));
+
+  useEffect(() => {
+    if (!rowId || !rowDoc || !formats || !fields) {
+      setStyle(EMPTY_CONDITIONAL_FORMAT_STYLE);
+      return;
+    }
+
+    const observerEvent = () => {
+      const next = getConditionalFormatStyle(formats, fields, rowDocs, rowId, {
+        getRelationCellText: relationTextGetter,
+        getRollupCellText: rollupTextGetter,
+        getRollupCellValue: rollupValueGetter,
+        timezone,
+      });
+
+      setStyle((prev) => (isConditionalFormatStyleEqual(prev, next) ? prev : next));
+    };
+
+    // Relation titles and rollup results resolve asynchronously, and editing
+    // the row must not keep serving the values cached for its old cells.
+    const getRelationRollupRuleFields = () =>
+      formats.toArray().flatMap((format) => {
+        const fieldId = format.get(YjsDatabaseKey.field_id);
+        const fieldType = Number(fields.get(fieldId)?.get(YjsDatabaseKey.type));
+
+        return fieldType === FieldType.Relation || fieldType === FieldType.Rollup ? [{ fieldId, fieldType }] : [];
+      });
+
+    const handleRowChange = () => {
+      getRelationRollupRuleFields().forEach(({ fieldId, fieldType }) => {
+        if (fieldType === FieldType.Relation) {
+          invalidateRelationCell(`${rowId}:${fieldId}`);
+        } else {
+          invalidateRollupCell(`${rowId}:${fieldId}`);
+        }
+      });
+      observerEvent();
+    };
+
+    const handleCacheChange = debounce(() => {
+      if (getRelationRollupRuleFields().length > 0) observerEvent();
+    }, 200);
+    const rowSharedRoot = rowDoc.getMap(YjsEditorKey.data_section);
+    const unsubscribeRelation = subscribeRelationCache(handleCacheChange);
+    const unsubscribeRollup = subscribeRollupCache(handleCacheChange);
+
+    observerEvent();
+    formats.observeDeep(observerEvent);
+    fields.observeDeep(observerEvent);
+    rowSharedRoot.observeDeep(handleRowChange);
+
+    return () => {
+      formats.unobserveDeep(observerEvent);
+      fields.unobserveDeep(observerEvent);
+      rowSharedRoot.unobserveDeep(handleRowChange);
+      handleCacheChange.cancel();
+      unsubscribeRelation();
+      unsubscribeRollup();
+    };
+  }, [
+    dayRevision,
+    fields,
+    formats,
+    relationTextGetter,
+    rollupTextGetter,
+    rollupValueGetter,
+    rowDoc,
+    rowDocs,
+    rowId,
+    timezone,
+  ]);
+
+  return style;
+}
+
+const EMPTY_ROW_ACTIVITY: RowActivityEntry[] = [];
+
+/**
+ * The cell-change timeline of a row, newest first. Records the row while the
+ * caller is mounted, on top of whatever the database already recorded.
+ */
+export function useRowActivity(rowId: string): RowActivityEntry[] {
+  const rowMap = useRowMap();
+  const rowDoc = rowMap?.[rowId];
+  const subscribe = useCallback(
+    (listener: () => void) => (rowDoc ? subscribeRowActivity(rowDoc, listener) : () => undefined),
+    [rowDoc]
+  );
+  const getSnapshot = useCallback(() => (rowDoc ? getRowActivity(rowDoc) : EMPTY_ROW_ACTIVITY), [rowDoc]);
+
+  useEffect(() => {
+    if (!rowDoc) return;
+
+    return recordRowActivity(rowDoc);
+  }, [rowDoc]);
+
+  return useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+}
+
 export function useGroupsSelector() {
   const database = useDatabase();
   const viewId = useDatabaseViewId();
@@ -1714,7 +2000,7 @@ function orderDatabaseGroupsForPrimarySort(
 }
 
 /**
- * Resolves optional grouping for the current Grid or List view and observes every source that
+ * Resolves optional grouping for the current Grid, List or Timeline view and observes every source that
  * can change group membership. Row documents are separate Yjs documents, so
  * observing only the database view is not sufficient when a cell is edited.
  */
@@ -1746,7 +2032,7 @@ export function useDatabaseGroupingSelector(layout: DatabaseViewLayout): Databas
   const inlineRowOrders = getInlineViewRowOrders(database);
   const { cachedRowDocs, getCachedRowDocs, subscribeToCachedRowDocChanges } = useBackgroundRowDocLoader(
     Boolean(fieldId),
-    `${layout === DatabaseViewLayout.List ? 'list' : 'grid'}-grouping`
+    `${databaseLayoutMap[layout] ?? 'grid'}-grouping`
   );
   const groupingRows = useMemo(() => {
     const next = { ...cachedRowDocs };
@@ -1993,6 +2279,8 @@ export function useDatabaseGroupingSelector(layout: DatabaseViewLayout): Databas
     const layoutSetting =
       layout === DatabaseViewLayout.List
         ? view?.get(YjsDatabaseKey.layout_settings)?.get('4')
+        : layout === DatabaseViewLayout.Timeline
+        ? view?.get(YjsDatabaseKey.layout_settings)?.get('6')
         : view?.get(YjsDatabaseKey.layout_settings)?.get('0');
     const storedHideEmpty = layoutSetting?.get(YjsDatabaseKey.hide_empty_groups);
     const hideEmptyGroups = storedHideEmpty === undefined ? true : Boolean(storedHideEmpty);
@@ -2159,6 +2447,83 @@ export function useListGroupingSelector(): DatabaseGrouping {
   return useDatabaseGroupingSelector(DatabaseViewLayout.List);
 }
 
+export function useTimelineGroupingSelector(): DatabaseGrouping {
+  return useDatabaseGroupingSelector(DatabaseViewLayout.Timeline);
+}
+
+/**
+ * Relation and rollup cells have no stored text; sorting, filtering and
+ * conditional formatting read their resolved values through these getters.
+ */
+function useRelationRollupCellGetters(rowDocs: Record<RowId, YDoc>) {
+  const fields = useDatabaseFields();
+  const database = useDatabase();
+  const { databaseDoc, loadView, createRow, getViewIdFromDatabaseId } = useDatabaseContext();
+
+  // Getter for relation cell text (used in sorting/filtering)
+  const relationTextGetter = useCallback(
+    (rowId: string, fieldId: string) => {
+      if (!fields || !database) return '';
+      const field = fields.get(fieldId);
+
+      if (!field || Number(field.get(YjsDatabaseKey.type)) !== FieldType.Relation) return '';
+      const rowDoc = rowDocs[rowId];
+      const rowSharedRoot = rowDoc?.getMap(YjsEditorKey.data_section);
+      const row = rowSharedRoot?.get(YjsEditorKey.database_row) as YDatabaseRow | undefined;
+
+      if (!row) return '';
+      return readRelationCellText({
+        baseDoc: databaseDoc,
+        database,
+        relationField: field,
+        row,
+        rowId,
+        fieldId,
+        loadView,
+        createRow,
+        getViewIdFromDatabaseId,
+      });
+    },
+    [rowDocs, fields, database, databaseDoc, loadView, createRow, getViewIdFromDatabaseId]
+  );
+
+  // Getter for rollup cell value (used in sorting/filtering)
+  const rollupValueGetter = useCallback(
+    (rowId: string, fieldId: string) => {
+      if (!fields || !database) return { value: '' };
+      const field = fields.get(fieldId);
+
+      if (!field || Number(field.get(YjsDatabaseKey.type)) !== FieldType.Rollup) return { value: '' };
+      const rowDoc = rowDocs[rowId];
+      const rowSharedRoot = rowDoc?.getMap(YjsEditorKey.data_section);
+      const row = rowSharedRoot?.get(YjsEditorKey.database_row) as YDatabaseRow | undefined;
+
+      if (!row) return { value: '' };
+      return readRollupCellSync({
+        baseDoc: databaseDoc,
+        database,
+        rollupField: field,
+        row,
+        rowId,
+        fieldId,
+        loadView,
+        createRow,
+        getViewIdFromDatabaseId,
+      });
+    },
+    [rowDocs, fields, database, databaseDoc, loadView, createRow, getViewIdFromDatabaseId]
+  );
+
+  const rollupTextGetter = useCallback(
+    (rowId: string, fieldId: string) => {
+      return rollupValueGetter(rowId, fieldId).value;
+    },
+    [rollupValueGetter]
+  );
+
+  return { relationTextGetter, rollupValueGetter, rollupTextGetter };
+}
+
 /**
  * Hook to get sorted and filtered row orders.
  *
@@ -2180,16 +2545,7 @@ export function useRowOrdersSelector() {
   const filters = view?.get(YjsDatabaseKey.filters);
   const database = useDatabase();
   const inlineRowOrders = getInlineViewRowOrders(database);
-  const {
-    databaseDoc,
-    loadView,
-    createRow,
-    getViewIdFromDatabaseId,
-    ensureRow,
-    loadRowFromSeed,
-    blobPrefetchComplete,
-    seedsReady,
-  } = useDatabaseContext();
+  const { ensureRow, loadRowFromSeed, blobPrefetchComplete, seedsReady } = useDatabaseContext();
   const hasAttributionSort =
     sorts?.toArray().some((sort) => {
       const field = fields?.get(sort.get(YjsDatabaseKey.field_id));
@@ -2229,6 +2585,7 @@ export function useRowOrdersSelector() {
 
   // Check if there are active conditions
   const hasConditions = (sorts?.length ?? 0) > 0 || hasEffectiveFilters(filters, fields);
+  const { timezone, dayRevision } = useRelativeDateTimezone((filters?.length ?? 0) > 0);
 
   // Background loading of row docs for sorting/filtering
   const { cachedRowDocs } = useBackgroundRowDocLoader(hasConditions);
@@ -2361,66 +2718,7 @@ export function useRowOrdersSelector() {
     return true;
   }, [fields, filters, readVisibleRowOrders, sorts, viewId]);
 
-  // Getter for relation cell text (used in sorting/filtering)
-  const relationTextGetter = useCallback(
-    (rowId: string, fieldId: string) => {
-      if (!fields || !database) return '';
-      const field = fields.get(fieldId);
-
-      if (!field || Number(field.get(YjsDatabaseKey.type)) !== FieldType.Relation) return '';
-      const rowDoc = rowDocsForConditions[rowId];
-      const rowSharedRoot = rowDoc?.getMap(YjsEditorKey.data_section);
-      const row = rowSharedRoot?.get(YjsEditorKey.database_row) as YDatabaseRow | undefined;
-
-      if (!row) return '';
-      return readRelationCellText({
-        baseDoc: databaseDoc,
-        database,
-        relationField: field,
-        row,
-        rowId,
-        fieldId,
-        loadView,
-        createRow,
-        getViewIdFromDatabaseId,
-      });
-    },
-    [rowDocsForConditions, fields, database, databaseDoc, loadView, createRow, getViewIdFromDatabaseId]
-  );
-
-  // Getter for rollup cell value (used in sorting/filtering)
-  const rollupValueGetter = useCallback(
-    (rowId: string, fieldId: string) => {
-      if (!fields || !database) return { value: '' };
-      const field = fields.get(fieldId);
-
-      if (!field || Number(field.get(YjsDatabaseKey.type)) !== FieldType.Rollup) return { value: '' };
-      const rowDoc = rowDocsForConditions[rowId];
-      const rowSharedRoot = rowDoc?.getMap(YjsEditorKey.data_section);
-      const row = rowSharedRoot?.get(YjsEditorKey.database_row) as YDatabaseRow | undefined;
-
-      if (!row) return { value: '' };
-      return readRollupCellSync({
-        baseDoc: databaseDoc,
-        database,
-        rollupField: field,
-        row,
-        rowId,
-        fieldId,
-        loadView,
-        createRow,
-        getViewIdFromDatabaseId,
-      });
-    },
-    [rowDocsForConditions, fields, database, databaseDoc, loadView, createRow, getViewIdFromDatabaseId]
-  );
-
-  const rollupTextGetter = useCallback(
-    (rowId: string, fieldId: string) => {
-      return rollupValueGetter(rowId, fieldId).value;
-    },
-    [rollupValueGetter]
-  );
+  const { relationTextGetter, rollupValueGetter, rollupTextGetter } = useRelationRollupCellGetters(rowDocsForConditions);
 
   // Main computation: apply sorts and filters to row orders
   const onConditionsChange = useCallback(() => {
@@ -2530,6 +2828,7 @@ export function useRowOrdersSelector() {
         getRelationCellText: relationTextGetter,
         getRollupCellText: rollupTextGetter,
         getRollupCellValue: rollupValueGetter,
+        timezone,
       });
     }
 
@@ -2549,13 +2848,14 @@ export function useRowOrdersSelector() {
     rollupValueGetter,
     rollupTextGetter,
     requestMissingConditionRows,
+    timezone,
     viewId,
   ]);
 
   // Trigger computation when dependencies change
   useEffect(() => {
     onConditionsChange();
-  }, [conditionLoadRevision, onConditionsChange]);
+  }, [conditionLoadRevision, dayRevision, onConditionsChange]);
 
   // Subscribe to relation/rollup cache changes
   useEffect(() => {
@@ -2904,6 +3204,45 @@ function useRollupCellValue({
   } as RollupCell;
 }
 
+function useFormulaCellValue({
+  row,
+  field,
+  fieldClock,
+}: {
+  row?: YDatabaseRow;
+  field?: YDatabaseField;
+  fieldClock: number;
+}): FormulaCell | undefined {
+  const database = useDatabase();
+  // Cell selectors also run outside the app shell (embeds, tests); formulas only
+  // need the user to render person names, so a missing context is fine.
+  const currentUser = useCurrentUserOptional();
+  const fields = database?.get(YjsDatabaseKey.fields);
+  const fieldType = Number(field?.get(YjsDatabaseKey.type)) as FieldType;
+  const isFormula = fieldType === FieldType.Formula;
+  const [clock, setClock] = useState(0);
+
+  useEffect(() => {
+    if (!isFormula || !row) return;
+    const bump = () => setClock((prev) => prev + 1);
+
+    // A formula reads any property of its row and resolves properties by name,
+    // so both row edits and schema edits (renames, type changes) can change it.
+    row.observeDeep(bump);
+    fields?.observeDeep(bump);
+    return () => {
+      row.unobserveDeep(bump);
+      fields?.unobserveDeep(bump);
+    };
+  }, [isFormula, row, fields]);
+
+  return useMemo(() => {
+    if (!isFormula || !row || !field || !fields) return undefined;
+    return parseFormulaCell(row, field, fields, currentUser);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isFormula, row, field, fields, currentUser, fieldClock, clock]);
+}
+
 export function useCellSelector({ rowId, fieldId }: { rowId: string; fieldId: string }) {
   const { row } = useRowDataSelector(rowId);
   const cells = row?.get(YjsDatabaseKey.cells);
@@ -2912,6 +3251,7 @@ export function useCellSelector({ rowId, fieldId }: { rowId: string; fieldId: st
   const [clock, setClock] = useState<number>(0);
   const fieldType = Number(field?.get(YjsDatabaseKey.type)) as FieldType;
   const rollupCell = useRollupCellValue({ row, field, rowId, fieldId, fieldClock });
+  const formulaCell = useFormulaCellValue({ row, field, fieldClock });
 
   // Parse during render rather than from an effect, and key on the field type
   // read from the doc rather than on a clock. Callers pick their cell component
@@ -2964,6 +3304,10 @@ export function useCellSelector({ rowId, fieldId }: { rowId: string; fieldId: st
     return rollupCell;
   }
 
+  if (fieldType === FieldType.Formula) {
+    return formulaCell;
+  }
+
   return cellValue;
 }
 
@@ -3122,6 +3466,73 @@ export function useCalendarEventsSelector() {
   return { events, emptyEvents };
 }
 
+export interface TimelineItem {
+  rowId: string;
+  title: string;
+  /** The row's DateTime cell, or undefined while it has no date or its document is loading. */
+  cell?: DateTimeCell;
+}
+
+/**
+ * Resolve the title and date cell for every Timeline row. Row documents are
+ * separate Yjs documents, so each one is observed for date and title edits.
+ */
+export function useTimelineItemsSelector(rowOrders: Row[] | undefined, fieldId?: string) {
+  const { field, clock: fieldClock } = useFieldSelector(fieldId || '');
+  const primaryFieldId = usePrimaryFieldId();
+  const { field: primaryField, clock: primaryFieldClock } = useFieldSelector(primaryFieldId || '');
+  const rows = useRowMap();
+  const { ensureRow } = useDatabaseContext();
+  const [items, setItems] = useState<TimelineItem[]>([]);
+
+  useEffect(() => {
+    if (!rowOrders) {
+      setItems([]);
+      return;
+    }
+
+    const isDateField = Number(field?.get(YjsDatabaseKey.type)) === FieldType.DateTime;
+    const observerEvent = () => {
+      setItems(
+        rowOrders.map((row) => {
+          if (!rows?.[row.id]) {
+            ensureRow?.(row.id)?.catch((error: unknown) => {
+              Log.warn('[useTimelineItemsSelector] failed to ensure row doc', { rowId: row.id, error });
+            });
+            return { rowId: row.id, title: '' };
+          }
+
+          const primaryCell = primaryFieldId ? getCell(row.id, primaryFieldId, rows) : undefined;
+          const cell = fieldId && isDateField ? getCell(row.id, fieldId, rows) : undefined;
+
+          return {
+            rowId: row.id,
+            title: primaryCell && primaryField ? decodeCellToText(primaryCell, primaryField) : '',
+            cell: cell ? (parseYDatabaseCellToCell(cell, field) as DateTimeCell) : undefined,
+          };
+        })
+      );
+    };
+
+    observerEvent();
+
+    const debouncedObserverEvent = debounce(observerEvent, 150);
+
+    rowOrders.forEach((row) => {
+      rows?.[row.id]?.getMap(YjsEditorKey.data_section).observeDeep(debouncedObserverEvent);
+    });
+
+    return () => {
+      debouncedObserverEvent.cancel();
+      rowOrders.forEach((row) => {
+        rows?.[row.id]?.getMap(YjsEditorKey.data_section).unobserveDeep(debouncedObserverEvent);
+      });
+    };
+  }, [ensureRow, field, fieldClock, fieldId, primaryField, primaryFieldClock, primaryFieldId, rowOrders, rows]);
+
+  return items;
+}
+
 export function useCalendarLayoutSetting() {
   const currentUser = useCurrentUser();
   const startWeekOn = Number(currentUser?.metadata?.[MetadataKey.StartWeekOn] || 0);
@@ -3306,6 +3717,7 @@ export const useFieldCellsByRowsSelector = (fieldId: string, rows?: Row[]) => {
   const [cells, setCells] = useState<Map<string, unknown> | null>(null);
   const rowMap = useRowMap();
   const { field, clock: fieldClock } = useFieldSelector(fieldId);
+  const fields = useDatabase()?.get(YjsDatabaseKey.fields);
 
   useEffect(() => {
     if (!rows || !rowMap) {
@@ -3326,6 +3738,14 @@ export const useFieldCellsByRowsSelector = (fieldId: string, rows?: Row[]) => {
 
       const cells = databaseRow.get(YjsDatabaseKey.cells);
       const getCellValue = () => {
+        if (field && fields && Number(field.get(YjsDatabaseKey.type)) === FieldType.Formula) {
+          const { value, data, error } = parseFormulaCell(databaseRow, field, fields);
+
+          // Calculations count and sum raw values; only text results use the display string.
+          if (error || value === null) return '';
+          return typeof value === 'number' || typeof value === 'boolean' ? value : data;
+        }
+
         const cell = databaseRow.get(YjsDatabaseKey.cells)?.get(fieldId);
 
         return cell ? parseYDatabaseCellToCell(cell, field).data : '';
@@ -3356,7 +3776,7 @@ export const useFieldCellsByRowsSelector = (fieldId: string, rows?: Row[]) => {
         unobserverEvent();
       });
     };
-  }, [rows, rowMap, fieldId, field, fieldClock]);
+  }, [rows, rowMap, fieldId, field, fields, fieldClock]);
 
   return {
     cells,
@@ -3592,7 +4012,15 @@ function chartSettingsEqual(a: ChartLayoutSettings | null, b: ChartLayoutSetting
     a.aggregationType === b.aggregationType &&
     a.yFieldId === b.yFieldId &&
     a.cumulative === b.cumulative &&
-    a.dateCondition === b.dateCondition
+    a.dateCondition === b.dateCondition &&
+    a.stackFieldId === b.stackFieldId &&
+    a.continuousDates === b.continuousDates &&
+    a.additionalSeries.length === b.additionalSeries.length &&
+    a.additionalSeries.every(
+      (series, index) =>
+        series.aggregationType === b.additionalSeries[index].aggregationType &&
+        series.yFieldId === b.additionalSeries[index].yFieldId
+    )
   );
 }
 
@@ -3650,6 +4078,9 @@ export function useChartLayoutSetting(): ChartLayoutSettings | null {
         dateCondition: (dateConditionRaw === undefined || dateConditionRaw === null
           ? DateGroupCondition.Month
           : Number(dateConditionRaw)) as ChartLayoutSettings['dateCondition'],
+        additionalSeries: parseChartSeriesConfigs(chartSettingMap.get('additionalSeries')),
+        stackFieldId: chartSettingMap.get('stackFieldId') ? String(chartSettingMap.get('stackFieldId')) : undefined,
+        continuousDates: Boolean(chartSettingMap.get('continuousDates')),
       };
 
       setSetting((prev) => (chartSettingsEqual(prev, next) ? prev : next));
@@ -3704,3 +4135,26 @@ export function useGalleryLayoutSettings(): GalleryLayoutSettings {
 
   return useMemo(() => JSON.parse(snapshot) as GalleryLayoutSettings, [snapshot]);
 }
+
+/** Subscribe to the Timeline date field and zoom at `layout_settings['6']`. */
+export function useTimelineLayoutSettings(): TimelineLayoutSettings {
+  const database = useDatabase();
+  const viewId = useDatabaseViewId();
+  const view = database.get(YjsDatabaseKey.views)?.get(viewId);
+  const subscribe = useCallback(
+    (onStoreChange: () => void) => {
+      if (!view) return () => undefined;
+
+      view.observeDeep(onStoreChange);
+      return () => view.unobserveDeep(onStoreChange);
+    },
+    [view]
+  );
+  const getSnapshot = useCallback(
+    () => JSON.stringify(parseTimelineLayoutSetting(view?.get(YjsDatabaseKey.layout_settings)?.get('6'))),
+    [view]
+  );
+  const snapshot = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+
+  return useMemo(() => JSON.parse(snapshot) as TimelineLayoutSettings, [snapshot]);
+}
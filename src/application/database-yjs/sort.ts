@@ -1,10 +1,11 @@
 import { FieldType, RollupDisplayMode, SortCondition } from '@/application/database-yjs/database.type';
 import {
   ConditionSortValue,
+  getConditionFormulaCell,
   getConditionSortValue,
   getRowConditionSnapshot,
 } from '@/application/database-yjs/condition-value-cache';
-import { parseRollupTypeOption } from '@/application/database-yjs/fields';
+import { FormulaResultType, getFormulaResultType, parseRollupTypeOption } from '@/application/database-yjs/fields';
 import { isNumericRollupField } from '@/application/database-yjs/rollup/utils';
 import { Row } from '@/application/database-yjs/selector';
 import { RowId, YDatabaseFields, YDatabaseSorts, YDoc, YjsDatabaseKey } from '@/application/types';
@@ -82,7 +83,13 @@ export function sortBy(
       const rowMeta = rowMetas[rowId];
       const snapshot = getRowConditionSnapshot(rowMeta);
 
-      const defaultData = defaultValueForSort(fieldType, Number(sort.get(YjsDatabaseKey.condition)), isRollupNumeric);
+      const formulaResultType = fieldType === FieldType.Formula ? getFormulaResultType(field) : undefined;
+      const defaultData = defaultValueForSort(
+        fieldType,
+        Number(sort.get(YjsDatabaseKey.condition)),
+        isRollupNumeric,
+        formulaResultType
+      );
 
       if (!snapshot) return defaultData;
 
@@ -134,6 +141,14 @@ export function sortBy(
         return rollupValue?.value || defaultData;
       }
 
+      if (fieldType === FieldType.Formula) {
+        const { value, error } = getConditionFormulaCell(snapshot, field, fields);
+
+        if (error || value === null || value === '') return defaultData;
+        if (value instanceof Date) return value.getTime();
+        return value;
+      }
+
       const decoded = getConditionSortValue(snapshot, fieldId, field);
 
       if (decoded === undefined || decoded === null || decoded === '') {
@@ -160,7 +175,12 @@ export function sortBy(
   return sortData.map((item) => item.row);
 }
 
-export function defaultValueForSort(fieldType: FieldType, condition: SortCondition, isRollupNumeric?: boolean) {
+export function defaultValueForSort(
+  fieldType: FieldType,
+  condition: SortCondition,
+  isRollupNumeric?: boolean,
+  formulaResultType?: FormulaResultType
+) {
   switch (fieldType) {
     case FieldType.RichText:
     case FieldType.URL:
@@ -173,6 +193,7 @@ export function defaultValueForSort(fieldType: FieldType, condition: SortConditi
     case FieldType.Number:
     case FieldType.Checklist:
     case FieldType.DateTime:
+    case FieldType.UniqueId:
       return condition === SortCondition.Descending ? -Infinity : Infinity;
     case FieldType.Rollup:
       return isRollupNumeric
@@ -182,6 +203,13 @@ export function defaultValueForSort(fieldType: FieldType, condition: SortConditi
         : condition === SortCondition.Descending
         ? '\u0000'
         : '\uFFFF';
+    case FieldType.Formula:
+      if (formulaResultType === FormulaResultType.Checkbox) return false;
+      if (formulaResultType === FormulaResultType.Number || formulaResultType === FormulaResultType.Date) {
+        return condition === SortCondition.Descending ? -Infinity : Infinity;
+      }
+
+      return condition === SortCondition.Descending ? '\u0000' : '\uFFFF';
     case FieldType.Checkbox:
       return false;
     default:
@@ -0,0 +1,270 @@
+import dayjs, { Dayjs } from 'dayjs';
+import * as Y from 'yjs';
+
+import { DateTimeCell } from '@/application/database-yjs/cell.type';
+import { FieldType } from '@/application/database-yjs/database.type';
+import {
+  DatabaseViewLayout,
+  TimelineLayoutSettings,
+  TimelineZoom,
+  YDatabase,
+  YDatabaseFieldOrders,
+  YDatabaseLayoutSettings,
+  YDatabaseTimelineLayoutSetting,
+  YDatabaseView,
+  YDoc,
+  YjsDatabaseKey,
+  YjsEditorKey,
+} from '@/application/types';
+import { Log } from '@/utils/log';
+
+export const DEFAULT_TIMELINE_LAYOUT_SETTINGS: TimelineLayoutSettings = {
+  zoom: TimelineZoom.Week,
+};
+
+/** Width of one calendar day, in pixels, at each zoom level. */
+export const TIMELINE_DAY_WIDTH: Record<TimelineZoom, number> = {
+  [TimelineZoom.Day]: 48,
+  [TimelineZoom.Week]: 20,
+  [TimelineZoom.Month]: 6,
+  [TimelineZoom.Quarter]: 2,
+};
+
+export const TIMELINE_ZOOM_LEVELS = [TimelineZoom.Day, TimelineZoom.Week, TimelineZoom.Month, TimelineZoom.Quarter];
+
+export interface TimelineBarRange {
+  start: Dayjs;
+  end: Dayjs;
+}
+
+export interface TimelineBounds {
+  start: Dayjs;
+  end: Dayjs;
+}
+
+export interface TimelineTick {
+  date: Dayjs;
+  /** Offset of the tick from the start of the timeline, in days. */
+  offset: number;
+  /** Number of days covered by the tick. */
+  span: number;
+}
+
+export type TimelineResizeEdge = 'start' | 'end';
+
+function parseTimelineZoom(value: unknown): TimelineZoom {
+  const zoom = Number(value);
+
+  return TIMELINE_ZOOM_LEVELS.includes(zoom) ? zoom : DEFAULT_TIMELINE_LAYOUT_SETTINGS.zoom;
+}
+
+export function parseTimelineLayoutSetting(setting?: YDatabaseTimelineLayoutSetting): TimelineLayoutSettings {
+  return {
+    fieldId: setting?.get(YjsDatabaseKey.field_id) || undefined,
+    zoom: parseTimelineZoom(setting?.get(YjsDatabaseKey.zoom)),
+  };
+}
+
+/** The configured date field, if it still exists in the view and is a DateTime field. */
+export function getValidTimelineField(database: YDatabase, fieldOrders: YDatabaseFieldOrders, fieldId?: string) {
+  if (!fieldId || !fieldOrders.toArray().some((fieldOrder) => fieldOrder.id === fieldId)) return undefined;
+
+  const field = database.get(YjsDatabaseKey.fields)?.get(fieldId);
+
+  return Number(field?.get(YjsDatabaseKey.type)) === FieldType.DateTime ? field : undefined;
+}
+
+export function findTimelineDateFieldId(database: YDatabase, fieldOrders: YDatabaseFieldOrders): string | undefined {
+  const fields = database.get(YjsDatabaseKey.fields);
+
+  return fieldOrders.toArray().find(({ id }) => Number(fields?.get(id)?.get(YjsDatabaseKey.type)) === FieldType.DateTime)
+    ?.id;
+}
+
+export function initializeTimelineLayoutSetting(view: YDatabaseView, fieldId?: string): YDatabaseTimelineLayoutSetting {
+  let layoutSettings = view.get(YjsDatabaseKey.layout_settings);
+
+  if (!layoutSettings) {
+    layoutSettings = new Y.Map() as YDatabaseLayoutSettings;
+    view.set(YjsDatabaseKey.layout_settings, layoutSettings);
+  }
+
+  let timeline = layoutSettings.get('6') as YDatabaseTimelineLayoutSetting | undefined;
+
+  if (!timeline) {
+    timeline = new Y.Map() as YDatabaseTimelineLayoutSetting;
+    layoutSettings.set('6', timeline);
+  }
+
+  if (timeline.get(YjsDatabaseKey.zoom) === undefined) {
+    timeline.set(YjsDatabaseKey.zoom, DEFAULT_TIMELINE_LAYOUT_SETTINGS.zoom);
+  }
+
+  if (fieldId && timeline.get(YjsDatabaseKey.field_id) !== fieldId) {
+    timeline.set(YjsDatabaseKey.field_id, fieldId);
+  }
+
+  return timeline;
+}
+
+/**
+ * Convert a freshly-created server view into a Timeline.
+ *
+ * Cloud has no Timeline folder layout, so the view is created as a Grid and
+ * keeps the Grid field settings; only the layout and its settings change.
+ */
+export function normalizeCreatedDatabaseTimelineView(
+  databaseDoc: YDoc,
+  preferredViewId: string,
+  options: { name?: string } = {}
+): string | null {
+  const sharedRoot = databaseDoc.getMap(YjsEditorKey.data_section);
+  const database = sharedRoot.get(YjsEditorKey.database) as YDatabase | undefined;
+  const view = database?.get(YjsDatabaseKey.views)?.get(preferredViewId);
+  const fieldOrders = view?.get(YjsDatabaseKey.field_orders);
+
+  if (!database || !view || !fieldOrders) {
+    Log.warn('[Timeline creation] database payload has no convertible view', { preferredViewId });
+    return null;
+  }
+
+  databaseDoc.transact(() => {
+    initializeTimelineLayoutSetting(view, findTimelineDateFieldId(database, fieldOrders));
+    view.set(YjsDatabaseKey.layout, DatabaseViewLayout.Timeline);
+    if (options.name) view.set(YjsDatabaseKey.name, options.name);
+  }, 'normalizeCreatedDatabaseTimelineView');
+
+  return preferredViewId;
+}
+
+/**
+ * Read the bar a DateTime cell spans. A single date renders as a one-day bar;
+ * an end before the start is treated as a single date.
+ */
+export function getTimelineBarRange(
+  cell?: Pick<DateTimeCell, 'data' | 'endTimestamp' | 'isRange'>
+): TimelineBarRange | null {
+  if (!cell?.data || !/^\d+$/.test(cell.data)) return null;
+
+  const start = dayjs.unix(Number(cell.data)).startOf('day');
+  const end =
+    cell.isRange && cell.endTimestamp && /^\d+$/.test(cell.endTimestamp)
+      ? dayjs.unix(Number(cell.endTimestamp)).startOf('day')
+      : start;
+
+  return { start, end: end.isBefore(start) ? start : end };
+}
+
+/** Move both edges of a bar by whole days, preserving the time of day of the stored timestamps. */
+export function moveTimelineCellDates(cell: Pick<DateTimeCell, 'data' | 'endTimestamp' | 'isRange'>, days: number) {
+  const start = dayjs.unix(Number(cell.data)).add(days, 'day');
+  const end = cell.isRange && cell.endTimestamp ? dayjs.unix(Number(cell.endTimestamp)).add(days, 'day') : undefined;
+
+  return {
+    data: String(start.unix()),
+    endTimestamp: end ? String(end.unix()) : undefined,
+  };
+}
+
+/**
+ * Move one edge of a bar by whole days. Resizing always produces a range, and
+ * an edge cannot be dragged past the other one.
+ */
+export function resizeTimelineCellDates(
+  cell: Pick<DateTimeCell, 'data' | 'endTimestamp' | 'isRange'>,
+  edge: TimelineResizeEdge,
+  days: number
+) {
+  const start = dayjs.unix(Number(cell.data));
+  const end = cell.isRange && cell.endTimestamp ? dayjs.unix(Number(cell.endTimestamp)) : start;
+
+  if (edge === 'start') {
+    const nextStart = start.add(days, 'day');
+
+    return {
+      data: String((nextStart.isAfter(end) ? end : nextStart).unix()),
+      endTimestamp: String(end.unix()),
+    };
+  }
+
+  const nextEnd = end.add(days, 'day');
+
+  return {
+    data: String(start.unix()),
+    endTimestamp: String((nextEnd.isBefore(start) ? start : nextEnd).unix()),
+  };
+}
+
+function startOfTimelineUnit(date: Dayjs, zoom: TimelineZoom) {
+  switch (zoom) {
+    case TimelineZoom.Day:
+      return date.startOf('day');
+    case TimelineZoom.Week:
+      return date.startOf('week');
+    case TimelineZoom.Month:
+      return date.startOf('month');
+    case TimelineZoom.Quarter:
+      return date.startOf('month').month(date.month() - (date.month() % 3));
+  }
+}
+
+function addTimelineUnit(date: Dayjs, zoom: TimelineZoom, amount = 1) {
+  switch (zoom) {
+    case TimelineZoom.Day:
+      return date.add(amount, 'day');
+    case TimelineZoom.Week:
+      return date.add(amount, 'week');
+    case TimelineZoom.Month:
+      return date.add(amount, 'month');
+    case TimelineZoom.Quarter:
+      return date.add(amount * 3, 'month');
+  }
+}
+
+/**
+ * The visible date span: every bar plus today, padded by two ticks on each
+ * side so there is room to drag bars outward.
+ */
+export function getTimelineBounds(
+  ranges: TimelineBarRange[],
+  zoom: TimelineZoom,
+  today: Dayjs = dayjs()
+): TimelineBounds {
+  let start = today.startOf('day');
+  let end = start;
+
+  ranges.forEach((range) => {
+    if (range.start.isBefore(start)) start = range.start;
+    if (range.end.isAfter(end)) end = range.end;
+  });
+
+  return {
+    start: addTimelineUnit(startOfTimelineUnit(start, zoom), zoom, -2),
+    end: addTimelineUnit(startOfTimelineUnit(end, zoom), zoom, 3),
+  };
+}
+
+export function getTimelineTicks(bounds: TimelineBounds, zoom: TimelineZoom): TimelineTick[] {
+  const ticks: TimelineTick[] = [];
+
+  for (let date = bounds.start; date.isBefore(bounds.end); date = addTimelineUnit(date, zoom)) {
+    const next = addTimelineUnit(date, zoom);
+
+    ticks.push({
+      date,
+      offset: getTimelineDayOffset(bounds.start, date),
+      span: getTimelineDayOffset(date, next),
+    });
+  }
+
+  return ticks;
+}
+
+export function getTimelineDayOffset(from: Dayjs, to: Dayjs) {
+  return Math.round(to.startOf('day').diff(from.startOf('day'), 'day', true));
+}
+
+/** Convert a horizontal pointer movement into a whole number of days. */
+export function getTimelineDayDelta(pixels: number, zoom: TimelineZoom) {
+  return Math.round(pixels / TIMELINE_DAY_WIDTH[zoom]) || 0;
+}
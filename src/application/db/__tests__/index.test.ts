@@ -101,6 +101,25 @@ describe('collab IndexedDB persistence internals', () => {
     );
   });
 
+  it('indexes backlinks by each mentioned view', () => {
+    const schema = db.backlinks.schema;
+
+    expect(schema.primKey.src).toBe('[user_id+workspace_id+source_id]');
+    expect(schema.indexes.map((index) => index.src)).toEqual(
+      expect.arrayContaining(['[user_id+workspace_id]', '*target_ids'])
+    );
+  });
+
+  it('indexes offline pins by each downloaded view', () => {
+    const schema = db.offline_pins.schema;
+
+    expect(schema.primKey.src).toBe('[user_id+workspace_id+view_id]');
+    expect(schema.indexes.map((index) => index.src)).toEqual(
+      expect.arrayContaining(['[user_id+workspace_id]', '*view_ids'])
+    );
+    expect(db.offline_files.schema.primKey.src).toBe('url');
+  });
+
   it('clears all blob RID checkpoints when the shared collab cache database is deleted', () => {
     localStorage.setItem('af_database_blob_rid:database-1', JSON.stringify({ timestamp: 1, seqNo: 2 }));
     localStorage.setItem('af_database_blob_rid:database-2', JSON.stringify({ timestamp: 3, seqNo: 4 }));
@@ -4,12 +4,14 @@ import * as Y from 'yjs';
 
 import { databasePrefix } from '@/application/constants';
 import { appViewCacheSchema, type AppViewCacheTable } from '@/application/db/tables/app_view_cache';
+import { backlinksSchema, type BacklinksTable } from '@/application/db/tables/backlinks';
 import {
   collabStorageSchema,
   type CollabSnapshotRecord,
   type CollabStorageTable,
   type CollabUpdateRecord,
 } from '@/application/db/tables/collab_storage';
+import { offlineSchema, type OfflineTable } from '@/application/db/tables/offline';
 import { rowSchema, rowTable } from '@/application/db/tables/rows';
 import { syncOutboxSchema, SyncOutboxTable } from '@/application/db/tables/sync_outbox';
 import { userSchema, UserTable } from '@/application/db/tables/users';
@@ -34,7 +36,9 @@ type DexieTables = ViewMetasTable &
   SyncOutboxTable &
   CollabStorageTable &
   AppViewCacheTable &
-  WorkspaceDatabaseCatalogTable;
+  WorkspaceDatabaseCatalogTable &
+  BacklinksTable &
+  OfflineTable;
 
 export type Dexie<T = DexieTables> = BaseDexie & T;
 
@@ -50,6 +54,8 @@ const _schema = Object.assign(
     ...collabStorageSchema,
     ...appViewCacheSchema,
     ...workspaceDatabaseCatalogSchema,
+    ...backlinksSchema,
+    ...offlineSchema,
   }
 );
 
@@ -251,6 +257,37 @@ db.version(12).stores({
   ...workspaceDatabaseCatalogSchema,
 });
 
+// Version 13: local index of page mentions, keyed by the mentioning document,
+// so a page can list what links to it without a server round trip.
+db.version(13).stores({
+  ...viewMetasSchema,
+  ...userSchema,
+  ...rowSchema,
+  ...workspaceMemberProfileSchema,
+  ...versionSchema,
+  ...syncOutboxSchema,
+  ...collabStorageSchema,
+  ...appViewCacheSchema,
+  ...workspaceDatabaseCatalogSchema,
+  ...backlinksSchema,
+});
+
+// Version 14: views pinned as "Available offline" and the attachments downloaded
+// for them, so pinned pages render without network.
+db.version(14).stores({
+  ...viewMetasSchema,
+  ...userSchema,
+  ...rowSchema,
+  ...workspaceMemberProfileSchema,
+  ...versionSchema,
+  ...syncOutboxSchema,
+  ...collabStorageSchema,
+  ...appViewCacheSchema,
+  ...workspaceDatabaseCatalogSchema,
+  ...backlinksSchema,
+  ...offlineSchema,
+});
+
 const openedSet = new Set<string>();
 const ensuredStores = new Map<string, Promise<void>>();
 
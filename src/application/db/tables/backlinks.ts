@@ -0,0 +1,30 @@
+import { Table } from 'dexie';
+
+/** One mention of `target_id`, with the text around it in the source block. */
+export interface BacklinkReference {
+  target_id: string;
+  block_id: string;
+  before: string;
+  after: string;
+}
+
+export interface BacklinkRecord {
+  user_id: string;
+  workspace_id: string;
+  /** The view id of the page, or the document id of a database row. */
+  source_id: string;
+  database_id?: string;
+  database_view_id?: string;
+  row_id?: string;
+  target_ids: string[];
+  references: BacklinkReference[];
+  updated_at: number;
+}
+
+export type BacklinksTable = {
+  backlinks: Table<BacklinkRecord, [string, string, string]>;
+};
+
+export const backlinksSchema = {
+  backlinks: '[user_id+workspace_id+source_id], [user_id+workspace_id], *target_ids, updated_at',
+};
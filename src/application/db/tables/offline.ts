@@ -0,0 +1,34 @@
+import { Table } from 'dexie';
+
+export type OfflinePinStatus = 'downloading' | 'ready' | 'failed';
+
+/** A page, space or database the user marked as "Available offline". */
+export interface OfflinePinRecord {
+  user_id: string;
+  workspace_id: string;
+  view_id: string;
+  status: OfflinePinStatus;
+  /** The pinned view and every view below it that was downloaded. */
+  view_ids: string[];
+  /** Attachments stored in `offline_files` for these views. */
+  file_urls: string[];
+  error?: string;
+  created_at: number;
+  synced_at?: number;
+}
+
+export interface OfflineFileRecord {
+  url: string;
+  blob: Blob;
+  updated_at: number;
+}
+
+export type OfflineTable = {
+  offline_pins: Table<OfflinePinRecord, [string, string, string]>;
+  offline_files: Table<OfflineFileRecord, string>;
+};
+
+export const offlineSchema = {
+  offline_pins: '[user_id+workspace_id+view_id], [user_id+workspace_id], *view_ids',
+  offline_files: 'url, updated_at',
+};
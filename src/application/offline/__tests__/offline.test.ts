@@ -0,0 +1,224 @@
+import * as Y from 'yjs';
+
+import { db } from '@/application/db';
+import {
+  extractAttachmentUrls,
+  pinViewOffline,
+  refreshOfflinePins,
+  resolveOfflineStatus,
+  unpinViewOffline,
+} from '@/application/offline';
+import { CollabService, ViewService } from '@/application/services/domains';
+import { getTokenParsed } from '@/application/session/token';
+import { insertBlock, withTestingYDoc } from '@/application/slate-yjs/__tests__/withTestingYjsEditor';
+import { BlockType, Types, ViewLayout, YDoc } from '@/application/types';
+import { openView } from '@/application/view-loader';
+import { fetchAuthenticatedFile } from '@/utils/authenticated-image';
+
+jest.mock('nanoid');
+
+jest.mock('@/application/db', () => ({
+  db: {
+    offline_pins: {
+      get: jest.fn(),
+      put: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+      toArray: jest.fn(),
+      where: jest.fn(),
+    },
+    offline_files: {
+      get: jest.fn(),
+      put: jest.fn(),
+      bulkDelete: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('@/application/session/token', () => ({
+  getTokenParsed: jest.fn(),
+}));
+
+jest.mock('@/application/services/domains', () => ({
+  CollabService: { fullSyncBatch: jest.fn() },
+  ViewService: { get: jest.fn() },
+}));
+
+jest.mock('@/application/view-loader', () => ({
+  openView: jest.fn(),
+  openRowSubDocument: jest.fn(),
+  getDatabaseIdFromDoc: jest.fn(),
+}));
+
+jest.mock('@/application/database-blob', () => ({
+  prefetchDatabaseBlobDiff: jest.fn(),
+}));
+
+jest.mock('@/application/services/js-services/cache', () => ({
+  createRow: jest.fn(),
+}));
+
+jest.mock('@/utils/authenticated-image', () => ({
+  fetchAuthenticatedFile: jest.fn(),
+}));
+
+const pinsTable = db.offline_pins as unknown as Record<
+  'get' | 'put' | 'update' | 'delete' | 'toArray' | 'where',
+  jest.Mock
+>;
+const filesTable = db.offline_files as unknown as Record<'get' | 'put' | 'bulkDelete', jest.Mock>;
+
+const FILE_URL = '/api/file_storage/workspace-1/v1/blob/view/image.png';
+
+function docWithBlocks(id: string, blocks: Record<string, unknown>[]) {
+  const doc = withTestingYDoc(id) as YDoc;
+
+  blocks.forEach((data, index) => {
+    insertBlock({
+      doc,
+      blockObject: {
+        id: `${id}-block-${index}`,
+        ty: BlockType.ImageBlock,
+        relation_id: `${id}-block-${index}`,
+        text_id: `${id}-block-${index}`,
+        data: JSON.stringify(data),
+      },
+    });
+  });
+
+  return doc;
+}
+
+describe('offline pinning', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getTokenParsed as jest.Mock).mockReturnValue({ user: { id: 'user-1' } });
+    (CollabService.fullSyncBatch as jest.Mock).mockResolvedValue([]);
+  });
+
+  describe('extractAttachmentUrls', () => {
+    it('collects file storage URLs from block data and skips external ones', () => {
+      const doc = docWithBlocks('page', [
+        { url: FILE_URL },
+        { images: [{ url: FILE_URL }, { url: 'https://example.com/cat.png' }] },
+        { url: '/api/file_storage/workspace-1/v1/blob/view/report.pdf', name: 'report.pdf' },
+      ]);
+
+      expect(extractAttachmentUrls(doc)).toEqual([FILE_URL, '/api/file_storage/workspace-1/v1/blob/view/report.pdf']);
+    });
+  });
+
+  describe('resolveOfflineStatus', () => {
+    it('prefers a finished pin over pending and failed ones', () => {
+      expect(resolveOfflineStatus([])).toBeUndefined();
+      expect(resolveOfflineStatus([{ status: 'failed' }])).toBe('failed');
+      expect(resolveOfflineStatus([{ status: 'failed' }, { status: 'downloading' }])).toBe('downloading');
+      expect(resolveOfflineStatus([{ status: 'downloading' }, { status: 'ready' }])).toBe('ready');
+    });
+  });
+
+  describe('pinViewOffline', () => {
+    it('downloads every page below a space with its attachments', async () => {
+      const views: Record<string, object> = {
+        space: { view_id: 'space', layout: ViewLayout.Document, is_space: true, children: [{ view_id: 'page' }] },
+        page: { view_id: 'page', layout: ViewLayout.Document, children: [{ view_id: 'chat' }] },
+        chat: { view_id: 'chat', layout: ViewLayout.AIChat, children: [] },
+      };
+      const blob = new Blob(['png']);
+
+      (ViewService.get as jest.Mock).mockImplementation(async (_workspaceId: string, viewId: string) => views[viewId]);
+      (openView as jest.Mock).mockResolvedValue({ doc: docWithBlocks('page', [{ url: FILE_URL }]) });
+      (fetchAuthenticatedFile as jest.Mock).mockResolvedValue(blob);
+      pinsTable.get.mockResolvedValue(undefined);
+      filesTable.get.mockResolvedValue(undefined);
+
+      await pinViewOffline('workspace-1', 'space');
+
+      expect(pinsTable.put).toHaveBeenCalledWith(
+        expect.objectContaining({ user_id: 'user-1', workspace_id: 'workspace-1', view_id: 'space' })
+      );
+      expect(openView).toHaveBeenCalledTimes(1);
+      expect(openView).toHaveBeenCalledWith('workspace-1', 'page', ViewLayout.Document);
+      expect(filesTable.put).toHaveBeenCalledWith(expect.objectContaining({ url: FILE_URL, blob }));
+      expect(pinsTable.update).toHaveBeenLastCalledWith(
+        ['user-1', 'workspace-1', 'space'],
+        expect.objectContaining({ status: 'ready', view_ids: ['space', 'page', 'chat'], file_urls: [FILE_URL] })
+      );
+    });
+
+    it('records a failed download', async () => {
+      (ViewService.get as jest.Mock).mockRejectedValue(new Error('offline'));
+      pinsTable.get.mockResolvedValue(undefined);
+
+      await pinViewOffline('workspace-1', 'page');
+
+      expect(pinsTable.update).toHaveBeenLastCalledWith(
+        ['user-1', 'workspace-1', 'page'],
+        expect.objectContaining({ status: 'failed', error: 'offline' })
+      );
+    });
+  });
+
+  describe('refreshOfflinePins', () => {
+    const views: Record<string, object> = {
+      page: { view_id: 'page', layout: ViewLayout.Document, children: [] },
+    };
+
+    function mockPins(pins: object[]) {
+      pinsTable.where.mockReturnValue({ equals: () => ({ toArray: () => Promise.resolve(pins) }) });
+    }
+
+    beforeEach(() => {
+      (ViewService.get as jest.Mock).mockImplementation(async (_workspaceId: string, viewId: string) => views[viewId]);
+    });
+
+    it('applies only the updates the cached doc is missing', async () => {
+      const server = new Y.Doc();
+      const cached = new Y.Doc() as YDoc;
+
+      server.getText('text').insert(0, 'hello');
+      Y.applyUpdate(cached, Y.encodeStateAsUpdate(server));
+      server.getText('text').insert(5, ' world');
+
+      mockPins([{ view_id: 'page', status: 'ready', synced_at: Date.now() - 60 * 60 * 1000 }]);
+      (openView as jest.Mock).mockResolvedValue({ doc: cached });
+      (CollabService.fullSyncBatch as jest.Mock).mockImplementation(
+        async (_workspaceId: string, items: { objectId: string; collabType: Types; stateVector: Uint8Array }[]) =>
+          items.map((item) => ({
+            objectId: item.objectId,
+            collabType: item.collabType,
+            missingUpdate: Y.encodeStateAsUpdate(server, item.stateVector),
+            serverStateVector: Y.encodeStateVector(server),
+          }))
+      );
+
+      await refreshOfflinePins('workspace-1');
+
+      expect(CollabService.fullSyncBatch).toHaveBeenCalledWith('workspace-1', [
+        expect.objectContaining({ objectId: 'page', collabType: Types.Document }),
+      ]);
+      expect(cached.getText('text').toString()).toBe('hello world');
+    });
+
+    it('skips pins synced a moment ago', async () => {
+      mockPins([{ view_id: 'page', status: 'ready', synced_at: Date.now() }]);
+
+      await refreshOfflinePins('workspace-1');
+
+      expect(ViewService.get).not.toHaveBeenCalled();
+      expect(CollabService.fullSyncBatch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('unpinViewOffline', () => {
+    it('keeps attachments another pin still needs', async () => {
+      pinsTable.get.mockResolvedValue({ view_id: 'page', file_urls: ['a', 'b'] });
+      pinsTable.toArray.mockResolvedValue([{ view_id: 'other', file_urls: ['b'] }]);
+
+      await unpinViewOffline('workspace-1', 'page');
+
+      expect(pinsTable.delete).toHaveBeenCalledWith(['user-1', 'workspace-1', 'page']);
+      expect(filesTable.bulkDelete).toHaveBeenCalledWith(['a']);
+    });
+  });
+});
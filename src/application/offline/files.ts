@@ -0,0 +1,28 @@
+import { db } from '@/application/db';
+import { Log } from '@/utils/log';
+
+/** The stored copy of an attachment of a page pinned as "Available offline". */
+export async function getOfflineFile(url: string): Promise<Blob | undefined> {
+  try {
+    const record = await db.offline_files.get(url);
+
+    return record?.blob;
+  } catch (error) {
+    Log.warn('[Offline] failed to read file', { url, error });
+    return undefined;
+  }
+}
+
+export async function saveOfflineFile(url: string, blob: Blob): Promise<void> {
+  await db.offline_files.put({ url, blob, updated_at: Date.now() });
+}
+
+export async function deleteOfflineFiles(urls: string[]): Promise<void> {
+  if (urls.length === 0) return;
+
+  try {
+    await db.offline_files.bulkDelete(urls);
+  } catch (error) {
+    Log.warn('[Offline] failed to delete files', { count: urls.length, error });
+  }
+}
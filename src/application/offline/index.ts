@@ -0,0 +1,393 @@
+/**
+ * "Available offline" pinning.
+ *
+ * Pinning a page, space or database downloads the collabs of the view and
+ * every view below it, the rows and row documents of its databases, and the
+ * attachments their documents reference. Collabs land in the same IndexedDB
+ * stores `openView` reads, so pinned pages open from cache without network.
+ * Edits made offline go through the sync outbox like any other edit and are
+ * replayed when the socket returns; Yjs merges them with remote changes.
+ *
+ * Refreshing a pin opens its collabs from cache and asks the server only for
+ * the updates their state vectors are missing, in batches, so reconnecting
+ * does not download a pinned database again.
+ */
+
+import * as Y from 'yjs';
+
+import { prefetchDatabaseBlobDiff } from '@/application/database-blob';
+import { getMetaJSON, getRowKey } from '@/application/database-yjs/row_meta';
+import { db } from '@/application/db';
+import { OfflinePinRecord, OfflinePinStatus } from '@/application/db/tables/offline';
+import { deleteOfflineFiles, getOfflineFile, saveOfflineFile } from '@/application/offline/files';
+import { CollabService, ViewService } from '@/application/services/domains';
+import { createRow } from '@/application/services/js-services/cache';
+import { getTokenParsed } from '@/application/session/token';
+import {
+  Types,
+  View,
+  ViewLayout,
+  YDatabaseMetas,
+  YDoc,
+  YjsDatabaseKey,
+  YjsEditorKey,
+  YSharedRoot,
+} from '@/application/types';
+import { getDatabaseIdFromDoc, openRowSubDocument, openView } from '@/application/view-loader';
+import { getDatabaseIdFromExtra, isDatabaseLayout, isSpaceView } from '@/application/view-utils';
+import { fetchAuthenticatedFile } from '@/utils/authenticated-image';
+import { isAppFlowyFileStorageUrl } from '@/utils/file-storage-url';
+import { Log } from '@/utils/log';
+
+export * from './files';
+
+/** Collabs sent per state vector sync request. */
+const SYNC_BATCH_SIZE = 50;
+/** Pins synced more recently than this are considered up to date. */
+const PIN_REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+// Canonical empty lib0-v1 update: local edits reach the server through the outbox.
+const EMPTY_UPDATE = new Uint8Array([0, 0]);
+
+interface PinnedCollab {
+  objectId: string;
+  collabType: Types;
+  doc: YDoc;
+}
+
+function currentUserId(): string | undefined {
+  return getTokenParsed()?.user?.id;
+}
+
+function collectFileUrls(value: unknown, urls: Set<string>) {
+  if (typeof value === 'string') {
+    if (isAppFlowyFileStorageUrl(value)) urls.add(value);
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectFileUrls(item, urls));
+    return;
+  }
+
+  if (value && typeof value === 'object') {
+    Object.values(value).forEach((item) => collectFileUrls(item, urls));
+  }
+}
+
+/**
+ * AppFlowy file storage URLs referenced by block data (images, files, videos,
+ * galleries, ...). Other URLs are left to the browser cache.
+ */
+export function extractAttachmentUrls(doc: YDoc): string[] {
+  const sharedRoot = doc.getMap(YjsEditorKey.data_section) as YSharedRoot;
+  const document = sharedRoot.get(YjsEditorKey.document) as Y.Map<unknown> | undefined;
+  const blocks = document?.get(YjsEditorKey.blocks) as Y.Map<Y.Map<unknown>> | undefined;
+  const urls = new Set<string>();
+
+  blocks?.forEach((block) => {
+    const data = block.get(YjsEditorKey.block_data);
+
+    if (typeof data !== 'string') return;
+
+    try {
+      collectFileUrls(JSON.parse(data), urls);
+    } catch {
+      // Malformed block data has nothing to download
+    }
+  });
+
+  return Array.from(urls);
+}
+
+/**
+ * Offline status of a view from the pins covering it. A view counts as
+ * available as soon as one pin finished downloading it.
+ */
+export function resolveOfflineStatus(pins: Pick<OfflinePinRecord, 'status'>[]): OfflinePinStatus | undefined {
+  if (pins.some((pin) => pin.status === 'ready')) return 'ready';
+  if (pins.some((pin) => pin.status === 'downloading')) return 'downloading';
+  return pins.length > 0 ? 'failed' : undefined;
+}
+
+/** The view and every view below it, loading children the outline has not fetched yet. */
+async function collectViews(workspaceId: string, viewId: string): Promise<View[]> {
+  const view = await ViewService.get(workspaceId, viewId);
+  const views = [view];
+
+  for (const child of view.children ?? []) {
+    views.push(...(await collectViews(workspaceId, child.view_id)));
+  }
+
+  return views;
+}
+
+function getRowIds(doc: YDoc, viewId: string): string[] {
+  const sharedRoot = doc.getMap(YjsEditorKey.data_section) as YSharedRoot;
+  const rowOrders = sharedRoot
+    .get(YjsEditorKey.database)
+    ?.get(YjsDatabaseKey.views)
+    ?.get(viewId)
+    ?.get(YjsDatabaseKey.row_orders);
+
+  return rowOrders ? rowOrders.toArray().flatMap((row) => (row.is_deleted ? [] : [row.id])) : [];
+}
+
+/**
+ * Opens the rows of one database view and their documents from cache.
+ * Row documents are fetched only when missing; rows are synced by the caller.
+ */
+async function collectRows(
+  workspaceId: string,
+  databaseId: string,
+  viewId: string,
+  doc: YDoc,
+  collabs: PinnedCollab[],
+  fileUrls: Set<string>
+) {
+  for (const rowId of getRowIds(doc, viewId)) {
+    const rowDoc = await createRow(getRowKey(databaseId, rowId));
+
+    collabs.push({ objectId: rowId, collabType: Types.DatabaseRow, doc: rowDoc });
+
+    const rowMeta = rowDoc.getMap(YjsEditorKey.data_section).get(YjsEditorKey.meta) as YDatabaseMetas | undefined;
+    const meta = rowMeta ? getMetaJSON(rowId, rowMeta) : null;
+
+    if (!meta?.documentId || meta.isEmptyDocument !== false) continue;
+
+    const { doc: rowDocument } = await openRowSubDocument(workspaceId, meta.documentId, {
+      rowDocumentSource: { database_id: databaseId, database_view_id: viewId, row_id: rowId },
+    });
+
+    collabs.push({ objectId: meta.documentId, collabType: Types.Document, doc: rowDocument });
+    extractAttachmentUrls(rowDocument).forEach((url) => fileUrls.add(url));
+  }
+}
+
+/**
+ * Bring cached collabs up to date by sending their state vectors and applying
+ * only the updates the server reports missing.
+ */
+async function syncCollabs(workspaceId: string, collabs: PinnedCollab[]) {
+  for (let start = 0; start < collabs.length; start += SYNC_BATCH_SIZE) {
+    const batch = collabs.slice(start, start + SYNC_BATCH_SIZE);
+    const results = await CollabService.fullSyncBatch(
+      workspaceId,
+      batch.map(({ objectId, collabType, doc }) => ({
+        objectId,
+        collabType,
+        stateVector: Y.encodeStateVector(doc),
+        docState: EMPTY_UPDATE,
+        collabVersion: doc.version,
+      }))
+    );
+
+    for (const result of results) {
+      const collab = batch.find((item) => item.objectId === result.objectId);
+
+      if (!collab || result.error || result.missingUpdate.byteLength <= 2) continue;
+
+      // A reset on the server starts a new history; the regular sync rebuilds
+      // the doc the next time it is opened.
+      if (result.collabVersion && collab.doc.version && result.collabVersion !== collab.doc.version) {
+        Log.debug('[Offline] skipped collab with a new server version', { objectId: result.objectId });
+        continue;
+      }
+
+      Y.applyUpdate(collab.doc, result.missingUpdate);
+    }
+  }
+}
+
+async function downloadFiles(urls: string[]) {
+  for (const url of urls) {
+    if (await getOfflineFile(url)) continue;
+
+    try {
+      await saveOfflineFile(url, await fetchAuthenticatedFile(url));
+    } catch (error) {
+      // A missing attachment should not keep the rest of the page from being available
+      Log.warn('[Offline] failed to download file', { url, error });
+    }
+  }
+}
+
+/**
+ * Download everything a pin covers and record what was stored. Cached collabs
+ * are synced by state vector so the local copy is current when the network goes away.
+ */
+async function downloadPin(workspaceId: string, viewId: string, userId: string): Promise<void> {
+  const key: [string, string, string] = [userId, workspaceId, viewId];
+
+  await db.offline_pins.update(key, { status: 'downloading', error: undefined });
+
+  try {
+    const views = await collectViews(workspaceId, viewId);
+    const fileUrls = new Set<string>();
+    const syncedDatabaseIds = new Set<string>();
+    const collabs: PinnedCollab[] = [];
+
+    for (const view of views) {
+      if (isSpaceView(view) || view.layout === ViewLayout.AIChat) continue;
+
+      if (view.layout === ViewLayout.Document) {
+        const { doc } = await openView(workspaceId, view.view_id, view.layout);
+
+        collabs.push({ objectId: view.view_id, collabType: Types.Document, doc });
+        extractAttachmentUrls(doc).forEach((url) => fileUrls.add(url));
+        continue;
+      }
+
+      if (!isDatabaseLayout(view.layout)) continue;
+
+      const databaseIdHint = getDatabaseIdFromExtra(view);
+      const { doc } = await openView(workspaceId, view.view_id, view.layout, {
+        databaseId: databaseIdHint,
+      });
+      const databaseId = databaseIdHint ?? getDatabaseIdFromDoc(doc);
+
+      if (!databaseId) continue;
+
+      // Linked views share their database's rows; fetch them once
+      if (!syncedDatabaseIds.has(databaseId)) {
+        syncedDatabaseIds.add(databaseId);
+        collabs.push({ objectId: databaseId, collabType: Types.Database, doc });
+        await prefetchDatabaseBlobDiff(workspaceId, databaseId);
+      }
+
+      await collectRows(workspaceId, databaseId, view.view_id, doc, collabs, fileUrls);
+    }
+
+    await syncCollabs(workspaceId, collabs);
+    await downloadFiles(Array.from(fileUrls));
+    await db.offline_pins.update(key, {
+      status: 'ready',
+      view_ids: views.map((view) => view.view_id),
+      file_urls: Array.from(fileUrls),
+      synced_at: Date.now(),
+    });
+  } catch (error) {
+    Log.warn('[Offline] failed to download pinned view', { viewId, error });
+    await db.offline_pins.update(key, {
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/** Pin a page, space or database as "Available offline" and download it. */
+export async function pinViewOffline(workspaceId: string, viewId: string): Promise<void> {
+  const userId = currentUserId();
+
+  if (!userId) return;
+
+  const existing = await db.offline_pins.get([userId, workspaceId, viewId]);
+
+  if (!existing) {
+    await db.offline_pins.put({
+      user_id: userId,
+      workspace_id: workspaceId,
+      view_id: viewId,
+      status: 'downloading',
+      view_ids: [viewId],
+      file_urls: [],
+      created_at: Date.now(),
+    });
+  }
+
+  await downloadPin(workspaceId, viewId, userId);
+}
+
+/**
+ * Stop keeping a view offline. Downloaded collabs stay in the regular cache;
+ * attachments no other pin needs are removed.
+ */
+export async function unpinViewOffline(workspaceId: string, viewId: string): Promise<void> {
+  const userId = currentUserId();
+
+  if (!userId) return;
+
+  try {
+    const key: [string, string, string] = [userId, workspaceId, viewId];
+    const pin = await db.offline_pins.get(key);
+
+    if (!pin) return;
+
+    await db.offline_pins.delete(key);
+
+    const remaining = await db.offline_pins.toArray();
+    const stillNeeded = new Set(remaining.flatMap((record) => record.file_urls));
+
+    await deleteOfflineFiles(pin.file_urls.filter((url) => !stillNeeded.has(url)));
+  } catch (error) {
+    Log.warn('[Offline] failed to unpin view', { viewId, error });
+  }
+}
+
+const refreshing = new Map<string, Promise<void>>();
+
+/**
+ * Sync the pins of the workspace, e.g. after reconnecting. Pins synced in the
+ * last few minutes are skipped; concurrent calls share one pass.
+ */
+export function refreshOfflinePins(workspaceId: string): Promise<void> {
+  const userId = currentUserId();
+
+  if (!userId) return Promise.resolve();
+
+  const refreshKey = `${userId}:${workspaceId}`;
+  const pending = refreshing.get(refreshKey);
+
+  if (pending) return pending;
+
+  const promise = (async () => {
+    const pins = await db.offline_pins.where('[user_id+workspace_id]').equals([userId, workspaceId]).toArray();
+
+    for (const pin of pins) {
+      if (pin.status === 'ready' && pin.synced_at && Date.now() - pin.synced_at < PIN_REFRESH_INTERVAL_MS) continue;
+
+      await downloadPin(workspaceId, pin.view_id, userId);
+    }
+  })()
+    .catch((error) => {
+      Log.warn('[Offline] failed to refresh pinned views', { workspaceId, error });
+    })
+    .finally(() => {
+      refreshing.delete(refreshKey);
+    });
+
+  refreshing.set(refreshKey, promise);
+  return promise;
+}
+
+export async function getOfflinePin(workspaceId: string, viewId: string): Promise<OfflinePinRecord | undefined> {
+  const userId = currentUserId();
+
+  if (!userId) return undefined;
+
+  try {
+    return await db.offline_pins.get([userId, workspaceId, viewId]);
+  } catch (error) {
+    Log.warn('[Offline] failed to read pin', { viewId, error });
+    return undefined;
+  }
+}
+
+/** Whether `viewId` is available offline, through its own pin or one of an ancestor. */
+export async function getOfflineViewStatus(workspaceId: string, viewId: string): Promise<OfflinePinStatus | undefined> {
+  const userId = currentUserId();
+
+  if (!userId) return undefined;
+
+  try {
+    const pins = await db.offline_pins
+      .where('view_ids')
+      .equals(viewId)
+      .filter((pin) => pin.user_id === userId && pin.workspace_id === workspaceId)
+      .toArray();
+
+    return resolveOfflineStatus(pins);
+  } catch (error) {
+    Log.warn('[Offline] failed to read status', { viewId, error });
+    return undefined;
+  }
+}
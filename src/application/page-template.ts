@@ -0,0 +1,161 @@
+import dayjs from 'dayjs';
+import { Element, Text } from 'slate';
+
+import { INLINE_COMMENT_IDS_KEY, SUGGESTION_DELETE_KEY, SUGGESTION_INSERT_KEY } from '@/application/slate-yjs/types';
+import { yDocToSlateContent } from '@/application/slate-yjs/utils/convert';
+import { View, ViewLayout, YDoc, YjsEditorKey } from '@/application/types';
+
+/** Variables every template can use without prompting. */
+export enum PageTemplateBuiltInVariable {
+  Date = 'date',
+  Time = 'time',
+  User = 'user',
+  PageTitle = 'page_title',
+}
+
+const BUILT_IN_VARIABLES = new Set<string>(Object.values(PageTemplateBuiltInVariable));
+
+// Review state belongs to the template page, not to the pages made from it.
+const STRIPPED_LEAF_KEYS = [INLINE_COMMENT_IDS_KEY, SUGGESTION_INSERT_KEY, SUGGESTION_DELETE_KEY];
+
+const createVariablePattern = () => /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+export interface PageTemplateContext {
+  /** Name of the signed-in user, for `{{user}}`. */
+  user: string;
+  /** Title of the page the template lands in, for `{{page_title}}`. */
+  pageTitle: string;
+  /** Answers to the prompted variables, keyed by variable name. */
+  values: Record<string, string>;
+  now?: Date;
+}
+
+export interface PageTemplatePageData {
+  type: 'page';
+  children: PageTemplateBlockData[];
+}
+
+interface PageTemplateBlockData {
+  type: string;
+  data: Record<string, unknown>;
+  children: PageTemplateBlockData[];
+}
+
+export function isPageTemplate(view: View): boolean {
+  return view.layout === ViewLayout.Document && Boolean(view.extra?.page_template);
+}
+
+/** Template pages of the workspace, in outline order. */
+export function getPageTemplates(views: View[]): View[] {
+  return views.flatMap((view) => [...(isPageTemplate(view) ? [view] : []), ...getPageTemplates(view.children || [])]);
+}
+
+/** Top-level blocks of a template page, read from its document. */
+export function getPageTemplateContent(doc: YDoc): Element[] {
+  const root = yDocToSlateContent(doc);
+
+  if (!root) return [];
+
+  return root.children.filter((child): child is Element => Element.isElement(child) && child.type !== YjsEditorKey.text);
+}
+
+function getLeaves(nodes: Element['children']): Text[] {
+  return nodes.flatMap((node) => (Text.isText(node) ? [node] : getLeaves(node.children)));
+}
+
+/**
+ * Variables the user has to fill in, deduplicated in reading order. A
+ * placeholder only counts when it is written in one run of formatting.
+ */
+export function getTemplateVariables(nodes: Element[]): string[] {
+  const variables = new Set<string>();
+
+  for (const leaf of getLeaves(nodes)) {
+    for (const match of leaf.text.matchAll(createVariablePattern())) {
+      if (!BUILT_IN_VARIABLES.has(match[1])) variables.add(match[1]);
+    }
+  }
+
+  return Array.from(variables);
+}
+
+function resolveVariable(name: string, context: PageTemplateContext): string | undefined {
+  const now = dayjs(context.now);
+
+  switch (name) {
+    case PageTemplateBuiltInVariable.Date:
+      return now.format('MMM D, YYYY');
+    case PageTemplateBuiltInVariable.Time:
+      return now.format('HH:mm');
+    case PageTemplateBuiltInVariable.User:
+      return context.user;
+    case PageTemplateBuiltInVariable.PageTitle:
+      return context.pageTitle;
+    default:
+      return context.values[name];
+  }
+}
+
+function fillLeaf(leaf: Text, context: PageTemplateContext): Text {
+  const filled: Text & Record<string, unknown> = {
+    ...leaf,
+    text: leaf.text.replace(
+      createVariablePattern(),
+      (placeholder, name: string) => resolveVariable(name, context) ?? placeholder
+    ),
+  };
+
+  STRIPPED_LEAF_KEYS.forEach((key) => delete filled[key]);
+  return filled;
+}
+
+function fillElement(element: Element, context: PageTemplateContext): Element {
+  const children = element.children.map((child) =>
+    Text.isText(child) ? fillLeaf(child, context) : fillElement(child, context)
+  );
+  const isBlock = element.type !== YjsEditorKey.text;
+
+  // Blocks are inserted as new blocks, and inserting expects a text wrapper first.
+  if (isBlock && !(Element.isElement(children[0]) && children[0].type === YjsEditorKey.text)) {
+    children.unshift({ type: YjsEditorKey.text, children: [{ text: '' }] } as Element);
+  }
+
+  return {
+    type: element.type,
+    data: element.data,
+    children,
+  } as Element;
+}
+
+/**
+ * Copies the template blocks with every placeholder replaced. Placeholders
+ * without a value are left as written.
+ */
+export function fillPageTemplate(nodes: Element[], context: PageTemplateContext): Element[] {
+  return nodes.map((node) => fillElement(node, context));
+}
+
+function blockToPageData(element: Element): PageTemplateBlockData {
+  const [first, ...rest] = element.children;
+  const hasText = Element.isElement(first) && first.type === YjsEditorKey.text;
+  const delta = hasText
+    ? getLeaves(first.children).map(({ text, ...attributes }) => ({
+        insert: text,
+        ...(Object.keys(attributes).length > 0 ? { attributes } : {}),
+      }))
+    : [];
+
+  return {
+    type: element.type as string,
+    data: { ...(element.data || {}), delta },
+    children: (hasText ? rest : element.children).filter(Element.isElement).map(blockToPageData),
+  };
+}
+
+/** Filled template blocks in the `page_data` shape accepted when creating a page. */
+export function pageTemplateToPageData(nodes: Element[]): PageTemplatePageData {
+  return {
+    type: 'page',
+    children: nodes.map(blockToPageData),
+  };
+}
@@ -9,6 +9,7 @@ import {
   createDocumentYjsRenderDocFromSnapshot,
 } from '@/application/publish-snapshot/document-yjs-render-bridge';
 import { yDocToSlateContent } from '@/application/slate-yjs/utils/convert';
+import { BlockType, WhiteboardElement, WhiteboardElementType, YjsEditorKey } from '@/application/types';
 
 describe('createDocumentYjsRenderDocFromSnapshot', () => {
   it('builds a Yjs document for legacy render consumers from the published document JSON', () => {
@@ -32,6 +33,50 @@ describe('createDocumentYjsRenderDocFromSnapshot', () => {
     expect(firstBlock?.children?.[0]?.children?.[0]?.text).toBe('Published document body');
   });
 
+  it('keeps whiteboard elements published beside the block data', () => {
+    const element: WhiteboardElement = {
+      id: 'note',
+      type: WhiteboardElementType.StickyNote,
+      x: 0,
+      y: 0,
+      width: 160,
+      height: 120,
+      z: 1,
+      text: 'Published note',
+    };
+    const snapshot = normalizePublishedPageSnapshot({
+      ...publishedDocumentPayload,
+      document: {
+        children: [
+          {
+            type: BlockType.WhiteboardBlock,
+            blockId: 'whiteboard',
+            data: { height: 300 },
+            children: [{ type: YjsEditorKey.text, textId: 'whiteboard', children: [{ text: '' }] }],
+          },
+        ],
+        raw: {
+          data: {
+            page_id: 'page',
+            blocks: {
+              whiteboard: { id: 'whiteboard', ty: BlockType.WhiteboardBlock, children: 'whiteboard', whiteboard_elements: { note: element } },
+            },
+            meta: {},
+          },
+        },
+      },
+    });
+
+    if (snapshot.kind !== 'document') {
+      throw new Error('Expected document snapshot fixture');
+    }
+
+    const expected = { height: 300, elements: { note: element } };
+
+    expect((snapshot.document.children[0] as { data?: object }).data).toEqual(expected);
+    expect((yDocToSlateContent(createDocumentYjsRenderDocFromSnapshot(snapshot))?.children[0] as { data?: object }).data).toEqual(expected);
+  });
+
   it('builds a Yjs document from published raw document JSON', () => {
     const snapshot = normalizePublishedPageSnapshot(publishedDatabasePayload);
 
@@ -2,6 +2,7 @@ import { Descendant, Element, Text } from 'slate';
 import * as Y from 'yjs';
 
 import { slateNodeToDeltaInsert } from '@/application/slate-yjs/utils/convert';
+import { setWhiteboardBlockElements } from '@/application/slate-yjs/utils/whiteboard';
 import {
   generateBlockId,
   getChildrenArray,
@@ -20,6 +21,7 @@ import {
   YMeta,
   YSharedRoot,
   YTextMap,
+  WhiteboardBlockData,
 } from '@/application/types';
 
 import type { PublishedDocumentRaw, PublishedDocumentSnapshot } from './types';
@@ -87,11 +89,22 @@ function createBlockFromSlateElement({
     Element.isElement(child) && child.type !== YjsEditorKey.text
   ));
   const block = new Y.Map() as YBlock;
+  let data = element.data || {};
+
+  // Whiteboard elements are folded into the node data; the document keeps them in their own map
+  if (element.type === BlockType.WhiteboardBlock) {
+    const { elements, ...rest } = data as WhiteboardBlockData;
+
+    if (elements) {
+      setWhiteboardBlockElements(block, elements);
+      data = rest;
+    }
+  }
 
   block.set(YjsEditorKey.block_id, blockId);
   block.set(YjsEditorKey.block_type, element.type as BlockType);
   block.set(YjsEditorKey.block_children, relationId);
-  block.set(YjsEditorKey.block_data, JSON.stringify(element.data || {}));
+  block.set(YjsEditorKey.block_data, JSON.stringify(data));
   block.set(YjsEditorKey.block_parent, parentId);
 
   if (textElement) {
@@ -189,6 +202,10 @@ export function createDocumentYjsRenderDocFromRawData(documentId: string, raw: P
       block.set(YjsEditorKey.block_external_type, rawBlock.external_type);
     }
 
+    if (rawBlock.whiteboard_elements) {
+      setWhiteboardBlockElements(block, rawBlock.whiteboard_elements);
+    }
+
     blocks.set(blockId, block);
   });
 
@@ -1,6 +1,12 @@
+import { Descendant, Element } from 'slate';
+
+import { withWhiteboardBlockElements } from '@/application/slate-yjs/utils/whiteboard';
+import { BlockType } from '@/application/types';
+
 import type {
   PublishedDatabaseSnapshot,
   PublishedDatabaseSnapshotPayload,
+  PublishedDocumentRaw,
   PublishedDocumentSnapshot,
   PublishedDocumentSnapshotPayload,
   PublishedJsonObject,
@@ -20,6 +26,26 @@ function normalizeView(view: PublishedViewPayload): PublishedView {
   };
 }
 
+// Whiteboard elements live beside the block data, so the published children may not carry them
+function withRawWhiteboardElements(children: Descendant[], raw?: PublishedDocumentRaw): Descendant[] {
+  if (!raw) return children;
+
+  return children.map((node) => {
+    if (!Element.isElement(node)) return node;
+
+    const elements =
+      node.type === BlockType.WhiteboardBlock && node.blockId
+        ? raw.data.blocks[node.blockId]?.whiteboard_elements
+        : undefined;
+
+    return {
+      ...node,
+      data: elements ? withWhiteboardBlockElements(node.data ?? {}, elements) : node.data,
+      children: withRawWhiteboardElements(node.children, raw),
+    } as Element;
+  });
+}
+
 function normalizeDocumentSnapshot(snapshot: PublishedDocumentSnapshotPayload): PublishedDocumentSnapshot {
   const document = snapshot.document ?? {};
 
@@ -28,7 +54,7 @@ function normalizeDocumentSnapshot(snapshot: PublishedDocumentSnapshotPayload):
     view: normalizeView(snapshot.view),
     document: {
       ...document,
-      children: document.children ?? [],
+      children: withRawWhiteboardElements(document.children ?? [], document.raw),
     },
   };
 }
@@ -1,6 +1,15 @@
 import type { Descendant } from 'slate';
 
-import { DatabaseViewLayout, FieldId, RowId, ViewId, ViewInfo, ViewLayout, ViewMetaIcon } from '@/application/types';
+import {
+  DatabaseViewLayout,
+  FieldId,
+  RowId,
+  ViewId,
+  ViewInfo,
+  ViewLayout,
+  ViewMetaIcon,
+  WhiteboardElement,
+} from '@/application/types';
 
 export type PublishedSnapshotKind = 'document' | 'database';
 
@@ -64,6 +73,7 @@ export interface PublishedDocumentBlock {
   external_id?: string | null;
   external_type?: string | null;
   data?: PublishedJsonObject | null;
+  whiteboard_elements?: Record<string, WhiteboardElement> | null;
 }
 
 export interface PublishedDocumentRaw {
@@ -445,4 +445,41 @@ describe('sync protocol', () => {
     doc.destroy();
     serverDoc.destroy();
   });
+
+  it('relays only awareness for awareness-only contexts', () => {
+    const doc = new Y.Doc({ guid: random.uuidv4() });
+    const serverDoc = new Y.Doc();
+    const awareness = new awarenessProtocol.Awareness(doc);
+    const remoteAwareness = new awarenessProtocol.Awareness(new Y.Doc());
+    const emit = jest.fn();
+    const ctx: SyncContext = { doc, awareness, collabType: Types.Folder, awarenessOnly: true, emit };
+
+    initSync(ctx);
+    expect(emit).toHaveBeenCalledTimes(1);
+    expect(emit.mock.calls[0][0].collabMessage.awarenessUpdate).toBeDefined();
+
+    serverDoc.getMap('root').set('view', 'value');
+    remoteAwareness.setLocalState({ presence: 'remote' });
+    handleMessage(ctx, {
+      objectId: doc.guid,
+      collabType: Types.Folder,
+      update: { flags: 0, payload: Y.encodeStateAsUpdate(serverDoc) },
+    });
+    handleMessage(ctx, {
+      objectId: doc.guid,
+      collabType: Types.Folder,
+      awarenessUpdate: {
+        payload: awarenessProtocol.encodeAwarenessUpdate(remoteAwareness, [remoteAwareness.clientID]),
+      },
+    });
+
+    expect(doc.getMap('root').size).toBe(0);
+    expect(awareness.getStates().get(remoteAwareness.clientID)).toEqual({ presence: 'remote' });
+
+    ctx._cleanup?.();
+    awareness.destroy();
+    remoteAwareness.destroy();
+    doc.destroy();
+    serverDoc.destroy();
+  });
 });
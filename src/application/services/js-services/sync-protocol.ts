@@ -21,6 +21,11 @@ export interface SyncContext {
   doc: YDoc;
   awareness?: awarenessProtocol.Awareness;
   collabType: Types;
+  /**
+   * Only relay awareness for this object. The doc is never synced: no
+   * state-vector exchange is sent, and incoming updates are ignored.
+   */
+  awarenessOnly?: boolean;
   lastMessageId?: collab.IRid;
   userMappings?: Y.PermanentUserData;
   /**
@@ -96,22 +101,24 @@ export const bindSyncContext = (ctx: SyncContext): void => {
     throw new Error('SyncContext must have a Y.Doc instance.');
   }
 
-  Log.debug('[sync] binding context with manifest exchange', {
-    objectId: doc.guid,
-    collabType,
-    version: doc.version,
-  });
-  emit({
-    collabMessage: {
+  if (!ctx.awarenessOnly) {
+    Log.debug('[sync] binding context with manifest exchange', {
       objectId: doc.guid,
       collabType,
-      syncRequest: {
-        stateVector: Y.encodeStateVector(doc),
-        lastMessageId: lastMessageId || { timestamp: 0, counter: 0 },
-        version: doc.version,
+      version: doc.version,
+    });
+    emit({
+      collabMessage: {
+        objectId: doc.guid,
+        collabType,
+        syncRequest: {
+          stateVector: Y.encodeStateVector(doc),
+          lastMessageId: lastMessageId || { timestamp: 0, counter: 0 },
+          version: doc.version,
+        },
       },
-    },
-  });
+    });
+  }
 
   if (awareness) {
     const allClients = Array.from(awareness.getStates().keys());
@@ -385,6 +392,11 @@ export const handleMessage = (ctx: SyncContext, message: collab.ICollabMessage):
     throw new Error(`collab message mismatch - expected objectId ${message.objectId}, got ${doc.guid}`);
   }
 
+  if (ctx.awarenessOnly) {
+    if (message.awarenessUpdate) handleAwarenessUpdate(ctx, message.awarenessUpdate);
+    return;
+  }
+
   if (message.update) {
     handleUpdate(ctx, message.update);
   } else if (message.syncRequest) {
@@ -0,0 +1,89 @@
+import { describe, expect, it } from '@jest/globals';
+import * as Y from 'yjs';
+
+import { YjsEditor } from '../plugins/withYjs';
+import { createSimpleTable, deleteRow, insertRowAtIndex, sortRows } from '../utils/simple-table-operations';
+import { getBlock, getChildrenArray, getText, initializeDocumentStructure } from '../utils/yjs';
+import { YjsEditorKey, YSharedRoot } from '@/application/types';
+
+function getChildren(blockId: string, sharedRoot: YSharedRoot) {
+  const block = getBlock(blockId, sharedRoot);
+
+  return getChildrenArray(block.get(YjsEditorKey.block_children), sharedRoot)?.toArray() ?? [];
+}
+
+function getCellText(cellId: string, sharedRoot: YSharedRoot) {
+  const [paragraphId] = getChildren(cellId, sharedRoot);
+
+  return getText(getBlock(paragraphId, sharedRoot).get(YjsEditorKey.block_external_id), sharedRoot);
+}
+
+/** A table whose cells hold `grid`, one text per cell. */
+function createTable(grid: string[][]) {
+  const doc = new Y.Doc();
+
+  initializeDocumentStructure(doc, false);
+
+  const sharedRoot = doc.getMap(YjsEditorKey.data_section) as YSharedRoot;
+  const editor = { sharedRoot } as YjsEditor;
+  const pageId = sharedRoot.get(YjsEditorKey.document).get(YjsEditorKey.page_id) as string;
+  const tableId = createSimpleTable(editor, pageId, grid.length, grid[0].length) as string;
+
+  getChildren(tableId, sharedRoot).forEach((rowId, row) => {
+    getChildren(rowId, sharedRoot).forEach((cellId, col) => {
+      getCellText(cellId, sharedRoot).insert(0, grid[row][col]);
+    });
+  });
+
+  const read = () =>
+    getChildren(tableId, sharedRoot).map((rowId) =>
+      getChildren(rowId, sharedRoot).map((cellId) => getCellText(cellId, sharedRoot).toString())
+    );
+
+  return { editor, tableId, read };
+}
+
+describe('simple table operations', () => {
+  it('keeps formulas pointing at the same cells when rows are sorted', () => {
+    const { editor, tableId, read } = createTable([
+      ['Item', 'Price'],
+      ['b', '=B3*2'],
+      ['a', '5'],
+      ['Total', '=SUM(B2:B3)'],
+    ]);
+
+    expect(sortRows(editor, tableId, [0, 2, 1, 3])).toBe(true);
+    expect(read()).toEqual([
+      ['Item', 'Price'],
+      ['a', '5'],
+      ['b', '=B2*2'],
+      ['Total', '=SUM(B2:B3)'],
+    ]);
+  });
+
+  it('refuses a sort that would split a range used by a formula', () => {
+    const grid = [
+      ['1', '=SUM(A1:A2)'],
+      ['2', ''],
+      ['3', ''],
+    ];
+    const { editor, tableId, read } = createTable(grid);
+
+    expect(sortRows(editor, tableId, [0, 2, 1])).toBe(false);
+    expect(read()).toEqual(grid);
+  });
+
+  it('shifts references when rows are inserted and deleted', () => {
+    const { editor, tableId, read } = createTable([
+      ['1', '=A2+A3'],
+      ['2', ''],
+      ['3', ''],
+    ]);
+
+    insertRowAtIndex(editor, tableId, 1);
+    expect(read()[0][1]).toBe('=A3+A4');
+
+    deleteRow(editor, tableId, 2);
+    expect(read()[0][1]).toBe('=#REF!+A3');
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { Element } from 'slate';
+import * as Y from 'yjs';
+
+import {
+  getWhiteboardBlockElements,
+  observeWhiteboardBlockElements,
+  updateWhiteboardBlockElements,
+  withoutWhiteboardBlockElements,
+} from '../utils/whiteboard';
+import { yDataToSlateContent } from '../utils/convert';
+import {
+  createBlock,
+  deepCopyBlock,
+  getBlock,
+  getPageId,
+  initializeDocumentStructure,
+  updateBlockParent,
+} from '../utils/yjs';
+import { BlockType, WhiteboardElement, WhiteboardElementType, YjsEditorKey, YSharedRoot } from '@/application/types';
+
+const rect = (id: string, x = 0): WhiteboardElement => ({
+  id,
+  type: WhiteboardElementType.Rectangle,
+  x,
+  y: 0,
+  width: 10,
+  height: 10,
+  z: 1,
+});
+
+function getSharedRoot(doc: Y.Doc) {
+  return doc.getMap(YjsEditorKey.data_section) as YSharedRoot;
+}
+
+function createWhiteboard(data: Record<string, unknown> = {}) {
+  const doc = new Y.Doc();
+
+  initializeDocumentStructure(doc, false);
+
+  const block = createBlock(getSharedRoot(doc), { ty: BlockType.WhiteboardBlock, data });
+
+  return { doc, blockId: block.get(YjsEditorKey.block_id) };
+}
+
+function sync(from: Y.Doc, to: Y.Doc) {
+  Y.applyUpdate(to, Y.encodeStateAsUpdate(from, Y.encodeStateVector(to)));
+}
+
+describe('whiteboard elements', () => {
+  it('keeps elements drawn concurrently by different clients', () => {
+    const { doc, blockId } = createWhiteboard();
+    const other = new Y.Doc();
+
+    updateWhiteboardBlockElements(getBlock(blockId, getSharedRoot(doc)), { a: rect('a') });
+    sync(doc, other);
+
+    doc.transact(() => updateWhiteboardBlockElements(getBlock(blockId, getSharedRoot(doc)), { b: rect('b') }));
+    other.transact(() =>
+      updateWhiteboardBlockElements(getBlock(blockId, getSharedRoot(other)), { a: null, c: rect('c') })
+    );
+    sync(doc, other);
+    sync(other, doc);
+
+    [doc, other].forEach((current) => {
+      expect(Object.keys(getWhiteboardBlockElements(getBlock(blockId, getSharedRoot(current)))).sort()).toEqual([
+        'b',
+        'c',
+      ]);
+    });
+  });
+
+  it('moves elements saved in the block data into the map on the first edit', () => {
+    const { doc, blockId } = createWhiteboard({ elements: { a: rect('a') }, height: 300 });
+    const block = getBlock(blockId, getSharedRoot(doc));
+
+    expect(getWhiteboardBlockElements(block)).toEqual({ a: rect('a') });
+
+    updateWhiteboardBlockElements(block, { b: rect('b') });
+
+    expect(getWhiteboardBlockElements(block)).toEqual({ a: rect('a'), b: rect('b') });
+    expect(JSON.parse(block.get(YjsEditorKey.block_data))).toEqual({ height: 300 });
+  });
+
+  it('copies the elements along with the block', () => {
+    const { doc, blockId } = createWhiteboard();
+    const sharedRoot = getSharedRoot(doc);
+    const block = getBlock(blockId, sharedRoot);
+
+    updateWhiteboardBlockElements(block, { a: rect('a') });
+
+    const copy = getBlock(deepCopyBlock(sharedRoot, block)!, sharedRoot);
+
+    updateWhiteboardBlockElements(copy, { a: rect('a', 20) });
+
+    expect(getWhiteboardBlockElements(copy)).toEqual({ a: rect('a', 20) });
+    expect(getWhiteboardBlockElements(block)).toEqual({ a: rect('a') });
+  });
+
+  it('carries the elements in the Slate node data but not back into the block data', () => {
+    const { doc, blockId } = createWhiteboard({ elements: { a: rect('a') } });
+    const sharedRoot = getSharedRoot(doc);
+    const block = getBlock(blockId, sharedRoot);
+
+    updateBlockParent(sharedRoot, block, getBlock(getPageId(sharedRoot), sharedRoot), 0);
+    updateWhiteboardBlockElements(block, { b: rect('b') });
+
+    const node = yDataToSlateContent(sharedRoot)?.children[0] as Element;
+
+    expect(node.data).toEqual({ elements: { a: rect('a'), b: rect('b') } });
+    expect(withoutWhiteboardBlockElements(block, { ...node.data, height: 200 })).toEqual({ height: 200 });
+  });
+
+  it('notifies observers from the first element on', () => {
+    const { doc, blockId } = createWhiteboard();
+    const block = getBlock(blockId, getSharedRoot(doc));
+    const callback = jest.fn();
+    const unobserve = observeWhiteboardBlockElements(block, callback);
+    const update = (changes: Record<string, WhiteboardElement | null>) =>
+      doc.transact(() => updateWhiteboardBlockElements(block, changes));
+
+    update({ a: rect('a') });
+    expect(callback).toHaveBeenCalledTimes(1);
+
+    update({ a: null });
+    expect(callback).toHaveBeenCalledTimes(2);
+
+    unobserve();
+    update({ b: rect('b') });
+    expect(callback).toHaveBeenCalledTimes(2);
+  });
+});
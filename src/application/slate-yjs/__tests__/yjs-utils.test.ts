@@ -8,8 +8,10 @@ import {
   deleteBlock,
   getBlock,
   getChildrenArray,
+  getSectionBlockIds,
   getText,
   initializeDocumentStructure,
+  moveSection,
   pageIdFromDocumentId,
   turnToBlock,
   updateBlockParent,
@@ -392,6 +394,94 @@ describe('deepCopyBlock', () => {
   });
 });
 
+describe('moveSection', () => {
+  function setup() {
+    const doc = new Y.Doc();
+
+    initializeDocumentStructure(doc, false);
+
+    const { sharedRoot, pageId } = getDocumentData(doc);
+    const page = getBlock(pageId, sharedRoot);
+    const add = (text: string, type = BlockType.Paragraph, data: Record<string, unknown> = {}, parent = page) =>
+      createTextBlock({ sharedRoot, parent, type, data, text });
+    const texts = (parent = page) =>
+      getChildrenArray(parent.get(YjsEditorKey.block_children), sharedRoot)
+        .toArray()
+        .map((id) => getRequiredText(getBlock(id, sharedRoot), sharedRoot).toString());
+
+    return { sharedRoot, add, texts };
+  }
+
+  it('treats a heading and the blocks up to the next heading of the same level as a section', () => {
+    const { sharedRoot, add } = setup();
+    const first = add('A', BlockType.HeadingBlock, { level: 1 });
+    const body = add('a1');
+    const sub = add('A.1', BlockType.HeadingBlock, { level: 2 });
+
+    add('B', BlockType.HeadingBlock, { level: 1 });
+
+    expect(getSectionBlockIds(sharedRoot, first.get(YjsEditorKey.block_id))).toEqual([
+      first.get(YjsEditorKey.block_id),
+      body.get(YjsEditorKey.block_id),
+      sub.get(YjsEditorKey.block_id),
+    ]);
+    expect(getSectionBlockIds(sharedRoot, body.get(YjsEditorKey.block_id))).toEqual([body.get(YjsEditorKey.block_id)]);
+  });
+
+  it('moves a section with its content before another heading', () => {
+    const { sharedRoot, add, texts } = setup();
+    const first = add('A', BlockType.HeadingBlock, { level: 1 });
+
+    add('a1');
+    add('B', BlockType.HeadingBlock, { level: 1 });
+    add('b1');
+    const third = add('C', BlockType.HeadingBlock, { level: 1 });
+
+    add('c1');
+
+    moveSection(sharedRoot, third.get(YjsEditorKey.block_id), first.get(YjsEditorKey.block_id), 'top');
+    expect(texts()).toEqual(['C', 'c1', 'A', 'a1', 'B', 'b1']);
+  });
+
+  it('moves a section after the whole section of the target heading', () => {
+    const { sharedRoot, add, texts } = setup();
+    const first = add('A', BlockType.HeadingBlock, { level: 1 });
+
+    add('a1');
+    const second = add('B', BlockType.HeadingBlock, { level: 1 });
+
+    add('B.1', BlockType.HeadingBlock, { level: 2 });
+    add('b1');
+
+    moveSection(sharedRoot, first.get(YjsEditorKey.block_id), second.get(YjsEditorKey.block_id), 'bottom');
+    expect(texts()).toEqual(['B', 'B.1', 'b1', 'A', 'a1']);
+  });
+
+  it('moves a section out of a toggle', () => {
+    const { sharedRoot, add, texts } = setup();
+    const first = add('A', BlockType.HeadingBlock, { level: 1 });
+    const toggle = add('Toggle', BlockType.ToggleListBlock);
+    const nested = add('Nested', BlockType.HeadingBlock, { level: 2 }, toggle);
+
+    add('n1', BlockType.Paragraph, {}, toggle);
+
+    moveSection(sharedRoot, nested.get(YjsEditorKey.block_id), first.get(YjsEditorKey.block_id), 'top');
+    expect(texts()).toEqual(['Nested', 'n1', 'A', 'Toggle']);
+  });
+
+  it('refuses to move a section into itself', () => {
+    const { sharedRoot, add, texts } = setup();
+    const first = add('A', BlockType.HeadingBlock, { level: 1 });
+    const toggle = add('Toggle', BlockType.ToggleListBlock);
+    const nested = add('Nested', BlockType.HeadingBlock, { level: 2 }, toggle);
+
+    expect(
+      moveSection(sharedRoot, first.get(YjsEditorKey.block_id), nested.get(YjsEditorKey.block_id), 'top')
+    ).toBeUndefined();
+    expect(texts()).toEqual(['A', 'Toggle']);
+  });
+});
+
 describe('turnToBlock', () => {
   let doc: Y.Doc;
 
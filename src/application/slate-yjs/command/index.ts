@@ -42,6 +42,7 @@ import {
   insertRowAtIndex,
   reorderColumn,
   reorderRow,
+  sortRows,
   updateTableData,
 } from '@/application/slate-yjs/utils/simple-table-operations';
 import {
@@ -49,6 +50,7 @@ import {
   findNearestValidSelection,
   isValidSelection,
 } from '@/application/slate-yjs/utils/transformSelection';
+import { updateWhiteboardBlockElements, withWhiteboardBlockElements } from '@/application/slate-yjs/utils/whiteboard';
 import {
   dataStringTOJson,
   deepCopyBlock,
@@ -60,16 +62,19 @@ import {
   getPreviousSiblingBlock,
   indentBlock,
   liftBlock,
+  moveSection,
   turnToBlock,
   updateBlockParent,
 } from '@/application/slate-yjs/utils/yjs';
 import {
   BlockData,
   BlockType,
+  Footnote,
   Mention,
   MentionType,
   TodoListBlockData,
   ToggleListBlockData,
+  WhiteboardElement,
   YjsEditorKey,
 } from '@/application/types';
 import { EditorInlineAttributes } from '@/slate-editor';
@@ -156,7 +161,10 @@ export const CustomEditor = {
 
   setBlockData<T = BlockData>(editor: YjsEditor, blockId: string, updateData: T, select?: boolean) {
     const block = getBlock(blockId, editor.sharedRoot);
-    const oldData = dataStringTOJson(block.get(YjsEditorKey.block_data));
+    const oldData = withWhiteboardBlockElements(
+      dataStringTOJson(block.get(YjsEditorKey.block_data)),
+      block.get(YjsEditorKey.whiteboard_elements)?.toJSON()
+    );
     const newData = {
       ...oldData,
       ...updateData,
@@ -638,7 +646,7 @@ export const CustomEditor = {
       value,
     }: {
       key: EditorMarkFormat;
-      value: boolean | string | Mention;
+      value: boolean | string | Mention | Footnote;
     }
   ) {
     editor.addMark(key, value);
@@ -989,6 +997,27 @@ export const CustomEditor = {
     return newBlockId;
   },
 
+  /**
+   * Move a heading together with its content before or after another heading's section.
+   * Returns the new id of the moved heading.
+   */
+  moveSection(editor: YjsEditor, blockId: string, targetBlockId: string, edge: 'top' | 'bottom') {
+    const sharedRoot = getSharedRoot(editor);
+    let newBlockId: string | undefined;
+
+    executeOperations(
+      sharedRoot,
+      [
+        () => {
+          newBlockId = moveSection(sharedRoot, blockId, targetBlockId, edge);
+        },
+      ],
+      'moveSection'
+    );
+
+    return newBlockId;
+  },
+
   pastedText(editor: YjsEditor, text: string) {
     if (!beforePasted(editor)) return;
 
@@ -1020,6 +1049,26 @@ export const CustomEditor = {
     });
   },
 
+  /**
+   * Add, replace (element) or remove (null) whiteboard elements by id. Each
+   * element is its own map entry, so collaborators' concurrent edits survive.
+   */
+  updateWhiteboardElements(
+    editor: YjsEditor,
+    blockId: string,
+    changes: Record<string, WhiteboardElement | null>
+  ) {
+    const block = getBlock(blockId, editor.sharedRoot);
+
+    if (!block) return;
+
+    executeOperations(
+      editor.sharedRoot,
+      [() => updateWhiteboardBlockElements(block, changes)],
+      'updateWhiteboardElements'
+    );
+  },
+
   // ========================================================================
   // SimpleTable Operations
   // ========================================================================
@@ -1076,6 +1125,10 @@ export const CustomEditor = {
     reorderColumn(editor, tableBlockId, fromIndex, toIndex);
   },
 
+  sortTableRows(editor: YjsEditor, tableBlockId: string, order: number[]) {
+    return sortRows(editor, tableBlockId, order);
+  },
+
   updateTableData(editor: YjsEditor, tableBlockId: string, updates: Record<string, unknown>) {
     updateTableData(editor, tableBlockId, updates);
   },
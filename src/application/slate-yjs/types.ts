@@ -2,6 +2,8 @@ import { Element, NodeEntry } from 'slate';
 
 import type Y from 'yjs';
 
+import type { WhiteboardElement } from '@/application/types';
+
 export type HistoryStackItem = {
   meta: Map<string, unknown>;
 };
@@ -19,6 +21,7 @@ export interface BlockJson {
   data?: string;
   children?: string;
   external_id?: string;
+  whiteboard_elements?: Record<string, WhiteboardElement>;
 }
 
 /**
@@ -29,6 +32,14 @@ export interface BlockJson {
  */
 export const INLINE_COMMENT_IDS_KEY = 'comment-ids';
 
+/**
+ * Delta attributes marking text proposed for insertion or deletion in
+ * suggesting mode. Like the comment ids they are review state rather than
+ * formatting, and travel the same Yjs text format channel.
+ */
+export const SUGGESTION_INSERT_KEY = 'suggestion_insert';
+export const SUGGESTION_DELETE_KEY = 'suggestion_delete';
+
 export enum EditorMarkFormat {
   Bold = 'bold',
   Italic = 'italic',
@@ -38,6 +49,7 @@ export enum EditorMarkFormat {
   Href = 'href',
   Formula = 'formula',
   Mention = 'mention',
+  Footnote = 'footnote',
   FontColor = 'font_color',
   FontToken = 'af_text_color',
   BgColor = 'bg_color',
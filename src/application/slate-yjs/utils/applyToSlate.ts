@@ -7,6 +7,7 @@ import { BlockJson } from '@/application/slate-yjs/types';
 import { applyTextYEvent } from '@/application/slate-yjs/utils/applyTextToSlate';
 import { blockToSlateNode, deltaInsertToSlateNode } from '@/application/slate-yjs/utils/convert';
 import { findSlateEntryByBlockId } from '@/application/slate-yjs/utils/editor';
+import { withWhiteboardBlockElements } from '@/application/slate-yjs/utils/whiteboard';
 import { dataStringTOJson, getBlock, getChildrenArray, getPageId, getText } from '@/application/slate-yjs/utils/yjs';
 import { YBlock, YjsEditorKey } from '@/application/types';
 import { Log } from '@/utils/log';
@@ -52,7 +53,20 @@ export function translateYEvents(editor: YjsEditor, events: Array<YEvent>) {
       const blockId = path[2] as string;
 
       Log.debug(`→ Applying block update for blockId: ${blockId}`);
-      applyUpdateBlockYEvent(editor, blockId, event as YMapEvent<unknown>);
+      applyUpdateBlockYEvent(editor, blockId, event.target as YBlock);
+    }
+
+    // Handle whiteboard element changes (document.blocks[blockId].whiteboard_elements)
+    if (
+      path.length === 4 &&
+      path[0] === 'document' &&
+      path[1] === 'blocks' &&
+      path[3] === YjsEditorKey.whiteboard_elements
+    ) {
+      const blockId = path[2] as string;
+
+      Log.debug(`→ Applying whiteboard element changes for blockId: ${blockId}`);
+      applyUpdateBlockYEvent(editor, blockId, event.target.parent as YBlock);
     }
 
     // Handle text content changes (document.meta.text_map[textId])
@@ -73,13 +87,14 @@ export function translateYEvents(editor: YjsEditor, events: Array<YEvent>) {
  *
  * @param editor - The YjsEditor instance
  * @param blockId - The ID of the block to update
- * @param event - The Yjs map event containing the changes
+ * @param block - The Yjs block that changed
  */
-function applyUpdateBlockYEvent(editor: YjsEditor, blockId: string, event: YMapEvent<unknown>) {
-  const { target } = event;
-  const block = target as YBlock;
+function applyUpdateBlockYEvent(editor: YjsEditor, blockId: string, block: YBlock) {
   const newType = block.get(YjsEditorKey.block_type);
-  const newData = dataStringTOJson(block.get(YjsEditorKey.block_data));
+  const newData = withWhiteboardBlockElements(
+    dataStringTOJson(block.get(YjsEditorKey.block_data)),
+    block.get(YjsEditorKey.whiteboard_elements)?.toJSON()
+  );
   const entry = findSlateEntryByBlockId(editor, blockId);
 
   if (!entry) {
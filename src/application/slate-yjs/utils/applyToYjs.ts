@@ -11,9 +11,15 @@ import {
 } from 'slate';
 import * as Y from 'yjs';
 
-import { EditorMarkFormat, INLINE_COMMENT_IDS_KEY } from '@/application/slate-yjs/types';
+import {
+  EditorMarkFormat,
+  INLINE_COMMENT_IDS_KEY,
+  SUGGESTION_DELETE_KEY,
+  SUGGESTION_INSERT_KEY,
+} from '@/application/slate-yjs/types';
 import { getNodeAtPath } from '@/application/slate-yjs/utils/editor';
 import { calculateOffsetRelativeToParent } from '@/application/slate-yjs/utils/positions';
+import { withoutWhiteboardBlockElements } from '@/application/slate-yjs/utils/whiteboard';
 import { getBlock, getText } from '@/application/slate-yjs/utils/yjs';
 import { YjsEditorKey, YSharedRoot } from '@/application/types';
 import { Log } from '@/utils/log';
@@ -164,9 +170,14 @@ function applyRemoveText(ydoc: Y.Doc, editor: Editor, op: RemoveTextOperation, s
 
 function applySetNode(ydoc: Y.Doc, editor: Editor, op: SetNodeOperation, slateContent: Descendant[]) {
   const { newProperties, path, properties } = op;
-  // Inline comment anchors are stored as a text delta attribute, so they take
-  // the same Yjs `format` path as the formatting marks.
-  const leafKeys = [...Object.values(EditorMarkFormat), INLINE_COMMENT_IDS_KEY] as string[];
+  // Inline comment anchors and suggestions are stored as text delta
+  // attributes, so they take the same Yjs `format` path as the formatting marks.
+  const leafKeys = [
+    ...Object.values(EditorMarkFormat),
+    INLINE_COMMENT_IDS_KEY,
+    SUGGESTION_INSERT_KEY,
+    SUGGESTION_DELETE_KEY,
+  ] as string[];
 
   const isLeaf =
     Object.keys(newProperties).some((prop: string) => leafKeys.includes(prop)) ||
@@ -223,7 +234,10 @@ function applySetNode(ydoc: Y.Doc, editor: Editor, op: SetNodeOperation, slateCo
     const block = getBlock(blockId, sharedRoot);
 
     if ('data' in newProperties) {
-      block.set(YjsEditorKey.block_data, JSON.stringify(newProperties.data));
+      block.set(
+        YjsEditorKey.block_data,
+        JSON.stringify(withoutWhiteboardBlockElements(block, newProperties.data ?? {}))
+      );
       return;
     }
   }
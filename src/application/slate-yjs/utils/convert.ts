@@ -2,6 +2,7 @@ import { Element, Node, Text } from 'slate';
 
 import { BlockJson } from '@/application/slate-yjs/types';
 import { sortTableCells } from '@/application/slate-yjs/utils/table';
+import { withWhiteboardBlockElements } from '@/application/slate-yjs/utils/whiteboard';
 import {
   createBlock,
   getBlock,
@@ -157,7 +158,7 @@ export function blockToSlateNode(block: BlockJson): Element {
   return {
     blockId: block.id,
     relationId: block.children,
-    data: blockData,
+    data: blockData && withWhiteboardBlockElements(blockData, block.whiteboard_elements),
     type: block.ty,
     children: [],
   };
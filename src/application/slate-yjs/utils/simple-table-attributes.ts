@@ -182,6 +182,7 @@ export const COLUMN_ATTRIBUTE_KEYS = [
   'column_aligns',
   'column_bold_attributes',
   'column_text_colors',
+  'column_number_formats',
 ] as const;
 
 /**
@@ -233,3 +234,32 @@ export function remapRowAttributes(
 
   return result;
 }
+
+/**
+ * Move all row attributes along with their rows after a sort, where
+ * `order[newIndex]` is the row's index before sorting.
+ */
+export function permuteRowAttributes(data: Record<string, unknown>, order: number[]): Record<string, unknown> {
+  const result = { ...data };
+
+  for (const key of ROW_ATTRIBUTE_KEYS) {
+    const attrs = result[key] as AttributeMap | undefined;
+
+    if (!attrs) continue;
+
+    const permuted: AttributeMap = {};
+
+    for (const [attrKey, value] of Object.entries(attrs)) {
+      if (isNaN(Number(attrKey))) permuted[attrKey] = value;
+    }
+
+    order.forEach((fromIndex, toIndex) => {
+      const value = attrs[String(fromIndex)];
+
+      if (value !== undefined) permuted[String(toIndex)] = value;
+    });
+    result[key] = permuted;
+  }
+
+  return result;
+}
@@ -8,9 +8,13 @@ import * as Y from 'yjs';
 
 import { BlockType, YBlock, YjsEditorKey, YBlocks, YChildrenMap, YMeta } from '@/application/types';
 import { DEFAULT_COLUMN_WIDTH } from '@/components/editor/components/blocks/simple-table/const';
+import {
+  shiftFormulaReferences,
+  TableIndexMap,
+} from '@/components/editor/components/blocks/simple-table/simple-table.formula';
 
 import { YjsEditor } from '../plugins/withYjs';
-import { remapColumnAttributes, remapRowAttributes } from './simple-table-attributes';
+import { permuteRowAttributes, remapColumnAttributes, remapRowAttributes } from './simple-table-attributes';
 import {
   copyBlockText,
   createBlock,
@@ -21,6 +25,7 @@ import {
   getBlock,
   getChildrenArray,
   getDocument,
+  getText,
   updateBlockParent,
 } from './yjs';
 
@@ -204,6 +209,84 @@ function createEmptyRow(sharedRoot: ReturnType<typeof getSharedRoot>, colCount:
   return row;
 }
 
+function identityIndexMap(count: number): TableIndexMap {
+  return Array.from({ length: count }, (_, index) => index);
+}
+
+function insertIndexMap(count: number, index: number): TableIndexMap {
+  return Array.from({ length: count }, (_, current) => (current < index ? current : current + 1));
+}
+
+function deleteIndexMap(count: number, index: number): TableIndexMap {
+  return Array.from({ length: count }, (_, current) => {
+    if (current === index) return null;
+    return current < index ? current : current - 1;
+  });
+}
+
+/** Index map of a new order, where `order[newIndex]` is the old index. */
+function orderIndexMap(order: number[]): TableIndexMap {
+  const map: TableIndexMap = new Array(order.length).fill(null);
+
+  order.forEach((fromIndex, toIndex) => {
+    map[fromIndex] = toIndex;
+  });
+
+  return map;
+}
+
+function moveIndexMap(count: number, fromIndex: number, toIndex: number): TableIndexMap {
+  const order = identityIndexMap(count) as number[];
+
+  order.splice(toIndex, 0, order.splice(fromIndex, 1)[0]);
+  return orderIndexMap(order);
+}
+
+/**
+ * Rewrite the formula references of every cell for rows or columns that are
+ * about to move, so formulas keep pointing at the same cells. Runs before the
+ * structural change, so copied rows and cells carry the rewritten text.
+ * Returns false without changing anything when a formula range would be
+ * split apart.
+ */
+function shiftTableFormulas(
+  sharedRoot: ReturnType<typeof getSharedRoot>,
+  tableBlock: YBlock,
+  rows: TableIndexMap | null,
+  cols: TableIndexMap | null
+): boolean {
+  const rowEntries = getChildEntriesOfType(sharedRoot, tableBlock, BlockType.SimpleTableRowBlock);
+  const rowMap = rows ?? identityIndexMap(rowEntries.length);
+  const colMap = cols ?? identityIndexMap(getColumnCount(sharedRoot, tableBlock));
+  const rewrites: { text: Y.Text; value: string }[] = [];
+
+  for (const rowEntry of rowEntries) {
+    for (const cellEntry of getChildEntriesOfType(sharedRoot, rowEntry.block, BlockType.SimpleTableCellBlock)) {
+      const childIds = getChildrenArray(cellEntry.block.get(YjsEditorKey.block_children), sharedRoot)?.toArray() ?? [];
+
+      for (const childId of childIds) {
+        const textId = getBlock(childId, sharedRoot)?.get(YjsEditorKey.block_external_id);
+        const text = textId ? getText(textId, sharedRoot) : undefined;
+
+        if (!text) continue;
+
+        const current = text.toString();
+        const shifted = shiftFormulaReferences(current, rowMap, colMap);
+
+        if (shifted === null) return false;
+        if (shifted !== current) rewrites.push({ text, value: shifted });
+      }
+    }
+  }
+
+  rewrites.forEach(({ text, value }) => {
+    text.delete(0, text.length);
+    text.insert(0, value);
+  });
+
+  return true;
+}
+
 // ============================================================================
 // Row Operations
 // ============================================================================
@@ -249,6 +332,8 @@ export function insertRowAtIndex(editor: YjsEditor, tableBlockId: string, rowInd
     const colCount = getColumnCount(sharedRoot, tableBlock);
     const newRow = createEmptyRow(sharedRoot, colCount);
 
+    shiftTableFormulas(sharedRoot, tableBlock, insertIndexMap(rowEntries.length, rowIndex), null);
+
     updateBlockParent(
       sharedRoot,
       newRow,
@@ -287,6 +372,7 @@ export function deleteRow(editor: YjsEditor, tableBlockId: string, rowIndex: num
 
     if (!rowEntry) return;
 
+    shiftTableFormulas(sharedRoot, tableBlock, deleteIndexMap(rowCount, rowIndex), null);
     deleteBlock(sharedRoot, rowEntry.id);
 
     // Remap row attributes
@@ -320,6 +406,8 @@ export function duplicateRow(editor: YjsEditor, tableBlockId: string, rowIndex:
 
     if (!sourceRow) return;
 
+    shiftTableFormulas(sharedRoot, tableBlock, insertIndexMap(rowEntries.length, rowIndex + 1), null);
+
     const newRowId = deepCopyTableBlock(sharedRoot, sourceRow, true);
 
     if (!newRowId) return;
@@ -398,6 +486,8 @@ export function insertColumnAtIndex(editor: YjsEditor, tableBlockId: string, col
 
     const rowEntries = getChildEntriesOfType(sharedRoot, tableBlock, BlockType.SimpleTableRowBlock);
 
+    shiftTableFormulas(sharedRoot, tableBlock, null, insertIndexMap(getColumnCount(sharedRoot, tableBlock), colIndex));
+
     for (const rowEntry of rowEntries) {
       const row = rowEntry.block;
       const cellChildren = getChildrenArray(row.get(YjsEditorKey.block_children), sharedRoot);
@@ -440,6 +530,8 @@ export function deleteColumn(editor: YjsEditor, tableBlockId: string, colIndex:
 
     if (colCount <= 1) return; // Don't delete the last column
 
+    shiftTableFormulas(sharedRoot, tableBlock, null, deleteIndexMap(colCount, colIndex));
+
     const rowEntries = getChildEntriesOfType(sharedRoot, tableBlock, BlockType.SimpleTableRowBlock);
 
     for (const rowEntry of rowEntries) {
@@ -474,6 +566,13 @@ export function duplicateColumn(editor: YjsEditor, tableBlockId: string, colInde
 
     const rowEntries = getChildEntriesOfType(sharedRoot, tableBlock, BlockType.SimpleTableRowBlock);
 
+    shiftTableFormulas(
+      sharedRoot,
+      tableBlock,
+      null,
+      insertIndexMap(getColumnCount(sharedRoot, tableBlock), colIndex + 1)
+    );
+
     for (const rowEntry of rowEntries) {
       const cellEntry = getChildEntriesOfType(sharedRoot, rowEntry.block, BlockType.SimpleTableCellBlock)[colIndex];
 
@@ -610,7 +709,8 @@ export function clearColumnContent(editor: YjsEditor, tableBlockId: string, colI
 // ============================================================================
 
 /**
- * Reorder a row from one index to another.
+ * Reorder a row from one index to another. Does nothing when the move would
+ * split a range that a formula refers to.
  */
 export function reorderRow(editor: YjsEditor, tableBlockId: string, fromIndex: number, toIndex: number) {
   if (fromIndex === toIndex) return;
@@ -626,6 +726,7 @@ export function reorderRow(editor: YjsEditor, tableBlockId: string, fromIndex: n
     const rowEntries = getChildEntriesOfType(sharedRoot, tableBlock, BlockType.SimpleTableRowBlock);
 
     if (fromIndex >= rowEntries.length || toIndex >= rowEntries.length) return;
+    if (!shiftTableFormulas(sharedRoot, tableBlock, moveIndexMap(rowEntries.length, fromIndex, toIndex), null)) return;
 
     const sourceRow = rowEntries[fromIndex];
 
@@ -657,7 +758,61 @@ export function reorderRow(editor: YjsEditor, tableBlockId: string, fromIndex: n
 }
 
 /**
- * Reorder a column from one index to another.
+ * Rearrange all rows at once, where `order[newIndex]` is the row's current index.
+ * Returns false, leaving the table as it is, when the new order would split a
+ * range that a formula refers to.
+ */
+export function sortRows(editor: YjsEditor, tableBlockId: string, order: number[]): boolean {
+  if (order.every((fromIndex, toIndex) => fromIndex === toIndex)) return true;
+
+  const sharedRoot = getSharedRoot(editor);
+  const operations: (() => void)[] = [];
+  let sorted = true;
+
+  operations.push(() => {
+    const tableBlock = getBlock(tableBlockId, sharedRoot);
+
+    if (!tableBlock) return;
+
+    const rowEntries = getChildEntriesOfType(sharedRoot, tableBlock, BlockType.SimpleTableRowBlock);
+
+    if (order.length !== rowEntries.length) return;
+
+    if (!shiftTableFormulas(sharedRoot, tableBlock, orderIndexMap(order), null)) {
+      sorted = false;
+      return;
+    }
+
+    // Deep copy rows in their new order, then replace the originals
+    const newRows = order.map((fromIndex) => {
+      const newRowId = deepCopyTableBlock(sharedRoot, rowEntries[fromIndex].block);
+
+      return newRowId ? getBlock(newRowId, sharedRoot) : undefined;
+    });
+
+    if (newRows.some((row) => !row)) return;
+
+    rowEntries.forEach((entry) => deleteBlock(sharedRoot, entry.id));
+
+    newRows.forEach((newRow, index) => {
+      const rowChildren = getChildrenArray(tableBlock.get(YjsEditorKey.block_children), sharedRoot);
+      const updatedRowEntries = getChildEntriesOfType(sharedRoot, tableBlock, BlockType.SimpleTableRowBlock);
+      const rawInsertIndex = getRawInsertionIndex(updatedRowEntries, index, rowChildren?.length ?? 0);
+
+      updateBlockParent(sharedRoot, newRow as YBlock, tableBlock, rawInsertIndex);
+    });
+
+    setTableData(tableBlock, permuteRowAttributes(getTableData(tableBlock), order));
+  });
+
+  executeOperations(sharedRoot, operations, 'sortRows');
+
+  return sorted;
+}
+
+/**
+ * Reorder a column from one index to another. Does nothing when the move
+ * would split a range that a formula refers to.
  */
 export function reorderColumn(editor: YjsEditor, tableBlockId: string, fromIndex: number, toIndex: number) {
   if (fromIndex === toIndex) return;
@@ -670,6 +825,11 @@ export function reorderColumn(editor: YjsEditor, tableBlockId: string, fromIndex
 
     if (!tableBlock) return;
 
+    const colCount = getColumnCount(sharedRoot, tableBlock);
+
+    if (fromIndex >= colCount || toIndex >= colCount) return;
+    if (!shiftTableFormulas(sharedRoot, tableBlock, null, moveIndexMap(colCount, fromIndex, toIndex))) return;
+
     const rowEntries = getChildEntriesOfType(sharedRoot, tableBlock, BlockType.SimpleTableRowBlock);
 
     for (const rowEntry of rowEntries) {
@@ -0,0 +1,134 @@
+/**
+ * Yjs storage for whiteboard elements.
+ *
+ * Elements live in a map on the block keyed by element id, so collaborators
+ * drawing at the same time only ever replace the elements they touched.
+ */
+
+import * as Y from 'yjs';
+
+import { WhiteboardBlockData, WhiteboardElement, YBlock, YjsEditorKey, YWhiteboardElements } from '@/application/types';
+
+function getElementsMap(block: YBlock) {
+  return block.get(YjsEditorKey.whiteboard_elements);
+}
+
+function getBlockData(block: YBlock): WhiteboardBlockData {
+  try {
+    return JSON.parse(block.get(YjsEditorKey.block_data)) ?? {};
+  } catch (e) {
+    return {};
+  }
+}
+
+/** Elements of a whiteboard block by id, including ones older clients kept in the block data. */
+export function getWhiteboardBlockElements(block: YBlock): Record<string, WhiteboardElement> {
+  const elements = { ...(getBlockData(block).elements ?? {}) };
+
+  getElementsMap(block)?.forEach((element, id) => {
+    elements[id] = element;
+  });
+
+  return elements;
+}
+
+function createElementsMap(block: YBlock) {
+  const { elements: legacyElements, ...data } = getBlockData(block);
+  const elements: YWhiteboardElements = new Y.Map();
+
+  block.set(YjsEditorKey.whiteboard_elements, elements);
+
+  // Move what older clients saved in the block data into the map.
+  if (legacyElements) {
+    Object.entries(legacyElements).forEach(([id, element]) => elements.set(id, element));
+    block.set(YjsEditorKey.block_data, JSON.stringify(data));
+  }
+
+  return elements;
+}
+
+/**
+ * Add, replace (element) or remove (null) elements by id. Must run inside a
+ * transaction of the block's document.
+ */
+export function updateWhiteboardBlockElements(block: YBlock, changes: Record<string, WhiteboardElement | null>) {
+  const elements = getElementsMap(block) ?? createElementsMap(block);
+
+  Object.entries(changes).forEach(([id, element]) => {
+    if (element) {
+      elements.set(id, element);
+    } else {
+      elements.delete(id);
+    }
+  });
+}
+
+/** Give the block a new map holding `elements`, replacing any it had. */
+export function setWhiteboardBlockElements(block: YBlock, elements: Record<string, WhiteboardElement>) {
+  const target: YWhiteboardElements = new Y.Map();
+
+  Object.entries(elements).forEach(([id, element]) => target.set(id, element));
+  block.set(YjsEditorKey.whiteboard_elements, target);
+}
+
+/** Give a copied block its own map holding the source block's elements. */
+export function copyWhiteboardBlockElements(sourceBlock: YBlock, targetBlock: YBlock) {
+  const source = getElementsMap(sourceBlock);
+
+  if (!source) return;
+
+  setWhiteboardBlockElements(targetBlock, source.toJSON());
+}
+
+/**
+ * The block data as Slate sees it. Elements are folded into `data.elements`
+ * so anything working on Slate nodes alone (static renders, copies, page
+ * templates) still has them.
+ */
+export function withWhiteboardBlockElements<T extends object>(data: T, elements?: Record<string, WhiteboardElement>): T {
+  if (!elements) return data;
+
+  const legacyElements = (data as WhiteboardBlockData).elements;
+
+  return { ...data, elements: { ...legacyElements, ...elements } };
+}
+
+/**
+ * Block data coming back from Slate, minus the elements folded in by
+ * `withWhiteboardBlockElements` once the block keeps them in its map.
+ * Writing them back would revive elements removed from the map.
+ */
+export function withoutWhiteboardBlockElements<T extends object>(block: YBlock, data: T): T {
+  if (!getElementsMap(block) || !('elements' in data)) return data;
+
+  const { elements: _elements, ...rest } = data as WhiteboardBlockData;
+
+  return rest as T;
+}
+
+/**
+ * Calls `callback` whenever the elements of the block change, including when
+ * the elements map is first created.
+ */
+export function observeWhiteboardBlockElements(block: YBlock, callback: () => void): () => void {
+  let elements = getElementsMap(block);
+  const handleBlockChange = (event: Y.YMapEvent<unknown>) => {
+    if (event.keysChanged.has(YjsEditorKey.whiteboard_elements)) {
+      elements?.unobserve(callback);
+      elements = getElementsMap(block);
+      elements?.observe(callback);
+    } else if (!event.keysChanged.has(YjsEditorKey.block_data)) {
+      return;
+    }
+
+    callback();
+  };
+
+  elements?.observe(callback);
+  block.observe(handleBlockChange);
+
+  return () => {
+    elements?.unobserve(callback);
+    block.unobserve(handleBlockChange);
+  };
+}
@@ -10,6 +10,7 @@ import {
   TOGGLE_BLOCK_TYPES,
 } from '@/application/slate-yjs/command/const';
 import { INLINE_COMMENT_IDS_KEY } from '@/application/slate-yjs/types';
+import { copyWhiteboardBlockElements } from '@/application/slate-yjs/utils/whiteboard';
 import {
   BlockData,
   BlockType,
@@ -819,6 +820,94 @@ export function moveNode(sharedRoot: YSharedRoot, sourceBlock: YBlock, targetPar
   return copiedBlockId;
 }
 
+/** The level of a heading or toggle heading block, or undefined for other blocks. */
+export function getHeadingLevel(block: YBlock): number | undefined {
+  const type = block.get(YjsEditorKey.block_type);
+
+  if (type !== BlockType.HeadingBlock && type !== BlockType.ToggleListBlock) return;
+
+  const { level } = dataStringTOJson(block.get(YjsEditorKey.block_data)) as { level?: number };
+
+  return typeof level === 'number' && level > 0 ? level : undefined;
+}
+
+/**
+ * A heading and the sibling blocks after it, up to the next heading of the
+ * same or a higher level. Other blocks form a section of their own.
+ */
+export function getSectionBlockIds(sharedRoot: YSharedRoot, blockId: string): string[] {
+  const block = getBlock(blockId, sharedRoot);
+
+  if (!block) return [];
+
+  const level = getHeadingLevel(block);
+
+  if (!level) return [blockId];
+
+  const ids = [blockId];
+
+  for (const siblingId of getNextSiblings(sharedRoot, block) ?? []) {
+    const siblingLevel = getHeadingLevel(getBlock(siblingId, sharedRoot));
+
+    if (siblingLevel && siblingLevel <= level) break;
+    ids.push(siblingId);
+  }
+
+  return ids;
+}
+
+/**
+ * Move the section of `sourceBlockId` before (`top`) or after (`bottom`) the
+ * section of `targetBlockId`, keeping its blocks in order. Returns the new id
+ * of the moved heading, or undefined when the target lies inside the section.
+ */
+export function moveSection(
+  sharedRoot: YSharedRoot,
+  sourceBlockId: string,
+  targetBlockId: string,
+  edge: 'top' | 'bottom'
+): string | undefined {
+  const sectionIds = getSectionBlockIds(sharedRoot, sourceBlockId);
+  const targetBlock = getBlock(targetBlockId, sharedRoot);
+
+  if (sectionIds.length === 0 || !targetBlock) return;
+
+  for (let ancestor: YBlock | undefined = targetBlock; ancestor; ) {
+    const ancestorId = ancestor.get(YjsEditorKey.block_id);
+
+    if (sectionIds.includes(ancestorId)) return;
+    ancestor = getParent(ancestorId, sharedRoot);
+  }
+
+  const targetParent = getParent(targetBlockId, sharedRoot);
+
+  if (!targetParent) return;
+
+  // A target section can end with the moved section when it is nested under the target heading.
+  let anchorId =
+    edge === 'top'
+      ? targetBlockId
+      : getSectionBlockIds(sharedRoot, targetBlockId)
+          .filter((id) => !sectionIds.includes(id))
+          .pop();
+  let movedHeadingId: string | undefined;
+
+  if (!anchorId) return;
+
+  for (const blockId of sectionIds) {
+    const block = getBlock(blockId, sharedRoot);
+    const anchorIndex = getBlockIndex(anchorId, sharedRoot);
+    const newBlockId = moveNode(sharedRoot, block, targetParent, edge === 'top' ? anchorIndex : anchorIndex + 1);
+
+    if (!newBlockId) return movedHeadingId;
+
+    movedHeadingId ??= newBlockId;
+    if (edge === 'bottom') anchorId = newBlockId;
+  }
+
+  return movedHeadingId;
+}
+
 export function deepCopyBlock(
   sharedRoot: YSharedRoot,
   sourceBlock: YBlock,
@@ -832,6 +921,7 @@ export function deepCopyBlock(
     });
 
     copyBlockText(sharedRoot, sourceBlock, newBlock, stripInlineCommentIds);
+    copyWhiteboardBlockElements(sourceBlock, newBlock);
 
     const sourceChildrenArray = getChildrenArray(sourceBlock.get(YjsEditorKey.block_children), sharedRoot);
     const targetChildrenArray = getChildrenArray(newBlock.get(YjsEditorKey.block_children), sharedRoot);
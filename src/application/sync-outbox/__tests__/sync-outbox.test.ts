@@ -108,9 +108,13 @@ import {
   configureDrain,
   deleteOutboxByObjectId,
   enqueueOutboxUpdate,
+  getBlockedSyncVersion,
   getCurrentOutboxSession,
+  getPendingOutboxUpdate,
+  listPendingOutboxObjects,
   purgeAllOutbox,
   resumePermissionBlockedSync,
+  retryPendingSync,
   setCurrentSession,
   shouldRouteUpdateThroughOutbox,
   startDrainAll,
@@ -1166,6 +1170,77 @@ describe('sync outbox live send', () => {
     expect(mockRecords).toHaveLength(0);
   });
 
+  it('lists pending objects with their size, age and block reason', async () => {
+    const payload = makeUpdate('refused');
+    const otherObjectId = '22222222-2222-4222-8222-222222222222';
+    const slowSync = jest.fn().mockResolvedValue({ outcome: 'blocked', reason: 'permission_denied' });
+
+    configureDrain({
+      userId,
+      workspaceId,
+      send: jest.fn(),
+      isReady: () => false,
+      maxUpdateBytes: payload.byteLength - 1,
+      maxSlowSyncUpdateBytes: payload.byteLength + 1_024,
+      slowSync,
+    });
+
+    const version = getBlockedSyncVersion();
+
+    await enqueueOutboxUpdate({ objectId, collabType: Types.Document, version: null, payload });
+    await enqueueOutboxUpdate({
+      objectId: otherObjectId,
+      collabType: Types.Database,
+      version: null,
+      payload: new Uint8Array([1]),
+    });
+    await flushPromises();
+
+    expect(getBlockedSyncVersion()).toBeGreaterThan(version);
+    await expect(listPendingOutboxObjects()).resolves.toEqual([
+      expect.objectContaining({
+        objectId,
+        collabType: Types.Document,
+        recordCount: 1,
+        byteLength: payload.byteLength,
+        blockedReason: 'permission_denied',
+      }),
+      expect.objectContaining({ objectId: otherObjectId, collabType: Types.Database, recordCount: 1, byteLength: 1 }),
+    ]);
+    await expect(getPendingOutboxUpdate(objectId)).resolves.toEqual(payload);
+    await expect(getPendingOutboxUpdate('missing')).resolves.toBeNull();
+  });
+
+  it('uploads a refused update again on manual retry', async () => {
+    const payload = makeUpdate('retry');
+    const slowSync = jest
+      .fn()
+      .mockResolvedValueOnce({ outcome: 'blocked', reason: 'update_too_large' })
+      .mockResolvedValueOnce({ outcome: 'confirmed', messageId: { timestamp: 1, counter: 0 } });
+
+    configureDrain({
+      userId,
+      workspaceId,
+      send: jest.fn(),
+      isReady: () => true,
+      maxUpdateBytes: payload.byteLength - 1,
+      maxSlowSyncUpdateBytes: payload.byteLength + 1_024,
+      slowSync,
+    });
+
+    await enqueueOutboxUpdate({ objectId, collabType: Types.Document, version: null, payload });
+    await flushPromises();
+
+    expect(slowSync).toHaveBeenCalledTimes(1);
+    expect((await listPendingOutboxObjects())[0]?.blockedReason).toBe('update_too_large');
+
+    retryPendingSync(objectId);
+    await flushPromises();
+
+    expect(slowSync).toHaveBeenCalledTimes(2);
+    expect(mockRecords).toHaveLength(0);
+  });
+
   it('invalidates an update-too-large block when a newer manifest replaces its records', async () => {
     const rejected = createDeferred<{
       outcome: 'blocked';
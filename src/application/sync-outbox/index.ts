@@ -91,6 +91,10 @@ const slowSyncRetryTimers = new Map<string, ReturnType<typeof setTimeout>>();
 const slowSyncRetryAttempts = new Map<string, number>();
 const oversizedDiagnostics = new Map<string, string>();
 const blockedSlowSyncObjects = new Map<string, SlowSyncBlock>();
+// Blocks live in memory only, so IndexedDB observers cannot see them change;
+// the pending changes panel subscribes here instead.
+const blockedSyncListeners = new Set<() => void>();
+let blockedSyncVersion = 0;
 const serializedSlowSyncObjects = new Set<string>();
 const slowSyncAbortControllers = new Map<string, AbortController>();
 let slowSyncQueue: Promise<void> = Promise.resolve();
@@ -501,9 +505,120 @@ export function resumePermissionBlockedSync(objectId: string): void {
 
   blockedSlowSyncObjects.delete(objectSessionKey);
   oversizedDiagnostics.delete(objectSessionKey);
+  notifyBlockedSyncListeners();
   scheduleDrain(objectId);
 }
 
+/**
+ * Queued updates of one object in the current session, as shown by the
+ * pending changes panel.
+ */
+export interface PendingOutboxObject {
+  objectId: string;
+  collabType: Types;
+  recordCount: number;
+  byteLength: number;
+  oldestCreatedAt: number;
+  /** Set when the server refused the update and it will not be retried on its own. */
+  blockedReason?: SlowSyncBlockedReason;
+}
+
+function pendingBlockedReason(objectSessionKey: string): SlowSyncBlockedReason | undefined {
+  const block = blockedSlowSyncObjects.get(objectSessionKey);
+
+  if (block) return block.reason;
+
+  // Larger than the advertised slow-lane cap: never uploaded, so the server
+  // has not refused it yet, but it cannot leave this browser either.
+  return oversizedDiagnostics.get(objectSessionKey) === 'update_exceeds_slow_lane_limit'
+    ? 'update_too_large'
+    : undefined;
+}
+
+/** Objects with queued updates in the current session, oldest first. */
+export async function listPendingOutboxObjects(): Promise<PendingOutboxObject[]> {
+  const session = getCurrentOutboxSession();
+
+  if (!session) return [];
+
+  const objects = new Map<string, PendingOutboxObject>();
+
+  await db.sync_outbox
+    .where('[userId+workspaceId]')
+    .equals([session.userId, session.workspaceId])
+    .each((record) => {
+      const existing = objects.get(record.objectId);
+
+      if (existing) {
+        existing.recordCount += 1;
+        existing.byteLength += record.payload.byteLength;
+        existing.oldestCreatedAt = Math.min(existing.oldestCreatedAt, record.createdAt);
+        return;
+      }
+
+      objects.set(record.objectId, {
+        objectId: record.objectId,
+        collabType: record.collabType as Types,
+        recordCount: 1,
+        byteLength: record.payload.byteLength,
+        oldestCreatedAt: record.createdAt,
+        blockedReason: pendingBlockedReason(sessionObjectKey(session.userId, session.workspaceId, record.objectId)),
+      });
+    });
+
+  return Array.from(objects.values()).sort((a, b) => a.oldestCreatedAt - b.oldestCreatedAt);
+}
+
+/** Every queued update of an object merged into one Yjs update, or null when nothing is queued. */
+export async function getPendingOutboxUpdate(objectId: string): Promise<Uint8Array | null> {
+  const session = getCurrentOutboxSession();
+
+  if (!session) return null;
+
+  const records = await db.sync_outbox
+    .where('[userId+workspaceId+objectId]')
+    .equals([session.userId, session.workspaceId, objectId])
+    .sortBy('id');
+
+  return records.length > 0 ? mergeRecordPrefix(records) : null;
+}
+
+/**
+ * Manual retry from the pending changes panel. Unlike
+ * `resumePermissionBlockedSync` this lifts any block and skips the backoff
+ * timer, so a refused update is uploaded again right away.
+ */
+export function retryPendingSync(objectId: string): void {
+  const config = drainConfig;
+
+  if (!config) return;
+
+  const objectSessionKey = sessionObjectKey(config.userId, config.workspaceId, objectId);
+
+  blockedSlowSyncObjects.delete(objectSessionKey);
+  oversizedDiagnostics.delete(objectSessionKey);
+  clearSlowSyncRetry(objectSessionKey);
+  notifyBlockedSyncListeners();
+  scheduleDrain(objectId);
+}
+
+function notifyBlockedSyncListeners() {
+  blockedSyncVersion += 1;
+  blockedSyncListeners.forEach((listener) => listener());
+}
+
+/** Subscribe to changes of blocked sync state; for `useSyncExternalStore`. */
+export function subscribeBlockedSync(listener: () => void): () => void {
+  blockedSyncListeners.add(listener);
+  return () => {
+    blockedSyncListeners.delete(listener);
+  };
+}
+
+export function getBlockedSyncVersion(): number {
+  return blockedSyncVersion;
+}
+
 /**
  * Returns true when a raw Yjs update cannot use the realtime lane.
  *
@@ -1079,6 +1194,7 @@ function logOversizedOnce(objectSessionKey: string, reason: string, details: Rec
   if (oversizedDiagnostics.get(objectSessionKey) === reason) return;
 
   oversizedDiagnostics.set(objectSessionKey, reason);
+  notifyBlockedSyncListeners();
   Log.warn('[outbox] oversized update remains durable', { reason, ...details });
 }
 
@@ -0,0 +1,117 @@
+import * as Y from 'yjs';
+
+import { BlockId, ViewId, YDoc, YjsEditorKey, YSharedRoot } from '@/application/types';
+
+/** One page rendering a synced block's content. */
+export interface SyncedBlockReference {
+  blockId: BlockId;
+  viewId: ViewId;
+}
+
+type YSyncedReferences = Y.Map<ViewId>;
+
+function getDocumentMeta(doc: YDoc): Y.Map<unknown> | undefined {
+  const sharedRoot = doc.getMap(YjsEditorKey.data_section) as YSharedRoot;
+
+  return sharedRoot.get(YjsEditorKey.document)?.get(YjsEditorKey.meta) as Y.Map<unknown> | undefined;
+}
+
+function getReferencesMap(doc: YDoc): YSyncedReferences | undefined {
+  return getDocumentMeta(doc)?.get(YjsEditorKey.synced_references) as YSyncedReferences | undefined;
+}
+
+/**
+ * Every block currently rendering the source document, keyed by block id so
+ * the same page can hold more than one instance.
+ */
+export function getSyncedBlockReferences(doc: YDoc): SyncedBlockReference[] {
+  const references: SyncedBlockReference[] = [];
+
+  getReferencesMap(doc)?.forEach((viewId, blockId) => {
+    references.push({ blockId, viewId });
+  });
+
+  return references;
+}
+
+export function registerSyncedBlockReference(doc: YDoc, { blockId, viewId }: SyncedBlockReference) {
+  const meta = getDocumentMeta(doc);
+
+  if (!meta) return;
+
+  doc.transact(() => {
+    let references = meta.get(YjsEditorKey.synced_references) as YSyncedReferences | undefined;
+
+    if (!references) {
+      references = new Y.Map();
+      meta.set(YjsEditorKey.synced_references, references);
+    }
+
+    if (references.get(blockId) !== viewId) {
+      references.set(blockId, viewId);
+    }
+  });
+}
+
+export function unregisterSyncedBlockReference(doc: YDoc, blockId: BlockId) {
+  const references = getReferencesMap(doc);
+
+  if (!references?.has(blockId)) return;
+
+  doc.transact(() => {
+    references.delete(blockId);
+  });
+}
+
+/**
+ * Forget the references whose page or block no longer exists, so the count
+ * only includes instances that can still be edited. Every instance registers
+ * itself again when its page is opened, so a reference dropped because its
+ * page could not be loaded comes back the next time that page is visited.
+ */
+export async function pruneSyncedBlockReferences(
+  doc: YDoc,
+  isReferenceLive: (reference: SyncedBlockReference) => boolean | Promise<boolean>
+) {
+  const references = getSyncedBlockReferences(doc);
+  const live = await Promise.all(references.map(isReferenceLive));
+  const stale = references.filter((_, index) => !live[index]);
+  const referencesMap = getReferencesMap(doc);
+
+  if (!referencesMap || stale.length === 0) return;
+
+  doc.transact(() => {
+    stale.forEach(({ blockId, viewId }) => {
+      // The block may have been registered again on another page meanwhile.
+      if (referencesMap.get(blockId) === viewId) referencesMap.delete(blockId);
+    });
+  });
+}
+
+/**
+ * Calls `callback` whenever the references of the source document change,
+ * including when the references map itself is first created.
+ */
+export function observeSyncedBlockReferences(doc: YDoc, callback: () => void): () => void {
+  const meta = getDocumentMeta(doc);
+
+  if (!meta) return () => undefined;
+
+  let references = getReferencesMap(doc);
+  const handleMetaChange = (event: Y.YMapEvent<unknown>) => {
+    if (!event.keysChanged.has(YjsEditorKey.synced_references)) return;
+
+    references?.unobserve(callback);
+    references = getReferencesMap(doc);
+    references?.observe(callback);
+    callback();
+  };
+
+  references?.observe(callback);
+  meta.observe(handleMetaChange);
+
+  return () => {
+    references?.unobserve(callback);
+    meta.unobserve(handleMetaChange);
+  };
+}
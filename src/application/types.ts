@@ -59,11 +59,14 @@ export enum BlockType {
   AIMeetingTranscriptionBlock = 'ai_meeting_transcription',
   AIMeetingSpeakerBlock = 'ai_meeting_speaker',
   PDFBlock = 'pdf',
+  SyncedBlock = 'synced_block',
+  WhiteboardBlock = 'whiteboard',
 }
 
 export enum InlineBlockType {
   Formula = 'formula',
   Mention = 'mention',
+  Footnote = 'footnote',
 }
 
 export enum AlignType {
@@ -101,6 +104,16 @@ export interface ToggleListBlockData extends BlockData {
 
 export interface CodeBlockData extends BlockData {
   language: string;
+  /** Show a line number gutter. */
+  line_numbers?: boolean;
+  /** Soft-wrap long lines instead of scrolling horizontally. */
+  wrap?: boolean;
+  /** File name or caption shown in a header above the code. */
+  file_name?: string;
+  /** 1-based line ranges to highlight, e.g. `1-3, 7`. */
+  highlight_lines?: string;
+  /** Color lines starting with `+`/`-` as additions and removals. */
+  diff?: boolean;
 }
 
 export interface CalloutBlockData extends BlockData {
@@ -236,6 +249,39 @@ export interface PDFBlockData extends BlockData {
   pending_upload_id?: string;
 }
 
+export enum WhiteboardElementType {
+  Freehand = 'freehand',
+  Rectangle = 'rectangle',
+  Arrow = 'arrow',
+  Text = 'text',
+  StickyNote = 'sticky_note',
+  Connector = 'connector',
+}
+
+export interface WhiteboardElement {
+  id: string;
+  type: WhiteboardElementType;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // Stacking order; elements are stored by id so concurrent edits merge per element
+  z: number;
+  // Freehand strokes and arrows, relative to x and y
+  points?: [number, number][];
+  text?: string;
+  color?: string;
+  // Connectors link two elements by id and follow them when they move
+  from?: string;
+  to?: string;
+}
+
+export interface WhiteboardBlockData extends BlockData {
+  // Elements live in the block's own map. Slate nodes carry a copy here, as did older clients' block data
+  elements?: Record<string, WhiteboardElement>;
+  height?: number;
+}
+
 export enum GalleryLayout {
   Carousel = 0,
   Grid = 1,
@@ -268,6 +314,12 @@ export enum TableAlignType {
   Right = 'Right',
 }
 
+export enum TableNumberFormatType {
+  Number = 'number',
+  Currency = 'currency',
+  Percent = 'percent',
+}
+
 export interface SimpleTableData extends BlockData {
   column_widths?: Record<string, number>;
   enable_header_row?: boolean;
@@ -276,6 +328,7 @@ export interface SimpleTableData extends BlockData {
   column_aligns?: Record<string, TableAlignType>;
   column_colors?: Record<string, string>;
   row_aligns?: Record<string, TableAlignType>;
+  column_number_formats?: Record<string, TableNumberFormatType>;
 }
 
 export interface TableCellBlockData extends BlockData {
@@ -303,6 +356,19 @@ export interface ColumnNodeData extends BlockData {
   ratio?: number;
 }
 
+export interface SyncedBlockData extends BlockData {
+  /** Orphaned document that holds the shared content */
+  document_id: string;
+  /** Page where the synced block was created */
+  source_view_id?: ViewId;
+}
+
+export interface Footnote {
+  /** Keeps adjacent footnotes with the same content from merging */
+  id: string;
+  content: string;
+}
+
 export enum MentionType {
   PageRef = 'page',
   Date = 'date',
@@ -526,6 +592,12 @@ export enum YjsEditorKey {
 
   // row comment
   comment = 'comment',
+
+  // synced block source document
+  synced_references = 'synced_references',
+
+  // whiteboard block
+  whiteboard_elements = 'whiteboard_elements',
 }
 
 export enum YjsFolderKey {
@@ -579,6 +651,10 @@ export enum YjsDatabaseKey {
   calculation_type = 'calculation_type',
   show_as = 'show_as',
   condition_value = 'condition_value',
+  expression = 'expression',
+  result_type = 'result_type',
+  prefix = 'prefix',
+  next_id = 'next_id',
   field_orders = 'field_orders',
   field_settings = 'field_settings',
   visibility = 'visibility',
@@ -641,6 +717,10 @@ export enum YjsDatabaseKey {
   auto_fill = 'auto_fill',
   language = 'language',
   number_of_days = 'number_of_days',
+  zoom = 'zoom',
+  conditional_formats = 'conditional_formats',
+  format_target = 'format_target',
+  format_color = 'format_color',
   // Person type option keys
   is_single_select = 'is_single_select',
   fill_with_creator = 'fill_with_creator',
@@ -821,8 +901,12 @@ export interface YBlock extends Y.Map<unknown> {
   get(key: YjsEditorKey.block_children): ChildrenId;
 
   get(key: YjsEditorKey.block_external_id): ExternalId;
+
+  get(key: YjsEditorKey.whiteboard_elements): YWhiteboardElements | undefined;
 }
 
+export type YWhiteboardElements = Y.Map<WhiteboardElement>;
+
 export interface YMeta extends Y.Map<unknown> {
   get(key: YjsEditorKey.children_map | YjsEditorKey.text_map): YChildrenMap | YTextMap;
 }
@@ -862,6 +946,7 @@ export enum DatabaseViewLayout {
   Chart = 3,
   List = 4,
   Gallery = 5,
+  Timeline = 6,
 }
 
 export interface YDatabaseView extends Y.Map<unknown> {
@@ -884,6 +969,8 @@ export interface YDatabaseView extends Y.Map<unknown> {
 
   get(key: YjsDatabaseKey.sorts): YDatabaseSorts;
 
+  get(key: YjsDatabaseKey.conditional_formats): YDatabaseConditionalFormats | undefined;
+
   get(key: YjsDatabaseKey.field_settings): YDatabaseFieldSettings;
 
   get(key: YjsDatabaseKey.field_orders): YDatabaseFieldOrders;
@@ -912,6 +999,8 @@ export type YDatabaseFilters = Y.Array<YDatabaseFilter>;
 
 export type YDatabaseSorts = Y.Array<YDatabaseSort>;
 
+export type YDatabaseConditionalFormats = Y.Array<YDatabaseConditionalFormat>;
+
 export type YDatabaseCalculations = Y.Array<YDatabaseCalculation>;
 
 export type SortId = string;
@@ -936,6 +1025,9 @@ export interface YDatabaseLayoutSettings extends Y.Map<unknown> {
 
   // DatabaseViewLayout.Gallery
   get(key: '5'): YDatabaseGalleryLayoutSetting;
+
+  // DatabaseViewLayout.Timeline
+  get(key: '6'): YDatabaseTimelineLayoutSetting;
 }
 
 export interface YDatabaseGridLayoutSetting extends Y.Map<unknown> {
@@ -958,8 +1050,8 @@ export interface YDatabaseCalendarLayoutSetting extends Y.Map<unknown> {
 
 export interface YDatabaseChartLayoutSetting extends Y.Map<unknown> {
   get(key: 'chartType' | 'aggregationType' | 'dateCondition'): string;
-  get(key: 'xFieldId' | 'yFieldId'): string | undefined;
-  get(key: 'showEmptyValues' | 'cumulative'): boolean;
+  get(key: 'xFieldId' | 'yFieldId' | 'stackFieldId' | 'additionalSeries'): string | undefined;
+  get(key: 'showEmptyValues' | 'cumulative' | 'continuousDates'): boolean;
 }
 
 export interface YDatabaseListLayoutSetting extends Y.Map<unknown> {
@@ -1002,6 +1094,24 @@ export interface YDatabaseGalleryLayoutSetting extends Y.Map<unknown> {
   get(key: YjsDatabaseKey.cover_field_id): string | undefined;
 }
 
+export enum TimelineZoom {
+  Day = 0,
+  Week = 1,
+  Month = 2,
+  Quarter = 3,
+}
+
+export interface TimelineLayoutSettings {
+  fieldId?: string;
+  zoom: TimelineZoom;
+}
+
+export interface YDatabaseTimelineLayoutSetting extends Y.Map<unknown> {
+  get(key: YjsDatabaseKey.field_id): string | undefined;
+  get(key: YjsDatabaseKey.zoom): number;
+  get(key: YjsDatabaseKey.hide_empty_groups): boolean;
+}
+
 export interface YDatabaseGroup extends Y.Map<unknown> {
   get(key: YjsDatabaseKey.id): GroupId;
 
@@ -1037,6 +1147,31 @@ export interface YDatabaseSort extends Y.Map<unknown> {
 
 export type FilterId = string;
 
+export enum ConditionalFormatTarget {
+  Row = 0,
+  Cell = 1,
+}
+
+/**
+ * A conditional formatting rule. It is a data filter (field_id, condition,
+ * content, ...) with a color and a target, so the filter evaluator reads it
+ * as-is. Cell rules color the cell of the field the condition is on.
+ */
+export interface YDatabaseConditionalFormat extends Y.Map<unknown> {
+  get(key: YjsDatabaseKey.id): FilterId;
+
+  get(key: YjsDatabaseKey.field_id): FieldId;
+
+  get(key: YjsDatabaseKey.type | YjsDatabaseKey.condition | YjsDatabaseKey.content | YjsDatabaseKey.filter_type): string;
+
+  get(key: YjsDatabaseKey.rollup_target_type): number | string | undefined;
+
+  get(key: YjsDatabaseKey.format_target): ConditionalFormatTarget | number | string | undefined;
+
+  // eslint-disable-next-line @typescript-eslint/unified-signatures
+  get(key: YjsDatabaseKey.format_color): string | undefined;
+}
+
 export interface YDatabaseFilter extends Y.Map<unknown> {
   get(key: YjsDatabaseKey.id): FilterId;
 
@@ -1113,6 +1248,8 @@ export interface YMapFieldTypeOption extends Y.Map<unknown> {
       | YjsDatabaseKey.relation_field_id
       | YjsDatabaseKey.target_field_id
       | YjsDatabaseKey.condition_value
+      | YjsDatabaseKey.expression
+      | YjsDatabaseKey.prefix
   ): string;
 
   get(key: YjsDatabaseKey.reciprocal_field_id | YjsDatabaseKey.reciprocal_field_name): string | undefined;
@@ -1132,7 +1269,9 @@ export interface YMapFieldTypeOption extends Y.Map<unknown> {
 
   get(key: YjsDatabaseKey.source_limit | YjsDatabaseKey.target_limit): number | undefined;
 
-  get(key: YjsDatabaseKey.calculation_type | YjsDatabaseKey.show_as): number;
+  get(
+    key: YjsDatabaseKey.calculation_type | YjsDatabaseKey.show_as | YjsDatabaseKey.result_type | YjsDatabaseKey.next_id
+  ): number;
 
   // Number
   // eslint-disable-next-line @typescript-eslint/unified-signatures
@@ -1204,6 +1343,7 @@ export const databaseLayoutMap = {
   [DatabaseViewLayout.Chart]: 'chart',
   [DatabaseViewLayout.List]: 'list',
   [DatabaseViewLayout.Gallery]: 'gallery',
+  [DatabaseViewLayout.Timeline]: 'timeline',
 };
 
 export enum FontLayout {
@@ -1691,6 +1831,9 @@ export interface ViewExtra extends SpaceInfo, DatabaseViewExtra {
   database_view_id?: string;
   /** Owning row-template id for a template document (paired with `database_row_template`). */
   template_id?: string;
+
+  /** Marks a document page as a reusable page template for its workspace. */
+  page_template?: boolean;
 }
 
 export interface View {
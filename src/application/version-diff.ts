@@ -0,0 +1,307 @@
+/**
+ * Block level comparison of two document versions for the version history
+ * browser, and restoring a single block from a version into the live document.
+ *
+ * Blocks are matched by id, so an edited block keeps its place in the diff
+ * and a moved block shows at its new position. Text inside a block that exists
+ * in both versions is compared word by word.
+ */
+
+import { Op } from 'quill-delta';
+import * as Y from 'yjs';
+
+import {
+  createBlock,
+  dataStringTOJson,
+  getBlock,
+  getChildrenArray,
+  getPageId,
+  getText,
+  updateBlockParent,
+} from '@/application/slate-yjs/utils/yjs';
+import { BlockType, CollabOrigin, YBlock, YDoc, YjsEditorKey, YSharedRoot } from '@/application/types';
+
+// Word diffs are quadratic; longer blocks are shown as replaced wholesale.
+const MAX_DIFF_TOKENS = 1000;
+
+export type VersionDiffStatus = 'inserted' | 'deleted' | 'changed' | 'unchanged';
+
+export interface VersionTextSegment {
+  text: string;
+  status: 'inserted' | 'deleted' | 'unchanged';
+}
+
+export interface VersionBlockDiff {
+  blockId: string;
+  type: BlockType;
+  depth: number;
+  status: VersionDiffStatus;
+  segments: VersionTextSegment[];
+  /** Block properties (heading level, checked state, image URL, ...) differ. */
+  dataChanged: boolean;
+}
+
+interface FlatBlock {
+  id: string;
+  type: BlockType;
+  depth: number;
+  data: string;
+  text: string;
+}
+
+function getSharedRoot(doc: YDoc): YSharedRoot {
+  return doc.getMap(YjsEditorKey.data_section) as YSharedRoot;
+}
+
+function hasDocument(sharedRoot: YSharedRoot): boolean {
+  return Boolean(sharedRoot.get(YjsEditorKey.document));
+}
+
+function blockText(block: YBlock, sharedRoot: YSharedRoot): string {
+  const textId = block.get(YjsEditorKey.block_external_id);
+
+  return textId ? getText(textId, sharedRoot)?.toString() ?? '' : '';
+}
+
+/** The blocks of a document in reading order, below the page block. */
+function flattenBlocks(doc: YDoc): FlatBlock[] {
+  const sharedRoot = getSharedRoot(doc);
+
+  if (!hasDocument(sharedRoot)) return [];
+
+  const blocks: FlatBlock[] = [];
+  const visit = (parentId: string, depth: number) => {
+    const parent = getBlock(parentId, sharedRoot);
+    const children = parent ? getChildrenArray(parent.get(YjsEditorKey.block_children), sharedRoot) : undefined;
+
+    children?.toArray().forEach((id) => {
+      const block = getBlock(id, sharedRoot);
+
+      if (!block) return;
+
+      blocks.push({
+        id,
+        type: block.get(YjsEditorKey.block_type),
+        depth,
+        data: block.get(YjsEditorKey.block_data) ?? '{}',
+        text: blockText(block, sharedRoot),
+      });
+      visit(id, depth + 1);
+    });
+  };
+
+  visit(getPageId(sharedRoot), 0);
+  return blocks;
+}
+
+function sameData(left: string, right: string): boolean {
+  if (left === right) return true;
+
+  return JSON.stringify(dataStringTOJson(left)) === JSON.stringify(dataStringTOJson(right));
+}
+
+function pushSegment(segments: VersionTextSegment[], text: string, status: VersionTextSegment['status']) {
+  if (!text) return;
+
+  const last = segments[segments.length - 1];
+
+  if (last?.status === status) {
+    last.text += text;
+    return;
+  }
+
+  segments.push({ text, status });
+}
+
+/** Word level diff of two strings; whitespace is kept as its own token. */
+export function diffText(oldText: string, newText: string): VersionTextSegment[] {
+  const segments: VersionTextSegment[] = [];
+
+  if (oldText === newText) {
+    pushSegment(segments, newText, 'unchanged');
+    return segments;
+  }
+
+  const oldTokens = oldText.split(/(\s+)/).filter(Boolean);
+  const newTokens = newText.split(/(\s+)/).filter(Boolean);
+
+  if (oldTokens.length * newTokens.length > MAX_DIFF_TOKENS * MAX_DIFF_TOKENS) {
+    pushSegment(segments, oldText, 'deleted');
+    pushSegment(segments, newText, 'inserted');
+    return segments;
+  }
+
+  // lcs[i][j]: length of the longest common subsequence of oldTokens[i..] and newTokens[j..]
+  const lcs = Array.from({ length: oldTokens.length + 1 }, () => new Array<number>(newTokens.length + 1).fill(0));
+
+  for (let i = oldTokens.length - 1; i >= 0; i--) {
+    for (let j = newTokens.length - 1; j >= 0; j--) {
+      lcs[i][j] = oldTokens[i] === newTokens[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+
+  while (i < oldTokens.length && j < newTokens.length) {
+    if (oldTokens[i] === newTokens[j]) {
+      pushSegment(segments, oldTokens[i], 'unchanged');
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      pushSegment(segments, oldTokens[i], 'deleted');
+      i++;
+    } else {
+      pushSegment(segments, newTokens[j], 'inserted');
+      j++;
+    }
+  }
+
+  oldTokens.slice(i).forEach((token) => pushSegment(segments, token, 'deleted'));
+  newTokens.slice(j).forEach((token) => pushSegment(segments, token, 'inserted'));
+  return segments;
+}
+
+function toDiff(block: FlatBlock, status: VersionDiffStatus, segments: VersionTextSegment[], dataChanged = false) {
+  return { blockId: block.id, type: block.type, depth: block.depth, status, segments, dataChanged };
+}
+
+/**
+ * Compare two versions of a document. The result follows the newer version's
+ * order; blocks only the older version has are placed where they used to be.
+ */
+export function diffDocumentVersions(oldDoc: YDoc, newDoc: YDoc): VersionBlockDiff[] {
+  const oldBlocks = flattenBlocks(oldDoc);
+  const newBlocks = flattenBlocks(newDoc);
+  const oldIndex = new Map(oldBlocks.map((block, index) => [block.id, index]));
+  const newIds = new Set(newBlocks.map((block) => block.id));
+  const result: VersionBlockDiff[] = [];
+  let cursor = 0;
+
+  const flushDeletedUntil = (end: number) => {
+    for (; cursor < end; cursor++) {
+      const block = oldBlocks[cursor];
+
+      if (!newIds.has(block.id)) {
+        result.push(toDiff(block, 'deleted', block.text ? [{ text: block.text, status: 'deleted' }] : []));
+      }
+    }
+  };
+
+  newBlocks.forEach((block) => {
+    const index = oldIndex.get(block.id);
+
+    if (index === undefined) {
+      result.push(toDiff(block, 'inserted', block.text ? [{ text: block.text, status: 'inserted' }] : []));
+      return;
+    }
+
+    flushDeletedUntil(index);
+    cursor = Math.max(cursor, index + 1);
+
+    const previous = oldBlocks[index];
+    const dataChanged = previous.type !== block.type || !sameData(previous.data, block.data);
+    const segments = diffText(previous.text, block.text);
+    const textChanged = previous.text !== block.text;
+
+    result.push(toDiff(block, textChanged || dataChanged ? 'changed' : 'unchanged', segments, dataChanged));
+  });
+
+  flushDeletedUntil(oldBlocks.length);
+  return result;
+}
+
+function replaceText(targetRoot: YSharedRoot, target: YBlock, sourceRoot: YSharedRoot, source: YBlock) {
+  const sourceText = getText(source.get(YjsEditorKey.block_external_id), sourceRoot);
+  const targetText = getText(target.get(YjsEditorKey.block_external_id), targetRoot);
+
+  if (!sourceText || !targetText) return;
+
+  targetText.delete(0, targetText.length);
+  targetText.applyDelta(sourceText.toDelta() as Op[]);
+}
+
+function copyBlockInto(
+  targetRoot: YSharedRoot,
+  sourceRoot: YSharedRoot,
+  source: YBlock,
+  parent: YBlock,
+  index: number
+): YBlock {
+  const copy = createBlock(targetRoot, {
+    ty: source.get(YjsEditorKey.block_type),
+    data: dataStringTOJson(source.get(YjsEditorKey.block_data)),
+  });
+
+  replaceText(targetRoot, copy, sourceRoot, source);
+  updateBlockParent(targetRoot, copy, parent, index);
+
+  getChildrenArray(source.get(YjsEditorKey.block_children), sourceRoot)
+    ?.toArray()
+    .forEach((childId, childIndex) => {
+      const child = getBlock(childId, sourceRoot);
+
+      if (child) copyBlockInto(targetRoot, sourceRoot, child, copy, childIndex);
+    });
+
+  return copy;
+}
+
+/** Where a block from another version belongs in `targetRoot`: after its closest surviving previous sibling. */
+function findRestorePosition(targetRoot: YSharedRoot, sourceRoot: YSharedRoot, source: YBlock) {
+  const sourceParentId = source.get(YjsEditorKey.block_parent);
+  const parent = getBlock(sourceParentId, targetRoot) ?? getBlock(getPageId(targetRoot), targetRoot);
+  const targetSiblings = getChildrenArray(parent.get(YjsEditorKey.block_children), targetRoot).toArray();
+  const sourceParent = getBlock(sourceParentId, sourceRoot);
+  const sourceSiblings = sourceParent
+    ? getChildrenArray(sourceParent.get(YjsEditorKey.block_children), sourceRoot).toArray()
+    : [];
+  const sourceIndex = sourceSiblings.indexOf(source.get(YjsEditorKey.block_id));
+
+  for (let i = sourceIndex - 1; i >= 0; i--) {
+    const targetIndex = targetSiblings.indexOf(sourceSiblings[i]);
+
+    if (targetIndex !== -1) return { parent, index: targetIndex + 1 };
+  }
+
+  return { parent, index: 0 };
+}
+
+/**
+ * Put one block of `versionDoc` back into `doc`. A block that still exists
+ * gets the version's type, properties and text while keeping its current
+ * children; a deleted block is re-created with its children. Returns false
+ * when the version has no such block.
+ */
+export function restoreVersionBlock(doc: YDoc, versionDoc: YDoc, blockId: string): boolean {
+  const targetRoot = getSharedRoot(doc);
+  const sourceRoot = getSharedRoot(versionDoc);
+
+  if (!hasDocument(targetRoot) || !hasDocument(sourceRoot)) return false;
+
+  const source = getBlock(blockId, sourceRoot);
+
+  if (!source) return false;
+
+  doc.transact(() => {
+    const existing = getBlock(blockId, targetRoot);
+
+    if (existing) {
+      existing.set(YjsEditorKey.block_type, source.get(YjsEditorKey.block_type));
+      existing.set(YjsEditorKey.block_data, source.get(YjsEditorKey.block_data));
+      replaceText(targetRoot, existing, sourceRoot, source);
+      return;
+    }
+
+    const { parent, index } = findRestorePosition(targetRoot, sourceRoot, source);
+
+    copyBlockInto(targetRoot, sourceRoot, source, parent, index);
+  }, CollabOrigin.LocalManual);
+
+  return true;
+}
+
+/** Encoded Yjs snapshot of the document's current state, used to save a named version. */
+export function encodeVersionSnapshot(doc: YDoc): Uint8Array {
+  return Y.encodeSnapshot(Y.snapshot(doc));
+}
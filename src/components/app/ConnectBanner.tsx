@@ -1,9 +1,11 @@
-import { useCallback, useSyncExternalStore } from 'react';
+import { useCallback, useState, useSyncExternalStore } from 'react';
 import { useTranslation } from 'react-i18next';
 
 import { APP_EVENTS } from '@/application/constants';
 import { ReactComponent as CloudOffIcon } from '@/assets/icons/cloud_off.svg';
+import { ReactComponent as WarningIcon } from '@/assets/icons/warning.svg';
 import type { AppEventEmitter } from '@/components/app/contexts/AppEventEmitterContext';
+import { PendingChangesPanel, usePendingChanges } from '@/components/app/pending-changes';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 
@@ -48,6 +50,9 @@ export function ConnectBanner() {
   );
 
   const readyState = useSyncExternalStore(subscribe, getSnapshot);
+  const pendingChanges = usePendingChanges();
+  const blockedCount = pendingChanges.filter((item) => item.blockedReason).length;
+  const [pendingOpen, setPendingOpen] = useState(false);
 
   // Manual reconnect
   const handleReconnect = useCallback(() => {
@@ -58,13 +63,54 @@ export function ConnectBanner() {
   const isClosed = readyState === READY_STATE.CLOSED;
   const isOpen = readyState === READY_STATE.OPEN;
 
-  // Hide the banner when the connection is open and stable
+  const pendingPanel = (
+    <PendingChangesPanel open={pendingOpen} onClose={() => setPendingOpen(false)} items={pendingChanges} />
+  );
+
+  const pendingButton = pendingChanges.length > 0 && (
+    <Button
+      data-testid='connect-banner-pending-changes'
+      variant='ghost'
+      size='sm'
+      className='ml-2'
+      onClick={() => setPendingOpen(true)}
+    >
+      {t('pendingChanges.count', { defaultValue: 'Pending changes ({{count}})', count: pendingChanges.length })}
+    </Button>
+  );
+
+  // Hide the banner when the connection is open and stable. Updates the server
+  // refused stay queued while connected, so they keep the banner visible.
+  if (isOpen && blockedCount === 0) {
+    return (
+      <>
+        <div
+          className='fixed left-0 right-0 top-0 z-50 overflow-hidden transition-all duration-300 ease-in-out'
+          style={{ height: 0 }}
+        />
+        {pendingPanel}
+      </>
+    );
+  }
+
   if (isOpen) {
     return (
       <div
-        className='fixed left-0 right-0 top-0 z-50 overflow-hidden transition-all duration-300 ease-in-out'
-        style={{ height: 0 }}
-      />
+        data-testid='connect-banner'
+        className='absolute left-0 top-[48px] z-50 w-full bg-surface-container-layer-01 transition-all duration-300 ease-in-out'
+      >
+        <div className='flex h-[52px] items-center space-x-2 px-4 py-3'>
+          <WarningIcon className='h-5 w-5 text-text-error' />
+          <span data-testid='connect-banner-blocked' className='text-sm text-text-secondary'>
+            {t('pendingChanges.blocked', {
+              defaultValue: "{{count}} changes couldn't be synced",
+              count: blockedCount,
+            })}
+          </span>
+          {pendingButton}
+        </div>
+        {pendingPanel}
+      </div>
     );
   }
 
@@ -105,8 +151,10 @@ export function ConnectBanner() {
               </Button>
             </>
           )}
+          {pendingButton}
         </div>
       </div>
+      {pendingPanel}
     </div>
   );
 }
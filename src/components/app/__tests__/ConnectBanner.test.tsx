@@ -3,15 +3,22 @@ import EventEmitter from 'events';
 import { act, fireEvent, render, screen } from '@testing-library/react';
 
 import { APP_EVENTS } from '@/application/constants';
+import type { PendingOutboxObject } from '@/application/sync-outbox';
 import { ConnectBanner } from '@/components/app/ConnectBanner';
 import type { AppEventEmitter } from '@/components/app/contexts/AppEventEmitterContext';
 
 let mockEventEmitter: AppEventEmitter;
+let mockPendingChanges: PendingOutboxObject[] = [];
 
 jest.mock('@/components/app/app.hooks', () => ({
   useEventEmitter: () => mockEventEmitter,
 }));
 
+jest.mock('@/components/app/pending-changes', () => ({
+  usePendingChanges: () => mockPendingChanges,
+  PendingChangesPanel: ({ open }: { open: boolean }) => (open ? <div data-testid='pending-changes-panel' /> : null),
+}));
+
 jest.mock('react-i18next', () => ({
   useTranslation: () => ({ t: (key: string) => key }),
 }));
@@ -26,7 +33,22 @@ function renderConnectBanner(eventEmitter: AppEventEmitter) {
   return render(<ConnectBanner />);
 }
 
+function pendingChange(overrides: Partial<PendingOutboxObject> = {}): PendingOutboxObject {
+  return {
+    objectId: 'object-1',
+    collabType: 0,
+    recordCount: 1,
+    byteLength: 128,
+    oldestCreatedAt: Date.now(),
+    ...overrides,
+  };
+}
+
 describe('ConnectBanner', () => {
+  beforeEach(() => {
+    mockPendingChanges = [];
+  });
+
   it('does not show connecting when websocket is already open before subscribing', () => {
     const eventEmitter = createEventEmitter();
 
@@ -67,4 +89,31 @@ describe('ConnectBanner', () => {
     fireEvent.click(screen.getByTestId('connect-banner-reconnect'));
     expect(reconnectSpy).toHaveBeenCalledTimes(1);
   });
+
+  it('opens the pending changes panel while disconnected', () => {
+    const eventEmitter = createEventEmitter();
+
+    mockPendingChanges = [pendingChange()];
+    eventEmitter.webSocketReadyState = 3;
+    renderConnectBanner(eventEmitter);
+
+    fireEvent.click(screen.getByTestId('connect-banner-pending-changes'));
+    expect(screen.queryByTestId('pending-changes-panel')).not.toBeNull();
+  });
+
+  it('stays visible while connected when the server refused a queued update', () => {
+    const eventEmitter = createEventEmitter();
+
+    eventEmitter.webSocketReadyState = 1;
+    mockPendingChanges = [pendingChange()];
+    const { rerender } = renderConnectBanner(eventEmitter);
+
+    expect(screen.queryByTestId('connect-banner')).toBeNull();
+
+    mockPendingChanges = [pendingChange({ blockedReason: 'permission_denied' })];
+    rerender(<ConnectBanner />);
+
+    expect(screen.queryByTestId('connect-banner-blocked')).not.toBeNull();
+    expect(screen.queryByTestId('connect-banner-pending-changes')).not.toBeNull();
+  });
 });
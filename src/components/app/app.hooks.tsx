@@ -1,6 +1,7 @@
-import { useContext, useMemo, useState, type ReactNode } from 'react';
+import { useCallback, useContext, useMemo, useState, useSyncExternalStore, type ReactNode } from 'react';
 import { useSearchParams } from 'react-router-dom';
 
+import type { PresenceUser, WorkspacePresenceStore } from '@/application/awareness';
 import { determineErrorType, ErrorType } from '@/application/utils/error-utils';
 import { ReactComponent as ErrorIcon } from '@/assets/icons/error.svg';
 import { FullScreenLoading } from '@/components/_shared/FullScreenLoading';
@@ -532,7 +533,7 @@ export function usePublishing() {
   );
 }
 
-/** Memoized `{ getCollabHistory, previewCollabVersion, revertCollabVersion }`. For version history UI. */
+/** Memoized `{ getCollabHistory, previewCollabVersion, revertCollabVersion, createCollabVersion }`. For version history UI. */
 export function useCollabHistory() {
   const context = useContext(AppOperationsContext);
 
@@ -545,8 +546,9 @@ export function useCollabHistory() {
       getCollabHistory: context.getCollabHistory,
       previewCollabVersion: context.previewCollabVersion,
       revertCollabVersion: context.revertCollabVersion,
+      createCollabVersion: context.createCollabVersion,
     }),
-    [context.getCollabHistory, context.previewCollabVersion, context.revertCollabVersion]
+    [context.getCollabHistory, context.previewCollabVersion, context.revertCollabVersion, context.createCollabVersion]
   );
 }
 
@@ -576,6 +578,52 @@ export function useAppAwareness(viewId?: string) {
   return context?.awarenessMap?.[viewId];
 }
 
+const NO_PRESENCE: PresenceUser[] = [];
+const subscribeToNoPresence = () => () => undefined;
+const getNoPresence = () => NO_PRESENCE;
+
+function usePresenceUsers(select?: (store: WorkspacePresenceStore) => PresenceUser[]) {
+  const store = useContext(AppSyncContext)?.presenceStore;
+  const getSnapshot = useCallback(() => (store && select ? select(store) : NO_PRESENCE), [store, select]);
+
+  return useSyncExternalStore(store && select ? store.subscribe : subscribeToNoPresence, getSnapshot, getNoPresence);
+}
+
+/** Other workspace members viewing the page. Empty outside provider. */
+export function useViewPresence(viewId?: string) {
+  const select = useMemo(
+    () => (viewId ? (store: WorkspacePresenceStore) => store.getViewUsers(viewId) : undefined),
+    [viewId]
+  );
+
+  return usePresenceUsers(select);
+}
+
+/** Other workspace members with the row detail open. Empty outside provider. */
+export function useRowPresence(rowId?: string) {
+  const select = useMemo(
+    () => (rowId ? (store: WorkspacePresenceStore) => store.getRowUsers(rowId) : undefined),
+    [rowId]
+  );
+
+  return usePresenceUsers(select);
+}
+
+/** Other workspace members with the grid cell selected. Empty outside provider. */
+export function useCellPresence(rowId?: string, fieldId?: string) {
+  const select = useMemo(
+    () => (rowId && fieldId ? (store: WorkspacePresenceStore) => store.getCellUsers(rowId, fieldId) : undefined),
+    [rowId, fieldId]
+  );
+
+  return usePresenceUsers(select);
+}
+
+/** Publish the row or cell the current user is on. Undefined outside provider. */
+export function useUpdatePresence() {
+  return useContext(AppSyncContext)?.updatePresence;
+}
+
 // ─── Sync hooks → AppSyncContext ─────────────────────────────────────────────
 // Provided by AppBusinessLayer (reads sync state from AppSyncLayer).
 // Available after workspace loads and WebSocket connects.
@@ -47,7 +47,7 @@ import {
  * - `useToView()` — just the `toView` navigation callback
  * - `useGetSubscriptions()` — just `getSubscriptions`
  * - `usePublishing()` — memoized `{ publish, unpublish }`
- * - `useCollabHistory()` — memoized `{ getCollabHistory, previewCollabVersion, revertCollabVersion }`
+ * - `useCollabHistory()` — memoized `{ getCollabHistory, previewCollabVersion, revertCollabVersion, createCollabVersion }`
  *
  * **Full context hook:** `useAppOperations()` — returns the entire context.
  * Use this when you need 3+ fields from different sub-groups.
@@ -150,6 +150,8 @@ export interface AppOperationsContextType {
   previewCollabVersion?: (viewId: string, versionId: string, collabType: Types) => Promise<YDoc | undefined>;
   /** Revert a document to a specific version. Hook: `useCollabHistory()`. */
   revertCollabVersion?: (viewId: string, versionId: string) => Promise<void>;
+  /** Save the document's current state as a named version. Hook: `useCollabHistory()`. */
+  createCollabVersion?: (viewId: string, name: string) => Promise<void>;
 
   // ── Workspace ──────────────────────────────────────────────────────
   /** Switch the active workspace. */
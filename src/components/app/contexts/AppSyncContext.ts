@@ -1,6 +1,9 @@
 import { createContext } from 'react';
 import { Awareness } from 'y-protocols/awareness';
 
+import type { WorkspacePresenceStore } from '@/application/awareness';
+import type { UpdatePresence } from '@/components/app/hooks/useWorkspacePresence';
+
 /**
  * Sync / realtime state context.
  *
@@ -14,6 +17,9 @@ import { Awareness } from 'y-protocols/awareness';
  * **Hooks:**
  * - `useScheduleDeferredCleanup()` — schedule cleanup for a sync object
  * - `useAppAwareness(viewId)` — per-view collaborator awareness (optional, no throw)
+ * - `useViewPresence(viewId)`, `useRowPresence(rowId)`, `useCellPresence(rowId, fieldId)` —
+ *   other workspace members on a page, row or grid cell (optional, no throw)
+ * - `useUpdatePresence()` — publish where the current user is (optional, no throw)
  * - `useAppSyncContext()` — the full sync context
  */
 export interface AppSyncContextType {
@@ -21,6 +27,10 @@ export interface AppSyncContextType {
   awarenessMap?: Record<string, Awareness>;
   /** Schedule deferred cleanup of a sync object (e.g. Yjs doc) after a delay. */
   scheduleDeferredCleanup?: (objectId: string, delayMs?: number) => void;
+  /** Presence of the other workspace members, indexed by page, row and grid cell. */
+  presenceStore?: WorkspacePresenceStore;
+  /** Update the page, row or cell the current user is shown on. */
+  updatePresence?: UpdatePresence;
 }
 
 export const AppSyncContext = createContext<AppSyncContextType | null>(null);
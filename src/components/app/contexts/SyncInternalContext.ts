@@ -16,6 +16,8 @@ export interface SyncInternalContextType {
   registerSyncContext: (params: RegisterSyncContext) => SyncContext;
   rebindSyncContext: (objectId: string) => YDoc | undefined;
   revertCollabVersion: (viewId: string, version: string) => Promise<void>;
+  /** Drop unsynced local edits of an object and reset its local copy to the server state. */
+  discardLocalChanges: (objectId: string) => Promise<void>;
   eventEmitter: AppEventEmitter;
   awarenessMap: Record<string, Awareness>;
   /**
@@ -3,11 +3,14 @@ import { useCallback, useMemo } from 'react';
 import { useTranslation } from 'react-i18next';
 
 import { ViewLayout } from '@/application/types';
-import { useAppView, useAppWordCount } from '@/components/app/app.hooks';
+import { useAppOperations, useAppView, useAppWordCount, useCurrentWorkspaceId } from '@/components/app/app.hooks';
+import { LinkedFrom } from '@/components/backlinks';
 import { getCharacters, getWords } from '@/utils/word';
 
-function DocumentInfo({ viewId }: { viewId: string }) {
+function DocumentInfo({ viewId, onNavigate }: { viewId: string; onNavigate?: () => void }) {
   const view = useAppView(viewId);
+  const workspaceId = useCurrentWorkspaceId();
+  const { loadViewMeta, toView } = useAppOperations();
   const { t } = useTranslation();
   const wordCount = useAppWordCount(viewId);
   const formatTime = useCallback(
@@ -71,6 +74,15 @@ function DocumentInfo({ viewId }: { viewId: string }) {
           </div>
         )}
       </div>
+      <LinkedFrom
+        variant={'compact'}
+        workspaceId={workspaceId}
+        viewId={viewId}
+        viewName={viewName}
+        loadViewMeta={loadViewMeta}
+        navigateToView={toView}
+        onNavigate={onNavigate}
+      />
     </>
   );
 }
@@ -3,6 +3,7 @@ import { useTranslation } from 'react-i18next';
 
 import { APP_EVENTS } from '@/application/constants';
 import { ViewLayout } from '@/application/types';
+import { isDatabaseLayout } from '@/application/view-utils';
 import { ReactComponent as AddToPageIcon } from '@/assets/icons/add_to_page.svg';
 import { ReactComponent as MoreIcon } from '@/assets/icons/more.svg';
 import { useAIChatContext } from '@/components/ai-chat/AIChatProvider';
@@ -30,6 +31,7 @@ import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip
 import MoreActionsContent from './MoreActionsContent';
 
 const DocumentHistoryModal = lazy(() => import('@/components/document/history/DocumentHistoryModal'));
+const DatabaseHistoryModal = lazy(() => import('@/components/database/history/DatabaseHistoryModal'));
 
 function PermissionedMoreActionsContent({
   chatOptions,
@@ -78,7 +80,7 @@ function PermissionedMoreActionsContent({
       />
       <DropdownMenuSeparator />
 
-      <DocumentInfo viewId={viewId} />
+      <DocumentInfo viewId={viewId} onNavigate={handleClose} />
     </>
   );
 }
@@ -160,7 +162,8 @@ function MoreActions({
   }, [viewId]);
 
   const pageHistoryEnabled = usePageHistoryEnabled();
-  const showHistory = pageHistoryEnabled && view?.layout === ViewLayout.Document;
+  const isDatabase = !!view && isDatabaseLayout(view.layout);
+  const showHistory = pageHistoryEnabled && (view?.layout === ViewLayout.Document || isDatabase);
 
   const eventEmitter = useEventEmitter();
   const isDocument = view?.layout === ViewLayout.Document;
@@ -205,7 +208,11 @@ function MoreActions({
       </DropdownMenu>
       {showHistory && historyOpen && (
         <Suspense fallback={null}>
-          <DocumentHistoryModal open={historyOpen} onOpenChange={setHistoryOpen} viewId={viewId} view={view} />
+          {isDatabase ? (
+            <DatabaseHistoryModal open={historyOpen} onOpenChange={setHistoryOpen} viewId={viewId} view={view} />
+          ) : (
+            <DocumentHistoryModal open={historyOpen} onOpenChange={setHistoryOpen} viewId={viewId} view={view} />
+          )}
         </Suspense>
       )}
     </>
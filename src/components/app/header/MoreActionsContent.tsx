@@ -3,12 +3,15 @@ import { useTranslation } from 'react-i18next';
 import { toast } from 'sonner';
 
 import { ViewLayout } from '@/application/types';
-import { canBeMoved } from '@/application/view-utils';
+import { canBeMoved, isDatabaseLayout } from '@/application/view-utils';
 import { ReactComponent as DeleteIcon } from '@/assets/icons/delete.svg';
+import { ReactComponent as DocIcon } from '@/assets/icons/doc.svg';
 import { ReactComponent as DuplicateIcon } from '@/assets/icons/duplicate.svg';
+import { ReactComponent as CodeIcon } from '@/assets/icons/inline_code.svg';
 import { ReactComponent as LockIcon } from '@/assets/icons/lock.svg';
 import { ReactComponent as MoveToIcon } from '@/assets/icons/move_to.svg';
 import { ReactComponent as SearchIcon } from '@/assets/icons/search.svg';
+import { ReactComponent as TemplateIcon } from '@/assets/icons/template.svg';
 import { ReactComponent as TimeIcon } from '@/assets/icons/time.svg';
 import { ViewService, PageService } from '@/application/services/domains';
 import { findView } from '@/components/_shared/outline/utils';
@@ -21,7 +24,10 @@ import {
   useLoadViewChildren,
 } from '@/components/app/app.hooks';
 import { useSyncInternal } from '@/components/app/contexts/SyncInternalContext';
+import { useDocumentExport } from '@/components/app/share/useDocumentExport';
 import MovePagePopover from '@/components/app/view-actions/MovePagePopover';
+import { AvailableOfflineMenuItem } from '@/components/offline';
+import { DocumentExportFormat } from '@/components/editor/serializers';
 import { DropdownMenuGroup, DropdownMenuItem, DropdownMenuSeparator } from '@/components/ui/dropdown-menu';
 import { Progress } from '@/components/ui/progress';
 import { Switch } from '@/components/ui/switch';
@@ -117,12 +123,28 @@ function MoreActionsContent({
     duplicateCopySuffix,
   ]);
 
+  const exportDocument = useDocumentExport(viewId);
+  const handleExportClick = useCallback(
+    async (format: DocumentExportFormat) => {
+      itemClicked?.();
+      try {
+        await exportDocument(format);
+        toast.success(t('shareAction.exportDocumentSuccess', { defaultValue: 'Page exported' }));
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      } catch (e: any) {
+        toast.error(e?.message ?? t('shareAction.exportDocumentError', { defaultValue: 'Failed to export page' }));
+      }
+    },
+    [exportDocument, itemClicked, t]
+  );
+
   const [container, setContainer] = useState<HTMLElement | null>(null);
   const containerRef = useCallback((el: HTMLElement | null) => {
     setContainer(el);
   }, []);
 
   const isDocument = layout === ViewLayout.Document;
+  const isDatabase = layout !== undefined && isDatabaseLayout(layout);
   const isLocked = !!view?.is_locked;
 
   const handleToggleLock = useCallback(async () => {
@@ -143,6 +165,33 @@ function MoreActionsContent({
     }
   }, [workspaceId, view, viewId, refreshOutline, t]);
 
+  const isTemplate = !!view?.extra?.page_template;
+
+  const handleToggleTemplate = useCallback(async () => {
+    if (!workspaceId || !view) return;
+    const next = !view.extra?.page_template;
+
+    try {
+      await PageService.update(workspaceId, viewId, {
+        name: view.name,
+        icon: view.icon ?? undefined,
+        extra: {
+          ...(view.extra || {}),
+          page_template: next || undefined,
+        },
+      });
+      void refreshOutline?.();
+      toast.success(
+        next
+          ? t('pageTemplate.savedToast', 'Saved as a template')
+          : t('pageTemplate.removedToast', 'Removed from templates')
+      );
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (e: any) {
+      toast.error(e.message);
+    }
+  }, [workspaceId, view, viewId, refreshOutline, t]);
+
   return (
     <DropdownMenuGroup>
       <div ref={containerRef} />
@@ -159,9 +208,23 @@ function MoreActionsContent({
             <span className={'flex-1'}>{t('disclosureAction.lockPage')}</span>
             <Switch checked={isLocked} tabIndex={-1} aria-hidden className={'pointer-events-none'} />
           </DropdownMenuItem>
+          <DropdownMenuItem
+            data-testid={'more-page-template'}
+            onSelect={(event) => {
+              event.preventDefault();
+              void handleToggleTemplate();
+            }}
+          >
+            <TemplateIcon />
+            <span className={'flex-1'}>{t('pageTemplate.useAsTemplate', 'Use as template')}</span>
+            <Switch checked={isTemplate} tabIndex={-1} aria-hidden className={'pointer-events-none'} />
+          </DropdownMenuItem>
           <DropdownMenuSeparator />
         </>
       )}
+      {layout !== undefined && layout !== ViewLayout.AIChat && (
+        <AvailableOfflineMenuItem workspaceId={workspaceId} viewId={viewId} />
+      )}
       {canDuplicateActions && (
         <DropdownMenuItem
           data-testid={'more-page-duplicate'}
@@ -214,6 +277,25 @@ function MoreActionsContent({
         </DropdownMenuItem>
       )}
 
+      {isDocument && (
+        <>
+          <DropdownMenuItem
+            data-testid={'more-page-export-markdown'}
+            onSelect={() => void handleExportClick(DocumentExportFormat.Markdown)}
+          >
+            <DocIcon />
+            {t('moreAction.exportMarkdown', { defaultValue: 'Export as Markdown' })}
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            data-testid={'more-page-export-html'}
+            onSelect={() => void handleExportClick(DocumentExportFormat.HTML)}
+          >
+            <CodeIcon />
+            {t('moreAction.exportHtml', { defaultValue: 'Export as HTML' })}
+          </DropdownMenuItem>
+        </>
+      )}
+
       {canManageActions && (
         <DropdownMenuItem
           data-testid='view-action-delete'
@@ -227,7 +309,7 @@ function MoreActionsContent({
         </DropdownMenuItem>
       )}
 
-      {canUsePageHistory && isDocument && onOpenHistory && (
+      {canUsePageHistory && (isDocument || isDatabase) && onOpenHistory && (
         <DropdownMenuItem
           data-testid='more-page-version-history'
           onSelect={(event) => {
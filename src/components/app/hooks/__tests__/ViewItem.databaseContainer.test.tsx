@@ -24,6 +24,7 @@ jest.mock('@/components/app/app.hooks', () => ({
   }),
   useCurrentWorkspaceIdOptional: () => 'test-workspace',
   useRefreshOutline: () => jest.fn(),
+  useViewPresence: () => [],
 }));
 
 jest.mock('@/components/_shared/cutsom-icon', () => ({
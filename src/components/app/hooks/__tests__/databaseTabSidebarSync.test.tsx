@@ -45,6 +45,7 @@ jest.mock('@/components/app/app.hooks', () => {
     }),
     useCurrentWorkspaceIdOptional: () => 'test-workspace',
     useRefreshOutline: () => jest.fn(),
+    useViewPresence: () => [],
   };
 });
 
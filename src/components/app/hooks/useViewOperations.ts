@@ -4,6 +4,7 @@ import { Awareness } from 'y-protocols/awareness';
 import * as Y from 'yjs';
 
 import { APP_EVENTS } from '@/application/constants';
+import { openCollabDB } from '@/application/db';
 import { CollabService, ViewService, WorkspaceService } from '@/application/services/domains';
 import {
   AccessLevel,
@@ -15,6 +16,7 @@ import {
   YDoc,
   YDocWithMeta,
 } from '@/application/types';
+import { encodeVersionSnapshot } from '@/application/version-diff';
 import { openView } from '@/application/view-loader';
 import {
   getDatabaseIdFromExtra,
@@ -539,6 +541,20 @@ export function useViewOperations({
     [currentWorkspaceId]
   );
 
+  const createCollabVersion = useCallback(
+    async (viewId: string, name: string) => {
+      if (!currentWorkspaceId) {
+        throw new Error('Workspace not found');
+      }
+
+      // The open document includes edits the server may not have received yet
+      const doc = await openCollabDB(viewId);
+
+      await CollabService.createVersion(currentWorkspaceId, viewId, Types.Document, name, encodeVersionSnapshot(doc));
+    },
+    [currentWorkspaceId]
+  );
+
   return {
     loadView,
     bindViewSync,
@@ -549,5 +565,6 @@ export function useViewOperations({
     getViewReadOnlyStatus: getViewReadOnlyStatusFromOutline,
     getCollabHistory,
     previewCollabVersion,
+    createCollabVersion,
   };
 }
@@ -0,0 +1,99 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Awareness } from 'y-protocols/awareness';
+import * as Y from 'yjs';
+
+import {
+  AwarenessPresence,
+  createWorkspacePresenceStore,
+  generateUserColors,
+  useDispatchPresenceAwareness,
+  WorkspacePresenceStore,
+} from '@/application/awareness';
+import { CollabService } from '@/application/services/domains';
+import { Types, YDoc } from '@/application/types';
+import { getUserIconUrl } from '@/application/user-metadata';
+import { useCurrentUserOptional } from '@/components/main/app.hooks';
+import { RegisterSyncContext } from '@/components/ws/sync/types';
+
+export type UpdatePresence = (
+  update: Partial<AwarenessPresence> | ((prev: AwarenessPresence) => AwarenessPresence)
+) => void;
+
+interface UseWorkspacePresenceParams {
+  workspaceId?: string;
+  /** The page the user is on, as highlighted in the sidebar. */
+  viewId?: string;
+  registerSyncContext: (context: RegisterSyncContext) => unknown;
+  scheduleDeferredCleanup: (objectId: string, delayMs?: number) => void;
+}
+
+/**
+ * Workspace-wide presence. Document awareness only reaches users that have the
+ * same document open, so presence rides on the awareness of the workspace
+ * folder instead, which every member of the workspace can subscribe to.
+ *
+ * The context is awareness-only: the empty doc bound here just anchors the
+ * awareness and is never synced, so the folder itself is not downloaded.
+ */
+export function useWorkspacePresence({
+  workspaceId,
+  viewId,
+  registerSyncContext,
+  scheduleDeferredCleanup,
+}: UseWorkspacePresenceParams) {
+  const currentUser = useCurrentUserOptional();
+  const [awareness, setAwareness] = useState<Awareness>();
+  const [presenceStore, setPresenceStore] = useState<WorkspacePresenceStore>();
+  const [localPresence, setLocalPresence] = useState<AwarenessPresence>({});
+  const dispatchPresence = useDispatchPresenceAwareness(awareness);
+
+  useEffect(() => {
+    if (!workspaceId) return;
+
+    const doc = new Y.Doc({ guid: workspaceId }) as YDoc;
+    const nextAwareness = new Awareness(doc);
+    const store = createWorkspacePresenceStore(nextAwareness, CollabService.getDeviceId());
+
+    registerSyncContext({ doc, awareness: nextAwareness, collabType: Types.Folder, awarenessOnly: true });
+    setAwareness(nextAwareness);
+    setPresenceStore(store);
+
+    return () => {
+      store.destroy();
+      // Clears the local state first, which tells the other clients we left.
+      nextAwareness.destroy();
+      scheduleDeferredCleanup(workspaceId, 0);
+      setAwareness(undefined);
+      setPresenceStore(undefined);
+    };
+  }, [workspaceId, registerSyncContext, scheduleDeferredCleanup]);
+
+  useEffect(() => {
+    setLocalPresence({ view_id: viewId });
+  }, [viewId]);
+
+  useEffect(() => {
+    if (!currentUser || !awareness) return;
+
+    const colors = generateUserColors(currentUser.name || '');
+
+    dispatchPresence(
+      {
+        uid: Number(currentUser.uid),
+        user_uuid: currentUser.uuid,
+        device_id: CollabService.getDeviceId(),
+        user_name: currentUser.name || 'Anonymous',
+        cursor_color: colors.cursor_color,
+        selection_color: colors.selection_color,
+        user_avatar: getUserIconUrl(currentUser),
+      },
+      localPresence
+    );
+  }, [awareness, currentUser, dispatchPresence, localPresence]);
+
+  const updatePresence: UpdatePresence = useCallback((update) => {
+    setLocalPresence((prev) => (typeof update === 'function' ? update(prev) : { ...prev, ...update }));
+  }, []);
+
+  return useMemo(() => ({ presenceStore, updatePresence }), [presenceStore, updatePresence]);
+}
@@ -56,6 +56,7 @@ function parsedBlockToTextNodes(block: ParsedBlock): Text[] {
         case 'link': attributes.href = f.data?.href; break;
         case 'color': attributes.font_color = f.data?.color; break;
         case 'bgColor': attributes.bg_color = f.data?.bgColor; break;
+        case 'footnote': attributes.footnote = f.data?.footnote; break;
       }
     });
 
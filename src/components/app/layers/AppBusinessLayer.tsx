@@ -2,6 +2,7 @@ import { useCallback, useEffect, useMemo, useRef, useState, type FC, type ReactN
 import { useParams, useSearchParams } from 'react-router-dom';
 import { validate as uuidValidate } from 'uuid';
 
+import { indexWorkspaceBacklinks, removeBacklinkSources } from '@/application/backlinks';
 import { APP_EVENTS, ERROR_CODE } from '@/application/constants';
 import { deleteCollabDB } from '@/application/db';
 import { AccessService, ViewService } from '@/application/services/domains';
@@ -12,7 +13,7 @@ import {
 } from '@/application/services/js-services/workspace-view-metadata';
 import { getTokenParsed } from '@/application/session/token';
 import { LoadViewMetaOptions, LoadViewOptions, TextCount, View } from '@/application/types';
-import { findAncestors, findView } from '@/components/_shared/outline/utils';
+import { findAncestors, findView, flattenViews } from '@/components/_shared/outline/utils';
 import { AppEventEmitterContext } from '@/components/app/contexts/AppEventEmitterContext';
 import { AppNavigationContext, AppNavigationContextType } from '@/components/app/contexts/AppNavigationContext';
 import { AppOperationsContext, AppOperationsContextType } from '@/components/app/contexts/AppOperationsContext';
@@ -30,6 +31,7 @@ import { useDatabaseOperations } from '../hooks/useDatabaseOperations';
 import { usePageOperations } from '../hooks/usePageOperations';
 import { useRowOperations } from '../hooks/useRowOperations';
 import { useViewOperations } from '../hooks/useViewOperations';
+import { useWorkspacePresence } from '../hooks/useWorkspacePresence';
 import { useWorkspaceData } from '../hooks/useWorkspaceData';
 
 import {
@@ -49,6 +51,9 @@ interface AppBusinessLayerProps {
 const ROUTE_VIEW_EXISTS_CACHE_MAX = 200;
 const ROUTE_VIEW_EXISTS_REVALIDATE_MS = 10000;
 
+// Wait for the outline to settle before fetching pages for the backlinks index
+const BACKLINK_INDEX_DELAY_MS = 5000;
+
 // Open-time permission probes share one short-lived cache so rapid navigation
 // between the same pages does not refire identical permission GETs.
 const PERMISSION_PROBE_TTL_MS = 10000;
@@ -204,8 +209,16 @@ export const AppBusinessLayer: FC<AppBusinessLayerProps> = ({ children }) => {
     bindViewSync,
     getCollabHistory,
     previewCollabVersion,
+    createCollabVersion,
   } = useViewOperations({ loadDatabaseRelations });
 
+  const { presenceStore, updatePresence } = useWorkspacePresence({
+    workspaceId: currentWorkspaceId,
+    viewId: breadcrumbViewId,
+    registerSyncContext: syncContext.registerSyncContext,
+    scheduleDeferredCleanup: syncContext.scheduleDeferredCleanup,
+  });
+
   // Initialize row operations
   const { createRow } = useRowOperations();
 
@@ -252,6 +265,30 @@ export const AppBusinessLayer: FC<AppBusinessLayerProps> = ({ children }) => {
     loadTrash,
   });
 
+  // Trashed pages (and rows of trashed database views) must not keep showing
+  // up as backlinks. Remote deletions arrive here through the trash refresh.
+  useEffect(() => {
+    if (!currentWorkspaceId || !trashList?.length) return;
+
+    void removeBacklinkSources(currentWorkspaceId, flattenViews(trashList).map((view) => view.view_id));
+  }, [currentWorkspaceId, trashList]);
+
+  // Index mentions in pages this device has not opened, and pages edited
+  // elsewhere since, so backlinks cover the whole workspace.
+  useEffect(() => {
+    if (!currentWorkspaceId || !outline?.length) return;
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      void indexWorkspaceBacklinks(currentWorkspaceId, flattenViews(outline), () => cancelled);
+    }, BACKLINK_INDEX_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [currentWorkspaceId, outline]);
+
   // Check if current view has been deleted
   const viewHasBeenDeleted = useMemo(() => {
     if (!viewId) return false;
@@ -919,6 +956,7 @@ export const AppBusinessLayer: FC<AppBusinessLayerProps> = ({ children }) => {
       getCollabHistory,
       previewCollabVersion,
       revertCollabVersion,
+      createCollabVersion,
       onChangeWorkspace: authContext.onChangeWorkspace,
     }),
     [
@@ -960,6 +998,7 @@ export const AppBusinessLayer: FC<AppBusinessLayerProps> = ({ children }) => {
       getCollabHistory,
       previewCollabVersion,
       revertCollabVersion,
+      createCollabVersion,
       authContext.onChangeWorkspace,
     ]
   );
@@ -969,8 +1008,10 @@ export const AppBusinessLayer: FC<AppBusinessLayerProps> = ({ children }) => {
     () => ({
       awarenessMap,
       scheduleDeferredCleanup: syncContext.scheduleDeferredCleanup,
+      presenceStore,
+      updatePresence,
     }),
-    [awarenessMap, syncContext.scheduleDeferredCleanup]
+    [awarenessMap, syncContext.scheduleDeferredCleanup, presenceStore, updatePresence]
   );
 
   return (
@@ -23,6 +23,7 @@ import {
   startDrainAll,
 } from '@/application/sync-outbox';
 import type { AppEventEmitter } from '@/components/app/contexts/AppEventEmitterContext';
+import { useOfflinePinSync } from '@/components/offline';
 import { useSync, useWorkspaceRealtimeTransport } from '@/components/ws';
 import { notification } from '@/proto/messages';
 import { isDevelopmentOrTestEnvironment } from '@/utils/runtime-config';
@@ -126,6 +127,7 @@ export const AppSyncLayer: FC<AppSyncLayerProps> = ({ children }) => {
     syncAllToServer,
     applyHttpFullSyncResult,
     revertCollabVersion,
+    discardLocalChanges,
     scheduleDeferredCleanup,
   } = useSync(webSocket, broadcastChannel, eventEmitter, currentWorkspaceId!);
 
@@ -400,6 +402,10 @@ export const AppSyncLayer: FC<AppSyncLayerProps> = ({ children }) => {
     }
   }, [canSendToServer, drainWakeKey]);
 
+  // Pages pinned as "Available offline" are re-downloaded once the socket is
+  // back, so the local copies include what others changed in the meantime.
+  useOfflinePinSync(currentWorkspaceId, canSendToServer && wsReadyState === WS_READY_STATE_OPEN);
+
   // Access changes do not rebuild the transport configuration. Wake only a
   // permission-blocked object so a restored grant can retry immediately,
   // while update-too-large blocks remain terminal until limits change.
@@ -638,6 +644,7 @@ export const AppSyncLayer: FC<AppSyncLayerProps> = ({ children }) => {
       registerSyncContext,
       rebindSyncContext,
       revertCollabVersion,
+      discardLocalChanges,
       eventEmitter,
       awarenessMap,
       flushAllSync,
@@ -649,6 +656,7 @@ export const AppSyncLayer: FC<AppSyncLayerProps> = ({ children }) => {
       registerSyncContext,
       rebindSyncContext,
       revertCollabVersion,
+      discardLocalChanges,
       awarenessMap,
       flushAllSync,
       syncAllToServer,
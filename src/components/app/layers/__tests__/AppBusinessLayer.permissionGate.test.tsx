@@ -85,6 +85,10 @@ jest.mock('@/components/app/hooks/useWorkspaceData', () => ({
   useWorkspaceData: jest.fn(),
 }));
 
+jest.mock('@/components/app/hooks/useWorkspacePresence', () => ({
+  useWorkspacePresence: jest.fn(() => ({})),
+}));
+
 const workspaceId = '00000000-0000-4000-8000-000000000000';
 const routeViewId = '00000000-0000-4000-8000-000000000001';
 const modalViewId = '00000000-0000-4000-8000-000000000002';
@@ -19,11 +19,14 @@ import {
   useCurrentWorkspaceIdOptional,
   useSidebarHighlightedViewIds,
   useSidebarSelectedViewId,
+  useViewPresence,
 } from '@/components/app/app.hooks';
 import { useReorderableItem } from '@/components/_shared/reorder/useReorderableItem';
 import AnimatedCollapse from '@/components/app/outline/AnimatedCollapse';
 import { useReorderableSidebarList } from '@/components/app/outline/reorder/useReorderableSidebarList';
+import { PresenceAvatars } from '@/components/app/presence';
 import DropRowLine from '@/components/database/components/drag-and-drop/DropRowLine';
+import { OfflineStatusIcon } from '@/components/offline';
 import { cn } from '@/lib/utils';
 
 function ViewItem({
@@ -82,6 +85,7 @@ function ViewItem({
 
   const rowRef = useRef<HTMLDivElement>(null);
   const workspaceId = useCurrentWorkspaceIdOptional();
+  const presenceUsers = useViewPresence(viewId);
 
   // This row can be dragged to reorder within the group its parent owns.
   const { dragState, shouldSuppressClick } = useReorderableItem({
@@ -256,7 +260,9 @@ function ViewItem({
           <div data-testid='page-name' className={'w-full truncate'}>
             {view.name.trim() || t('menuAppHeader.defaultNewPageName')}
           </div>
+          <OfflineStatusIcon workspaceId={workspaceId} viewId={viewId} />
         </div>
+        {!hovered && <PresenceAvatars users={presenceUsers} className='mr-1' />}
         {renderExtra && renderExtra({ hovered, view })}
       </div>
     );
@@ -279,6 +285,8 @@ function ViewItem({
     handleChangeIcon,
     dragState.type,
     shouldSuppressClick,
+    workspaceId,
+    presenceUsers,
   ]);
 
   // Children are present in the DOM only once the lazy load has populated them.
@@ -47,6 +47,7 @@ jest.mock('@/components/app/app.hooks', () => ({
       role: 'Owner',
     },
   }),
+  useViewPresence: () => [],
 }));
 
 jest.mock('@/components/app/favorite', () => ({
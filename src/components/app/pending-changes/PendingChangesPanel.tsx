@@ -0,0 +1,249 @@
+import dayjs from 'dayjs';
+import { useCallback, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'sonner';
+
+import { openCollabDB } from '@/application/db';
+import { getPageTemplateContent, pageTemplateToPageData } from '@/application/page-template';
+import { getPendingOutboxUpdate, PendingOutboxObject, retryPendingSync } from '@/application/sync-outbox';
+import { Types, ViewLayout } from '@/application/types';
+import { findView } from '@/components/_shared/outline/utils';
+import { useAppOperations, useAppOutline, useOpenPageModal } from '@/components/app/app.hooks';
+import { useSyncInternal } from '@/components/app/contexts/SyncInternalContext';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { downloadBlob } from '@/utils/download';
+import { Log } from '@/utils/log';
+
+function formatPendingSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function PendingChangeItem({ item }: { item: PendingOutboxObject }) {
+  const { t } = useTranslation();
+  const outline = useAppOutline();
+  const { addPage } = useAppOperations();
+  const openPageModal = useOpenPageModal();
+  const { discardLocalChanges } = useSyncInternal();
+  const [discardOpen, setDiscardOpen] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const view = useMemo(() => (outline ? findView(outline, item.objectId) : null), [outline, item.objectId]);
+  const name = view?.name || t('menuAppHeader.defaultNewPageName', 'Untitled');
+
+  const age = useMemo(() => {
+    const now = dayjs();
+    const queued = dayjs(item.oldestCreatedAt);
+    const diffSec = now.diff(queued, 'second');
+    const diffMin = now.diff(queued, 'minute');
+    const diffHour = now.diff(queued, 'hour');
+
+    if (diffSec < 60) {
+      return t('globalComment.showSeconds', { count: Math.max(0, diffSec) });
+    } else if (diffMin < 60) {
+      return t('globalComment.showMinutes', { count: diffMin });
+    } else if (diffHour < 24) {
+      return t('globalComment.showHours', { count: diffHour });
+    } else {
+      return t('globalComment.showDays', { count: now.diff(queued, 'day') });
+    }
+  }, [item.oldestCreatedAt, t]);
+
+  const reason =
+    item.blockedReason === 'permission_denied'
+      ? t('pendingChanges.permissionDenied', 'You no longer have permission to edit this page')
+      : item.blockedReason === 'update_too_large'
+      ? t('pendingChanges.updateTooLarge', 'This change is too large for the server to accept')
+      : t('pendingChanges.waiting', 'Waiting to sync');
+
+  const handleRetry = useCallback(() => {
+    retryPendingSync(item.objectId);
+    toast.success(t('pendingChanges.retrying', 'Retrying sync…'));
+  }, [item.objectId, t]);
+
+  const handleExport = useCallback(async () => {
+    try {
+      const update = await getPendingOutboxUpdate(item.objectId);
+
+      if (!update) return;
+      downloadBlob(new Blob([update], { type: 'application/octet-stream' }), `${item.objectId}.bin`);
+    } catch (error) {
+      Log.warn('[PendingChanges] failed to export update', { objectId: item.objectId, error });
+      toast.error(t('pendingChanges.exportFailed', "Couldn't export the pending change"));
+    }
+  }, [item.objectId, t]);
+
+  // The local document already contains the queued edits, so its content is
+  // what the user expects to keep.
+  const handleCopyToPage = useCallback(async () => {
+    const parentId = view?.parent_view_id || outline?.[0]?.view_id;
+
+    if (!addPage || !parentId) return;
+    setBusy(true);
+    try {
+      const doc = await openCollabDB(item.objectId);
+      const response = await addPage(parentId, {
+        layout: ViewLayout.Document,
+        name: t('pendingChanges.copyName', { defaultValue: '{{name}} (recovered)', name }),
+        page_data: pageTemplateToPageData(getPageTemplateContent(doc)),
+      });
+
+      toast.success(t('pendingChanges.copied', 'Copied into a new page'));
+      openPageModal?.(response.view_id);
+    } catch (error) {
+      Log.warn('[PendingChanges] failed to copy into a new page', { objectId: item.objectId, error });
+      toast.error(
+        error instanceof Error ? error.message : t('pendingChanges.copyFailed', "Couldn't copy into a new page")
+      );
+    } finally {
+      setBusy(false);
+    }
+  }, [addPage, item.objectId, name, openPageModal, outline, t, view?.parent_view_id]);
+
+  // The queued edits are already applied to the local document, so dropping
+  // them from the outbox alone would leave a copy that diverges from the server.
+  const handleDiscard = useCallback(async () => {
+    setBusy(true);
+    try {
+      await discardLocalChanges(item.objectId);
+      setDiscardOpen(false);
+    } catch (error) {
+      Log.warn('[PendingChanges] failed to discard pending change', { objectId: item.objectId, error });
+      toast.error(
+        error instanceof Error ? error.message : t('pendingChanges.discardFailed', "Couldn't discard the pending change")
+      );
+    } finally {
+      setBusy(false);
+    }
+  }, [discardLocalChanges, item.objectId, t]);
+
+  return (
+    <div data-testid='pending-change-item' className='flex flex-col gap-2 rounded-400 border border-border-primary p-3'>
+      <div className='flex items-center justify-between gap-2'>
+        <span className='truncate text-sm font-medium text-text-primary'>{name}</span>
+        <span className='shrink-0 text-xs text-text-tertiary'>
+          {formatPendingSize(item.byteLength)} · {age}
+        </span>
+      </div>
+      <span
+        data-testid='pending-change-reason'
+        className={item.blockedReason ? 'text-xs text-text-error' : 'text-xs text-text-secondary'}
+      >
+        {reason}
+      </span>
+      <div className='flex flex-wrap items-center gap-2'>
+        <Button data-testid='pending-change-retry' variant='outline' size='sm' disabled={busy} onClick={handleRetry}>
+          {t('pendingChanges.retry', 'Retry')}
+        </Button>
+        <Button
+          data-testid='pending-change-export'
+          variant='outline'
+          size='sm'
+          disabled={busy}
+          onClick={() => void handleExport()}
+        >
+          {t('pendingChanges.export', 'Export')}
+        </Button>
+        {item.collabType === Types.Document && (
+          <Button
+            data-testid='pending-change-copy'
+            variant='outline'
+            size='sm'
+            disabled={busy}
+            onClick={() => void handleCopyToPage()}
+          >
+            {t('pendingChanges.copyToPage', 'Copy to new page')}
+          </Button>
+        )}
+        <Button
+          data-testid='pending-change-discard'
+          variant='destructive-outline'
+          size='sm'
+          disabled={busy}
+          onClick={() => setDiscardOpen(true)}
+        >
+          {t('pendingChanges.discard', 'Discard')}
+        </Button>
+      </div>
+      <AlertDialog open={discardOpen} onOpenChange={setDiscardOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('pendingChanges.discardTitle', 'Discard pending change?')}</AlertDialogTitle>
+          </AlertDialogHeader>
+          <AlertDialogDescription>
+            {t('pendingChanges.discardDescription', {
+              defaultValue: 'The queued change to "{{name}}" will not be sent to the server. This cannot be undone.',
+              name,
+            })}
+          </AlertDialogDescription>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t('button.cancel')}</AlertDialogCancel>
+            <AlertDialogAction
+              data-testid='pending-change-discard-confirm'
+              className={'bg-fill-error-thick text-text-on-fill hover:bg-fill-error-thick-hover'}
+              disabled={busy}
+              onClick={() => void handleDiscard()}
+            >
+              {t('pendingChanges.discard', 'Discard')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+/** Lists updates stuck in the sync outbox and lets the user recover or drop them. */
+export function PendingChangesPanel({
+  open,
+  onClose,
+  items,
+}: {
+  open: boolean;
+  onClose: () => void;
+  items: PendingOutboxObject[];
+}) {
+  const { t } = useTranslation();
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(status) => {
+        if (!status) onClose();
+      }}
+    >
+      <DialogContent data-testid='pending-changes-panel' size='md'>
+        <DialogHeader>
+          <DialogTitle>{t('pendingChanges.title', 'Pending changes')}</DialogTitle>
+        </DialogHeader>
+        <DialogDescription>
+          {t(
+            'pendingChanges.description',
+            'These changes are saved in this browser but have not reached the server yet.'
+          )}
+        </DialogDescription>
+        <div className='flex max-h-[60vh] flex-col gap-2 overflow-y-auto'>
+          {items.length === 0 ? (
+            <span className='text-sm text-text-tertiary'>{t('pendingChanges.empty', 'All changes are synced')}</span>
+          ) : (
+            items.map((item) => <PendingChangeItem key={item.objectId} item={item} />)
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default PendingChangesPanel;
@@ -0,0 +1,2 @@
+export { default as PendingChangesPanel } from './PendingChangesPanel';
+export * from './usePendingChanges';
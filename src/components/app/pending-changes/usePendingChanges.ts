@@ -0,0 +1,21 @@
+import { useLiveQuery } from 'dexie-react-hooks';
+import { useSyncExternalStore } from 'react';
+
+import {
+  getBlockedSyncVersion,
+  listPendingOutboxObjects,
+  PendingOutboxObject,
+  subscribeBlockedSync,
+} from '@/application/sync-outbox';
+
+const EMPTY: PendingOutboxObject[] = [];
+
+/**
+ * Objects with updates still waiting in the sync outbox. Follows both new and
+ * drained records and changes to the in-memory block state.
+ */
+export function usePendingChanges(): PendingOutboxObject[] {
+  const blockedVersion = useSyncExternalStore(subscribeBlockedSync, getBlockedSyncVersion);
+
+  return useLiveQuery(() => listPendingOutboxObjects(), [blockedVersion], EMPTY);
+}
@@ -0,0 +1,66 @@
+import { memo } from 'react';
+import { useTranslation } from 'react-i18next';
+
+import { PresenceUser } from '@/application/awareness';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { cn } from '@/lib/utils';
+
+const isImageSource = (value?: string) => {
+  if (!value) return false;
+
+  return /^https?:\/\//i.test(value) || value.startsWith('data:') || value.startsWith('blob:');
+};
+
+/** Small stacked avatars of the other members on a page or row. */
+export const PresenceAvatars = memo(function PresenceAvatars({
+  users,
+  max = 3,
+  size = 'xs',
+  className,
+}: {
+  users: PresenceUser[];
+  max?: number;
+  size?: 'xs' | 'sm';
+  className?: string;
+}) {
+  const { t } = useTranslation();
+
+  if (users.length === 0) return null;
+
+  const visibleUsers = users.slice(0, max);
+  const remainingCount = users.length - visibleUsers.length;
+  const names = users.map((user) => user.name).join(', ');
+
+  return (
+    <Tooltip disableHoverableContent delayDuration={500}>
+      <TooltipTrigger asChild>
+        <div data-testid='presence-avatars' className={cn('flex shrink-0 items-center -space-x-1.5', className)}>
+          {visibleUsers.map((user, index) => (
+            <Avatar
+              key={`${user.uid}/${user.device_id}`}
+              size={size}
+              style={{
+                zIndex: visibleUsers.length - index,
+                border: `1.5px solid ${user.color || 'var(--border-primary)'}`,
+              }}
+            >
+              <AvatarImage src={isImageSource(user.avatar) ? user.avatar : undefined} alt='' />
+              <AvatarFallback name={user.name}>
+                {user.avatar && !isImageSource(user.avatar) ? user.avatar : user.name}
+              </AvatarFallback>
+            </Avatar>
+          ))}
+          {remainingCount > 0 && (
+            <Avatar size={size} variant='outline'>
+              <AvatarFallback className='bg-fill-content-visible text-text-caption'>+{remainingCount}</AvatarFallback>
+            </Avatar>
+          )}
+        </div>
+      </TooltipTrigger>
+      <TooltipContent>{t('presence.viewing', { defaultValue: '{{names}} viewing', names })}</TooltipContent>
+    </Tooltip>
+  );
+});
+
+export default PresenceAvatars;
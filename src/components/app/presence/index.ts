@@ -0,0 +1 @@
+export { default as PresenceAvatars } from './PresenceAvatars';
@@ -4,11 +4,15 @@ import { toast } from 'sonner';
 
 import { BillingService } from '@/application/services/domains';
 import { getViewPdfBlob } from '@/application/services/js-services/http/export-api';
-import { SubscriptionInterval, SubscriptionPlan } from '@/application/types';
+import { SubscriptionInterval, SubscriptionPlan, ViewLayout } from '@/application/types';
+import { ReactComponent as DocIcon } from '@/assets/icons/doc.svg';
+import { ReactComponent as CodeIcon } from '@/assets/icons/inline_code.svg';
 import { ReactComponent as PDFIcon } from '@/assets/icons/pdf.svg';
 import { useAppOverlayContext } from '@/components/app/app-overlay/AppOverlayContext';
 import { useAppView, useCurrentWorkspaceId, useGetSubscriptions } from '@/components/app/app.hooks';
 import { useSubscriptionPlan } from '@/components/app/hooks/useSubscriptionPlan';
+import { useDocumentExport } from '@/components/app/share/useDocumentExport';
+import { DocumentExportFormat } from '@/components/editor/serializers';
 import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
 import { downloadBlob } from '@/utils/download';
@@ -25,6 +29,8 @@ function ExportPanel({ viewId }: { viewId: string }) {
   const includeLinkedPages = linkedPagesOverride ?? isPro;
   const [exporting, setExporting] = useState<boolean>(false);
   const exportingRef = useRef<boolean>(false);
+  const exportDocument = useDocumentExport(viewId);
+  const isDocument = view?.layout === ViewLayout.Document;
 
   const handleExportPdf = useCallback(async () => {
     if (!workspaceId || !viewIdResolved || exportingRef.current) return;
@@ -54,6 +60,31 @@ function ExportPanel({ viewId }: { viewId: string }) {
     }
   }, [workspaceId, viewIdResolved, isPro, includeLinkedPages, t, showBlockingLoader, hideBlockingLoader]);
 
+  // Markdown and HTML are serialized in the browser from the loaded document,
+  // so they need neither the server export nor a paid plan.
+  const handleExportDocument = useCallback(
+    async (format: DocumentExportFormat) => {
+      if (exportingRef.current) return;
+
+      exportingRef.current = true;
+      setExporting(true);
+      try {
+        await exportDocument(format);
+        toast.success(t('shareAction.exportDocumentSuccess', { defaultValue: 'Page exported' }));
+      } catch (e) {
+        const message =
+          (e as { message?: string })?.message ??
+          t('shareAction.exportDocumentError', { defaultValue: 'Failed to export page' });
+
+        toast.error(message);
+      } finally {
+        exportingRef.current = false;
+        setExporting(false);
+      }
+    },
+    [exportDocument, t],
+  );
+
   // Free users on AppFlowy Cloud get redirected to the Pro upgrade flow when they
   // try to enable "Include linked pages". Self-hosted users have isPro=true (set
   // by useSubscriptionPlan) so the toggle works normally without a billing check.
@@ -117,6 +148,51 @@ function ExportPanel({ viewId }: { viewId: string }) {
           disabled={exporting}
         />
       </div>
+
+      {isDocument && (
+        <>
+          <div className='flex items-center justify-between gap-4'>
+            <div className='flex items-center gap-2'>
+              <DocIcon className='h-5 w-5' />
+              <div className='flex flex-col'>
+                <span className='text-sm text-text-primary'>{t('shareAction.markdown')}</span>
+                <span className='text-xs text-text-tertiary'>
+                  {t('shareAction.exportMarkdownDescription', { defaultValue: 'Download this page as Markdown' })}
+                </span>
+              </div>
+            </div>
+            <Button
+              size='sm'
+              variant='outline'
+              data-testid='export-markdown-button'
+              onClick={() => void handleExportDocument(DocumentExportFormat.Markdown)}
+              disabled={exporting}
+            >
+              {t('button.download')}
+            </Button>
+          </div>
+          <div className='flex items-center justify-between gap-4'>
+            <div className='flex items-center gap-2'>
+              <CodeIcon className='h-5 w-5' />
+              <div className='flex flex-col'>
+                <span className='text-sm text-text-primary'>{t('shareAction.html')}</span>
+                <span className='text-xs text-text-tertiary'>
+                  {t('shareAction.exportHtmlDescription', { defaultValue: 'Download this page as a web page' })}
+                </span>
+              </div>
+            </div>
+            <Button
+              size='sm'
+              variant='outline'
+              data-testid='export-html-button'
+              onClick={() => void handleExportDocument(DocumentExportFormat.HTML)}
+              disabled={exporting}
+            >
+              {t('button.download')}
+            </Button>
+          </div>
+        </>
+      )}
     </div>
   );
 }
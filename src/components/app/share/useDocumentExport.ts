@@ -0,0 +1,39 @@
+import { useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+
+import { findView } from '@/components/_shared/outline/utils';
+import { useAppOperations, useAppOutline, useAppView, useCurrentWorkspaceId } from '@/components/app/app.hooks';
+import { documentToHtml, documentToMarkdown, DocumentExportFormat } from '@/components/editor/serializers';
+import { downloadBlob } from '@/utils/download';
+
+const INVALID_FILE_NAME_CHARS = /[\\/:*?"<>|]/g;
+
+/** Serialize a document page in the browser and download it as Markdown or HTML. */
+export function useDocumentExport(viewId: string) {
+  const { t } = useTranslation();
+  const { loadView } = useAppOperations();
+  const outline = useAppOutline();
+  const view = useAppView(viewId);
+  const workspaceId = useCurrentWorkspaceId();
+
+  return useCallback(
+    async (format: DocumentExportFormat) => {
+      const doc = await loadView(viewId);
+      const untitled = t('menuAppHeader.defaultNewPageName');
+      const title = view?.name || untitled;
+      const options = {
+        title,
+        resolvePageName: (id: string) => findView(outline ?? [], id)?.name || untitled,
+        resolvePageUrl: (id: string) => `${window.location.origin}/app/${workspaceId}/${id}`,
+      };
+      const blob =
+        format === DocumentExportFormat.Markdown
+          ? new Blob([documentToMarkdown(doc, options)], { type: 'text/markdown;charset=utf-8' })
+          : new Blob([documentToHtml(doc, options)], { type: 'text/html;charset=utf-8' });
+      const baseName = title.replace(INVALID_FILE_NAME_CHARS, ' ').trim() || untitled;
+
+      downloadBlob(blob, `${baseName}.${format}`);
+    },
+    [loadView, outline, t, view?.name, viewId, workspaceId]
+  );
+}
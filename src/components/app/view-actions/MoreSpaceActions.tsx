@@ -9,6 +9,7 @@ import { ReactComponent as DuplicateIcon } from '@/assets/icons/duplicate.svg';
 import { ReactComponent as SettingsIcon } from '@/assets/icons/settings.svg';
 import { useAppOverlayContext } from '@/components/app/app-overlay/AppOverlayContext';
 import { useRefreshOutline, useCurrentWorkspaceId, useUserWorkspaceInfo } from '@/components/app/app.hooks';
+import { AvailableOfflineMenuItem } from '@/components/offline';
 import { DropdownMenuGroup, DropdownMenuItem, DropdownMenuSeparator } from '@/components/ui/dropdown-menu';
 import { Progress } from '@/components/ui/progress';
 
@@ -75,6 +76,7 @@ function MoreSpaceActions({
           {t('space.duplicate')}
         </DropdownMenuItem>
       )}
+      <AvailableOfflineMenuItem workspaceId={workspaceId} viewId={view.view_id} />
       {isLoadingActions && (
         <DropdownMenuItem data-testid='space-action-permission-loading' disabled>
           <Progress variant='primary' />
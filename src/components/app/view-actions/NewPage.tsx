@@ -2,12 +2,15 @@ import { Button } from '@mui/material';
 import React, { useCallback, useMemo } from 'react';
 import { useTranslation } from 'react-i18next';
 
+import { getPageTemplates, pageTemplateToPageData } from '@/application/page-template';
 import { ViewLayout } from '@/application/types';
 import { ReactComponent as Add } from '@/assets/icons/add_new_page.svg';
 import { NormalModal } from '@/components/_shared/modal';
 import { notify } from '@/components/_shared/notify';
 import { useAppOperations, useOpenPageModal, useAppOutline } from '@/components/app/app.hooks';
 import CreateSpaceModal from '@/components/app/view-actions/CreateSpaceModal';
+import PageTemplateList from '@/components/page-template/PageTemplateList';
+import { usePageTemplateFill } from '@/components/page-template/usePageTemplateFill';
 import SpaceList from '@/components/publish/header/duplicate/SpaceList';
 import { dropdownMenuItemVariants } from '@/components/ui/dropdown-menu';
 import { cn } from '@/lib/utils';
@@ -20,7 +23,9 @@ function NewPage() {
   const [open, setOpen] = React.useState<boolean>(false);
   const [loading, setLoading] = React.useState<boolean>(false);
   const [selectedSpaceId, setSelectedSpaceId] = React.useState<string>('');
+  const [selectedTemplateId, setSelectedTemplateId] = React.useState<string>('');
   const outline = useAppOutline();
+  const templates = useMemo(() => getPageTemplates(outline || []), [outline]);
   const spaceList = useMemo(() => {
     if (!outline) return [];
 
@@ -38,7 +43,8 @@ function NewPage() {
     setOpen(false);
   }, []);
 
-  const { addPage } = useAppOperations();
+  const { addPage, loadView } = useAppOperations();
+  const { fill: fillPageTemplate, dialog: pageTemplateDialog } = usePageTemplateFill(loadView);
   const openPageModal = useOpenPageModal();
 
   const [createSpaceOpen, setCreateSpaceOpen] = React.useState(false);
@@ -51,11 +57,24 @@ function NewPage() {
         // Append after the last child so the new page appears at the bottom.
         const parentSpace = outline?.find((v) => v.view_id === parentId);
         const lastChild = parentSpace?.children?.[parentSpace.children.length - 1];
+        const template = templates.find((view) => view.view_id === selectedTemplateId);
+        const templateBlocks = template ? await fillPageTemplate(template.view_id, template.name) : undefined;
 
-        Log.debug('[handleAddPage]', { parentId, layout: ViewLayout.Document, prev_view_id: lastChild?.view_id });
+        // The variables prompt was cancelled.
+        if (templateBlocks === null) return;
+
+        Log.debug('[handleAddPage]', {
+          parentId,
+          layout: ViewLayout.Document,
+          prev_view_id: lastChild?.view_id,
+          template_id: template?.view_id,
+        });
         const response = await addPage(parentId, {
           layout: ViewLayout.Document,
           prev_view_id: lastChild?.view_id,
+          ...(template && templateBlocks
+            ? { name: template.name, page_data: pageTemplateToPageData(templateBlocks) }
+            : {}),
         });
 
         openPageModal(response.view_id);
@@ -67,7 +86,7 @@ function NewPage() {
         setLoading(false);
       }
     },
-    [addPage, openPageModal, onClose, outline]
+    [addPage, openPageModal, onClose, outline, templates, selectedTemplateId, fillPageTemplate]
   );
 
   return (
@@ -117,7 +136,13 @@ function NewPage() {
             </div>
           }
         />
+        {templates.length > 0 && (
+          <div className={'mt-4'}>
+            <PageTemplateList templates={templates} value={selectedTemplateId} onChange={setSelectedTemplateId} />
+          </div>
+        )}
       </NormalModal>
+      {pageTemplateDialog}
       <CreateSpaceModal
         open={createSpaceOpen}
         onClose={() => setCreateSpaceOpen(false)}
@@ -93,6 +93,7 @@ jest.mock('@/components/app/app-overlay/AppOverlayContext', () => ({
 }));
 
 jest.mock('@/components/app/app.hooks', () => ({
+  useAppOperations: () => ({ loadView: jest.fn() }),
   useAppOutline: () => [],
   useAppView: () => mockDocumentView,
   useCurrentWorkspaceId: () => 'workspace-1',
@@ -0,0 +1,193 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+
+import { BacklinkRecord, BacklinkReference } from '@/application/db/tables/backlinks';
+import { LoadViewMeta, View, ViewLayout } from '@/application/types';
+import { ReactComponent as ArrowIcon } from '@/assets/icons/alt_arrow_down.svg';
+import PageIcon from '@/components/_shared/view-icon/PageIcon';
+
+import { useBacklinks } from './useBacklinks';
+
+interface LinkedFromProps {
+  workspaceId?: string;
+  viewId: string;
+  viewName?: string;
+  loadViewMeta?: LoadViewMeta;
+  navigateToView?: (viewId: string, blockId?: string) => Promise<void> | void;
+  /** `page` renders under the title; `compact` fits the page info menu. */
+  variant?: 'page' | 'compact';
+  maxWidth?: number;
+  onNavigate?: () => void;
+}
+
+function useSourceView(record: BacklinkRecord, loadViewMeta?: LoadViewMeta) {
+  const [view, setView] = useState<View | null>(null);
+  const viewId = record.row_id ? record.database_view_id : record.source_id;
+
+  useEffect(() => {
+    if (!viewId || !loadViewMeta) return;
+
+    let cancelled = false;
+
+    loadViewMeta(viewId)
+      .then((meta) => {
+        if (!cancelled) setView(meta);
+      })
+      .catch(() => {
+        if (!cancelled) setView(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [viewId, loadViewMeta]);
+
+  return view;
+}
+
+function Snippet({ reference, viewName }: { reference: BacklinkReference; viewName: string }) {
+  return (
+    <span className={'min-w-0 truncate text-text-secondary'}>
+      {reference.before}
+      <span className={'text-text-action'}>@{viewName}</span>
+      {reference.after}
+    </span>
+  );
+}
+
+function LinkedFromItem({
+  record,
+  viewId,
+  viewName,
+  loadViewMeta,
+  onOpen,
+}: {
+  record: BacklinkRecord;
+  viewId: string;
+  viewName: string;
+  loadViewMeta?: LoadViewMeta;
+  onOpen: (record: BacklinkRecord, reference: BacklinkReference) => void;
+}) {
+  const { t } = useTranslation();
+  const view = useSourceView(record, loadViewMeta);
+  const references = record.references.filter((reference) => reference.target_id === viewId);
+  const untitled = t('menuAppHeader.defaultNewPageName');
+  const name = record.row_id
+    ? t('document.backlinks.rowIn', { name: view?.name || untitled, defaultValue: 'Row in {{name}}' })
+    : view?.name || untitled;
+
+  if (references.length === 0) return null;
+
+  return (
+    <div data-testid={'backlink-item'} className={'flex flex-col gap-0.5'}>
+      <button
+        type={'button'}
+        className={'flex min-w-0 items-center gap-1.5 text-left text-text-primary hover:underline'}
+        onClick={() => onOpen(record, references[0])}
+      >
+        <PageIcon
+          view={{ icon: view?.icon, layout: view?.layout ?? ViewLayout.Document }}
+          className={'flex h-4 w-4 shrink-0 items-center justify-center'}
+        />
+        <span className={'truncate'}>{name}</span>
+      </button>
+      {references.map((reference, index) => (
+        <button
+          type={'button'}
+          key={`${reference.block_id}-${index}`}
+          data-testid={'backlink-snippet'}
+          className={'flex min-w-0 rounded px-1.5 py-0.5 pl-[22px] text-left hover:bg-fill-content-hover'}
+          onClick={() => onOpen(record, reference)}
+        >
+          <Snippet reference={reference} viewName={viewName} />
+        </button>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Pages and database rows whose documents mention this view, each with the text
+ * around the mention. Pages are indexed across the workspace; row documents
+ * once they have been opened.
+ */
+function LinkedFrom({
+  workspaceId,
+  viewId,
+  viewName,
+  loadViewMeta,
+  navigateToView,
+  variant = 'page',
+  maxWidth,
+  onNavigate,
+}: LinkedFromProps) {
+  const { t } = useTranslation();
+  const backlinks = useBacklinks(workspaceId, viewId);
+  const [expanded, setExpanded] = useState(variant === 'compact');
+  const name = viewName || t('menuAppHeader.defaultNewPageName');
+
+  if (backlinks.length === 0) return null;
+
+  const handleOpen = (record: BacklinkRecord, reference: BacklinkReference) => {
+    onNavigate?.();
+
+    if (record.row_id && record.database_view_id) {
+      void navigateToView?.(record.database_view_id, record.row_id);
+      return;
+    }
+
+    void navigateToView?.(record.source_id, reference.block_id);
+  };
+
+  const label = t('document.backlinks.linkedFrom', {
+    count: backlinks.length,
+    defaultValue: 'Linked from ({{count}})',
+  });
+
+  const list = (
+    <div className={'flex flex-col gap-2'}>
+      {backlinks.map((record) => (
+        <LinkedFromItem
+          key={record.source_id}
+          record={record}
+          viewId={viewId}
+          viewName={name}
+          loadViewMeta={loadViewMeta}
+          onOpen={handleOpen}
+        />
+      ))}
+    </div>
+  );
+
+  if (variant === 'compact') {
+    return (
+      <div data-testid={'linked-from'} className={'mt-2 flex flex-col gap-1.5 px-[10px] text-xs'}>
+        <div className={'text-text-secondary'}>{label}</div>
+        {list}
+      </div>
+    );
+  }
+
+  return (
+    <div className={'flex w-full justify-center'}>
+      <div
+        data-testid={'linked-from'}
+        style={{ width: maxWidth || '100%' }}
+        className={'mb-4 flex max-w-full flex-col gap-2 px-24 text-sm max-sm:px-6'}
+      >
+        <button
+          type={'button'}
+          data-testid={'linked-from-toggle'}
+          className={'flex w-fit items-center gap-1 text-text-secondary hover:text-text-primary'}
+          onClick={() => setExpanded((prev) => !prev)}
+        >
+          <ArrowIcon className={`h-4 w-4 transition-transform ${expanded ? '' : '-rotate-90'}`} />
+          {label}
+        </button>
+        {expanded && list}
+      </div>
+    </div>
+  );
+}
+
+export default LinkedFrom;
@@ -0,0 +1,3 @@
+export { default as LinkedFrom } from './LinkedFrom';
+export * from './useBacklinkIndexer';
+export * from './useBacklinks';
@@ -0,0 +1,55 @@
+import { debounce } from 'lodash-es';
+import { useEffect } from 'react';
+
+import { BacklinkSource, indexDocumentBacklinks } from '@/application/backlinks';
+import { MentionSearchContext, YDoc } from '@/application/types';
+
+const INDEX_DELAY_MS = 1000;
+
+/**
+ * Keep the local backlinks index in sync with an editable document. The mention
+ * context tells pages and row documents apart; editors nested in another
+ * document (synced blocks) inherit their host's context and are skipped.
+ */
+export function useBacklinkIndexer(
+  doc: YDoc,
+  {
+    enabled,
+    workspaceId,
+    viewId,
+    mentionContext,
+  }: {
+    enabled: boolean;
+    workspaceId?: string;
+    viewId?: string;
+    mentionContext?: MentionSearchContext;
+  }
+) {
+  const isOwnDocument = !!viewId && mentionContext?.view_id === viewId;
+  const rowId = mentionContext?.row_id;
+  const databaseId = rowId ? mentionContext?.database_id : undefined;
+  const databaseViewId = rowId ? mentionContext?.database_view_id : undefined;
+
+  useEffect(() => {
+    if (!enabled || !workspaceId || !viewId || !isOwnDocument) return;
+
+    const source: BacklinkSource = {
+      workspaceId,
+      sourceId: viewId,
+      databaseId,
+      databaseViewId,
+      rowId,
+    };
+    const index = debounce(() => {
+      void indexDocumentBacklinks(doc, source);
+    }, INDEX_DELAY_MS);
+
+    index();
+    doc.on('update', index);
+
+    return () => {
+      doc.off('update', index);
+      index.flush();
+    };
+  }, [doc, enabled, workspaceId, viewId, isOwnDocument, databaseId, databaseViewId, rowId]);
+}
@@ -0,0 +1,20 @@
+import { useLiveQuery } from 'dexie-react-hooks';
+
+import { getBacklinks } from '@/application/backlinks';
+import { BacklinkRecord } from '@/application/db/tables/backlinks';
+
+const EMPTY: BacklinkRecord[] = [];
+
+/**
+ * Pages and database rows that mention `viewId`. Re-renders whenever a
+ * document is re-indexed.
+ */
+export function useBacklinks(workspaceId?: string, viewId?: string): BacklinkRecord[] {
+  return (
+    useLiveQuery(
+      () => (workspaceId && viewId ? getBacklinks(workspaceId, viewId) : EMPTY),
+      [workspaceId, viewId],
+      EMPTY
+    ) ?? EMPTY
+  );
+}
@@ -1,6 +1,7 @@
 import EventEmitter from 'events';
 
 import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
+import * as Y from 'yjs';
 
 import { APP_EVENTS } from '@/application/constants';
 import {
@@ -11,7 +12,9 @@ import {
   retainDatabaseRowDocSeedCache,
 } from '@/application/database-blob';
 import { hasRowConditionData } from '@/application/database-yjs/condition-value-cache';
+import { resolveDuplicateUniqueIds } from '@/application/database-yjs/dispatch/row-lifecycle';
 import { hasEffectiveFilters } from '@/application/database-yjs/filter';
+import { recordRowActivity } from '@/application/database-yjs/row-activity';
 import { ROW_SYNC_RETRY_DELAYS_MS } from '@/application/database-yjs/row-sync';
 import { getRowKey } from '@/application/database-yjs/row_meta';
 import { getCachedRowDoc, openRowDoc } from '@/application/services/js-services/cache';
@@ -370,6 +373,64 @@ function Database(props: Database2Props) {
     rowMapRef.current = rowMap;
   }, [rowMap]);
 
+  // Record cell changes made to every loaded row, e.g. from the grid, into the
+  // row's activity log, not only those made while the row itself is open.
+  const rowActivityRecordersRef = useRef(new Map<RowId, { rowDoc: YDoc; release: () => void }>());
+
+  useEffect(() => {
+    const recorders = rowActivityRecordersRef.current;
+
+    recorders.forEach((recorder, rowId) => {
+      if (rowMap[rowId] === recorder.rowDoc) return;
+      recorder.release();
+      recorders.delete(rowId);
+    });
+    Object.entries(rowMap).forEach(([rowId, rowDoc]) => {
+      if (recorders.has(rowId)) return;
+      recorders.set(rowId, { rowDoc, release: recordRowActivity(rowDoc) });
+    });
+  }, [rowMap]);
+
+  useEffect(() => {
+    const recorders = rowActivityRecordersRef.current;
+
+    return () => {
+      recorders.forEach((recorder) => recorder.release());
+      recorders.clear();
+    };
+  }, []);
+
+  // Rows created on two offline devices can share a unique ID. Renumber them
+  // once they are loaded together, and again whenever a remote update lands.
+  useEffect(() => {
+    if (readOnly) return;
+
+    const database = doc.getMap(YjsEditorKey.data_section).get(YjsEditorKey.database) as YDatabase | undefined;
+
+    if (!database) return;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const resolve = () => {
+      timer = undefined;
+      resolveDuplicateUniqueIds(database, rowMap);
+    };
+
+    const handleRowTransaction = (transaction: Y.Transaction) => {
+      if (transaction.local || timer) return;
+      timer = setTimeout(resolve, 0);
+    };
+
+    const rowDocs = Object.values(rowMap);
+
+    resolve();
+    rowDocs.forEach((rowDoc) => rowDoc.on('afterTransaction', handleRowTransaction));
+
+    return () => {
+      clearTimeout(timer);
+      rowDocs.forEach((rowDoc) => rowDoc.off('afterTransaction', handleRowTransaction));
+    };
+  }, [doc, readOnly, rowMap]);
+
   // Get the actual database ID from the Yjs doc, falling back to doc.guid
   // for legacy/incomplete metadata cases.
   const getDatabaseId = useCallback(() => {
@@ -1,5 +1,5 @@
 import { Dialog, DialogContent, DialogTitle } from '@mui/material';
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { toast } from 'sonner';
 
@@ -11,6 +11,8 @@ import { ReactComponent as DuplicateIcon } from '@/assets/icons/duplicate.svg';
 import { ReactComponent as ExpandIcon } from '@/assets/icons/full_screen.svg';
 import { ReactComponent as MoreIcon } from '@/assets/icons/more.svg';
 import { AFScroller } from '@/components/_shared/scroller';
+import { useRowPresence, useUpdatePresence } from '@/components/app/app.hooks';
+import { PresenceAvatars } from '@/components/app/presence';
 import { DatabaseRow } from '@/components/database/DatabaseRow';
 import { Button } from '@/components/ui/button';
 import {
@@ -41,6 +43,17 @@ function DatabaseRowModal({
   const duplicateRow = useDuplicateRowDispatch();
   const deleteRows = useTrashAwareDeleteRowsDispatch();
   const [duplicateLoading, setDuplicateLoading] = useState(false);
+  const updatePresence = useUpdatePresence();
+  const presenceUsers = useRowPresence(rowId);
+
+  useEffect(() => {
+    if (!open || !updatePresence) return;
+
+    updatePresence({ row_id: rowId });
+    return () => {
+      updatePresence((prev) => (prev.row_id === rowId ? { ...prev, row_id: undefined } : prev));
+    };
+  }, [open, rowId, updatePresence]);
 
   return (
     <Dialog
@@ -79,6 +92,7 @@ function DatabaseRowModal({
             )}
           </div>
 
+          <PresenceAvatars users={presenceUsers} size='sm' max={4} className='mr-1' />
           {openPage ? (
             <Tooltip>
               <TooltipTrigger asChild>
@@ -19,6 +19,7 @@ import { Calendar } from '@/components/database/fullcalendar';
 import { Grid } from '@/components/database/grid';
 import { GridGroupingProvider } from '@/components/database/grid/GridGroupingContext';
 import { ListGroupingProvider } from '@/components/database/list/ListGroupingContext';
+import { TimelineGroupingProvider } from '@/components/database/timeline/TimelineGroupingContext';
 import {
   getDatabaseViewportStyle,
   shouldAutoShrinkDatabaseViewport,
@@ -41,6 +42,7 @@ import DatabaseConditions from 'src/components/database/components/conditions/Da
 
 const List = lazy(() => import('@/components/database/list/List'));
 const Gallery = lazy(() => import('@/components/database/gallery'));
+const Timeline = lazy(() => import('@/components/database/timeline'));
 
 function DatabaseViews({
   onChangeView,
@@ -348,6 +350,8 @@ function DatabaseViews({
         return <List />;
       case DatabaseViewLayout.Gallery:
         return <Gallery key={activeViewId} />;
+      case DatabaseViewLayout.Timeline:
+        return <Timeline />;
       default:
         return null;
     }
@@ -470,6 +474,8 @@ function DatabaseViews({
       return <GridGroupingProvider>{content}</GridGroupingProvider>;
     case DatabaseViewLayout.List:
       return <ListGroupingProvider>{content}</ListGroupingProvider>;
+    case DatabaseViewLayout.Timeline:
+      return <TimelineGroupingProvider>{content}</TimelineGroupingProvider>;
     default:
       return content;
   }
@@ -0,0 +1,67 @@
+import { render, screen } from '@testing-library/react';
+
+import { AwarenessPresence, PresenceUser, WorkspacePresenceStore } from '@/application/awareness';
+import { AppSyncContext } from '@/components/app/contexts/AppSyncContext';
+import DatabaseRowModal from '@/components/database/DatabaseRowModal';
+
+jest.mock('@/application/database-yjs', () => ({
+  useDatabaseContextOptional: jest.fn(() => ({})),
+  useReadOnly: jest.fn(() => false),
+}));
+
+jest.mock('@/application/database-yjs/dispatch', () => ({
+  useDuplicateRowDispatch: jest.fn(() => jest.fn()),
+  useTrashAwareDeleteRowsDispatch: jest.fn(() => jest.fn()),
+}));
+
+jest.mock('@/components/database/DatabaseRow', () => ({
+  DatabaseRow: ({ rowId }: { rowId: string }) => <div data-testid={`database-row-${rowId}`} />,
+}));
+
+jest.mock('react-i18next', () => ({
+  useTranslation: () => ({ t: (key: string) => key }),
+}));
+
+const lucas: PresenceUser = {
+  uid: 2,
+  uuid: 'u-2',
+  name: 'Lucas',
+  timestamp: 1,
+  device_id: 'remote',
+  color: '#00b5ff',
+  avatar: '',
+  presence: { row_id: 'row-1' },
+};
+
+// Snapshots must keep their identity between reads, as the real store's do.
+const rowUsers = [lucas];
+const noUsers: PresenceUser[] = [];
+
+const presenceStore: WorkspacePresenceStore = {
+  getViewUsers: () => noUsers,
+  getRowUsers: (rowId) => (rowId === 'row-1' ? rowUsers : noUsers),
+  getCellUsers: () => noUsers,
+  subscribe: () => () => undefined,
+  destroy: jest.fn(),
+};
+
+describe('DatabaseRowModal presence', () => {
+  it('shares the open row and shows who else has it open', () => {
+    let presence: AwarenessPresence = { view_id: 'grid-1' };
+    const updatePresence = jest.fn((update) => {
+      presence = typeof update === 'function' ? update(presence) : { ...presence, ...update };
+    });
+
+    const { unmount } = render(
+      <AppSyncContext.Provider value={{ presenceStore, updatePresence }}>
+        <DatabaseRowModal onOpenChange={jest.fn()} open rowId='row-1' />
+      </AppSyncContext.Provider>
+    );
+
+    expect(presence).toEqual({ view_id: 'grid-1', row_id: 'row-1' });
+    expect(screen.getByTestId('presence-avatars')).toBeTruthy();
+
+    unmount();
+    expect(presence).toEqual({ view_id: 'grid-1', row_id: undefined });
+  });
+});
@@ -5,6 +5,7 @@ import { ChartType } from '@/application/database-yjs/chart.type';
 import ChartEmptyState from '@/components/database/chart/ChartEmptyState';
 import ChartProvider from '@/components/database/chart/ChartProvider';
 import { useChartContext } from '@/components/database/chart/useChartContext';
+import AreaChartWidget from '@/components/database/chart/widgets/AreaChart';
 import BarChartWidget from '@/components/database/chart/widgets/BarChart';
 import DonutChartWidget from '@/components/database/chart/widgets/DonutChart';
 import HorizontalBarChartWidget from '@/components/database/chart/widgets/HorizontalBarChart';
@@ -12,7 +13,7 @@ import LineChartWidget from '@/components/database/chart/widgets/LineChart';
 import { Progress } from '@/components/ui/progress';
 
 function ChartContent() {
-  const { chartType, chartData, isLoading, hasGroupableFields, onElementClick } = useChartContext();
+  const { chartType, chartData, series, isLoading, hasGroupableFields, onElementClick } = useChartContext();
 
   // Loading state
   if (isLoading) {
@@ -36,11 +37,15 @@ function ChartContent() {
   // Render appropriate chart type
   switch (chartType) {
     case ChartType.Bar:
-      return <BarChartWidget data={chartData} onBarClick={onElementClick} />;
+      return <BarChartWidget data={chartData} series={series} onBarClick={onElementClick} />;
+    case ChartType.StackedBar:
+      return <BarChartWidget data={chartData} series={series} stacked onBarClick={onElementClick} />;
     case ChartType.HorizontalBar:
       return <HorizontalBarChartWidget data={chartData} onBarClick={onElementClick} />;
     case ChartType.Line:
-      return <LineChartWidget data={chartData} onPointClick={onElementClick} />;
+      return <LineChartWidget data={chartData} series={series} onPointClick={onElementClick} />;
+    case ChartType.Area:
+      return <AreaChartWidget data={chartData} series={series} onPointClick={onElementClick} />;
     case ChartType.Donut:
       return <DonutChartWidget data={chartData} onSliceClick={onElementClick} />;
     default:
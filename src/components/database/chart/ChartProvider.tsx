@@ -17,7 +17,9 @@ export function ChartProvider({ children }: ChartProviderProps) {
   // the chart-relevant fields. So this reference is stable across unrelated
   // Yjs writes.
   const settings = useChartLayoutSetting();
-  const { chartData, isLoading, xAxisField, selectOptions, fieldType, hasGroupableFields } = useChartData({ settings });
+  const { chartData, series, isLoading, xAxisField, selectOptions, fieldType, hasGroupableFields } = useChartData({
+    settings,
+  });
 
   // Drill-down state
   const [drillDownItem, setDrillDownItem] = useState<ChartDataItem | null>(null);
@@ -34,6 +36,7 @@ export function ChartProvider({ children }: ChartProviderProps) {
     chartType: settings?.chartType ?? ChartType.Bar,
     settings,
     chartData,
+    series,
     isLoading,
     xAxisField,
     fieldType,
@@ -41,7 +44,7 @@ export function ChartProvider({ children }: ChartProviderProps) {
     selectOptions,
     hasGroupableFields,
     onElementClick: handleElementClick,
-  }), [settings, chartData, isLoading, xAxisField, fieldType, selectOptions, hasGroupableFields, handleElementClick]);
+  }), [settings, chartData, series, isLoading, xAxisField, fieldType, selectOptions, hasGroupableFields, handleElementClick]);
 
   return (
     <ChartContext.Provider value={contextValue}>
@@ -89,6 +89,8 @@ describe('useChartData desktop-model field conversion', () => {
       aggregationType: ChartAggregationType.Sum,
       cumulative: false,
       dateCondition: DateGroupCondition.Month,
+      additionalSeries: [],
+      continuousDates: false,
     };
 
     (useDatabaseFields as jest.Mock).mockReturnValue(fields);
@@ -115,3 +117,114 @@ describe('useChartData desktop-model field conversion', () => {
     });
   });
 });
+
+describe('useChartData series', () => {
+  const databaseId = 'chart-database';
+
+  function renderChartData(
+    fields: YDatabaseFields,
+    rowMetas: Record<string, ReturnType<typeof createRowDoc>>,
+    settings: ChartLayoutSettings
+  ) {
+    (useDatabaseFields as jest.Mock).mockReturnValue(fields);
+    (useRowOrdersSelector as jest.Mock).mockReturnValue(Object.keys(rowMetas).map((id) => ({ id })));
+    (useRowMap as jest.Mock).mockReturnValue(rowMetas);
+    (useDatabaseContext as jest.Mock).mockReturnValue({ ensureRow: jest.fn().mockResolvedValue(undefined) });
+
+    return renderHook(() => useChartData({ settings })).result;
+  }
+
+  const baseSettings: ChartLayoutSettings = {
+    chartType: ChartType.StackedBar,
+    xFieldId: 'status',
+    showEmptyValues: true,
+    aggregationType: ChartAggregationType.Count,
+    cumulative: false,
+    dateCondition: DateGroupCondition.Month,
+    additionalSeries: [],
+    continuousDates: false,
+  };
+
+  it('plots additional series and splits every series by the stack field', async () => {
+    const fields = new Y.Doc().getMap('fields') as YDatabaseFields;
+
+    addField(fields, 'status', FieldType.SingleSelect, [
+      { id: 'todo', name: 'To Do', color: 0 },
+      { id: 'done', name: 'Done', color: 1 },
+    ]);
+    addField(fields, 'owner', FieldType.SingleSelect, [
+      { id: 'ann', name: 'Ann', color: 2 },
+      { id: 'bob', name: 'Bob', color: 3 },
+    ]);
+    addField(fields, 'points', FieldType.Number);
+
+    const rowMetas = {
+      a: createRowDoc('a', databaseId, {
+        status: createCell(FieldType.SingleSelect, 'todo'),
+        owner: createCell(FieldType.SingleSelect, 'ann'),
+        points: createCell(FieldType.Number, '3'),
+      }),
+      b: createRowDoc('b', databaseId, {
+        status: createCell(FieldType.SingleSelect, 'todo'),
+        owner: createCell(FieldType.SingleSelect, 'bob'),
+        points: createCell(FieldType.Number, '5'),
+      }),
+      c: createRowDoc('c', databaseId, {
+        status: createCell(FieldType.SingleSelect, 'done'),
+        owner: createCell(FieldType.SingleSelect, 'ann'),
+        points: createCell(FieldType.Number, '8'),
+      }),
+    };
+
+    const multi = renderChartData(fields, rowMetas, {
+      ...baseSettings,
+      additionalSeries: [{ aggregationType: ChartAggregationType.Sum, yFieldId: 'points' }],
+    });
+
+    await waitFor(() => expect(multi.current.isLoading).toBe(false));
+    expect(multi.current.series.map((series) => series.label)).toEqual(['Count', 'Sum of points']);
+    expect(multi.current.chartData.find((item) => item.label === 'To Do')?.seriesValues).toEqual({ 0: 2, 1: 8 });
+
+    const stacked = renderChartData(fields, rowMetas, { ...baseSettings, stackFieldId: 'owner' });
+
+    await waitFor(() => expect(stacked.current.isLoading).toBe(false));
+    expect(stacked.current.series.map((series) => series.label)).toEqual(['Ann', 'Bob']);
+
+    const todo = stacked.current.chartData.find((item) => item.label === 'To Do');
+
+    expect(todo?.value).toBe(2);
+    expect(todo?.seriesValues).toEqual({ '0:ann': 1, '0:bob': 1 });
+    expect(todo?.seriesRowIds).toEqual({ '0:ann': ['a'], '0:bob': ['b'] });
+  });
+
+  it('fills the gaps of a date axis when continuous dates are on', async () => {
+    const fields = new Y.Doc().getMap('fields') as YDatabaseFields;
+
+    addField(fields, 'due', FieldType.DateTime);
+
+    const rowMetas = {
+      jan: createRowDoc('jan', databaseId, {
+        due: createCell(FieldType.DateTime, String(new Date(2026, 0, 15).getTime() / 1000)),
+      }),
+      apr: createRowDoc('apr', databaseId, {
+        due: createCell(FieldType.DateTime, String(new Date(2026, 3, 15).getTime() / 1000)),
+      }),
+    };
+    const settings = { ...baseSettings, chartType: ChartType.Area, xFieldId: 'due' };
+
+    const sparse = renderChartData(fields, rowMetas, settings);
+
+    await waitFor(() => expect(sparse.current.isLoading).toBe(false));
+    expect(sparse.current.chartData.map((item) => item.label)).toEqual(['Jan 2026', 'Apr 2026']);
+
+    const continuous = renderChartData(fields, rowMetas, { ...settings, continuousDates: true });
+
+    await waitFor(() => expect(continuous.current.isLoading).toBe(false));
+    expect(continuous.current.chartData.map((item) => [item.label, item.value])).toEqual([
+      ['Jan 2026', 1],
+      ['Feb 2026', 0],
+      ['Mar 2026', 0],
+      ['Apr 2026', 1],
+    ]);
+  });
+});
@@ -3,9 +3,12 @@ import { useEffect, useMemo, useRef, useState } from 'react';
 
 import { useDatabaseContext, useDatabaseFields, useRowMap, useRowOrdersSelector } from '@/application/database-yjs';
 import {
+  CHART_COLORS,
   ChartAggregationType,
   ChartDataItem,
   ChartLayoutSettings,
+  ChartSeries,
+  ChartSeriesConfig,
   isDateGroupableFieldType,
   isGroupableFieldType,
 } from '@/application/database-yjs/chart.type';
@@ -91,6 +94,50 @@ function bucketDate(date: Dayjs, condition: DateGroupCondition): GroupValue {
   }
 }
 
+const DATE_BUCKET_UNITS = {
+  [DateGroupCondition.Day]: 'day',
+  [DateGroupCondition.Week]: 'week',
+  [DateGroupCondition.Month]: 'month',
+  [DateGroupCondition.Year]: 'year',
+} as const;
+
+/**
+ * Upper bound on buckets added to make a date axis continuous, so a single
+ * outlier date cannot expand a daily axis into decades of empty bars.
+ */
+const MAX_CONTINUOUS_DATE_BUCKETS = 500;
+
+/**
+ * Add an empty bucket for every Day/Week/Month/Year step between the first
+ * and last bucket. Bucket keys of these conditions are their start dates
+ * ("2026-03-02", "2026-03", "2026"), so they can be parsed back and stepped.
+ */
+function fillDateBuckets(groups: Map<string, GroupedData>, condition: DateGroupCondition) {
+  if (!(condition in DATE_BUCKET_UNITS) || groups.size < 2) return;
+
+  const unit = DATE_BUCKET_UNITS[condition as keyof typeof DATE_BUCKET_UNITS];
+  const keys = [...groups.keys()].sort();
+  const lastKey = keys[keys.length - 1];
+  const [year, month = 1, day = 1] = keys[0].split('-').map(Number);
+  let cursor = dayjs(new Date(year, month - 1, day));
+
+  for (let added = 0; added < MAX_CONTINUOUS_DATE_BUCKETS; added++) {
+    const bucket = bucketDate(cursor, condition);
+
+    if (bucket.groupKey > lastKey) return;
+    if (!groups.has(bucket.groupKey)) {
+      groups.set(bucket.groupKey, {
+        label: bucket.label,
+        rowIds: [],
+        isEmptyCategory: false,
+        sortKey: bucket.sortKey,
+      });
+    }
+
+    cursor = cursor.add(1, unit);
+  }
+}
+
 /**
  * Get cell value for grouping (x-axis field)
  */
@@ -258,6 +305,118 @@ function computeAggregation(values: number[], aggregationType: ChartAggregationT
   }
 }
 
+const AGGREGATION_LABELS: Record<ChartAggregationType, string> = {
+  [ChartAggregationType.Count]: 'Count',
+  [ChartAggregationType.Sum]: 'Sum',
+  [ChartAggregationType.Average]: 'Average',
+  [ChartAggregationType.Min]: 'Min',
+  [ChartAggregationType.Max]: 'Max',
+  [ChartAggregationType.Median]: 'Median',
+  [ChartAggregationType.CountValues]: 'Count values',
+};
+
+function getSeriesConfigLabel(config: ChartSeriesConfig, fields: YDatabaseFields | undefined): string {
+  if (config.aggregationType === ChartAggregationType.Count || !config.yFieldId) {
+    return AGGREGATION_LABELS[ChartAggregationType.Count];
+  }
+
+  const yFieldName = fields?.get(config.yFieldId)?.get(YjsDatabaseKey.name) || 'Value';
+
+  return `${AGGREGATION_LABELS[config.aggregationType] ?? 'Count'} of ${yFieldName}`;
+}
+
+/**
+ * Aggregate one series over a set of rows. Count (or a series without a y
+ * field) counts rows; everything else aggregates the y field's values.
+ */
+function aggregateRows(
+  rowIds: RowId[],
+  config: ChartSeriesConfig,
+  fields: YDatabaseFields | undefined,
+  rowMetas: Record<RowId, YDoc>
+): number {
+  if (config.aggregationType === ChartAggregationType.Count || !config.yFieldId) {
+    return rowIds.length;
+  }
+
+  const yField = fields?.get(config.yFieldId);
+  const numericValues = yField
+    ? rowIds.map((rowId) => getCellNumericValue(rowId, yField, rowMetas)).filter((v): v is number => v !== null)
+    : [];
+
+  return computeAggregation(numericValues, config.aggregationType);
+}
+
+interface StackGroup {
+  key: string;
+  label: string;
+  optionId?: string;
+  isEmptyCategory: boolean;
+  sortKey?: string;
+}
+
+const EMPTY_STACK_KEY = '__empty__';
+
+/**
+ * Resolve the stack-by group(s) of every row. Rows without a value fall into
+ * a "No {field}" group, which is left out when empty values are hidden.
+ */
+function groupRowsByStackField(
+  rowOrders: ReadonlyArray<{ id: string }>,
+  stackField: YDatabaseField,
+  rowMetas: Record<RowId, YDoc>,
+  dateCondition: DateGroupCondition,
+  optionIdToName: Map<string, string>,
+  showEmptyValues: boolean
+): { stackGroups: StackGroup[]; stackKeysByRow: Map<RowId, string[]> } {
+  const stackFieldType = Number(stackField.get(YjsDatabaseKey.type)) as FieldType;
+  const isSelect = stackFieldType === FieldType.SingleSelect || stackFieldType === FieldType.MultiSelect;
+  const groups = new Map<string, StackGroup>();
+  const stackKeysByRow = new Map<RowId, string[]>();
+
+  rowOrders.forEach(({ id: rowId }) => {
+    const values = getCellGroupValue(rowId, stackField, rowMetas, dateCondition);
+
+    if (values.length === 0) {
+      if (!showEmptyValues) return;
+      if (!groups.has(EMPTY_STACK_KEY)) {
+        groups.set(EMPTY_STACK_KEY, {
+          key: EMPTY_STACK_KEY,
+          label: `No ${stackField.get(YjsDatabaseKey.name) || 'Value'}`,
+          isEmptyCategory: true,
+        });
+      }
+
+      stackKeysByRow.set(rowId, [EMPTY_STACK_KEY]);
+      return;
+    }
+
+    values.forEach((value) => {
+      if (!groups.has(value.groupKey)) {
+        groups.set(value.groupKey, {
+          key: value.groupKey,
+          label: isSelect ? optionIdToName.get(value.groupKey) || value.label : value.label,
+          optionId: isSelect ? value.groupKey : undefined,
+          isEmptyCategory: false,
+          sortKey: value.sortKey,
+        });
+      }
+    });
+    stackKeysByRow.set(
+      rowId,
+      values.map((value) => value.groupKey)
+    );
+  });
+
+  const stackGroups = [...groups.values()].sort((a, b) => {
+    if (a.isEmptyCategory) return 1;
+    if (b.isEmptyCategory) return -1;
+    return (a.sortKey ?? a.label).localeCompare(b.sortKey ?? b.label);
+  });
+
+  return { stackGroups, stackKeysByRow };
+}
+
 interface ComputeChartDataInput {
   settings: ChartLayoutSettings | null;
   resolvedXFieldId: string | null;
@@ -268,12 +427,22 @@ interface ComputeChartDataInput {
   fields: YDatabaseFields | undefined;
   optionIdToName: Map<string, string>;
   colors: UseChartColorsReturn;
+  stackField: YDatabaseField | null;
+  stackOptionIdToName: Map<string, string>;
+  stackColors: UseChartColorsReturn;
 }
 
+interface ComputedChartData {
+  data: ChartDataItem[];
+  series: ChartSeries[];
+}
+
+const EMPTY_COMPUTED_CHART_DATA: ComputedChartData = { data: [], series: [] };
+
 /**
- * Pure transform: rowOrders + rowMetas + chart settings → ChartDataItem[].
- * Side-effect free so the consumer can keep it inside a `useMemo` without
- * fighting React's data flow.
+ * Pure transform: rowOrders + rowMetas + chart settings → ChartDataItem[]
+ * plus the series plotted in each category. Side-effect free so the consumer
+ * can keep it inside a `useMemo` without fighting React's data flow.
  */
 function computeChartData({
   settings,
@@ -285,9 +454,12 @@ function computeChartData({
   fields,
   optionIdToName,
   colors,
-}: ComputeChartDataInput): ChartDataItem[] {
+  stackField,
+  stackOptionIdToName,
+  stackColors,
+}: ComputeChartDataInput): ComputedChartData {
   if (!rowOrders || !rowMetas || !xAxisField || !resolvedXFieldId || !fieldType) {
-    return [];
+    return EMPTY_COMPUTED_CHART_DATA;
   }
 
   const {
@@ -296,6 +468,8 @@ function computeChartData({
     showEmptyValues = true,
     cumulative = false,
     dateCondition = DateGroupCondition.Month,
+    additionalSeries = [],
+    continuousDates = false,
   } = settings ?? {
     aggregationType: ChartAggregationType.Count,
   };
@@ -341,31 +515,73 @@ function computeChartData({
     }
   });
 
+  if (continuousDates && isDateBucketed) {
+    fillDateBuckets(groups, dateCondition);
+  }
+
   if (showEmptyValues && emptyGroup.rowIds.length > 0) {
     groups.set(`__empty__${emptyGroup.label}`, emptyGroup);
   }
 
-  const yField = yFieldId && fields ? fields.get(yFieldId) : undefined;
+  // Series: the primary aggregation first, then the additional ones, each
+  // split by the stack-by field when one is set.
+  const seriesConfigs: ChartSeriesConfig[] = [{ aggregationType, yFieldId }, ...additionalSeries];
+  const stacking = stackField
+    ? groupRowsByStackField(rowOrders, stackField, rowMetas, dateCondition, stackOptionIdToName, showEmptyValues)
+    : null;
+  const series: Array<ChartSeries & { config: ChartSeriesConfig; stackKey?: string }> = [];
+
+  seriesConfigs.forEach((config, configIndex) => {
+    const configLabel = getSeriesConfigLabel(config, fields);
+
+    if (!stacking) {
+      series.push({
+        key: String(configIndex),
+        label: configLabel,
+        color: CHART_COLORS[configIndex % CHART_COLORS.length],
+        config,
+      });
+      return;
+    }
+
+    stacking.stackGroups.forEach((stackGroup, stackIndex) => {
+      let color: string;
+
+      if (seriesConfigs.length > 1) {
+        color = CHART_COLORS[series.length % CHART_COLORS.length];
+      } else if (stackGroup.isEmptyCategory) {
+        color = stackColors.emptyColor;
+      } else {
+        color = stackColors.getColorForCategory(stackGroup.label, stackGroup.optionId, stackIndex);
+      }
+
+      series.push({
+        key: `${configIndex}:${stackGroup.key}`,
+        label: seriesConfigs.length > 1 ? `${configLabel} · ${stackGroup.label}` : stackGroup.label,
+        color,
+        config,
+        stackKey: stackGroup.key,
+      });
+    });
+  });
 
   const data: ChartDataItem[] = [];
   let colorIndex = 0;
 
   groups.forEach((group) => {
-    let value: number;
-
-    if (aggregationType === ChartAggregationType.Count) {
-      value = group.rowIds.length;
-    } else if (yFieldId) {
-      const numericValues = yField
-        ? group.rowIds
-            .map((rowId) => getCellNumericValue(rowId, yField, rowMetas))
-            .filter((v): v is number => v !== null)
-        : [];
-
-      value = computeAggregation(numericValues, aggregationType);
-    } else {
-      value = group.rowIds.length;
-    }
+    const value = aggregateRows(group.rowIds, seriesConfigs[0], fields, rowMetas);
+    const seriesValues: Record<string, number> = {};
+    const seriesRowIds: Record<string, RowId[]> = {};
+
+    series.forEach(({ key, config, stackKey }) => {
+      const rowIds =
+        stackKey === undefined
+          ? group.rowIds
+          : group.rowIds.filter((rowId) => stacking?.stackKeysByRow.get(rowId)?.includes(stackKey));
+
+      seriesRowIds[key] = rowIds;
+      seriesValues[key] = aggregateRows(rowIds, config, fields, rowMetas);
+    });
 
     const color = group.isEmptyCategory
       ? colors.emptyColor
@@ -377,6 +593,8 @@ function computeChartData({
       rowIds: group.rowIds,
       color,
       isEmptyCategory: group.isEmptyCategory,
+      seriesValues,
+      seriesRowIds,
     });
 
     if (!group.isEmptyCategory) {
@@ -409,15 +627,24 @@ function computeChartData({
 
   if (cumulative) {
     let runningTotal = 0;
+    const seriesTotals: Record<string, number> = {};
 
     for (const item of data) {
       if (item.isEmptyCategory) continue;
       runningTotal += item.value;
       item.value = runningTotal;
+
+      for (const key of Object.keys(item.seriesValues ?? {})) {
+        seriesTotals[key] = (seriesTotals[key] ?? 0) + item.seriesValues![key];
+        item.seriesValues![key] = seriesTotals[key];
+      }
     }
   }
 
-  return data;
+  return {
+    data,
+    series: series.map(({ key, label, color }) => ({ key, label, color })),
+  };
 }
 
 export interface UseChartDataOptions {
@@ -432,6 +659,8 @@ export interface GroupableField {
 
 export interface UseChartDataReturn {
   chartData: ChartDataItem[];
+  /** Series plotted per category; a single entry unless series were added or stacked */
+  series: ChartSeries[];
   isLoading: boolean;
   xAxisField: YDatabaseField | null;
   selectOptions: SelectOption[];
@@ -442,8 +671,6 @@ export interface UseChartDataReturn {
   hasGroupableFields: boolean;
 }
 
-const EMPTY_CHART_DATA: ChartDataItem[] = [];
-
 /**
  * Grace period before declaring a chart "empty" when `rowOrders` is `[]` at
  * mount. Yjs typically delivers an empty array first and then populates rows
@@ -625,6 +852,34 @@ export function useChartData({ settings }: UseChartDataOptions): UseChartDataRet
     return map;
   }, [selectOptions]);
 
+  // Stack-by field: any other groupable field.
+  const stackField = useMemo<YDatabaseField | null>(() => {
+    const stackFieldId = settings?.stackFieldId;
+
+    if (!stackFieldId || stackFieldId === resolvedXFieldId || !fields) return null;
+    if (!groupableFields.some((f) => f.id === stackFieldId)) return null;
+
+    return fields.get(stackFieldId) ?? null;
+  }, [settings?.stackFieldId, resolvedXFieldId, fields, groupableFields]);
+  const stackFieldType = stackField ? (Number(stackField.get(YjsDatabaseKey.type)) as FieldType) : null;
+
+  const stackSelectOptions = useMemo<SelectOption[]>(() => {
+    if (!stackField) return [];
+    if (stackFieldType !== FieldType.SingleSelect && stackFieldType !== FieldType.MultiSelect) {
+      return [];
+    }
+
+    return parseSelectOptionTypeOptions(stackField)?.options ?? [];
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [stackField, stackFieldType, fieldsClock]);
+
+  const stackColors = useChartColors({ fieldType: stackFieldType, selectOptions: stackSelectOptions });
+
+  const stackOptionIdToName = useMemo(
+    () => new Map(stackSelectOptions.map((opt) => [opt.id, opt.name])),
+    [stackSelectOptions]
+  );
+
   // === Render-time derivation ===
   const isLoading = !rowsLoaded;
 
@@ -632,12 +887,12 @@ export function useChartData({ settings }: UseChartDataOptions): UseChartDataRet
   // recompute many times during a single page load — but downstream chart
   // widgets are wrapped in `React.memo(..., chartDataEqual)`, so re-renders
   // are skipped when the resulting bars are unchanged.
-  const chartData = useMemo<ChartDataItem[]>(() => {
+  const { data: chartData, series } = useMemo<ComputedChartData>(() => {
     // Yjs mutates field maps in place, so their identity cannot invalidate this
     // memo after a schema-only field-type switch.
     void fieldsClock;
 
-    if (!rowsLoaded) return EMPTY_CHART_DATA;
+    if (!rowsLoaded) return EMPTY_COMPUTED_CHART_DATA;
 
     return computeChartData({
       settings,
@@ -649,6 +904,9 @@ export function useChartData({ settings }: UseChartDataOptions): UseChartDataRet
       fields,
       optionIdToName,
       colors,
+      stackField,
+      stackOptionIdToName,
+      stackColors,
     });
   }, [
     rowsLoaded,
@@ -662,10 +920,14 @@ export function useChartData({ settings }: UseChartDataOptions): UseChartDataRet
     fieldsClock,
     optionIdToName,
     colors,
+    stackField,
+    stackOptionIdToName,
+    stackColors,
   ]);
 
   return {
     chartData,
+    series,
     isLoading,
     xAxisField,
     selectOptions,
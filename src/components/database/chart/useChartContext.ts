@@ -4,6 +4,7 @@ import {
   ChartAggregationType,
   ChartDataItem,
   ChartLayoutSettings,
+  ChartSeries,
   ChartType,
 } from '@/application/database-yjs/chart.type';
 import { FieldType } from '@/application/database-yjs/database.type';
@@ -17,6 +18,8 @@ export interface ChartContextValue {
   settings: ChartLayoutSettings | null;
   /** Computed chart data */
   chartData: ChartDataItem[];
+  /** Series plotted per category (one unless series were added or stacked) */
+  series: ChartSeries[];
   /** Whether data is loading */
   isLoading: boolean;
   /** X-axis field */
@@ -37,6 +40,7 @@ const defaultContext: ChartContextValue = {
   chartType: ChartType.Bar,
   settings: null,
   chartData: [],
+  series: [],
   isLoading: true,
   xAxisField: null,
   fieldType: null,
@@ -0,0 +1,171 @@
+import { memo, useId, useMemo, useState } from 'react';
+import {
+  AreaChart as RechartsAreaChart,
+  Area,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  ResponsiveContainer,
+} from 'recharts';
+
+import { ChartDataItem, ChartSeries, CHART_COLORS } from '@/application/database-yjs/chart.type';
+
+import { ChartLegend } from './ChartLegend';
+import { ChartSeriesTooltip, ChartTooltip } from './ChartTooltip';
+import {
+  TooltipState,
+  INITIAL_TOOLTIP_STATE,
+  chartDataEqual,
+  chartSeriesEqual,
+  computeValueAxis,
+  isMultiSeries,
+  seriesValueAccessor,
+} from './chartUtils';
+
+interface AreaChartWidgetProps {
+  data: ChartDataItem[];
+  /** With more than one series, stacks one area per series */
+  series?: ChartSeries[];
+  onPointClick?: (item: ChartDataItem) => void;
+}
+
+/**
+ * Stacked area chart widget using Recharts
+ */
+function AreaChartWidgetImpl({ data, series, onPointClick }: AreaChartWidgetProps) {
+  const [tooltip, setTooltip] = useState<TooltipState>(INITIAL_TOOLTIP_STATE);
+  const gradientId = useId();
+  const multiSeries = isMultiSeries(series);
+
+  // A single area plots `value` in the first palette color, like the line chart.
+  const areas = useMemo<ChartSeries[]>(
+    () => (multiSeries ? series : [{ key: 'value', label: '', color: data[0]?.color || CHART_COLORS[0] }]),
+    [multiSeries, series, data]
+  );
+
+  const { domain: yAxisDomain, ticks: yAxisTicks } = useMemo(
+    () => computeValueAxis(data, series, true),
+    [data, series]
+  );
+
+  const handleMouseMove = (e: { activePayload?: Array<{ payload: ChartDataItem }>; activeCoordinate?: { x: number; y: number } }) => {
+    if (e && e.activePayload && e.activePayload[0] && e.activeCoordinate) {
+      setTooltip({
+        active: true,
+        item: e.activePayload[0].payload,
+        x: e.activeCoordinate.x,
+        y: e.activeCoordinate.y,
+      });
+    }
+  };
+
+  const handleMouseLeave = () => {
+    setTooltip(INITIAL_TOOLTIP_STATE);
+  };
+
+  return (
+    <div data-testid="area-chart-widget" className="w-full relative" style={{ height: '400px' }}>
+      <ResponsiveContainer width="100%" height="100%">
+        <RechartsAreaChart
+          data={data}
+          margin={{ top: 24, right: 0, left: 0, bottom: multiSeries ? 64 : 40 }}
+          onClick={(e) => {
+            if (onPointClick && e && e.activePayload && e.activePayload[0]) {
+              onPointClick(e.activePayload[0].payload as ChartDataItem);
+            }
+          }}
+          onMouseMove={handleMouseMove}
+          onMouseLeave={handleMouseLeave}
+        >
+          <defs>
+            {areas.map((item, index) => (
+              <linearGradient key={item.key} id={`areaGradient-${gradientId}-${index}`} x1="0" y1="0" x2="0" y2="1">
+                <stop offset="5%" stopColor={item.color} stopOpacity={0.5} />
+                <stop offset="95%" stopColor={item.color} stopOpacity={0.1} />
+              </linearGradient>
+            ))}
+          </defs>
+          <CartesianGrid
+            vertical={false}
+            stroke="var(--border-primary)"
+            strokeOpacity={0.5}
+          />
+          <XAxis
+            dataKey="label"
+            tick={{ fontSize: 12, fill: 'var(--text-secondary)' }}
+            tickLine={false}
+            axisLine={{ stroke: 'var(--border-primary)' }}
+            interval={0}
+            padding={{ left: 20, right: 20 }}
+            tickFormatter={(label) => label.length > 15 ? `${label.substring(0, 15)}...` : label}
+          />
+          <YAxis
+            domain={yAxisDomain}
+            ticks={yAxisTicks}
+            tick={{ fontSize: 12, fill: 'var(--text-secondary)' }}
+            tickLine={false}
+            axisLine={{ stroke: 'var(--border-primary)' }}
+            width={40}
+          />
+          {areas.map((item, index) => (
+            <Area
+              key={item.key}
+              name={item.label}
+              type="monotone"
+              dataKey={multiSeries ? seriesValueAccessor(item.key) : 'value'}
+              stackId="stack"
+              stroke={item.color}
+              strokeWidth={2}
+              fill={`url(#areaGradient-${gradientId}-${index})`}
+              cursor="pointer"
+              activeDot={{ r: 5, fill: item.color, stroke: '#fff', strokeWidth: 2, cursor: 'pointer' }}
+            />
+          ))}
+        </RechartsAreaChart>
+      </ResponsiveContainer>
+
+      {multiSeries && (
+        <div className="absolute bottom-0 left-0 right-0">
+          <ChartLegend series={series} />
+        </div>
+      )}
+
+      {/* Fixed position tooltip above the data point */}
+      {tooltip.active && tooltip.item && (
+        <div
+          className="absolute pointer-events-none z-10"
+          style={{
+            left: tooltip.x,
+            top: tooltip.y - 30,
+            transform: 'translate(-50%, -100%)',
+          }}
+        >
+          {multiSeries ? (
+            <ChartSeriesTooltip
+              label={tooltip.item.label}
+              rows={series.map((item) => ({ ...item, value: tooltip.item?.seriesValues?.[item.key] ?? 0 }))}
+            />
+          ) : (
+            <ChartTooltip
+              label={tooltip.item.label}
+              value={tooltip.item.value}
+              color={tooltip.item.color}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Memoized with content-equality so Yjs hydration micro-batches don't rebuild
+// the recharts SVG. `onPointClick` is `useCallback`-stable in `ChartProvider`.
+export const AreaChartWidget = memo(AreaChartWidgetImpl, (prev, next) => {
+  return (
+    prev.onPointClick === next.onPointClick &&
+    chartSeriesEqual(prev.series, next.series) &&
+    chartDataEqual(prev.data, next.data)
+  );
+});
+
+export default AreaChartWidget;
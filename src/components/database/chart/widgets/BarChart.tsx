@@ -10,32 +10,45 @@ import {
   LabelList,
 } from 'recharts';
 
-import { ChartDataItem } from '@/application/database-yjs/chart.type';
+import { ChartDataItem, ChartSeries } from '@/application/database-yjs/chart.type';
 
+import { ChartLegend } from './ChartLegend';
 import { ChartTooltip } from './ChartTooltip';
 import {
   TooltipState,
   INITIAL_TOOLTIP_STATE,
   calculateBarWidth,
   chartDataEqual,
+  chartSeriesEqual,
   computeValueAxis,
   formatValue,
+  getSeriesItem,
+  isMultiSeries,
+  seriesValueAccessor,
 } from './chartUtils';
 
 interface BarChartWidgetProps {
   data: ChartDataItem[];
+  /** With more than one series, draws one bar per series in every category */
+  series?: ChartSeries[];
+  /** Piles the series of a category into one bar instead of side by side */
+  stacked?: boolean;
   onBarClick?: (item: ChartDataItem) => void;
 }
 
 /**
  * Vertical bar chart widget using Recharts
  */
-function BarChartWidgetImpl({ data, onBarClick }: BarChartWidgetProps) {
+function BarChartWidgetImpl({ data, series, stacked = false, onBarClick }: BarChartWidgetProps) {
   const [tooltip, setTooltip] = useState<TooltipState>(INITIAL_TOOLTIP_STATE);
+  const multiSeries = isMultiSeries(series);
 
   // Y-axis: zero-anchored [min, max] domain + nice ticks. Shared across
   // BarChart / LineChart / HorizontalBarChart via `computeValueAxis`.
-  const { domain: yAxisDomain, ticks: yAxisTicks } = useMemo(() => computeValueAxis(data), [data]);
+  const { domain: yAxisDomain, ticks: yAxisTicks } = useMemo(
+    () => computeValueAxis(data, series, stacked),
+    [data, series, stacked]
+  );
 
   // Calculate bar width based on data count
   const barWidth = useMemo(() => calculateBarWidth(data.length), [data.length]);
@@ -46,7 +59,7 @@ function BarChartWidgetImpl({ data, onBarClick }: BarChartWidgetProps) {
     }
   };
 
-  const handleMouseEnter = (data: ChartDataItem, index: number, e: React.MouseEvent) => {
+  const handleMouseEnter = (data: ChartDataItem, e: React.MouseEvent) => {
     const rect = e.currentTarget.getBoundingClientRect();
     const containerRect = e.currentTarget.closest('.recharts-wrapper')?.getBoundingClientRect();
 
@@ -71,7 +84,7 @@ function BarChartWidgetImpl({ data, onBarClick }: BarChartWidgetProps) {
       <ResponsiveContainer width="100%" height="100%">
         <RechartsBarChart
           data={data}
-          margin={{ top: 24, right: 0, left: 0, bottom: 40 }}
+          margin={{ top: 24, right: 0, left: 0, bottom: multiSeries ? 64 : 40 }}
         >
           <CartesianGrid
             vertical={false}
@@ -94,36 +107,64 @@ function BarChartWidgetImpl({ data, onBarClick }: BarChartWidgetProps) {
             axisLine={{ stroke: 'var(--border-primary)' }}
             width={40}
           />
-          <Bar
-            dataKey="value"
-            radius={[4, 4, 0, 0]}
-            cursor="pointer"
-            onClick={(data) => handleClick(data as ChartDataItem)}
-            maxBarSize={barWidth}
-            activeBar={false}
-            onMouseLeave={handleMouseLeave}
-          >
-            {data.map((entry, index) => (
-              <Cell
-                key={`cell-${index}`}
-                fill={entry.color}
-                onMouseEnter={(e) => handleMouseEnter(entry, index, e as unknown as React.MouseEvent)}
+          {multiSeries ? (
+            series.map((item, index) => (
+              <Bar
+                key={item.key}
+                name={item.label}
+                dataKey={seriesValueAccessor(item.key)}
+                fill={item.color}
+                stackId={stacked ? 'stack' : undefined}
+                // Only the top segment of a stack gets rounded corners.
+                radius={!stacked || index === series.length - 1 ? [4, 4, 0, 0] : 0}
+                cursor="pointer"
+                maxBarSize={barWidth}
+                activeBar={false}
+                onClick={(bar) => handleClick(getSeriesItem((bar as { payload: ChartDataItem }).payload, item))}
+                onMouseEnter={(bar, _index, e) =>
+                  handleMouseEnter(getSeriesItem((bar as { payload: ChartDataItem }).payload, item), e)
+                }
+                onMouseLeave={handleMouseLeave}
               />
-            ))}
-            <LabelList
+            ))
+          ) : (
+            <Bar
               dataKey="value"
-              position="top"
-              formatter={formatValue}
-              style={{
-                fontSize: 12,
-                fontWeight: 600,
-                fill: 'var(--text-primary)',
-              }}
-            />
-          </Bar>
+              radius={[4, 4, 0, 0]}
+              cursor="pointer"
+              onClick={(data) => handleClick(data as ChartDataItem)}
+              maxBarSize={barWidth}
+              activeBar={false}
+              onMouseLeave={handleMouseLeave}
+            >
+              {data.map((entry, index) => (
+                <Cell
+                  key={`cell-${index}`}
+                  fill={entry.color}
+                  onMouseEnter={(e) => handleMouseEnter(entry, e as unknown as React.MouseEvent)}
+                />
+              ))}
+              <LabelList
+                dataKey="value"
+                position="top"
+                formatter={formatValue}
+                style={{
+                  fontSize: 12,
+                  fontWeight: 600,
+                  fill: 'var(--text-primary)',
+                }}
+              />
+            </Bar>
+          )}
         </RechartsBarChart>
       </ResponsiveContainer>
 
+      {multiSeries && (
+        <div className="absolute bottom-0 left-0 right-0">
+          <ChartLegend series={series} />
+        </div>
+      )}
+
       {/* Fixed position tooltip above the bar */}
       {tooltip.active && tooltip.item && (
         <div
@@ -150,7 +191,12 @@ function BarChartWidgetImpl({ data, onBarClick }: BarChartWidgetProps) {
 // `onBarClick` is `useCallback`-stable in `ChartProvider`, so reference
 // equality is sufficient there.
 export const BarChartWidget = memo(BarChartWidgetImpl, (prev, next) => {
-  return prev.onBarClick === next.onBarClick && chartDataEqual(prev.data, next.data);
+  return (
+    prev.onBarClick === next.onBarClick &&
+    prev.stacked === next.stacked &&
+    chartSeriesEqual(prev.series, next.series) &&
+    chartDataEqual(prev.data, next.data)
+  );
 });
 
 export default BarChartWidget;
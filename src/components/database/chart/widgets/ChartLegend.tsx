@@ -0,0 +1,23 @@
+import { ChartSeries } from '@/application/database-yjs/chart.type';
+
+interface ChartLegendProps {
+  series: ChartSeries[];
+}
+
+/**
+ * Series legend shown under multi-series charts
+ */
+export function ChartLegend({ series }: ChartLegendProps) {
+  return (
+    <div data-testid='chart-legend' className='flex flex-wrap items-center justify-center gap-x-4 gap-y-1 px-4'>
+      {series.map((item) => (
+        <div key={item.key} className='flex min-w-0 items-center gap-1.5'>
+          <div className='h-3 w-3 shrink-0 rounded-sm' style={{ backgroundColor: item.color }} />
+          <span className='max-w-[160px] truncate text-xs text-text-secondary'>{item.label}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default ChartLegend;
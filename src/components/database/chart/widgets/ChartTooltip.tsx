@@ -39,4 +39,35 @@ export function ChartTooltip({ label, value, color, percent, showDrilldownHint =
   );
 }
 
+interface ChartSeriesTooltipProps {
+  label: string;
+  rows: Array<{ key: string; label: string; value: number; color: string }>;
+}
+
+/**
+ * Tooltip for one category of a multi-series line or area chart, listing
+ * every series value at that point
+ */
+export function ChartSeriesTooltip({ label, rows }: ChartSeriesTooltipProps) {
+  const { t } = useTranslation();
+
+  return (
+    <div className="rounded-lg border border-border-primary bg-fill-primary px-3 py-2 shadow-lg">
+      <div className="text-sm font-medium text-text-primary">{label}</div>
+      <div className="mt-1 flex flex-col gap-0.5">
+        {rows.map((row) => (
+          <div key={row.key} className="flex items-center gap-2">
+            <div className="h-3 w-3 shrink-0 rounded-sm" style={{ backgroundColor: row.color }} />
+            <span className="max-w-[160px] truncate text-xs text-text-secondary">{row.label}</span>
+            <span className="ml-auto pl-2 text-sm font-semibold text-text-primary">{row.value.toLocaleString()}</span>
+          </div>
+        ))}
+      </div>
+      <div className="mt-1 text-xs text-text-secondary">
+        {t('chart.tooltip.clickToView', 'Click to view data')}
+      </div>
+    </div>
+  );
+}
+
 export default ChartTooltip;
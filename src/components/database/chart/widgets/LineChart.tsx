@@ -10,30 +10,37 @@ import {
   LabelList,
 } from 'recharts';
 
-import { ChartDataItem, CHART_COLORS } from '@/application/database-yjs/chart.type';
+import { ChartDataItem, ChartSeries, CHART_COLORS } from '@/application/database-yjs/chart.type';
 
-import { ChartTooltip } from './ChartTooltip';
+import { ChartLegend } from './ChartLegend';
+import { ChartSeriesTooltip, ChartTooltip } from './ChartTooltip';
 import {
   TooltipState,
   INITIAL_TOOLTIP_STATE,
   chartDataEqual,
+  chartSeriesEqual,
   computeValueAxis,
   formatValue,
+  isMultiSeries,
+  seriesValueAccessor,
 } from './chartUtils';
 
 interface LineChartWidgetProps {
   data: ChartDataItem[];
+  /** With more than one series, draws one line per series */
+  series?: ChartSeries[];
   onPointClick?: (item: ChartDataItem) => void;
 }
 
 /**
  * Line chart widget using Recharts
  */
-function LineChartWidgetImpl({ data, onPointClick }: LineChartWidgetProps) {
+function LineChartWidgetImpl({ data, series, onPointClick }: LineChartWidgetProps) {
   const [tooltip, setTooltip] = useState<TooltipState>(INITIAL_TOOLTIP_STATE);
   const gradientId = useId();
+  const multiSeries = isMultiSeries(series);
 
-  const { domain: yAxisDomain, ticks: yAxisTicks } = useMemo(() => computeValueAxis(data), [data]);
+  const { domain: yAxisDomain, ticks: yAxisTicks } = useMemo(() => computeValueAxis(data, series), [data, series]);
 
   // Use first color from palette for the line
   const lineColor = data[0]?.color || CHART_COLORS[0];
@@ -64,7 +71,7 @@ function LineChartWidgetImpl({ data, onPointClick }: LineChartWidgetProps) {
       <ResponsiveContainer width="100%" height="100%">
         <RechartsLineChart
           data={data}
-          margin={{ top: 24, right: 0, left: 0, bottom: 40 }}
+          margin={{ top: 24, right: 0, left: 0, bottom: multiSeries ? 64 : 40 }}
           onClick={(e) => {
             if (e && e.activePayload && e.activePayload[0]) {
               handleClick(e.activePayload[0].payload as ChartDataItem);
@@ -101,46 +108,69 @@ function LineChartWidgetImpl({ data, onPointClick }: LineChartWidgetProps) {
             axisLine={{ stroke: 'var(--border-primary)' }}
             width={40}
           />
-          <Area
-            type="monotone"
-            dataKey="value"
-            stroke="none"
-            fill={`url(#lineAreaGradient-${gradientId})`}
-          />
-          <Line
-            type="monotone"
-            dataKey="value"
-            stroke={lineColor}
-            strokeWidth={3}
-            dot={{
-              r: 4,
-              fill: lineColor,
-              stroke: '#fff',
-              strokeWidth: 2,
-              cursor: 'pointer',
-            }}
-            activeDot={{
-              r: 6,
-              fill: lineColor,
-              stroke: '#fff',
-              strokeWidth: 2,
-              cursor: 'pointer',
-            }}
-          >
-            <LabelList
-              dataKey="value"
-              position="top"
-              formatter={formatValue}
-              style={{
-                fontSize: 12,
-                fontWeight: 600,
-                fill: 'var(--text-primary)',
-              }}
-            />
-          </Line>
+          {multiSeries ? (
+            series.map((item) => (
+              <Line
+                key={item.key}
+                name={item.label}
+                type="monotone"
+                dataKey={seriesValueAccessor(item.key)}
+                stroke={item.color}
+                strokeWidth={2}
+                dot={{ r: 3, fill: item.color, stroke: '#fff', strokeWidth: 2, cursor: 'pointer' }}
+                activeDot={{ r: 5, fill: item.color, stroke: '#fff', strokeWidth: 2, cursor: 'pointer' }}
+              />
+            ))
+          ) : (
+            <>
+              <Area
+                type="monotone"
+                dataKey="value"
+                stroke="none"
+                fill={`url(#lineAreaGradient-${gradientId})`}
+              />
+              <Line
+                type="monotone"
+                dataKey="value"
+                stroke={lineColor}
+                strokeWidth={3}
+                dot={{
+                  r: 4,
+                  fill: lineColor,
+                  stroke: '#fff',
+                  strokeWidth: 2,
+                  cursor: 'pointer',
+                }}
+                activeDot={{
+                  r: 6,
+                  fill: lineColor,
+                  stroke: '#fff',
+                  strokeWidth: 2,
+                  cursor: 'pointer',
+                }}
+              >
+                <LabelList
+                  dataKey="value"
+                  position="top"
+                  formatter={formatValue}
+                  style={{
+                    fontSize: 12,
+                    fontWeight: 600,
+                    fill: 'var(--text-primary)',
+                  }}
+                />
+              </Line>
+            </>
+          )}
         </RechartsLineChart>
       </ResponsiveContainer>
 
+      {multiSeries && (
+        <div className="absolute bottom-0 left-0 right-0">
+          <ChartLegend series={series} />
+        </div>
+      )}
+
       {/* Fixed position tooltip above the data point */}
       {tooltip.active && tooltip.item && (
         <div
@@ -151,11 +181,18 @@ function LineChartWidgetImpl({ data, onPointClick }: LineChartWidgetProps) {
             transform: 'translate(-50%, -100%)',
           }}
         >
-          <ChartTooltip
-            label={tooltip.item.label}
-            value={tooltip.item.value}
-            color={tooltip.item.color}
-          />
+          {multiSeries ? (
+            <ChartSeriesTooltip
+              label={tooltip.item.label}
+              rows={series.map((item) => ({ ...item, value: tooltip.item?.seriesValues?.[item.key] ?? 0 }))}
+            />
+          ) : (
+            <ChartTooltip
+              label={tooltip.item.label}
+              value={tooltip.item.value}
+              color={tooltip.item.color}
+            />
+          )}
         </div>
       )}
     </div>
@@ -165,7 +202,11 @@ function LineChartWidgetImpl({ data, onPointClick }: LineChartWidgetProps) {
 // Memoized with content-equality so Yjs hydration micro-batches don't rebuild
 // the recharts SVG. `onPointClick` is `useCallback`-stable in `ChartProvider`.
 export const LineChartWidget = memo(LineChartWidgetImpl, (prev, next) => {
-  return prev.onPointClick === next.onPointClick && chartDataEqual(prev.data, next.data);
+  return (
+    prev.onPointClick === next.onPointClick &&
+    chartSeriesEqual(prev.series, next.series) &&
+    chartDataEqual(prev.data, next.data)
+  );
 });
 
 export default LineChartWidget;
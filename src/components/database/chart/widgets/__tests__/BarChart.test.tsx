@@ -72,4 +72,29 @@ describe('BarChartWidget', () => {
     expect(container?.querySelector('.recharts-wrapper')).not.toBeNull();
     expect(container?.querySelector('.recharts-bar-rectangle')).not.toBeNull();
   });
+
+  it('draws one stacked segment per series and a legend', () => {
+    const { container } = render(
+      <BarChartWidget
+        data={[
+          {
+            color: '#5B8FF9',
+            label: 'In Progress',
+            rowIds: ['row-1', 'row-2'],
+            value: 2,
+            seriesValues: { ann: 1, bob: 1 },
+            seriesRowIds: { ann: ['row-1'], bob: ['row-2'] },
+          },
+        ]}
+        series={[
+          { key: 'ann', label: 'Ann', color: '#5AD8A6' },
+          { key: 'bob', label: 'Bob', color: '#F6BD16' },
+        ]}
+        stacked
+      />
+    );
+
+    expect(container.querySelectorAll('.recharts-bar-rectangle')).toHaveLength(2);
+    expect(screen.getByTestId('chart-legend').textContent).toBe('AnnBob');
+  });
 });
@@ -1,4 +1,4 @@
-import { ChartDataItem } from '@/application/database-yjs/chart.type';
+import { ChartDataItem, ChartSeries } from '@/application/database-yjs/chart.type';
 
 /**
  * Shared tooltip state interface for all chart types
@@ -107,7 +107,11 @@ export function calculateBarHeight(dataCount: number): number {
  * fields. Single-pass min/max scan avoids the spread-overflow risk of
  * `Math.min(...arr)` for very large arrays.
  */
-export function computeValueAxis(data: ChartDataItem[]): {
+export function computeValueAxis(
+  data: ChartDataItem[],
+  series?: ChartSeries[],
+  stacked = false
+): {
   domain: [number, number];
   ticks: number[];
 } {
@@ -115,8 +119,31 @@ export function computeValueAxis(data: ChartDataItem[]): {
   let dataMax = 0;
 
   for (const item of data) {
-    if (item.value < dataMin) dataMin = item.value;
-    if (item.value > dataMax) dataMax = item.value;
+    // Single-series charts plot `value`; multi-series charts plot each
+    // series value, piled up per category when stacked.
+    if (!series || series.length <= 1) {
+      if (item.value < dataMin) dataMin = item.value;
+      if (item.value > dataMax) dataMax = item.value;
+      continue;
+    }
+
+    let positiveTotal = 0;
+    let negativeTotal = 0;
+
+    for (const { key } of series) {
+      const value = item.seriesValues?.[key] ?? 0;
+
+      if (stacked) {
+        if (value > 0) positiveTotal += value;
+        else negativeTotal += value;
+      } else {
+        if (value < dataMin) dataMin = value;
+        if (value > dataMax) dataMax = value;
+      }
+    }
+
+    if (negativeTotal < dataMin) dataMin = negativeTotal;
+    if (positiveTotal > dataMax) dataMax = positiveTotal;
   }
 
   const ticks = generateNiceTicks(dataMin, dataMax);
@@ -180,7 +207,69 @@ export function chartDataEqual(a: ChartDataItem[], b: ChartDataItem[]): boolean
     for (let j = 0; j < x.rowIds.length; j++) {
       if (x.rowIds[j] !== y.rowIds[j]) return false;
     }
+
+    if (!recordsEqual(x.seriesValues, y.seriesValues)) return false;
+    if (!recordsEqual(x.seriesRowIds, y.seriesRowIds, (a, b) => a.length === b.length && a.every((id, k) => id === b[k]))) {
+      return false;
+    }
   }
 
   return true;
 }
+
+function recordsEqual<T>(
+  a: Record<string, T> | undefined,
+  b: Record<string, T> | undefined,
+  equal: (x: T, y: T) => boolean = (x, y) => x === y
+): boolean {
+  if (a === b) return true;
+  if (!a || !b) return false;
+
+  const keys = Object.keys(a);
+
+  if (keys.length !== Object.keys(b).length) return false;
+  return keys.every((key) => key in b && equal(a[key], b[key]));
+}
+
+/**
+ * Compare the series lists of two multi-series renders.
+ */
+export function chartSeriesEqual(a: ChartSeries[] | undefined, b: ChartSeries[] | undefined): boolean {
+  if (a === b) return true;
+  if (!a || !b || a.length !== b.length) return false;
+
+  return a.every((series, index) => {
+    const other = b[index];
+
+    return series.key === other.key && series.label === other.label && series.color === other.color;
+  });
+}
+
+/**
+ * Whether a widget should draw one shape per series instead of the
+ * single-series, per-category coloured rendering.
+ */
+export function isMultiSeries(series: ChartSeries[] | undefined): series is ChartSeries[] {
+  return !!series && series.length > 1;
+}
+
+/**
+ * The slice of a category that belongs to one series, shaped as a regular
+ * `ChartDataItem` so tooltips and the drill-down popup can show it.
+ */
+export function getSeriesItem(item: ChartDataItem, series: ChartSeries): ChartDataItem {
+  return {
+    label: `${item.label} · ${series.label}`,
+    value: item.seriesValues?.[series.key] ?? 0,
+    rowIds: item.seriesRowIds?.[series.key] ?? [],
+    color: series.color,
+    isEmptyCategory: item.isEmptyCategory,
+  };
+}
+
+/**
+ * Recharts accessor for one series' value in a category.
+ */
+export function seriesValueAccessor(key: string) {
+  return (item: ChartDataItem) => item.seriesValues?.[key] ?? 0;
+}
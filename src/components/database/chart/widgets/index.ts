@@ -2,4 +2,6 @@ export { default as BarChartWidget } from './BarChart';
 export { default as HorizontalBarChartWidget } from './HorizontalBarChart';
 export { default as LineChartWidget } from './LineChart';
 export { default as DonutChartWidget } from './DonutChart';
-export { ChartTooltip } from './ChartTooltip';
+export { default as AreaChartWidget } from './AreaChart';
+export { ChartSeriesTooltip, ChartTooltip } from './ChartTooltip';
+export { ChartLegend } from './ChartLegend';
@@ -7,12 +7,14 @@ import {
   useDatabaseContext,
   useFieldsSelector,
   useReadOnly,
+  useRowConditionalFormat,
   useRowMetaSelector,
 } from '@/application/database-yjs';
 import { RowCoverType } from '@/application/types';
 import ImageRender from '@/components/_shared/image-render/ImageRender';
 import { useBoardActions, useBoardSelection } from '@/components/database/board/BoardProvider';
 import CardToolbar from '@/components/database/components/board/card/CardToolbar';
+import { getConditionalFormatColorStyle } from '@/components/database/components/conditional-format/conditional-format.utils';
 import CardField from '@/components/database/components/field/CardField';
 import { useAIEnabled } from '@/components/app/app.hooks';
 import { cn } from '@/lib/utils';
@@ -39,6 +41,7 @@ export const CardPrimitive = forwardRef<HTMLDivElement, CardProps>(
     const fields = useFieldsSelector();
     const aiEnabled = useAIEnabled();
     const meta = useRowMetaSelector(rowId);
+    const conditionalFormat = useRowConditionalFormat(rowId);
     const { selectedCardIds, editingCardId } = useBoardSelection();
     const { setEditingCardId, setSelectedCardIds } = useBoardActions();
 
@@ -163,11 +166,13 @@ export const CardPrimitive = forwardRef<HTMLDivElement, CardProps>(
           selected && 'ring-1 ring-border-theme-thick',
           className
         )}
+        style={getConditionalFormatColorStyle(conditionalFormat.rowColor)}
       >
         {cover && <div className={'h-[100px] w-full bg-cover bg-center'}>{renderCoverImage(cover)}</div>}
         <div className={'flex flex-col gap-2 truncate px-3 py-2'}>
           {showFields.map((field, index) => {
-            return (
+            const cellStyle = getConditionalFormatColorStyle(conditionalFormat.cellColors[field.fieldId]);
+            const cardField = (
               <CardField
                 editing={editing}
                 setEditing={setEditing}
@@ -177,6 +182,14 @@ export const CardPrimitive = forwardRef<HTMLDivElement, CardProps>(
                 fieldId={field.fieldId}
               />
             );
+
+            if (!cellStyle) return cardField;
+
+            return (
+              <div className={'-mx-1 rounded-[4px] px-1'} key={field.fieldId} style={cellStyle}>
+                {cardField}
+              </div>
+            );
           })}
         </div>
 
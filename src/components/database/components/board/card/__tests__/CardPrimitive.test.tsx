@@ -8,9 +8,11 @@ import { CardPrimitive } from '../CardPrimitive';
 jest.mock('@/application/database-yjs', () => ({
   FieldVisibility: { AlwaysHidden: 2 },
   isAIFieldType: () => false,
+  SelectOptionColor: {},
   useDatabaseContext: jest.fn(),
   useFieldsSelector: jest.fn(),
   useReadOnly: jest.fn(),
+  useRowConditionalFormat: () => ({ cellColors: {} }),
   useRowMetaSelector: jest.fn(),
 }));
 
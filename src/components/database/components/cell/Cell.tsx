@@ -11,11 +11,13 @@ import { CheckboxCell } from '@/components/database/components/cell/checkbox';
 import { ChecklistCell } from '@/components/database/components/cell/checklist';
 import { RowCreateModifiedTime } from '@/components/database/components/cell/created-modified';
 import { DateTimeCell } from '@/components/database/components/cell/date';
+import { FormulaCell } from '@/components/database/components/cell/formula';
 import { NumberCell } from '@/components/database/components/cell/number';
 import { RelationCell } from '@/components/database/components/cell/relation';
 import { RollupCell } from '@/components/database/components/cell/rollup';
 import { SelectOptionCell } from '@/components/database/components/cell/select-option';
 import { TextCell } from '@/components/database/components/cell/text';
+import { UniqueIdCell } from '@/components/database/components/cell/unique-id';
 import { isFieldEditingDisabled } from '@/components/database/utils/field-editing';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 
@@ -57,6 +59,10 @@ export function Cell(props: CellProps<CellType>) {
         return PersonCell;
       case FieldType.Rollup:
         return RollupCell;
+      case FieldType.Formula:
+        return FormulaCell;
+      case FieldType.UniqueId:
+        return UniqueIdCell;
       default:
         return TextCell;
     }
@@ -0,0 +1,43 @@
+import { useTranslation } from 'react-i18next';
+
+import { CellProps, FormulaCell as FormulaCellType } from '@/application/database-yjs/cell.type';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { cn } from '@/lib/utils';
+
+export function FormulaCell({ cell, style, placeholder, rowId, fieldId, wrap }: CellProps<FormulaCellType>) {
+  const { t } = useTranslation();
+  const value = cell?.data ?? '';
+
+  if (cell?.error) {
+    return (
+      <Tooltip delayDuration={500} disableHoverableContent>
+        <TooltipTrigger asChild>
+          <div
+            style={style}
+            data-testid={`formula-cell-${rowId}-${fieldId}`}
+            className={'formula-cell w-full cursor-text text-text-error'}
+          >
+            {t('grid.formula.error', { defaultValue: 'Error' })}
+          </div>
+        </TooltipTrigger>
+        <TooltipContent side='top'>{cell.error}</TooltipContent>
+      </Tooltip>
+    );
+  }
+
+  return (
+    <div
+      style={style}
+      data-testid={`formula-cell-${rowId}-${fieldId}`}
+      className={cn(
+        'formula-cell w-full cursor-text select-text',
+        !value && placeholder ? 'text-text-tertiary' : '',
+        wrap ? 'whitespace-pre-wrap break-all' : 'whitespace-nowrap'
+      )}
+    >
+      {value || placeholder || ''}
+    </div>
+  );
+}
+
+export default FormulaCell;
@@ -0,0 +1 @@
+export { FormulaCell } from './FormulaCell';
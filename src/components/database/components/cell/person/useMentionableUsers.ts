@@ -157,15 +157,15 @@ export function useMentionableUsers() {
     setUsers(getMemoryCachedUsers(workspaceId));
   }, [workspaceId]);
 
-  const fetchUsers = useCallback(async (forceRefresh = false) => {
-    if (!workspaceId) return;
+  const fetchUsers = useCallback(async (forceRefresh = false): Promise<MentionablePerson[]> => {
+    if (!workspaceId) return EMPTY_USERS;
 
     // 1. Check in-memory cache first (fastest)
     const memoryCached = cache.get(workspaceId);
 
     if (!forceRefresh && isMemoryCacheValid(memoryCached)) {
       setUsers(memoryCached.users);
-      return;
+      return memoryCached.users;
     }
 
     // 2. Check disk cache (IndexedDB)
@@ -173,7 +173,7 @@ export function useMentionableUsers() {
       ? { users: [] as MentionablePerson[], fresh: false }
       : await loadFromDiskDeduplicated(workspaceId);
 
-    if (workspaceIdRef.current !== workspaceId) return;
+    if (workspaceIdRef.current !== workspaceId) return diskUsers;
 
     if (diskUsers.length > 0) {
       // Populate in-memory cache from disk
@@ -181,7 +181,7 @@ export function useMentionableUsers() {
       setUsers(diskUsers);
 
       // If disk cache is still fresh, no need to fetch from API
-      if (fresh) return;
+      if (fresh) return diskUsers;
     }
 
     // 3. Fetch from API (disk cache expired or empty)
@@ -194,10 +194,14 @@ export function useMentionableUsers() {
       if (workspaceIdRef.current === workspaceId) {
         setUsers(fetchedUsers);
       }
+
+      return fetchedUsers;
     } catch (error) {
       if (workspaceIdRef.current === workspaceId) {
         console.error('Failed to fetch mentionable users:', error);
       }
+
+      return diskUsers;
     } finally {
       if (workspaceIdRef.current === workspaceId) {
         setLoading(false);
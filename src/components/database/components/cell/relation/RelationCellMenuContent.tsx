@@ -5,6 +5,7 @@ import { getPrimaryFieldId, useDatabaseContext } from '@/application/database-yj
 import { resolveUserAttributionUid } from '@/application/database-yjs/attribution';
 import { decodeCellToText } from '@/application/database-yjs/decode';
 import { createRowInRelatedDatabase } from '@/application/database-yjs/dispatch/relation';
+import { findUniqueIdField, getRowUniqueIdText } from '@/application/database-yjs/fields/unique-id/utils';
 import { getRowKey } from '@/application/database-yjs/row_meta';
 import { subscribeSharedYjsDeep } from '@/application/database-yjs/shared-yjs-observer';
 import { View, YDatabase, YDatabaseField, YDatabaseRow, YDoc, YjsDatabaseKey, YjsEditorKey } from '@/application/types';
@@ -108,6 +109,8 @@ function RelationCellMenuContentForTarget({
   const [primaryFieldId, setPrimaryFieldId] = useState<string | null>(null);
   const [primaryField, setPrimaryField] = useState<YDatabaseField | null>(null);
   const [primaryFieldClock, setPrimaryFieldClock] = useState(0);
+  // Rows of a database with a unique ID field can be found by their ID (`BUG-142`) too.
+  const [uniqueIdField, setUniqueIdField] = useState<YDatabaseField | null>(null);
   const [guid, setGuid] = useState<string | null>(null);
   const [targetDoc, setTargetDoc] = useState<YDoc | null>(null);
   const [noAccess, setNoAccess] = useState(false);
@@ -117,6 +120,7 @@ function RelationCellMenuContentForTarget({
   // empty list until this flips.
   const [rowIdsLoaded, setRowIdsLoaded] = useState(false);
   const [rowContents, setRowContents] = useState<Map<string, string>>(() => new Map());
+  const [rowUniqueIds, setRowUniqueIds] = useState<Map<string, string>>(() => new Map());
   const rowDocsRef = useRef<Map<string, YDoc>>(new Map());
   const targetDocRef = useRef<YDoc | null>(null);
   const [isCreatingAndLinking, setIsCreatingAndLinking] = useState(false);
@@ -141,9 +145,11 @@ function RelationCellMenuContentForTarget({
     setGuid(null);
     setPrimaryFieldId(null);
     setPrimaryField(null);
+    setUniqueIdField(null);
     setNoAccess(false);
     setRowIds([]);
     setRowContents(new Map());
+    setRowUniqueIds(new Map());
     targetDocRef.current = null;
     rowDocs.clear();
 
@@ -210,6 +216,7 @@ function RelationCellMenuContentForTarget({
       setNoAccess(false);
       setPrimaryFieldId(fieldId);
       setPrimaryField(database.get(YjsDatabaseKey.fields)?.get(fieldId) || null);
+      setUniqueIdField(findUniqueIdField(database.get(YjsDatabaseKey.fields)) || null);
 
       const rowOrders = getRelationRowOrders(database, selectedViewId);
 
@@ -241,6 +248,20 @@ function RelationCellMenuContentForTarget({
     };
   }, [primaryField]);
 
+  // A new prefix relabels every row, so it re-reads them like a primary-field change.
+  useEffect(() => {
+    if (!uniqueIdField) return;
+
+    const onUniqueIdFieldChange = () => {
+      setPrimaryFieldClock((clock) => clock + 1);
+    };
+
+    uniqueIdField.observeDeep(onUniqueIdFieldChange);
+    return () => {
+      uniqueIdField.unobserveDeep(onUniqueIdFieldChange);
+    };
+  }, [uniqueIdField]);
+
   const getContent = useCallback(
     (rowId: string) => {
       void primaryFieldClock;
@@ -261,15 +282,35 @@ function RelationCellMenuContentForTarget({
     [primaryFieldId, primaryField, primaryFieldClock]
   );
 
+  const getUniqueId = useCallback(
+    (rowId: string) => {
+      void primaryFieldClock;
+
+      const rowDoc = rowDocsRef.current.get(rowId);
+
+      if (!rowDoc || !uniqueIdField) return '';
+
+      const row = rowDoc.getMap(YjsEditorKey.data_section)?.get(YjsEditorKey.database_row) as YDatabaseRow | undefined;
+
+      return getRowUniqueIdText(row, uniqueIdField);
+    },
+    [uniqueIdField, primaryFieldClock]
+  );
+
   // `getContent` changes identity whenever the primary field (or its clock) does. Keeping it in a
   // ref keeps that out of the row-loading effect's dependencies: otherwise a single field edit
   // would tear down every row-doc observer and re-await `createRow` for the whole list.
   const getContentRef = useRef(getContent);
+  const getUniqueIdRef = useRef(getUniqueId);
 
   useEffect(() => {
     getContentRef.current = getContent;
   }, [getContent]);
 
+  useEffect(() => {
+    getUniqueIdRef.current = getUniqueId;
+  }, [getUniqueId]);
+
   const recordContent = useCallback((rowId: string) => {
     setRowContents((prev) => {
       const next = getContentRef.current(rowId);
@@ -281,6 +322,16 @@ function RelationCellMenuContentForTarget({
       newContents.set(rowId, next);
       return newContents;
     });
+    setRowUniqueIds((prev) => {
+      const next = getUniqueIdRef.current(rowId);
+
+      if ((prev.get(rowId) ?? '') === next) return prev;
+
+      const newUniqueIds = new Map(prev);
+
+      newUniqueIds.set(rowId, next);
+      return newUniqueIds;
+    });
   }, []);
 
   // A primary-field change (rename, type switch, …) only changes how existing row docs decode, so
@@ -288,8 +339,9 @@ function RelationCellMenuContentForTarget({
   // call — `recordContent` reads the fresh one off the ref synced above.
   useEffect(() => {
     void getContent;
+    void getUniqueId;
     rowDocsRef.current.forEach((_doc, rowId) => recordContent(rowId));
-  }, [recordContent, getContent]);
+  }, [recordContent, getContent, getUniqueId]);
 
   useEffect(() => {
     if (!guid || !rowIds || rowIds.length === 0 || !createRow) {
@@ -376,8 +428,12 @@ function RelationCellMenuContentForTarget({
 
     const query = searchInput.toLowerCase();
 
-    return sortedRowIds.filter((id) => (rowContents.get(id) || '').toLowerCase().includes(query));
-  }, [rowContents, searchInput, sortedRowIds]);
+    return sortedRowIds.filter(
+      (id) =>
+        (rowContents.get(id) || '').toLowerCase().includes(query) ||
+        (rowUniqueIds.get(id) || '').toLowerCase().includes(query)
+    );
+  }, [rowContents, rowUniqueIds, searchInput, sortedRowIds]);
 
   const unRelatedRowIds = useMemo(() => {
     return filteredRowIds.filter((id) => !relatedRowIdSet.has(id));
@@ -391,9 +447,11 @@ function RelationCellMenuContentForTarget({
     return relationRowIds.filter((id) => {
       const content = rowContents.get(id) || (liveRowIdSet.has(id) ? '' : t('document.mention.deletedPage'));
 
-      return content.toLowerCase().includes(query);
+      return (
+        content.toLowerCase().includes(query) || (rowUniqueIds.get(id) || '').toLowerCase().includes(query)
+      );
     });
-  }, [liveRowIdSet, relationRowIds, rowContents, searchInput, t]);
+  }, [liveRowIdSet, relationRowIds, rowContents, rowUniqueIds, searchInput, t]);
 
   // filteredRowIds covers live target rows (for adding); filteredRelatedRowIds
   // covers the cell's already-related ids (including stale/deleted ones).
@@ -436,7 +494,12 @@ function RelationCellMenuContentForTarget({
           key={id}
           onMouseEnter={() => setSelectedId(id)}
         >
-          <RelationRowItem rowId={id} content={content} loading={isResolving} />
+          <RelationRowItem
+            rowId={id}
+            content={content}
+            uniqueId={isDeleted ? undefined : rowUniqueIds.get(id)}
+            loading={isResolving}
+          />
           <Tooltip>
             <TooltipTrigger asChild>
               <Button
@@ -472,6 +535,7 @@ function RelationCellMenuContentForTarget({
       relatedRowIdSet,
       liveRowIdSet,
       rowContents,
+      rowUniqueIds,
       selectedId,
       openRelatedRow,
       onAddRelationRowId,
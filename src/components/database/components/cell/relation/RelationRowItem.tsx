@@ -2,9 +2,11 @@ import { useTranslation } from 'react-i18next';
 
 import { cn } from '@/lib/utils';
 
-function RelationRowItem ({ rowId, content, loading }: {
+function RelationRowItem ({ rowId, content, uniqueId, loading }: {
   rowId: string,
   content: string;
+  /** The row's unique ID (`BUG-142`) when the related database has one. */
+  uniqueId?: string;
   /** The row exists, but its primary cell has not been fetched yet. */
   loading?: boolean;
 }) {
@@ -31,7 +33,14 @@ function RelationRowItem ({ rowId, content, loading }: {
           <span className='sr-only'>{t('loading')}</span>
         </>
       ) : (
-        content || t('menuAppHeader.defaultNewPageName')
+        <>
+          {uniqueId ? (
+            <span data-testid='relation-row-unique-id' className='mr-2 text-text-tertiary'>
+              {uniqueId}
+            </span>
+          ) : null}
+          {content || t('menuAppHeader.defaultNewPageName')}
+        </>
       )}
     </div>
   );
@@ -0,0 +1,25 @@
+import { CellProps, Cell as CellType } from '@/application/database-yjs/cell.type';
+import { getUniqueIdText } from '@/application/database-yjs/fields/unique-id/utils';
+import { useFieldSelector } from '@/application/database-yjs/selector';
+import { cn } from '@/lib/utils';
+
+export function UniqueIdCell({ cell, style, placeholder, rowId, fieldId, wrap }: CellProps<CellType>) {
+  const { field } = useFieldSelector(fieldId);
+  const value = cell ? getUniqueIdText(cell.data, field) : '';
+
+  return (
+    <div
+      style={style}
+      data-testid={`unique-id-cell-${rowId}-${fieldId}`}
+      className={cn(
+        'unique-id-cell w-full cursor-text select-text',
+        !value && placeholder ? 'text-text-tertiary' : '',
+        wrap ? 'whitespace-pre-wrap break-all' : 'whitespace-nowrap'
+      )}
+    >
+      {value || placeholder || ''}
+    </div>
+  );
+}
+
+export default UniqueIdCell;
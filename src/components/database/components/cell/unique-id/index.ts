@@ -0,0 +1 @@
+export { UniqueIdCell } from './UniqueIdCell';
@@ -0,0 +1,138 @@
+import { useCallback, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+
+import { useConditionalFormatsSelector, useReadOnly } from '@/application/database-yjs';
+import { useAddConditionalFormat, useReorderConditionalFormats } from '@/application/database-yjs/dispatch';
+import { ReactComponent as PaletteIcon } from '@/assets/icons/palette.svg';
+import { ReactComponent as AddIcon } from '@/assets/icons/plus.svg';
+import PropertiesMenu from '@/components/database/components/conditions/PropertiesMenu';
+import { ConditionalFormatRuleItem } from '@/components/database/components/conditional-format/ConditionalFormatRuleItem';
+import DragItem from '@/components/database/components/drag-and-drop/DragItem';
+import { DragContext, useDragContextValue } from '@/components/database/components/drag-and-drop/useDragContext';
+import { FILTER_EXCLUDED_FIELD_TYPES } from '@/components/database/components/filters/filter-field-types';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+
+function ConditionalFormatRules() {
+  const { t } = useTranslation();
+  const rules = useConditionalFormatsSelector();
+  const readOnly = useReadOnly();
+  const addFormat = useAddConditionalFormat();
+  const reorderFormats = useReorderConditionalFormats();
+  const [addMenuOpen, setAddMenuOpen] = useState(false);
+  const [container, setContainer] = useState<HTMLDivElement | null>(null);
+  const data = useMemo(() => rules.map((rule) => ({ id: rule.id })), [rules]);
+
+  const onReorder = useCallback(
+    ({
+      oldData,
+      newData,
+      startIndex,
+      finishIndex,
+    }: {
+      oldData: { id: string }[];
+      newData: { id: string }[];
+      startIndex: number;
+      finishIndex: number;
+    }) => {
+      reorderFormats(oldData[startIndex].id, newData[finishIndex - 1]?.id);
+    },
+    [reorderFormats]
+  );
+
+  const dragContextValue = useDragContextValue({
+    enabled: !readOnly,
+    data,
+    reorderAction: onReorder,
+    container,
+  });
+
+  return (
+    <div className='flex flex-col gap-2' data-testid='conditional-format-panel'>
+      <div className='px-1'>
+        <div className='text-sm font-medium text-text-primary'>
+          {t('grid.conditionalFormat.title', { defaultValue: 'Conditional formatting' })}
+        </div>
+        <div className='text-xs text-text-tertiary'>
+          {t('grid.conditionalFormat.description', {
+            defaultValue: 'Rules are checked from top to bottom. The first matching rule colors the row or cell.',
+          })}
+        </div>
+      </div>
+
+      {rules.length > 0 ? (
+        <div className='flex flex-col gap-2' ref={setContainer}>
+          <DragContext.Provider value={dragContextValue}>
+            {rules.map((rule) =>
+              readOnly ? (
+                <ConditionalFormatRuleItem key={rule.id} rule={rule} />
+              ) : (
+                <DragItem id={rule.id} key={rule.id}>
+                  <ConditionalFormatRuleItem rule={rule} />
+                </DragItem>
+              )
+            )}
+          </DragContext.Provider>
+        </div>
+      ) : null}
+
+      {!readOnly && (
+        <PropertiesMenu
+          asChild
+          excludedTypes={FILTER_EXCLUDED_FIELD_TYPES}
+          onOpenChange={setAddMenuOpen}
+          onSelect={(fieldId) => {
+            addFormat(fieldId);
+            setAddMenuOpen(false);
+          }}
+          open={addMenuOpen}
+          searchPlaceholder={t('grid.settings.filterBy')}
+        >
+          <Button
+            className='justify-start text-text-secondary'
+            data-testid='conditional-format-add'
+            size='sm'
+            variant='ghost'
+          >
+            <AddIcon className='h-5 w-5' />
+            {t('grid.conditionalFormat.addRule', { defaultValue: 'Add rule' })}
+          </Button>
+        </PropertiesMenu>
+      )}
+    </div>
+  );
+}
+
+export function ConditionalFormatButton({ compact = false }: { compact?: boolean }) {
+  const { t } = useTranslation();
+  const rules = useConditionalFormatsSelector();
+  const label = t('grid.conditionalFormat.title', { defaultValue: 'Conditional formatting' });
+
+  return (
+    <Popover modal>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <PopoverTrigger asChild>
+            <Button
+              aria-label={label}
+              data-testid='database-actions-conditional-format'
+              size={compact ? 'icon-sm' : 'icon'}
+              style={{ color: rules.length > 0 ? 'var(--icon-info-thick)' : undefined }}
+              type='button'
+              variant='ghost'
+            >
+              <PaletteIcon aria-hidden='true' className='h-5 w-5' />
+            </Button>
+          </PopoverTrigger>
+        </TooltipTrigger>
+        <TooltipContent>{label}</TooltipContent>
+      </Tooltip>
+      <PopoverContent align='end' className='w-[520px] p-2' onCloseAutoFocus={(event) => event.preventDefault()}>
+        <ConditionalFormatRules />
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+export default ConditionalFormatButton;
@@ -0,0 +1,178 @@
+import { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+
+import {
+  ConditionalFormatRule,
+  FieldType,
+  useConditionalFormatFilterSelector,
+  useReadOnly,
+} from '@/application/database-yjs';
+import {
+  useChangeConditionalFormatField,
+  useRemoveConditionalFormat,
+  useUpdateConditionalFormat,
+} from '@/application/database-yjs/dispatch';
+import type { UpdateFilterParams } from '@/application/database-yjs/dispatch';
+import { ConditionalFormatTarget, YjsDatabaseKey } from '@/application/types';
+import { ReactComponent as ArrowDownSvg } from '@/assets/icons/alt_arrow_down.svg';
+import { ReactComponent as DeleteIcon } from '@/assets/icons/delete.svg';
+import PropertiesMenu from '@/components/database/components/conditions/PropertiesMenu';
+import {
+  CONDITIONAL_FORMAT_COLORS,
+  getConditionalFormatColorStyle,
+} from '@/components/database/components/conditional-format/conditional-format.utils';
+import { FILTER_EXCLUDED_FIELD_TYPES } from '@/components/database/components/filters/filter-field-types';
+import { FilterMenu } from '@/components/database/components/filters/filter-menu';
+import { FilterMenuActionsContext } from '@/components/database/components/filters/filter-menu/FilterMenuActionsContext';
+import type { FilterMenuActions } from '@/components/database/components/filters/filter-menu/FilterMenuActionsContext';
+import { useFilterChipLabel } from '@/components/database/components/filters/overview/useFilterChipLabel';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuItemTick,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+
+const selectBoxClass =
+  'flex h-8 items-center justify-between gap-1 overflow-hidden rounded-md border border-border-primary bg-transparent px-2 text-sm text-text-primary data-[state=open]:border-border-theme-thick disabled:opacity-50';
+
+export function ConditionalFormatRuleItem({ rule }: { rule: ConditionalFormatRule }) {
+  const { t } = useTranslation();
+  const readOnly = useReadOnly();
+  const filter = useConditionalFormatFilterSelector(rule.id);
+  const { description, hasContent, field } = useFilterChipLabel(filter);
+  const updateFormat = useUpdateConditionalFormat();
+  const changeField = useChangeConditionalFormatField();
+  const removeFormat = useRemoveConditionalFormat();
+  const [fieldMenuOpen, setFieldMenuOpen] = useState(false);
+
+  // The filter menus write through these actions, so they edit the rule instead of the view's filters.
+  const filterMenuActions = useMemo<FilterMenuActions>(
+    () => ({
+      updateFilter: ({ filterId, fieldId, condition, content }: UpdateFilterParams) =>
+        updateFormat({ formatId: filterId, fieldId, condition, content }),
+      canSwitchToAdvanced: false,
+    }),
+    [updateFormat]
+  );
+
+  if (!filter || !field) return null;
+
+  const fieldName = field.get(YjsDatabaseKey.name) ?? '';
+  const fieldType = Number(field.get(YjsDatabaseKey.type)) as FieldType;
+  const wideMenu = [FieldType.DateTime, FieldType.LastEditedTime, FieldType.CreatedTime, FieldType.Relation].includes(
+    fieldType
+  );
+  const targetLabel =
+    rule.target === ConditionalFormatTarget.Cell
+      ? t('grid.conditionalFormat.targetCell', { defaultValue: 'Color cell' })
+      : t('grid.conditionalFormat.targetRow', { defaultValue: 'Color row' });
+
+  return (
+    <div className='flex items-center gap-1.5' data-testid='conditional-format-rule'>
+      <PropertiesMenu
+        asChild
+        excludedTypes={FILTER_EXCLUDED_FIELD_TYPES}
+        onOpenChange={setFieldMenuOpen}
+        onSelect={(fieldId) => {
+          changeField(rule.id, fieldId);
+          setFieldMenuOpen(false);
+        }}
+        open={fieldMenuOpen}
+      >
+        <button className={cn(selectBoxClass, 'w-[110px] shrink-0')} disabled={readOnly} title={fieldName}>
+          <span className='truncate'>{fieldName}</span>
+          <ArrowDownSvg className='h-5 w-5 shrink-0 text-icon-primary' />
+        </button>
+      </PropertiesMenu>
+
+      <Popover modal>
+        <PopoverTrigger asChild>
+          <button
+            className={cn(selectBoxClass, 'min-w-0 flex-1')}
+            data-testid='conditional-format-condition'
+            disabled={readOnly}
+            title={description}
+          >
+            <span className={cn('truncate', !hasContent && 'text-text-tertiary')}>
+              {hasContent ? description : t('grid.conditionalFormat.condition', { defaultValue: 'Condition' })}
+            </span>
+            <ArrowDownSvg className='h-5 w-5 shrink-0 text-icon-primary' />
+          </button>
+        </PopoverTrigger>
+        <PopoverContent
+          align='start'
+          className={cn('p-2', wideMenu ? 'w-[400px]' : 'w-[320px]')}
+          onCloseAutoFocus={(event) => event.preventDefault()}
+        >
+          <FilterMenuActionsContext.Provider value={filterMenuActions}>
+            <FilterMenu filter={filter} />
+          </FilterMenuActionsContext.Provider>
+        </PopoverContent>
+      </Popover>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild disabled={readOnly}>
+          <button className={cn(selectBoxClass, 'w-[104px] shrink-0')} data-testid='conditional-format-target'>
+            <span className='truncate'>{targetLabel}</span>
+            <ArrowDownSvg className='h-5 w-5 shrink-0 text-icon-primary' />
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align='start'>
+          <DropdownMenuItem onSelect={() => updateFormat({ formatId: rule.id, target: ConditionalFormatTarget.Row })}>
+            {t('grid.conditionalFormat.targetRow', { defaultValue: 'Color row' })}
+            {rule.target === ConditionalFormatTarget.Row && <DropdownMenuItemTick />}
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => updateFormat({ formatId: rule.id, target: ConditionalFormatTarget.Cell })}>
+            {t('grid.conditionalFormat.targetCell', { defaultValue: 'Color cell' })}
+            {rule.target === ConditionalFormatTarget.Cell && <DropdownMenuItemTick />}
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild disabled={readOnly}>
+          <button
+            aria-label={t('grid.conditionalFormat.color', { defaultValue: 'Color' })}
+            className={cn(selectBoxClass, 'w-8 shrink-0 justify-center px-0')}
+            data-testid='conditional-format-color'
+          >
+            <span className='h-4 w-4 rounded-full' style={getConditionalFormatColorStyle(rule.color)} />
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align='end'>
+          {CONDITIONAL_FORMAT_COLORS.map((color) => (
+            <DropdownMenuItem
+              data-testid={`conditional-format-color-${color.value}`}
+              key={color.value}
+              onSelect={() => updateFormat({ formatId: rule.id, color: color.value })}
+            >
+              <span className='h-4 w-4 rounded-full' style={getConditionalFormatColorStyle(color.value)} />
+              {t(color.labelKey)}
+              {rule.color === color.value && <DropdownMenuItemTick />}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {!readOnly && (
+        <Button
+          aria-label={t('grid.conditionalFormat.deleteRule', { defaultValue: 'Delete rule' })}
+          danger
+          data-testid='conditional-format-delete'
+          onClick={() => removeFormat(rule.id)}
+          size='icon-sm'
+          variant='ghost'
+        >
+          <DeleteIcon className='h-5 w-5' />
+        </Button>
+      )}
+    </div>
+  );
+}
+
+export default ConditionalFormatRuleItem;
@@ -0,0 +1,22 @@
+import { SelectOptionColor } from '@/application/database-yjs';
+import { SelectOptionColorMap } from '@/components/database/components/cell/cell.const';
+
+import type { CSSProperties } from 'react';
+
+/** Rules use the light tag fills so cell content stays readable on top. */
+export const CONDITIONAL_FORMAT_COLORS = [
+  { value: SelectOptionColor.OptionColor1, labelKey: 'colors.mauve' },
+  { value: SelectOptionColor.OptionColor2, labelKey: 'colors.lilac' },
+  { value: SelectOptionColor.OptionColor3, labelKey: 'colors.camellia' },
+  { value: SelectOptionColor.OptionColor4, labelKey: 'colors.papaya' },
+  { value: SelectOptionColor.OptionColor5, labelKey: 'colors.mango' },
+  { value: SelectOptionColor.OptionColor6, labelKey: 'colors.olive' },
+  { value: SelectOptionColor.OptionColor7, labelKey: 'colors.grass' },
+  { value: SelectOptionColor.OptionColor8, labelKey: 'colors.jade' },
+  { value: SelectOptionColor.OptionColor9, labelKey: 'colors.azure' },
+  { value: SelectOptionColor.OptionColor10, labelKey: 'colors.iron' },
+] as const;
+
+export function getConditionalFormatColorStyle(color?: SelectOptionColor): CSSProperties | undefined {
+  return color ? { backgroundColor: `var(${SelectOptionColorMap[color]})` } : undefined;
+}
@@ -0,0 +1,2 @@
+export * from './ConditionalFormatButton';
+export * from './conditional-format.utils';
@@ -7,10 +7,12 @@ import { ReactComponent as CloseIcon } from '@/assets/icons/close.svg';
 import { ReactComponent as ExpandMoreIcon } from '@/assets/icons/full_screen.svg';
 import { ReactComponent as SearchIcon } from '@/assets/icons/search.svg';
 import { ReactComponent as SettingsIcon } from '@/assets/icons/settings.svg';
+import { ConditionalFormatButton } from '@/components/database/components/conditional-format';
 import { useConditionsContext } from '@/components/database/components/conditions/context';
 import { useDatabaseSearch } from '@/components/database/components/conditions/DatabaseSearchContext';
 import FiltersButton from '@/components/database/components/conditions/FiltersButton';
 import SortsButton from '@/components/database/components/conditions/SortsButton';
+import { DatabaseExportButton } from '@/components/database/components/export';
 import Settings from '@/components/database/components/settings/Settings';
 import { DatabaseTemplateButton } from '@/components/database/components/template';
 import { Button } from '@/components/ui/button';
@@ -111,7 +113,15 @@ export function DatabaseActions() {
   const conditionsContext = useConditionsContext();
   const { activeViewId, isDocumentBlock, navigateToView, databasePageId } = useDatabaseContext();
 
-  const showSorts = [DatabaseViewLayout.Grid, DatabaseViewLayout.List, DatabaseViewLayout.Gallery].includes(layout);
+  const showSorts = [
+    DatabaseViewLayout.Grid,
+    DatabaseViewLayout.List,
+    DatabaseViewLayout.Gallery,
+    DatabaseViewLayout.Timeline,
+  ].includes(layout);
+  const showConditionalFormat = [DatabaseViewLayout.Grid, DatabaseViewLayout.Board, DatabaseViewLayout.List].includes(
+    layout
+  );
   const showSearch = layout === DatabaseViewLayout.Gallery;
   const showTemplates = [
     DatabaseViewLayout.Grid,
@@ -120,7 +130,9 @@ export function DatabaseActions() {
     DatabaseViewLayout.Chart,
     DatabaseViewLayout.List,
     DatabaseViewLayout.Gallery,
+    DatabaseViewLayout.Timeline,
   ].includes(layout);
+  const showExport = layout !== DatabaseViewLayout.Chart;
   const settingsButton = (
     <Button
       aria-label={t('settings.title')}
@@ -142,6 +154,7 @@ export function DatabaseActions() {
     >
       {!readOnly ? <FiltersButton {...conditionsContext} compact={showSearch} /> : null}
       {!readOnly && showSorts ? <SortsButton {...conditionsContext} compact={showSearch} /> : null}
+      {!readOnly && showConditionalFormat ? <ConditionalFormatButton /> : null}
       {isDocumentBlock && (
         <Tooltip>
           <TooltipTrigger asChild>
@@ -176,6 +189,7 @@ export function DatabaseActions() {
           </Settings>
         )
       ) : null}
+      {!readOnly && showExport ? <DatabaseExportButton compact={showSearch} /> : null}
       {!readOnly && showTemplates ? (
         <div className={showSearch ? 'ml-1' : undefined}>
           <DatabaseTemplateButton compact={showSearch} />
@@ -53,6 +53,18 @@ jest.mock('@/components/database/components/settings/Settings', () => ({
   ),
 }));
 
+jest.mock('@/components/database/components/export', () => ({
+  DatabaseExportButton: ({ compact }: { compact?: boolean }) => (
+    <button data-compact={String(Boolean(compact))} data-testid='database-actions-export' />
+  ),
+}));
+
+jest.mock('@/components/database/components/conditional-format', () => ({
+  ConditionalFormatButton: ({ compact }: { compact?: boolean }) => (
+    <button data-compact={String(Boolean(compact))} data-testid='database-actions-conditional-format' />
+  ),
+}));
+
 jest.mock('@/components/database/components/template', () => ({
   DatabaseTemplateButton: ({ compact }: { compact?: boolean }) => (
     <button data-compact={String(Boolean(compact))} data-testid='database-template-button'>
@@ -106,6 +118,51 @@ describe('DatabaseActions template support', () => {
     expect(screen.getByTestId('database-template-button')).toBeTruthy();
   });
 
+  it.each([
+    ['grid', DatabaseViewLayout.Grid],
+    ['board', DatabaseViewLayout.Board],
+    ['calendar', DatabaseViewLayout.Calendar],
+    ['list', DatabaseViewLayout.List],
+    ['gallery', DatabaseViewLayout.Gallery],
+  ])('renders the export button in the %s layout', (_name, layout) => {
+    mockUseDatabaseViewLayout.mockReturnValue(layout);
+
+    render(<DatabaseActions />);
+
+    expect(screen.getByTestId('database-actions-export')).toBeTruthy();
+  });
+
+  it('hides the export button in the chart layout', () => {
+    mockUseDatabaseViewLayout.mockReturnValue(DatabaseViewLayout.Chart);
+
+    render(<DatabaseActions />);
+
+    expect(screen.queryByTestId('database-actions-export')).toBeNull();
+  });
+
+  it('shows conditional formatting in grid, board, and list layouts', () => {
+    mockUseDatabaseViewLayout.mockReturnValue(DatabaseViewLayout.Grid);
+
+    const { rerender } = render(<DatabaseActions />);
+
+    expect(screen.getByTestId('database-actions-conditional-format')).toBeTruthy();
+
+    mockUseDatabaseViewLayout.mockReturnValue(DatabaseViewLayout.Board);
+    rerender(<DatabaseActions />);
+
+    expect(screen.getByTestId('database-actions-conditional-format')).toBeTruthy();
+
+    mockUseDatabaseViewLayout.mockReturnValue(DatabaseViewLayout.List);
+    rerender(<DatabaseActions />);
+
+    expect(screen.getByTestId('database-actions-conditional-format')).toBeTruthy();
+
+    mockUseDatabaseViewLayout.mockReturnValue(DatabaseViewLayout.Gallery);
+    rerender(<DatabaseActions />);
+
+    expect(screen.queryByTestId('database-actions-conditional-format')).toBeNull();
+  });
+
   it('shows sorting in grid, list, and gallery layouts', () => {
     mockUseDatabaseViewLayout.mockReturnValue(DatabaseViewLayout.Board);
 
@@ -154,6 +211,7 @@ describe('DatabaseActions template support', () => {
       'database-actions-open-as-page',
       'database-actions-search',
       'database-actions-settings',
+      'database-actions-export',
       'database-template-button',
     ]);
     expect(screen.getByTestId('database-actions-open-as-page').getAttribute('aria-label')).toBe('Open as page');
@@ -169,6 +227,7 @@ describe('DatabaseActions template support', () => {
     expect(screen.getByTestId('database-actions').className).toContain('gap-0.5');
     expect(screen.getByTestId('filters-button').getAttribute('data-compact')).toBe('true');
     expect(screen.getByTestId('sorts-button').getAttribute('data-compact')).toBe('true');
+    expect(screen.getByTestId('database-actions-export').getAttribute('data-compact')).toBe('true');
 
     for (const testId of ['database-actions-open-as-page', 'database-actions-search', 'database-actions-settings']) {
       expect(screen.getByTestId(testId).className).toContain('h-6');
@@ -200,6 +259,7 @@ describe('DatabaseActions template support', () => {
     expect(screen.queryByTestId('sorts-button')).toBeNull();
     expect(screen.queryByTestId('database-actions-settings')).toBeNull();
     expect(screen.queryByTestId('database-template-button')).toBeNull();
+    expect(screen.queryByTestId('database-actions-export')).toBeNull();
   });
 
   it('updates the shared trimmed query after the desktop debounce and clears it with Escape', () => {
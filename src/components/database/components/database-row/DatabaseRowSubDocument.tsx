@@ -35,8 +35,10 @@ import {
 import { isPermissionDeniedError } from '@/application/utils/error-utils';
 import { EditorSkeleton } from '@/components/_shared/skeleton/EditorSkeleton';
 import { useCurrentWorkspaceIdOptional } from '@/components/app/app.hooks';
+import { RowActivityList } from '@/components/database/components/database-row/activity';
 import { Editor } from '@/components/editor';
 import { useCurrentUserOptional } from '@/components/main/app.hooks';
+import { TabLabel, Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Log } from '@/utils/log';
 
 import type { EditorContentPadding } from '@/components/editor/EditorContext';
@@ -1328,20 +1330,35 @@ export const DatabaseRowSubDocument = memo(function DatabaseRowSubDocument({
   const { openPageModal: _openPageModal, ...editorContext } = context;
 
   return (
-    <Editor
-      {...editorContext}
-      fullWidth
-      contentPadding={contentPadding}
-      workspaceId={workspaceId}
-      viewId={documentId}
-      doc={doc}
-      readOnly={context.readOnly}
-      canComment={context.canComment ?? false}
-      canWrite={context.canWrite ?? !context.readOnly}
-      mentionContext={mentionContext}
-      getMoreAIContext={getMoreAIContext}
-      onEditorConnected={handleEditorConnected}
-    />
+    <Tabs defaultValue={'document'}>
+      <TabsList className={'mx-24 border-b border-border-primary max-sm:mx-6'}>
+        <TabsTrigger data-testid={'row-document-tab'} value={'document'}>
+          <TabLabel>{t('rowActivity.document', { defaultValue: 'Document' })}</TabLabel>
+        </TabsTrigger>
+        <TabsTrigger data-testid={'row-activity-tab'} value={'activity'}>
+          <TabLabel>{t('rowActivity.title', { defaultValue: 'Activity' })}</TabLabel>
+        </TabsTrigger>
+      </TabsList>
+      <TabsContent value={'document'}>
+        <Editor
+          {...editorContext}
+          fullWidth
+          contentPadding={contentPadding}
+          workspaceId={workspaceId}
+          viewId={documentId}
+          doc={doc}
+          readOnly={context.readOnly}
+          canComment={context.canComment ?? false}
+          canWrite={context.canWrite ?? !context.readOnly}
+          mentionContext={mentionContext}
+          getMoreAIContext={getMoreAIContext}
+          onEditorConnected={handleEditorConnected}
+        />
+      </TabsContent>
+      <TabsContent className={'px-24 max-sm:px-6'} value={'activity'}>
+        <RowActivityList rowId={rowId} />
+      </TabsContent>
+    </Tabs>
   );
 });
 
@@ -53,7 +53,7 @@ function RowPropertyCell({
   }, [isChecklist, isFileMedia]) as React.FC<CellProps<CellType>>;
 
   const placeholder = useMemo(() => {
-    if (fieldType === FieldType.Rollup) return '';
+    if ([FieldType.Rollup, FieldType.Formula, FieldType.UniqueId].includes(fieldType)) return '';
     return `${t('button.add')} ${fieldName}`;
   }, [fieldName, t, fieldType]);
 
@@ -0,0 +1,116 @@
+import dayjs from 'dayjs';
+import { memo, useMemo } from 'react';
+import type { ReactNode } from 'react';
+import { useTranslation } from 'react-i18next';
+
+import { decodeRowActivityValue, RowActivityEntry, useFieldSelector, useRowActivity } from '@/application/database-yjs';
+import { YjsDatabaseKey } from '@/application/types';
+import { useMentionableUsersWithAutoFetch } from '@/components/database/components/cell/person/useMentionableUsers';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+
+function ActivityValue({ value }: { value: string }) {
+  return <span className={'break-words rounded-200 bg-fill-content px-1 text-text-primary'}>{value}</span>;
+}
+
+const RowActivityItem = memo(function RowActivityItem({ entry }: { entry: RowActivityEntry }) {
+  const { t } = useTranslation();
+  const { field } = useFieldSelector(entry.fieldId);
+  const { usersByUid } = useMentionableUsersWithAutoFetch(entry.uid !== null, entry.uid);
+  const user = entry.uid === null ? undefined : usersByUid.get(entry.uid);
+  const displayName =
+    user?.name ||
+    user?.email ||
+    (entry.uid === null ? t('rowActivity.someone', { defaultValue: 'Someone' }) : `User ${entry.uid}`);
+  const fieldName =
+    field?.get(YjsDatabaseKey.name) || t('rowActivity.deletedProperty', { defaultValue: 'a deleted property' });
+  const oldValue = field ? decodeRowActivityValue(entry.oldData, field) : '';
+  const newValue = field ? decodeRowActivityValue(entry.newData, field) : '';
+
+  const relativeTime = useMemo(() => {
+    const now = dayjs();
+    const changed = dayjs.unix(entry.timestamp);
+    const diffSec = now.diff(changed, 'second');
+    const diffMin = now.diff(changed, 'minute');
+    const diffHour = now.diff(changed, 'hour');
+    const diffDay = now.diff(changed, 'day');
+
+    if (diffSec < 60) {
+      return t('globalComment.showSeconds', { count: Math.max(0, diffSec) });
+    } else if (diffMin < 60) {
+      return t('globalComment.showMinutes', { count: diffMin });
+    } else if (diffHour < 24) {
+      return t('globalComment.showHours', { count: diffHour });
+    } else {
+      return t('globalComment.showDays', { count: diffDay });
+    }
+  }, [entry.timestamp, t]);
+
+  const fullTime = useMemo(() => dayjs.unix(entry.timestamp).format('YYYY-MM-DD HH:mm:ss'), [entry.timestamp]);
+
+  let change: ReactNode;
+
+  if (!newValue) {
+    change = t('rowActivity.cleared', { defaultValue: 'cleared' });
+  } else if (entry.oldData === undefined || !oldValue) {
+    change = (
+      <>
+        {t('rowActivity.setTo', { defaultValue: 'set to' })} <ActivityValue value={newValue} />
+      </>
+    );
+  } else {
+    change = (
+      <>
+        {t('rowActivity.changedFrom', { defaultValue: 'changed from' })} <ActivityValue value={oldValue} />{' '}
+        {t('rowActivity.to', { defaultValue: 'to' })} <ActivityValue value={newValue} />
+      </>
+    );
+  }
+
+  return (
+    <div data-testid={'row-activity-item'} className={'flex gap-3 rounded-lg px-2 py-2'}>
+      <Avatar className={'h-6 w-6 shrink-0'}>
+        <AvatarImage src={user?.avatar_url || undefined} alt={displayName} />
+        <AvatarFallback className={'text-xs'}>{displayName}</AvatarFallback>
+      </Avatar>
+      <div className={'flex min-w-0 flex-1 flex-col gap-0.5'}>
+        <div className={'flex items-center gap-2'}>
+          <span className={'text-sm font-semibold text-text-primary'}>{displayName}</span>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <span className={'text-xs text-text-tertiary'}>{relativeTime}</span>
+            </TooltipTrigger>
+            <TooltipContent>{fullTime}</TooltipContent>
+          </Tooltip>
+        </div>
+        <p className={'text-sm text-text-secondary'}>
+          <span className={'font-medium text-text-primary'}>{fieldName}</span> {change}
+        </p>
+      </div>
+    </div>
+  );
+});
+
+/**
+ * Who changed which property of a row and when, derived from the row's
+ * document updates. Changes made before the row was opened in this session
+ * show their current value only.
+ */
+export function RowActivityList({ rowId }: { rowId: string }) {
+  const { t } = useTranslation();
+  const entries = useRowActivity(rowId);
+
+  return (
+    <div data-testid={'row-activity-section'} className={'flex flex-col'} aria-live={'polite'}>
+      {entries.length === 0 ? (
+        <div className={'py-4 text-center text-sm text-text-tertiary'}>
+          {t('rowActivity.empty', { defaultValue: 'No changes recorded yet' })}
+        </div>
+      ) : (
+        entries.map((entry) => <RowActivityItem key={entry.id} entry={entry} />)
+      )}
+    </div>
+  );
+}
+
+export default RowActivityList;
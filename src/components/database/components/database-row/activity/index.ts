@@ -0,0 +1 @@
+export { default as RowActivityList } from './RowActivityList';
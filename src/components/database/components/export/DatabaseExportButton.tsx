@@ -0,0 +1,69 @@
+import { LoaderCircle } from 'lucide-react';
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'sonner';
+
+import { DatabaseExportFormat, useDatabaseExport } from '@/application/database-yjs/export';
+import { ReactComponent as DownloadIcon } from '@/assets/icons/download.svg';
+import { Button } from '@/components/ui/button';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { Log } from '@/utils/log';
+
+export function DatabaseExportButton({ compact = false }: { compact?: boolean }) {
+  const { t } = useTranslation();
+  const exportView = useDatabaseExport();
+  const [open, setOpen] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async (format: DatabaseExportFormat) => {
+    setExporting(true);
+    try {
+      await exportView(format);
+    } catch (error) {
+      Log.error('[DatabaseExport] failed to export view', error);
+      toast.error(t('grid.export.failed', { defaultValue: 'Failed to export this view' }));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu open={open} onOpenChange={setOpen}>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <DropdownMenuTrigger asChild>
+            <Button
+              aria-label={t('grid.export.title', { defaultValue: 'Export' })}
+              data-testid='database-actions-export'
+              disabled={exporting}
+              size={compact ? 'icon-sm' : 'icon'}
+              type='button'
+              variant='ghost'
+            >
+              {exporting ? (
+                <LoaderCircle aria-hidden='true' className='h-5 w-5 animate-spin' />
+              ) : (
+                <DownloadIcon aria-hidden='true' className='h-5 w-5' />
+              )}
+            </Button>
+          </DropdownMenuTrigger>
+        </TooltipTrigger>
+        <TooltipContent>{t('grid.export.title', { defaultValue: 'Export' })}</TooltipContent>
+      </Tooltip>
+      <DropdownMenuContent align='end' className='min-w-[180px]'>
+        <DropdownMenuItem data-testid='database-export-csv' onSelect={() => void handleExport(DatabaseExportFormat.CSV)}>
+          {t('grid.export.csv', { defaultValue: 'CSV (.csv)' })}
+        </DropdownMenuItem>
+        <DropdownMenuItem
+          data-testid='database-export-xlsx'
+          onSelect={() => void handleExport(DatabaseExportFormat.XLSX)}
+        >
+          {t('grid.export.xlsx', { defaultValue: 'Excel (.xlsx)' })}
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+export default DatabaseExportButton;
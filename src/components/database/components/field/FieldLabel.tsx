@@ -27,6 +27,8 @@ function FieldLabel ({ type, ...props }: { type: FieldType } & React.HTMLAttribu
       [FieldType.Person]: t('grid.field.personFieldName'),
       [FieldType.Time]: t('grid.field.timeFieldName'),
       [FieldType.Rollup]: t('grid.field.rollupFieldName', { defaultValue: 'Rollup' }),
+      [FieldType.Formula]: t('grid.field.formulaFieldName', { defaultValue: 'Formula' }),
+      [FieldType.UniqueId]: t('grid.field.uniqueIdFieldName', { defaultValue: 'ID' }),
     }[type];
   }, [t, type]);
 
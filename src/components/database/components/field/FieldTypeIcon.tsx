@@ -13,6 +13,8 @@ import { ReactComponent as SingleSelectSvg } from '@/assets/icons/database/singl
 import { ReactComponent as TextSvg } from '@/assets/icons/database/text.svg';
 import { ReactComponent as URLSvg } from '@/assets/icons/database/url.svg';
 import { ReactComponent as DateSvg } from '@/assets/icons/date.svg';
+import { ReactComponent as FormulaSvg } from '@/assets/icons/formula.svg';
+import { ReactComponent as HashtagSvg } from '@/assets/icons/hashtag.svg';
 import { ReactComponent as LastEditedTimeSvg } from '@/assets/icons/last_modified.svg';
 import { ReactComponent as RelationSvg } from '@/assets/icons/relation.svg';
 import { ReactComponent as TimeSvg } from '@/assets/icons/time.svg'; // Import TimeSvg
@@ -36,6 +38,8 @@ export const FieldTypeSvgMap: Record<FieldType, FC<React.SVGProps<SVGSVGElement>
   [FieldType.Person]: PersonSvg,
   [FieldType.Time]: TimeSvg,
   [FieldType.Rollup]: RelationSvg,
+  [FieldType.Formula]: FormulaSvg,
+  [FieldType.UniqueId]: HashtagSvg,
   [FieldType.CreatedBy]: PersonSvg,
   [FieldType.LastEditedBy]: PersonSvg,
 };
@@ -1,18 +1,9 @@
 import { useCallback, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 
-import { useAdvancedFiltersSelector, useReadOnly } from '@/application/database-yjs';
-import { FilterType } from '@/application/database-yjs/database.type';
-import { FilterDraft } from '@/application/database-yjs/filter';
-import {
-  useAddAdvancedFilterAndRebuild,
-  useClearAllFilters,
-  useRebuildFilterTree,
-} from '@/application/database-yjs/dispatch';
-import { ReactComponent as AddIcon } from '@/assets/icons/plus.svg';
+import { useAdvancedFilterTreeSelector, useReadOnly } from '@/application/database-yjs';
+import { useClearAllFilters } from '@/application/database-yjs/dispatch';
 import { ReactComponent as DeleteIcon } from '@/assets/icons/delete.svg';
-import PropertiesMenu from '@/components/database/components/conditions/PropertiesMenu';
-import { FILTER_EXCLUDED_FIELD_TYPES } from '@/components/database/components/filters/filter-field-types';
 import { Button } from '@/components/ui/button';
 import {
   Dialog,
@@ -25,32 +16,21 @@ import {
 
 import { useConditionsContext } from '../../conditions/context';
 
-import { FilterPanelRow } from './FilterPanelRow';
+import { FilterGroupActions, FilterGroupRows } from './FilterGroupRows';
 
 export function AdvancedFilterPanel() {
   const { t } = useTranslation();
-  const filters = useAdvancedFiltersSelector();
+  const tree = useAdvancedFilterTreeSelector();
   const readOnly = useReadOnly();
 
-  const addFilter = useAddAdvancedFilterAndRebuild();
   const clearAllFilters = useClearAllFilters();
-  const rebuildTree = useRebuildFilterTree();
 
   const context = useConditionsContext();
   const setAdvancedMode = context?.setAdvancedMode;
   const setAdvancedPanelOpen = context?.setAdvancedPanelOpen;
 
-  const [addFilterMenuOpen, setAddFilterMenuOpen] = useState(false);
   const [deleteAllConfirmOpen, setDeleteAllConfirmOpen] = useState(false);
 
-  const handleAddFilter = useCallback(
-    (fieldId: string) => {
-      addFilter(fieldId);
-      setAddFilterMenuOpen(false);
-    },
-    [addFilter]
-  );
-
   // Desktop parity: "Delete filter" in the panel footer asks for confirmation
   // before removing every filter from the view.
   const handleDeleteAllFilters = useCallback(() => {
@@ -60,63 +40,24 @@ export function AdvancedFilterPanel() {
     setAdvancedMode?.(false);
   }, [clearAllFilters, setAdvancedMode, setAdvancedPanelOpen]);
 
-  const handleOperatorChange = useCallback(
-    (filterId: string, newOperator: FilterType.And | FilterType.Or) => {
-      const drafts: FilterDraft[] = filters.map((f, index) => ({
-        id: f.id,
-        fieldId: f.fieldId,
-        fieldType: f.fieldType ?? 0,
-        rollupTargetFieldType: f.rollupTargetFieldType,
-        condition: f.condition,
-        content: f.content,
-        operator: f.id === filterId ? newOperator : (index === 0 ? null : f.operator ?? FilterType.And),
-      }));
-
-      rebuildTree(drafts);
-    },
-    [filters, rebuildTree]
-  );
-
   return (
     <div className='flex flex-col pb-2 pt-3'>
-      {/* Filter rows */}
+      {/* Filter rows and nested groups */}
       <div className='appflowy-scroller flex max-h-[320px] flex-col gap-1.5 overflow-y-auto'>
-        {filters.map((filter, index) => (
-          <FilterPanelRow
-            key={filter.id}
-            filter={filter}
-            isFirst={index === 0}
-            onOperatorChange={handleOperatorChange}
-          />
-        ))}
+        {tree && <FilterGroupRows group={tree} />}
       </div>
 
       {!readOnly && <div className='mx-2 mb-1 mt-3 border-t border-border-primary' />}
 
-      {/* Add filter rule button */}
+      {/* Add filter rule / group buttons */}
       {!readOnly && (
         <div className='px-2'>
-          <PropertiesMenu
-            asChild
-            searchPlaceholder={t('grid.settings.filterBy')}
-            excludedTypes={FILTER_EXCLUDED_FIELD_TYPES}
-            onSelect={handleAddFilter}
-            open={addFilterMenuOpen}
-            onOpenChange={setAddFilterMenuOpen}
-          >
-            <button
-              className='flex h-8 w-full items-center gap-2 rounded-lg px-2 text-sm text-text-primary hover:bg-fill-content-hover'
-              data-testid='add-advanced-filter-button'
-            >
-              <AddIcon className='h-5 w-5 text-icon-primary' />
-              {t('grid.filter.addFilterRule')}
-            </button>
-          </PropertiesMenu>
+          <FilterGroupActions />
         </div>
       )}
 
       {/* Delete all filters button */}
-      {!readOnly && filters.length > 0 && (
+      {!readOnly && tree && (
         <div className='px-2'>
           <button
             className='group flex h-8 w-full items-center gap-2 rounded-lg px-2 text-sm text-text-primary hover:bg-fill-content-hover hover:text-text-error'
@@ -139,11 +80,7 @@ export function AdvancedFilterPanel() {
             <Button variant={'outline'} onClick={() => setDeleteAllConfirmOpen(false)}>
               {t('button.cancel')}
             </Button>
-            <Button
-              variant={'destructive'}
-              data-testid='confirm-delete-all-filters'
-              onClick={handleDeleteAllFilters}
-            >
+            <Button variant={'destructive'} data-testid='confirm-delete-all-filters' onClick={handleDeleteAllFilters}>
               {t('button.delete')}
             </Button>
           </DialogFooter>
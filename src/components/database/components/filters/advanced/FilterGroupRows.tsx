@@ -0,0 +1,152 @@
+import { useCallback, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+
+import { useReadOnly } from '@/application/database-yjs';
+import { FilterGroup, FilterType } from '@/application/database-yjs/database.type';
+import {
+  useAddAdvancedFilterAndRebuild,
+  useAddAdvancedFilterGroup,
+  useRemoveAdvancedFilterAndRebuild,
+  useUpdateAdvancedFilterGroupType,
+} from '@/application/database-yjs/dispatch';
+import { isFilterGroupNode } from '@/application/database-yjs/filter';
+import { ReactComponent as DeleteIcon } from '@/assets/icons/delete.svg';
+import { ReactComponent as AddIcon } from '@/assets/icons/plus.svg';
+import PropertiesMenu from '@/components/database/components/conditions/PropertiesMenu';
+import { FILTER_EXCLUDED_FIELD_TYPES } from '@/components/database/components/filters/filter-field-types';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+
+import { FilterOperatorSelect, FilterPanelRow } from './FilterPanelRow';
+
+const actionButtonClass =
+  'flex h-8 items-center gap-2 rounded-lg px-2 text-sm text-text-primary hover:bg-fill-content-hover';
+
+/**
+ * Renders the children of a filter group. All rows of a group share one
+ * operator, so changing it on any row switches the whole group between And and Or.
+ */
+export function FilterGroupRows({ group }: { group: FilterGroup }) {
+  const updateGroupType = useUpdateAdvancedFilterGroupType();
+
+  const handleOperatorChange = useCallback(
+    (_filterId: string, operator: FilterType.And | FilterType.Or) => {
+      updateGroupType(group.id, operator);
+    },
+    [group.id, updateGroupType]
+  );
+
+  return (
+    <>
+      {group.children.map((child, index) =>
+        isFilterGroupNode(child) ? (
+          <FilterGroupBlock
+            group={child}
+            isFirst={index === 0}
+            key={child.id}
+            onOperatorChange={(operator) => handleOperatorChange(child.id, operator)}
+            operator={group.filterType}
+          />
+        ) : (
+          <FilterPanelRow filter={child} isFirst={index === 0} key={child.id} onOperatorChange={handleOperatorChange} />
+        )
+      )}
+    </>
+  );
+}
+
+function FilterGroupBlock({
+  group,
+  isFirst,
+  operator,
+  onOperatorChange,
+}: {
+  group: FilterGroup;
+  isFirst: boolean;
+  operator: FilterType.And | FilterType.Or;
+  onOperatorChange: (operator: FilterType.And | FilterType.Or) => void;
+}) {
+  const { t } = useTranslation();
+  const readOnly = useReadOnly();
+  const removeNode = useRemoveAdvancedFilterAndRebuild();
+
+  return (
+    <div className='flex items-start gap-1.5 px-2' data-testid='advanced-filter-group'>
+      <div className='flex h-[42px] items-center'>
+        <FilterOperatorSelect disabled={readOnly} isFirst={isFirst} onChange={onOperatorChange} operator={operator} />
+      </div>
+      <div className='flex min-w-0 flex-1 flex-col gap-1.5 rounded-lg border border-border-primary py-1.5'>
+        <FilterGroupRows group={group} />
+        {!readOnly && (
+          <div className='flex items-center justify-between px-2'>
+            <FilterGroupActions groupId={group.id} />
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <button
+                  className='group flex h-8 w-8 shrink-0 items-center justify-center rounded-md hover:bg-fill-content-hover'
+                  data-testid='delete-advanced-filter-group-button'
+                  onClick={() => removeNode(group.id)}
+                >
+                  <DeleteIcon className='h-5 w-5 text-icon-tertiary group-hover:text-icon-error-thick' />
+                </button>
+              </TooltipTrigger>
+              <TooltipContent side='bottom'>
+                {t('grid.filter.deleteFilterGroup', { defaultValue: 'Delete filter group' })}
+              </TooltipContent>
+            </Tooltip>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/** "Add filter rule" and "Add filter group" for a group; the root group is used when no id is given. */
+export function FilterGroupActions({ groupId }: { groupId?: string }) {
+  const { t } = useTranslation();
+  const addFilter = useAddAdvancedFilterAndRebuild();
+  const addGroup = useAddAdvancedFilterGroup();
+  const [addFilterMenuOpen, setAddFilterMenuOpen] = useState(false);
+  const [addGroupMenuOpen, setAddGroupMenuOpen] = useState(false);
+
+  return (
+    <div className='flex items-center gap-1'>
+      <PropertiesMenu
+        asChild
+        searchPlaceholder={t('grid.settings.filterBy')}
+        excludedTypes={FILTER_EXCLUDED_FIELD_TYPES}
+        onSelect={(fieldId) => {
+          addFilter(fieldId, groupId);
+          setAddFilterMenuOpen(false);
+        }}
+        open={addFilterMenuOpen}
+        onOpenChange={setAddFilterMenuOpen}
+      >
+        <button
+          className={actionButtonClass}
+          data-testid={groupId ? 'add-nested-advanced-filter-button' : 'add-advanced-filter-button'}
+        >
+          <AddIcon className='h-5 w-5 text-icon-primary' />
+          {t('grid.filter.addFilterRule')}
+        </button>
+      </PropertiesMenu>
+      <PropertiesMenu
+        asChild
+        searchPlaceholder={t('grid.settings.filterBy')}
+        excludedTypes={FILTER_EXCLUDED_FIELD_TYPES}
+        onSelect={(fieldId) => {
+          addGroup(fieldId, groupId);
+          setAddGroupMenuOpen(false);
+        }}
+        open={addGroupMenuOpen}
+        onOpenChange={setAddGroupMenuOpen}
+      >
+        <button className={actionButtonClass} data-testid='add-advanced-filter-group-button'>
+          <AddIcon className='h-5 w-5 text-icon-primary' />
+          {t('grid.filter.addFilterGroup', { defaultValue: 'Add filter group' })}
+        </button>
+      </PropertiesMenu>
+    </div>
+  );
+}
+
+export default FilterGroupRows;
@@ -10,6 +10,7 @@ import {
   FieldType,
   Filter,
   isRelativeDateCondition,
+  isRelativeDateOffsetCondition,
   NumberFilter,
   NumberFilterCondition,
   parseSelectOptionTypeOptions,
@@ -29,6 +30,7 @@ import {
   useUpdateAdvancedFilter,
   useUpdateAdvancedFilterAndRebuild,
 } from '@/application/database-yjs/dispatch';
+import { getFilterFieldType } from '@/application/database-yjs/filter';
 import { isNumericRollupField } from '@/application/database-yjs/rollup/utils';
 import { YDatabaseField, YjsDatabaseKey } from '@/application/types';
 import { canonicalizeUserUid } from '@/application/user-uid';
@@ -41,6 +43,7 @@ import { useMentionableUsersWithAutoFetch } from '@/components/database/componen
 import RelationCellMenuContent from '@/components/database/components/cell/relation/RelationCellMenuContent';
 import PropertiesMenu from '@/components/database/components/conditions/PropertiesMenu';
 import { FILTER_EXCLUDED_FIELD_TYPES } from '@/components/database/components/filters/filter-field-types';
+import DateTimeFilterOffsetInput from '@/components/database/components/filters/filter-menu/DateTimeFilterOffsetInput';
 import { SelectOptionList } from '@/components/database/components/filters/filter-menu/SelectOptionList';
 import { useDebouncedFilterInput } from '@/components/database/components/filters/hooks/useDebouncedFilterInput';
 import { useRelationData } from '@/components/database/components/property/relation/useRelationData';
@@ -82,7 +85,8 @@ export function FilterPanelRow({ filter, isFirst, onOperatorChange }: FilterPane
 
   // Not memoized: `field` is a Yjs map with a stable identity that mutates in
   // place, so a [field]-keyed memo would go stale after in-place field edits.
-  const fieldType: FieldType | null = field ? (Number(field.get(YjsDatabaseKey.type)) as FieldType) : null;
+  // Formulas resolve to the type whose conditions apply to their result.
+  const fieldType: FieldType | null = field ? getFilterFieldType(field) : null;
 
   const handleRemove = useCallback(() => {
     removeFilter(filter.id);
@@ -118,33 +122,12 @@ export function FilterPanelRow({ filter, isFirst, onOperatorChange }: FilterPane
 
   return (
     <div className='flex items-center gap-1.5 px-2' data-testid='advanced-filter-row'>
-      {/* Where / And / Or selector - fixed width (desktop: 68px) */}
-      <div className='w-[68px] shrink-0'>
-        {isFirst ? (
-          <div className='text-center text-sm text-text-tertiary'>{t('grid.filter.where')}</div>
-        ) : (
-          <DropdownMenu>
-            <DropdownMenuTrigger asChild disabled={readOnly}>
-              <button className={cn(selectBoxClass, 'w-full')}>
-                <span className='truncate'>
-                  {filter.operator === FilterType.Or ? t('grid.filter.or') : t('grid.filter.and')}
-                </span>
-                <ArrowDownSvg className='h-5 w-5 shrink-0 text-icon-primary' />
-              </button>
-            </DropdownMenuTrigger>
-            <DropdownMenuContent align='start' className='min-w-[100px]'>
-              <DropdownMenuItem onSelect={() => onOperatorChange?.(filter.id, FilterType.And)}>
-                {t('grid.filter.and')}
-                {filter.operator === FilterType.And && <DropdownMenuItemTick />}
-              </DropdownMenuItem>
-              <DropdownMenuItem onSelect={() => onOperatorChange?.(filter.id, FilterType.Or)}>
-                {t('grid.filter.or')}
-                {filter.operator === FilterType.Or && <DropdownMenuItemTick />}
-              </DropdownMenuItem>
-            </DropdownMenuContent>
-          </DropdownMenu>
-        )}
-      </div>
+      <FilterOperatorSelect
+        disabled={readOnly}
+        isFirst={isFirst}
+        onChange={(operator) => onOperatorChange?.(filter.id, operator)}
+        operator={filter.operator}
+      />
 
       {/* Field selector - flex-[5] */}
       <div className='min-w-0 flex-[5]'>
@@ -194,6 +177,46 @@ export function FilterPanelRow({ filter, isFirst, onOperatorChange }: FilterPane
   );
 }
 
+interface FilterOperatorSelectProps {
+  isFirst: boolean;
+  operator?: FilterType.And | FilterType.Or | null;
+  onChange: (operator: FilterType.And | FilterType.Or) => void;
+  disabled?: boolean;
+}
+
+// Where / And / Or selector - fixed width (desktop: 68px). Shared by filter rows
+// and nested filter groups, which sit in the same column.
+export function FilterOperatorSelect({ isFirst, operator, onChange, disabled }: FilterOperatorSelectProps) {
+  const { t } = useTranslation();
+
+  return (
+    <div className='w-[68px] shrink-0'>
+      {isFirst ? (
+        <div className='text-center text-sm text-text-tertiary'>{t('grid.filter.where')}</div>
+      ) : (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild disabled={disabled}>
+            <button className={cn(selectBoxClass, 'w-full')}>
+              <span className='truncate'>{operator === FilterType.Or ? t('grid.filter.or') : t('grid.filter.and')}</span>
+              <ArrowDownSvg className='h-5 w-5 shrink-0 text-icon-primary' />
+            </button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align='start' className='min-w-[100px]'>
+            <DropdownMenuItem onSelect={() => onChange(FilterType.And)}>
+              {t('grid.filter.and')}
+              {operator === FilterType.And && <DropdownMenuItemTick />}
+            </DropdownMenuItem>
+            <DropdownMenuItem onSelect={() => onChange(FilterType.Or)}>
+              {t('grid.filter.or')}
+              {operator === FilterType.Or && <DropdownMenuItemTick />}
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+    </div>
+  );
+}
+
 // Condition Selector Component - Shows only conditions dropdown
 interface ConditionSelectorProps {
   filter: Filter;
@@ -258,7 +281,7 @@ function ConditionSelector({ filter, fieldType, field, onConditionChange, disabl
 // Get conditions based on field type
 function useConditionsForFieldType(
   fieldType: FieldType | null,
-  t: (key: string) => string,
+  t: (key: string, options?: Record<string, unknown>) => string,
   field?: YDatabaseField
 ): { value: number; text: string }[] {
   // Numeric rollups must use Number conditions; non-numeric rollups stay as text.
@@ -336,6 +359,20 @@ function useConditionsForFieldType(
         { value: DateFilterCondition.DateStartsThisWeek, text: t('relativeDates.thisWeek') },
         { value: DateFilterCondition.DateStartsLastWeek, text: t('relativeDates.lastWeek') },
         { value: DateFilterCondition.DateStartsNextWeek, text: t('relativeDates.nextWeek') },
+        {
+          value: DateFilterCondition.DateStartsWithinNext,
+          text: t('relativeDates.withinNext', { defaultValue: 'Within the next…' }),
+        },
+        {
+          value: DateFilterCondition.DateStartsWithinPast,
+          text: t('relativeDates.withinPast', { defaultValue: 'Within the past…' }),
+        },
+        {
+          value: DateFilterCondition.DateStartsThisQuarter,
+          text: t('relativeDates.thisQuarter', { defaultValue: 'This quarter' }),
+        },
+        { value: DateFilterCondition.DateStartsThisYear, text: t('relativeDates.thisYear', { defaultValue: 'This year' }) },
+        { value: DateFilterCondition.DateStartsOverdue, text: t('relativeDates.overdue', { defaultValue: 'Overdue' }) },
         { value: DateFilterCondition.DateStartIsEmpty, text: t('grid.dateFilter.empty') },
         { value: DateFilterCondition.DateStartIsNotEmpty, text: t('grid.dateFilter.notEmpty') },
       ];
@@ -613,6 +650,15 @@ function NumberValueInput({ filter, disabled }: { filter: NumberFilter; disabled
 
 // Date Value Input - uses the existing DateTimeFilterDatePicker
 function DateValueInput({ filter, disabled }: { filter: DateFilter; disabled?: boolean }) {
+  const updateFilter = useUpdateAdvancedFilter();
+
+  const handleOffsetChange = useCallback(
+    (content: string) => {
+      updateFilter({ filterId: filter.id, fieldId: filter.fieldId, content });
+    },
+    [filter.id, filter.fieldId, updateFilter]
+  );
+
   // Don't show input for isEmpty/isNotEmpty or relative date conditions (Today, This week, …)
   const showInput = useMemo(() => {
     if (isRelativeDateCondition(filter.condition)) return false;
@@ -625,6 +671,14 @@ function DateValueInput({ filter, disabled }: { filter: DateFilter; disabled?: b
     ].includes(filter.condition);
   }, [filter.condition]);
 
+  if (isRelativeDateOffsetCondition(filter.condition)) {
+    return (
+      <div className='min-w-0 flex-[7]'>
+        <DateTimeFilterOffsetInput filter={filter} onChange={handleOffsetChange} disabled={disabled} />
+      </div>
+    );
+  }
+
   if (!showInput) return <div className='min-w-0 flex-[7]' />;
 
   return (
@@ -1,3 +1,4 @@
 export * from './AdvancedFilterPanel';
 export * from './AdvancedFiltersBadge';
 export * from './FilterPanelRow';
+export * from './FilterGroupRows';
@@ -2,8 +2,8 @@ import { useMemo } from 'react';
 import { useTranslation } from 'react-i18next';
 
 import { CheckboxFilter, CheckboxFilterCondition, useReadOnly } from '@/application/database-yjs';
-import { useUpdateFilter } from '@/application/database-yjs/dispatch';
 import FieldMenuTitle from '@/components/database/components/filters/filter-menu/FieldMenuTitle';
+import { useFilterMenuActions } from '@/components/database/components/filters/filter-menu/FilterMenuActionsContext';
 import { DropdownMenuItemTick, dropdownMenuItemVariants } from '@/components/ui/dropdown-menu';
 import { cn } from '@/lib/utils';
 
@@ -14,7 +14,7 @@ import { useConditionsContext } from '../../conditions/context';
 function CheckboxFilterMenu({ filter }: { filter: CheckboxFilter }) {
   const { t } = useTranslation();
   const readOnly = useReadOnly();
-  const updateFilter = useUpdateFilter();
+  const { updateFilter } = useFilterMenuActions();
   const setOpenFilterId = useConditionsContext()?.setOpenFilterId;
 
   const conditions = useMemo(
@@ -2,10 +2,10 @@ import dayjs from 'dayjs';
 import { useCallback, useMemo, useState } from 'react';
 
 import { DateFilter, DateFilterCondition, useReadOnly } from '@/application/database-yjs';
-import { useUpdateFilter } from '@/application/database-yjs/dispatch';
 import { DateFormat, TimeFormat } from '@/application/types';
 import { MetadataKey } from '@/application/user-metadata';
 import DateTimeInput from '@/components/database/components/cell/date/DateTimeInput';
+import { useFilterMenuActions } from '@/components/database/components/filters/filter-menu/FilterMenuActionsContext';
 import { useCurrentUser } from '@/components/main/app.hooks';
 import { Button } from '@/components/ui/button';
 import { Calendar } from '@/components/ui/calendar';
@@ -44,7 +44,7 @@ function DateTimeFilterDatePicker({ filter }: { filter: DateFilter }) {
     };
   });
 
-  const updateFilter = useUpdateFilter();
+  const { updateFilter } = useFilterMenuActions();
 
   const onSelect = useCallback(
     (dateRange: { from: Date | undefined; to?: Date | undefined } | undefined) => {
@@ -6,21 +6,25 @@ import {
   DateFilterCondition,
   FieldType,
   isRelativeDateCondition,
+  isRelativeDateOffsetCondition,
   isStartDateCondition,
   toEndDateCondition,
   toStartDateCondition,
   useFieldType,
+  useReadOnly,
 } from '@/application/database-yjs';
-import { useUpdateFilter } from '@/application/database-yjs/dispatch';
 import DateTimeFilterDatePicker from '@/components/database/components/filters/filter-menu/DateTimeFilterDatePicker';
+import DateTimeFilterOffsetInput from '@/components/database/components/filters/filter-menu/DateTimeFilterOffsetInput';
 import DateTimeFilterStartEndDateSelect
   from '@/components/database/components/filters/filter-menu/DateTimeFilterStartEndDateSelect';
 import FieldMenuTitle from '@/components/database/components/filters/filter-menu/FieldMenuTitle';
 import FilterConditionsSelect from '@/components/database/components/filters/filter-menu/FilterConditionsSelect';
+import { useFilterMenuActions } from '@/components/database/components/filters/filter-menu/FilterMenuActionsContext';
 
 function DateTimeFilterMenu ({ filter }: { filter: DateFilter }) {
   const { t } = useTranslation();
-  const updateFilter = useUpdateFilter();
+  const { updateFilter } = useFilterMenuActions();
+  const readOnly = useReadOnly();
   const fieldType = useFieldType(filter.fieldId);
 
   // Derived from filter.condition so it stays in sync if the condition is changed
@@ -47,6 +51,17 @@ function DateTimeFilterMenu ({ filter }: { filter: DateFilter }) {
       { value: pick(DateFilterCondition.DateStartsThisWeek), text: t('relativeDates.thisWeek') },
       { value: pick(DateFilterCondition.DateStartsLastWeek), text: t('relativeDates.lastWeek') },
       { value: pick(DateFilterCondition.DateStartsNextWeek), text: t('relativeDates.nextWeek') },
+      {
+        value: pick(DateFilterCondition.DateStartsWithinNext),
+        text: t('relativeDates.withinNext', { defaultValue: 'Within the next…' }),
+      },
+      {
+        value: pick(DateFilterCondition.DateStartsWithinPast),
+        text: t('relativeDates.withinPast', { defaultValue: 'Within the past…' }),
+      },
+      { value: pick(DateFilterCondition.DateStartsThisQuarter), text: t('relativeDates.thisQuarter', { defaultValue: 'This quarter' }) },
+      { value: pick(DateFilterCondition.DateStartsThisYear), text: t('relativeDates.thisYear', { defaultValue: 'This year' }) },
+      { value: pick(DateFilterCondition.DateStartsOverdue), text: t('relativeDates.overdue', { defaultValue: 'Overdue' }) },
     ]
       .filter((condition) => !condition.hidden)
       .map(({ value, text }) => ({ value, text }));
@@ -61,6 +76,17 @@ function DateTimeFilterMenu ({ filter }: { filter: DateFilter }) {
       DateFilterCondition.DateStartIsNotEmpty,
     ].includes(filter.condition);
 
+  const handleOffsetChange = useCallback(
+    (content: string) => {
+      updateFilter({
+        filterId: filter.id,
+        fieldId: filter.fieldId,
+        content,
+      });
+    },
+    [filter.id, filter.fieldId, updateFilter],
+  );
+
   const handleSelectStartOrEnd = useCallback(
     (isStart: boolean) => {
       if (isStart === isStartDateCondition(filter.condition)) return;
@@ -105,6 +131,13 @@ function DateTimeFilterMenu ({ filter }: { filter: DateFilter }) {
       {displayTextField && (
         <DateTimeFilterDatePicker filter={filter} />
       )}
+      {isRelativeDateOffsetCondition(filter.condition) && (
+        <DateTimeFilterOffsetInput
+          filter={filter}
+          onChange={handleOffsetChange}
+          disabled={readOnly}
+        />
+      )}
     </div>
   );
 }
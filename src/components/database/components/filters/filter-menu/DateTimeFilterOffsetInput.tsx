@@ -0,0 +1,107 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+
+import {
+  DateFilter,
+  DEFAULT_RELATIVE_DATE_OFFSET,
+  RELATIVE_DATE_UNITS,
+  RelativeDateOffset,
+  stringifyRelativeDateOffset,
+} from '@/application/database-yjs';
+import { ReactComponent as ArrowDownSvg } from '@/assets/icons/alt_arrow_down.svg';
+import { relativeDateUnitLabel } from '@/components/database/components/filters/overview/useFilterChipLabel';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuGroup,
+  DropdownMenuItem,
+  DropdownMenuItemTick,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Input } from '@/components/ui/input';
+
+/**
+ * The "N days/weeks/months" of the within-next/within-past date conditions.
+ * Writes the offset as the filter content.
+ */
+function DateTimeFilterOffsetInput({
+  filter,
+  onChange,
+  disabled,
+}: {
+  filter: DateFilter;
+  onChange: (content: string) => void;
+  disabled?: boolean;
+}) {
+  const { t } = useTranslation();
+  const offset = filter.offset ?? DEFAULT_RELATIVE_DATE_OFFSET;
+  const [amount, setAmount] = useState(String(offset.amount));
+
+  // Follow remote edits of the same filter.
+  useEffect(() => {
+    setAmount(String(offset.amount));
+  }, [offset.amount]);
+
+  const update = useCallback(
+    (next: RelativeDateOffset) => {
+      onChange(stringifyRelativeDateOffset(next));
+    },
+    [onChange]
+  );
+
+  const handleAmountChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const next = e.target.value;
+
+      if (next !== '' && !/^\d+$/.test(next)) return;
+      setAmount(next);
+      if (next !== '') update({ ...offset, amount: Number(next) });
+    },
+    [offset, update]
+  );
+
+  return (
+    <div className='flex items-center gap-1' data-testid='date-filter-offset'>
+      <Input
+        className='w-20'
+        data-testid='date-filter-offset-amount'
+        disabled={disabled}
+        inputMode='numeric'
+        onBlur={() => setAmount(String(offset.amount))}
+        onChange={handleAmountChange}
+        size='sm'
+        value={amount}
+      />
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild disabled={disabled}>
+          <Button
+            className='h-7 w-fit min-w-fit px-2 text-xs font-medium text-text-primary'
+            data-testid='date-filter-offset-unit'
+            size='sm'
+            variant='ghost'
+          >
+            {relativeDateUnitLabel(offset.unit, offset.amount, t)}
+            <ArrowDownSvg className='h-5 w-5 text-icon-secondary' />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent className='min-w-fit'>
+          <DropdownMenuGroup>
+            {RELATIVE_DATE_UNITS.map((unit) => (
+              <DropdownMenuItem
+                data-testid={`date-filter-offset-unit-${unit}`}
+                key={unit}
+                onSelect={() => update({ ...offset, unit })}
+              >
+                {relativeDateUnitLabel(unit, offset.amount, t)}
+                {unit === offset.unit && <DropdownMenuItemTick />}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuGroup>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+}
+
+export default DateTimeFilterOffsetInput;
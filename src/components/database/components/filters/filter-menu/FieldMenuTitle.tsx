@@ -3,11 +3,12 @@ import { useTranslation } from 'react-i18next';
 
 import { useFieldSelector, useReadOnly } from '@/application/database-yjs';
 import { FilterType } from '@/application/database-yjs/database.type';
-import { useEnterAdvancedMode, useRemoveFilter } from '@/application/database-yjs/dispatch';
+import { useEnterAdvancedMode } from '@/application/database-yjs/dispatch';
 import { YjsDatabaseKey } from '@/application/types';
 import { ReactComponent as DeleteIcon } from '@/assets/icons/delete.svg';
 import { ReactComponent as FilterIcon } from '@/assets/icons/filter.svg';
 import { ReactComponent as MoreIcon } from '@/assets/icons/more.svg';
+import { useFilterMenuActions } from '@/components/database/components/filters/filter-menu/FilterMenuActionsContext';
 import { Button } from '@/components/ui/button';
 import {
   DropdownMenu,
@@ -36,7 +37,7 @@ function FieldMenuTitle({
   /** Desktop caps the field name at 150px, except the date editor which uses 120px. */
   nameMaxWidthClassName?: string;
 }) {
-  const deleteFilter = useRemoveFilter();
+  const { removeFilter: deleteFilter, canSwitchToAdvanced } = useFilterMenuActions();
   const enterAdvancedMode = useEnterAdvancedMode();
   const readOnly = useReadOnly();
   const { t } = useTranslation();
@@ -49,7 +50,7 @@ function FieldMenuTitle({
   const setOpenFilterId = context?.setOpenFilterId;
 
   const handleDeleteFilter = useCallback(() => {
-    deleteFilter(filterId);
+    deleteFilter?.(filterId);
     setMenuOpen(false);
   }, [deleteFilter, filterId]);
 
@@ -76,7 +77,7 @@ function FieldMenuTitle({
       </span>
       {renderConditionSelect}
       <div className={'flex-1'} />
-      {!readOnly && (
+      {!readOnly && (canSwitchToAdvanced || deleteFilter) && (
         <DropdownMenu open={menuOpen} onOpenChange={setMenuOpen}>
           <DropdownMenuTrigger asChild>
             <Button
@@ -89,14 +90,18 @@ function FieldMenuTitle({
             </Button>
           </DropdownMenuTrigger>
           <DropdownMenuContent align='end' className='min-w-[200px]'>
-            <DropdownMenuItem onSelect={handleSwitchToAdvancedFilter}>
-              <FilterIcon className={'h-5 w-5'} />
-              {t('grid.filter.switchToAdvancedFilter')}
-            </DropdownMenuItem>
-            <DropdownMenuItem onSelect={handleDeleteFilter} data-testid='delete-filter-button'>
-              <DeleteIcon className={'h-5 w-5'} />
-              {t('grid.settings.deleteFilter')}
-            </DropdownMenuItem>
+            {canSwitchToAdvanced && (
+              <DropdownMenuItem onSelect={handleSwitchToAdvancedFilter}>
+                <FilterIcon className={'h-5 w-5'} />
+                {t('grid.filter.switchToAdvancedFilter')}
+              </DropdownMenuItem>
+            )}
+            {deleteFilter && (
+              <DropdownMenuItem onSelect={handleDeleteFilter} data-testid='delete-filter-button'>
+                <DeleteIcon className={'h-5 w-5'} />
+                {t('grid.settings.deleteFilter')}
+              </DropdownMenuItem>
+            )}
           </DropdownMenuContent>
         </DropdownMenu>
       )}
@@ -1,8 +1,8 @@
 import { useMemo } from 'react';
 
 import { Filter, useReadOnly } from '@/application/database-yjs';
-import { useUpdateFilter } from '@/application/database-yjs/dispatch';
 import { ReactComponent as ArrowDownSvg } from '@/assets/icons/alt_arrow_down.svg';
+import { useFilterMenuActions } from '@/components/database/components/filters/filter-menu/FilterMenuActionsContext';
 import { Button } from '@/components/ui/button';
 import {
   DropdownMenu,
@@ -24,7 +24,7 @@ function FilterConditionsSelect ({
   }[];
   onSelect?: (condition: number) => void;
 }) {
-  const updateFilter = useUpdateFilter();
+  const { updateFilter } = useFilterMenuActions();
   const readOnly = useReadOnly();
   const selectedCondition = useMemo(() => {
     return conditions.find((c) => c.value === filter.condition);
@@ -1,7 +1,7 @@
 import { useMemo } from 'react';
 
 import { DateFilter, FieldType, Filter, NumberFilter, PersonFilter, SelectOptionFilter, useFieldSelector } from '@/application/database-yjs';
-import { YjsDatabaseKey } from '@/application/types';
+import { getFilterFieldType } from '@/application/database-yjs/filter';
 import DateTimeFilterMenu from '@/components/database/components/filters/filter-menu/DateTimeFilterMenu';
 
 import CheckboxFilterMenu from './CheckboxFilterMenu';
@@ -16,7 +16,7 @@ import TextFilterMenu from './TextFilterMenu';
 
 export function FilterMenu({ filter }: { filter: Filter }) {
   const { field } = useFieldSelector(filter?.fieldId);
-  const fieldType = Number(field?.get(YjsDatabaseKey.type)) as FieldType;
+  const fieldType = field ? getFilterFieldType(field) : undefined;
 
   const menu = useMemo(() => {
     if (!field) return null;
@@ -0,0 +1,29 @@
+import { createContext, useContext, useMemo } from 'react';
+
+import { useRemoveFilter, useUpdateFilter } from '@/application/database-yjs/dispatch';
+import type { UpdateFilterParams } from '@/application/database-yjs/dispatch';
+
+export interface FilterMenuActions {
+  updateFilter: (params: UpdateFilterParams) => void;
+  /** Omitted when the owner of the condition offers its own delete action. */
+  removeFilter?: (filterId: string) => void;
+  /** Only the view's own filters can be moved into the advanced filter tree. */
+  canSwitchToAdvanced: boolean;
+}
+
+/**
+ * Lets the filter menus edit a condition stored outside the view's filters,
+ * such as a conditional formatting rule. Without a provider they edit filters.
+ */
+export const FilterMenuActionsContext = createContext<FilterMenuActions | null>(null);
+
+export function useFilterMenuActions(): FilterMenuActions {
+  const actions = useContext(FilterMenuActionsContext);
+  const updateFilter = useUpdateFilter();
+  const removeFilter = useRemoveFilter();
+
+  return useMemo(
+    () => actions ?? { updateFilter, removeFilter, canSwitchToAdvanced: true },
+    [actions, removeFilter, updateFilter]
+  );
+}
@@ -8,9 +8,9 @@ import {
   useFieldSelector,
   useReadOnly,
 } from '@/application/database-yjs';
-import { useUpdateFilter } from '@/application/database-yjs/dispatch';
 import ClearSelectionItem from '@/components/database/components/filters/filter-menu/ClearSelectionItem';
 import FilterConditionsSelect from '@/components/database/components/filters/filter-menu/FilterConditionsSelect';
+import { useFilterMenuActions } from '@/components/database/components/filters/filter-menu/FilterMenuActionsContext';
 import { SelectOptionList } from '@/components/database/components/filters/filter-menu/SelectOptionList';
 
 import FieldMenuTitle from './FieldMenuTitle';
@@ -46,7 +46,7 @@ function MultiSelectOptionFilterMenu({ filter }: { filter: SelectOptionFilter })
     );
   }, [filter.condition]);
 
-  const updateFilter = useUpdateFilter();
+  const { updateFilter } = useFilterMenuActions();
   const handleToggleSelectOption = useCallback(
     (id: string) => {
       if (readOnly) return;
@@ -2,9 +2,9 @@ import React, { useCallback, useMemo } from 'react';
 import { useTranslation } from 'react-i18next';
 
 import { NumberFilter, NumberFilterCondition, useReadOnly } from '@/application/database-yjs';
-import { useUpdateFilter } from '@/application/database-yjs/dispatch';
 import FieldMenuTitle from '@/components/database/components/filters/filter-menu/FieldMenuTitle';
 import FilterConditionsSelect from '@/components/database/components/filters/filter-menu/FilterConditionsSelect';
+import { useFilterMenuActions } from '@/components/database/components/filters/filter-menu/FilterMenuActionsContext';
 import { useDebouncedFilterInput } from '@/components/database/components/filters/hooks/useDebouncedFilterInput';
 import { numberConditionShortName } from '@/components/database/components/filters/overview/useFilterChipLabel';
 import { Input } from '@/components/ui/input';
@@ -26,7 +26,7 @@ function NumberFilterMenu({
 }) {
   const { t } = useTranslation();
   const readOnly = useReadOnly();
-  const updateFilter = useUpdateFilter();
+  const { updateFilter } = useFilterMenuActions();
   const { value, updateValue } = useDebouncedFilterInput({
     content: filter.content,
     filterId: filter.id,
@@ -4,13 +4,13 @@ import { useTranslation } from 'react-i18next';
 import { FieldType, PersonFilter, PersonFilterCondition, useFieldSelector, useReadOnly } from '@/application/database-yjs';
 import { YjsDatabaseKey } from '@/application/types';
 import { canonicalizeUserUid } from '@/application/user-uid';
-import { useUpdateFilter } from '@/application/database-yjs/dispatch';
-import { ReactComponent as CheckIcon } from '@/assets/icons/tick.svg';
 import { ReactComponent as PersonIcon } from '@/assets/icons/person.svg';
+import { ReactComponent as CheckIcon } from '@/assets/icons/tick.svg';
 import { useMentionableUsersWithAutoFetch } from '@/components/database/components/cell/person/useMentionableUsers';
 import ClearSelectionItem from '@/components/database/components/filters/filter-menu/ClearSelectionItem';
 import FieldMenuTitle from '@/components/database/components/filters/filter-menu/FieldMenuTitle';
 import FilterConditionsSelect from '@/components/database/components/filters/filter-menu/FilterConditionsSelect';
+import { useFilterMenuActions } from '@/components/database/components/filters/filter-menu/FilterMenuActionsContext';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Progress } from '@/components/ui/progress';
 import { cn } from '@/lib/utils';
@@ -20,7 +20,7 @@ const EMPTY_USER_IDS: readonly string[] = [];
 function PersonFilterMenu({ filter }: { filter: PersonFilter }) {
   const { t } = useTranslation();
   const readOnly = useReadOnly();
-  const updateFilter = useUpdateFilter();
+  const { updateFilter } = useFilterMenuActions();
   const { field } = useFieldSelector(filter.fieldId);
   const fieldType = Number(field?.get(YjsDatabaseKey.type)) as FieldType;
   const isAttributionField = fieldType === FieldType.CreatedBy || fieldType === FieldType.LastEditedBy;
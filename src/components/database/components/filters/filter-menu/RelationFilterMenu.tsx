@@ -2,10 +2,10 @@ import { useCallback, useMemo } from 'react';
 import { useTranslation } from 'react-i18next';
 
 import { Filter, RelationFilterCondition, useReadOnly } from '@/application/database-yjs';
-import { useUpdateFilter } from '@/application/database-yjs/dispatch';
 import RelationCellMenuContent from '@/components/database/components/cell/relation/RelationCellMenuContent';
 import ClearSelectionItem from '@/components/database/components/filters/filter-menu/ClearSelectionItem';
 import FieldMenuTitle from '@/components/database/components/filters/filter-menu/FieldMenuTitle';
+import { useFilterMenuActions } from '@/components/database/components/filters/filter-menu/FilterMenuActionsContext';
 import RelationFilterConditionsSelect from '@/components/database/components/filters/filter-menu/RelationFilterConditionsSelect';
 import { useRelationData } from '@/components/database/components/property/relation/useRelationData';
 import { Progress } from '@/components/ui/progress';
@@ -25,7 +25,7 @@ function parseRelationFilterRowIds(content: string | undefined) {
 function RelationFilterMenu({ filter }: { filter: Filter }) {
   const { t } = useTranslation();
   const readOnly = useReadOnly();
-  const updateFilter = useUpdateFilter();
+  const { updateFilter } = useFilterMenuActions();
   const showPicker = [
     RelationFilterCondition.RelationContains,
     RelationFilterCondition.RelationDoesNotContain,
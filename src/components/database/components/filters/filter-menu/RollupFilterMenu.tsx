@@ -1,12 +1,12 @@
 import { useCallback } from 'react';
 
 import { FieldType, NumberFilter, TextFilter, useFieldSelector, useReadOnly } from '@/application/database-yjs';
-import { useUpdateFilter } from '@/application/database-yjs/dispatch';
 import { SelectOption } from '@/application/database-yjs/fields/select-option/select_option.type';
 import { isNumericRollupField } from '@/application/database-yjs/rollup/utils';
 import { Tag } from '@/components/_shared/tag';
 import { SelectOptionColorMap, SelectOptionFgColorMap } from '@/components/database/components/cell/cell.const';
 import FieldMenuTitle from '@/components/database/components/filters/filter-menu/FieldMenuTitle';
+import { useFilterMenuActions } from '@/components/database/components/filters/filter-menu/FilterMenuActionsContext';
 import NumberFilterMenu from '@/components/database/components/filters/filter-menu/NumberFilterMenu';
 import TextFilterConditionsSelect from '@/components/database/components/filters/filter-menu/TextFilterConditionsSelect';
 import TextFilterMenu from '@/components/database/components/filters/filter-menu/TextFilterMenu';
@@ -35,7 +35,7 @@ function RollupFilterMenu({ filter }: { filter: TextFilter | NumberFilter }) {
 }
 
 function RollupSelectOptionFilter({ filter, options }: { filter: TextFilter; options: SelectOption[] }) {
-  const updateFilter = useUpdateFilter();
+  const { updateFilter } = useFilterMenuActions();
   const readOnly = useReadOnly();
 
   const handleToggleOption = useCallback(
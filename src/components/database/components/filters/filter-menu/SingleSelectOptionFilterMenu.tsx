@@ -7,9 +7,9 @@ import {
   useFieldSelector,
   useReadOnly,
 } from '@/application/database-yjs';
-import { useUpdateFilter } from '@/application/database-yjs/dispatch';
 import ClearSelectionItem from '@/components/database/components/filters/filter-menu/ClearSelectionItem';
 import FieldMenuTitle from '@/components/database/components/filters/filter-menu/FieldMenuTitle';
+import { useFilterMenuActions } from '@/components/database/components/filters/filter-menu/FilterMenuActionsContext';
 import { SelectOptionList } from '@/components/database/components/filters/filter-menu/SelectOptionList';
 import SingleSelectFilterConditionsSelect from '@/components/database/components/filters/filter-menu/SingleSelectOptionFilterConditionsSelect';
 
@@ -22,7 +22,7 @@ function SingleSelectOptionFilterMenu({ filter }: { filter: SelectOptionFilter }
     );
   }, [filter.condition]);
 
-  const updateFilter = useUpdateFilter();
+  const { updateFilter } = useFilterMenuActions();
   const handleToggleSelectOption = useCallback(
     (id: string) => {
       if (readOnly) return;
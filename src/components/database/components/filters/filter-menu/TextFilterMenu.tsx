@@ -2,8 +2,8 @@ import React, { useMemo } from 'react';
 import { useTranslation } from 'react-i18next';
 
 import { TextFilter, TextFilterCondition, useReadOnly } from '@/application/database-yjs';
-import { useUpdateFilter } from '@/application/database-yjs/dispatch';
 import FieldMenuTitle from '@/components/database/components/filters/filter-menu/FieldMenuTitle';
+import { useFilterMenuActions } from '@/components/database/components/filters/filter-menu/FilterMenuActionsContext';
 import TextFilterConditionsSelect
   from '@/components/database/components/filters/filter-menu/TextFilterConditionsSelect';
 import { useDebouncedFilterInput } from '@/components/database/components/filters/hooks/useDebouncedFilterInput';
@@ -12,7 +12,7 @@ import { Input } from '@/components/ui/input';
 function TextFilterMenu ({ filter }: { filter: TextFilter }) {
   const { t } = useTranslation();
   const readOnly = useReadOnly();
-  const updateFilter = useUpdateFilter();
+  const { updateFilter } = useFilterMenuActions();
   const { value, updateValue } = useDebouncedFilterInput({
     content: filter.content,
     filterId: filter.id,
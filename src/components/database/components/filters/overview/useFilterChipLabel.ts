@@ -6,6 +6,7 @@ import {
   ChecklistFilterCondition,
   DateFilter,
   DateFilterCondition,
+  DEFAULT_RELATIVE_DATE_OFFSET,
   FieldType,
   Filter,
   NumberFilterCondition,
@@ -13,14 +14,17 @@ import {
   PersonFilter,
   PersonFilterCondition,
   RelationFilterCondition,
+  RelativeDateOffset,
+  RelativeDateUnit,
   SelectOptionFilter,
   SelectOptionFilterCondition,
   TextFilterCondition,
   toStartDateCondition,
   useFieldSelector,
 } from '@/application/database-yjs';
+import { getFilterFieldType } from '@/application/database-yjs/filter';
 import { isNumericRollupField } from '@/application/database-yjs/rollup/utils';
-import { DateFormat, YDatabaseField, YjsDatabaseKey } from '@/application/types';
+import { DateFormat, YDatabaseField } from '@/application/types';
 import { MetadataKey } from '@/application/user-metadata';
 import { useCurrentUser } from '@/components/main/app.hooks';
 import { getDateFormat } from '@/utils/time';
@@ -153,6 +157,26 @@ function selectChipLabel(filter: SelectOptionFilter, field: YDatabaseField, t: T
   };
 }
 
+export function relativeDateUnitLabel(unit: RelativeDateUnit, amount: number, t: Translate): string {
+  switch (unit) {
+    case 'week':
+      return t('relativeDates.unit.week', { count: amount, defaultValue: amount === 1 ? 'week' : 'weeks' });
+    case 'month':
+      return t('relativeDates.unit.month', { count: amount, defaultValue: amount === 1 ? 'month' : 'months' });
+    default:
+      return t('relativeDates.unit.day', { count: amount, defaultValue: amount === 1 ? 'day' : 'days' });
+  }
+}
+
+// "Within the next 14 days" / "Within the past 3 months".
+export function relativeDateOffsetLabel(isNext: boolean, offset: RelativeDateOffset, t: Translate): string {
+  const values = { amount: offset.amount, unit: relativeDateUnitLabel(offset.unit, offset.amount, t) };
+
+  return isNext
+    ? t('relativeDates.withinNextOffset', { ...values, defaultValue: 'Within the next {{amount}} {{unit}}' })
+    : t('relativeDates.withinPastOffset', { ...values, defaultValue: 'Within the past {{amount}} {{unit}}' });
+}
+
 function dateChipLabel(filter: DateFilter, dateFormat: string, t: Translate): FilterChipLabel {
   const base = toStartDateCondition(filter.condition);
   const format = (unix: number) => dayjs.unix(unix).format(dateFormat);
@@ -178,6 +202,23 @@ function dateChipLabel(filter: DateFilter, dateFormat: string, t: Translate): Fi
     case DateFilterCondition.DateStartsNextWeek:
       description = t('relativeDates.nextWeek');
       break;
+    case DateFilterCondition.DateStartsWithinNext:
+    case DateFilterCondition.DateStartsWithinPast:
+      description = relativeDateOffsetLabel(
+        base === DateFilterCondition.DateStartsWithinNext,
+        filter.offset ?? DEFAULT_RELATIVE_DATE_OFFSET,
+        t
+      );
+      break;
+    case DateFilterCondition.DateStartsThisQuarter:
+      description = t('relativeDates.thisQuarter', { defaultValue: 'This quarter' });
+      break;
+    case DateFilterCondition.DateStartsThisYear:
+      description = t('relativeDates.thisYear', { defaultValue: 'This year' });
+      break;
+    case DateFilterCondition.DateStartsOverdue:
+      description = t('relativeDates.overdue', { defaultValue: 'Overdue' });
+      break;
     case DateFilterCondition.DateStartIsEmpty:
       description = t('grid.dateFilter.choicechipPrefix.isEmpty');
       break;
@@ -323,7 +364,7 @@ function buildChipLabel(
 ): FilterChipLabel {
   if (!filter || !field) return { description: '', hasContent: false };
 
-  const fieldType = Number(field.get(YjsDatabaseKey.type)) as FieldType;
+  const fieldType = getFilterFieldType(field);
 
   switch (fieldType) {
     case FieldType.RichText:
@@ -0,0 +1,78 @@
+import { useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+
+import { FieldType, isAttributionFieldType, useDatabaseFields } from '@/application/database-yjs';
+import { useBulkUpdateCellDispatch } from '@/application/database-yjs/dispatch';
+import { ReactComponent as MoveToIcon } from '@/assets/icons/move_to.svg';
+import { getGridGroupCellsData } from '@/components/database/components/grid/grid-row/GridNewRow';
+import { useGridGrouping } from '@/components/database/grid/GridGroupingContext';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuGroup,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Log } from '@/utils/log';
+
+// Relation cells are Yjs arrays and time columns are read-only, so their
+// groups cannot be targeted by writing a plain cell value.
+const UNMOVABLE_GROUP_FIELD_TYPES = [FieldType.Relation, FieldType.CreatedTime, FieldType.LastEditedTime];
+
+/**
+ * Moves every selected row into one group by writing that group's value to
+ * the grouping field. A multi-select row ends up in the target group only.
+ */
+function BulkMoveToGroupMenu({ rowIds }: { rowIds: string[] }) {
+  const { t } = useTranslation();
+  const grouping = useGridGrouping();
+  const fields = useDatabaseFields();
+  const groupFieldId = grouping.fieldId;
+  const bulkUpdateCell = useBulkUpdateCellDispatch(groupFieldId ?? '');
+
+  const targets = useMemo(() => {
+    const fieldType = grouping.fieldType;
+
+    if (!groupFieldId || fieldType === undefined) return [];
+    if (isAttributionFieldType(fieldType) || UNMOVABLE_GROUP_FIELD_TYPES.includes(fieldType)) return [];
+
+    return grouping.groups.flatMap((group) => {
+      const data = getGridGroupCellsData(fields, groupFieldId, group.id)?.[groupFieldId];
+
+      return data === undefined ? [] : [{ id: group.id, label: group.label, data }];
+    });
+  }, [fields, groupFieldId, grouping.fieldType, grouping.groups]);
+
+  if (!grouping.isGrouped || targets.length === 0) return null;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button data-testid='bulk-move-to-group-button' size='sm' variant='ghost'>
+          <MoveToIcon className='h-5 w-5' />
+          {t('grid.row.bulkMoveToGroup', { defaultValue: 'Move to group' })}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className='max-h-[320px] overflow-y-auto' side='top'>
+        <DropdownMenuGroup>
+          {targets.map((target) => (
+            <DropdownMenuItem
+              data-testid={`bulk-move-to-group-${target.id}`}
+              key={target.id}
+              onSelect={() => {
+                void bulkUpdateCell(rowIds, target.data).catch((e) => {
+                  Log.error('[BulkMoveToGroupMenu] move rows failed', e);
+                });
+              }}
+            >
+              <span className='truncate'>{target.label}</span>
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+export default BulkMoveToGroupMenu;
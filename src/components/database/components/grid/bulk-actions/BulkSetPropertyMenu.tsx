@@ -0,0 +1,187 @@
+import { useCallback, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+
+import { FieldType, useFieldSelector } from '@/application/database-yjs';
+import { useBulkUpdateCellDispatch } from '@/application/database-yjs/dispatch';
+import EnhancedBigStats from '@/application/database-yjs/fields/number/EnhancedBigStats';
+import { YjsDatabaseKey } from '@/application/types';
+import { ReactComponent as CheckboxCheckSvg } from '@/assets/icons/check_filled.svg';
+import { ReactComponent as EditIcon } from '@/assets/icons/edit.svg';
+import { ReactComponent as CheckboxUncheckSvg } from '@/assets/icons/uncheck.svg';
+import PropertiesMenu from '@/components/database/components/conditions/PropertiesMenu';
+import { SelectOptionList } from '@/components/database/components/filters/filter-menu/SelectOptionList';
+import { Button } from '@/components/ui/button';
+import { dropdownMenuItemVariants } from '@/components/ui/dropdown-menu';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverAnchor, PopoverContent } from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+import { Log } from '@/utils/log';
+
+/** Field types whose value can be typed or picked once and written to every selected row. */
+export const BULK_EDITABLE_FIELD_TYPES = [
+  FieldType.RichText,
+  FieldType.Number,
+  FieldType.URL,
+  FieldType.Checkbox,
+  FieldType.SingleSelect,
+  FieldType.MultiSelect,
+];
+
+function BulkTextValueEditor({ fieldType, onApply }: { fieldType: FieldType; onApply: (data: string) => void }) {
+  const { t } = useTranslation();
+  const [value, setValue] = useState('');
+
+  const apply = () => {
+    onApply(fieldType === FieldType.Number ? EnhancedBigStats.parse(value) || '' : value);
+  };
+
+  return (
+    <div className='flex items-center gap-2'>
+      <Input
+        autoFocus
+        data-testid='bulk-set-property-input'
+        inputMode={fieldType === FieldType.Number ? 'decimal' : undefined}
+        onChange={(e) => setValue(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault();
+            apply();
+          }
+        }}
+        placeholder={t('grid.row.bulkValuePlaceholder', { defaultValue: 'Value for every selected row' })}
+        size='sm'
+        value={value}
+      />
+      <Button data-testid='bulk-set-property-apply' onClick={apply} size='sm'>
+        {t('button.apply')}
+      </Button>
+    </div>
+  );
+}
+
+function BulkSelectValueEditor({
+  fieldId,
+  multiple,
+  onApply,
+}: {
+  fieldId: string;
+  multiple: boolean;
+  onApply: (data: string) => void;
+}) {
+  const { t } = useTranslation();
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const handleSelect = (optionId: string) => {
+    if (!multiple) {
+      onApply(optionId);
+      return;
+    }
+
+    setSelectedIds((prev) => (prev.includes(optionId) ? prev.filter((id) => id !== optionId) : [...prev, optionId]));
+  };
+
+  return (
+    <div className='flex flex-col gap-1'>
+      <SelectOptionList fieldId={fieldId} onSelect={handleSelect} selectedIds={selectedIds} />
+      <div className='flex items-center justify-between gap-2 pt-1'>
+        <Button data-testid='bulk-set-property-clear' onClick={() => onApply('')} size='sm' variant='ghost'>
+          {t('grid.row.bulkClearValue', { defaultValue: 'Clear value' })}
+        </Button>
+        {multiple && (
+          <Button data-testid='bulk-set-property-apply' onClick={() => onApply(selectedIds.join(','))} size='sm'>
+            {t('button.apply')}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function BulkCheckboxValueEditor({ onApply }: { onApply: (data: string) => void }) {
+  const { t } = useTranslation();
+  const items = [
+    { data: 'Yes', icon: CheckboxCheckSvg, label: t('grid.checkboxFilter.isChecked') },
+    { data: 'No', icon: CheckboxUncheckSvg, label: t('grid.checkboxFilter.isUnchecked') },
+  ];
+
+  return (
+    <div className='flex flex-col'>
+      {items.map((item) => (
+        <div
+          className={cn(dropdownMenuItemVariants({ variant: 'default' }))}
+          data-testid={`bulk-set-checkbox-${item.data}`}
+          key={item.data}
+          onClick={() => onApply(item.data)}
+        >
+          <item.icon className='h-5 w-5' />
+          {item.label}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function BulkValueEditor({ fieldId, onApply }: { fieldId: string; onApply: (data: string) => void }) {
+  const { field } = useFieldSelector(fieldId);
+  const fieldType = Number(field?.get(YjsDatabaseKey.type)) as FieldType;
+
+  switch (fieldType) {
+    case FieldType.Checkbox:
+      return <BulkCheckboxValueEditor onApply={onApply} />;
+    case FieldType.SingleSelect:
+    case FieldType.MultiSelect:
+      return (
+        <BulkSelectValueEditor fieldId={fieldId} multiple={fieldType === FieldType.MultiSelect} onApply={onApply} />
+      );
+    default:
+      return <BulkTextValueEditor fieldType={fieldType} onApply={onApply} />;
+  }
+}
+
+/**
+ * "Set property": pick a field, then a value that is written to that field
+ * of every selected row at once.
+ */
+function BulkSetPropertyMenu({ rowIds }: { rowIds: string[] }) {
+  const { t } = useTranslation();
+  const [pickerOpen, setPickerOpen] = useState(false);
+  const [fieldId, setFieldId] = useState<string | undefined>();
+  const bulkUpdateCell = useBulkUpdateCellDispatch(fieldId ?? '');
+
+  const handleApply = useCallback(
+    (data: string) => {
+      setFieldId(undefined);
+      void bulkUpdateCell(rowIds, data).catch((e) => {
+        Log.error('[BulkSetPropertyMenu] bulk update failed', e);
+      });
+    },
+    [bulkUpdateCell, rowIds]
+  );
+
+  return (
+    <Popover open={!!fieldId} onOpenChange={(open) => !open && setFieldId(undefined)}>
+      <PopoverAnchor asChild>
+        <span className='flex'>
+          <PropertiesMenu
+            asChild
+            onOpenChange={setPickerOpen}
+            onSelect={setFieldId}
+            open={pickerOpen}
+            propertyFilter={(property) => BULK_EDITABLE_FIELD_TYPES.includes(property.type)}
+            searchPlaceholder={t('grid.row.bulkSetPropertySearch', { defaultValue: 'Set property…' })}
+          >
+            <Button data-testid='bulk-set-property-button' size='sm' variant='ghost'>
+              <EditIcon className='h-5 w-5' />
+              {t('grid.row.bulkSetProperty', { defaultValue: 'Set property' })}
+            </Button>
+          </PropertiesMenu>
+        </span>
+      </PopoverAnchor>
+      <PopoverContent className='w-[280px] p-2' data-testid='bulk-set-property-value' side='top'>
+        {fieldId && <BulkValueEditor fieldId={fieldId} onApply={handleApply} />}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+export default BulkSetPropertyMenu;
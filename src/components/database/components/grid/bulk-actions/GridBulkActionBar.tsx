@@ -0,0 +1,115 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+
+import { useReadOnly } from '@/application/database-yjs';
+import { useBulkDuplicateRowsDispatch } from '@/application/database-yjs/dispatch';
+import { ReactComponent as CloseIcon } from '@/assets/icons/close.svg';
+import { ReactComponent as DeleteIcon } from '@/assets/icons/delete.svg';
+import { ReactComponent as DuplicateIcon } from '@/assets/icons/duplicate.svg';
+import DeleteRowConfirm from '@/components/database/components/database-row/DeleteRowConfirm';
+import { RenderRowType } from '@/components/database/components/grid/grid-row/useRenderRows';
+import {
+  useGridContext,
+  useGridSelectedRowIds,
+  useGridSelectionActions,
+} from '@/components/database/grid/useGridContext';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Separator } from '@/components/ui/separator';
+
+import BulkMoveToGroupMenu from './BulkMoveToGroupMenu';
+import BulkSetPropertyMenu from './BulkSetPropertyMenu';
+
+/**
+ * Floating bar shown while rows are checked in the grid. Every action applies
+ * to the whole selection.
+ */
+export function GridBulkActionBar() {
+  const { t } = useTranslation();
+  const readOnly = useReadOnly();
+  const { rows } = useGridContext();
+  const selectedRowIds = useGridSelectedRowIds();
+  const { setSelectedRowIds } = useGridSelectionActions();
+  const duplicateRows = useBulkDuplicateRowsDispatch();
+  const [duplicateLoading, setDuplicateLoading] = useState(false);
+  const [openDeleteConfirm, setOpenDeleteConfirm] = useState(false);
+
+  // Rows that were deleted or filtered out drop out of the selection.
+  const rowIds = useMemo(() => {
+    const renderedRowIds = new Set(
+      rows.filter((row) => row.type === RenderRowType.Row && row.rowId).map((row) => row.rowId as string)
+    );
+
+    return selectedRowIds.filter((rowId) => renderedRowIds.has(rowId));
+  }, [rows, selectedRowIds]);
+
+  useEffect(() => {
+    if (rowIds.length !== selectedRowIds.length) setSelectedRowIds(rowIds);
+  }, [rowIds, selectedRowIds.length, setSelectedRowIds]);
+
+  if (readOnly || rowIds.length === 0) return null;
+
+  const handleDuplicate = async () => {
+    setDuplicateLoading(true);
+
+    try {
+      await duplicateRows(rowIds);
+    } finally {
+      setDuplicateLoading(false);
+    }
+  };
+
+  return (
+    <>
+      <div
+        className='absolute bottom-4 left-1/2 z-[2] flex -translate-x-1/2 items-center gap-1 rounded-400 border border-border-primary bg-surface-primary px-2 py-1 shadow-menu'
+        data-testid='grid-bulk-action-bar'
+      >
+        <span className='whitespace-nowrap px-2 text-sm text-text-secondary' data-testid='grid-bulk-selected-count'>
+          {t('grid.row.selectedCount', { count: rowIds.length, defaultValue: '{{count}} selected' })}
+        </span>
+        <Separator className='h-5' orientation='vertical' />
+        <BulkSetPropertyMenu rowIds={rowIds} />
+        <BulkMoveToGroupMenu rowIds={rowIds} />
+        <Button
+          data-testid='bulk-duplicate-button'
+          disabled={duplicateLoading}
+          onClick={() => void handleDuplicate()}
+          size='sm'
+          variant='ghost'
+        >
+          {duplicateLoading ? <Progress variant='primary' /> : <DuplicateIcon className='h-5 w-5' />}
+          {t('grid.row.duplicate')}
+        </Button>
+        <Button
+          danger
+          data-testid='bulk-delete-button'
+          onClick={() => setOpenDeleteConfirm(true)}
+          size='sm'
+          variant='ghost'
+        >
+          <DeleteIcon className='h-5 w-5' />
+          {t('grid.row.delete')}
+        </Button>
+        <Separator className='h-5' orientation='vertical' />
+        <Button
+          aria-label={t('grid.row.clearSelection', { defaultValue: 'Clear selection' })}
+          data-testid='bulk-clear-selection-button'
+          onClick={() => setSelectedRowIds([])}
+          size='icon-sm'
+          variant='ghost'
+        >
+          <CloseIcon className='h-5 w-5' />
+        </Button>
+      </div>
+      <DeleteRowConfirm
+        onClose={() => setOpenDeleteConfirm(false)}
+        onDeleted={() => setSelectedRowIds([])}
+        open={openDeleteConfirm}
+        rowIds={rowIds}
+      />
+    </>
+  );
+}
+
+export default GridBulkActionBar;
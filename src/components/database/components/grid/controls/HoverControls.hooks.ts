@@ -3,9 +3,16 @@ import { useCallback, useEffect, useRef, useState } from 'react';
 import { useDatabaseFields } from '@/application/database-yjs';
 import { useDuplicateRowDispatch, useNewRowDispatch } from '@/application/database-yjs/dispatch';
 import { getGridGroupCellsData } from '@/components/database/components/grid/grid-row/GridNewRow';
-import { useGridContext, useIsGridRowHovered } from '@/components/database/grid/useGridContext';
-
-export function useHoverControlsDisplay(rowKey: string) {
+import { RenderRowType } from '@/components/database/components/grid/grid-row/useRenderRows';
+import {
+  useGridContext,
+  useGridSelectionActions,
+  useIsGridRowHovered,
+  useIsGridRowSelected,
+} from '@/components/database/grid/useGridContext';
+
+/** Keeps the controls visible while the row is hovered or selected. */
+export function useHoverControlsDisplay(rowKey: string, selected = false) {
   const ref = useRef<HTMLDivElement>(null);
   const isHover = useIsGridRowHovered(rowKey);
 
@@ -32,12 +39,12 @@ export function useHoverControlsDisplay(rowKey: string) {
   }, []);
 
   useEffect(() => {
-    if (isHover) {
+    if (isHover || selected) {
       handleMouseMove();
     } else {
       handleMouseLeave();
     }
-  }, [handleMouseLeave, handleMouseMove, isHover]);
+  }, [handleMouseLeave, handleMouseMove, isHover, selected]);
 
   return {
     ref,
@@ -113,3 +120,43 @@ export function useHoverControlsActions(rowId: string, groupFieldId?: string, gr
     duplicateLoading,
   };
 }
+
+/**
+ * Checkbox state of a row for bulk actions. Shift-click selects every rendered
+ * row between the last selected row and this one.
+ */
+export function useGridRowSelection(rowId: string) {
+  const { rows } = useGridContext();
+  const selected = useIsGridRowSelected(rowId);
+  const { getSelectedRowIds, setSelectedRowIds } = useGridSelectionActions();
+
+  const toggleSelected = useCallback(
+    (extendRange = false) => {
+      const current = getSelectedRowIds();
+      const anchorId = current[current.length - 1];
+
+      if (extendRange && anchorId && anchorId !== rowId) {
+        const renderedRowIds = rows
+          .filter((row) => row.type === RenderRowType.Row && row.rowId)
+          .map((row) => row.rowId as string);
+        const anchorIndex = renderedRowIds.indexOf(anchorId);
+        const index = renderedRowIds.indexOf(rowId);
+
+        if (anchorIndex !== -1 && index !== -1) {
+          const range =
+            anchorIndex < index
+              ? renderedRowIds.slice(anchorIndex + 1, index + 1)
+              : renderedRowIds.slice(index, anchorIndex).reverse();
+
+          setSelectedRowIds([...current.filter((id) => !range.includes(id)), ...range]);
+          return;
+        }
+      }
+
+      setSelectedRowIds(current.includes(rowId) ? current.filter((id) => id !== rowId) : [...current, rowId]);
+    },
+    [getSelectedRowIds, rowId, rows, setSelectedRowIds]
+  );
+
+  return { selected, toggleSelected };
+}
@@ -2,9 +2,12 @@ import { useCallback, useRef, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 
 import { useSortsSelector } from '@/application/database-yjs';
+import { ReactComponent as CheckboxCheckSvg } from '@/assets/icons/check_filled.svg';
 import { ReactComponent as DragIcon } from '@/assets/icons/drag.svg';
 import { ReactComponent as AddIcon } from '@/assets/icons/plus.svg';
+import { ReactComponent as CheckboxUncheckSvg } from '@/assets/icons/uncheck.svg';
 import {
+  useGridRowSelection,
   useHoverControlsActions,
   useHoverControlsDisplay,
 } from '@/components/database/components/grid/controls/HoverControls.hooks';
@@ -34,7 +37,8 @@ export function HoverControls({
   dragHandleRef?: (node: HTMLDivElement | null) => void;
   state: ItemState;
 }) {
-  const { ref } = useHoverControlsDisplay(rowKey);
+  const { selected, toggleSelected } = useGridRowSelection(rowId);
+  const { ref } = useHoverControlsDisplay(rowKey, selected);
 
   const { onAddRowBelow, onAddRowAbove, addAboveLoading, addBelowLoading } = useHoverControlsActions(
     rowId,
@@ -76,6 +80,30 @@ export function HoverControls({
           'relative left-0 flex w-full items-start justify-end border border-transparent py-1.5 focus-within:!pointer-events-auto focus-within:!opacity-100'
         }
       >
+        <Tooltip disableHoverableContent>
+          <TooltipTrigger asChild>
+            <Button
+              aria-checked={selected}
+              aria-label={t('grid.row.selectRow', { defaultValue: 'Select row' })}
+              data-testid='row-select-checkbox'
+              role='checkbox'
+              tabIndex={-1}
+              variant={'ghost'}
+              size={'icon-sm'}
+              className={selected ? 'text-fill-theme-thick' : 'text-icon-secondary'}
+              onClick={(e) => {
+                e.stopPropagation();
+                toggleSelected(e.shiftKey);
+              }}
+            >
+              {selected ? <CheckboxCheckSvg className={'h-5 w-5'} /> : <CheckboxUncheckSvg className={'h-5 w-5'} />}
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent>
+            {t('grid.row.selectRow', { defaultValue: 'Select row' })}
+            <TooltipShortcut>{t('grid.row.selectRangeTooltip', { defaultValue: 'Shift-click to select a range' })}</TooltipShortcut>
+          </TooltipContent>
+        </Tooltip>
         <Tooltip disableHoverableContent>
           <TooltipTrigger asChild>
             <Button
@@ -6,8 +6,9 @@ import type { DatabaseContextState, GridGrouping } from '@/application/database-
 import { YjsDatabaseKey, YjsEditorKey } from '@/application/types';
 import type { YDatabase, YDatabaseField, YDatabaseFields, YDoc } from '@/application/types';
 import { GridProvider } from '@/components/database/grid/GridProvider';
+import { useGridSelectedRowIds } from '@/components/database/grid/useGridContext';
 
-import { useHoverControlsActions } from '../HoverControls.hooks';
+import { useGridRowSelection, useHoverControlsActions } from '../HoverControls.hooks';
 
 import type { ReactNode } from 'react';
 
@@ -19,7 +20,7 @@ jest.mock('@/application/database-yjs/dispatch', () => ({
   useNewRowDispatch: () => newRow,
 }));
 
-function createWrapper() {
+function createWrapper(groupingOverrides?: Partial<GridGrouping>) {
   const databaseDoc = new Y.Doc({ guid: 'database-id' }) as YDoc;
   const database = new Y.Map() as YDatabase;
   const fields = new Y.Map<YDatabaseField>() as YDatabaseFields;
@@ -55,6 +56,7 @@ function createWrapper() {
       { height: 36, id: 'row-b' },
     ],
     visibleGroups: [],
+    ...groupingOverrides,
   };
 
   return function Wrapper({ children }: { children: ReactNode }) {
@@ -101,3 +103,36 @@ describe('useHoverControlsActions in a grouped Grid', () => {
     expect(newRow).toHaveBeenCalledWith({ beforeRowId: 'row-b', cellsData: { status: '' } });
   });
 });
+
+describe('useGridRowSelection', () => {
+  it('toggles rows and shift-selects the rendered range from the last selected row', () => {
+    const { result } = renderHook(
+      () => ({
+        first: useGridRowSelection('row-a'),
+        last: useGridRowSelection('row-c'),
+        selectedRowIds: useGridSelectedRowIds(),
+      }),
+      {
+        wrapper: createWrapper({
+          isGrouped: false,
+          rowOrders: [
+            { height: 36, id: 'row-a' },
+            { height: 36, id: 'row-b' },
+            { height: 36, id: 'row-c' },
+          ],
+        }),
+      }
+    );
+
+    act(() => result.current.first.toggleSelected());
+    act(() => result.current.last.toggleSelected(true));
+
+    expect(result.current.selectedRowIds).toEqual(['row-a', 'row-b', 'row-c']);
+    expect(result.current.last.selected).toBe(true);
+
+    act(() => result.current.first.toggleSelected());
+
+    expect(result.current.selectedRowIds).toEqual(['row-b', 'row-c']);
+    expect(result.current.first.selected).toBe(false);
+  });
+});
@@ -19,6 +19,7 @@ jest.mock('react-i18next', () => ({
 }));
 
 jest.mock('../HoverControls.hooks', () => ({
+  useGridRowSelection: () => ({ selected: false, toggleSelected: jest.fn() }),
   useHoverControlsActions: () => ({
     addAboveLoading: false,
     addBelowLoading: false,
@@ -1,7 +1,13 @@
 import { useCallback, useMemo } from 'react';
 import { useTranslation } from 'react-i18next';
 
-import { CalculationType, FieldType, useFieldType } from '@/application/database-yjs';
+import {
+  CalculationType,
+  FieldType,
+  isNumericFormulaField,
+  useFieldSelector,
+  useFieldType,
+} from '@/application/database-yjs';
 import { ICalculationCell } from '@/components/database/components/grid/grid-calculation-cell/CalculationCell';
 import {
   DropdownMenu,
@@ -19,7 +25,9 @@ function CalcationMenu ({ calculation, fieldId, open, onOpenChange, onClear, onC
   onChangeType: (type: CalculationType) => void;
 }) {
   const fieldType = useFieldType(fieldId);
+  const { field } = useFieldSelector(fieldId);
   const { t } = useTranslation();
+  const isNumericFormula = fieldType === FieldType.Formula && isNumericFormulaField(field);
 
   const isCheckbox = fieldType === FieldType.Checkbox;
   const isChecklist = fieldType === FieldType.Checklist;
@@ -84,6 +92,10 @@ function CalcationMenu ({ calculation, fieldId, open, onOpenChange, onClear, onC
       switch (fieldType) {
         case FieldType.Number:
           return true;
+        case FieldType.Formula:
+          return isNumericFormula || [CalculationType.Count,
+            CalculationType.CountEmpty,
+            CalculationType.CountNonEmpty].includes(c);
         default:
           return [CalculationType.Count,
             CalculationType.CountEmpty,
@@ -95,7 +107,7 @@ function CalcationMenu ({ calculation, fieldId, open, onOpenChange, onClear, onC
       value: c,
       label: getLabel(c),
     }));
-  }, [fieldType, getLabel]);
+  }, [fieldType, getLabel, isNumericFormula]);
 
   return (
     <DropdownMenu
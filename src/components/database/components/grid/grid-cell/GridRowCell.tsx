@@ -6,6 +6,7 @@ import { useFieldSelector } from '@/application/database-yjs/selector';
 import { FieldId, YjsDatabaseKey } from '@/application/types';
 import { Cell } from '@/components/database/components/cell';
 import { PrimaryCell } from '@/components/database/components/cell/primary';
+import { getConditionalFormatColorStyle } from '@/components/database/components/conditional-format/conditional-format.utils';
 import { useGridRowContext } from '@/components/database/components/grid/grid-row/GridRowContext';
 import { useGridInteractionActions, useIsGridCellActive } from '@/components/database/grid/useGridContext';
 import { isFieldEditingDisabled } from '@/components/database/utils/field-editing';
@@ -33,7 +34,8 @@ export function GridRowCell({ rowId, rowKey, fieldId }: GridCellProps) {
     fieldId,
   });
 
-  const { resizeRow } = useGridRowContext();
+  const { resizeRow, conditionalFormat } = useGridRowContext();
+  const conditionalFormatStyle = getConditionalFormatColorStyle(conditionalFormat?.cellColors[fieldId]);
   const { setActiveCell } = useGridInteractionActions();
 
   const [hovered, setHovered] = useState(false);
@@ -139,6 +141,7 @@ export function GridRowCell({ rowId, rowKey, fieldId }: GridCellProps) {
       ref={ref}
       data-testid={`grid-cell-${rowId}-${fieldId}`}
       className={cn('grid-cell flex h-full w-full items-start overflow-hidden px-2 text-sm', paddingVertical)}
+      style={conditionalFormatStyle}
     >
       <Component
         cell={cell}
@@ -3,6 +3,7 @@ import { memo, useMemo } from 'react';
 
 import { FieldType, useFieldSelector, useReadOnly } from '@/application/database-yjs';
 import { YjsDatabaseKey } from '@/application/types';
+import { useCellPresence } from '@/components/app/app.hooks';
 import OpenAction from '@/components/database/components/database-row/OpenAction';
 import GridCell from '@/components/database/components/grid/grid-cell/GridCell';
 import { GridColumnType, RenderColumn } from '@/components/database/components/grid/grid-column/useRenderFields';
@@ -52,6 +53,11 @@ function GridVirtualColumn({
   const hovered = useIsGridRowHovered(rowKey, Boolean(columnData.isPrimary));
   const isActiveCell = !notNeedSelected && active && fieldType !== undefined && columnData.fieldId !== undefined;
   const isHoverRow = hovered && !isActiveCell;
+  const remoteUsers = useCellPresence(
+    rowData.type === RenderRowType.Row ? rowData.rowId : undefined,
+    columnData.type === GridColumnType.Field ? columnData.fieldId : undefined
+  );
+  const remoteUser = remoteUsers[0];
 
   const showActions = Boolean(isHoverRow && columnData.isPrimary && rowData.rowId);
   const rowType = rowData.type;
@@ -111,6 +117,22 @@ function GridVirtualColumn({
           <OpenAction rowId={rowData.rowId!} />
         </div>
       )}
+      {remoteUser && !isActiveCell && (
+        <div
+          data-testid='grid-cell-remote-selection'
+          style={{ boxShadow: `${remoteUser.color} 0px 0px 0px 2px inset` }}
+          className={
+            'pointer-events-none absolute bottom-[-1px] left-0 top-[-0.5px] z-10 w-[calc(100%+1px)] rounded-[2px]'
+          }
+        >
+          <span
+            style={{ backgroundColor: remoteUser.color }}
+            className={'absolute right-0 top-0 max-w-full truncate rounded-bl-[4px] px-1 text-xs leading-4 text-white'}
+          >
+            {remoteUsers.map((user) => user.name).join(', ')}
+          </span>
+        </div>
+      )}
       {isActiveCell && (
         <div
           style={{
@@ -1,8 +1,11 @@
 import { createContext, useContext } from 'react';
 
+import type { ConditionalFormatStyle } from '@/application/database-yjs';
+
 type GridRowContextType = {
   isSticky?: boolean;
   resizeRow: () => void;
+  conditionalFormat?: ConditionalFormatStyle;
 };
 
 export const GridRowContext = createContext<GridRowContextType | undefined>(undefined);
@@ -5,8 +5,9 @@ import { VirtualItem } from '@tanstack/react-virtual';
 import { uniqBy } from 'lodash-es';
 import { memo, useCallback, useEffect, useMemo, useRef, useState } from 'react';
 
-import { useReadOnly, useRowData, useSortsSelector } from '@/application/database-yjs';
+import { useReadOnly, useRowConditionalFormat, useRowData, useSortsSelector } from '@/application/database-yjs';
 import { YjsDatabaseKey } from '@/application/types';
+import { getConditionalFormatColorStyle } from '@/components/database/components/conditional-format/conditional-format.utils';
 import { DropRowIndicator } from '@/components/database/components/drag-and-drop/DropRowIndicator';
 import { HoverControls } from '@/components/database/components/grid/controls/HoverControls';
 import {
@@ -24,6 +25,7 @@ import {
   useGridContext,
   useGridInteractionActions,
   useIsGridRowActive,
+  useIsGridRowSelected,
 } from '@/components/database/grid/useGridContext';
 import { cn } from '@/lib/utils';
 
@@ -55,6 +57,7 @@ function GridVirtualRow({
   const { isGrouped, rowResizeStore } = useGridContext();
   const { setHoverRowKey } = useGridInteractionActions();
   const hasActiveCell = useIsGridRowActive(rowKey);
+  const isSelected = useIsGridRowSelected(rowId);
   const databaseRow = useRowData(rowId);
   const cells = databaseRow?.get(YjsDatabaseKey.cells);
   const cellsCount = cells?.size;
@@ -75,6 +78,7 @@ function GridVirtualRow({
   );
 
   const isRegularRow = rowType === RenderRowType.Row;
+  const conditionalFormat = useRowConditionalFormat(isRegularRow ? rowId : undefined);
 
   useEffect(() => {
     const element = innerRef.current;
@@ -203,6 +207,7 @@ function GridVirtualRow({
       value={{
         isSticky,
         resizeRow: onResize,
+        conditionalFormat,
       }}
     >
       <div
@@ -232,8 +237,10 @@ function GridVirtualRow({
           data-row-key={rowKey}
           className={cn(
             'grid-table-row-content relative flex min-h-[36px]',
-            state.type === GridDragState.DRAGGING && 'opacity-40'
+            state.type === GridDragState.DRAGGING && 'opacity-40',
+            isSelected && isRegularRow && 'bg-fill-theme-select'
           )}
+          style={getConditionalFormatColorStyle(conditionalFormat.rowColor)}
         >
           {children}
           {state.type === GridDragState.IS_OVER && isRegularRow && state.closestEdge && (
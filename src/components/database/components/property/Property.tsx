@@ -9,11 +9,13 @@ import { AttributionCell } from '@/components/database/components/cell/attributi
 import { RowCreateModifiedTime } from '@/components/database/components/cell/created-modified';
 import { DateTimeCell } from '@/components/database/components/cell/date';
 import { FileMediaCell } from '@/components/database/components/cell/file-media';
+import { FormulaCell } from '@/components/database/components/cell/formula';
 import { NumberCell } from '@/components/database/components/cell/number';
 import { RelationCell } from '@/components/database/components/cell/relation';
 import { RollupCell } from '@/components/database/components/cell/rollup';
 import { SelectOptionCell } from '@/components/database/components/cell/select-option';
 import { TextCell } from '@/components/database/components/cell/text';
+import { UniqueIdCell } from '@/components/database/components/cell/unique-id';
 import PropertyWrapper from '@/components/database/components/property/PropertyWrapper';
 import { TextProperty } from '@/components/database/components/property/text';
 
@@ -31,8 +33,8 @@ export function Property ({ fieldId, rowId }: { fieldId: string; rowId: string }
   const { field } = useFieldSelector(fieldId);
   const fieldType = Number(field?.get(YjsDatabaseKey.type)) as FieldType;
   const readOnly = useReadOnly();
-  const isRollup = fieldType === FieldType.Rollup;
-  const isReadOnlyCell = readOnly || isRollup;
+  const isComputed = [FieldType.Rollup, FieldType.Formula, FieldType.UniqueId].includes(fieldType);
+  const isReadOnlyCell = readOnly || isComputed;
 
   const { t } = useTranslation();
   const Component = useMemo(() => {
@@ -61,6 +63,10 @@ export function Property ({ fieldId, rowId }: { fieldId: string; rowId: string }
         return PersonCell;
       case FieldType.Rollup:
         return RollupCell;
+      case FieldType.Formula:
+        return FormulaCell;
+      case FieldType.UniqueId:
+        return UniqueIdCell;
       default:
         return TextProperty;
     }
@@ -94,7 +100,7 @@ export function Property ({ fieldId, rowId }: { fieldId: string; rowId: string }
       <Component
         wrap
         cell={cell}
-        placeholder={isRollup ? '' : t('grid.row.textPlaceholder')}
+        placeholder={isComputed ? '' : t('grid.row.textPlaceholder')}
         fieldId={fieldId}
         rowId={rowId}
         readOnly={isReadOnlyCell}
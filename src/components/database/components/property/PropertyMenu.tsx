@@ -18,6 +18,7 @@ import { ReactComponent as HideIcon } from '@/assets/icons/hide.svg';
 import { ReactComponent as ShowIcon } from '@/assets/icons/show.svg';
 import DataTimePropertyMenuContent from '@/components/database/components/property/date/DataTimePropertyMenuContent';
 import DeletePropertyConfirm from '@/components/database/components/property/DeletePropertyConfirm';
+import FormulaPropertyMenuContent from '@/components/database/components/property/formula/FormulaPropertyMenuContent';
 import FileMediaPropertyMenuContent from '@/components/database/components/property/media/FileMediaPropertyMenuContent';
 import NumberPropertyMenuContent from '@/components/database/components/property/number/NumberPropertyMenuContent';
 import PropertyProfile from '@/components/database/components/property/PropertyProfile';
@@ -29,6 +30,7 @@ import RelationPropertyMenuContent from '@/components/database/components/proper
 import RollupPropertyMenuContent from '@/components/database/components/property/rollup/RollupPropertyMenuContent';
 import SelectPropertyMenuContent from '@/components/database/components/property/select/SelectPropertyMenuContent';
 import TranslatePropertyMenuContext from '@/components/database/components/property/translate/TranslatePropertyMenuContext';
+import UniqueIdPropertyMenuContent from '@/components/database/components/property/unique-id/UniqueIdPropertyMenuContent';
 import { isFieldEditingDisabled } from '@/components/database/utils/field-editing';
 import {
   DropdownMenu,
@@ -153,6 +155,10 @@ function PropertyMenu({
         return <TranslatePropertyMenuContext {...props} />;
       case FieldType.Rollup:
         return <RollupPropertyMenuContent {...props} />;
+      case FieldType.Formula:
+        return <FormulaPropertyMenuContent {...props} />;
+      case FieldType.UniqueId:
+        return <UniqueIdPropertyMenuContent {...props} />;
       default:
         return null;
     }
@@ -34,6 +34,8 @@ const properties = [
   FieldType.LastEditedBy,
   FieldType.Relation,
   FieldType.Rollup,
+  FieldType.Formula,
+  FieldType.UniqueId,
   FieldType.Summary,
   FieldType.Translate,
   FieldType.Person,
@@ -91,6 +93,12 @@ export function PropertySelectTrigger({
       [FieldType.LastEditedBy]: t('tooltip.lastEditedByField'),
       [FieldType.Relation]: t('tooltip.relationField'),
       [FieldType.Rollup]: t('tooltip.rollupField', { defaultValue: 'Rollup' }),
+      [FieldType.Formula]: t('tooltip.formulaField', {
+        defaultValue: 'Calculate a value from other properties in the same row',
+      }),
+      [FieldType.UniqueId]: t('tooltip.uniqueIdField', {
+        defaultValue: 'Number every row automatically, with an optional prefix like BUG-142',
+      }),
       [FieldType.Summary]: t('tooltip.AISummaryField'),
       [FieldType.Translate]: t('tooltip.AITranslateField'),
       [FieldType.Media]: t('tooltip.mediaField'),
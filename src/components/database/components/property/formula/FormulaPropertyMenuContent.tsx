@@ -0,0 +1,147 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+
+import {
+  FieldVisibility,
+  FORMULA_FUNCTION_NAMES,
+  FormulaError,
+  parseFormula,
+  parseFormulaTypeOption,
+  useFieldSelector,
+  useFieldsSelector,
+} from '@/application/database-yjs';
+import { useUpdateFormulaTypeOption } from '@/application/database-yjs/dispatch';
+import FieldCustomIcon from '@/components/database/components/field/FieldCustomIcon';
+import {
+  DropdownMenuGroup,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuPortal,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+} from '@/components/ui/dropdown-menu';
+import { TextareaAutosize } from '@/components/ui/textarea-autosize';
+import { createHotkey, HOT_KEY_NAME } from '@/utils/hotkeys';
+
+const allVisibilities = [FieldVisibility.AlwaysShown, FieldVisibility.HideWhenEmpty, FieldVisibility.AlwaysHidden];
+
+function getSyntaxError(expression: string) {
+  if (!expression.trim()) return null;
+
+  try {
+    parseFormula(expression);
+    return null;
+  } catch (error) {
+    if (error instanceof FormulaError) return error.message;
+    throw error;
+  }
+}
+
+function FormulaPropertyMenuContent({ fieldId }: { fieldId: string }) {
+  const { t } = useTranslation();
+  const { field, clock } = useFieldSelector(fieldId);
+  const fields = useFieldsSelector(allVisibilities);
+  const updateFormula = useUpdateFormulaTypeOption(fieldId);
+  const savedExpression = useMemo(() => {
+    return field ? parseFormulaTypeOption(field).expression : '';
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [field, clock]);
+  const [expression, setExpression] = useState(savedExpression);
+  const inputRef = useRef<HTMLTextAreaElement | null>(null);
+
+  useEffect(() => {
+    setExpression(savedExpression);
+  }, [savedExpression]);
+
+  const syntaxError = useMemo(() => getSyntaxError(expression), [expression]);
+  const otherFields = useMemo(() => fields.filter((column) => column.fieldId !== fieldId), [fields, fieldId]);
+
+  const save = (value: string) => {
+    if (value === savedExpression) return;
+    updateFormula(value);
+  };
+
+  const insertText = (text: string) => {
+    const input = inputRef.current;
+    const start = input?.selectionStart ?? expression.length;
+    const end = input?.selectionEnd ?? expression.length;
+    const next = expression.slice(0, start) + text + expression.slice(end);
+
+    setExpression(next);
+    save(next);
+  };
+
+  return (
+    <>
+      <DropdownMenuSeparator />
+      <DropdownMenuGroup>
+        <DropdownMenuLabel>{t('grid.formula.expression', { defaultValue: 'Formula' })}</DropdownMenuLabel>
+        <div className={'flex flex-col gap-1 px-2 pb-1'}>
+          <TextareaAutosize
+            ref={inputRef}
+            data-testid='formula-expression-input'
+            value={expression}
+            minRows={2}
+            maxRows={6}
+            spellCheck={false}
+            className={'w-full py-1 font-mono text-xs'}
+            placeholder={t('grid.formula.placeholder', { defaultValue: 'e.g. prop("Price") * prop("Quantity")' })}
+            variant={syntaxError ? 'destructive' : 'default'}
+            onChange={(e) => {
+              setExpression(e.target.value);
+            }}
+            onKeyDown={(e) => {
+              e.stopPropagation();
+              if (createHotkey(HOT_KEY_NAME.ENTER)(e.nativeEvent)) {
+                e.preventDefault();
+                save(expression);
+              }
+            }}
+            onBlur={() => save(expression)}
+          />
+          {syntaxError ? (
+            <div data-testid='formula-expression-error' className={'text-xs text-text-error'}>
+              {syntaxError}
+            </div>
+          ) : null}
+        </div>
+        <DropdownMenuSub>
+          <DropdownMenuSubTrigger>
+            {t('grid.formula.insertProperty', { defaultValue: 'Insert property' })}
+          </DropdownMenuSubTrigger>
+          <DropdownMenuPortal>
+            <DropdownMenuSubContent className={'appflowy-scroller max-h-[360px] w-[240px] overflow-y-auto'}>
+              {otherFields.map((column) => (
+                <DropdownMenuItem
+                  key={column.fieldId}
+                  onSelect={() => insertText(`prop("${String(column.fieldName ?? '').replace(/"/g, '\\"')}")`)}
+                >
+                  <FieldCustomIcon fieldId={column.fieldId} className={'h-5 w-5'} />
+                  <span className={'truncate'}>{column.fieldName}</span>
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuSubContent>
+          </DropdownMenuPortal>
+        </DropdownMenuSub>
+        <DropdownMenuSub>
+          <DropdownMenuSubTrigger>
+            {t('grid.formula.insertFunction', { defaultValue: 'Insert function' })}
+          </DropdownMenuSubTrigger>
+          <DropdownMenuPortal>
+            <DropdownMenuSubContent className={'appflowy-scroller max-h-[360px] w-[200px] overflow-y-auto'}>
+              {FORMULA_FUNCTION_NAMES.map((name) => (
+                <DropdownMenuItem key={name} className={'font-mono text-xs'} onSelect={() => insertText(`${name}()`)}>
+                  {name}()
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuSubContent>
+          </DropdownMenuPortal>
+        </DropdownMenuSub>
+      </DropdownMenuGroup>
+    </>
+  );
+}
+
+export default FormulaPropertyMenuContent;
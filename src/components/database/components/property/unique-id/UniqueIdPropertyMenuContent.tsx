@@ -0,0 +1,62 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+
+import { formatUniqueId, parseUniqueIdTypeOption, useFieldSelector } from '@/application/database-yjs';
+import { useUpdateUniqueIdPrefix } from '@/application/database-yjs/dispatch';
+import { DropdownMenuGroup, DropdownMenuLabel, DropdownMenuSeparator } from '@/components/ui/dropdown-menu';
+import { Input } from '@/components/ui/input';
+import { createHotkey, HOT_KEY_NAME } from '@/utils/hotkeys';
+
+function UniqueIdPropertyMenuContent({ fieldId }: { fieldId: string }) {
+  const { t } = useTranslation();
+  const { field, clock } = useFieldSelector(fieldId);
+  const updatePrefix = useUpdateUniqueIdPrefix(fieldId);
+  const typeOption = useMemo(() => {
+    return parseUniqueIdTypeOption(field);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [field, clock]);
+  const [prefix, setPrefix] = useState(typeOption.prefix);
+
+  useEffect(() => {
+    setPrefix(typeOption.prefix);
+  }, [typeOption.prefix]);
+
+  const save = (value: string) => {
+    if (value.trim() === typeOption.prefix) return;
+    updatePrefix(value);
+  };
+
+  return (
+    <>
+      <DropdownMenuSeparator />
+      <DropdownMenuGroup>
+        <DropdownMenuLabel>{t('grid.uniqueId.prefix', { defaultValue: 'Prefix' })}</DropdownMenuLabel>
+        <div className={'flex flex-col gap-1 px-2 pb-1'}>
+          <Input
+            data-testid='unique-id-prefix-input'
+            value={prefix}
+            size='sm'
+            placeholder={t('grid.uniqueId.prefixPlaceholder', { defaultValue: 'e.g. BUG' })}
+            onChange={(e) => setPrefix(e.target.value)}
+            onKeyDown={(e) => {
+              e.stopPropagation();
+              if (createHotkey(HOT_KEY_NAME.ENTER)(e.nativeEvent)) {
+                e.preventDefault();
+                save(prefix);
+              }
+            }}
+            onBlur={() => save(prefix)}
+          />
+          <div data-testid='unique-id-next-preview' className={'text-xs text-text-tertiary'}>
+            {t('grid.uniqueId.nextId', {
+              defaultValue: 'Next row: {{id}}',
+              id: formatUniqueId(prefix.trim(), typeOption.next_id),
+            })}
+          </div>
+        </div>
+      </DropdownMenuGroup>
+    </>
+  );
+}
+
+export default UniqueIdPropertyMenuContent;
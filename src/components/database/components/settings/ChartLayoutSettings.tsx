@@ -5,9 +5,11 @@ import { useSearchParams } from 'react-router-dom';
 import { useChartLayoutSetting, usePropertiesSelector, useReadOnly } from '@/application/database-yjs';
 import {
   ChartAggregationType,
+  ChartSeriesConfig,
   ChartType,
   isDateGroupableFieldType,
   isGroupableFieldType,
+  isMultiSeriesChartType,
 } from '@/application/database-yjs/chart.type';
 import { DateGroupCondition, FieldType } from '@/application/database-yjs/database.type';
 import { useUpdateChartSetting } from '@/application/database-yjs/dispatch';
@@ -15,6 +17,7 @@ import { BillingService } from '@/application/services/domains';
 import type { Subscription } from '@/application/types';
 import { ReactComponent as ChartIcon } from '@/assets/icons/chart.svg';
 import { ReactComponent as CrownIcon } from '@/assets/icons/crown.svg';
+import { ReactComponent as DeleteIcon } from '@/assets/icons/delete.svg';
 import { useUserWorkspaceInfo } from '@/components/app/app.hooks';
 import { useSubscriptionPlan } from '@/components/app/hooks/useSubscriptionPlan';
 import { FieldDisplay } from '@/components/database/components/field';
@@ -35,21 +38,19 @@ const CHART_TYPES = [
   { type: ChartType.HorizontalBar, labelKey: 'chart.horizontalBarChart', fallback: 'Horizontal Bar' },
   { type: ChartType.Line, labelKey: 'chart.lineChart', fallback: 'Line' },
   { type: ChartType.Donut, labelKey: 'chart.donutChart', fallback: 'Donut' },
+  { type: ChartType.StackedBar, labelKey: 'chart.stackedBarChart', fallback: 'Stacked Bar' },
+  { type: ChartType.Area, labelKey: 'chart.areaChart', fallback: 'Area' },
 ];
 
 /**
  * Mirrors desktop's `_isPremiumChartType`: only the basic Bar chart is free.
- * On AppFlowy-hosted instances without a Pro plan, the other three are gated
+ * On AppFlowy-hosted instances without a Pro plan, the other types are gated
  * behind an upgrade prompt. Self-hosted instances have all chart types free
  * (handled by `useSubscriptionPlan` returning `isPro = true` for non-official
  * hosts).
  */
 function isPremiumChartType(type: ChartType): boolean {
-  return (
-    type === ChartType.HorizontalBar ||
-    type === ChartType.Line ||
-    type === ChartType.Donut
-  );
+  return type !== ChartType.Bar;
 }
 
 // Order matches desktop's `_buildAggregationItems` in chart_layout_setting.dart.
@@ -71,6 +72,34 @@ const DATE_CONDITIONS = [
   { value: DateGroupCondition.Relative, labelKey: 'chart.dateGrouping.relative', fallback: 'Relative' },
 ];
 
+function AggregationItems({
+  current,
+  onSelect,
+}: {
+  current: ChartAggregationType;
+  onSelect: (type: ChartAggregationType) => void;
+}) {
+  const { t } = useTranslation();
+
+  return (
+    <>
+      {AGGREGATION_TYPES.map(({ type, labelKey, fallback }) => (
+        <DropdownMenuItem
+          key={type}
+          className={'w-full'}
+          onSelect={(e) => {
+            e.preventDefault();
+            onSelect(type);
+          }}
+        >
+          <span>{t(labelKey, fallback)}</span>
+          {current === type && <DropdownMenuItemTick />}
+        </DropdownMenuItem>
+      ))}
+    </>
+  );
+}
+
 function ChartLayoutSettings() {
   const { t } = useTranslation();
   const readOnly = useReadOnly();
@@ -124,12 +153,20 @@ function ChartLayoutSettings() {
   const currentShowEmpty = chartSetting?.showEmptyValues ?? true;
   const currentCumulative = chartSetting?.cumulative ?? false;
   const currentDateCondition = chartSetting?.dateCondition ?? DateGroupCondition.Month;
+  const currentAdditionalSeries = useMemo(() => chartSetting?.additionalSeries ?? [], [chartSetting?.additionalSeries]);
+  const currentStackFieldId = chartSetting?.stackFieldId || '';
+  const currentContinuousDates = chartSetting?.continuousDates ?? false;
+  const supportsMultiSeries = isMultiSeriesChartType(currentChartType);
 
   const xField = useMemo(
     () => groupableFields.find((p) => p.id === currentXFieldId),
     [groupableFields, currentXFieldId]
   );
   const xIsDate = xField ? isDateGroupableFieldType(xField.type) : false;
+  const stackFieldCandidates = useMemo(
+    () => groupableFields.filter((property) => property.id !== currentXFieldId),
+    [groupableFields, currentXFieldId]
+  );
   // Match desktop: only Count does NOT need a Y-axis field. CountValues
   // counts distinct values *of* the Y-axis field, so it needs one too.
   const aggregationNeedsY = currentAggregation !== ChartAggregationType.Count;
@@ -153,6 +190,30 @@ function ChartLayoutSettings() {
     updateChartSetting({ aggregationType: type });
   }, [currentYFieldId, yFieldCandidates, updateChartSetting]);
 
+  const updateAdditionalSeries = useCallback(
+    (index: number, series: ChartSeriesConfig | null) => {
+      const next = [...currentAdditionalSeries];
+
+      if (series) {
+        next.splice(index, 1, series);
+      } else {
+        next.splice(index, 1);
+      }
+
+      updateChartSetting({ additionalSeries: next });
+    },
+    [currentAdditionalSeries, updateChartSetting]
+  );
+
+  const getSeriesLabel = (series: ChartSeriesConfig) => {
+    const aggregation = AGGREGATION_TYPES.find(({ type }) => type === series.aggregationType);
+    const aggregationLabel = aggregation ? t(aggregation.labelKey, aggregation.fallback) : '';
+    const yField = allProperties.find((property) => property.id === series.yFieldId);
+
+    if (series.aggregationType === ChartAggregationType.Count || !yField) return aggregationLabel;
+    return `${aggregationLabel} · ${yField.name}`;
+  };
+
   if (readOnly) {
     return null;
   }
@@ -205,6 +266,18 @@ function ChartLayoutSettings() {
                   {currentDateCondition === value && <DropdownMenuItemTick />}
                 </DropdownMenuItem>
               ))}
+              {currentDateCondition !== DateGroupCondition.Relative && (
+                <DropdownMenuItem
+                  className={'w-full'}
+                  onSelect={(e) => {
+                    e.preventDefault();
+                    updateChartSetting({ continuousDates: !currentContinuousDates });
+                  }}
+                >
+                  {t('chart.continuousDates', 'Show every date bucket')}
+                  <Switch className={'ml-auto'} checked={currentContinuousDates} />
+                </DropdownMenuItem>
+              )}
             </>
           )}
 
@@ -212,19 +285,7 @@ function ChartLayoutSettings() {
 
           {/* Aggregation (matches desktop's second section) */}
           <DropdownMenuLabel>{t('chart.aggregation', 'Aggregation')}</DropdownMenuLabel>
-          {AGGREGATION_TYPES.map(({ type, labelKey, fallback }) => (
-            <DropdownMenuItem
-              key={type}
-              className={'w-full'}
-              onSelect={(e) => {
-                e.preventDefault();
-                handleAggregationSelect(type);
-              }}
-            >
-              <span>{t(labelKey, fallback)}</span>
-              {currentAggregation === type && <DropdownMenuItemTick />}
-            </DropdownMenuItem>
-          ))}
+          <AggregationItems current={currentAggregation} onSelect={handleAggregationSelect} />
 
           {/* Y-Axis (only when aggregation needs a numeric field) */}
           {aggregationNeedsY && (
@@ -253,6 +314,107 @@ function ChartLayoutSettings() {
             </>
           )}
 
+          {/* Additional series and stack-by (web only; the chart types that
+             plot a single value per category ignore both) */}
+          {supportsMultiSeries && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>{t('chart.additionalSeries', 'Additional series')}</DropdownMenuLabel>
+              {currentAdditionalSeries.map((series, index) => (
+                <DropdownMenuSub key={index}>
+                  <DropdownMenuSubTrigger data-testid={`chart-series-${index}`}>
+                    <span className={'truncate'}>{getSeriesLabel(series)}</span>
+                  </DropdownMenuSubTrigger>
+                  <DropdownMenuPortal>
+                    <DropdownMenuSubContent className={'appflowy-scroller max-w-[260px] overflow-y-auto'}>
+                      <AggregationItems
+                        current={series.aggregationType}
+                        onSelect={(type) =>
+                          updateAdditionalSeries(index, {
+                            aggregationType: type,
+                            yFieldId:
+                              type === ChartAggregationType.Count
+                                ? undefined
+                                : series.yFieldId || yFieldCandidates[0]?.id,
+                          })
+                        }
+                      />
+                      {series.aggregationType !== ChartAggregationType.Count && yFieldCandidates.length > 0 && (
+                        <>
+                          <DropdownMenuSeparator />
+                          {yFieldCandidates.map((property) => (
+                            <DropdownMenuItem
+                              key={property.id}
+                              className={'w-full'}
+                              onSelect={(e) => {
+                                e.preventDefault();
+                                updateAdditionalSeries(index, { ...series, yFieldId: property.id });
+                              }}
+                            >
+                              <FieldDisplay fieldId={property.id} />
+                              {series.yFieldId === property.id && <DropdownMenuItemTick />}
+                            </DropdownMenuItem>
+                          ))}
+                        </>
+                      )}
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem
+                        variant={'destructive'}
+                        onSelect={() => updateAdditionalSeries(index, null)}
+                      >
+                        <DeleteIcon className="h-4 w-4" />
+                        {t('chart.removeSeries', 'Remove series')}
+                      </DropdownMenuItem>
+                    </DropdownMenuSubContent>
+                  </DropdownMenuPortal>
+                </DropdownMenuSub>
+              ))}
+              <DropdownMenuItem
+                data-testid="chart-add-series"
+                className={'w-full'}
+                onSelect={(e) => {
+                  e.preventDefault();
+                  updateChartSetting({
+                    additionalSeries: [
+                      ...currentAdditionalSeries,
+                      yFieldCandidates.length > 0
+                        ? { aggregationType: ChartAggregationType.Sum, yFieldId: yFieldCandidates[0].id }
+                        : { aggregationType: ChartAggregationType.Count },
+                    ],
+                  });
+                }}
+              >
+                {t('chart.addSeries', 'Add series')}
+              </DropdownMenuItem>
+
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>{t('chart.stackBy', 'Stack by')}</DropdownMenuLabel>
+              <DropdownMenuItem
+                className={'w-full'}
+                onSelect={(e) => {
+                  e.preventDefault();
+                  updateChartSetting({ stackFieldId: '' });
+                }}
+              >
+                <span>{t('chart.stackByNone', 'None')}</span>
+                {!currentStackFieldId && <DropdownMenuItemTick />}
+              </DropdownMenuItem>
+              {stackFieldCandidates.map((property) => (
+                <DropdownMenuItem
+                  key={property.id}
+                  className={'w-full'}
+                  onSelect={(e) => {
+                    e.preventDefault();
+                    updateChartSetting({ stackFieldId: property.id });
+                  }}
+                >
+                  <FieldDisplay fieldId={property.id} />
+                  {currentStackFieldId === property.id && <DropdownMenuItemTick />}
+                </DropdownMenuItem>
+              ))}
+            </>
+          )}
+
           <DropdownMenuSeparator />
 
           {/* Toggles */}
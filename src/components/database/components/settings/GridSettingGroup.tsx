@@ -229,7 +229,7 @@ interface DatabaseSettingGroupProps {
   setVisibility: (groupId: string, visible: boolean) => void;
   setAllVisibility: (groupIds: string[], visible: boolean) => void;
   updateDateCondition: (condition: DateGroupCondition) => void;
-  testIdPrefix: 'grid' | 'list';
+  testIdPrefix: 'grid' | 'list' | 'timeline';
 }
 
 export function DatabaseSettingGroup({
@@ -45,6 +45,10 @@ function Layout({ currentLayout }: { currentLayout: DatabaseViewLayout }) {
         value: DatabaseViewLayout.Gallery,
         label: t('gallery.menuName'),
       },
+      {
+        value: DatabaseViewLayout.Timeline,
+        label: t('timeline.menuName', { defaultValue: 'Timeline' }),
+      },
     ],
     [t]
   );
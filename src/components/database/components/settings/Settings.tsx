@@ -5,6 +5,7 @@ import BoardSettings from '@/components/database/components/settings/BoardSettin
 import CalendarSettings from '@/components/database/components/settings/CalendarSettings';
 import ChartSettings from '@/components/database/components/settings/ChartSettings';
 import ListSettings from '@/components/database/components/settings/ListSettings';
+import TimelineSettings from '@/components/database/components/settings/TimelineSettings';
 
 import GridSettings from './GridSettings';
 
@@ -18,6 +19,7 @@ const SETTINGS_BY_LAYOUT: Partial<Record<DatabaseViewLayout, ComponentType<{ chi
   [DatabaseViewLayout.Calendar]: CalendarSettings,
   [DatabaseViewLayout.Chart]: ChartSettings,
   [DatabaseViewLayout.List]: ListSettings,
+  [DatabaseViewLayout.Timeline]: TimelineSettings,
 };
 
 function Settings({ children, layout }: { children: ReactNode; layout: DatabaseViewLayout }) {
@@ -0,0 +1,83 @@
+import { useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+
+import {
+  FieldType,
+  TIMELINE_ZOOM_LEVELS,
+  usePropertiesSelector,
+  useTimelineLayoutSettings,
+} from '@/application/database-yjs';
+import { useUpdateTimelineLayoutSettings } from '@/application/database-yjs/dispatch';
+import { ReactComponent as CalendarIcon } from '@/assets/icons/calendar.svg';
+import { FieldDisplay } from '@/components/database/components/field';
+import { useTimelineZoomLabel } from '@/components/database/timeline/timeline.hooks';
+import {
+  DropdownMenuItem,
+  DropdownMenuItemTick,
+  DropdownMenuLabel,
+  DropdownMenuPortal,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+} from '@/components/ui/dropdown-menu';
+
+function TimelineLayoutSettings() {
+  const { t } = useTranslation();
+  const settings = useTimelineLayoutSettings();
+  const updateSettings = useUpdateTimelineLayoutSettings();
+  const getZoomLabel = useTimelineZoomLabel();
+
+  const { properties: allProperties } = usePropertiesSelector(false);
+  // Bars need a writable start and end, so only editable date ranges qualify.
+  const dateProperties = useMemo(() => {
+    return allProperties.filter((property) => property.type === FieldType.DateTime);
+  }, [allProperties]);
+
+  return (
+    <DropdownMenuSub>
+      <DropdownMenuSubTrigger>
+        <CalendarIcon />
+        {t('grid.settings.timelineSettings', { defaultValue: 'Timeline settings' })}
+      </DropdownMenuSubTrigger>
+      <DropdownMenuPortal>
+        <DropdownMenuSubContent className={'appflowy-scroller max-w-[240px] overflow-y-auto'}>
+          <DropdownMenuLabel>{t('calendar.settings.layoutDateField')}</DropdownMenuLabel>
+          {dateProperties.map((property) => (
+            <DropdownMenuItem
+              key={property.id}
+              className={'w-full'}
+              data-testid={`timeline-date-field-${property.id}`}
+              onSelect={(e) => {
+                e.preventDefault();
+                updateSettings({ fieldId: property.id });
+              }}
+            >
+              <FieldDisplay fieldId={property.id} />
+              {settings.fieldId === property.id && <DropdownMenuItemTick />}
+            </DropdownMenuItem>
+          ))}
+
+          {dateProperties.length > 0 && <DropdownMenuSeparator />}
+
+          <DropdownMenuLabel>{t('grid.timeline.zoom', { defaultValue: 'Zoom' })}</DropdownMenuLabel>
+          {TIMELINE_ZOOM_LEVELS.map((zoom) => (
+            <DropdownMenuItem
+              key={zoom}
+              className={'w-full'}
+              onSelect={(e) => {
+                e.preventDefault();
+                updateSettings({ zoom });
+              }}
+            >
+              {getZoomLabel(zoom)}
+              {settings.zoom === zoom && <DropdownMenuItemTick />}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuSubContent>
+      </DropdownMenuPortal>
+    </DropdownMenuSub>
+  );
+}
+
+export default TimelineLayoutSettings;
@@ -0,0 +1,35 @@
+import {
+  useClearGroupByFieldDispatch,
+  useGroupByFieldDispatch,
+  useSetAllDatabaseGroupsVisibilityDispatch,
+  useSetDatabaseGroupVisibilityDispatch,
+  useToggleTimelineHideEmptyGroups,
+  useUpdateDateGroupConditionDispatch,
+} from '@/application/database-yjs';
+import { DatabaseSettingGroup } from '@/components/database/components/settings/GridSettingGroup';
+import { useTimelineGrouping } from '@/components/database/timeline/TimelineGroupingContext';
+
+function TimelineSettingGroup() {
+  const grouping = useTimelineGrouping();
+  const groupBy = useGroupByFieldDispatch();
+  const clearGrouping = useClearGroupByFieldDispatch();
+  const toggleHideEmpty = useToggleTimelineHideEmptyGroups();
+  const setVisibility = useSetDatabaseGroupVisibilityDispatch(grouping.groupId, grouping.fieldId);
+  const setAllVisibility = useSetAllDatabaseGroupsVisibilityDispatch(grouping.groupId, grouping.fieldId);
+  const updateDateCondition = useUpdateDateGroupConditionDispatch();
+
+  return (
+    <DatabaseSettingGroup
+      clearGrouping={clearGrouping}
+      groupBy={groupBy}
+      grouping={grouping}
+      setAllVisibility={setAllVisibility}
+      setVisibility={setVisibility}
+      testIdPrefix='timeline'
+      toggleHideEmpty={toggleHideEmpty}
+      updateDateCondition={updateDateCondition}
+    />
+  );
+}
+
+export default TimelineSettingGroup;
@@ -0,0 +1,38 @@
+import { DatabaseViewLayout } from '@/application/types';
+import Layout from '@/components/database/components/settings/Layout';
+import Properties from '@/components/database/components/settings/Properties';
+import TimelineLayoutSettings from '@/components/database/components/settings/TimelineLayoutSettings';
+import TimelineSettingGroup from '@/components/database/components/settings/TimelineSettingGroup';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuGroup,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+
+import type { ReactNode } from 'react';
+
+function TimelineSettings({ children }: { children: ReactNode }) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <div className='h-7 w-7'>{children}</div>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent
+        align='end'
+        className='!min-w-[120px]'
+        onCloseAutoFocus={(event) => event.preventDefault()}
+        side='bottom'
+      >
+        <DropdownMenuGroup>
+          <Properties />
+          <Layout currentLayout={DatabaseViewLayout.Timeline} />
+          <TimelineLayoutSettings />
+          <TimelineSettingGroup />
+        </DropdownMenuGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+export default TimelineSettings;
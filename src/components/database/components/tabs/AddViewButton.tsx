@@ -5,6 +5,7 @@ import { toast } from 'sonner';
 import { useAddDatabaseView } from '@/application/database-yjs/dispatch';
 import { DatabaseViewLayout, ViewLayout } from '@/application/types';
 import { ReactComponent as PlusIcon } from '@/assets/icons/plus.svg';
+import { ReactComponent as TimelineIcon } from '@/assets/icons/timeline.svg';
 import { ViewIcon } from '@/components/_shared/view-icon';
 import { Button } from '@/components/ui/button';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
@@ -117,6 +118,16 @@ export function AddViewButton({ onBeforeAddView, onAfterAddView, onViewAdded }:
           <ViewIcon layout={ViewLayout.Gallery} size={'small'} />
           {t('gallery.menuName')}
         </DropdownMenuItem>
+
+        <DropdownMenuItem
+          data-testid='add-timeline-view-button'
+          onClick={() => {
+            void handleAddView(DatabaseViewLayout.Timeline, t('timeline.menuName', { defaultValue: 'Timeline' }));
+          }}
+        >
+          <TimelineIcon className={'h-5 w-5'} />
+          {t('timeline.menuName', { defaultValue: 'Timeline' })}
+        </DropdownMenuItem>
       </DropdownMenuContent>
     </DropdownMenu>
   );
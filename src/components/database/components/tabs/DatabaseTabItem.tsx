@@ -3,6 +3,7 @@ import { memo, useCallback, useMemo, useRef, useSyncExternalStore } from 'react'
 import { useTranslation } from 'react-i18next';
 
 import { DatabaseViewLayout, View, ViewLayout, YDatabaseView, YjsDatabaseKey } from '@/application/types';
+import { ReactComponent as TimelineIcon } from '@/assets/icons/timeline.svg';
 import { useReorderableItem } from '@/components/_shared/reorder/useReorderableItem';
 import PageIcon from '@/components/_shared/view-icon/PageIcon';
 import DropColumnIndicator from '@/components/database/components/drag-and-drop/DropColumnIndicator';
@@ -119,6 +120,8 @@ export const DatabaseTabItem = memo(
           return 'List';
         case DatabaseViewLayout.Gallery:
           return 'Gallery';
+        case DatabaseViewLayout.Timeline:
+          return 'Timeline';
         default:
           return t('untitled');
       }
@@ -199,7 +202,16 @@ export const DatabaseTabItem = memo(
           }}
           className={'flex items-center gap-1.5 overflow-hidden'}
         >
-          <PageIcon iconSize={16} view={{ layout: computedLayout }} className={'!h-5 !w-5 text-base leading-[1.3rem]'} />
+          {databaseLayout === DatabaseViewLayout.Timeline ? (
+            // Timeline views are Grid children in the folder, so the folder icon would be wrong.
+            <TimelineIcon className={'h-5 w-5'} />
+          ) : (
+            <PageIcon
+              iconSize={16}
+              view={{ layout: computedLayout }}
+              className={'!h-5 !w-5 text-base leading-[1.3rem]'}
+            />
+          )}
 
           <Tooltip delayDuration={500}>
             <TooltipTrigger asChild>
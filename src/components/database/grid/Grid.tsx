@@ -1,6 +1,7 @@
 import { useEffect } from 'react';
 
 import { useDatabaseContext, useDatabaseViewId } from '@/application/database-yjs';
+import { GridBulkActionBar } from '@/components/database/components/grid/bulk-actions';
 import { useRenderFields } from '@/components/database/components/grid/grid-column';
 import GridVirtualizer from '@/components/database/components/grid/grid-table/GridVirtualizer';
 import { useGridGrouping } from '@/components/database/grid/GridGroupingContext';
@@ -27,6 +28,7 @@ export function Grid() {
         className={`database-grid relative grid-table-${viewId} flex min-h-0 w-full flex-1 flex-col`}
       >
         <GridVirtualizer columns={fields} />
+        <GridBulkActionBar />
       </div>
     </GridProvider>
   );
@@ -2,6 +2,7 @@ import { type ReactNode, useCallback, useEffect, useLayoutEffect, useMemo, useRe
 
 import { useDatabaseContext } from '@/application/database-yjs';
 import type { GridGrouping } from '@/application/database-yjs';
+import { useUpdatePresence } from '@/components/app/app.hooks';
 import {
   EMBEDDED_GRID_INITIAL_ROW_LIMIT,
   EMBEDDED_GRID_LOAD_MORE_INCREMENT,
@@ -82,6 +83,42 @@ export const GridProvider = ({ children, grouping }: { children: ReactNode; grou
     };
   }, [interactionStore]);
 
+  const updatePresence = useUpdatePresence();
+
+  // Share the selected cell so other members see where this user is working.
+  useEffect(() => {
+    if (!updatePresence) return;
+
+    let published: { row_id: string; field_id: string } | undefined;
+    const clearPublished = () => {
+      const cell = published;
+
+      if (!cell) return;
+      published = undefined;
+      // Another grid may have published its own cell since.
+      updatePresence((prev) => (prev.cell === cell ? { ...prev, cell: undefined } : prev));
+    };
+
+    const unsubscribe = interactionStore.subscribeActiveCell(() => {
+      const activeCell = interactionStore.getActiveCell();
+
+      if (!activeCell) {
+        clearPublished();
+        return;
+      }
+
+      const cell = { row_id: activeCell.rowId, field_id: activeCell.fieldId };
+
+      published = cell;
+      updatePresence({ cell });
+    });
+
+    return () => {
+      unsubscribe();
+      clearPublished();
+    };
+  }, [interactionStore, updatePresence]);
+
   const handleHoverRowStart = useCallback(
     (rowKey?: string) => {
       if (isWheelingRef.current) {
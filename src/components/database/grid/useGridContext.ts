@@ -14,10 +14,13 @@ type GridInteractionListener = () => void;
 export type GridInteractionStore = {
   getActiveCell: () => GridActiveCell | undefined;
   getHoverRowKey: () => string | undefined;
+  getSelectedRowIds: () => string[];
   setActiveCell: (activeCell?: GridActiveCell) => void;
   setHoverRowKey: (hoverRowKey?: string) => void;
+  setSelectedRowIds: (selectedRowIds: string[]) => void;
   subscribeActiveCell: (listener: GridInteractionListener) => () => void;
   subscribeHoverRowKey: (listener: GridInteractionListener) => () => void;
+  subscribeSelectedRowIds: (listener: GridInteractionListener) => () => void;
   subscribe: (listener: GridInteractionListener) => () => void;
 };
 
@@ -27,8 +30,10 @@ export function createGridInteractionStore(initial?: {
 }): GridInteractionStore {
   let activeCell = initial?.activeCell;
   let hoverRowKey = initial?.hoverRowKey;
+  let selectedRowIds: string[] = [];
   const activeCellListeners = new Set<GridInteractionListener>();
   const hoverRowKeyListeners = new Set<GridInteractionListener>();
+  const selectedRowIdsListeners = new Set<GridInteractionListener>();
   const interactionListeners = new Set<GridInteractionListener>();
   const subscribe = (listeners: Set<GridInteractionListener>, listener: GridInteractionListener) => {
     listeners.add(listener);
@@ -41,6 +46,7 @@ export function createGridInteractionStore(initial?: {
   return {
     getActiveCell: () => activeCell,
     getHoverRowKey: () => hoverRowKey,
+    getSelectedRowIds: () => selectedRowIds,
     setActiveCell: (nextActiveCell) => {
       if (
         activeCell?.rowId === nextActiveCell?.rowId &&
@@ -61,8 +67,21 @@ export function createGridInteractionStore(initial?: {
       hoverRowKeyListeners.forEach((listener) => listener());
       interactionListeners.forEach((listener) => listener());
     },
+    setSelectedRowIds: (nextSelectedRowIds) => {
+      if (
+        nextSelectedRowIds.length === selectedRowIds.length &&
+        nextSelectedRowIds.every((rowId, index) => rowId === selectedRowIds[index])
+      ) {
+        return;
+      }
+
+      selectedRowIds = nextSelectedRowIds;
+      selectedRowIdsListeners.forEach((listener) => listener());
+      interactionListeners.forEach((listener) => listener());
+    },
     subscribeActiveCell: (listener) => subscribe(activeCellListeners, listener),
     subscribeHoverRowKey: (listener) => subscribe(hoverRowKeyListeners, listener),
+    subscribeSelectedRowIds: (listener) => subscribe(selectedRowIdsListeners, listener),
     subscribe: (listener) => subscribe(interactionListeners, listener),
   };
 }
@@ -117,6 +136,26 @@ export function useIsGridCellActive(rowKey: string, fieldId: string) {
   return useSyncExternalStore(store.subscribeActiveCell, getSnapshot, getSnapshot);
 }
 
+/** Rows picked for bulk actions, in selection order. */
+export function useGridSelectedRowIds() {
+  const { store } = useGridInteractionContext();
+
+  return useSyncExternalStore(store.subscribeSelectedRowIds, store.getSelectedRowIds, store.getSelectedRowIds);
+}
+
+export function useIsGridRowSelected(rowId: string) {
+  const { store } = useGridInteractionContext();
+  const getSnapshot = useCallback(() => store.getSelectedRowIds().includes(rowId), [rowId, store]);
+
+  return useSyncExternalStore(store.subscribeSelectedRowIds, getSnapshot, getSnapshot);
+}
+
+export function useGridSelectionActions() {
+  const { store } = useGridInteractionContext();
+
+  return { getSelectedRowIds: store.getSelectedRowIds, setSelectedRowIds: store.setSelectedRowIds };
+}
+
 type GridRowResizeListener = (rowKey: string, maxCellHeight: number) => void;
 
 export type GridRowResizeStore = {
@@ -0,0 +1,415 @@
+import { Dialog, DialogContent, DialogTitle } from '@mui/material';
+import { Suspense, useCallback, useEffect, useId, useMemo, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'sonner';
+
+import { getDatabaseRowDocFromSeed } from '@/application/database-blob';
+import {
+  closeDatabaseSnapshot,
+  compareSnapshotRows,
+  createDatabaseSnapshot,
+  DatabaseSnapshot,
+  deleteDatabaseSnapshot,
+  listDatabaseSnapshots,
+  openDatabaseSnapshot,
+  OpenedDatabaseSnapshot,
+  restoreDatabaseSnapshot,
+} from '@/application/database-snapshots';
+import { getRowKey } from '@/application/database-yjs/row_meta';
+import { RowId, ViewIcon, YDatabase, YDoc, YjsDatabaseKey, YjsEditorKey, YSharedRoot } from '@/application/types';
+import { getDatabaseIdFromDoc } from '@/application/view-loader';
+import ComponentLoading from '@/components/_shared/progress/ComponentLoading';
+import { useAppOperations, useCurrentWorkspaceId, useScheduleDeferredCleanup } from '@/components/app/app.hooks';
+import { Database } from '@/components/database';
+import { SaveVersionDialog } from '@/components/document/history/SaveVersionDialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { TabLabel, Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { cn } from '@/lib/utils';
+import { Log } from '@/utils/log';
+
+import { DatabaseSnapshotList } from './DatabaseSnapshotList';
+import { DatabaseSnapshotRows } from './DatabaseSnapshotRows';
+
+const DIALOG_PAPER_PROPS = {
+  className: cn(
+    'flex !h-full !w-full overflow-hidden rounded-2xl bg-surface-layer-02',
+    '!max-h-[min(920px,_calc(100vh-160px))] !min-h-[min(689px,_calc(100vh-40px))] !min-w-[min(984px,_calc(100vw-40px))] !max-w-[min(1680px,_calc(100vw-240px))]'
+  ),
+};
+
+function getViewIds(doc: YDoc): string[] {
+  const database = (doc.getMap(YjsEditorKey.data_section) as YSharedRoot).get(YjsEditorKey.database) as
+    | YDatabase
+    | undefined;
+
+  return Array.from(database?.get(YjsDatabaseKey.views)?.keys() ?? []);
+}
+
+/**
+ * Named checkpoints of a database. A checkpoint is previewed read-only with
+ * the regular database renderer and can be restored as a whole or row by row.
+ */
+export function DatabaseHistoryModal({
+  open,
+  onOpenChange,
+  viewId,
+  view,
+}: {
+  open: boolean;
+  onOpenChange: (value: boolean) => void;
+  viewId: string;
+  view?: {
+    name: string;
+    icon: ViewIcon | null;
+  };
+}) {
+  const { loadView, bindViewSync, createRow } = useAppOperations();
+  const scheduleDeferredCleanup = useScheduleDeferredCleanup();
+  const workspaceId = useCurrentWorkspaceId();
+  const { t } = useTranslation();
+  const titleId = useId();
+  const [liveDoc, setLiveDoc] = useState<YDoc | null>(null);
+  const [snapshots, setSnapshots] = useState<DatabaseSnapshot[]>([]);
+  const [selectedId, setSelectedId] = useState('');
+  const [snapshot, setSnapshot] = useState<OpenedDatabaseSnapshot | null>(null);
+  const [snapshotLoading, setSnapshotLoading] = useState(false);
+  const [previewViewId, setPreviewViewId] = useState(viewId);
+  const [tab, setTab] = useState<'preview' | 'rows'>('preview');
+  const [selectedRowIds, setSelectedRowIds] = useState<Set<RowId>>(() => new Set());
+  const [createOpen, setCreateOpen] = useState(false);
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+  // Bumped after a restore so the row comparison reads the live rows again.
+  const [liveRevision, setLiveRevision] = useState(0);
+
+  const databaseId = liveDoc ? getDatabaseIdFromDoc(liveDoc) : null;
+
+  const refreshSnapshots = useCallback(async () => {
+    if (!workspaceId || !databaseId) return;
+
+    try {
+      setSnapshots(await listDatabaseSnapshots(workspaceId, databaseId));
+    } catch (error) {
+      Log.error('[DatabaseHistory] failed to load checkpoints', error);
+      toast.error(error instanceof Error ? error.message : String(error));
+    }
+  }, [workspaceId, databaseId]);
+
+  useEffect(() => {
+    if (open) void refreshSnapshots();
+  }, [open, refreshSnapshots]);
+
+  const handleClose = useCallback(() => onOpenChange(false), [onOpenChange]);
+
+  useEffect(() => {
+    if (!open || !viewId || !loadView) return;
+
+    let cancelled = false;
+
+    setLiveDoc(null);
+    void (async () => {
+      try {
+        const doc = await loadView(viewId);
+
+        bindViewSync?.(doc);
+        if (!cancelled) setLiveDoc(doc);
+      } catch (error) {
+        Log.error('[DatabaseHistory] failed to load database', error);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, viewId, loadView, bindViewSync]);
+
+  // Runs before the auto-select below so reopening picks the newest checkpoint.
+  useEffect(() => {
+    setSelectedId('');
+    setTab('preview');
+    setPreviewViewId(viewId);
+  }, [viewId, open]);
+
+  useEffect(() => {
+    if (!selectedId && snapshots.length > 0) {
+      setSelectedId(snapshots[0].id);
+    }
+  }, [selectedId, snapshots]);
+
+  // Refreshing the list hands out new objects, so the selected checkpoint is
+  // only fetched again when a different one is picked.
+  const snapshotsRef = useRef(snapshots);
+  const selectedSnapshotId = snapshots.find((item) => item.id === selectedId)?.id;
+
+  snapshotsRef.current = snapshots;
+
+  useEffect(() => {
+    const selectedSnapshot = snapshotsRef.current.find((item) => item.id === selectedSnapshotId);
+
+    if (!selectedSnapshot || !workspaceId || !databaseId) {
+      setSnapshot(null);
+      return;
+    }
+
+    let cancelled = false;
+    let opened: OpenedDatabaseSnapshot | null = null;
+
+    setSnapshot(null);
+    setSnapshotLoading(true);
+    void (async () => {
+      try {
+        opened = await openDatabaseSnapshot(workspaceId, databaseId, selectedSnapshot);
+        if (cancelled) {
+          closeDatabaseSnapshot(opened);
+          return;
+        }
+
+        const viewIds = getViewIds(opened.doc);
+
+        setSnapshot(opened);
+        setSelectedRowIds(new Set());
+        setPreviewViewId((current) => (viewIds.includes(current) ? current : viewIds[0] ?? current));
+      } catch (error) {
+        Log.error('[DatabaseHistory] failed to open checkpoint', error);
+        if (!cancelled) toast.error(error instanceof Error ? error.message : String(error));
+      } finally {
+        if (!cancelled) setSnapshotLoading(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      if (opened) closeDatabaseSnapshot(opened);
+    };
+  }, [selectedSnapshotId, workspaceId, databaseId]);
+
+  const rowChanges = useMemo(() => {
+    if (!liveDoc || !snapshot || !databaseId) return [];
+
+    return compareSnapshotRows(liveDoc, snapshot, (rowId) =>
+      getDatabaseRowDocFromSeed(getRowKey(databaseId, rowId))
+    ).filter((change) => change.status !== 'unchanged');
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [liveDoc, snapshot, databaseId, liveRevision]);
+
+  const handleToggleRow = useCallback((rowId: RowId) => {
+    setSelectedRowIds((prev) => {
+      const next = new Set(prev);
+
+      if (next.has(rowId)) {
+        next.delete(rowId);
+      } else {
+        next.add(rowId);
+      }
+
+      return next;
+    });
+  }, []);
+
+  const handleToggleAll = useCallback(() => {
+    const restorable = rowChanges.filter((change) => change.status !== 'missing');
+
+    setSelectedRowIds((prev) =>
+      restorable.every((change) => prev.has(change.rowId))
+        ? new Set()
+        : new Set(restorable.map((change) => change.rowId))
+    );
+  }, [rowChanges]);
+
+  const handleCreate = useCallback(
+    async (name: string) => {
+      if (!liveDoc || !workspaceId) return;
+
+      try {
+        const created = await createDatabaseSnapshot(workspaceId, liveDoc, name);
+
+        await refreshSnapshots();
+        if (created) setSelectedId(created.id);
+        toast.success(t('databaseHistory.checkpointCreated', 'Checkpoint created'));
+      } catch (error) {
+        Log.error('[DatabaseHistory] failed to create checkpoint', error);
+        toast.error(error instanceof Error ? error.message : String(error));
+      }
+    },
+    [liveDoc, workspaceId, refreshSnapshots, t]
+  );
+
+  const handleDelete = useCallback(
+    async (id: string) => {
+      const deleted = snapshots.find((item) => item.id === id);
+
+      if (!workspaceId || !databaseId || !deleted) return;
+
+      try {
+        await deleteDatabaseSnapshot(workspaceId, databaseId, deleted);
+        if (id === selectedId) setSelectedId('');
+        await refreshSnapshots();
+      } catch (error) {
+        Log.error('[DatabaseHistory] failed to delete checkpoint', error);
+        toast.error(error instanceof Error ? error.message : String(error));
+      }
+    },
+    [workspaceId, databaseId, snapshots, selectedId, refreshSnapshots]
+  );
+
+  const handleRestore = useCallback(
+    async (rowIds?: RowId[]) => {
+      if (!liveDoc || !snapshot || !createRow) return;
+
+      setRestoring(true);
+      try {
+        const missingRowIds = await restoreDatabaseSnapshot(
+          liveDoc,
+          snapshot,
+          {
+            openRow: createRow,
+            releaseRow: scheduleDeferredCleanup ? (rowId) => scheduleDeferredCleanup(rowId) : undefined,
+          },
+          rowIds
+        );
+
+        setSelectedRowIds(new Set());
+        setLiveRevision((revision) => revision + 1);
+        toast.success(
+          rowIds
+            ? t('databaseHistory.rowsRestored', { defaultValue: '{{count}} rows restored', count: rowIds.length })
+            : t('databaseHistory.databaseRestored', 'Database restored')
+        );
+
+        if (missingRowIds.length > 0) {
+          toast.warning(
+            t('databaseHistory.rowsNotRestored', {
+              defaultValue: '{{count}} rows were not saved in this checkpoint and could not be restored',
+              count: missingRowIds.length,
+            })
+          );
+        }
+      } catch (error) {
+        Log.error('[DatabaseHistory] failed to restore checkpoint', error);
+        toast.error(error instanceof Error ? error.message : String(error));
+      } finally {
+        setRestoring(false);
+      }
+    },
+    [liveDoc, snapshot, createRow, scheduleDeferredCleanup, t]
+  );
+
+  return (
+    <Dialog
+      open={open}
+      onClose={handleClose}
+      aria-labelledby={titleId}
+      fullWidth
+      maxWidth={false}
+      keepMounted={false}
+      disableRestoreFocus
+      PaperProps={DIALOG_PAPER_PROPS}
+    >
+      <DialogContent data-testid='database-history-modal' className='flex h-full w-full overflow-hidden p-0'>
+        <div className='flex min-h-0 min-w-0 flex-1 flex-col overflow-hidden'>
+          <div className='flex items-center gap-4 border-b border-border px-6 pt-4'>
+            <DialogTitle
+              id={titleId}
+              className='min-w-0 flex-1 truncate !p-0 pb-4 text-base font-bold text-text-primary'
+            >
+              {view?.name || t('untitled')}
+            </DialogTitle>
+            <Tabs value={tab} onValueChange={(value) => setTab(value as 'preview' | 'rows')}>
+              <TabsList>
+                <TabsTrigger data-testid='database-history-preview-tab' value='preview'>
+                  <TabLabel>{t('databaseHistory.preview', 'Preview')}</TabLabel>
+                </TabsTrigger>
+                <TabsTrigger data-testid='database-history-rows-tab' value='rows'>
+                  <TabLabel>
+                    {t('databaseHistory.changedRows', {
+                      defaultValue: 'Changed rows ({{count}})',
+                      count: rowChanges.length,
+                    })}
+                  </TabLabel>
+                </TabsTrigger>
+              </TabsList>
+            </Tabs>
+          </div>
+          <div className='min-h-0 flex-1 overflow-hidden'>
+            {!snapshot || !workspaceId ? (
+              <div className='flex h-full items-center justify-center text-sm text-text-tertiary'>
+                {liveDoc && !snapshotLoading ? (
+                  t('databaseHistory.selectCheckpoint', 'Select a checkpoint to preview it')
+                ) : (
+                  <ComponentLoading />
+                )}
+              </div>
+            ) : tab === 'rows' ? (
+              <DatabaseSnapshotRows
+                changes={rowChanges}
+                selectedRowIds={selectedRowIds}
+                onToggleRow={handleToggleRow}
+                onToggleAll={handleToggleAll}
+              />
+            ) : (
+              <div className='appflowy-scroller h-full overflow-auto'>
+                <Suspense fallback={<ComponentLoading />}>
+                  <Database
+                    key={selectedId}
+                    workspaceId={workspaceId}
+                    doc={snapshot.doc}
+                    initialRowMap={snapshot.rowMap}
+                    readOnly
+                    databaseName={view?.name || ''}
+                    databasePageId={viewId}
+                    activeViewId={previewViewId}
+                    onChangeView={setPreviewViewId}
+                    showActions={false}
+                  />
+                </Suspense>
+              </div>
+            )}
+          </div>
+        </div>
+        <DatabaseSnapshotList
+          snapshots={snapshots}
+          selectedId={selectedId}
+          onSelect={setSelectedId}
+          onCreate={liveDoc ? () => setCreateOpen(true) : undefined}
+          onDelete={(id) => void handleDelete(id)}
+          onClose={handleClose}
+          selectedRowCount={selectedRowIds.size}
+          restoring={restoring}
+          onRestoreDatabase={() => setConfirmOpen(true)}
+          onRestoreRows={() => void handleRestore(Array.from(selectedRowIds))}
+        />
+      </DialogContent>
+      <SaveVersionDialog open={createOpen} onOpenChange={setCreateOpen} onSave={handleCreate} />
+      <AlertDialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('databaseHistory.restoreTitle', 'Restore this checkpoint?')}</AlertDialogTitle>
+          </AlertDialogHeader>
+          <AlertDialogDescription>
+            {t(
+              'databaseHistory.restoreDescription',
+              'Fields, view settings, row order and cell values go back to how they were at this checkpoint. Rows added since then are removed from the views.'
+            )}
+          </AlertDialogDescription>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t('button.cancel')}</AlertDialogCancel>
+            <AlertDialogAction data-testid='database-history-restore-confirm' onClick={() => void handleRestore()}>
+              {t('databaseHistory.restoreDatabase', 'Restore database')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Dialog>
+  );
+}
+
+export default DatabaseHistoryModal;
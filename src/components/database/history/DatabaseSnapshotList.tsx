@@ -0,0 +1,138 @@
+import { format } from 'date-fns';
+import { memo } from 'react';
+import { useTranslation } from 'react-i18next';
+
+import { DatabaseSnapshot } from '@/application/database-snapshots';
+import { ReactComponent as CloseIcon } from '@/assets/icons/close.svg';
+import { ReactComponent as DeleteIcon } from '@/assets/icons/delete.svg';
+import { ReactComponent as SaveIcon } from '@/assets/icons/save_as.svg';
+import { Button } from '@/components/ui/button';
+import { Separator } from '@/components/ui/separator';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { cn } from '@/lib/utils';
+
+export const DatabaseSnapshotList = memo(function DatabaseSnapshotList({
+  snapshots,
+  selectedId,
+  onSelect,
+  onCreate,
+  onDelete,
+  onClose,
+  selectedRowCount,
+  restoring,
+  onRestoreDatabase,
+  onRestoreRows,
+}: {
+  snapshots: DatabaseSnapshot[];
+  selectedId: string;
+  onSelect: (id: string) => void;
+  onCreate?: () => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+  selectedRowCount: number;
+  restoring: boolean;
+  onRestoreDatabase: () => void;
+  onRestoreRows: () => void;
+}) {
+  const { t } = useTranslation();
+
+  return (
+    <div className='flex w-[280px] shrink-0 flex-col border-l border-border'>
+      <div className='flex items-center gap-1 px-4 py-3'>
+        <span className='flex-1 text-sm font-medium text-text-primary'>
+          {t('databaseHistory.checkpoints', 'Checkpoints')}
+        </span>
+        {onCreate && (
+          <Tooltip disableHoverableContent delayDuration={500}>
+            <TooltipTrigger asChild>
+              <Button
+                data-testid='database-history-create-button'
+                variant='ghost'
+                size='icon'
+                className='text-icon-secondary'
+                onClick={onCreate}
+              >
+                <SaveIcon className='h-5 w-5' />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>{t('databaseHistory.createCheckpoint', 'Create checkpoint')}</TooltipContent>
+          </Tooltip>
+        )}
+        <Button variant='ghost' size='icon' className='text-icon-secondary' onClick={onClose}>
+          <CloseIcon className='h-5 w-5' />
+        </Button>
+      </div>
+      <div data-testid='database-history-list' className='flex-1 overflow-y-auto p-3'>
+        {snapshots.length === 0 && (
+          <div className='px-2 py-6 text-center text-sm text-text-tertiary'>
+            {t(
+              'databaseHistory.empty',
+              'No checkpoints yet. Create one before bulk edits so you can roll back the schema, views and cells.'
+            )}
+          </div>
+        )}
+        {snapshots.map((snapshot) => {
+          const selected = snapshot.id === selectedId;
+
+          return (
+            <div
+              key={snapshot.id}
+              className={cn(
+                'group flex items-center gap-1 rounded-400 pr-1 hover:bg-fill-content-hover',
+                selected && 'bg-fill-content-hover'
+              )}
+            >
+              <Button
+                data-testid={`database-history-item-${snapshot.id}`}
+                variant='ghost'
+                className='h-auto min-w-0 flex-1 flex-col items-start gap-1 py-2 hover:bg-transparent'
+                onClick={() => onSelect(snapshot.id)}
+              >
+                <span
+                  className={cn('max-w-full truncate', selected ? 'font-medium text-text-info' : 'text-text-primary')}
+                >
+                  {snapshot.name}
+                </span>
+                <span className='text-xs text-text-tertiary'>{format(snapshot.createdAt, 'PPpp')}</span>
+              </Button>
+              <Button
+                data-testid={`database-history-delete-${snapshot.id}`}
+                variant='ghost'
+                size='icon-sm'
+                className='shrink-0 text-icon-secondary opacity-0 group-hover:opacity-100'
+                onClick={() => onDelete(snapshot.id)}
+              >
+                <DeleteIcon className='h-4 w-4' />
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+      <Separator />
+      <div className='flex flex-col gap-2 px-4 py-3'>
+        <Button
+          data-testid='database-history-restore-rows-button'
+          variant='outline'
+          disabled={!selectedId || selectedRowCount === 0 || restoring}
+          onClick={onRestoreRows}
+        >
+          {t('databaseHistory.restoreRows', {
+            defaultValue: 'Restore selected rows ({{count}})',
+            count: selectedRowCount,
+          })}
+        </Button>
+        <Button
+          data-testid='database-history-restore-button'
+          className='font-medium'
+          disabled={!selectedId || restoring}
+          loading={restoring}
+          onClick={onRestoreDatabase}
+        >
+          {t('databaseHistory.restoreDatabase', 'Restore database')}
+        </Button>
+      </div>
+    </div>
+  );
+});
+
+export default DatabaseSnapshotList;
@@ -0,0 +1,88 @@
+import { memo } from 'react';
+import { useTranslation } from 'react-i18next';
+
+import { DatabaseSnapshotRowChange } from '@/application/database-snapshots';
+import { RowId } from '@/application/types';
+import { ReactComponent as CheckboxCheckSvg } from '@/assets/icons/check_filled.svg';
+import { ReactComponent as CheckboxUncheckSvg } from '@/assets/icons/uncheck.svg';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+
+/**
+ * Rows of a checkpoint that were deleted or edited since, to pick the ones to
+ * restore. Rows the checkpoint has no saved version of are listed but cannot
+ * be picked.
+ */
+export const DatabaseSnapshotRows = memo(function DatabaseSnapshotRows({
+  changes,
+  selectedRowIds,
+  onToggleRow,
+  onToggleAll,
+}: {
+  changes: DatabaseSnapshotRowChange[];
+  selectedRowIds: Set<RowId>;
+  onToggleRow: (rowId: RowId) => void;
+  onToggleAll: () => void;
+}) {
+  const { t } = useTranslation();
+  const restorable = changes.filter((change) => change.status !== 'missing');
+  const allSelected = restorable.length > 0 && restorable.every((change) => selectedRowIds.has(change.rowId));
+
+  if (changes.length === 0) {
+    return (
+      <div className='flex h-full items-center justify-center text-sm text-text-tertiary'>
+        {t('databaseHistory.noRowChanges', 'No rows were deleted or changed since this checkpoint')}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      data-testid='database-snapshot-rows'
+      className='appflowy-scroller flex h-full flex-col overflow-y-auto px-6 py-4'
+    >
+      <Button variant='ghost' size='sm' className='mb-2 w-fit' onClick={onToggleAll}>
+        {allSelected ? <CheckboxCheckSvg className='h-4 w-4' /> : <CheckboxUncheckSvg className='h-4 w-4' />}
+        {t('databaseHistory.selectAllRows', 'Select all')}
+      </Button>
+      {changes.map((change) => {
+        const selected = selectedRowIds.has(change.rowId);
+        const missing = change.status === 'missing';
+
+        return (
+          <Button
+            key={change.rowId}
+            data-testid={`database-snapshot-row-${change.rowId}`}
+            variant='ghost'
+            className='w-full justify-start gap-3'
+            disabled={missing}
+            onClick={() => onToggleRow(change.rowId)}
+          >
+            {selected ? (
+              <CheckboxCheckSvg className='h-4 w-4 shrink-0' />
+            ) : (
+              <CheckboxUncheckSvg className='h-4 w-4 shrink-0' />
+            )}
+            <span className='min-w-0 flex-1 truncate text-left'>
+              {change.title || (missing ? change.rowId : t('untitled'))}
+            </span>
+            <span
+              className={cn(
+                'rounded-200 px-1.5 text-xs',
+                change.status === 'deleted' ? 'bg-fill-error-light text-text-error' : 'text-text-tertiary'
+              )}
+            >
+              {change.status === 'deleted'
+                ? t('databaseHistory.rowDeleted', 'Deleted')
+                : missing
+                ? t('databaseHistory.rowMissing', 'Not saved')
+                : t('databaseHistory.rowChanged', 'Changed')}
+            </span>
+          </Button>
+        );
+      })}
+    </div>
+  );
+});
+
+export default DatabaseSnapshotRows;
@@ -0,0 +1,91 @@
+import { expect } from '@jest/globals';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import * as Y from 'yjs';
+
+import { DatabaseHistoryModal } from '../DatabaseHistoryModal';
+
+let lastDatabaseProps: Record<string, unknown> | null = null;
+
+jest.mock('@/components/database', () => ({
+  Database: (props: Record<string, unknown>) => {
+    lastDatabaseProps = props;
+    return null;
+  },
+}));
+
+jest.mock('@/components/_shared/progress/ComponentLoading', () => () => null);
+
+const snapshots = [{ id: 'checkpoint-1', name: 'Before cleanup', createdAt: new Date('2026-05-21T09:38:06Z') }];
+
+const snapshotDoc = new Y.Doc();
+const snapshotRowMap = { 'row-1': new Y.Doc() };
+const restoreDatabaseSnapshot = jest.fn((..._args: unknown[]) => Promise.resolve([]));
+
+jest.mock('@/application/database-snapshots', () => ({
+  closeDatabaseSnapshot: jest.fn(),
+  compareSnapshotRows: () => [{ rowId: 'row-1', title: 'Write spec', status: 'deleted' }],
+  createDatabaseSnapshot: jest.fn(),
+  deleteDatabaseSnapshot: jest.fn(),
+  listDatabaseSnapshots: () => Promise.resolve(snapshots),
+  openDatabaseSnapshot: () => Promise.resolve({ doc: snapshotDoc, rowMap: snapshotRowMap, missingRowIds: [] }),
+  restoreDatabaseSnapshot: (...args: unknown[]) => restoreDatabaseSnapshot(...args),
+}));
+
+jest.mock('@/application/database-blob', () => ({
+  getDatabaseRowDocFromSeed: jest.fn(() => null),
+}));
+
+jest.mock('@/application/view-loader', () => ({
+  getDatabaseIdFromDoc: () => 'database-1',
+}));
+
+jest.mock('react-i18next', () => ({
+  useTranslation: () => ({ t: (key: string) => key }),
+}));
+
+const liveDoc = new Y.Doc();
+const loadView = jest.fn(() => Promise.resolve(liveDoc));
+const bindViewSync = jest.fn();
+const createRow = jest.fn();
+const scheduleDeferredCleanup = jest.fn();
+
+jest.mock('@/components/app/app.hooks', () => ({
+  useAppOperations: () => ({ loadView, bindViewSync, createRow }),
+  useCurrentWorkspaceId: () => 'workspace-1',
+  useScheduleDeferredCleanup: () => scheduleDeferredCleanup,
+}));
+
+describe('DatabaseHistoryModal', () => {
+  beforeEach(() => {
+    lastDatabaseProps = null;
+    jest.clearAllMocks();
+  });
+
+  it('previews the selected checkpoint read-only with the database renderer', async () => {
+    render(<DatabaseHistoryModal open onOpenChange={jest.fn()} viewId='view-1' view={{ name: 'Tasks', icon: null }} />);
+
+    await waitFor(() => expect(lastDatabaseProps).not.toBeNull());
+
+    expect(bindViewSync).toHaveBeenCalledWith(liveDoc);
+    expect(lastDatabaseProps).toEqual(
+      expect.objectContaining({ doc: snapshotDoc, initialRowMap: snapshotRowMap, readOnly: true })
+    );
+  });
+
+  it('restores only the rows picked from the changed rows tab', async () => {
+    render(<DatabaseHistoryModal open onOpenChange={jest.fn()} viewId='view-1' view={{ name: 'Tasks', icon: null }} />);
+
+    await waitFor(() => expect(lastDatabaseProps).not.toBeNull());
+    fireEvent.mouseDown(screen.getByTestId('database-history-rows-tab'));
+    fireEvent.click(await screen.findByTestId('database-snapshot-row-row-1'));
+    fireEvent.click(screen.getByTestId('database-history-restore-rows-button'));
+
+    await waitFor(() => expect(restoreDatabaseSnapshot).toHaveBeenCalled());
+    expect(restoreDatabaseSnapshot).toHaveBeenCalledWith(
+      liveDoc,
+      { doc: snapshotDoc, rowMap: snapshotRowMap, missingRowIds: [] },
+      expect.objectContaining({ openRow: createRow }),
+      ['row-1']
+    );
+  });
+});
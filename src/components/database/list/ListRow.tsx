@@ -20,12 +20,14 @@ import {
   useIsRowLoaded,
   useReadOnly,
   useRowCommentCount,
+  useRowConditionalFormat,
   useRowMetaSelector,
 } from '@/application/database-yjs';
-import type { Column, Row } from '@/application/database-yjs';
+import type { Column, Row, SelectOptionColor } from '@/application/database-yjs';
 import { ReactComponent as DocumentIcon } from '@/assets/icons/doc.svg';
 import { ReactComponent as CommentIcon } from '@/assets/icons/titlebar_comment.svg';
 import { Cell } from '@/components/database/components/cell/Cell';
+import { getConditionalFormatColorStyle } from '@/components/database/components/conditional-format/conditional-format.utils';
 import { DropRowIndicator } from '@/components/database/components/drag-and-drop/DropRowIndicator';
 import { ClearSortingConfirm } from '@/components/database/components/sorts/ClearSortingConfirm';
 import { cn } from '@/lib/utils';
@@ -63,7 +65,17 @@ const listPrimaryCellStyle: CSSProperties = {
   fontWeight: 500,
 };
 
-function ListPropertyCell({ field, leading, rowId }: { field: Column; leading?: boolean; rowId: string }) {
+function ListPropertyCell({
+  color,
+  field,
+  leading,
+  rowId,
+}: {
+  color?: SelectOptionColor;
+  field: Column;
+  leading?: boolean;
+  rowId: string;
+}) {
   const cell = useCellSelector({ fieldId: field.fieldId, rowId });
   const minWidth = leading ? getListLeadingFieldMinWidth(field.fieldType) : undefined;
   const interactive = field.fieldType === FieldType.Checkbox;
@@ -73,18 +85,19 @@ function ListPropertyCell({ field, leading, rowId }: { field: Column; leading?:
       className={cn(
         'list-property-cell flex h-6 min-w-0 items-center overflow-hidden text-xs text-text-secondary',
         interactive ? 'pointer-events-auto' : 'pointer-events-none',
-        !leading && 'shrink-0 px-0.5'
+        !leading && 'shrink-0 px-0.5',
+        color && 'rounded-[4px] px-1'
       )}
       data-field-id={field.fieldId}
       data-testid={`list-field-${field.fieldId}-${rowId}`}
-      style={{ minWidth }}
+      style={{ minWidth, ...getConditionalFormatColorStyle(color) }}
     >
       <ListCell cell={cell || undefined} field={field} rowId={rowId} style={listCellStyle} />
     </div>
   );
 }
 
-function ListPrimaryField({ field, rowId }: { field: Column; rowId: string }) {
+function ListPrimaryField({ color, field, rowId }: { color?: SelectOptionColor; field: Column; rowId: string }) {
   const { t } = useTranslation();
   const cell = useCellSelector({ fieldId: field.fieldId, rowId });
   const meta = useRowMetaSelector(rowId);
@@ -94,9 +107,13 @@ function ListPrimaryField({ field, rowId }: { field: Column; rowId: string }) {
 
   return (
     <div
-      className='list-primary-field flex h-6 min-w-0 max-w-full shrink items-center overflow-hidden'
+      className={cn(
+        'list-primary-field flex h-6 min-w-0 max-w-full shrink items-center overflow-hidden',
+        color && 'rounded-[4px] px-1'
+      )}
       data-primary-indicator={indicator}
       data-testid={`list-primary-cell-${rowId}`}
+      style={getConditionalFormatColorStyle(color)}
     >
       {indicator === 'icon' ? (
         <span
@@ -265,6 +282,7 @@ export const ListRow = memo(function ListRow({
   const hasSorts = useListHasSorts();
   const { bindRowSync, navigateToRow } = useDatabaseContext();
   const fieldGroups = useMemo(() => splitListFields(fields, groupFieldId), [fields, groupFieldId]);
+  const conditionalFormat = useRowConditionalFormat(rowId);
   const dnd = useListRowDnd({
     dragHandleRef,
     enabled: reorderable && !readOnly,
@@ -325,24 +343,44 @@ export const ListRow = memo(function ListRow({
           />
         )}
 
-        <div className='flex h-9 min-w-0 flex-1 cursor-pointer items-center overflow-hidden rounded-[4px] px-1.5 py-1.5 hover:bg-fill-content-hover group-focus-within/list-row:bg-fill-content-hover'>
+        <div
+          className='flex h-9 min-w-0 flex-1 cursor-pointer items-center overflow-hidden rounded-[4px] px-1.5 py-1.5 hover:bg-fill-content-hover group-focus-within/list-row:bg-fill-content-hover'
+          style={getConditionalFormatColorStyle(conditionalFormat.rowColor)}
+        >
           <div className='flex h-6 min-w-0 flex-1 items-center overflow-hidden pl-0.5'>
             {fieldGroups.leading.length > 0 ? (
               <div className='mr-3 flex h-6 shrink-0 items-center gap-1.5 overflow-hidden'>
                 {fieldGroups.leading.map((field) => (
-                  <ListPropertyCell field={field} key={field.fieldId} leading rowId={rowId} />
+                  <ListPropertyCell
+                    color={conditionalFormat.cellColors[field.fieldId]}
+                    field={field}
+                    key={field.fieldId}
+                    leading
+                    rowId={rowId}
+                  />
                 ))}
               </div>
             ) : null}
 
-            {fieldGroups.primary ? <ListPrimaryField field={fieldGroups.primary} rowId={rowId} /> : null}
+            {fieldGroups.primary ? (
+              <ListPrimaryField
+                color={conditionalFormat.cellColors[fieldGroups.primary.fieldId]}
+                field={fieldGroups.primary}
+                rowId={rowId}
+              />
+            ) : null}
 
             <div aria-hidden='true' className='min-w-0 flex-1' data-testid={`list-row-spacer-${rowId}`} />
 
             {fieldGroups.trailing.length > 0 ? (
               <div className='ml-1.5 flex h-6 shrink-0 items-center justify-end overflow-hidden'>
                 {fieldGroups.trailing.map((field) => (
-                  <ListPropertyCell field={field} key={field.fieldId} rowId={rowId} />
+                  <ListPropertyCell
+                    color={conditionalFormat.cellColors[field.fieldId]}
+                    field={field}
+                    key={field.fieldId}
+                    rowId={rowId}
+                  />
                 ))}
               </div>
             ) : null}
@@ -24,6 +24,7 @@ jest.mock('@/application/database-yjs', () => ({
   useIsRowLoaded: jest.fn(),
   useReadOnly: jest.fn(),
   useRowCommentCount: jest.fn(),
+  useRowConditionalFormat: () => ({ cellColors: {} }),
   useRowMetaSelector: jest.fn(),
 }));
 
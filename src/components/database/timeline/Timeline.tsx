@@ -0,0 +1,255 @@
+import dayjs from 'dayjs';
+import { useEffect, useMemo, useRef } from 'react';
+import { useTranslation } from 'react-i18next';
+
+import {
+  getTimelineBarRange,
+  getTimelineBounds,
+  getTimelineDayOffset,
+  getTimelineTicks,
+  TIMELINE_DAY_WIDTH,
+  TIMELINE_ZOOM_LEVELS,
+  useDatabaseContext,
+  useReadOnly,
+  useTimelineItemsSelector,
+  useTimelineLayoutSettings,
+} from '@/application/database-yjs';
+import type { GridGroup, TimelineBarRange, TimelineItem, TimelineTick } from '@/application/database-yjs';
+import {
+  useToggleDatabaseGroupCollapsedDispatch,
+  useUpdateCellDispatch,
+  useUpdateTimelineLayoutSettings,
+} from '@/application/database-yjs/dispatch';
+import { TimelineZoom } from '@/application/types';
+import { ReactComponent as ArrowIcon } from '@/assets/icons/alt_arrow_right_small.svg';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+
+import { TimelineBar } from './TimelineBar';
+import { useTimelineZoomLabel } from './timeline.hooks';
+import { useTimelineGrouping } from './TimelineGroupingContext';
+
+import type { Dayjs } from 'dayjs';
+
+const TIMELINE_LABEL_WIDTH = 220;
+const TIMELINE_ROW_HEIGHT = 36;
+
+function formatTick(tick: TimelineTick, zoom: TimelineZoom) {
+  switch (zoom) {
+    case TimelineZoom.Day:
+      return tick.date.format('D');
+    case TimelineZoom.Week:
+      return tick.date.format('MMM D');
+    case TimelineZoom.Month:
+      return tick.date.format('MMM YYYY');
+    case TimelineZoom.Quarter:
+      return `Q${Math.floor(tick.date.month() / 3) + 1} ${tick.date.format('YYYY')}`;
+  }
+}
+
+function TimelineRow({
+  item,
+  fieldId,
+  timelineStart,
+  width,
+  zoom,
+  readOnly,
+}: {
+  item: TimelineItem;
+  fieldId: string;
+  timelineStart: Dayjs;
+  width: number;
+  zoom: TimelineZoom;
+  readOnly: boolean;
+}) {
+  const { t } = useTranslation();
+  const { navigateToRow } = useDatabaseContext();
+  const updateCell = useUpdateCellDispatch(item.rowId, fieldId);
+  const scheduled = Boolean(getTimelineBarRange(item.cell));
+
+  return (
+    <div className='flex border-b border-border-primary' data-testid={`timeline-row-${item.rowId}`}>
+      <button
+        className='sticky left-0 z-[2] flex shrink-0 items-center truncate border-r border-border-primary bg-background-primary px-3 text-left text-sm hover:bg-fill-content-hover'
+        onClick={() => navigateToRow?.(item.rowId)}
+        style={{ width: TIMELINE_LABEL_WIDTH, height: TIMELINE_ROW_HEIGHT }}
+        type='button'
+      >
+        <span className={cn('truncate', !item.title && 'text-text-tertiary')}>
+          {item.title || t('grid.row.titlePlaceholder', { defaultValue: 'Untitled' })}
+        </span>
+      </button>
+      <div
+        className={cn('relative shrink-0', !scheduled && !readOnly && 'cursor-pointer hover:bg-fill-content-hover')}
+        data-testid={`timeline-track-${item.rowId}`}
+        onClick={(event) => {
+          // An unscheduled row gets a one-day bar on the clicked day.
+          if (scheduled || readOnly) return;
+
+          const offsetX = event.clientX - event.currentTarget.getBoundingClientRect().left;
+          const day = timelineStart.add(Math.floor(offsetX / TIMELINE_DAY_WIDTH[zoom]), 'day');
+
+          updateCell(String(day.unix()), { includeTime: false, isRange: false });
+        }}
+        style={{ width, height: TIMELINE_ROW_HEIGHT }}
+      >
+        <TimelineBar fieldId={fieldId} item={item} readOnly={readOnly} timelineStart={timelineStart} zoom={zoom} />
+      </div>
+    </div>
+  );
+}
+
+function TimelineGroupHeader({ group, groupConfigId }: { group: GridGroup; groupConfigId?: string }) {
+  const { t } = useTranslation();
+  const toggleCollapsed = useToggleDatabaseGroupCollapsedDispatch(groupConfigId);
+
+  return (
+    <div
+      className='sticky left-0 z-[2] flex h-10 items-center gap-1 bg-background-primary px-1 text-sm text-text-primary'
+      data-testid={`timeline-group-header-${group.id}`}
+      style={{ width: TIMELINE_LABEL_WIDTH }}
+    >
+      <Button
+        aria-expanded={!group.collapsed}
+        aria-label={group.collapsed ? t('button.expand', 'Expand group') : t('button.collapse', 'Collapse group')}
+        className='h-7 w-7 rounded-[4px] p-0.5'
+        onClick={() => toggleCollapsed(group.id, !group.collapsed)}
+        size='icon'
+        type='button'
+        variant='ghost'
+      >
+        <ArrowIcon aria-hidden='true' className={cn('h-5 w-5 text-icon-primary', !group.collapsed && 'rotate-90')} />
+      </Button>
+      <span className='truncate font-medium'>{group.label}</span>
+      <span className='px-1 text-text-secondary'>{group.rows.length}</span>
+    </div>
+  );
+}
+
+export function Timeline() {
+  const { t } = useTranslation();
+  const grouping = useTimelineGrouping();
+  const { fieldId, zoom } = useTimelineLayoutSettings();
+  const updateSettings = useUpdateTimelineLayoutSettings();
+  const getZoomLabel = useTimelineZoomLabel();
+  const readOnly = useReadOnly();
+  const { onRendered } = useDatabaseContext();
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const rowOrders = grouping.rowOrders;
+  const items = useTimelineItemsSelector(rowOrders, fieldId);
+  const itemById = useMemo(() => new Map(items.map((item) => [item.rowId, item] as const)), [items]);
+  const bounds = useMemo(() => {
+    const ranges = items
+      .map((item) => getTimelineBarRange(item.cell))
+      .filter((range): range is TimelineBarRange => Boolean(range));
+
+    return getTimelineBounds(ranges, zoom);
+  }, [items, zoom]);
+  const ticks = useMemo(() => getTimelineTicks(bounds, zoom), [bounds, zoom]);
+  const dayWidth = TIMELINE_DAY_WIDTH[zoom];
+  const width = getTimelineDayOffset(bounds.start, bounds.end) * dayWidth;
+  const todayOffset = getTimelineDayOffset(bounds.start, dayjs()) * dayWidth;
+
+  useEffect(() => {
+    if (rowOrders !== undefined && grouping.ready) onRendered?.();
+  }, [grouping.ready, onRendered, rowOrders]);
+
+  const scrollToToday = () => {
+    const container = scrollRef.current;
+
+    if (!container) return;
+    container.scrollLeft = Math.max(todayOffset - (container.clientWidth - TIMELINE_LABEL_WIDTH) / 2, 0);
+  };
+
+  // Open on today rather than on the padded start of the range.
+  useEffect(() => {
+    scrollToToday();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [zoom]);
+
+  const renderRows = (rows: { id: string }[]) =>
+    fieldId
+      ? rows.map((row) => (
+          <TimelineRow
+            fieldId={fieldId}
+            item={itemById.get(row.id) ?? { rowId: row.id, title: '' }}
+            key={row.id}
+            readOnly={readOnly}
+            timelineStart={bounds.start}
+            width={width}
+            zoom={zoom}
+          />
+        ))
+      : null;
+
+  return (
+    <div className='flex h-full min-h-0 w-full flex-col' data-testid='database-timeline'>
+      <div className='flex items-center gap-1 px-4 py-2'>
+        {TIMELINE_ZOOM_LEVELS.map((level) => (
+          <Button
+            className={cn('h-7 px-2 text-xs', level === zoom && 'bg-fill-content-hover')}
+            data-testid={`timeline-zoom-${level}`}
+            disabled={readOnly}
+            key={level}
+            onClick={() => updateSettings({ zoom: level })}
+            size='sm'
+            variant='ghost'
+          >
+            {getZoomLabel(level)}
+          </Button>
+        ))}
+        <Button className='ml-auto h-7 px-2 text-xs' onClick={scrollToToday} size='sm' variant='outline'>
+          {t('calendar.navigation.today', { defaultValue: 'Today' })}
+        </Button>
+      </div>
+
+      {!fieldId ? (
+        <div className='flex flex-1 items-center justify-center text-sm text-text-tertiary' data-testid='timeline-empty'>
+          {t('grid.timeline.noDateField', {
+            defaultValue: 'Choose a date property in the Timeline settings to place rows on the timeline',
+          })}
+        </div>
+      ) : (
+        <div className='appflowy-custom-scroller relative min-h-0 flex-1 overflow-auto' ref={scrollRef}>
+          <div className='relative' style={{ width: TIMELINE_LABEL_WIDTH + width }}>
+            <div className='sticky top-0 z-[3] flex border-b border-border-primary bg-background-primary'>
+              <div
+                className='sticky left-0 z-[2] shrink-0 border-r border-border-primary bg-background-primary'
+                style={{ width: TIMELINE_LABEL_WIDTH }}
+              />
+              <div className='relative h-8 shrink-0' style={{ width }}>
+                {ticks.map((tick) => (
+                  <div
+                    className='absolute inset-y-0 truncate border-l border-border-primary px-1 text-xs leading-8 text-text-secondary'
+                    key={tick.date.valueOf()}
+                    style={{ left: tick.offset * dayWidth, width: tick.span * dayWidth }}
+                  >
+                    {formatTick(tick, zoom)}
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div
+              aria-hidden='true'
+              className='pointer-events-none absolute bottom-0 top-8 z-[1] w-px bg-fill-theme-thick'
+              data-testid='timeline-today'
+              style={{ left: TIMELINE_LABEL_WIDTH + todayOffset }}
+            />
+
+            {grouping.isGrouped
+              ? grouping.visibleGroups.map((group) => (
+                  <section data-group-id={group.id} key={group.id}>
+                    <TimelineGroupHeader group={group} groupConfigId={grouping.groupId} />
+                    {group.collapsed ? null : renderRows(group.rows)}
+                  </section>
+                ))
+              : renderRows(rowOrders ?? [])}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default Timeline;
@@ -0,0 +1,164 @@
+import { useCallback, useRef, useState } from 'react';
+
+import {
+  getTimelineBarRange,
+  getTimelineDayDelta,
+  getTimelineDayOffset,
+  moveTimelineCellDates,
+  resizeTimelineCellDates,
+  TIMELINE_DAY_WIDTH,
+  useDatabaseContext,
+} from '@/application/database-yjs';
+import type { TimelineItem, TimelineResizeEdge } from '@/application/database-yjs';
+import { useUpdateCellDispatch } from '@/application/database-yjs/dispatch';
+import { TimelineZoom } from '@/application/types';
+import { cn } from '@/lib/utils';
+
+import type { Dayjs } from 'dayjs';
+import type { PointerEvent as ReactPointerEvent } from 'react';
+
+type DragMode = 'move' | TimelineResizeEdge;
+
+interface DragState {
+  mode: DragMode;
+  originX: number;
+  days: number;
+}
+
+/** Pixels a pointer may travel before a press on a bar counts as a drag rather than a click. */
+const DRAG_THRESHOLD = 3;
+
+export function TimelineBar({
+  item,
+  fieldId,
+  timelineStart,
+  zoom,
+  readOnly,
+}: {
+  item: TimelineItem;
+  fieldId: string;
+  timelineStart: Dayjs;
+  zoom: TimelineZoom;
+  readOnly: boolean;
+}) {
+  const { navigateToRow } = useDatabaseContext();
+  const updateCell = useUpdateCellDispatch(item.rowId, fieldId);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const movedRef = useRef(false);
+  const barRef = useRef<HTMLDivElement>(null);
+  const range = getTimelineBarRange(item.cell);
+  const dayWidth = TIMELINE_DAY_WIDTH[zoom];
+
+  const handlePointerDown = useCallback(
+    (mode: DragMode) => (event: ReactPointerEvent<HTMLElement>) => {
+      if (readOnly || event.button !== 0) return;
+
+      // Resize handles sit inside the bar; capture on the bar so every drag
+      // reports through the same move/up handlers.
+      event.stopPropagation();
+      barRef.current?.setPointerCapture(event.pointerId);
+      movedRef.current = false;
+      setDrag({ mode, originX: event.clientX, days: 0 });
+    },
+    [readOnly]
+  );
+
+  const handlePointerMove = useCallback(
+    (event: ReactPointerEvent<HTMLDivElement>) => {
+      if (!drag) return;
+
+      const deltaX = event.clientX - drag.originX;
+
+      if (Math.abs(deltaX) > DRAG_THRESHOLD) movedRef.current = true;
+
+      const days = getTimelineDayDelta(deltaX, zoom);
+
+      if (days !== drag.days) setDrag({ ...drag, days });
+    },
+    [drag, zoom]
+  );
+
+  const handlePointerUp = useCallback(
+    (event: ReactPointerEvent<HTMLDivElement>) => {
+      if (!drag) return;
+
+      event.currentTarget.releasePointerCapture(event.pointerId);
+      setDrag(null);
+
+      const cell = item.cell;
+
+      if (!cell || drag.days === 0) return;
+
+      if (drag.mode === 'move') {
+        const next = moveTimelineCellDates(cell, drag.days);
+
+        updateCell(next.data, {
+          endTimestamp: next.endTimestamp,
+          includeTime: cell.includeTime,
+          isRange: cell.isRange,
+        });
+        return;
+      }
+
+      const next = resizeTimelineCellDates(cell, drag.mode, drag.days);
+
+      updateCell(next.data, {
+        endTimestamp: next.endTimestamp,
+        includeTime: cell.includeTime,
+        isRange: true,
+      });
+    },
+    [drag, item.cell, updateCell]
+  );
+
+  if (!range) return null;
+
+  // Preview the drag locally and only write the cell once the pointer is released.
+  const startShift = drag && drag.mode !== 'end' ? drag.days : 0;
+  const endShift = drag && drag.mode !== 'start' ? drag.days : 0;
+  const startOffset = getTimelineDayOffset(timelineStart, range.start) + startShift;
+  const endOffset = Math.max(getTimelineDayOffset(timelineStart, range.end) + endShift, startOffset);
+
+  return (
+    <div
+      className={cn(
+        'group/timeline-bar absolute top-1.5 flex h-6 min-w-[8px] items-center rounded-[6px] bg-fill-theme-select text-xs text-text-primary',
+        'border border-transparent hover:border-fill-theme-thick',
+        readOnly ? 'cursor-pointer' : 'cursor-grab',
+        drag && 'cursor-grabbing border-fill-theme-thick shadow-sm'
+      )}
+      data-testid={`timeline-bar-${item.rowId}`}
+      onClick={() => {
+        if (movedRef.current) return;
+        navigateToRow?.(item.rowId);
+      }}
+      onPointerCancel={() => setDrag(null)}
+      onPointerDown={handlePointerDown('move')}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      ref={barRef}
+      style={{
+        left: startOffset * dayWidth,
+        width: (endOffset - startOffset + 1) * dayWidth,
+      }}
+    >
+      {!readOnly ? (
+        <span
+          aria-hidden='true'
+          className='absolute inset-y-0 left-0 w-1.5 cursor-ew-resize rounded-l-[6px] opacity-0 group-hover/timeline-bar:bg-fill-theme-thick group-hover/timeline-bar:opacity-100'
+          data-testid='timeline-bar-resize-start'
+          onPointerDown={handlePointerDown('start')}
+        />
+      ) : null}
+      <span className='truncate px-2'>{item.title}</span>
+      {!readOnly ? (
+        <span
+          aria-hidden='true'
+          className='absolute inset-y-0 right-0 w-1.5 cursor-ew-resize rounded-r-[6px] opacity-0 group-hover/timeline-bar:bg-fill-theme-thick group-hover/timeline-bar:opacity-100'
+          data-testid='timeline-bar-resize-end'
+          onPointerDown={handlePointerDown('end')}
+        />
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import { createContext, type ReactNode, useContext, useEffect, useLayoutEffect, useRef } from 'react';
+
+import { useTimelineGroupingSelector } from '@/application/database-yjs';
+import type { DatabaseGrouping } from '@/application/database-yjs';
+import { useSyncDatabaseGroupColumnsDispatch } from '@/application/database-yjs/dispatch';
+import { consumeLocalDatabaseGroupInitialization } from '@/application/database-yjs/group-column';
+
+const TimelineGroupingContext = createContext<DatabaseGrouping | undefined>(undefined);
+
+export function useTimelineGrouping() {
+  const grouping = useContext(TimelineGroupingContext);
+
+  if (!grouping) throw new Error('useTimelineGrouping must be used within TimelineGroupingProvider');
+
+  return grouping;
+}
+
+function useSyncTimelineGroupingMetadata(grouping: DatabaseGrouping) {
+  const syncGroupColumns = useSyncDatabaseGroupColumnsDispatch(grouping.groupId);
+  const metadataGroupIdsRef = useRef(grouping.metadataGroupIds ?? grouping.activeGroupIds);
+  const metadataInitializationGroupRef = useRef(grouping.metadataInitializationGroup);
+  const hasMetadataGroupIds = grouping.metadataGroupIds !== undefined;
+  const hasPendingMetadataInitialization = grouping.metadataInitializationGroup !== undefined;
+
+  useLayoutEffect(() => {
+    metadataGroupIdsRef.current = grouping.metadataGroupIds ?? grouping.activeGroupIds;
+    metadataInitializationGroupRef.current = grouping.metadataInitializationGroup;
+  }, [grouping.activeGroupIds, grouping.metadataGroupIds, grouping.metadataInitializationGroup]);
+
+  useEffect(() => {
+    if (!grouping.isGrouped || !grouping.ready || !hasMetadataGroupIds) return;
+
+    syncGroupColumns(metadataGroupIdsRef.current);
+
+    const initializationGroup = metadataInitializationGroupRef.current;
+
+    if (initializationGroup) consumeLocalDatabaseGroupInitialization(initializationGroup);
+  }, [
+    grouping.isGrouped,
+    grouping.metadataSyncKey,
+    grouping.ready,
+    hasMetadataGroupIds,
+    hasPendingMetadataInitialization,
+    syncGroupColumns,
+  ]);
+}
+
+/** Share one Timeline grouping selector between the renderer and its settings. */
+export function TimelineGroupingProvider({ children }: { children: ReactNode }) {
+  const grouping = useTimelineGroupingSelector();
+
+  useSyncTimelineGroupingMetadata(grouping);
+
+  return <TimelineGroupingContext.Provider value={grouping}>{children}</TimelineGroupingContext.Provider>;
+}
@@ -0,0 +1,2 @@
+export { Timeline, default } from './Timeline';
+export { TimelineGroupingProvider, useTimelineGrouping } from './TimelineGroupingContext';
@@ -0,0 +1,24 @@
+import { useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+
+import { TimelineZoom } from '@/application/types';
+
+export function useTimelineZoomLabel() {
+  const { t } = useTranslation();
+
+  return useCallback(
+    (zoom: TimelineZoom) => {
+      switch (zoom) {
+        case TimelineZoom.Day:
+          return t('grid.timeline.zoomDay', { defaultValue: 'Day' });
+        case TimelineZoom.Week:
+          return t('grid.timeline.zoomWeek', { defaultValue: 'Week' });
+        case TimelineZoom.Month:
+          return t('grid.timeline.zoomMonth', { defaultValue: 'Month' });
+        case TimelineZoom.Quarter:
+          return t('grid.timeline.zoomQuarter', { defaultValue: 'Quarter' });
+      }
+    },
+    [t]
+  );
+}
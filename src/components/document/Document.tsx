@@ -9,9 +9,10 @@ import {
 } from '@/application/awareness';
 import { YjsEditor } from '@/application/slate-yjs';
 import { appendFirstEmptyParagraph } from '@/application/slate-yjs/utils/yjs';
-import { ViewComponentProps, YjsEditorKey, YSharedRoot } from '@/application/types';
+import { UIVariant, ViewComponentProps, YjsEditorKey, YSharedRoot } from '@/application/types';
 import { getUserIconUrl } from '@/application/user-metadata';
 import EditorSkeleton from '@/components/_shared/skeleton/EditorSkeleton';
+import { LinkedFrom } from '@/components/backlinks';
 import { useAppAwareness } from '@/components/app/app.hooks';
 import { useCurrentUserWorkspaceAvatar } from '@/components/app/useWorkspaceMemberProfile';
 import { Editor } from '@/components/editor';
@@ -170,6 +171,16 @@ export const Document = (props: DocumentProps) => {
         uploadFile={uploadFile}
         onFocus={handleBlur}
       />
+      {!isTemplateThumb && props.variant !== UIVariant.Publish && (
+        <LinkedFrom
+          workspaceId={props.workspaceId}
+          viewId={viewMeta.viewId}
+          viewName={viewMeta.name}
+          loadViewMeta={props.loadViewMeta}
+          navigateToView={props.navigateToView}
+          maxWidth={952}
+        />
+      )}
       <Suspense fallback={<EditorSkeleton />}>
         <div className={'relative flex w-full justify-center'}>
           <Editor
@@ -182,6 +193,7 @@ export const Document = (props: DocumentProps) => {
             onSelectionChange={handleSyncCursor}
             awareness={awareness}
             databaseRelations={viewMeta.database_relations}
+            showOutlinePanel={!isTemplateThumb}
             {...props}
             mentionContext={mentionContext}
           />
@@ -1,10 +1,14 @@
 import { Dialog, DialogContent, DialogTitle } from '@mui/material';
+import { format } from 'date-fns';
 import { memo, useCallback, useEffect, useId, useMemo, useRef, useState } from 'react';
 import { useTranslation } from 'react-i18next';
+import { toast } from 'sonner';
 import * as Y from 'yjs';
 
 import { CollabVersionRecord } from '@/application/collab-version.type';
-import { Types, ViewIcon } from '@/application/types';
+import { openCollabDB } from '@/application/db';
+import { Types, ViewIcon, YDoc } from '@/application/types';
+import { diffDocumentVersions, restoreVersionBlock } from '@/application/version-diff';
 import ComponentLoading from '@/components/_shared/progress/ComponentLoading';
 import {
   useAppOperations,
@@ -19,10 +23,17 @@ import { useSubscriptionPlan } from '@/components/app/hooks/useSubscriptionPlan'
 import { Editor } from '@/components/editor';
 import { EditorContextState } from '@/components/editor/EditorContext';
 import { useCurrentUser } from '@/components/main/app.hooks';
+import { Button } from '@/components/ui/button';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { cn } from '@/lib/utils';
 import { Log } from '@/utils/log';
 
 import { VersionList } from './DocumentHistoryVersionList';
+import { DocumentVersionDiff } from './DocumentVersionDiff';
+import { SaveVersionDialog } from './SaveVersionDialog';
+
+/** Compare target meaning the live document rather than a saved version. */
+const CURRENT_DOCUMENT = 'current';
 
 type PreviewEditorProps = Pick<
   EditorContextState,
@@ -103,7 +114,7 @@ export function DocumentHistoryModal({
   };
 }) {
   const { loadViewMeta, createRow, getViewIdFromDatabaseId, loadView, bindViewSync } = useAppOperations();
-  const { getCollabHistory, previewCollabVersion, revertCollabVersion } = useCollabHistory();
+  const { getCollabHistory, previewCollabVersion, revertCollabVersion, createCollabVersion } = useCollabHistory();
   const getSubscriptions = useGetSubscriptions();
   const eventEmitter = useEventEmitter();
   const getMentionUser = useGetMentionUser();
@@ -122,6 +133,12 @@ export function DocumentHistoryModal({
   const previewYDocRef = useRef<Map<string, Y.Doc>>(new Map());
   const [activeDoc, setActiveDoc] = useState<Y.Doc | null>(null);
   const [isRestoring, setIsRestoring] = useState(false);
+  const [compareMode, setCompareMode] = useState(false);
+  const [compareTargetId, setCompareTargetId] = useState<string>(CURRENT_DOCUMENT);
+  const [compareDoc, setCompareDoc] = useState<Y.Doc | null>(null);
+  // Bumped after a block restore so a diff against the live document is recomputed.
+  const [liveRevision, setLiveRevision] = useState(0);
+  const [saveOpen, setSaveOpen] = useState(false);
   const selectedVersionIdRef = useRef(selectedVersionId);
   const activeViewIdRef = useRef(viewId);
   const versionsRef = useRef(versions);
@@ -238,6 +255,99 @@ export function DocumentHistoryModal({
 
   const handleClose = useCallback(() => onOpenChange(false), [onOpenChange]);
 
+  const loadVersionDoc = useCallback(
+    async (versionId: string) => {
+      const cachedDoc = previewYDocRef.current.get(versionId);
+
+      if (cachedDoc || !previewCollabVersion) {
+        return cachedDoc ?? null;
+      }
+
+      const doc = await previewCollabVersion(viewId, versionId, Types.Document);
+
+      if (!doc) {
+        return null;
+      }
+
+      previewYDocRef.current.set(versionId, doc);
+      return doc;
+    },
+    [previewCollabVersion, viewId]
+  );
+
+  const versionTitle = useCallback(
+    (versionId: string) => {
+      if (versionId === CURRENT_DOCUMENT) {
+        return t('versionHistory.currentVersion', 'Current version');
+      }
+
+      const version = versions.find((v) => v.versionId === versionId);
+
+      return version ? version.name || format(version.createdAt, 'PPpp') : '';
+    },
+    [versions, t]
+  );
+
+  // The diff always reads from the older document to the newer one; the live
+  // document is newer than every saved version.
+  const versionDiff = useMemo(() => {
+    if (!compareMode || !activeDoc || !compareDoc) {
+      return null;
+    }
+
+    const selected = versions.find((v) => v.versionId === selectedVersionId);
+    const target = versions.find((v) => v.versionId === compareTargetId);
+    const selectedIsOlder =
+      compareTargetId === CURRENT_DOCUMENT || !selected || !target || selected.createdAt <= target.createdAt;
+    const [oldDoc, newDoc] = selectedIsOlder ? [activeDoc, compareDoc] : [compareDoc, activeDoc];
+
+    return {
+      diff: diffDocumentVersions(oldDoc as YDoc, newDoc as YDoc),
+      restoreFrom: selectedIsOlder ? ('old' as const) : ('new' as const),
+    };
+    // liveRevision: the live document was edited in place by a block restore
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [compareMode, activeDoc, compareDoc, versions, selectedVersionId, compareTargetId, liveRevision]);
+
+  const handleRestoreBlock = useCallback(
+    async (blockId: string) => {
+      if (!activeDoc || !viewId) {
+        return;
+      }
+
+      try {
+        const liveDoc = await openCollabDB(viewId);
+
+        if (restoreVersionBlock(liveDoc, activeDoc as YDoc, blockId)) {
+          setLiveRevision((revision) => revision + 1);
+          toast.success(t('versionHistory.diff.blockRestored', 'Block restored'));
+        }
+      } catch (err) {
+        Log.error('Failed to restore block from version', err);
+        toast.error(err instanceof Error ? err.message : String(err));
+      }
+    },
+    [activeDoc, viewId, t]
+  );
+
+  const handleSaveVersion = useCallback(
+    async (name: string) => {
+      if (!viewId || !createCollabVersion) {
+        return;
+      }
+
+      try {
+        await createCollabVersion(viewId, name);
+        toast.success(t('versionHistory.versionSaved', 'Version saved'));
+        await refreshVersions();
+      } catch (err) {
+        Log.error('Failed to save document version', err);
+        toast.error(err instanceof Error ? err.message : String(err));
+      }
+    },
+    [viewId, createCollabVersion, refreshVersions, t]
+  );
+
   useEffect(() => {
     if (!open) {
       return;
@@ -309,9 +419,40 @@ export function DocumentHistoryModal({
     };
   }, [open, previewCollabVersion, selectedVersionId, viewId, clearPreviewDocs]);
 
+  useEffect(() => {
+    if (!open || !compareMode || !viewId) {
+      setCompareDoc(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    void (async () => {
+      try {
+        const doc =
+          compareTargetId === CURRENT_DOCUMENT ? await openCollabDB(viewId) : await loadVersionDoc(compareTargetId);
+
+        if (!cancelled) {
+          setCompareDoc(doc);
+        }
+      } catch (error) {
+        if (!cancelled) {
+          Log.warn('Failed to load document version to compare', error);
+          setCompareDoc(null);
+        }
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, compareMode, compareTargetId, viewId, loadVersionDoc]);
+
   useEffect(() => {
     setVersions([]);
     setSelectedVersionId('');
+    setCompareMode(false);
+    setCompareTargetId(CURRENT_DOCUMENT);
     setError(null);
     setLoading(open);
     setActiveDoc(null);
@@ -339,25 +480,76 @@ export function DocumentHistoryModal({
     >
       <DialogContent data-testid='version-history-modal' className='flex h-full w-full overflow-hidden p-0'>
         <div className='order-2 flex min-h-0 min-w-0 flex-1 flex-col overflow-hidden rounded-t-2xl md:order-1 md:rounded-l-2xl md:rounded-tr-none'>
-          <DialogTitle id={titleId} className='border-b border-border px-6 py-4 text-base font-bold text-text-primary'>
-            {view?.name || t('untitled')}
-          </DialogTitle>
+          <div className='flex items-center gap-2 border-b border-border px-6 py-4'>
+            <DialogTitle id={titleId} className='min-w-0 flex-1 truncate !p-0 text-base font-bold text-text-primary'>
+              {view?.name || t('untitled')}
+            </DialogTitle>
+            {compareMode && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    data-testid='version-history-compare-target'
+                    variant='ghost'
+                    size='sm'
+                    className='max-w-[280px]'
+                  >
+                    <span className='truncate'>
+                      {t('versionHistory.compareWith', {
+                        defaultValue: 'Compare with {{version}}',
+                        version: versionTitle(compareTargetId),
+                      })}
+                    </span>
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align='end' className='max-h-[360px] overflow-y-auto'>
+                  {[CURRENT_DOCUMENT, ...versions.map((v) => v.versionId)]
+                    .filter((versionId) => versionId !== selectedVersionId)
+                    .map((versionId) => (
+                      <DropdownMenuItem key={versionId} onSelect={() => setCompareTargetId(versionId)}>
+                        {versionTitle(versionId)}
+                      </DropdownMenuItem>
+                    ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+            <Button
+              data-testid='version-history-compare-toggle'
+              variant={compareMode ? 'default' : 'outline'}
+              size='sm'
+              disabled={!selectedVersionId}
+              onClick={() => setCompareMode((value) => !value)}
+            >
+              {t('versionHistory.compare', 'Compare')}
+            </Button>
+          </div>
           <div className='min-h-0 flex-1 overflow-hidden'>
-            <VersionPreviewBody
-              loading={loading}
-              error={error}
-              activeDoc={activeDoc}
-              workspaceId={workspaceId}
-              viewId={viewId}
-              loadView={loadView}
-              bindViewSync={bindViewSync}
-              loadViewMeta={loadViewMeta}
-              createRow={createRow}
-              eventEmitter={eventEmitter}
-              getMentionUser={getMentionUser}
-              getViewIdFromDatabaseId={getViewIdFromDatabaseId}
-              loadDatabaseRelations={loadDatabaseRelations}
-            />
+            {compareMode ? (
+              versionDiff ? (
+                <DocumentVersionDiff
+                  diff={versionDiff.diff}
+                  restoreFrom={versionDiff.restoreFrom}
+                  onRestoreBlock={handleRestoreBlock}
+                />
+              ) : (
+                <ComponentLoading />
+              )
+            ) : (
+              <VersionPreviewBody
+                loading={loading}
+                error={error}
+                activeDoc={activeDoc}
+                workspaceId={workspaceId}
+                viewId={viewId}
+                loadView={loadView}
+                bindViewSync={bindViewSync}
+                loadViewMeta={loadViewMeta}
+                createRow={createRow}
+                eventEmitter={eventEmitter}
+                getMentionUser={getMentionUser}
+                getViewIdFromDatabaseId={getViewIdFromDatabaseId}
+                loadDatabaseRelations={loadDatabaseRelations}
+              />
+            )}
           </div>
         </div>
         <div className='order-1 flex w-full max-w-full flex-col rounded-r-2xl border-border-primary bg-surface-container-layer-01 md:order-2 md:w-[280px] md:border-l'>
@@ -373,9 +565,11 @@ export function DocumentHistoryModal({
             isRestoring={isRestoring}
             onClose={handleClose}
             isPro={isPro}
+            onSaveVersion={createCollabVersion ? () => setSaveOpen(true) : undefined}
           />
         </div>
       </DialogContent>
+      <SaveVersionDialog open={saveOpen} onOpenChange={setSaveOpen} onSave={handleSaveVersion} />
     </Dialog>
   );
 }
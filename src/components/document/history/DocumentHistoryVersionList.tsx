@@ -1,15 +1,19 @@
 import { format } from 'date-fns';
-import { memo, useCallback } from 'react';
+import { memo, useCallback, useMemo } from 'react';
 import { useTranslation } from 'react-i18next';
 
 import { CollabVersionRecord } from '@/application/collab-version.type';
+import { MentionablePerson } from '@/application/types';
 import { ReactComponent as CloseIcon } from '@/assets/icons/close.svg';
 import { ReactComponent as CrownIcon } from '@/assets/icons/crown.svg';
 import { ReactComponent as FilterIcon } from '@/assets/icons/filter.svg';
+import { ReactComponent as SaveIcon } from '@/assets/icons/save_as.svg';
 // import { ReactComponent as InfoIcon } from '@/assets/icons/info.svg';
 import { ReactComponent as TickIcon } from '@/assets/icons/tick.svg';
 import { ReactComponent as TimeIcon } from '@/assets/icons/time.svg';
 import { ReactComponent as UserIcon } from '@/assets/icons/user.svg';
+import { useMentionableUsersWithAutoFetch } from '@/components/database/components/cell/person/useMentionableUsers';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
 import {
   DropdownMenu,
@@ -21,6 +25,7 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { Separator } from '@/components/ui/separator';
 import { Switch } from '@/components/ui/switch';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 import { cn } from '@/lib/utils';
 
 export const VersionList = memo(function VersionList({
@@ -35,6 +40,7 @@ export const VersionList = memo(function VersionList({
   onRestoreClicked,
   isRestoring = false,
   onClose,
+  onSaveVersion,
 }: {
   versions: CollabVersionRecord[];
   selectedVersionId: string;
@@ -47,8 +53,10 @@ export const VersionList = memo(function VersionList({
   onRestoreClicked?: () => void;
   isRestoring?: boolean;
   onClose?: () => void;
+  onSaveVersion?: () => void;
 }) {
   const { t } = useTranslation();
+  const { usersByUid } = useMentionableUsersWithAutoFetch(versions.length > 0);
   const handleSelectAll = useCallback((event: Event) => {
     event.preventDefault();
     onDateFilterChange('all');
@@ -79,6 +87,22 @@ export const VersionList = memo(function VersionList({
             <InfoIcon className='h-5 w-5' />
           </Button>*/}
         </div>
+        {onSaveVersion && (
+          <Tooltip disableHoverableContent delayDuration={500}>
+            <TooltipTrigger asChild>
+              <Button
+                data-testid="version-history-save-button"
+                variant='ghost'
+                size='icon'
+                className='text-icon-secondary'
+                onClick={onSaveVersion}
+              >
+                <SaveIcon className='h-5 w-5' />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>{t('versionHistory.saveVersion', 'Save version')}</TooltipContent>
+          </Tooltip>
+        )}
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
             <Button variant='ghost' size='icon' className='text-icon-secondary'>
@@ -147,6 +171,9 @@ export const VersionList = memo(function VersionList({
               key={version.versionId}
               id={version.versionId}
               title={title}
+              subtitle={version.name ? format(createdAt, 'PPpp') : undefined}
+              editors={version.editors}
+              usersByUid={usersByUid}
               selected={selectedVersionId === version.versionId}
               isFirst={index === 0}
               isLast={index === versions.length - 1}
@@ -181,9 +208,53 @@ export const VersionList = memo(function VersionList({
   );
 });
 
+const MAX_EDITOR_AVATARS = 3;
+
+const VersionEditors = memo(function VersionEditors({
+  editors,
+  usersByUid,
+}: {
+  editors: number[];
+  usersByUid: ReadonlyMap<string, MentionablePerson>;
+}) {
+  const people = useMemo(
+    () =>
+      editors.map((uid) => {
+        const user = usersByUid.get(uid.toString());
+
+        return { uid, name: user?.name || user?.email || `User ${uid}`, avatar: user?.avatar_url || undefined };
+      }),
+    [editors, usersByUid]
+  );
+
+  if (people.length === 0) return null;
+
+  return (
+    <Tooltip disableHoverableContent delayDuration={500}>
+      <TooltipTrigger asChild>
+        <span data-testid="version-history-editors" className='flex -space-x-1.5'>
+          {people.slice(0, MAX_EDITOR_AVATARS).map((person) => (
+            <Avatar key={person.uid} size='xs' className='border border-surface-container-layer-01'>
+              <AvatarImage src={person.avatar} alt={person.name} />
+              <AvatarFallback>{person.name}</AvatarFallback>
+            </Avatar>
+          ))}
+          {people.length > MAX_EDITOR_AVATARS && (
+            <span className='ml-2.5 text-xs text-text-tertiary'>+{people.length - MAX_EDITOR_AVATARS}</span>
+          )}
+        </span>
+      </TooltipTrigger>
+      <TooltipContent>{people.map((person) => person.name).join(', ')}</TooltipContent>
+    </Tooltip>
+  );
+});
+
 const VersionListItem = memo(function VersionListItem({
   id,
   title,
+  subtitle,
+  editors,
+  usersByUid,
   selected,
   isFirst = false,
   isLast = false,
@@ -191,6 +262,9 @@ const VersionListItem = memo(function VersionListItem({
 }: {
   id: string;
   title: string;
+  subtitle?: string;
+  editors: number[];
+  usersByUid: ReadonlyMap<string, MentionablePerson>;
   selected: boolean;
   isFirst: boolean;
   isLast: boolean;
@@ -220,8 +294,10 @@ const VersionListItem = memo(function VersionListItem({
       >
         <div className={cn('h-2 w-2 rounded-100', selected ? 'bg-fill-content-hover' : 'group-hover:bg-fill-content-hover')} />
       </div>
-      <span className='ml-8 flex flex-1 flex-col items-start py-3 text-sm'>
+      <span className='ml-8 flex min-w-0 flex-1 flex-col items-start gap-1 py-3 text-sm'>
         <span className={selected ? 'font-medium text-text-info' : 'text-text-primary'}>{title}</span>
+        {subtitle && <span className='text-xs text-text-tertiary'>{subtitle}</span>}
+        <VersionEditors editors={editors} usersByUid={usersByUid} />
       </span>
     </Button>
   );
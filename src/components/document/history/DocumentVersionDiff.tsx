@@ -0,0 +1,122 @@
+import { memo } from 'react';
+import { useTranslation } from 'react-i18next';
+
+import { VersionBlockDiff } from '@/application/version-diff';
+import { ReactComponent as RestoreIcon } from '@/assets/icons/restore.svg';
+import { Button } from '@/components/ui/button';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { cn } from '@/lib/utils';
+
+const DiffBlock = memo(function DiffBlock({
+  block,
+  restorable,
+  onRestore,
+}: {
+  block: VersionBlockDiff;
+  restorable: boolean;
+  onRestore: (blockId: string) => void;
+}) {
+  const { t } = useTranslation();
+
+  return (
+    <div
+      data-testid={`version-diff-block-${block.blockId}`}
+      data-status={block.status}
+      className={cn(
+        'group flex items-start gap-2 rounded-300 border-l-2 py-1 pr-1',
+        block.status === 'inserted' && 'border-border-success-thick bg-fill-success-light',
+        block.status === 'deleted' && 'border-border-error-thick bg-fill-error-light',
+        block.status === 'changed' && 'border-border-theme-thick',
+        block.status === 'unchanged' && 'border-transparent'
+      )}
+      style={{ paddingLeft: 12 + block.depth * 24 }}
+    >
+      <div
+        className={cn(
+          'min-w-0 flex-1 whitespace-pre-wrap break-words text-sm text-text-primary',
+          block.status === 'deleted' && 'line-through'
+        )}
+      >
+        {block.segments.map((segment, index) => (
+          <span
+            key={index}
+            className={cn(
+              segment.status === 'inserted' && block.status === 'changed' && 'bg-fill-success-light',
+              segment.status === 'deleted' && block.status === 'changed' && 'bg-fill-error-light line-through'
+            )}
+          >
+            {segment.text}
+          </span>
+        ))}
+        {block.segments.length === 0 && (
+          <span className='text-text-tertiary'>
+            {t('versionHistory.diff.emptyBlock', { defaultValue: '{{type}} block', type: block.type })}
+          </span>
+        )}
+        {block.dataChanged && (
+          <span className='ml-2 text-xs text-text-tertiary'>
+            {t('versionHistory.diff.propertiesChanged', 'Formatting changed')}
+          </span>
+        )}
+      </div>
+      {restorable && (
+        <Tooltip disableHoverableContent delayDuration={500}>
+          <TooltipTrigger asChild>
+            <Button
+              data-testid={`version-diff-restore-${block.blockId}`}
+              variant='ghost'
+              size='icon-sm'
+              className='shrink-0 opacity-0 group-hover:opacity-100'
+              onClick={() => onRestore(block.blockId)}
+            >
+              <RestoreIcon className='h-4 w-4' />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent>{t('versionHistory.diff.restoreBlock', 'Restore this block only')}</TooltipContent>
+        </Tooltip>
+      )}
+    </div>
+  );
+});
+
+/**
+ * Comparison of two versions, read top to bottom: blocks only
+ * the newer version has are green, blocks it dropped are red and struck
+ * through, and edited blocks highlight the changed words.
+ */
+export const DocumentVersionDiff = memo(function DocumentVersionDiff({
+  diff,
+  restoreFrom,
+  onRestoreBlock,
+}: {
+  diff: VersionBlockDiff[];
+  /** Which side of the diff the selected version is; its blocks can be restored. */
+  restoreFrom: 'old' | 'new';
+  onRestoreBlock: (blockId: string) => void;
+}) {
+  const { t } = useTranslation();
+  const hasChanges = diff.some((block) => block.status !== 'unchanged');
+
+  return (
+    <div data-testid='version-diff' className='appflowy-scroller flex h-full flex-col gap-1 overflow-y-auto px-6 py-4'>
+      {!hasChanges && (
+        <div className='flex flex-1 items-center justify-center text-sm text-text-tertiary'>
+          {t('versionHistory.diff.noChanges', 'No differences between these versions')}
+        </div>
+      )}
+      {hasChanges &&
+        diff.map((block) => (
+          <DiffBlock
+            key={`${block.status}-${block.blockId}`}
+            block={block}
+            restorable={
+              block.status !== 'unchanged' && block.status !== (restoreFrom === 'old' ? 'inserted' : 'deleted')
+            }
+            onRestore={onRestoreBlock}
+          />
+        ))}
+    </div>
+  );
+});
+
+export default DocumentVersionDiff;
@@ -0,0 +1,87 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+
+/** Asks for a name and saves the document's current state as a version. */
+export function SaveVersionDialog({
+  open,
+  onOpenChange,
+  onSave,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (name: string) => Promise<void>;
+}) {
+  const { t } = useTranslation();
+  const [name, setName] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) setName('');
+  }, [open]);
+
+  const handleSave = useCallback(async () => {
+    const trimmed = name.trim();
+
+    if (!trimmed) return;
+
+    setSaving(true);
+    try {
+      await onSave(trimmed);
+      onOpenChange(false);
+    } finally {
+      setSaving(false);
+    }
+  }, [name, onOpenChange, onSave]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent data-testid='version-history-save-dialog' size='sm'>
+        <DialogHeader>
+          <DialogTitle>{t('versionHistory.saveVersion', 'Save version')}</DialogTitle>
+        </DialogHeader>
+        <DialogDescription>
+          {t('versionHistory.saveVersionDescription', 'Give the current state of this page a name to find it later.')}
+        </DialogDescription>
+        <Input
+          data-testid='version-history-save-name'
+          autoFocus
+          value={name}
+          placeholder={t('versionHistory.versionName', 'Version name')}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              void handleSave();
+            }
+          }}
+        />
+        <DialogFooter>
+          <Button variant='outline' onClick={() => onOpenChange(false)}>
+            {t('button.cancel')}
+          </Button>
+          <Button
+            data-testid='version-history-save-confirm'
+            disabled={!name.trim() || saving}
+            loading={saving}
+            onClick={() => void handleSave()}
+          >
+            {t('button.save')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default SaveVersionDialog;
@@ -1,5 +1,5 @@
 import { expect } from '@jest/globals';
-import { render, waitFor } from '@testing-library/react';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
 import * as Y from 'yjs';
 
 import { DocumentHistoryModal } from '../DocumentHistoryModal';
@@ -28,6 +28,28 @@ jest.mock('@/components/editor', () => ({
 jest.mock('@/components/_shared/progress/ComponentLoading', () => () => null);
 jest.mock('../DocumentHistoryVersionList', () => ({ VersionList: () => null }));
 
+let lastDiffProps: Record<string, unknown> | null = null;
+
+jest.mock('../DocumentVersionDiff', () => ({
+  DocumentVersionDiff: (props: Record<string, unknown>) => {
+    lastDiffProps = props;
+    return null;
+  },
+}));
+
+const liveDoc = new Y.Doc();
+
+jest.mock('@/application/db', () => ({
+  openCollabDB: jest.fn(() => Promise.resolve(liveDoc)),
+}));
+
+const diffDocumentVersions = jest.fn(() => []);
+
+jest.mock('@/application/version-diff', () => ({
+  diffDocumentVersions: (...args: unknown[]) => diffDocumentVersions(...(args as [])),
+  restoreVersionBlock: jest.fn(),
+}));
+
 jest.mock('react-i18next', () => ({
   useTranslation: () => ({ t: (key: string) => key }),
 }));
@@ -71,6 +93,7 @@ jest.mock('@/components/main/app.hooks', () => ({
 describe('DocumentHistoryModal version preview', () => {
   beforeEach(() => {
     lastEditorProps = null;
+    lastDiffProps = null;
     jest.clearAllMocks();
 
     getCollabHistory.mockResolvedValue([
@@ -112,4 +135,33 @@ describe('DocumentHistoryModal version preview', () => {
     expect(lastEditorProps?.loadDatabaseRelations).toBe(loadDatabaseRelations);
     expect(lastEditorProps?.readOnly).toBe(true);
   });
+
+  it('compares the selected version with the current document', async () => {
+    const versionDoc = new Y.Doc();
+
+    previewCollabVersion.mockResolvedValue(versionDoc);
+
+    render(
+      <DocumentHistoryModal
+        open
+        onOpenChange={jest.fn()}
+        viewId="view-1"
+        view={{ name: 'Project Tracker 2', icon: null }}
+      />
+    );
+
+    await waitFor(() => {
+      expect(lastEditorProps).not.toBeNull();
+    });
+
+    fireEvent.click(screen.getByTestId('version-history-compare-toggle'));
+
+    await waitFor(() => {
+      expect(lastDiffProps).not.toBeNull();
+    });
+
+    // The saved version is older than the live document, so it is the old side.
+    expect(diffDocumentVersions).toHaveBeenCalledWith(versionDoc, liveDoc);
+    expect(lastDiffProps?.restoreFrom).toBe('old');
+  });
 });
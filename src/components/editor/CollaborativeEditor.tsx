@@ -10,6 +10,7 @@ import { withYHistory } from '@/application/slate-yjs/plugins/withHistory';
 import { withYjs, YjsEditor } from '@/application/slate-yjs/plugins/withYjs';
 import { ensureValidSelection } from '@/application/slate-yjs/utils/transformSelection';
 import { CollabOrigin, YDoc } from '@/application/types';
+import { useBacklinkIndexer } from '@/components/backlinks';
 import { FindReplaceProvider } from '@/components/editor/components/find-replace/FindReplaceContext';
 import EditorEditable from '@/components/editor/Editable';
 import { useEditorContext } from '@/components/editor/EditorContext';
@@ -96,6 +97,14 @@ function CollaborativeEditor({
   const [contentClock, setClock] = useState(0);
   const databaseBlocksRef = useRef<Map<string, DatabaseBlockInfo>>(new Map());
   const pendingDatabaseViewDeletionRef = useRef<Map<string, ReturnType<typeof setTimeout>>>(new Map());
+
+  useBacklinkIndexer(doc, {
+    enabled: !readOnly,
+    workspaceId: context.workspaceId,
+    viewId,
+    mentionContext: context.mentionContext,
+  });
+
   const onContentChange = useCallback(
     (content: Descendant[]) => {
       const wordCount = getTextCount(content);
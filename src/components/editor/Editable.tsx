@@ -12,12 +12,15 @@ import { BlockPopoverProvider } from '@/components/editor/components/block-popov
 import { useDecorate } from '@/components/editor/components/blocks/code/useDecorate';
 import { useFindReplaceDecorations } from '@/components/editor/components/find-replace/FindReplaceContext';
 import { Leaf } from '@/components/editor/components/leaf';
+import { FootnotesSection, getFootnotes } from '@/components/editor/components/leaf/footnote';
+import { OutlinePanel } from '@/components/editor/components/outline-panel';
 import HrefPopover from '@/components/editor/components/leaf/href/HrefPopover';
 import { LeafContext } from '@/components/editor/components/leaf/leaf.hooks';
 import { PanelProvider } from '@/components/editor/components/panels/PanelsContext';
 import { RemoteSelectionsLayer } from '@/components/editor/components/remote-selections';
 import { useEditorContext, useEditorLocalState } from '@/components/editor/EditorContext';
 import { InlineCommentEditorControls } from '@/components/inline-comment/editor/InlineCommentEditorControls';
+import { useInlineCommentComposeOptional } from '@/components/inline-comment/InlineCommentContext';
 import { useShortcuts } from '@/components/editor/shortcut.hooks';
 import { ElementFallbackRender } from '@/components/error/ElementFallbackRender';
 import { getScrollParent } from '@/components/global-comment/utils';
@@ -64,13 +67,26 @@ function scrollSelectionIntoView(_editor: ReactEditor, domRange: globalThis.Rang
 }
 
 const EditorEditable = () => {
-  const { canComment = false, readOnly, viewId, workspaceId, fullWidth, contentPadding = 'page' } = useEditorContext();
+  const {
+    canComment = false,
+    readOnly,
+    viewId,
+    workspaceId,
+    fullWidth,
+    showOutlinePanel,
+    contentPadding = 'page',
+  } = useEditorContext();
   const { decorateState } = useEditorLocalState();
   const { getMatchDecorations } = useFindReplaceDecorations();
   const editor = useSlate();
+  const inlineComments = useInlineCommentComposeOptional();
+  // Suggesting mode only takes text edits, so the block tools stay hidden.
+  const suggesting = Boolean(inlineComments?.suggesting && inlineComments.isEditorRegistered(editor as YjsEditor));
   const contentPaddingClassName = contentPadding === 'template' ? 'px-[60px] max-sm:px-6' : 'px-24 max-sm:px-6';
 
   const codeDecorate = useDecorate(editor);
+  const footnotes = useMemo(() => getFootnotes(editor.children), [editor.children]);
+  const [footnotesHeight, setFootnotesHeight] = React.useState(0);
 
   const decorate = useCallback(
     ([, path]: NodeEntry): BaseRange[] => {
@@ -204,6 +220,8 @@ const EditorEditable = () => {
                 contentPaddingClassName,
                 fullWidth ? 'w-full' : 'w-[952px]'
               )}
+              // Keeps the footnotes clear of the click-to-append area below the content
+              style={footnotesHeight ? { paddingBottom: `calc(14rem + ${footnotesHeight}px)` } : undefined}
               renderLeaf={Leaf}
               renderElement={renderElement}
               readOnly={readOnly}
@@ -214,18 +232,19 @@ const EditorEditable = () => {
               onCompositionStart={readOnly ? undefined : onCompositionStart}
               onKeyDown={readOnly ? undefined : onKeyDown}
               onMouseDown={handleMouseDown}
-              onClick={readOnly ? undefined : handleClick}
+              onClick={readOnly || suggesting ? undefined : handleClick}
             />
           </ErrorBoundary>
 
-          {!readOnly && (
+          {!readOnly && !suggesting && (
             <Suspense>
               <EditorOverlay workspaceId={workspaceId} viewId={viewId} />
               <HrefPopover open={!!linkOpen} onClose={handleCloseLinkPopover} />
             </Suspense>
           )}
 
-          {canComment && <InlineCommentEditorControls readOnly={readOnly} />}
+          {/* Without the toolbar, the floating trigger is how a suggester starts a comment. */}
+          {canComment && <InlineCommentEditorControls readOnly={readOnly || suggesting} />}
 
           <div className={cn('pointer-events-none absolute left-0 right-0 top-0 flex h-full justify-center')}>
             <div
@@ -240,6 +259,26 @@ const EditorEditable = () => {
               </ErrorBoundary>
             </div>
           </div>
+
+          {showOutlinePanel && (
+            <ErrorBoundary fallback={null}>
+              <OutlinePanel />
+            </ErrorBoundary>
+          )}
+
+          {footnotes.length > 0 && (
+            <div className={'pointer-events-none absolute bottom-56 left-0 right-0 flex justify-center'}>
+              <div
+                className={cn(
+                  fullWidth ? 'w-full' : 'w-[952px]',
+                  'pointer-events-auto min-w-0 max-w-full',
+                  contentPaddingClassName
+                )}
+              >
+                <FootnotesSection footnotes={footnotes} onHeightChange={setFootnotesHeight} />
+              </div>
+            </div>
+          )}
         </LeafContext.Provider>
       </BlockPopoverProvider>
     </PanelProvider>
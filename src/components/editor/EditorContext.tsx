@@ -74,6 +74,8 @@ export interface EditorLocalState {
  */
 export interface EditorContextState {
   fullWidth?: boolean;
+  /** Show the floating heading navigator on the right of the page. */
+  showOutlinePanel?: boolean;
   contentPadding?: EditorContentPadding;
   workspaceId: string;
   viewId: string;
@@ -130,6 +132,7 @@ export const EditorLocalStateContext = createContext<EditorLocalState | undefine
 export const EditorContextProvider = ({
   children,
   fullWidth,
+  showOutlinePanel,
   contentPadding,
   workspaceId,
   viewId,
@@ -223,6 +226,7 @@ export const EditorContextProvider = ({
   const configValue = useMemo(
     () => ({
       fullWidth,
+      showOutlinePanel,
       contentPadding,
       workspaceId,
       viewId,
@@ -273,6 +277,7 @@ export const EditorContextProvider = ({
     }),
     [
       fullWidth,
+      showOutlinePanel,
       contentPadding,
       workspaceId,
       viewId,
@@ -507,6 +507,9 @@ const parsedBlockToTextNodes = (block: ParsedBlock): Text[] => {
         case 'bgColor':
           attributes.bg_color = format.data?.bgColor;
           break;
+        case 'footnote':
+          attributes.footnote = format.data?.footnote;
+          break;
       }
     });
 
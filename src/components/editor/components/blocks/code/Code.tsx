@@ -1,11 +1,14 @@
-import { forwardRef, lazy, Suspense, useState } from 'react';
-import { Element } from 'slate';
+import { forwardRef, lazy, Suspense, useMemo, useState } from 'react';
+import { Element, Node } from 'slate';
 import { ReactEditor, useReadOnly, useSlateStatic } from 'slate-react';
 
 import { useCodeBlock } from '@/components/editor/components/blocks/code/Code.hooks';
 import { CodeNode, EditorElementProps } from '@/components/editor/editor.type';
+import { cn } from '@/lib/utils';
 
+import CodeLines, { getGutterWidth } from './CodeLines';
 import CodeToolbar from './CodeToolbar';
+import { getCodeLines, hasCodeLineDecorations, isCodeWrapped } from './lines';
 import LanguageSelect from './SelectLanguage';
 
 const MermaidChat = lazy(() => import('./MermaidChat'));
@@ -14,7 +17,16 @@ export const CodeBlock = forwardRef<HTMLDivElement, EditorElementProps<CodeNode>
   ({ node, children, ...attributes }, ref) => {
     const { language, handleChangeLanguage } = useCodeBlock(node);
     const [showToolbar, setShowToolbar] = useState(false);
+    const [optionsOpen, setOptionsOpen] = useState(false);
     const isMermaid = language === 'mermaid';
+    const { data } = node;
+    const wrap = isCodeWrapped(data);
+    const fileName = data.file_name?.trim();
+    const showLines = !isMermaid && hasCodeLineDecorations(data);
+    const lines = useMemo(
+      () => (showLines ? getCodeLines(Node.string(node), data) : []),
+      [showLines, node, data]
+    );
 
     const editor = useSlateStatic();
     const readOnly = useReadOnly() || editor.isElementReadOnly(node as unknown as Element);
@@ -32,6 +44,7 @@ export const CodeBlock = forwardRef<HTMLDivElement, EditorElementProps<CodeNode>
             contentEditable={false}
             style={{
               visibility: showToolbar ? 'visible' : 'hidden',
+              top: fileName ? 36 : 0,
             }}
             className={'absolute flex h-12 w-full select-none items-center px-2'}
           >
@@ -50,20 +63,38 @@ export const CodeBlock = forwardRef<HTMLDivElement, EditorElementProps<CodeNode>
           </div>
         }
 
-        <div {...attributes} ref={ref} className={`${attributes.className ?? ''} flex w-full`}>
-          <pre
-            spellCheck={false}
-            className={`appflowy-scroller relative flex w-full flex-col overflow-auto rounded-[8px] border border-border-primary bg-fill-list-active p-5 pt-12`}
-          >
-            <code
+        <div {...attributes} ref={ref} className={`${attributes.className ?? ''} flex w-full flex-col`}>
+          {fileName && (
+            <div
+              contentEditable={false}
+              data-testid={'code-block-file-name'}
               className={
-                isMermaid
-                  ? 'pointer-events-none absolute h-px w-px overflow-hidden opacity-0'
-                  : undefined
+                'flex h-9 select-none items-center truncate rounded-t-[8px] border border-b-0 border-border-primary bg-fill-list-hover px-5 text-sm text-text-secondary'
               }
             >
-              {children}
-            </code>
+              {fileName}
+            </div>
+          )}
+          <pre
+            spellCheck={false}
+            className={cn(
+              'appflowy-scroller relative flex w-full flex-col overflow-auto rounded-[8px] border border-border-primary bg-fill-list-active p-5 pt-12',
+              fileName && 'rounded-t-none'
+            )}
+          >
+            <div className={cn('relative', wrap ? 'w-full' : 'w-max min-w-full')}>
+              {showLines && <CodeLines lines={lines} lineNumbers={Boolean(data.line_numbers)} wrap={wrap} />}
+              <code
+                style={data.line_numbers && showLines ? { paddingLeft: getGutterWidth(lines.length) } : undefined}
+                className={cn(
+                  'block',
+                  !wrap && '[&_.text-element]:whitespace-pre',
+                  isMermaid && 'pointer-events-none absolute h-px w-px overflow-hidden opacity-0'
+                )}
+              >
+                {children}
+              </code>
+            </div>
             {isMermaid && (
               <Suspense>
                 <MermaidChat node={node} />
@@ -72,7 +103,15 @@ export const CodeBlock = forwardRef<HTMLDivElement, EditorElementProps<CodeNode>
           </pre>
         </div>
 
-        {showToolbar && <CodeToolbar node={node} />}
+        {(showToolbar || optionsOpen) && (
+          <CodeToolbar
+            node={node}
+            readOnly={readOnly}
+            optionsOpen={optionsOpen}
+            onOptionsOpenChange={setOptionsOpen}
+            style={{ top: fileName ? 40 : undefined }}
+          />
+        )}
       </div>
     );
   }
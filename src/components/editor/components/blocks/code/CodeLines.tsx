@@ -0,0 +1,52 @@
+import { memo } from 'react';
+
+import { cn } from '@/lib/utils';
+
+import { CodeLine } from './lines';
+
+export function getGutterWidth(lineCount: number) {
+  return `calc(${String(lineCount).length}ch + 16px)`;
+}
+
+/**
+ * Per-line backgrounds and line numbers, drawn behind the editable code. Each
+ * row repeats its line's text invisibly with the same font and wrapping, so a
+ * soft-wrapped line stretches its row and the rows stay aligned with the code.
+ */
+function CodeLines({ lines, lineNumbers, wrap }: { lines: CodeLine[]; lineNumbers: boolean; wrap: boolean }) {
+  const gutterWidth = getGutterWidth(lines.length);
+
+  return (
+    <div
+      contentEditable={false}
+      data-testid={'code-lines'}
+      className={'pointer-events-none absolute inset-0 select-none leading-[1.5em]'}
+      aria-hidden
+    >
+      {lines.map((line) => (
+        <div
+          key={line.number}
+          data-diff={line.diff ?? undefined}
+          data-highlighted={line.highlighted || undefined}
+          className={cn(
+            'flex',
+            line.highlighted && 'bg-fill-warning-light',
+            line.diff === 'added' && 'bg-fill-success-light',
+            line.diff === 'removed' && 'bg-fill-error-light'
+          )}
+        >
+          {lineNumbers && (
+            <span style={{ width: gutterWidth }} className={'shrink-0 pr-4 text-right text-text-tertiary'}>
+              {line.number}
+            </span>
+          )}
+          <span className={cn('invisible min-w-0 flex-1', wrap ? 'whitespace-pre-wrap' : 'whitespace-pre')}>
+            {line.text || ' '}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default memo(CodeLines);
@@ -0,0 +1,98 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useSlateStatic } from 'slate-react';
+
+import { YjsEditor } from '@/application/slate-yjs';
+import { CustomEditor } from '@/application/slate-yjs/command';
+import { CodeBlockData } from '@/application/types';
+import { CodeNode } from '@/components/editor/editor.type';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+
+import { isCodeWrapped } from './lines';
+
+type CodeToggleKey = 'line_numbers' | 'wrap' | 'diff';
+
+/** Per-block display options of a code block, stored in its block data. */
+function CodeOptions({ node }: { node: CodeNode }) {
+  const { t } = useTranslation();
+  const editor = useSlateStatic() as YjsEditor;
+  const { data, blockId } = node;
+  const [fileName, setFileName] = useState(data.file_name ?? '');
+  const [highlightLines, setHighlightLines] = useState(data.highlight_lines ?? '');
+
+  useEffect(() => {
+    setFileName(data.file_name ?? '');
+  }, [data.file_name]);
+
+  useEffect(() => {
+    setHighlightLines(data.highlight_lines ?? '');
+  }, [data.highlight_lines]);
+
+  const update = (patch: Partial<CodeBlockData>) => {
+    CustomEditor.setBlockData(editor, blockId, patch);
+  };
+
+  const toggles: { key: CodeToggleKey; label: string; checked: boolean }[] = [
+    {
+      key: 'line_numbers',
+      label: t('document.codeBlock.lineNumbers', 'Line numbers'),
+      checked: Boolean(data.line_numbers),
+    },
+    { key: 'wrap', label: t('document.codeBlock.wrap', 'Wrap lines'), checked: isCodeWrapped(data) },
+    { key: 'diff', label: t('document.codeBlock.diff', 'Diff highlighting'), checked: Boolean(data.diff) },
+  ];
+
+  const commitText = (key: 'file_name' | 'highlight_lines', value: string) => {
+    if ((data[key] ?? '') === value.trim()) return;
+    update({ [key]: value.trim() });
+  };
+
+  return (
+    <div data-testid={'code-block-options'} className={'flex w-[260px] flex-col gap-3 p-3 text-sm'}>
+      {toggles.map(({ key, label, checked }) => (
+        <label key={key} className={'flex cursor-pointer items-center justify-between gap-2'}>
+          <span>{label}</span>
+          <Switch
+            data-testid={`code-block-option-${key}`}
+            checked={checked}
+            onCheckedChange={(value) => update({ [key]: value })}
+          />
+        </label>
+      ))}
+      <div className={'flex flex-col gap-1.5'}>
+        <Label htmlFor={`code-file-name-${blockId}`}>{t('document.codeBlock.fileName', 'File name')}</Label>
+        <Input
+          id={`code-file-name-${blockId}`}
+          data-testid={'code-block-option-file-name'}
+          value={fileName}
+          placeholder={t('document.codeBlock.fileNamePlaceholder', 'e.g. src/index.ts')}
+          onChange={(e) => setFileName(e.target.value)}
+          onBlur={() => commitText('file_name', fileName)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commitText('file_name', fileName);
+          }}
+        />
+      </div>
+      <div className={'flex flex-col gap-1.5'}>
+        <Label htmlFor={`code-highlight-lines-${blockId}`}>
+          {t('document.codeBlock.highlightLines', 'Highlight lines')}
+        </Label>
+        <Input
+          id={`code-highlight-lines-${blockId}`}
+          data-testid={'code-block-option-highlight-lines'}
+          value={highlightLines}
+          placeholder={'1-3, 7'}
+          onChange={(e) => setHighlightLines(e.target.value)}
+          onBlur={() => commitText('highlight_lines', highlightLines)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commitText('highlight_lines', highlightLines);
+          }}
+        />
+      </div>
+    </div>
+  );
+}
+
+export default CodeOptions;
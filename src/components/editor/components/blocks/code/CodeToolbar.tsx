@@ -1,14 +1,30 @@
-import { memo } from 'react';
+import { CSSProperties, memo } from 'react';
 import { useTranslation } from 'react-i18next';
 import { ReactEditor, useSlateStatic } from 'slate-react';
 
 import { ReactComponent as CopyIcon } from '@/assets/icons/copy.svg';
+import { ReactComponent as SettingsIcon } from '@/assets/icons/settings.svg';
 import { notify } from '@/components/_shared/notify';
 import ActionButton from '@/components/editor/components/toolbar/selection-toolbar/actions/ActionButton';
 import { CodeNode } from '@/components/editor/editor.type';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { copyTextToClipboard } from '@/utils/copy';
 
-function CodeToolbar({ node }: { node: CodeNode }) {
+import CodeOptions from './CodeOptions';
+
+function CodeToolbar({
+  node,
+  readOnly,
+  optionsOpen,
+  onOptionsOpenChange,
+  style,
+}: {
+  node: CodeNode;
+  readOnly: boolean;
+  optionsOpen: boolean;
+  onOptionsOpenChange: (open: boolean) => void;
+  style?: CSSProperties;
+}) {
   const { t } = useTranslation();
   const editor = useSlateStatic();
   const onCopy = async () => {
@@ -20,8 +36,23 @@ function CodeToolbar({ node }: { node: CodeNode }) {
   };
 
   return (
-    <div className={'absolute right-1 top-1 z-10'}>
+    <div style={style} className={'absolute right-1 top-1 z-10'}>
       <div className={'flex space-x-1 rounded-[8px] border border-border-primary bg-fill-toolbar p-1 shadow '}>
+        {!readOnly && (
+          <Popover open={optionsOpen} onOpenChange={onOptionsOpenChange}>
+            <PopoverTrigger asChild>
+              <ActionButton
+                data-testid={'code-block-options-button'}
+                tooltip={t('document.codeBlock.options', 'Options')}
+              >
+                <SettingsIcon />
+              </ActionButton>
+            </PopoverTrigger>
+            <PopoverContent align={'end'} onCloseAutoFocus={(e) => e.preventDefault()}>
+              <CodeOptions node={node} />
+            </PopoverContent>
+          </Popover>
+        )}
         <ActionButton onClick={onCopy} tooltip={t('editor.copy')}>
           <CopyIcon />
         </ActionButton>
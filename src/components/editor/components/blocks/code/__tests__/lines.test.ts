@@ -0,0 +1,41 @@
+import { getCodeLines, getDiffLineType, hasCodeLineDecorations, isCodeWrapped, parseLineRanges } from '../lines';
+
+describe('code block lines', () => {
+  it('parses line ranges and skips malformed parts', () => {
+    expect(Array.from(parseLineRanges('1-3, 7,  9 - 8, x, 0, 4-', 10))).toEqual([1, 2, 3, 7, 8, 9]);
+    expect(parseLineRanges(undefined, 10).size).toBe(0);
+  });
+
+  it('clamps ranges to the lines of the block', () => {
+    expect(Array.from(parseLineRanges('2-999999999, 40', 3))).toEqual([2, 3]);
+  });
+
+  it('treats +/- lines as changes but not file headers', () => {
+    expect(getDiffLineType('+const a = 1;')).toBe('added');
+    expect(getDiffLineType('-const a = 0;')).toBe('removed');
+    expect(getDiffLineType('+++ b/index.ts')).toBeNull();
+    expect(getDiffLineType('--- a/index.ts')).toBeNull();
+    expect(getDiffLineType(' unchanged')).toBeNull();
+  });
+
+  it('marks highlighted and diff lines', () => {
+    const lines = getCodeLines('--- a.ts\n-old\n+new\nsame', { diff: true, highlight_lines: '4' });
+
+    expect(lines.map(({ number, highlighted, diff }) => ({ number, highlighted, diff }))).toEqual([
+      { number: 1, highlighted: false, diff: null },
+      { number: 2, highlighted: false, diff: 'removed' },
+      { number: 3, highlighted: false, diff: 'added' },
+      { number: 4, highlighted: true, diff: null },
+    ]);
+    expect(getCodeLines('+new', {})[0].diff).toBeNull();
+  });
+
+  it('keeps wrapping on by default and only adds the line layer when needed', () => {
+    expect(isCodeWrapped({ language: 'ts' })).toBe(true);
+    expect(isCodeWrapped({ language: 'ts', wrap: false })).toBe(false);
+    expect(hasCodeLineDecorations({ language: 'ts', wrap: false, file_name: 'a.ts' })).toBe(false);
+    expect(hasCodeLineDecorations({ language: 'ts', highlight_lines: ' ' })).toBe(false);
+    expect(hasCodeLineDecorations({ language: 'ts', line_numbers: true })).toBe(true);
+    expect(hasCodeLineDecorations({ language: 'ts', diff: true })).toBe(true);
+  });
+});
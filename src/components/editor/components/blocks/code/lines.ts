@@ -0,0 +1,65 @@
+import { CodeBlockData } from '@/application/types';
+
+export type CodeLineDiff = 'added' | 'removed';
+
+export interface CodeLine {
+  /** 1-based, as shown in the gutter. */
+  number: number;
+  text: string;
+  highlighted: boolean;
+  diff: CodeLineDiff | null;
+}
+
+/**
+ * Parses a line range list such as `1-3, 7` into 1-based line numbers of a
+ * block with `lineCount` lines. Malformed parts are skipped, reversed ranges
+ * are read either way round and lines past the end are dropped.
+ */
+export function parseLineRanges(spec: string | undefined, lineCount: number): Set<number> {
+  const lines = new Set<number>();
+
+  for (const part of (spec ?? '').split(',')) {
+    const match = /^\s*(\d+)\s*(?:-\s*(\d+)\s*)?$/.exec(part);
+
+    if (!match) continue;
+
+    const first = Number(match[1]);
+    const last = match[2] ? Number(match[2]) : first;
+    const end = Math.min(Math.max(first, last), lineCount);
+
+    for (let line = Math.max(Math.min(first, last), 1); line <= end; line++) {
+      lines.add(line);
+    }
+  }
+
+  return lines;
+}
+
+/** `+`/`-` lines of a unified diff; `+++`/`---` file headers are not changes. */
+export function getDiffLineType(line: string): CodeLineDiff | null {
+  if (line.startsWith('+') && !line.startsWith('+++')) return 'added';
+  if (line.startsWith('-') && !line.startsWith('---')) return 'removed';
+  return null;
+}
+
+export function getCodeLines(code: string, data: Pick<CodeBlockData, 'highlight_lines' | 'diff'>): CodeLine[] {
+  const texts = code.split('\n');
+  const highlighted = parseLineRanges(data.highlight_lines, texts.length);
+
+  return texts.map((text, index) => ({
+    number: index + 1,
+    text,
+    highlighted: highlighted.has(index + 1),
+    diff: data.diff ? getDiffLineType(text) : null,
+  }));
+}
+
+/** Code blocks have always soft-wrapped, so wrapping stays on unless turned off. */
+export function isCodeWrapped(data: CodeBlockData): boolean {
+  return data.wrap !== false;
+}
+
+/** Whether the block needs the per-line layer behind its code. */
+export function hasCodeLineDecorations(data: CodeBlockData): boolean {
+  return Boolean(data.line_numbers || data.diff || data.highlight_lines?.trim());
+}
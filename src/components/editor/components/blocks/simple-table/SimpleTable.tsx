@@ -1,5 +1,6 @@
 import isEqual from 'lodash-es/isEqual';
 import { Children, forwardRef, memo, useCallback, useMemo, useState } from 'react';
+import { Element, Node } from 'slate';
 import { useReadOnly } from 'slate-react';
 
 import { BlockType } from '@/application/types';
@@ -15,6 +16,7 @@ import { EditorElementProps, SimpleTableNode, SimpleTableRowNode } from '@/compo
 import './simple-table.scss';
 import { DEFAULT_COLUMN_WIDTH } from '@/components/editor/components/blocks/simple-table/const';
 
+import { evaluateSimpleTable, getCellDisplay } from './simple-table.formula';
 import { getSlateNodeType, isSimpleTableCellNode, isSimpleTableRowNode } from './simple-table.utils';
 
 const SimpleTable = memo(
@@ -22,7 +24,7 @@ const SimpleTable = memo(
     ({ node, children, className: classNameProp, ...attributes }, ref) => {
       const readOnly = useReadOnly();
       const { data, children: rows } = node;
-      const { column_widths, column_colors, enable_header_column, enable_header_row } = data;
+      const { column_widths, column_colors, column_number_formats, enable_header_column, enable_header_row } = data;
 
       const [isHoveringTable, setIsHoveringTable] = useState(false);
       const [hoveringCell, setHoveringCell] = useState<{ row: number; col: number } | null>(null);
@@ -59,6 +61,30 @@ const SimpleTable = memo(
 
         return positions;
       }, [rowNodes]);
+      const cellTexts = useMemo(
+        () =>
+          rowNodes.map((row) =>
+            row.children.filter(isSimpleTableCellNode).map((cell) =>
+              cell.children
+                .filter(Element.isElement)
+                .map((block) => Node.string(block))
+                .join('\n')
+            )
+          ),
+        [rowNodes]
+      );
+      const cellValues = useMemo(() => evaluateSimpleTable(cellTexts), [cellTexts]);
+      const cellDisplayById = useMemo(() => {
+        const displays = new Map<string, string>();
+
+        cellPositionById.forEach(({ row, col }, blockId) => {
+          const display = getCellDisplay(cellTexts[row][col], cellValues[row][col], column_number_formats?.[col]);
+
+          if (display !== null) displays.set(blockId, display);
+        });
+
+        return displays;
+      }, [cellPositionById, cellTexts, cellValues, column_number_formats]);
 
       const columns = useMemo(() => {
         return Array.from({ length: columnCount }, (_, index) => {
@@ -119,6 +145,8 @@ const SimpleTable = memo(
         () => ({
           tableNode: node,
           cellPositionById,
+          cellValues,
+          cellDisplayById,
           rowCount: rowNodes.length,
           columnCount,
           isHoveringTable,
@@ -128,7 +156,18 @@ const SimpleTable = memo(
           isMenuOpen,
           setIsMenuOpen,
         }),
-        [node, cellPositionById, rowNodes.length, columnCount, isHoveringTable, hoveringCell, readOnly, isMenuOpen]
+        [
+          node,
+          cellPositionById,
+          cellValues,
+          cellDisplayById,
+          rowNodes.length,
+          columnCount,
+          isHoveringTable,
+          hoveringCell,
+          readOnly,
+          isMenuOpen,
+        ]
       );
 
       return (
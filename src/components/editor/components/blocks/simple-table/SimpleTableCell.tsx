@@ -1,8 +1,10 @@
-import { Children, forwardRef, useCallback, useMemo } from 'react';
+import { Children, CSSProperties, forwardRef, useCallback, useMemo } from 'react';
+import { useSelected } from 'slate-react';
 
 import { BlockType, YjsEditorKey } from '@/application/types';
 import { DEFAULT_COLUMN_WIDTH, MIN_WIDTH } from '@/components/editor/components/blocks/simple-table/const';
 import { EditorElementProps, SimpleTableCellBlockNode } from '@/components/editor/editor.type';
+import { cn } from '@/lib/utils';
 import { renderColor } from '@/utils/color';
 
 import { SimpleTableColumnResizer } from './SimpleTableColumnResizer';
@@ -17,6 +19,11 @@ const SimpleTableCell = forwardRef<HTMLTableCellElement, EditorElementProps<Simp
     const cellPosition = context?.cellPositionById.get(blockId);
     const rowIndex = cellPosition?.row ?? 0;
     const colIndex = cellPosition?.col ?? 0;
+    const selected = useSelected();
+
+    // Formulas and formatted numbers show their value until the caret enters the cell
+    const display = selected ? undefined : context?.cellDisplayById.get(blockId);
+    const isError = context?.cellValues[rowIndex]?.[colIndex]?.kind === 'error';
 
     // Read styling from context (always up-to-date)
     const tableData = context?.tableNode?.data;
@@ -61,7 +68,19 @@ const SimpleTableCell = forwardRef<HTMLTableCellElement, EditorElementProps<Simp
           position: 'relative',
         }}
       >
-        <div className={'cell-children'}>{renderedChildren}</div>
+        <div className={'relative'}>
+          <div className={cn('cell-children', display !== undefined && 'opacity-0')}>{renderedChildren}</div>
+          {display !== undefined && (
+            <div
+              contentEditable={false}
+              data-testid={'simple-table-cell-value'}
+              style={{ textAlign: horizontalAlign?.toLowerCase() as CSSProperties['textAlign'] }}
+              className={cn('cell-computed-value', isError && 'text-function-error')}
+            >
+              {display}
+            </div>
+          )}
+        </div>
         {!readOnly && <SimpleTableColumnResizer colIndex={colIndex} initialWidth={width || MIN_WIDTH} />}
       </td>
     );
@@ -2,6 +2,8 @@ import { createContext, useContext } from 'react';
 
 import { SimpleTableNode } from '@/components/editor/editor.type';
 
+import { SimpleTableCellValue } from './simple-table.formula';
+
 export interface SimpleTableCellPosition {
   row: number;
   col: number;
@@ -10,6 +12,10 @@ export interface SimpleTableCellPosition {
 export interface SimpleTableContextValue {
   tableNode: SimpleTableNode;
   cellPositionById: Map<string, SimpleTableCellPosition>;
+  /** Evaluated value of every cell, indexed by row then column. */
+  cellValues: SimpleTableCellValue[][];
+  /** Text shown in place of a cell's content while it isn't being edited. */
+  cellDisplayById: Map<string, string>;
   rowCount: number;
   columnCount: number;
   isHoveringTable: boolean;
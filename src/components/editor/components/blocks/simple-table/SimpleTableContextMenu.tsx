@@ -3,12 +3,14 @@ import { useSlateStatic } from 'slate-react';
 
 import { YjsEditor } from '@/application/slate-yjs';
 import { CustomEditor } from '@/application/slate-yjs/command';
-import { TableAlignType } from '@/application/types';
+import { TableAlignType, TableNumberFormatType } from '@/application/types';
+import { notify } from '@/components/_shared/notify';
 import Popover from '@/components/_shared/popover/Popover';
 import { renderColor } from '@/utils/color';
 
 import { MIN_WIDTH } from './const';
 import { useSimpleTableContext } from './SimpleTableContext';
+import { getSortedRowOrder } from './simple-table.formula';
 
 // Background color palette matching desktop Flutter (free tier)
 const TABLE_BG_COLORS = [
@@ -80,6 +82,32 @@ function AlignIcon() {
   );
 }
 
+function SortAscendingIcon() {
+  return (
+    <svg width="16" height="16" viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.2" strokeLinecap="round" strokeLinejoin="round">
+      <path d="M5 3v10M2.5 5.5L5 3l2.5 2.5" />
+      <path d="M9.5 5h4M9.5 8h3M9.5 11h2" />
+    </svg>
+  );
+}
+
+function SortDescendingIcon() {
+  return (
+    <svg width="16" height="16" viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.2" strokeLinecap="round" strokeLinejoin="round">
+      <path d="M5 3v10M2.5 10.5L5 13l2.5-2.5" />
+      <path d="M9.5 5h2M9.5 8h3M9.5 11h4" />
+    </svg>
+  );
+}
+
+function NumberFormatIcon() {
+  return (
+    <svg width="16" height="16" viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.2" strokeLinecap="round" strokeLinejoin="round">
+      <path d="M6 2.5l-1.5 11M11.5 2.5l-1.5 11M3 6h10.5M2.5 10h10.5" />
+    </svg>
+  );
+}
+
 function SetToPageWidthIcon() {
   return (
     <svg width="16" height="16" viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.2" strokeLinecap="round" strokeLinejoin="round">
@@ -142,6 +170,9 @@ interface MenuAction {
   alignPicker?: boolean;
   onSelectAlign?: (align: TableAlignType) => void;
   selectedAlign?: TableAlignType;
+  numberFormatPicker?: boolean;
+  onSelectNumberFormat?: (format: TableNumberFormatType | null) => void;
+  selectedNumberFormat?: TableNumberFormatType;
 }
 
 function MenuDivider() {
@@ -157,6 +188,10 @@ function MenuItem({ action }: { action: MenuAction }) {
     return <AlignMenuItem action={action} />;
   }
 
+  if (action.numberFormatPicker) {
+    return <NumberFormatMenuItem action={action} />;
+  }
+
   return (
     <button
       className="simple-table-menu-item"
@@ -299,6 +334,58 @@ function AlignMenuItem({ action }: { action: MenuAction }) {
   );
 }
 
+function NumberFormatMenuItem({ action }: { action: MenuAction }) {
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const ref = useRef<HTMLButtonElement>(null);
+  const isOpen = Boolean(anchorEl);
+
+  const formatOptions = [
+    { value: null, label: 'Plain' },
+    { value: TableNumberFormatType.Number, label: 'Number (1,234.50)' },
+    { value: TableNumberFormatType.Currency, label: 'Currency ($1,234.50)' },
+    { value: TableNumberFormatType.Percent, label: 'Percent (12.5%)' },
+  ];
+
+  return (
+    <>
+      <button
+        ref={ref}
+        className="simple-table-menu-item"
+        onClick={() => setAnchorEl(ref.current)}
+      >
+        {action.icon && <span className="simple-table-menu-item-icon">{action.icon}</span>}
+        <span>{action.label}</span>
+        <svg width="12" height="12" viewBox="0 0 12 12" fill="none" className="ml-auto text-text-caption">
+          <path d="M4.5 2.5l3.5 3.5-3.5 3.5" stroke="currentColor" strokeWidth="1.2" strokeLinecap="round" strokeLinejoin="round" />
+        </svg>
+      </button>
+      <Popover
+        open={isOpen}
+        anchorEl={anchorEl}
+        onClose={() => setAnchorEl(null)}
+        anchorOrigin={{ vertical: 'top', horizontal: 'right' }}
+        transformOrigin={{ vertical: 'top', horizontal: 'left' }}
+        slotProps={{ paper: { className: 'simple-table-context-menu' } }}
+      >
+        <div className="simple-table-menu-list" style={{ minWidth: '180px' }}>
+          {formatOptions.map((opt) => (
+            <button
+              key={opt.value ?? 'plain'}
+              className={`simple-table-menu-item ${(action.selectedNumberFormat ?? null) === opt.value ? 'active' : ''}`}
+              onClick={() => {
+                action.onSelectNumberFormat?.(opt.value);
+                setAnchorEl(null);
+              }}
+            >
+              <span>{opt.label}</span>
+            </button>
+          ))}
+        </div>
+      </Popover>
+    </>
+  );
+}
+
 // ============================================================================
 // Row/Column highlight when menu is open
 // ============================================================================
@@ -601,6 +688,23 @@ export function ColumnActionTrigger({ colIndex }: { colIndex: number }) {
   const tableBlockId = context?.tableNode.blockId ?? '';
   const colCount = context?.columnCount ?? 0;
 
+  const sortByColumn = useCallback(
+    (direction: 'asc' | 'desc') => {
+      if (context) {
+        // Keep the header row on top
+        const fromRow = context.tableNode.data.enable_header_row ? 1 : 0;
+        const order = getSortedRowOrder(context.cellValues, colIndex, direction, fromRow);
+
+        if (!CustomEditor.sortTableRows(editor, tableBlockId, order)) {
+          notify.warning('Sorting would split a range used by a formula');
+        }
+      }
+
+      handleClose();
+    },
+    [editor, tableBlockId, colIndex, context, handleClose],
+  );
+
   const actions = useMemo<MenuAction[]>(() => {
     const items: MenuAction[] = [
       {
@@ -653,6 +757,36 @@ export function ColumnActionTrigger({ colIndex }: { colIndex: number }) {
         },
         onClick: () => undefined,
       },
+      {
+        label: 'Number format',
+        icon: <NumberFormatIcon />,
+        numberFormatPicker: true,
+        selectedNumberFormat: context?.tableNode.data.column_number_formats?.[colIndex],
+        onSelectNumberFormat: (format: TableNumberFormatType | null) => {
+          const colFormats = { ...(context?.tableNode.data.column_number_formats || {}) };
+
+          if (format) {
+            colFormats[colIndex] = format;
+          } else {
+            delete colFormats[colIndex];
+          }
+
+          CustomEditor.updateTableData(editor, tableBlockId, { column_number_formats: colFormats });
+          handleClose();
+        },
+        onClick: () => undefined,
+      },
+      { label: '', divider: true, onClick: () => undefined },
+      {
+        label: 'Sort ascending',
+        icon: <SortAscendingIcon />,
+        onClick: () => sortByColumn('asc'),
+      },
+      {
+        label: 'Sort descending',
+        icon: <SortDescendingIcon />,
+        onClick: () => sortByColumn('desc'),
+      },
       { label: '', divider: true, onClick: () => undefined },
       {
         label: 'Set to page width',
@@ -723,7 +857,7 @@ export function ColumnActionTrigger({ colIndex }: { colIndex: number }) {
     ];
 
     return items;
-  }, [editor, tableBlockId, colIndex, colCount, context, handleClose]);
+  }, [editor, tableBlockId, colIndex, colCount, context, handleClose, sortByColumn]);
 
   if (!context || context.readOnly) return null;
 
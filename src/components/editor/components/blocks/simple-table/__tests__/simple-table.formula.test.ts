@@ -0,0 +1,120 @@
+import { TableNumberFormatType } from '@/application/types';
+
+import {
+  columnIndexFromLetters,
+  columnLettersFromIndex,
+  evaluateSimpleTable,
+  FormulaErrorCode,
+  getCellDisplay,
+  getSortedRowOrder,
+  parseCellNumber,
+  shiftFormulaReferences,
+  SimpleTableCellValue,
+} from '../simple-table.formula';
+
+const numbers = (values: SimpleTableCellValue[][]) =>
+  values.map((row) =>
+    row.map((value) => {
+      switch (value.kind) {
+        case 'number':
+          return value.value;
+        case 'error':
+          return value.error;
+        case 'text':
+          return value.value;
+        default:
+          return null;
+      }
+    })
+  );
+
+describe('simple table formulas', () => {
+  it('converts between column letters and indexes', () => {
+    expect(columnIndexFromLetters('A')).toBe(0);
+    expect(columnIndexFromLetters('z')).toBe(25);
+    expect(columnIndexFromLetters('AA')).toBe(26);
+    expect(columnLettersFromIndex(27)).toBe('AB');
+  });
+
+  it('reads plain cells as numbers when they look like one', () => {
+    expect(parseCellNumber('1,234.5')).toBe(1234.5);
+    expect(parseCellNumber('$12')).toBe(12);
+    expect(parseCellNumber('-50%')).toBe(-0.5);
+    expect(parseCellNumber('12,34')).toBeNull();
+    expect(parseCellNumber('12 apples')).toBeNull();
+  });
+
+  it('evaluates references, ranges and functions', () => {
+    const values = evaluateSimpleTable([
+      ['Item', 'Qty', 'Price', 'Total'],
+      ['Pen', '2', '1.5', '=B2*C2'],
+      ['Book', '1', '$12', '=B3*C3'],
+      ['', '=SUM(B2:B3)', '=AVERAGE(C2:C3)', '=ROUND(SUM(D2:D3) / COUNT(D2:D3), 1)'],
+      ['', '=-2^2 + (1 + 2) * 3', '=MAX(B2:B3, 7)', '=ABS(MIN(C2:C3) - 10)'],
+    ]);
+
+    expect(numbers(values).slice(1)).toEqual([
+      ['Pen', 2, 1.5, 3],
+      ['Book', 1, 12, 12],
+      [null, 3, 6.75, 7.5],
+      [null, 13, 7, 8.5],
+    ]);
+  });
+
+  it('reports cycles, bad references and other errors', () => {
+    const values = evaluateSimpleTable([
+      ['=B1', '=A1', '=Z9', '=1/0'],
+      ['text', '=A2+1', '=FOO(1)', '=1+'],
+      ['=SUM(A1:B1)', '=C1', '=A2:B2', '= 2 * (3'],
+    ]);
+
+    expect(numbers(values)).toEqual([
+      [FormulaErrorCode.Cycle, FormulaErrorCode.Cycle, FormulaErrorCode.Ref, FormulaErrorCode.DivideByZero],
+      ['text', FormulaErrorCode.Value, FormulaErrorCode.Name, FormulaErrorCode.Syntax],
+      [FormulaErrorCode.Cycle, FormulaErrorCode.Ref, FormulaErrorCode.Value, FormulaErrorCode.Syntax],
+    ]);
+  });
+
+  it('only replaces formulas, errors and formatted numbers on display', () => {
+    expect(getCellDisplay('=0.1+0.2', { kind: 'number', value: 0.1 + 0.2 })).toBe('0.3');
+    expect(getCellDisplay('42', { kind: 'number', value: 42 })).toBeNull();
+    expect(getCellDisplay('hi', { kind: 'text', value: 'hi' }, TableNumberFormatType.Currency)).toBeNull();
+    expect(getCellDisplay('=1/0', { kind: 'error', error: FormulaErrorCode.DivideByZero })).toBe('#DIV/0!');
+    expect(getCellDisplay('0.25', { kind: 'number', value: 0.25 }, TableNumberFormatType.Percent)).toBe('25%');
+  });
+
+  it('sorts rows by a column keeping the header and empty cells in place', () => {
+    const values = evaluateSimpleTable([['Name'], ['10'], ['b'], [''], ['2'], ['a']]);
+
+    expect(getSortedRowOrder(values, 0, 'asc', 1)).toEqual([0, 4, 1, 5, 2, 3]);
+    expect(getSortedRowOrder(values, 0, 'desc', 1)).toEqual([0, 2, 5, 1, 4, 3]);
+  });
+
+  it('shifts references when rows are inserted or deleted', () => {
+    const inserted = [0, 2, 3, 4];
+    const deleted = [0, null, 1, 2];
+    const columns = [0, 1];
+
+    expect(shiftFormulaReferences('=A2*B4 + SUM(A1:A4)', inserted, columns)).toBe('=A3*B5 + SUM(A1:A5)');
+    expect(shiftFormulaReferences('=A2+A3', deleted, columns)).toBe('=#REF!+A2');
+    expect(shiftFormulaReferences('=SUM(B2:B4)', deleted, columns)).toBe('=SUM(B2:B3)');
+    expect(shiftFormulaReferences('A2', deleted, columns)).toBe('A2');
+    expect(numbers(evaluateSimpleTable([['1', '=#REF!+A1']]))[0][1]).toBe(FormulaErrorCode.Ref);
+  });
+
+  it('follows rows moved by a sort and refuses to split a range', () => {
+    // Rows 2 and 5 swap places.
+    const sorted = [0, 4, 2, 3, 1];
+    const columns = [0, 1];
+
+    expect(shiftFormulaReferences('=A2-A5', sorted, columns)).toBe('=A5-A2');
+    expect(shiftFormulaReferences('=SUM(A2:A5)', sorted, columns)).toBe('=SUM(A2:A5)');
+    expect(shiftFormulaReferences('=SUM(A3:A4)', sorted, columns)).toBe('=SUM(A3:A4)');
+    expect(shiftFormulaReferences('=SUM(A2:A3)', sorted, columns)).toBeNull();
+  });
+
+  it('shifts column references when columns move', () => {
+    expect(shiftFormulaReferences('=A1+C1', [0, 1, 2], [2, 0, 1])).toBe('=C1+B1');
+    expect(shiftFormulaReferences('=B1', [0], [0, null, 1])).toBe('=#REF!');
+  });
+});
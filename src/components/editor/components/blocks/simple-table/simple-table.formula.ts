@@ -0,0 +1,533 @@
+/**
+ * Spreadsheet-style formulas for SimpleTable cells.
+ *
+ * A cell whose text starts with `=` is a formula over the other cells, which
+ * are addressed A1-style: columns are letters and rows are 1-based numbers,
+ * counted over the whole table including any header row. Formulas produce
+ * numbers; failures surface as spreadsheet error codes in the cell. Moving,
+ * inserting or deleting rows and columns rewrites the references like a
+ * spreadsheet does (see shiftFormulaReferences).
+ */
+
+import { TableNumberFormatType } from '@/application/types';
+
+export enum FormulaErrorCode {
+  Cycle = '#CYCLE!',
+  Ref = '#REF!',
+  Value = '#VALUE!',
+  DivideByZero = '#DIV/0!',
+  Name = '#NAME?',
+  Syntax = '#ERROR!',
+}
+
+export type SimpleTableCellValue =
+  | { kind: 'empty' }
+  | { kind: 'number'; value: number }
+  | { kind: 'text'; value: string }
+  | { kind: 'error'; error: FormulaErrorCode };
+
+interface CellRef {
+  row: number;
+  col: number;
+}
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'ref'; ref: CellRef }
+  | { type: 'name'; value: string }
+  | { type: 'op'; value: string };
+
+type Expression =
+  | { type: 'number'; value: number }
+  | { type: 'ref'; ref: CellRef }
+  | { type: 'range'; from: CellRef; to: CellRef }
+  | { type: 'unary'; op: string; operand: Expression }
+  | { type: 'binary'; op: string; left: Expression; right: Expression }
+  | { type: 'call'; name: string; args: Expression[] };
+
+class FormulaError extends Error {
+  constructor(public code: FormulaErrorCode) {
+    super(code);
+  }
+}
+
+const EMPTY: SimpleTableCellValue = { kind: 'empty' };
+
+export function isFormula(text: string): boolean {
+  return text.trim().startsWith('=');
+}
+
+/** `A` → 0, `Z` → 25, `AA` → 26. */
+export function columnIndexFromLetters(letters: string): number {
+  return (
+    letters
+      .toUpperCase()
+      .split('')
+      .reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1
+  );
+}
+
+export function columnLettersFromIndex(index: number): string {
+  let letters = '';
+
+  for (let value = index + 1; value > 0; value = Math.floor((value - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((value - 1) % 26)) + letters;
+  }
+
+  return letters;
+}
+
+/**
+ * New index of every row or column of a table after a structural change,
+ * indexed by the old position; null for one that was deleted.
+ */
+export type TableIndexMap = (number | null)[];
+
+const REFERENCE = /#REF!|([A-Za-z]+)(\d+)(?::([A-Za-z]+)(\d+))?/g;
+
+function formatReference(row: number, col: number) {
+  return `${columnLettersFromIndex(col)}${row + 1}`;
+}
+
+function mapIndex(map: TableIndexMap, index: number) {
+  // References outside the table stay as they are and keep evaluating to #REF!.
+  return index < map.length ? map[index] : index;
+}
+
+/**
+ * Where a span of rows or columns ends up: the smallest span holding every
+ * surviving index, null when none survive, or undefined when that span would
+ * also hold cells that were outside the original one, which only a sort does.
+ */
+function mapSpan(map: TableIndexMap, from: number, to: number): [number, number] | null | undefined {
+  const start = Math.min(from, to);
+  const end = Math.max(from, to);
+  const inside: number[] = [];
+
+  for (let index = start; index <= end; index++) {
+    const mapped = mapIndex(map, index);
+
+    if (mapped !== null) inside.push(mapped);
+  }
+
+  if (inside.length === 0) return null;
+
+  const min = Math.min(...inside);
+  const max = Math.max(...inside);
+  const intruder = map.some(
+    (mapped, index) => (index < start || index > end) && mapped !== null && mapped >= min && mapped <= max
+  );
+
+  return intruder ? undefined : [min, max];
+}
+
+/**
+ * Rewrite the references of a formula after rows or columns moved, so they
+ * keep pointing at the same cells. A reference to a deleted cell becomes
+ * `#REF!` and a range shrinks or grows with the cells it covers. Returns null
+ * when a range would no longer cover a contiguous block of cells, which
+ * happens when a sort scatters its rows. Text that is not a formula is
+ * returned unchanged.
+ */
+export function shiftFormulaReferences(text: string, rows: TableIndexMap, cols: TableIndexMap): string | null {
+  if (!isFormula(text)) return text;
+
+  let split = false;
+  const shifted = text.replace(
+    REFERENCE,
+    (match, fromCol?: string, fromRow?: string, toCol?: string, toRow?: string) => {
+      if (fromCol === undefined || fromRow === undefined) return match;
+
+      const rowIndex = Number(fromRow) - 1;
+      const colIndex = columnIndexFromLetters(fromCol);
+
+      if (toCol === undefined || toRow === undefined) {
+        const row = mapIndex(rows, rowIndex);
+        const col = mapIndex(cols, colIndex);
+
+        return row === null || col === null ? '#REF!' : formatReference(row, col);
+      }
+
+      const rowSpan = mapSpan(rows, rowIndex, Number(toRow) - 1);
+      const colSpan = mapSpan(cols, colIndex, columnIndexFromLetters(toCol));
+
+      if (rowSpan === undefined || colSpan === undefined) {
+        split = true;
+        return match;
+      }
+
+      if (rowSpan === null || colSpan === null) return '#REF!';
+
+      return `${formatReference(rowSpan[0], colSpan[0])}:${formatReference(rowSpan[1], colSpan[1])}`;
+    }
+  );
+
+  return split ? null : shifted;
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /\s*(?:(\d+(?:\.\d+)?|\.\d+)|([A-Za-z]+)(\d+)?|([-+*/^(),:])|(#REF!))/y;
+
+  pattern.lastIndex = 0;
+
+  while (pattern.lastIndex < source.length) {
+    if (/^\s*$/.test(source.slice(pattern.lastIndex))) break;
+
+    const match = pattern.exec(source);
+
+    if (!match) throw new FormulaError(FormulaErrorCode.Syntax);
+
+    const [, number, letters, row, op, refError] = match;
+
+    if (refError !== undefined) {
+      // A reference to a deleted cell, left behind by shiftFormulaReferences.
+      tokens.push({ type: 'ref', ref: { row: -1, col: -1 } });
+    } else if (number !== undefined) {
+      tokens.push({ type: 'number', value: Number(number) });
+    } else if (letters !== undefined && row !== undefined) {
+      tokens.push({ type: 'ref', ref: { row: Number(row) - 1, col: columnIndexFromLetters(letters) } });
+    } else if (letters !== undefined) {
+      tokens.push({ type: 'name', value: letters.toUpperCase() });
+    } else {
+      tokens.push({ type: 'op', value: op });
+    }
+  }
+
+  return tokens;
+}
+
+function parse(source: string): Expression {
+  const tokens = tokenize(source);
+  let position = 0;
+
+  const peekOp = (...ops: string[]) => {
+    const token = tokens[position];
+
+    return token?.type === 'op' && ops.includes(token.value) ? token.value : null;
+  };
+
+  const expectOp = (op: string) => {
+    if (!peekOp(op)) throw new FormulaError(FormulaErrorCode.Syntax);
+    position++;
+  };
+
+  const parseBinary = (ops: string[], next: () => Expression) => () => {
+    let left = next();
+
+    for (let op = peekOp(...ops); op; op = peekOp(...ops)) {
+      position++;
+      left = { type: 'binary', op, left, right: next() };
+    }
+
+    return left;
+  };
+
+  const parsePrimary = (): Expression => {
+    const token = tokens[position++];
+
+    if (!token) throw new FormulaError(FormulaErrorCode.Syntax);
+
+    switch (token.type) {
+      case 'number':
+        return { type: 'number', value: token.value };
+      case 'ref':
+        if (peekOp(':')) {
+          position++;
+
+          const to = tokens[position++];
+
+          if (to?.type !== 'ref') throw new FormulaError(FormulaErrorCode.Syntax);
+          return { type: 'range', from: token.ref, to: to.ref };
+        }
+
+        return { type: 'ref', ref: token.ref };
+      case 'name': {
+        const args: Expression[] = [];
+
+        expectOp('(');
+        if (!peekOp(')')) {
+          args.push(parseExpression());
+          while (peekOp(',')) {
+            position++;
+            args.push(parseExpression());
+          }
+        }
+
+        expectOp(')');
+        return { type: 'call', name: token.value, args };
+      }
+
+      case 'op': {
+        if (token.value === '-' || token.value === '+') {
+          return { type: 'unary', op: token.value, operand: parseUnary() };
+        }
+
+        if (token.value !== '(') throw new FormulaError(FormulaErrorCode.Syntax);
+
+        const inner = parseExpression();
+
+        expectOp(')');
+        return inner;
+      }
+    }
+  };
+
+  const parseUnary = (): Expression => parsePrimary();
+  const parsePower = parseBinary(['^'], parseUnary);
+  const parseTerm = parseBinary(['*', '/'], parsePower);
+  const parseExpression: () => Expression = parseBinary(['+', '-'], parseTerm);
+
+  const expression = parseExpression();
+
+  if (position !== tokens.length) throw new FormulaError(FormulaErrorCode.Syntax);
+
+  return expression;
+}
+
+/**
+ * Reads a plain cell as a number when it looks like one, allowing thousands
+ * separators, a leading currency sign and a trailing percent sign.
+ */
+export function parseCellNumber(text: string): number | null {
+  const match = /^\s*([-+]?)[$€£¥]?\s*([\d,]*\.?\d+)\s*(%?)\s*$/.exec(text);
+
+  if (!match || !/^\d{1,3}(,\d{3})*(\.\d+)?$|^\d*\.?\d+$/.test(match[2])) return null;
+
+  const value = Number(match[2].replace(/,/g, '')) * (match[1] === '-' ? -1 : 1);
+
+  return match[3] ? value / 100 : value;
+}
+
+type Aggregate = (values: number[]) => number;
+
+const AGGREGATES: Record<string, Aggregate> = {
+  SUM: (values) => values.reduce((sum, value) => sum + value, 0),
+  AVERAGE: (values) => {
+    if (values.length === 0) throw new FormulaError(FormulaErrorCode.DivideByZero);
+    return values.reduce((sum, value) => sum + value, 0) / values.length;
+  },
+  MIN: (values) => (values.length ? Math.min(...values) : 0),
+  MAX: (values) => (values.length ? Math.max(...values) : 0),
+  COUNT: (values) => values.length,
+};
+
+AGGREGATES.AVG = AGGREGATES.AVERAGE;
+
+/**
+ * Evaluates every cell of a table given as rows of cell text. Formulas are
+ * evaluated on demand with memoization, so each cell is computed once and
+ * reference cycles are caught and reported on every cell in the cycle.
+ */
+export function evaluateSimpleTable(grid: string[][]): SimpleTableCellValue[][] {
+  const cache = new Map<string, SimpleTableCellValue>();
+  const evaluating = new Set<string>();
+
+  const getCell = ({ row, col }: CellRef): SimpleTableCellValue => {
+    if (row < 0 || col < 0 || row >= grid.length || col >= (grid[row]?.length ?? 0)) {
+      return { kind: 'error', error: FormulaErrorCode.Ref };
+    }
+
+    const key = `${row}:${col}`;
+    const cached = cache.get(key);
+
+    if (cached) return cached;
+    if (evaluating.has(key)) throw new FormulaError(FormulaErrorCode.Cycle);
+
+    evaluating.add(key);
+
+    let value: SimpleTableCellValue;
+
+    try {
+      value = evaluateCell(grid[row][col]);
+    } finally {
+      evaluating.delete(key);
+    }
+
+    cache.set(key, value);
+    return value;
+  };
+
+  const toNumber = (value: SimpleTableCellValue): number => {
+    switch (value.kind) {
+      case 'empty':
+        return 0;
+      case 'number':
+        return value.value;
+      case 'error':
+        throw new FormulaError(value.error);
+      default:
+        throw new FormulaError(FormulaErrorCode.Value);
+    }
+  };
+
+  // Aggregates skip text and empty cells, like spreadsheets do.
+  const collect = (args: Expression[]): number[] =>
+    args.flatMap((arg) => {
+      if (arg.type !== 'range' && arg.type !== 'ref') return [evaluate(arg)];
+
+      const from = arg.type === 'range' ? arg.from : arg.ref;
+      const to = arg.type === 'range' ? arg.to : arg.ref;
+      const values: number[] = [];
+
+      for (let row = Math.min(from.row, to.row); row <= Math.max(from.row, to.row); row++) {
+        for (let col = Math.min(from.col, to.col); col <= Math.max(from.col, to.col); col++) {
+          const value = getCell({ row, col });
+
+          if (value.kind === 'error') throw new FormulaError(value.error);
+          if (value.kind === 'number') values.push(value.value);
+        }
+      }
+
+      return values;
+    });
+
+  const evaluate = (expression: Expression): number => {
+    switch (expression.type) {
+      case 'number':
+        return expression.value;
+      case 'ref':
+        return toNumber(getCell(expression.ref));
+      case 'range':
+        throw new FormulaError(FormulaErrorCode.Value);
+      case 'unary':
+        return expression.op === '-' ? -evaluate(expression.operand) : evaluate(expression.operand);
+      case 'binary': {
+        const left = evaluate(expression.left);
+        const right = evaluate(expression.right);
+
+        switch (expression.op) {
+          case '+':
+            return left + right;
+          case '-':
+            return left - right;
+          case '*':
+            return left * right;
+          case '/':
+            if (right === 0) throw new FormulaError(FormulaErrorCode.DivideByZero);
+            return left / right;
+          default:
+            return Math.pow(left, right);
+        }
+      }
+
+      case 'call': {
+        const aggregate = AGGREGATES[expression.name];
+
+        if (aggregate) return aggregate(collect(expression.args));
+
+        const [first, second] = expression.args.map(evaluate);
+
+        if (expression.name === 'ABS' && expression.args.length === 1) return Math.abs(first);
+        if (expression.name === 'ROUND' && expression.args.length >= 1 && expression.args.length <= 2) {
+          const factor = Math.pow(10, second ?? 0);
+
+          return Math.round(first * factor) / factor;
+        }
+
+        throw new FormulaError(FormulaErrorCode.Name);
+      }
+    }
+  };
+
+  function evaluateCell(text: string): SimpleTableCellValue {
+    const trimmed = text.trim();
+
+    if (!trimmed) return EMPTY;
+
+    if (!isFormula(trimmed)) {
+      const number = parseCellNumber(trimmed);
+
+      return number === null ? { kind: 'text', value: trimmed } : { kind: 'number', value: number };
+    }
+
+    try {
+      const value = evaluate(parse(trimmed.slice(1)));
+
+      return Number.isFinite(value)
+        ? { kind: 'number', value }
+        : { kind: 'error', error: FormulaErrorCode.DivideByZero };
+    } catch (error) {
+      if (error instanceof FormulaError) return { kind: 'error', error: error.code };
+      throw error;
+    }
+  }
+
+  return grid.map((cells, row) =>
+    cells.map((_, col) => {
+      try {
+        return getCell({ row, col });
+      } catch (error) {
+        if (error instanceof FormulaError) return { kind: 'error', error: error.code };
+        throw error;
+      }
+    })
+  );
+}
+
+export function formatCellNumber(value: number, format?: TableNumberFormatType): string {
+  switch (format) {
+    case TableNumberFormatType.Number:
+      return value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+    case TableNumberFormatType.Currency:
+      return value.toLocaleString(undefined, { style: 'currency', currency: 'USD' });
+    case TableNumberFormatType.Percent:
+      return value.toLocaleString(undefined, { style: 'percent', maximumFractionDigits: 2 });
+    default:
+      // Hide floating point noise such as 0.1 + 0.2 = 0.30000000000000004.
+      return String(Number(value.toPrecision(12)));
+  }
+}
+
+/**
+ * What a cell shows while the caret is elsewhere, or null to show its text as
+ * typed. Formulas show their result; numbers follow the column's format.
+ */
+export function getCellDisplay(
+  text: string,
+  value: SimpleTableCellValue,
+  format?: TableNumberFormatType
+): string | null {
+  if (value.kind === 'error') return value.error;
+  if (value.kind !== 'number') return null;
+  if (!isFormula(text) && !format) return null;
+
+  return formatCellNumber(value.value, format);
+}
+
+function compareCellValues(left: SimpleTableCellValue, right: SimpleTableCellValue): number {
+  const rank = (value: SimpleTableCellValue) => ({ number: 0, text: 1, error: 2, empty: 3 }[value.kind]);
+
+  if (rank(left) !== rank(right)) return rank(left) - rank(right);
+  if (left.kind === 'number' && right.kind === 'number') return left.value - right.value;
+  if (left.kind === 'text' && right.kind === 'text') {
+    return left.value.localeCompare(right.value, undefined, { numeric: true });
+  }
+
+  return 0;
+}
+
+/**
+ * Row order after sorting by one column: numbers before text, empty cells
+ * last in either direction. Rows before `fromRow` (the header) stay in place.
+ */
+export function getSortedRowOrder(
+  values: SimpleTableCellValue[][],
+  col: number,
+  direction: 'asc' | 'desc',
+  fromRow = 0
+): number[] {
+  const rows = values.map((_, index) => index);
+  const sorted = rows.slice(fromRow).sort((a, b) => {
+    const left = values[a][col] ?? EMPTY;
+    const right = values[b][col] ?? EMPTY;
+
+    if (left.kind === 'empty' || right.kind === 'empty') return compareCellValues(left, right);
+
+    const order = compareCellValues(left, right);
+
+    return direction === 'asc' ? order : -order;
+  });
+
+  return [...rows.slice(0, fromRow), ...sorted];
+}
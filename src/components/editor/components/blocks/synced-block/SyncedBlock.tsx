@@ -0,0 +1,205 @@
+import { forwardRef, memo, useCallback, useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Element } from 'slate';
+import { useReadOnly, useSlateStatic } from 'slate-react';
+
+import {
+  getSyncedBlockReferences,
+  observeSyncedBlockReferences,
+  pruneSyncedBlockReferences,
+  registerSyncedBlockReference,
+  SyncedBlockReference,
+  unregisterSyncedBlockReference,
+} from '@/application/synced-block';
+import { YjsEditor } from '@/application/slate-yjs';
+import { getBlock } from '@/application/slate-yjs/utils/yjs';
+import { ReactComponent as LinkIcon } from '@/assets/icons/link.svg';
+import EditorSkeleton from '@/components/_shared/skeleton/EditorSkeleton';
+import { Editor } from '@/components/editor/Editor';
+import { EditorElementProps, SyncedBlockNode } from '@/components/editor/editor.type';
+import { useEditorContext } from '@/components/editor/EditorContext';
+
+import { SyncedBlockAncestorsContext, useSyncedBlockAncestors } from './SyncedBlockContext';
+import { useSyncedDocument } from './useSyncedDocument';
+
+function isBlockInDocument(editor: YjsEditor, blockId: string) {
+  try {
+    return !!getBlock(blockId, editor.sharedRoot);
+  } catch {
+    return false;
+  }
+}
+
+export const SyncedBlock = memo(
+  forwardRef<HTMLDivElement, EditorElementProps<SyncedBlockNode>>(({ node, children, ...attributes }, ref) => {
+    const { t } = useTranslation();
+    const editor = useSlateStatic() as YjsEditor;
+    const readOnly = useReadOnly() || editor.isElementReadOnly(node as unknown as Element);
+    const context = useEditorContext();
+    const ancestors = useSyncedBlockAncestors();
+    const { blockId } = node;
+    const { document_id: documentId, source_view_id: sourceViewId } = node.data ?? {};
+    const isRecursive = !!documentId && ancestors.includes(documentId);
+    const { doc, notFound } = useSyncedDocument(isRecursive ? undefined : documentId);
+    const [references, setReferences] = useState<SyncedBlockReference[]>([]);
+    const nestedAncestors = useMemo(
+      () => (documentId ? [...ancestors, documentId] : ancestors),
+      [ancestors, documentId]
+    );
+
+    useEffect(() => {
+      if (!doc) return;
+
+      const update = () => setReferences(getSyncedBlockReferences(doc));
+
+      update();
+      return observeSyncedBlockReferences(doc, update);
+    }, [doc]);
+
+    // Each instance records where it lives so the header can count them.
+    useEffect(() => {
+      if (!doc || readOnly || !context.viewId) return;
+
+      registerSyncedBlockReference(doc, { blockId, viewId: context.viewId });
+
+      return () => {
+        // Unmounting also happens on navigation; only forget blocks that were removed.
+        if (isBlockInDocument(editor, blockId)) return;
+
+        unregisterSyncedBlockReference(doc, blockId);
+      };
+    }, [doc, readOnly, blockId, context.viewId, editor]);
+
+    // Instances on trashed or deleted pages, or removed while their page was
+    // closed, never unregister themselves; drop them before counting.
+    const { loadViewMeta } = context;
+
+    useEffect(() => {
+      if (!doc || readOnly || !context.viewId || !loadViewMeta) return;
+
+      const currentViewId = context.viewId;
+      const viewChecks = new Map<string, Promise<boolean>>();
+      const viewExists = (viewId: string) => {
+        let check = viewChecks.get(viewId);
+
+        if (!check) {
+          // Rejects for views in the trash and views that no longer exist.
+          check = loadViewMeta(viewId).then(
+            () => true,
+            () => false
+          );
+          viewChecks.set(viewId, check);
+        }
+
+        return check;
+      };
+
+      void pruneSyncedBlockReferences(doc, (reference) =>
+        reference.viewId === currentViewId ? isBlockInDocument(editor, reference.blockId) : viewExists(reference.viewId)
+      );
+    }, [doc, readOnly, context.viewId, loadViewMeta, editor]);
+
+    const originalBlockId = references.find((reference) => reference.viewId === sourceViewId)?.blockId;
+    const showJump = !!sourceViewId && sourceViewId !== context.viewId && !!context.navigateToView;
+
+    const handleJumpToOriginal = useCallback(() => {
+      if (!sourceViewId) return;
+
+      void context.navigateToView?.(sourceViewId, originalBlockId);
+    }, [context, sourceViewId, originalBlockId]);
+
+    const renderContent = () => {
+      if (isRecursive) {
+        return (
+          <div className='px-3 py-2 text-sm text-text-secondary'>
+            {t('document.syncedBlock.recursive', 'A synced block cannot contain itself')}
+          </div>
+        );
+      }
+
+      if (notFound || !documentId) {
+        return (
+          <div className='px-3 py-2 text-sm text-text-secondary'>
+            {t('document.syncedBlock.notFound', 'The original content of this synced block was not found')}
+          </div>
+        );
+      }
+
+      if (!doc) {
+        return <EditorSkeleton />;
+      }
+
+      const {
+        openPageModal: _openPageModal,
+        onRendered: _onRendered,
+        jumpBlockId: _jumpBlockId,
+        onJumpedBlockId: _onJumpedBlockId,
+        onWordCountChange: _onWordCountChange,
+        readSummary: _readSummary,
+        awareness: _awareness,
+        contentPadding: _contentPadding,
+        codeGrammars: _codeGrammars,
+        addCodeGrammars: _addCodeGrammars,
+        showOutlinePanel: _showOutlinePanel,
+        ...editorContext
+      } = context;
+
+      return (
+        <SyncedBlockAncestorsContext.Provider value={nestedAncestors}>
+          <Editor
+            {...editorContext}
+            fullWidth
+            viewId={documentId}
+            doc={doc}
+            readOnly={readOnly}
+            canWrite={context.canWrite ?? !readOnly}
+          />
+        </SyncedBlockAncestorsContext.Provider>
+      );
+    };
+
+    return (
+      <div {...attributes} contentEditable={readOnly ? false : undefined} className='relative w-full'>
+        <div ref={ref} className='absolute left-0 top-0 h-full w-full caret-transparent'>
+          {children}
+        </div>
+        <div
+          contentEditable={false}
+          data-testid='synced-block'
+          className='my-1 flex w-full flex-col rounded-[8px] border border-border-theme-thick'
+        >
+          <div
+            data-testid='synced-block-header'
+            className='flex h-8 select-none items-center gap-2 border-b border-border-primary px-3 text-xs text-text-secondary'
+          >
+            <LinkIcon className='h-4 w-4 text-icon-secondary' />
+            <span className='font-medium'>{t('document.syncedBlock.label', 'Synced block')}</span>
+            <span data-testid='synced-block-usage' className='flex-1 truncate'>
+              {references.length > 1
+                ? t('document.syncedBlock.editingInPlaces', {
+                    count: references.length,
+                    defaultValue: 'Editing in {{count}} places',
+                  })
+                : t('document.syncedBlock.onlyInThisPage', 'Only in this page')}
+            </span>
+            {showJump && (
+              <button
+                type='button'
+                data-testid='synced-block-jump'
+                className='text-text-action hover:underline'
+                onClick={handleJumpToOriginal}
+              >
+                {t('document.syncedBlock.jumpToOriginal', 'Jump to original')}
+              </button>
+            )}
+          </div>
+          <div className='py-1'>{renderContent()}</div>
+        </div>
+      </div>
+    );
+  }),
+  (prevProps, nextProps) =>
+    prevProps.node.blockId === nextProps.node.blockId &&
+    prevProps.node.data?.document_id === nextProps.node.data?.document_id &&
+    prevProps.node.data?.source_view_id === nextProps.node.data?.source_view_id
+);
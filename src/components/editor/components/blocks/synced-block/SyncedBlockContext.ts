@@ -0,0 +1,11 @@
+import { createContext, useContext } from 'react';
+
+/**
+ * Source documents of the synced blocks an editor is nested in, so a synced
+ * block never renders its own document inside itself.
+ */
+export const SyncedBlockAncestorsContext = createContext<readonly string[]>([]);
+
+export function useSyncedBlockAncestors() {
+  return useContext(SyncedBlockAncestorsContext);
+}
@@ -0,0 +1,67 @@
+import { useEffect, useState } from 'react';
+
+import { YDoc, YDocWithMeta, YjsEditorKey, YSharedRoot } from '@/application/types';
+import { useEditorContext } from '@/components/editor/EditorContext';
+import { Log } from '@/utils/log';
+
+/**
+ * Loads the orphaned document that holds a synced block's content and binds
+ * it to sync, so edits from every instance reach the same collab.
+ */
+export function useSyncedDocument(documentId?: string) {
+  const { loadRowDocument, bindViewSync } = useEditorContext();
+  const [doc, setDoc] = useState<YDoc | null>(null);
+  const [notFound, setNotFound] = useState(false);
+  const [hasContent, setHasContent] = useState(false);
+
+  useEffect(() => {
+    if (!documentId || !loadRowDocument) return;
+
+    let cancelled = false;
+
+    setDoc(null);
+    setNotFound(false);
+
+    loadRowDocument(documentId)
+      .then((loadedDoc) => {
+        if (cancelled) return;
+        setDoc(loadedDoc);
+        setNotFound(!loadedDoc);
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        Log.error('[SyncedBlock] failed to load source document', { documentId, error });
+        setNotFound(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [documentId, loadRowDocument]);
+
+  useEffect(() => {
+    if (!doc || !bindViewSync || (doc as YDocWithMeta)._syncBound) return;
+
+    bindViewSync(doc);
+  }, [doc, bindViewSync]);
+
+  // A source that is not cached locally is empty until its first sync.
+  useEffect(() => {
+    if (!doc) {
+      setHasContent(false);
+      return;
+    }
+
+    const sharedRoot = doc.getMap(YjsEditorKey.data_section) as YSharedRoot;
+    const update = () => setHasContent(!!sharedRoot.get(YjsEditorKey.document));
+
+    update();
+    sharedRoot.observe(update);
+
+    return () => {
+      sharedRoot.unobserve(update);
+    };
+  }, [doc]);
+
+  return { doc: hasContent ? doc : null, notFound };
+}
@@ -0,0 +1,476 @@
+import { forwardRef, memo, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Element } from 'slate';
+import { ReactEditor, useReadOnly, useSlateStatic } from 'slate-react';
+
+import { YjsEditor } from '@/application/slate-yjs';
+import { CustomEditor } from '@/application/slate-yjs/command';
+import { getWhiteboardBlockElements, observeWhiteboardBlockElements } from '@/application/slate-yjs/utils/whiteboard';
+import { generateBlockId, getBlock } from '@/application/slate-yjs/utils/yjs';
+import { WhiteboardElement, WhiteboardElementType } from '@/application/types';
+import { notify } from '@/components/_shared/notify';
+import { EditorElementProps, WhiteboardNode } from '@/components/editor/editor.type';
+import { cn } from '@/lib/utils';
+
+import { exportWhiteboardPNG, exportWhiteboardSVG, WHITEBOARD_OVERLAY_ATTRIBUTE } from './whiteboard.export';
+import {
+  createPointElement,
+  DEFAULT_WHITEBOARD_COLOR,
+  DEFAULT_WHITEBOARD_HEIGHT,
+  getElementBounds,
+  getNextZ,
+  getRemovalChanges,
+  getTextSize,
+  getWhiteboardElements,
+  hitTestElement,
+  normalizeBox,
+  STICKY_NOTE_PADDING,
+  STICKY_NOTE_SIZE,
+  TEXT_FONT_SIZE,
+  TEXT_LINE_HEIGHT,
+  WhiteboardPoint,
+} from './whiteboard.utils';
+import WhiteboardShapes from './WhiteboardShapes';
+import WhiteboardToolbar, { WhiteboardTool } from './WhiteboardToolbar';
+
+type Interaction =
+  | { kind: 'draw'; element: WhiteboardElement; points: WhiteboardPoint[] }
+  | { kind: 'box'; element: WhiteboardElement; start: WhiteboardPoint }
+  | { kind: 'move'; element: WhiteboardElement; start: WhiteboardPoint }
+  | { kind: 'connect'; element: WhiteboardElement; from: WhiteboardElement }
+  | { kind: 'erase' };
+
+// Static renders (publish) have no Yjs document, only the elements folded into the node data
+function readElements(editor: YjsEditor, node: WhiteboardNode) {
+  const block = editor.sharedRoot ? getBlock(node.blockId, editor.sharedRoot) : undefined;
+
+  return getWhiteboardElements(block ? getWhiteboardBlockElements(block) : node.data.elements ?? {});
+}
+
+export const Whiteboard = memo(
+  forwardRef<HTMLDivElement, EditorElementProps<WhiteboardNode>>(({ node, children, className, ...attributes }, ref) => {
+    const { t } = useTranslation();
+    const editor = useSlateStatic() as YjsEditor;
+    const readOnly = useReadOnly() || editor.isElementReadOnly(node as unknown as Element);
+    const { blockId, data } = node;
+    const [elements, setElements] = useState(() => readElements(editor, node));
+
+    const containerRef = useRef<HTMLDivElement>(null);
+    const svgRef = useRef<SVGSVGElement>(null);
+    const interactionRef = useRef<Interaction | null>(null);
+    const draftRef = useRef<WhiteboardElement | null>(null);
+    const [tool, setTool] = useState<WhiteboardTool>('select');
+    const [color, setColor] = useState(DEFAULT_WHITEBOARD_COLOR);
+    const [draft, setDraft] = useState<WhiteboardElement | null>(null);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [editing, setEditing] = useState<WhiteboardElement | null>(null);
+    const [editingText, setEditingText] = useState('');
+
+    // The element being drawn or dragged is shown locally and only written on release
+    const displayElements = useMemo(() => {
+      if (!draft) return elements;
+
+      return [...elements.filter((element) => element.id !== draft.id), draft].sort((a, b) => a.z - b.z);
+    }, [elements, draft]);
+
+    const showDraft = (element: WhiteboardElement | null) => {
+      draftRef.current = element;
+      setDraft(element);
+    };
+
+    // Elements are kept in their own Yjs map rather than the block data, so follow it directly
+    useEffect(() => {
+      const block = editor.sharedRoot ? getBlock(blockId, editor.sharedRoot) : undefined;
+
+      if (!block) return;
+
+      const refresh = () => setElements(getWhiteboardElements(getWhiteboardBlockElements(block)));
+
+      refresh();
+      return observeWhiteboardBlockElements(block, refresh);
+    }, [editor, blockId]);
+
+    const update = useCallback(
+      (changes: Record<string, WhiteboardElement | null>) => {
+        CustomEditor.updateWhiteboardElements(editor, blockId, changes);
+      },
+      [editor, blockId]
+    );
+
+    // Keep the caret on this block while drawing so collaborators see who is here
+    const markPresence = () => {
+      try {
+        editor.select(editor.start(ReactEditor.findPath(editor, node)));
+      } catch {
+        // The block was removed in the meantime
+      }
+    };
+
+    const getPoint = (e: React.PointerEvent | React.MouseEvent): WhiteboardPoint => {
+      const rect = svgRef.current?.getBoundingClientRect();
+
+      return [Math.round(e.clientX - (rect?.left ?? 0)), Math.round(e.clientY - (rect?.top ?? 0))];
+    };
+
+    const createElement = (type: WhiteboardElementType): WhiteboardElement => ({
+      id: generateBlockId(),
+      type,
+      x: 0,
+      y: 0,
+      width: 0,
+      height: 0,
+      z: getNextZ(elements),
+      // The default color follows the theme, so it isn't stored
+      color: color === DEFAULT_WHITEBOARD_COLOR ? undefined : color,
+    });
+
+    const startEditing = (element: WhiteboardElement) => {
+      setSelectedId(element.id);
+      setEditing(element);
+      setEditingText(element.text ?? '');
+    };
+
+    const commitEditing = () => {
+      if (!editing) return;
+
+      const latest = elements.find((element) => element.id === editing.id);
+      const text = editingText.trimEnd();
+
+      setEditing(null);
+
+      if (editing.type === WhiteboardElementType.Text) {
+        if (!text.trim()) {
+          if (latest) update(getRemovalChanges(elements, [latest.id]));
+          return;
+        }
+
+        update({ [editing.id]: { ...(latest ?? editing), text, ...getTextSize(text) } });
+        return;
+      }
+
+      if (latest && text !== (latest.text ?? '')) update({ [latest.id]: { ...latest, text } });
+    };
+
+    const eraseAt = (point: WhiteboardPoint) => {
+      const hit = hitTestElement(elements, point);
+
+      if (hit) update(getRemovalChanges(elements, [hit.id]));
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+      if (readOnly || e.button !== 0) return;
+
+      const point = getPoint(e);
+
+      e.currentTarget.setPointerCapture(e.pointerId);
+      markPresence();
+      // Focusing the board commits any open text and receives Delete and Escape
+      containerRef.current?.focus({ preventScroll: true });
+
+      switch (tool) {
+        case 'select': {
+          const hit = hitTestElement(elements, point);
+
+          setSelectedId(hit?.id ?? null);
+          if (hit && hit.type !== WhiteboardElementType.Connector) {
+            interactionRef.current = { kind: 'move', element: hit, start: point };
+          }
+
+          return;
+        }
+
+        case 'eraser':
+          interactionRef.current = { kind: 'erase' };
+          eraseAt(point);
+          return;
+        case WhiteboardElementType.Freehand:
+        case WhiteboardElementType.Arrow: {
+          const points: WhiteboardPoint[] = tool === WhiteboardElementType.Arrow ? [point, point] : [point];
+          const element = createPointElement(createElement(tool), points);
+
+          interactionRef.current = { kind: 'draw', element, points };
+          showDraft(element);
+          return;
+        }
+
+        case WhiteboardElementType.Rectangle:
+        case WhiteboardElementType.StickyNote: {
+          const element = { ...createElement(tool), x: point[0], y: point[1] };
+
+          interactionRef.current = { kind: 'box', element, start: point };
+          showDraft(element);
+          return;
+        }
+
+        case WhiteboardElementType.Connector: {
+          const from = hitTestElement(
+            elements.filter((element) => element.type !== WhiteboardElementType.Connector),
+            point
+          );
+
+          if (from) interactionRef.current = { kind: 'connect', element: createElement(tool), from };
+          return;
+        }
+
+        case WhiteboardElementType.Text:
+          startEditing({ ...createElement(tool), x: point[0], y: point[1], ...getTextSize('') });
+          return;
+      }
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+      const interaction = interactionRef.current;
+
+      if (!interaction) return;
+
+      const point = getPoint(e);
+
+      switch (interaction.kind) {
+        case 'draw':
+          interaction.points =
+            interaction.element.type === WhiteboardElementType.Arrow
+              ? [interaction.points[0], point]
+              : [...interaction.points, point];
+          showDraft(createPointElement(interaction.element, interaction.points));
+          return;
+        case 'box':
+          showDraft({
+            ...interaction.element,
+            width: point[0] - interaction.start[0],
+            height: point[1] - interaction.start[1],
+          });
+          return;
+        case 'move':
+          showDraft({
+            ...interaction.element,
+            x: interaction.element.x + point[0] - interaction.start[0],
+            y: interaction.element.y + point[1] - interaction.start[1],
+          });
+          return;
+        case 'connect': {
+          const { x, y, width, height } = getElementBounds(interaction.from);
+
+          // Preview the connector as an arrow until it lands on a target
+          showDraft(
+            createPointElement({ ...interaction.element, type: WhiteboardElementType.Arrow }, [
+              [x + width / 2, y + height / 2],
+              point,
+            ])
+          );
+          return;
+        }
+
+        case 'erase':
+          eraseAt(point);
+          return;
+      }
+    };
+
+    const handlePointerUp = (e: React.PointerEvent<SVGSVGElement>) => {
+      const interaction = interactionRef.current;
+      const current = draftRef.current;
+
+      interactionRef.current = null;
+      showDraft(null);
+
+      if (!interaction || interaction.kind === 'erase') return;
+
+      const point = getPoint(e);
+
+      switch (interaction.kind) {
+        case 'draw': {
+          if (!current) return;
+
+          const { width, height } = getElementBounds(current);
+
+          // A click with the arrow tool is not an arrow
+          if (current.type === WhiteboardElementType.Arrow && Math.hypot(width, height) < 4) return;
+          update({ [current.id]: current });
+          return;
+        }
+
+        case 'box': {
+          if (!current) return;
+
+          const box = normalizeBox(current);
+
+          if (box.type === WhiteboardElementType.StickyNote) {
+            // A click drops a note of the default size
+            const note = box.width < 24 || box.height < 24 ? { ...box, ...STICKY_NOTE_SIZE } : box;
+
+            update({ [note.id]: note });
+            startEditing(note);
+            return;
+          }
+
+          if (box.width >= 4 && box.height >= 4) update({ [box.id]: box });
+          return;
+        }
+
+        case 'move':
+          if (current && (current.x !== interaction.element.x || current.y !== interaction.element.y)) {
+            update({ [current.id]: current });
+          }
+
+          return;
+        case 'connect': {
+          const to = hitTestElement(
+            elements.filter((element) => element.type !== WhiteboardElementType.Connector),
+            point
+          );
+
+          if (!to || to.id === interaction.from.id) return;
+          update({ [interaction.element.id]: { ...interaction.element, from: interaction.from.id, to: to.id } });
+          return;
+        }
+      }
+    };
+
+    const handleDoubleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+      if (readOnly || tool !== 'select') return;
+
+      const hit = hitTestElement(elements, getPoint(e));
+
+      if (hit?.type === WhiteboardElementType.Text || hit?.type === WhiteboardElementType.StickyNote) {
+        startEditing(hit);
+      }
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+      if (readOnly || editing || !selectedId) return;
+
+      if (e.key === 'Delete' || e.key === 'Backspace') {
+        e.preventDefault();
+        e.stopPropagation();
+        update(getRemovalChanges(elements, [selectedId]));
+        setSelectedId(null);
+      } else if (e.key === 'Escape') {
+        e.stopPropagation();
+        setSelectedId(null);
+      }
+    };
+
+    const handleExport = async (format: 'svg' | 'png') => {
+      const svg = svgRef.current;
+
+      if (!svg) return;
+
+      const fileName = t('document.whiteboard.fileName', 'whiteboard');
+
+      try {
+        const exported =
+          format === 'svg'
+            ? exportWhiteboardSVG(svg, elements, fileName)
+            : await exportWhiteboardPNG(svg, elements, fileName);
+
+        if (!exported) notify.warning(t('document.whiteboard.exportEmpty', 'The whiteboard is empty'));
+      } catch (error) {
+        notify.error((error as Error).message);
+      }
+    };
+
+    const selectedElement = selectedId ? displayElements.find((element) => element.id === selectedId) : undefined;
+    const selectedBounds = selectedElement && !editing ? getElementBounds(selectedElement) : null;
+    const isStickyNote = editing?.type === WhiteboardElementType.StickyNote;
+
+    return (
+      <div
+        {...attributes}
+        contentEditable={readOnly ? false : undefined}
+        className={cn(className, 'whiteboard-block w-full')}
+      >
+        <div
+          ref={containerRef}
+          contentEditable={false}
+          tabIndex={-1}
+          onKeyDown={handleKeyDown}
+          className={'embed-block flex-col gap-0 outline-none'}
+        >
+          <WhiteboardToolbar
+            readOnly={readOnly}
+            tool={tool}
+            onToolChange={(value) => {
+              setTool(value);
+              setSelectedId(null);
+            }}
+            color={color}
+            onColorChange={setColor}
+            onExport={handleExport}
+          />
+          <div className={'relative w-full'} style={{ height: data.height ?? DEFAULT_WHITEBOARD_HEIGHT }}>
+            <svg
+              ref={svgRef}
+              data-testid={'whiteboard-canvas'}
+              className={cn(
+                'h-full w-full touch-none select-none text-text-primary',
+                !readOnly && (tool === 'select' ? 'cursor-default' : 'cursor-crosshair'),
+                !readOnly && tool === WhiteboardElementType.Text && 'cursor-text'
+              )}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onDoubleClick={handleDoubleClick}
+            >
+              <WhiteboardShapes elements={displayElements} editingId={editing?.id} />
+              {selectedBounds && (
+                <rect
+                  {...{ [WHITEBOARD_OVERLAY_ATTRIBUTE]: true }}
+                  x={selectedBounds.x - 4}
+                  y={selectedBounds.y - 4}
+                  width={selectedBounds.width + 8}
+                  height={selectedBounds.height + 8}
+                  fill={'none'}
+                  stroke={'var(--border-theme-thick)'}
+                  strokeDasharray={'4 4'}
+                  pointerEvents={'none'}
+                />
+              )}
+            </svg>
+            {elements.length === 0 && !draft && !editing && (
+              <div
+                className={
+                  'pointer-events-none absolute inset-0 flex items-center justify-center text-sm text-text-tertiary'
+                }
+              >
+                {readOnly
+                  ? t('document.whiteboard.empty', 'Empty whiteboard')
+                  : t('document.whiteboard.placeholder', 'Pick a tool above to draw, add shapes or sticky notes')}
+              </div>
+            )}
+            {editing && (
+              <textarea
+                autoFocus
+                data-testid={'whiteboard-text-input'}
+                value={editingText}
+                onChange={(e) => setEditingText(e.target.value)}
+                onBlur={commitEditing}
+                onKeyDown={(e) => {
+                  e.stopPropagation();
+                  if (e.key === 'Escape') e.currentTarget.blur();
+                }}
+                className={'absolute resize-none overflow-hidden bg-transparent p-0 outline-none'}
+                style={{
+                  left: editing.x + (isStickyNote ? STICKY_NOTE_PADDING.x : 0),
+                  top: editing.y + (isStickyNote ? STICKY_NOTE_PADDING.y : 0),
+                  width: isStickyNote ? editing.width - STICKY_NOTE_PADDING.x * 2 : 240,
+                  height: isStickyNote
+                    ? editing.height - STICKY_NOTE_PADDING.y * 2
+                    : (editingText.split('\n').length + 1) * TEXT_LINE_HEIGHT,
+                  fontSize: TEXT_FONT_SIZE,
+                  lineHeight: `${TEXT_LINE_HEIGHT}px`,
+                  color: isStickyNote ? editing.color ?? DEFAULT_WHITEBOARD_COLOR : editing.color,
+                }}
+              />
+            )}
+          </div>
+        </div>
+        <div ref={ref} className={'absolute h-full w-full text-transparent caret-transparent'}>
+          {children}
+        </div>
+      </div>
+    );
+  }),
+  (prevProps, nextProps) => JSON.stringify(prevProps.node) === JSON.stringify(nextProps.node)
+);
+
+export default Whiteboard;
@@ -0,0 +1,111 @@
+import { memo } from 'react';
+
+import { WhiteboardElement, WhiteboardElementType } from '@/application/types';
+
+import {
+  DEFAULT_WHITEBOARD_COLOR,
+  getArrowHeadPath,
+  getConnectorPoints,
+  getElementBounds,
+  getElementPoints,
+  pointsToPath,
+  STICKY_NOTE_COLOR,
+  STICKY_NOTE_PADDING,
+  TEXT_FONT_SIZE,
+  TEXT_LINE_HEIGHT,
+  WhiteboardPoint,
+} from './whiteboard.utils';
+
+function TextLines({ text, x, y }: { text?: string; x: number; y: number }) {
+  return (
+    <text x={x} y={y} fontSize={TEXT_FONT_SIZE} fill={'currentColor'} stroke={'none'}>
+      {(text ?? '').split('\n').map((line, index) => (
+        <tspan key={index} x={x} dy={index === 0 ? TEXT_FONT_SIZE : TEXT_LINE_HEIGHT}>
+          {line || ' '}
+        </tspan>
+      ))}
+    </text>
+  );
+}
+
+function Arrow({ from, to }: { from: WhiteboardPoint; to: WhiteboardPoint }) {
+  return (
+    <>
+      <path d={pointsToPath([from, to])} />
+      <path d={getArrowHeadPath(from, to)} />
+    </>
+  );
+}
+
+function Shape({
+  element,
+  elementsById,
+  hideText,
+}: {
+  element: WhiteboardElement;
+  elementsById: Record<string, WhiteboardElement>;
+  hideText: boolean;
+}) {
+  const { x, y, width, height } = getElementBounds(element);
+
+  switch (element.type) {
+    case WhiteboardElementType.Freehand:
+      return <path d={pointsToPath(getElementPoints(element))} />;
+    case WhiteboardElementType.Arrow: {
+      const [from, to] = getElementPoints(element);
+
+      return from && to ? <Arrow from={from} to={to} /> : null;
+    }
+
+    case WhiteboardElementType.Connector: {
+      const points = getConnectorPoints(element, elementsById);
+
+      return points ? <Arrow from={points[0]} to={points[1]} /> : null;
+    }
+
+    case WhiteboardElementType.Rectangle:
+      return <rect x={x} y={y} width={width} height={height} rx={4} fill={'none'} />;
+    case WhiteboardElementType.StickyNote:
+      // A nested svg clips the note's text to the note
+      return (
+        <svg x={x} y={y} width={width} height={height}>
+          <rect width={width} height={height} rx={4} fill={STICKY_NOTE_COLOR} stroke={'none'} />
+          {!hideText && (
+            <g color={element.color ?? DEFAULT_WHITEBOARD_COLOR}>
+              <TextLines text={element.text} x={STICKY_NOTE_PADDING.x} y={STICKY_NOTE_PADDING.y} />
+            </g>
+          )}
+        </svg>
+      );
+    case WhiteboardElementType.Text:
+      return hideText ? null : <TextLines text={element.text} x={x} y={y} />;
+    default:
+      return null;
+  }
+}
+
+/** Draws whiteboard elements into the surrounding `<svg>`, bottom first. */
+function WhiteboardShapes({ elements, editingId }: { elements: WhiteboardElement[]; editingId?: string }) {
+  const elementsById = Object.fromEntries(elements.map((element) => [element.id, element]));
+
+  return (
+    <>
+      {elements.map((element) => (
+        <g
+          key={element.id}
+          data-element-id={element.id}
+          color={element.type === WhiteboardElementType.StickyNote ? undefined : element.color}
+          stroke={'currentColor'}
+          strokeWidth={2}
+          strokeLinecap={'round'}
+          strokeLinejoin={'round'}
+          fill={'none'}
+        >
+          <Shape element={element} elementsById={elementsById} hideText={element.id === editingId} />
+        </g>
+      ))}
+    </>
+  );
+}
+
+export default memo(WhiteboardShapes);
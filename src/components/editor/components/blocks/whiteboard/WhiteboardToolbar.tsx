@@ -0,0 +1,127 @@
+import { memo } from 'react';
+import { useTranslation } from 'react-i18next';
+
+import { WhiteboardElementType } from '@/application/types';
+import { ReactComponent as ArrowIcon } from '@/assets/icons/arrow_right.svg';
+import { ReactComponent as SelectIcon } from '@/assets/icons/cursor.svg';
+import { ReactComponent as DownloadIcon } from '@/assets/icons/download.svg';
+import { ReactComponent as PenIcon } from '@/assets/icons/edit.svg';
+import { ReactComponent as EraserIcon } from '@/assets/icons/eraser.svg';
+import { ReactComponent as RectangleIcon } from '@/assets/icons/rectangle.svg';
+import { ReactComponent as ConnectorIcon } from '@/assets/icons/relation.svg';
+import { ReactComponent as StickyNoteIcon } from '@/assets/icons/sticky_note.svg';
+import { ReactComponent as TextIcon } from '@/assets/icons/text.svg';
+import ActionButton from '@/components/editor/components/toolbar/selection-toolbar/actions/ActionButton';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { cn } from '@/lib/utils';
+
+import { WHITEBOARD_COLORS } from './whiteboard.utils';
+
+export type WhiteboardTool =
+  | 'select'
+  | 'eraser'
+  | WhiteboardElementType.Freehand
+  | WhiteboardElementType.Rectangle
+  | WhiteboardElementType.Arrow
+  | WhiteboardElementType.Connector
+  | WhiteboardElementType.Text
+  | WhiteboardElementType.StickyNote;
+
+function WhiteboardToolbar({
+  readOnly,
+  tool,
+  onToolChange,
+  color,
+  onColorChange,
+  onExport,
+}: {
+  readOnly: boolean;
+  tool: WhiteboardTool;
+  onToolChange: (tool: WhiteboardTool) => void;
+  color: string;
+  onColorChange: (color: string) => void;
+  onExport: (format: 'svg' | 'png') => void;
+}) {
+  const { t } = useTranslation();
+
+  const tools: { tool: WhiteboardTool; label: string; icon: React.ReactNode }[] = [
+    { tool: 'select', label: t('document.whiteboard.select', 'Select'), icon: <SelectIcon /> },
+    { tool: WhiteboardElementType.Freehand, label: t('document.whiteboard.pen', 'Pen'), icon: <PenIcon /> },
+    {
+      tool: WhiteboardElementType.Rectangle,
+      label: t('document.whiteboard.rectangle', 'Rectangle'),
+      icon: <RectangleIcon />,
+    },
+    { tool: WhiteboardElementType.Arrow, label: t('document.whiteboard.arrow', 'Arrow'), icon: <ArrowIcon /> },
+    {
+      tool: WhiteboardElementType.Connector,
+      label: t('document.whiteboard.connector', 'Connector (drag from one shape to another)'),
+      icon: <ConnectorIcon />,
+    },
+    { tool: WhiteboardElementType.Text, label: t('document.whiteboard.text', 'Text'), icon: <TextIcon /> },
+    {
+      tool: WhiteboardElementType.StickyNote,
+      label: t('document.whiteboard.stickyNote', 'Sticky note'),
+      icon: <StickyNoteIcon />,
+    },
+    { tool: 'eraser', label: t('document.whiteboard.eraser', 'Eraser'), icon: <EraserIcon /> },
+  ];
+
+  return (
+    <div
+      data-testid={'whiteboard-toolbar'}
+      className={'flex items-center gap-1 border-b border-border-primary px-2 py-1'}
+    >
+      {!readOnly && (
+        <>
+          {tools.map((item) => (
+            <ActionButton
+              key={item.tool}
+              data-testid={`whiteboard-tool-${item.tool}`}
+              tooltip={item.label}
+              active={tool === item.tool}
+              onClick={() => onToolChange(item.tool)}
+            >
+              {item.icon}
+            </ActionButton>
+          ))}
+          <div className={'mx-1 h-4 w-px bg-border-primary'} />
+          {WHITEBOARD_COLORS.map((value) => (
+            <button
+              key={value}
+              data-testid={'whiteboard-color'}
+              aria-label={value}
+              onClick={() => onColorChange(value)}
+              className={cn(
+                'h-4 w-4 rounded-full border-2',
+                color === value ? 'border-border-theme-thick' : 'border-transparent'
+              )}
+              style={{ backgroundColor: value }}
+            />
+          ))}
+        </>
+      )}
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <ActionButton
+            data-testid={'whiteboard-export'}
+            className={'ml-auto'}
+            tooltip={t('document.whiteboard.export', 'Export')}
+          >
+            <DownloadIcon />
+          </ActionButton>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align={'end'}>
+          <DropdownMenuItem onSelect={() => onExport('svg')}>
+            {t('document.whiteboard.exportSvg', 'Export as SVG')}
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => onExport('png')}>
+            {t('document.whiteboard.exportPng', 'Export as PNG')}
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+}
+
+export default memo(WhiteboardToolbar);
@@ -0,0 +1,42 @@
+import { render } from '@testing-library/react';
+import { createEditor, Descendant } from 'slate';
+import { Slate, withReact } from 'slate-react';
+
+import { BlockType, WhiteboardElementType, YjsEditorKey } from '@/application/types';
+import { WhiteboardNode } from '@/components/editor/editor.type';
+
+import Whiteboard from '../Whiteboard';
+
+describe('Whiteboard', () => {
+  it('renders elements from the node data when the editor has no Yjs document', () => {
+    const node = {
+      type: BlockType.WhiteboardBlock,
+      blockId: 'whiteboard',
+      data: {
+        elements: {
+          note: {
+            id: 'note',
+            type: WhiteboardElementType.StickyNote,
+            x: 10,
+            y: 10,
+            width: 160,
+            height: 120,
+            z: 1,
+            text: 'Published note',
+          },
+        },
+      },
+      children: [{ type: YjsEditorKey.text, textId: 'whiteboard', children: [{ text: '' }] }],
+    } as unknown as WhiteboardNode;
+    // Built the way StaticEditor builds its read-only editor
+    const editor = Object.assign(withReact(createEditor()), { readOnly: true });
+
+    const { container } = render(
+      <Slate editor={editor} initialValue={[node] as unknown as Descendant[]}>
+        <Whiteboard node={node}>{null}</Whiteboard>
+      </Slate>
+    );
+
+    expect(container.querySelector('svg text')?.textContent).toBe('Published note');
+  });
+});
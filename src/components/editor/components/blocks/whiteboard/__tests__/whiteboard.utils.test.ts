@@ -0,0 +1,109 @@
+import { WhiteboardElement, WhiteboardElementType } from '@/application/types';
+
+import {
+  clipToBounds,
+  createPointElement,
+  getConnectorPoints,
+  getRemovalChanges,
+  getWhiteboardContentBounds,
+  getWhiteboardElements,
+  hitTestElement,
+  normalizeBox,
+} from '../whiteboard.utils';
+
+const box = (id: string, x: number, y: number, z = 1): WhiteboardElement => ({
+  id,
+  type: WhiteboardElementType.Rectangle,
+  x,
+  y,
+  width: 100,
+  height: 50,
+  z,
+});
+
+describe('whiteboard utils', () => {
+  it('orders elements by stacking order', () => {
+    const elements = getWhiteboardElements({ b: box('b', 0, 0, 2), a: box('a', 0, 0, 1) });
+
+    expect(elements.map(({ id }) => id)).toEqual(['a', 'b']);
+  });
+
+  it('stores strokes relative to their corner and boxes with positive sizes', () => {
+    const stroke = createPointElement({ id: 's', type: WhiteboardElementType.Freehand, z: 1 }, [
+      [30, 40],
+      [10, 60],
+    ]);
+
+    expect(stroke).toMatchObject({
+      x: 10,
+      y: 40,
+      width: 20,
+      height: 20,
+      points: [
+        [20, 0],
+        [0, 20],
+      ],
+    });
+    expect(normalizeBox({ ...box('r', 100, 100), width: -40, height: -20 })).toMatchObject({
+      x: 60,
+      y: 80,
+      width: 40,
+      height: 20,
+    });
+  });
+
+  it('ends connectors on the outlines of the shapes they link', () => {
+    const elements = { a: box('a', 0, 0), b: box('b', 300, 0) };
+    const connector: WhiteboardElement = {
+      id: 'c',
+      type: WhiteboardElementType.Connector,
+      x: 0,
+      y: 0,
+      width: 0,
+      height: 0,
+      z: 3,
+      from: 'a',
+      to: 'b',
+    };
+
+    expect(getConnectorPoints(connector, elements)).toEqual([
+      [100, 25],
+      [300, 25],
+    ]);
+    expect(getConnectorPoints(connector, { a: elements.a })).toBeNull();
+    expect(clipToBounds({ x: 0, y: 0, width: 100, height: 50 }, [50, 25])).toEqual([50, 25]);
+  });
+
+  it('hits the topmost shape and only lines near the pointer', () => {
+    const stroke = createPointElement({ id: 's', type: WhiteboardElementType.Freehand, z: 3 }, [
+      [0, 0],
+      [200, 200],
+    ]);
+    const elements = [box('a', 0, 0, 1), box('b', 50, 0, 2), stroke];
+
+    expect(hitTestElement(elements, [60, 10])?.id).toBe('b');
+    expect(hitTestElement(elements, [102, 102])?.id).toBe('s');
+    expect(hitTestElement(elements, [150, 100])).toBeUndefined();
+  });
+
+  it('removes connectors together with the shapes they link', () => {
+    const connector: WhiteboardElement = {
+      ...box('c', 0, 0, 3),
+      type: WhiteboardElementType.Connector,
+      from: 'a',
+      to: 'b',
+    };
+
+    expect(getRemovalChanges([box('a', 0, 0), box('b', 300, 0), connector], ['b'])).toEqual({ b: null, c: null });
+  });
+
+  it('crops exports to the content with padding', () => {
+    expect(getWhiteboardContentBounds([])).toBeNull();
+    expect(getWhiteboardContentBounds([box('a', 10, 20), box('b', 200, 100)], 10)).toEqual({
+      x: 0,
+      y: 10,
+      width: 310,
+      height: 150,
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { WhiteboardElement } from '@/application/types';
+import { downloadBlob } from '@/utils/download';
+
+import { DEFAULT_WHITEBOARD_COLOR, getWhiteboardContentBounds } from './whiteboard.utils';
+
+// Elements marked with this attribute (selection outlines, drafts) stay out of exports
+export const WHITEBOARD_OVERLAY_ATTRIBUTE = 'data-whiteboard-overlay';
+
+/**
+ * Standalone SVG markup of the board, cropped to its content. Theme colors are
+ * replaced with fixed ones so the file looks the same outside the app.
+ */
+export function getWhiteboardSVGMarkup(svg: SVGSVGElement, elements: WhiteboardElement[]) {
+  const bounds = getWhiteboardContentBounds(elements);
+
+  if (!bounds) return null;
+
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+
+  clone.querySelectorAll(`[${WHITEBOARD_OVERLAY_ATTRIBUTE}]`).forEach((node) => node.remove());
+  clone.removeAttribute('class');
+  clone.removeAttribute('style');
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  clone.setAttribute('viewBox', `${bounds.x} ${bounds.y} ${bounds.width} ${bounds.height}`);
+  clone.setAttribute('width', String(bounds.width));
+  clone.setAttribute('height', String(bounds.height));
+  clone.setAttribute('color', DEFAULT_WHITEBOARD_COLOR);
+  clone.setAttribute('font-family', 'sans-serif');
+
+  return { markup: new XMLSerializer().serializeToString(clone), width: bounds.width, height: bounds.height };
+}
+
+export function exportWhiteboardSVG(svg: SVGSVGElement, elements: WhiteboardElement[], fileName: string) {
+  const result = getWhiteboardSVGMarkup(svg, elements);
+
+  if (!result) return false;
+
+  downloadBlob(new Blob([result.markup], { type: 'image/svg+xml' }), `${fileName}.svg`);
+  return true;
+}
+
+export async function exportWhiteboardPNG(
+  svg: SVGSVGElement,
+  elements: WhiteboardElement[],
+  fileName: string,
+  scale = 2
+) {
+  const result = getWhiteboardSVGMarkup(svg, elements);
+
+  if (!result) return false;
+
+  const url = URL.createObjectURL(new Blob([result.markup], { type: 'image/svg+xml' }));
+
+  try {
+    const image = new Image();
+
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error('Failed to render whiteboard'));
+      image.src = url;
+    });
+
+    const canvas = document.createElement('canvas');
+
+    canvas.width = result.width * scale;
+    canvas.height = result.height * scale;
+
+    const context = canvas.getContext('2d');
+
+    if (!context) return false;
+
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+
+    if (!blob) return false;
+
+    downloadBlob(blob, `${fileName}.png`);
+    return true;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
@@ -0,0 +1,228 @@
+import { WhiteboardElement, WhiteboardElementType } from '@/application/types';
+
+export type WhiteboardPoint = [number, number];
+
+export interface WhiteboardBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const DEFAULT_WHITEBOARD_HEIGHT = 420;
+export const DEFAULT_WHITEBOARD_COLOR = '#1f2329';
+export const STICKY_NOTE_COLOR = '#fdecc8';
+export const WHITEBOARD_COLORS = [DEFAULT_WHITEBOARD_COLOR, '#e03e3e', '#d9730d', '#0f7b6c', '#0b6bcb', '#9065b0'];
+export const STICKY_NOTE_SIZE = { width: 160, height: 120 };
+// Text inside a sticky note is inset from its corner
+export const STICKY_NOTE_PADDING = { x: 12, y: 10 };
+export const TEXT_FONT_SIZE = 16;
+export const TEXT_LINE_HEIGHT = 22;
+
+// How far from a line or outline a pointer may land and still hit it
+const HIT_TOLERANCE = 6;
+
+const isPointElement = (element: WhiteboardElement) =>
+  element.type === WhiteboardElementType.Freehand || element.type === WhiteboardElementType.Arrow;
+
+/** Elements in stacking order, bottom first. */
+export function getWhiteboardElements(elements: Record<string, WhiteboardElement>): WhiteboardElement[] {
+  return Object.values(elements).sort((a, b) => a.z - b.z);
+}
+
+export function getNextZ(elements: WhiteboardElement[]): number {
+  return elements.reduce((max, element) => Math.max(max, element.z), 0) + 1;
+}
+
+/** Absolute points of a freehand stroke or arrow. */
+export function getElementPoints(element: WhiteboardElement): WhiteboardPoint[] {
+  return (element.points ?? []).map(([x, y]) => [element.x + x, element.y + y]);
+}
+
+export function getElementBounds(element: WhiteboardElement): WhiteboardBounds {
+  if (isPointElement(element) && element.points?.length) {
+    const points = getElementPoints(element);
+    const xs = points.map(([x]) => x);
+    const ys = points.map(([, y]) => y);
+    const x = Math.min(...xs);
+    const y = Math.min(...ys);
+
+    return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+  }
+
+  return {
+    x: Math.min(element.x, element.x + element.width),
+    y: Math.min(element.y, element.y + element.height),
+    width: Math.abs(element.width),
+    height: Math.abs(element.height),
+  };
+}
+
+/**
+ * Where the line from the center of `bounds` towards `target` leaves the
+ * box, so connectors end on outlines instead of inside shapes.
+ */
+export function clipToBounds(bounds: WhiteboardBounds, target: WhiteboardPoint): WhiteboardPoint {
+  const cx = bounds.x + bounds.width / 2;
+  const cy = bounds.y + bounds.height / 2;
+  const dx = target[0] - cx;
+  const dy = target[1] - cy;
+
+  if (dx === 0 && dy === 0) return [cx, cy];
+
+  const scale = Math.min(
+    dx === 0 ? Infinity : bounds.width / 2 / Math.abs(dx),
+    dy === 0 ? Infinity : bounds.height / 2 / Math.abs(dy),
+    1
+  );
+
+  return [cx + dx * scale, cy + dy * scale];
+}
+
+/** The two ends of a connector, or null once either linked element is gone. */
+export function getConnectorPoints(
+  connector: WhiteboardElement,
+  elementsById: Record<string, WhiteboardElement>
+): [WhiteboardPoint, WhiteboardPoint] | null {
+  const from = connector.from ? elementsById[connector.from] : undefined;
+  const to = connector.to ? elementsById[connector.to] : undefined;
+
+  if (!from || !to) return null;
+
+  const fromBounds = getElementBounds(from);
+  const toBounds = getElementBounds(to);
+  const fromCenter: WhiteboardPoint = [fromBounds.x + fromBounds.width / 2, fromBounds.y + fromBounds.height / 2];
+  const toCenter: WhiteboardPoint = [toBounds.x + toBounds.width / 2, toBounds.y + toBounds.height / 2];
+
+  return [clipToBounds(fromBounds, toCenter), clipToBounds(toBounds, fromCenter)];
+}
+
+export function pointsToPath(points: WhiteboardPoint[]): string {
+  return points.map(([x, y], index) => `${index === 0 ? 'M' : 'L'}${x} ${y}`).join(' ');
+}
+
+/** Two short strokes forming an arrowhead at the end of the `from` → `to` line. */
+export function getArrowHeadPath(from: WhiteboardPoint, to: WhiteboardPoint, size = 12): string {
+  const angle = Math.atan2(to[1] - from[1], to[0] - from[0]);
+  const wing = (offset: number): WhiteboardPoint => [
+    to[0] - size * Math.cos(angle + offset),
+    to[1] - size * Math.sin(angle + offset),
+  ];
+
+  return pointsToPath([wing(Math.PI / 6), to, wing(-Math.PI / 6)]);
+}
+
+function distanceToSegment([px, py]: WhiteboardPoint, [ax, ay]: WhiteboardPoint, [bx, by]: WhiteboardPoint) {
+  const lengthSquared = (bx - ax) ** 2 + (by - ay) ** 2;
+  const t =
+    lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((px - ax) * (bx - ax) + (py - ay) * (by - ay)) / lengthSquared));
+
+  return Math.hypot(px - (ax + t * (bx - ax)), py - (ay + t * (by - ay)));
+}
+
+function isNearPolyline(point: WhiteboardPoint, points: WhiteboardPoint[]) {
+  if (points.length === 1) return Math.hypot(point[0] - points[0][0], point[1] - points[0][1]) <= HIT_TOLERANCE;
+
+  return points.slice(1).some((end, index) => distanceToSegment(point, points[index], end) <= HIT_TOLERANCE);
+}
+
+/** The topmost element under `point`. Lines only count when the pointer is near them. */
+export function hitTestElement(elements: WhiteboardElement[], point: WhiteboardPoint): WhiteboardElement | undefined {
+  const elementsById = Object.fromEntries(elements.map((element) => [element.id, element]));
+
+  return [...elements].reverse().find((element) => {
+    if (element.type === WhiteboardElementType.Connector) {
+      const points = getConnectorPoints(element, elementsById);
+
+      return points ? isNearPolyline(point, points) : false;
+    }
+
+    if (isPointElement(element)) return isNearPolyline(point, getElementPoints(element));
+
+    const { x, y, width, height } = getElementBounds(element);
+
+    return (
+      point[0] >= x - HIT_TOLERANCE &&
+      point[0] <= x + width + HIT_TOLERANCE &&
+      point[1] >= y - HIT_TOLERANCE &&
+      point[1] <= y + height + HIT_TOLERANCE
+    );
+  });
+}
+
+/**
+ * Changes that remove the given elements together with the connectors
+ * attached to them, ready for `CustomEditor.updateWhiteboardElements`.
+ */
+export function getRemovalChanges(
+  elements: WhiteboardElement[],
+  ids: string[]
+): Record<string, WhiteboardElement | null> {
+  const removed = new Set(ids);
+
+  elements.forEach((element) => {
+    if (element.type !== WhiteboardElementType.Connector) return;
+    if (removed.has(element.from ?? '') || removed.has(element.to ?? '')) removed.add(element.id);
+  });
+
+  return Object.fromEntries(Array.from(removed).map((id) => [id, null]));
+}
+
+/** Stores a stroke with its points relative to its top-left corner, so moving only touches x and y. */
+export function createPointElement(
+  base: Omit<WhiteboardElement, 'x' | 'y' | 'width' | 'height' | 'points'>,
+  points: WhiteboardPoint[]
+): WhiteboardElement {
+  const x = Math.min(...points.map(([px]) => px));
+  const y = Math.min(...points.map(([, py]) => py));
+
+  return {
+    ...base,
+    x,
+    y,
+    width: Math.max(...points.map(([px]) => px)) - x,
+    height: Math.max(...points.map(([, py]) => py)) - y,
+    points: points.map(([px, py]) => [px - x, py - y]),
+  };
+}
+
+/** Rectangles drawn towards the top or left are stored with positive sizes. */
+export function normalizeBox(element: WhiteboardElement): WhiteboardElement {
+  return isPointElement(element) ? element : { ...element, ...getElementBounds(element) };
+}
+
+/** Smallest box around everything on the board, with some margin, for export. */
+export function getWhiteboardContentBounds(elements: WhiteboardElement[], padding = 16): WhiteboardBounds | null {
+  const elementsById = Object.fromEntries(elements.map((element) => [element.id, element]));
+  const boxes = elements.flatMap((element) => {
+    if (element.type !== WhiteboardElementType.Connector) return [getElementBounds(element)];
+
+    const points = getConnectorPoints(element, elementsById);
+
+    return points
+      ? [getElementBounds(createPointElement({ ...element, type: WhiteboardElementType.Arrow }, points))]
+      : [];
+  });
+
+  if (boxes.length === 0) return null;
+
+  const x = Math.min(...boxes.map((box) => box.x)) - padding;
+  const y = Math.min(...boxes.map((box) => box.y)) - padding;
+
+  return {
+    x,
+    y,
+    width: Math.max(...boxes.map((box) => box.x + box.width)) + padding - x,
+    height: Math.max(...boxes.map((box) => box.y + box.height)) + padding - y,
+  };
+}
+
+/** Approximate size of a text element, used for hit testing and selection outlines. */
+export function getTextSize(text: string): { width: number; height: number } {
+  const lines = text.split('\n');
+
+  return {
+    width: Math.max(40, Math.ceil(Math.max(...lines.map((line) => line.length)) * TEXT_FONT_SIZE * 0.6)),
+    height: lines.length * TEXT_LINE_HEIGHT,
+  };
+}
@@ -36,9 +36,11 @@ import { Quote } from '@/components/editor/components/blocks/quote';
 import SimpleTable from '@/components/editor/components/blocks/simple-table/SimpleTable';
 import SimpleTableCell from '@/components/editor/components/blocks/simple-table/SimpleTableCell';
 import SimpleTableRow from '@/components/editor/components/blocks/simple-table/SimpleTableRow';
+import { SyncedBlock } from '@/components/editor/components/blocks/synced-block';
 import { TableBlock, TableCellBlock } from '@/components/editor/components/blocks/table';
 import { Text } from '@/components/editor/components/blocks/text';
 import { VideoBlock } from '@/components/editor/components/blocks/video';
+import { Whiteboard } from '@/components/editor/components/blocks/whiteboard';
 import { handleBlockDrop } from '@/components/editor/components/drag-drop/handleBlockDrop';
 import { useBlockDrop } from '@/components/editor/components/drag-drop/useBlockDrop';
 import { usePopoverMountSignal } from '@/components/editor/components/block-popover/BlockPopoverContext';
@@ -240,6 +242,10 @@ export const Element = ({
         return AIMeetingSpeakerBlock;
       case BlockType.PDFBlock:
         return PDFBlock;
+      case BlockType.SyncedBlock:
+        return SyncedBlock;
+      case BlockType.WhiteboardBlock:
+        return Whiteboard;
       default:
         return BlockNotFound;
     }
@@ -2,12 +2,14 @@ import { CSSProperties } from 'react';
 import { RenderLeafProps } from 'slate-react';
 
 import { Mention } from '@/application/types';
+import FootnoteLeaf from '@/components/editor/components/leaf/footnote/FootnoteLeaf';
 import FormulaLeaf from '@/components/editor/components/leaf/formula/FormulaLeaf';
 import { Href } from '@/components/editor/components/leaf/href';
 import MentionLeaf from '@/components/editor/components/leaf/mention/MentionLeaf';
 import { InlineReference } from '@/components/editor/components/leaf/reference/InlineReference';
 import { parseInlineReference } from '@/components/editor/components/leaf/reference/utils';
 import { getInlineCommentIds } from '@/components/inline-comment/editor/anchors';
+import { getSuggestionMark } from '@/components/inline-comment/editor/suggestions';
 import { useInlineCommentLeafContextOptional } from '@/components/inline-comment/InlineCommentContext';
 import { cn } from '@/lib/utils';
 import { renderColor } from '@/utils/color';
@@ -109,7 +111,29 @@ export function Leaf({ attributes, children, leaf, text }: RenderLeafProps) {
     style['cursor'] = 'pointer';
   }
 
-  if (leaf.code && !(leaf.formula || leaf.mention || leaf.reference)) {
+  // Suggested changes render as tracked changes: insertions underlined,
+  // deletions struck through, both in the reviewer-facing accent colors.
+  const suggestedInsertion = getSuggestionMark(leaf, 'insert');
+  const suggestedDeletion = getSuggestionMark(leaf, 'delete');
+  const suggestion = suggestedDeletion ?? suggestedInsertion;
+
+  if (suggestion) {
+    newChildren = (
+      <span
+        data-suggestion-id={suggestion.id}
+        title={suggestion.author_name || undefined}
+        className={cn(
+          'decoration-1',
+          suggestedInsertion && 'text-function-success underline',
+          suggestedDeletion && 'text-function-error line-through'
+        )}
+      >
+        {newChildren}
+      </span>
+    );
+  }
+
+  if (leaf.code && !(leaf.formula || leaf.mention || leaf.reference || leaf.footnote)) {
     newChildren = (
       <span className={cn('bg-border-primary font-medium', style['color'] ? undefined : 'text-[#EB5757]')}>
         {newChildren}
@@ -131,7 +155,7 @@ export function Leaf({ attributes, children, leaf, text }: RenderLeafProps) {
 
   const referenceData = leaf.reference ? parseInlineReference(leaf.reference) : null;
 
-  if (text.text && (leaf.mention || leaf.formula || referenceData)) {
+  if (text.text && (leaf.mention || leaf.formula || leaf.footnote || referenceData)) {
     style['position'] = 'relative';
     if (leaf.mention || referenceData) {
       style['display'] = 'inline-block';
@@ -145,6 +169,10 @@ export function Leaf({ attributes, children, leaf, text }: RenderLeafProps) {
       <FormulaLeaf formula={leaf.formula} text={text}>
         {newChildren}
       </FormulaLeaf>
+    ) : leaf.footnote ? (
+      <FootnoteLeaf footnote={leaf.footnote} text={text}>
+        {newChildren}
+      </FootnoteLeaf>
     ) : referenceData ? (
       <InlineReference reference={referenceData} text={text}>
         {newChildren}
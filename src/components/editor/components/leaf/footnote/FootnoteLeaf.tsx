@@ -0,0 +1,155 @@
+import { PopoverPosition, Tooltip } from '@mui/material';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Element, Range, Text, Transforms } from 'slate';
+import { ReactEditor, useReadOnly, useSlateSelector, useSlateStatic } from 'slate-react';
+
+import { CustomEditor } from '@/application/slate-yjs/command';
+import { EditorMarkFormat } from '@/application/slate-yjs/types';
+import { Footnote } from '@/application/types';
+import FootnotePopover from '@/components/editor/components/leaf/footnote/FootnotePopover';
+import { getFootnoteNumber } from '@/components/editor/components/leaf/footnote/utils';
+import { useLeafSelected } from '@/components/editor/components/leaf/leaf.hooks';
+
+export function scrollToFootnoteItem(footnoteId: string) {
+  const item = document.querySelector(`[data-footnote-item="${footnoteId}"]`);
+
+  item?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+}
+
+function FootnoteLeaf({ footnote, text, children }: { footnote: Footnote; text: Text; children: React.ReactNode }) {
+  const { t } = useTranslation();
+  const ref = useRef<HTMLSpanElement>(null);
+  const editor = useSlateStatic();
+  const number = useSlateSelector((editor) => getFootnoteNumber(editor.children, text));
+  const { isSelected, isCursorBefore } = useLeafSelected(text);
+  const [anchorPosition, setAnchorPosition] = useState<PopoverPosition | undefined>(undefined);
+  const open = Boolean(anchorPosition);
+  const readonly = useReadOnly() || editor.isElementReadOnly(text as unknown as Element);
+  const className = useMemo(() => {
+    const classList = ['footnote-ref', 'cursor-pointer', 'select-none', 'px-0.5', 'text-text-action'];
+
+    if (isSelected || open) classList.push('rounded', 'bg-fill-list-active');
+    return classList.join(' ');
+  }, [open, isSelected]);
+
+  const openPopover = useCallback(() => {
+    if (readonly) return;
+
+    const rect = ref.current?.getBoundingClientRect();
+
+    if (!rect) return;
+
+    setAnchorPosition({
+      top: rect.top + rect.height,
+      left: rect.left,
+    });
+  }, [readonly]);
+
+  // A footnote inserted from the slash menu starts empty, with the cursor after it.
+  useEffect(() => {
+    if (readonly || footnote.content || !editor.selection || !Range.isCollapsed(editor.selection)) return;
+
+    try {
+      const path = ReactEditor.findPath(editor, text);
+
+      if (Range.includes(editor.selection, editor.end(path))) {
+        openPopover();
+      }
+    } catch {
+      // The leaf is not mounted in this editor yet
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const handleClose = useCallback(() => {
+    window.getSelection()?.removeAllRanges();
+    setAnchorPosition(undefined);
+
+    try {
+      const path = ReactEditor.findPath(editor, text);
+
+      editor.select(editor.end(path));
+      ReactEditor.focus(editor);
+    } catch {
+      // The footnote was removed while the popover was open
+    }
+  }, [editor, text]);
+
+  const handleDone = useCallback(
+    (content: string) => {
+      handleClose();
+      const path = ReactEditor.findPath(editor, text);
+
+      editor.select(path);
+      CustomEditor.addMark(editor, {
+        key: EditorMarkFormat.Footnote,
+        value: { id: footnote.id, content },
+      });
+      Transforms.collapse(editor, { edge: 'end' });
+    },
+    [editor, footnote.id, handleClose, text]
+  );
+
+  const handleDelete = useCallback(() => {
+    setAnchorPosition(undefined);
+    const path = ReactEditor.findPath(editor, text);
+
+    ReactEditor.focus(editor);
+    editor.select(path);
+    editor.delete();
+  }, [editor, text]);
+
+  return (
+    <>
+      <span
+        style={{
+          left: isCursorBefore ? 0 : 'auto',
+          right: isCursorBefore ? 'auto' : 0,
+          top: isCursorBefore ? 0 : 'auto',
+          bottom: isCursorBefore ? 'auto' : 0,
+        }}
+        className={'absolute bottom-0 right-0 overflow-hidden !text-transparent'}
+      >
+        {children}
+      </span>
+      <Tooltip
+        placement={'top'}
+        disableInteractive
+        title={open ? '' : footnote.content || t('document.footnote.empty', 'Empty footnote')}
+      >
+        <sup
+          ref={ref}
+          data-footnote-ref={footnote.id}
+          contentEditable={false}
+          className={className}
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => {
+            if (readonly) {
+              scrollToFootnoteItem(footnote.id);
+              return;
+            }
+
+            editor.deselect();
+            openPopover();
+          }}
+        >
+          {number ?? ''}
+        </sup>
+      </Tooltip>
+      {open && (
+        <FootnotePopover
+          open={open}
+          number={number}
+          anchorPosition={anchorPosition}
+          onClose={handleClose}
+          defaultValue={footnote.content}
+          onDone={handleDone}
+          onDelete={handleDelete}
+        />
+      )}
+    </>
+  );
+}
+
+export default FootnoteLeaf;
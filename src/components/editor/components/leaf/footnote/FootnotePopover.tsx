@@ -0,0 +1,82 @@
+import { IconButton, PopoverPosition, TextField, Tooltip } from '@mui/material';
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+
+import { ReactComponent as Clear } from '@/assets/icons/delete.svg';
+import { ReactComponent as SelectCheck } from '@/assets/icons/tick.svg';
+import { Popover } from '@/components/_shared/popover';
+
+function FootnotePopover({
+  open,
+  onClose,
+  number,
+  defaultValue,
+  anchorPosition,
+  onDone,
+  onDelete,
+}: {
+  open: boolean;
+  onClose: () => void;
+  number?: number;
+  defaultValue: string;
+  anchorPosition?: PopoverPosition;
+  onDone: (value: string) => void;
+  onDelete: () => void;
+}) {
+  const { t } = useTranslation();
+  const [value, setValue] = React.useState(defaultValue);
+
+  return (
+    <Popover
+      onClose={onClose}
+      open={open}
+      disableRestoreFocus={true}
+      anchorPosition={anchorPosition}
+      anchorReference={'anchorPosition'}
+      transformOrigin={{
+        vertical: 'top',
+        horizontal: 'left',
+      }}
+    >
+      <div data-testid={'footnote-popover'} className={'flex w-[360px] items-start gap-2 p-4'}>
+        <span className={'pt-1 text-xs text-text-secondary'}>{number}</span>
+        <TextField
+          variant={'standard'}
+          size={'small'}
+          autoFocus={true}
+          multiline={true}
+          maxRows={6}
+          value={value}
+          placeholder={t('document.footnote.placeholder', 'Footnote text')}
+          onChange={(e) => setValue(e.target.value)}
+          fullWidth={true}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              onDone(value);
+            }
+          }}
+        />
+        <div className={'flex items-center justify-end gap-2'}>
+          <Tooltip placement={'top'} title={t('button.done')}>
+            <IconButton
+              size={'small'}
+              onClick={() => {
+                onDone(value);
+              }}
+            >
+              <SelectCheck className={'text-text-action'} />
+            </IconButton>
+          </Tooltip>
+          <Tooltip placement={'top'} title={t('button.delete')}>
+            <IconButton size={'small'} color={'error'} onClick={onDelete}>
+              <Clear />
+            </IconButton>
+          </Tooltip>
+        </div>
+      </div>
+    </Popover>
+  );
+}
+
+export default FootnotePopover;
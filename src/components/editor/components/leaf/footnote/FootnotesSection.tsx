@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ReactEditor, useReadOnly, useSlateStatic } from 'slate-react';
+
+import { FootnoteEntry } from '@/components/editor/components/leaf/footnote/utils';
+
+/**
+ * Auto-numbered list of the document's footnotes, rendered below the content.
+ * Each item links back to its reference in the text.
+ */
+function FootnotesSection({
+  footnotes,
+  onHeightChange,
+}: {
+  footnotes: FootnoteEntry[];
+  onHeightChange: (height: number) => void;
+}) {
+  const { t } = useTranslation();
+  const editor = useSlateStatic();
+  const readOnly = useReadOnly();
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const element = ref.current;
+
+    if (!element || typeof ResizeObserver === 'undefined') return;
+
+    const observer = new ResizeObserver(() => onHeightChange(element.offsetHeight));
+
+    observer.observe(element);
+
+    return () => {
+      observer.disconnect();
+      onHeightChange(0);
+    };
+  }, [onHeightChange]);
+
+  const handleBackToReference = useCallback(
+    (entry: FootnoteEntry) => {
+      try {
+        const dom = ReactEditor.toDOMNode(editor, entry.text);
+
+        dom.scrollIntoView({ behavior: 'smooth', block: 'center' });
+
+        if (!readOnly) {
+          editor.select(editor.end(entry.path));
+          ReactEditor.focus(editor);
+        }
+      } catch {
+        // The reference was removed before the list re-rendered
+      }
+    },
+    [editor, readOnly]
+  );
+
+  return (
+    <div
+      ref={ref}
+      data-testid={'footnotes-section'}
+      contentEditable={false}
+      className={'mt-6 border-t border-border-primary pt-3 text-sm text-text-secondary'}
+    >
+      <ol className={'flex flex-col gap-1'}>
+        {footnotes.map((entry) => (
+          <li key={entry.footnote.id} data-footnote-item={entry.footnote.id} className={'flex items-start gap-2'}>
+            <span className={'min-w-[1.5em] text-right'}>{entry.number}.</span>
+            <span className={'min-w-0 flex-1 whitespace-pre-wrap break-words text-text-primary'}>
+              {entry.footnote.content || t('document.footnote.empty', 'Empty footnote')}
+            </span>
+            <button
+              type={'button'}
+              data-testid={'footnote-back-link'}
+              title={t('document.footnote.backToReference', 'Back to reference')}
+              className={'text-text-action hover:underline'}
+              onClick={() => handleBackToReference(entry)}
+            >
+              ↩
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
+
+export default FootnotesSection;
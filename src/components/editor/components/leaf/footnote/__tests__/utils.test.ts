@@ -0,0 +1,60 @@
+import { Descendant, Element, Text } from 'slate';
+
+import { BlockType } from '@/application/types';
+
+import { createFootnote, getFootnoteNumber, getFootnotes } from '../utils';
+
+jest.mock('nanoid');
+
+function paragraph(...leaves: Text[]): Element {
+  return {
+    type: BlockType.Paragraph,
+    data: {},
+    children: [{ type: 'text', textId: '', children: leaves }],
+  } as Element;
+}
+
+function footnote(content: string): Text {
+  return { text: '*', footnote: createFootnote(content) };
+}
+
+describe('footnote utils', () => {
+  it('numbers references in reading order, including nested blocks', () => {
+    const first = footnote('first');
+    const nested = footnote('nested');
+    const last = footnote('last');
+    const toggle = {
+      ...paragraph({ text: 'toggle' }, first),
+      type: BlockType.ToggleListBlock,
+    } as Element;
+
+    toggle.children.push(paragraph(nested));
+
+    const entries = getFootnotes([toggle, paragraph({ text: 'plain' }), paragraph(last)]);
+
+    expect(entries.map((entry) => [entry.number, entry.footnote.content])).toEqual([
+      [1, 'first'],
+      [2, 'nested'],
+      [3, 'last'],
+    ]);
+    expect(entries[1].path).toEqual([0, 1, 0, 0]);
+  });
+
+  it('renumbers when a reference moves or is deleted', () => {
+    const a = footnote('a');
+    const b = footnote('b');
+    const before: Descendant[] = [paragraph(a), paragraph(b)];
+    const moved: Descendant[] = [paragraph(b), paragraph(a)];
+    const deleted: Descendant[] = [paragraph(b)];
+
+    expect(getFootnoteNumber(before, a)).toBe(1);
+    expect(getFootnoteNumber(moved, a)).toBe(2);
+    expect(getFootnoteNumber(moved, b)).toBe(1);
+    expect(getFootnoteNumber(deleted, a)).toBeUndefined();
+    expect(getFootnoteNumber(deleted, b)).toBe(1);
+  });
+
+  it('gives every footnote its own id', () => {
+    expect(createFootnote('same').id).not.toBe(createFootnote('same').id);
+  });
+});
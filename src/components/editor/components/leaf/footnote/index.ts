@@ -0,0 +1,3 @@
+export { default as FootnoteLeaf } from './FootnoteLeaf';
+export { default as FootnotesSection } from './FootnotesSection';
+export * from './utils';
@@ -0,0 +1,65 @@
+import { Descendant, Element, Path, Text } from 'slate';
+import { v4 as uuidv4 } from 'uuid';
+
+import { Footnote } from '@/application/types';
+
+/** Character a footnote reference occupies in the text */
+export const FOOTNOTE_PLACEHOLDER = '*';
+
+export interface FootnoteEntry {
+  number: number;
+  footnote: Footnote;
+  text: Text;
+  path: Path;
+}
+
+export function createFootnote(content = ''): Footnote {
+  return { id: uuidv4(), content };
+}
+
+/**
+ * Returns the footnote references of a document in reading order, numbered
+ * from 1, so moving or deleting a reference renumbers the rest.
+ */
+export function getFootnotes(nodes: Descendant[]): FootnoteEntry[] {
+  const entries: FootnoteEntry[] = [];
+
+  const walk = (children: Descendant[], parentPath: Path) => {
+    children.forEach((child, index) => {
+      const path = [...parentPath, index];
+
+      if (Text.isText(child)) {
+        if (child.footnote) {
+          entries.push({ number: entries.length + 1, footnote: child.footnote, text: child, path });
+        }
+
+        return;
+      }
+
+      if (Element.isElement(child)) {
+        walk(child.children, path);
+      }
+    });
+  };
+
+  walk(nodes, []);
+
+  return entries;
+}
+
+const footnoteNumbersCache = new WeakMap<Descendant[], Map<Text, number>>();
+
+/**
+ * Number of a footnote reference. Slate replaces `editor.children` on every
+ * change, so all references share one traversal per document version.
+ */
+export function getFootnoteNumber(nodes: Descendant[], text: Text): number | undefined {
+  let numbers = footnoteNumbersCache.get(nodes);
+
+  if (!numbers) {
+    numbers = new Map(getFootnotes(nodes).map((entry) => [entry.text, entry.number]));
+    footnoteNumbersCache.set(nodes, numbers);
+  }
+
+  return numbers.get(text);
+}
@@ -0,0 +1,138 @@
+import { Edge } from '@atlaskit/pragmatic-drag-and-drop-hitbox/closest-edge';
+import { memo, useCallback, useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ReactEditor, useSlate } from 'slate-react';
+
+import { YjsEditor } from '@/application/slate-yjs';
+import { CustomEditor } from '@/application/slate-yjs/command';
+import { ReactComponent as OutlineIcon } from '@/assets/icons/list.svg';
+import OutlinePanelItem from '@/components/editor/components/outline-panel/OutlinePanelItem';
+import {
+  findActiveHeadingId,
+  getOutlineHeadings,
+  OutlineHeading,
+} from '@/components/editor/components/outline-panel/utils';
+import { useEditorContext } from '@/components/editor/EditorContext';
+import { getScrollParent } from '@/components/global-comment/utils';
+import { cn } from '@/lib/utils';
+
+const EXPANDED_STORAGE_KEY = 'outline_panel_expanded';
+// Headings count as "in view" once they pass this distance below the top of the scroll container.
+const ACTIVE_OFFSET = 120;
+
+function getStoredExpanded() {
+  return localStorage.getItem(EXPANDED_STORAGE_KEY) === 'true';
+}
+
+/**
+ * Floating navigator on the right of a document page listing its headings.
+ * Headings can be clicked to scroll to them, or dragged to move a whole section.
+ */
+function OutlinePanel() {
+  const { t } = useTranslation();
+  const editor = useSlate() as YjsEditor;
+  const { readOnly } = useEditorContext();
+  const [expanded, setExpanded] = useState(getStoredExpanded);
+  const [activeId, setActiveId] = useState<string | undefined>();
+  const headings = useMemo(() => getOutlineHeadings(editor.children), [editor.children]);
+  const minLevel = useMemo(() => Math.min(...headings.map((heading) => heading.level)), [headings]);
+
+  useEffect(() => {
+    if (!expanded || headings.length === 0) return;
+
+    let scrollContainer: Element | null = null;
+
+    try {
+      scrollContainer = getScrollParent(ReactEditor.toDOMNode(editor, editor));
+    } catch {
+      return;
+    }
+
+    const target: Element | Window = scrollContainer ?? window;
+    let frame = 0;
+    const update = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => {
+        const top = scrollContainer ? scrollContainer.getBoundingClientRect().top : 0;
+
+        setActiveId(findActiveHeadingId(headings, top + ACTIVE_OFFSET));
+      });
+    };
+
+    update();
+    target.addEventListener('scroll', update, { passive: true });
+
+    return () => {
+      cancelAnimationFrame(frame);
+      target.removeEventListener('scroll', update);
+    };
+  }, [editor, expanded, headings]);
+
+  const toggleExpanded = useCallback(() => {
+    setExpanded((prev) => {
+      localStorage.setItem(EXPANDED_STORAGE_KEY, String(!prev));
+      return !prev;
+    });
+  }, []);
+
+  const handleClick = useCallback((heading: OutlineHeading) => {
+    const element = document.getElementById(`heading-${heading.blockId}`);
+
+    element?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    setActiveId(heading.blockId);
+  }, []);
+
+  const handleMove = useCallback(
+    (sourceBlockId: string, targetBlockId: string, edge: Edge) => {
+      if (edge !== 'top' && edge !== 'bottom') return;
+
+      CustomEditor.moveSection(editor, sourceBlockId, targetBlockId, edge);
+    },
+    [editor]
+  );
+
+  if (headings.length === 0) return null;
+
+  return (
+    <div contentEditable={false} className={'pointer-events-none absolute right-0 top-0 h-full max-xl:hidden'}>
+      <div
+        data-testid={'outline-panel'}
+        className={'pointer-events-auto sticky top-20 mr-4 flex max-h-[calc(100vh-160px)] w-[220px] flex-col'}
+      >
+        <button
+          type={'button'}
+          data-testid={'outline-panel-toggle'}
+          title={t('document.plugins.outline.outlinePanel', 'Outline')}
+          onClick={toggleExpanded}
+          className={cn(
+            'flex h-7 w-7 items-center justify-center self-end rounded-md text-icon-secondary hover:bg-fill-content-hover',
+            expanded && 'text-icon-primary'
+          )}
+        >
+          <OutlineIcon className={'h-5 w-5'} />
+        </button>
+        {expanded && (
+          <div
+            className={
+              'appflowy-scroller mt-1 flex flex-col overflow-y-auto rounded-lg border border-border-primary bg-surface-primary p-1 shadow-popover'
+            }
+          >
+            {headings.map((heading) => (
+              <OutlinePanelItem
+                key={heading.blockId}
+                heading={heading}
+                indent={heading.level - minLevel}
+                active={heading.blockId === activeId}
+                canDrag={!readOnly}
+                onClick={handleClick}
+                onMove={handleMove}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default memo(OutlinePanel);
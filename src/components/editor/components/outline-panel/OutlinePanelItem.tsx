@@ -0,0 +1,95 @@
+import { draggable, dropTargetForElements } from '@atlaskit/pragmatic-drag-and-drop/element/adapter';
+import { attachClosestEdge, Edge, extractClosestEdge } from '@atlaskit/pragmatic-drag-and-drop-hitbox/closest-edge';
+import { DropIndicator } from '@atlaskit/pragmatic-drag-and-drop-react-drop-indicator/box';
+import { useEffect, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+
+import { OutlineHeading } from '@/components/editor/components/outline-panel/utils';
+import { cn } from '@/lib/utils';
+
+const DRAG_TYPE = 'outline-heading';
+
+interface OutlineDragData {
+  type?: string;
+  blockId?: string;
+}
+
+function OutlinePanelItem({
+  heading,
+  indent,
+  active,
+  canDrag,
+  onClick,
+  onMove,
+}: {
+  heading: OutlineHeading;
+  indent: number;
+  active: boolean;
+  canDrag: boolean;
+  onClick: (heading: OutlineHeading) => void;
+  onMove: (sourceBlockId: string, targetBlockId: string, edge: Edge) => void;
+}) {
+  const { t } = useTranslation();
+  const ref = useRef<HTMLDivElement>(null);
+  const [dropEdge, setDropEdge] = useState<Edge | null>(null);
+  const [dragging, setDragging] = useState(false);
+  const { blockId } = heading;
+
+  useEffect(() => {
+    const element = ref.current;
+
+    if (!element || !canDrag) return;
+
+    const cleanupDraggable = draggable({
+      element,
+      getInitialData: () => ({ type: DRAG_TYPE, blockId }),
+      onDragStart: () => setDragging(true),
+      onDrop: () => setDragging(false),
+    });
+    const cleanupDropTarget = dropTargetForElements({
+      element,
+      canDrop: ({ source }) => {
+        const data = source.data as OutlineDragData;
+
+        return data.type === DRAG_TYPE && data.blockId !== blockId;
+      },
+      getData: ({ input }) => attachClosestEdge({ blockId }, { input, element, allowedEdges: ['top', 'bottom'] }),
+      onDrag: ({ self }) => setDropEdge(extractClosestEdge(self.data)),
+      onDragLeave: () => setDropEdge(null),
+      onDrop: ({ self, source }) => {
+        const edge = extractClosestEdge(self.data);
+        const sourceBlockId = (source.data as OutlineDragData).blockId;
+
+        setDropEdge(null);
+        if (edge && sourceBlockId) {
+          onMove(sourceBlockId, blockId, edge);
+        }
+      },
+    });
+
+    return () => {
+      cleanupDraggable();
+      cleanupDropTarget();
+    };
+  }, [blockId, canDrag, onMove]);
+
+  return (
+    <div
+      ref={ref}
+      data-testid={'outline-panel-item'}
+      data-active={active}
+      onClick={() => onClick(heading)}
+      style={{ paddingLeft: `${indent * 12 + 8}px` }}
+      className={cn(
+        'relative cursor-pointer truncate rounded-md py-1 pr-2 text-sm text-text-secondary hover:bg-fill-content-hover',
+        active && 'font-medium text-text-action',
+        dragging && 'opacity-40'
+      )}
+    >
+      {heading.text || t('document.plugins.outline.untitledHeading', 'Untitled')}
+      {dropEdge && <DropIndicator edge={dropEdge} gap='2px' />}
+    </div>
+  );
+}
+
+export default OutlinePanelItem;
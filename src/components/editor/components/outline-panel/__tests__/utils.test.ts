@@ -0,0 +1,46 @@
+import { Element } from 'slate';
+
+import { BlockType } from '@/application/types';
+
+import { getOutlineHeadings } from '../utils';
+
+jest.mock('nanoid');
+
+function block(type: BlockType, blockId: string, text: string, data: object = {}, children: Element[] = []): Element {
+  return {
+    type,
+    blockId,
+    data,
+    children: [{ type: 'text', textId: blockId, children: [{ text }] }, ...children],
+  } as Element;
+}
+
+describe('outline panel utils', () => {
+  it('lists headings in reading order, including nested ones', () => {
+    const content = [
+      block(BlockType.HeadingBlock, 'h1', ' Intro ', { level: 1 }, [
+        block(BlockType.HeadingBlock, 'h1-child', 'Under heading', { level: 3 }),
+      ]),
+      block(BlockType.ToggleListBlock, 'toggle', 'Plain toggle', {}, [
+        block(BlockType.HeadingBlock, 'in-toggle', 'In toggle', { level: 2 }),
+      ]),
+      block(BlockType.ColumnsBlock, 'columns', '', {}, [
+        block(BlockType.ColumnBlock, 'column', '', {}, [
+          block(BlockType.ToggleListBlock, 'toggle-heading', 'Toggle heading', { level: 2 }),
+        ]),
+      ]),
+      block(BlockType.Paragraph, 'paragraph', 'Body'),
+    ];
+
+    expect(getOutlineHeadings(content)).toEqual([
+      { blockId: 'h1', level: 1, text: 'Intro' },
+      { blockId: 'h1-child', level: 3, text: 'Under heading' },
+      { blockId: 'in-toggle', level: 2, text: 'In toggle' },
+      { blockId: 'toggle-heading', level: 2, text: 'Toggle heading' },
+    ]);
+  });
+
+  it('returns nothing for documents without headings', () => {
+    expect(getOutlineHeadings([block(BlockType.Paragraph, 'paragraph', 'Body')])).toEqual([]);
+  });
+});
@@ -0,0 +1,2 @@
+export { default as OutlinePanel } from './OutlinePanel';
+export * from './utils';
@@ -0,0 +1,63 @@
+import { Element, Text } from 'slate';
+
+import { CustomEditor } from '@/application/slate-yjs/command';
+import { BlockType } from '@/application/types';
+
+export interface OutlineHeading {
+  blockId: string;
+  level: number;
+  text: string;
+}
+
+function getHeadingLevel(element: Element): number | undefined {
+  if (element.type !== BlockType.HeadingBlock && element.type !== BlockType.ToggleListBlock) return;
+
+  const level = (element.data as { level?: number } | undefined)?.level;
+
+  return typeof level === 'number' && level > 0 ? level : undefined;
+}
+
+/**
+ * Every heading and toggle heading in reading order, including those nested in
+ * toggles, columns and other headings.
+ */
+export function getOutlineHeadings(children: (Element | Text)[]): OutlineHeading[] {
+  const headings: OutlineHeading[] = [];
+
+  const traverse = (nodes: (Element | Text)[]) => {
+    nodes.forEach((node) => {
+      if (Text.isText(node)) return;
+
+      const level = getHeadingLevel(node);
+
+      if (level && node.blockId) {
+        headings.push({
+          blockId: node.blockId,
+          level,
+          text: CustomEditor.getBlockTextContent(node, 2).trim(),
+        });
+      }
+
+      traverse(node.children);
+    });
+  };
+
+  traverse(children);
+  return headings;
+}
+
+/** The last heading whose top edge has scrolled above `offset` within the viewport. */
+export function findActiveHeadingId(headings: OutlineHeading[], offset: number): string | undefined {
+  let activeId = headings[0]?.blockId;
+
+  for (const heading of headings) {
+    const element = document.getElementById(`heading-${heading.blockId}`);
+
+    if (!element) continue;
+    if (element.getBoundingClientRect().top > offset) break;
+
+    activeId = heading.blockId;
+  }
+
+  return activeId;
+}
@@ -4,8 +4,10 @@ import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { useTranslation } from 'react-i18next';
 import { Editor, Element, Transforms } from 'slate';
 import { ReactEditor, useSlateStatic } from 'slate-react';
+import { v4 as uuidv4 } from 'uuid';
 
 import { isDatabaseBlockType } from '@/application/database-block';
+import { getPageTemplates } from '@/application/page-template';
 import {
   createDatabaseGalleryPageViaGrid,
   createLinkedDatabaseGalleryView,
@@ -19,6 +21,7 @@ import {
 import { YjsEditor } from '@/application/slate-yjs';
 import { CustomEditor } from '@/application/slate-yjs/command';
 import { isEmbedBlockTypes } from '@/application/slate-yjs/command/const';
+import { EditorMarkFormat } from '@/application/slate-yjs/types';
 import {
   findSlateEntryByBlockId,
   getBlockEntry,
@@ -41,6 +44,7 @@ import {
   LinkPreviewBlockData,
   LinkPreviewType,
   SubpageNodeData,
+  SyncedBlockData,
   ToggleListBlockData,
   VideoBlockData,
   View,
@@ -73,11 +77,13 @@ import { ReactComponent as ImageIcon } from '@/assets/icons/image.svg';
 import { ReactComponent as CodeIcon } from '@/assets/icons/inline_code.svg';
 import { ReactComponent as LinkIcon } from '@/assets/icons/link.svg';
 import { ReactComponent as ListIcon } from '@/assets/icons/list.svg';
+import { ReactComponent as FootnoteIcon } from '@/assets/icons/number.svg';
 import { ReactComponent as NumberedListIcon } from '@/assets/icons/numbered_list.svg';
 import { ReactComponent as DocumentIcon } from '@/assets/icons/page.svg';
 import { ReactComponent as PDFIcon } from '@/assets/icons/pdf.svg';
 import { ReactComponent as QuoteIcon } from '@/assets/icons/quote.svg';
 import { ReactComponent as RefDocumentIcon } from '@/assets/icons/ref_page.svg';
+import { ReactComponent as TemplateIcon } from '@/assets/icons/template.svg';
 import { ReactComponent as SimpleTableIcon } from '@/assets/icons/table.svg';
 import { ReactComponent as TextIcon } from '@/assets/icons/text.svg';
 import { ReactComponent as TodoListIcon } from '@/assets/icons/todo.svg';
@@ -86,6 +92,7 @@ import { ReactComponent as ToggleHeading2Icon } from '@/assets/icons/toggle_h2.s
 import { ReactComponent as ToggleHeading3Icon } from '@/assets/icons/toggle_h3.svg';
 import { ReactComponent as ChevronRight, ReactComponent as ToggleListIcon } from '@/assets/icons/toggle_list.svg';
 import { ReactComponent as VideoIcon } from '@/assets/icons/video.svg';
+import { ReactComponent as WhiteboardIcon } from '@/assets/icons/whiteboard.svg';
 import { ReactComponent as GoogleIcon } from '@/assets/login/google.svg';
 import { notify } from '@/components/_shared/notify';
 import { calculateOptimalOrigins, Popover } from '@/components/_shared/popover';
@@ -95,10 +102,13 @@ import { useAIWriter } from '@/components/chat';
 import { SearchInput } from '@/components/chat/components/ui/search-input';
 import { usePopoverContext } from '@/components/editor/components/block-popover/BlockPopoverContext';
 import { createDatabaseNodeData } from '@/components/editor/components/blocks/database/utils/databaseBlockUtils';
+import { createFootnote, FOOTNOTE_PLACEHOLDER } from '@/components/editor/components/leaf/footnote/utils';
 import { usePanelContext } from '@/components/editor/components/panels/Panels.hooks';
 import { PanelType } from '@/components/editor/components/panels/PanelsContext';
 import { getRangeRect } from '@/components/editor/components/toolbar/selection-toolbar/utils';
 import { useEditorContext } from '@/components/editor/EditorContext';
+import { insertBlocksAtCaret } from '@/components/editor/utils/insert-blocks-at-caret';
+import { usePageTemplateFill } from '@/components/page-template/usePageTemplateFill';
 import { Button as OutlineButton } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { Separator } from '@/components/ui/separator';
@@ -257,7 +267,9 @@ export function SlashPanel({
     viewId: documentId,
     loadViewMeta,
     loadView,
+    loadViews,
     bindViewSync,
+    createRowDocument,
     scheduleDeferredCleanup,
     deletePage,
     updatePage,
@@ -275,6 +287,8 @@ export function SlashPanel({
   const databaseOutline = useMemo(() => databaseOptions.map((option) => option.view), [databaseOptions]);
   const [databaseLoading, setDatabaseLoading] = useState(false);
   const [databaseError, setDatabaseError] = useState<string | null>(null);
+  const [pageTemplates, setPageTemplates] = useState<View[]>([]);
+  const { fill: fillPageTemplate, dialog: pageTemplateDialog } = usePageTemplateFill(loadView);
 
   const editor = useSlateStatic() as YjsEditor;
 
@@ -337,6 +351,24 @@ export function SlashPanel({
     }
   }, [documentId, loadViewMeta, open]);
 
+  useEffect(() => {
+    if (!open || !loadViews) return;
+
+    let cancelled = false;
+
+    void loadViews()
+      .then((views) => {
+        if (!cancelled) setPageTemplates(getPageTemplates(views || []).filter((view) => view.view_id !== documentId));
+      })
+      .catch(() => {
+        if (!cancelled) setPageTemplates([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [documentId, loadViews, open]);
+
   const getBeforeContent = useCallback(() => {
     const { selection } = editor;
 
@@ -430,6 +462,50 @@ export function SlashPanel({
     [editor, openPopover]
   );
 
+  const insertFootnote = useCallback(() => {
+    Transforms.insertText(editor, FOOTNOTE_PLACEHOLDER);
+
+    const newSelection = editor.selection;
+
+    if (!newSelection) return;
+
+    Transforms.select(editor, {
+      anchor: {
+        path: newSelection.anchor.path,
+        offset: newSelection.anchor.offset - FOOTNOTE_PLACEHOLDER.length,
+      },
+      focus: newSelection.focus,
+    });
+    CustomEditor.addMark(editor, {
+      key: EditorMarkFormat.Footnote,
+      value: createFootnote(),
+    });
+    Transforms.collapse(editor, { edge: 'end' });
+  }, [editor]);
+
+  const insertPageTemplate = useCallback(
+    async (templateId: string) => {
+      // The caret may move while the variables dialog is open.
+      const caretRef = editor.selection ? Editor.rangeRef(editor, editor.selection) : null;
+
+      try {
+        const blocks = await fillPageTemplate(templateId, viewName);
+        const caret = caretRef?.current;
+
+        if (!blocks || blocks.length === 0 || !caret) return;
+
+        Transforms.select(editor, caret);
+        insertBlocksAtCaret(editor, blocks, { mergeFirstBlockInline: false });
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      } catch (e: any) {
+        notify.error(e.message);
+      } finally {
+        caretRef?.unref();
+      }
+    },
+    [editor, fillPageTemplate, viewName]
+  );
+
   const createInlineDatabase = useCallback(
     async (layout: ViewLayout) => {
       if (!documentId || !addPage) return;
@@ -817,6 +893,7 @@ export function SlashPanel({
       [SlashMenuGroupKey.AdvancedBlocks]: t('document.slashMenu.group.advancedBlocks', {
         defaultValue: 'Advanced blocks',
       }),
+      [SlashMenuGroupKey.Templates]: t('document.slashMenu.group.templates', { defaultValue: 'Templates' }),
       [SlashMenuGroupKey.Inline]: t('document.slashMenu.group.inline', { defaultValue: 'Inline' }),
     }),
     [t]
@@ -1594,6 +1671,34 @@ export function SlashPanel({
           turnInto(BlockType.OutlineBlock, {});
         },
       },
+      {
+        label: t('document.slashMenu.name.syncedBlock', { defaultValue: 'Synced block' }),
+        key: 'syncedBlock',
+        icon: <LinkIcon />,
+        group: SlashMenuGroupKey.AdvancedBlocks,
+        keywords: ['synced', 'sync', 'block', 'transclusion', 'reuse', 'mirror'],
+        onClick: async () => {
+          if (!documentId || !createRowDocument) return;
+          try {
+            const syncedDocumentId = uuidv4();
+
+            const docState = await createRowDocument(syncedDocumentId);
+
+            if (!docState) {
+              notify.error(t('document.syncedBlock.createFailed', 'Failed to create synced block'));
+              return;
+            }
+
+            turnInto(BlockType.SyncedBlock, {
+              document_id: syncedDocumentId,
+              source_view_id: documentId,
+            } as SyncedBlockData);
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          } catch (e: any) {
+            notify.error(e.message);
+          }
+        },
+      },
       {
         label: t('document.slashMenu.name.mathEquation'),
         key: 'math',
@@ -1616,6 +1721,16 @@ export function SlashPanel({
           turnInto(BlockType.CodeBlock, {});
         },
       },
+      {
+        label: t('document.slashMenu.name.whiteboard', { defaultValue: 'Whiteboard' }),
+        key: 'whiteboard',
+        icon: <WhiteboardIcon />,
+        group: SlashMenuGroupKey.AdvancedBlocks,
+        keywords: ['whiteboard', 'drawing', 'draw', 'sketch', 'diagram', 'shapes', 'sticky'],
+        onClick: () => {
+          turnInto(BlockType.WhiteboardBlock, {});
+        },
+      },
       {
         label: t('document.slashMenu.name.mermaid', { defaultValue: 'Mermaid' }),
         key: 'mermaid',
@@ -1711,6 +1826,16 @@ export function SlashPanel({
           openPanel(PanelType.Mention, { top: rect.top, left: rect.left });
         },
       },
+      {
+        label: t('document.slashMenu.name.footnote', { defaultValue: 'Footnote' }),
+        key: 'footnote',
+        icon: <FootnoteIcon />,
+        group: SlashMenuGroupKey.Inline,
+        keywords: ['footnote', 'note', 'reference', 'citation'],
+        onClick: () => {
+          insertFootnote();
+        },
+      },
       {
         label: t('document.slashMenu.name.file'),
         key: 'file',
@@ -1721,6 +1846,16 @@ export function SlashPanel({
           turnInto(BlockType.FileBlock, {});
         },
       },
+      ...pageTemplates.map((template) => ({
+        label: template.name || t('menuAppHeader.defaultNewPageName'),
+        key: `pageTemplate-${template.view_id}`,
+        icon: <TemplateIcon />,
+        group: SlashMenuGroupKey.Templates,
+        keywords: ['template', template.name],
+        onClick: () => {
+          void insertPageTemplate(template.view_id);
+        },
+      })),
     ];
 
     return filterSlashMenuOptions(allOptions, {
@@ -1740,6 +1875,10 @@ export function SlashPanel({
     documentId,
     addPage,
     openPageModal,
+    createRowDocument,
+    insertFootnote,
+    pageTemplates,
+    insertPageTemplate,
     setEmojiPosition,
     searchText,
     handleOpenLinkedDatabasePicker,
@@ -1969,6 +2108,7 @@ export function SlashPanel({
           </div>
         </div>
       </Popover>
+      {pageTemplateDialog}
     </>
   );
 }
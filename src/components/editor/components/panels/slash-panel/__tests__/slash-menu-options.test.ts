@@ -64,6 +64,16 @@ describe('slash-menu-options', () => {
 
       expect(result.map((item) => item.key)).toEqual(['dateOrReminder']);
     });
+
+    it('hides page templates inside simple table cells and AI meeting blocks', () => {
+      const templates = [option({ key: 'text' }), option({ key: 'template-1', group: SlashMenuGroupKey.Templates })];
+
+      expect(filterSlashMenuOptions(templates, {}).map((item) => item.key)).toEqual(['text', 'template-1']);
+      expect(filterSlashMenuOptions(templates, { isInsideSimpleTableCell: true }).map((item) => item.key)).toEqual([
+        'text',
+      ]);
+      expect(filterSlashMenuOptions(templates, { isInsideAIMeeting: true }).map((item) => item.key)).toEqual(['text']);
+    });
   });
 
   describe('groupSlashMenuOptions', () => {
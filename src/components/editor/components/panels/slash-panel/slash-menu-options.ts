@@ -4,6 +4,7 @@ export enum SlashMenuGroupKey {
   Media = 'media',
   Database = 'database',
   AdvancedBlocks = 'advancedBlocks',
+  Templates = 'templates',
   Inline = 'inline',
 }
 
@@ -29,6 +30,7 @@ export const SLASH_MENU_GROUP_ORDER = [
   SlashMenuGroupKey.Media,
   SlashMenuGroupKey.Database,
   SlashMenuGroupKey.AdvancedBlocks,
+  SlashMenuGroupKey.Templates,
   SlashMenuGroupKey.Inline,
 ] as const;
 
@@ -49,6 +51,8 @@ export const SIMPLE_TABLE_EXCLUDED_OPTION_KEYS = new Set([
   'chart',
   'linkedChart',
   'outline',
+  'syncedBlock',
+  'whiteboard',
 ]);
 
 export const AI_MEETING_EXCLUDED_OPTION_KEYS = new Set([
@@ -68,8 +72,10 @@ export const AI_MEETING_EXCLUDED_OPTION_KEYS = new Set([
   'chart',
   'linkedChart',
   'outline',
+  'syncedBlock',
   'video',
   'pdf',
+  'whiteboard',
 ]);
 
 export function matchesSlashMenuOption(option: SlashMenuOptionBase, searchText?: string) {
@@ -87,6 +93,13 @@ export function filterSlashMenuOptions<T extends SlashMenuOptionBase>(options: T
     if (option.disabled) return false;
     if (context.isInsideSimpleTableCell && SIMPLE_TABLE_EXCLUDED_OPTION_KEYS.has(option.key)) return false;
     if (context.isInsideAIMeeting && AI_MEETING_EXCLUDED_OPTION_KEYS.has(option.key)) return false;
+    // Templates insert whole pages of blocks, which neither container can hold.
+    if (
+      (context.isInsideSimpleTableCell || context.isInsideAIMeeting) &&
+      option.group === SlashMenuGroupKey.Templates
+    ) {
+      return false;
+    }
 
     return matchesSlashMenuOption(option, context.searchText);
   });
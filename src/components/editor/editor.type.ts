@@ -26,11 +26,13 @@ import {
   FileBlockData,
   GalleryBlockData,
   SubpageNodeData,
+  SyncedBlockData,
   SimpleTableData,
   VideoBlockData,
   ColumnNodeData,
   AudioBlockData,
   GoogleDriveBlockData,
+  WhiteboardBlockData,
 } from '@/application/types';
 
 export interface BlockNode extends Element {
@@ -197,6 +199,12 @@ export interface SubpageNode extends BlockNode {
   data: SubpageNodeData;
 }
 
+export interface SyncedBlockNode extends BlockNode {
+  type: BlockType.SyncedBlock;
+  blockId: string;
+  data: SyncedBlockData;
+}
+
 export interface ColumnsNode extends BlockNode {
   type: BlockType.ColumnsBlock;
   blockId: string;
@@ -235,6 +243,11 @@ export interface PDFNode extends BlockNode {
   data: PDFBlockData;
 }
 
+export interface WhiteboardNode extends BlockNode {
+  type: BlockType.WhiteboardBlock;
+  data: WhiteboardBlockData;
+}
+
 export interface EditorElementProps<T = Element> extends HTMLAttributes<HTMLDivElement> {
   node: T;
 }
@@ -434,5 +434,26 @@ For more info, visit [our docs](https://docs.example.com).
       expect(blocks.some((b) => b.type === BlockType.BulletedListBlock)).toBe(true);
       expect(blocks.some((b) => b.type === BlockType.DividerBlock)).toBe(true);
     });
+
+    it('should import footnotes as inline references', () => {
+      const markdown = 'Claim[^1] and another[^note].\n\n[^1]: First source\n[^note]: Second **source**';
+      const blocks = parseMarkdown(markdown);
+
+      expect(blocks).toHaveLength(1);
+      expect(blocks[0].text).toBe('Claim* and another*.');
+
+      const footnotes = blocks[0].formats.filter((format) => format.type === 'footnote');
+
+      expect(footnotes).toHaveLength(2);
+      expect(footnotes[0]).toMatchObject({ start: 5, end: 6, data: { footnote: { content: 'First source' } } });
+      expect(footnotes[1]).toMatchObject({ start: 18, end: 19, data: { footnote: { content: 'Second source' } } });
+      expect(footnotes[0].data?.footnote?.id).not.toBe(footnotes[1].data?.footnote?.id);
+    });
+
+    it('should keep references to empty footnote definitions', () => {
+      const blocks = parseMarkdown('Orphan[^empty]\n\n[^empty]:');
+
+      expect(blocks[0].formats.find((format) => format.type === 'footnote')?.data?.footnote?.content).toBe('');
+    });
   });
 });
@@ -4,7 +4,7 @@ import { unified } from 'unified';
 
 import { BlockData, BlockType } from '@/application/types';
 
-import { extractInlineFormatsFromMDAST, extractTextFromMDAST } from './mdast-utils';
+import { extractInlineFormatsFromMDAST, extractTextFromMDAST, resolveFootnoteReferences } from './mdast-utils';
 import { parseMarkdownTable } from './table-parser';
 import { MarkdownParseOptions, ParsedBlock } from './types';
 
@@ -55,6 +55,9 @@ export function parseMarkdown(markdown: string, options: MarkdownParseOptions =
     const tree = processor.parse(normalizedMarkdown);
     const ast = processor.runSync(tree) as MdastRoot;
 
+    // Footnote definitions are dropped below; their text travels with the references
+    resolveFootnoteReferences(ast);
+
     // Step 2: Convert MDAST to ParsedBlocks
     const blocks = convertMarkdownASTToAppFlowyBlocks(ast.children as BlockContent[]);
 
@@ -1,6 +1,48 @@
+import { Footnote } from '@/application/types';
+import { createFootnote, FOOTNOTE_PLACEHOLDER } from '@/components/editor/components/leaf/footnote/utils';
+
 import { InlineFormat } from './types';
 
-import type { InlineCode, Link, Text as MdastText } from 'mdast';
+import type { FootnoteDefinition, FootnoteReference, InlineCode, Link, Text as MdastText } from 'mdast';
+
+type ResolvedFootnoteReference = FootnoteReference & { data?: { footnote?: Footnote } };
+
+function forEachMDASTNode(node: unknown, callback: (node: { type: string; children?: unknown[] }) => void) {
+  if (!node || typeof node !== 'object') return;
+
+  const n = node as { type: string; children?: unknown[] };
+
+  callback(n);
+  n.children?.forEach((child) => forEachMDASTNode(child, callback));
+}
+
+/**
+ * Copies the text of every `[^label]: ...` definition onto the references
+ * that use it. Each reference becomes its own footnote, so a definition cited
+ * twice is imported twice.
+ */
+export function resolveFootnoteReferences(root: unknown) {
+  const definitions = new Map<string, string>();
+
+  forEachMDASTNode(root, (node) => {
+    if (node.type !== 'footnoteDefinition') return;
+
+    const definition = node as FootnoteDefinition;
+
+    definitions.set(definition.identifier, definition.children.map(extractTextFromMDAST).join('\n'));
+  });
+
+  forEachMDASTNode(root, (node) => {
+    if (node.type !== 'footnoteReference') return;
+
+    const reference = node as ResolvedFootnoteReference;
+
+    reference.data = {
+      ...reference.data,
+      footnote: createFootnote(definitions.get(reference.identifier) ?? ''),
+    };
+  });
+}
 
 /**
  * Extracts plain text from MDAST node
@@ -18,6 +60,10 @@ export function extractTextFromMDAST(node: unknown): string {
     return (n as InlineCode).value;
   }
 
+  if (n.type === 'footnoteReference') {
+    return FOOTNOTE_PLACEHOLDER;
+  }
+
   if (n.children) {
     return n.children.map(extractTextFromMDAST).join('');
   }
@@ -77,6 +123,25 @@ export function extractInlineFormatsFromMDAST(node: unknown, baseOffset = 0): In
       return text;
     }
 
+    // Footnote reference, resolved by `resolveFootnoteReferences`
+    if (obj.type === 'footnoteReference') {
+      const footnote = (obj as ResolvedFootnoteReference).data?.footnote;
+      const startOffset = currentOffset;
+
+      currentOffset += FOOTNOTE_PLACEHOLDER.length;
+
+      if (footnote) {
+        formats.push({
+          start: startOffset,
+          end: currentOffset,
+          type: 'footnote',
+          data: { footnote },
+        });
+      }
+
+      return FOOTNOTE_PLACEHOLDER;
+    }
+
     // Formatting nodes
     const newTypes = new Set(parentTypes);
 
@@ -1,4 +1,4 @@
-import { BlockData, BlockType } from '@/application/types';
+import { BlockData, BlockType, Footnote } from '@/application/types';
 
 /**
  * Represents inline formatting information for text spans
@@ -9,7 +9,7 @@ export interface InlineFormat {
   /** End offset in the text */
   end: number;
   /** Format type */
-  type: 'bold' | 'italic' | 'underline' | 'strikethrough' | 'code' | 'link' | 'color' | 'bgColor';
+  type: 'bold' | 'italic' | 'underline' | 'strikethrough' | 'code' | 'link' | 'color' | 'bgColor' | 'footnote';
   /** Additional data for specific formats */
   data?: {
     /** For links: the URL */
@@ -18,6 +18,8 @@ export interface InlineFormat {
     color?: string;
     /** For background colors: hex color value */
     bgColor?: string;
+    /** For footnotes: the footnote reference */
+    footnote?: Footnote;
   };
 }
 
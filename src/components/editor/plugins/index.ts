@@ -9,7 +9,10 @@ import { withInsertText } from '@/components/editor/plugins/withInsertText';
 import { withMarkdown } from '@/components/editor/plugins/withMarkdown';
 import { withPasted } from '@/components/editor/plugins/withPasted';
 import { withSimpleTable } from '@/components/editor/plugins/withSimpleTable';
+import { withSuggestions } from '@/components/editor/plugins/withSuggestions';
 
 export function withPlugins(editor: ReactEditor) {
-  return withSimpleTable(withInsertData(withPasted(withCopy(withMarkdown(withInsertBreak(withDelete(withInsertText(withElement(editor)))))))));
+  return withSuggestions(
+    withSimpleTable(withInsertData(withPasted(withCopy(withMarkdown(withInsertBreak(withDelete(withInsertText(withElement(editor)))))))))
+  );
 }
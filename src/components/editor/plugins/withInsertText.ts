@@ -46,9 +46,9 @@ export const withInsertText = (editor: ReactEditor) => {
 
     const [textNode, textPath] = textEntry as NodeEntry<Text>;
 
-    // If the text node is a formula or mention, split the node and insert the text
-    if (textNode.formula || textNode.mention) {
-      Log.debug('Inserting text into formula or mention', newAt);
+    // If the text node is a formula, mention or footnote, split the node and insert the text
+    if (textNode.formula || textNode.mention || textNode.footnote) {
+      Log.debug('Inserting text into formula, mention or footnote', newAt);
       Transforms.insertNodes(editor, { text }, { at: point, select: true, voids: false });
 
       return;
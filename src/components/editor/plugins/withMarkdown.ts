@@ -3,13 +3,19 @@ import { ReactEditor } from 'slate-react';
 
 import { YjsEditor } from '@/application/slate-yjs';
 import { allTriggerChars, applyMarkdown } from '@/components/editor/utils/markdown';
+import { getSuggestingAuthor } from '@/components/inline-comment/editor/suggestions';
 
 export const withMarkdown = (editor: ReactEditor) => {
   const { insertText } = editor;
 
   editor.insertText = (text: string, options?: TextInsertTextOptions) => {
 
-    if (allTriggerChars.has(text) && applyMarkdown(editor as ReactEditor & YjsEditor, text)) {
+    // Block conversions cannot be suggested, so shortcuts stay plain text while suggesting.
+    if (
+      allTriggerChars.has(text) &&
+      !getSuggestingAuthor(editor) &&
+      applyMarkdown(editor as ReactEditor & YjsEditor, text)
+    ) {
       return;
     }
 
@@ -640,6 +640,9 @@ function parsedBlockToTextNodes(block: ParsedBlock): Text[] {
         case 'bgColor':
           attributes.bg_color = format.data?.bgColor;
           break;
+        case 'footnote':
+          attributes.footnote = format.data?.footnote;
+          break;
       }
     });
 
@@ -0,0 +1,119 @@
+import { EditorFragmentDeletionOptions, Node, TextUnit } from 'slate';
+import { TextInsertTextOptions } from 'slate/dist/interfaces/transforms/text';
+import { ReactEditor } from 'slate-react';
+
+import {
+  getSuggestingAuthor,
+  suggestDeletionFromCaret,
+  suggestInsertion,
+} from '@/components/inline-comment/editor/suggestions';
+
+/**
+ * In suggesting mode typed text is marked as a suggested insertion and deleted
+ * text is struck through instead of removed. Outside it the editor is unchanged.
+ *
+ * Only text changes can be suggested: pasted content arrives as plain text and
+ * block splits are ignored, since nothing could review them.
+ */
+export function withSuggestions(editor: ReactEditor) {
+  const {
+    insertText,
+    deleteBackward,
+    deleteForward,
+    deleteFragment,
+    insertBreak,
+    insertSoftBreak,
+    insertData,
+    insertTextData,
+    insertFragment,
+  } = editor;
+
+  editor.insertText = (text: string, options?: TextInsertTextOptions) => {
+    const author = getSuggestingAuthor(editor);
+
+    if (!author || options?.at) {
+      insertText(text, options);
+      return;
+    }
+
+    suggestInsertion(editor, text, author, (value) => insertText(value));
+  };
+
+  editor.deleteBackward = (unit: TextUnit) => {
+    const author = getSuggestingAuthor(editor);
+
+    if (!author) {
+      deleteBackward(unit);
+      return;
+    }
+
+    suggestDeletionFromCaret(editor, 'backward', unit, author);
+  };
+
+  editor.deleteForward = (unit: TextUnit) => {
+    const author = getSuggestingAuthor(editor);
+
+    if (!author) {
+      deleteForward(unit);
+      return;
+    }
+
+    suggestDeletionFromCaret(editor, 'forward', unit, author);
+  };
+
+  editor.deleteFragment = (options?: EditorFragmentDeletionOptions) => {
+    const author = getSuggestingAuthor(editor);
+
+    if (!author) {
+      deleteFragment(options);
+      return;
+    }
+
+    suggestDeletionFromCaret(editor, options?.direction ?? 'backward', 'character', author);
+  };
+
+  editor.insertBreak = () => {
+    if (getSuggestingAuthor(editor)) return;
+
+    insertBreak();
+  };
+
+  editor.insertSoftBreak = () => {
+    if (getSuggestingAuthor(editor)) return;
+
+    insertSoftBreak();
+  };
+
+  editor.insertData = (data: DataTransfer) => {
+    if (!getSuggestingAuthor(editor)) {
+      insertData(data);
+      return;
+    }
+
+    editor.insertTextData(data);
+  };
+
+  editor.insertTextData = (data: DataTransfer) => {
+    if (!getSuggestingAuthor(editor)) return insertTextData(data);
+
+    const text = data.getData('text/plain');
+
+    if (!text) return false;
+
+    editor.insertText(text);
+    return true;
+  };
+
+  editor.insertFragment = (fragment: Node[]) => {
+    if (!getSuggestingAuthor(editor)) {
+      insertFragment(fragment);
+      return;
+    }
+
+    const text = fragment.map((node) => Node.string(node)).join('\n');
+
+    if (text) editor.insertText(text);
+  };
+
+  return editor;
+}
@@ -0,0 +1,125 @@
+import { Element, Text } from 'slate';
+
+import { BlockType, MentionType } from '@/application/types';
+
+import { serializeToHtml } from '../html-serializer';
+
+function block(type: BlockType, leaves: Text[] | string, data = {}, children: Element[] = []): Element {
+  const text = typeof leaves === 'string' ? [{ text: leaves }] : leaves;
+
+  return {
+    type,
+    data,
+    children: [{ type: 'text', textId: '', children: text }, ...children],
+  } as Element;
+}
+
+function container(type: BlockType, data = {}, children: Element[] = []): Element {
+  return { type, data, children } as Element;
+}
+
+function body(html: string): string {
+  return /<article>\n([\s\S]*)\n<\/article>/.exec(html)?.[1] ?? '';
+}
+
+function page(...children: Element[]): Element {
+  return container(BlockType.Page, {}, children);
+}
+
+describe('serializeToHtml', () => {
+  it('produces a standalone document with an escaped title', () => {
+    const html = serializeToHtml(page(), { title: 'A <b> page' });
+
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(html).toContain('<title>A &lt;b&gt; page</title>');
+    expect(html).toContain('<h1>A &lt;b&gt; page</h1>');
+  });
+
+  it('escapes text and renders inline formats', () => {
+    const html = serializeToHtml(
+      page(
+        block(BlockType.Paragraph, [
+          { text: '<script>' },
+          { text: 'bold', bold: true, italic: true },
+          { text: 'link', href: 'https://appflowy.io' },
+          { text: 'bad', href: 'javascript:alert(1)' },
+        ])
+      )
+    );
+
+    expect(body(html)).toBe(
+      '<p>&lt;script&gt;<em><strong>bold</strong></em><a href="https://appflowy.io">link</a>bad</p>'
+    );
+  });
+
+  it('groups list items and nests their children', () => {
+    const html = serializeToHtml(
+      page(
+        block(BlockType.NumberedListBlock, 'one', { number: 2 }, [block(BlockType.BulletedListBlock, 'child')]),
+        block(BlockType.NumberedListBlock, 'two'),
+        block(BlockType.TodoListBlock, 'done', { checked: true })
+      )
+    );
+
+    expect(body(html)).toBe(
+      '<ol start="2"><li>one<ul><li>child</li></ul></li><li>two</li></ol>' +
+        '<ul class="todo-list"><li><input type="checkbox" disabled checked> done</li></ul>'
+    );
+  });
+
+  it('renders toggles, callouts, code, math and tables', () => {
+    const cell = (text: string) => container(BlockType.SimpleTableCellBlock, {}, [block(BlockType.Paragraph, text)]);
+    const html = body(
+      serializeToHtml(
+        page(
+          block(BlockType.ToggleListBlock, 'More', { collapsed: true }, [block(BlockType.Paragraph, 'hidden')]),
+          block(BlockType.CalloutBlock, 'note', { icon: '💡' }),
+          block(BlockType.CodeBlock, 'a < b', { language: 'ts' }),
+          container(BlockType.EquationBlock, { formula: 'x^2' }),
+          container(BlockType.SimpleTableBlock, { enable_header_row: true }, [
+            container(BlockType.SimpleTableRowBlock, {}, [cell('Name')]),
+            container(BlockType.SimpleTableRowBlock, {}, [cell('Value')]),
+          ])
+        )
+      )
+    );
+
+    expect(html).toContain('<details><summary>More</summary><div class="block-children"><p>hidden</p></div></details>');
+    expect(html).toContain('<div class="callout"><span class="callout-icon">💡</span>');
+    expect(html).toContain('<pre><code class="language-ts">a &lt; b</code></pre>');
+    expect(html).toContain('<div class="math-block"><span class="katex"><math');
+    expect(html).toContain('<table><thead><tr><th>Name</th></tr></thead><tbody><tr><td>Value</td></tr></tbody></table>');
+  });
+
+  it('renders columns and links mentions to their pages', () => {
+    const html = body(
+      serializeToHtml(
+        page(
+          container(BlockType.ColumnsBlock, {}, [
+            container(BlockType.ColumnBlock, { ratio: 2 }, [
+              block(BlockType.Paragraph, [{ text: '$', mention: { type: MentionType.PageRef, page_id: 'page-1' } }]),
+            ]),
+          ])
+        ),
+        { resolvePageName: () => 'Roadmap', resolvePageUrl: (viewId) => `/app/ws/${viewId}` }
+      )
+    );
+
+    expect(html).toBe(
+      '<div class="columns"><div class="column" style="flex: 2"><p><a href="/app/ws/page-1" class="mention">Roadmap</a></p></div></div>'
+    );
+  });
+
+  it('links footnote references to a footnote section', () => {
+    const html = body(
+      serializeToHtml(
+        page(block(BlockType.Paragraph, [{ text: 'Claim' }, { text: '*', footnote: { id: 'a', content: '<Source>' } }]))
+      )
+    );
+
+    expect(html).toBe(
+      '<p>Claim<sup class="footnote-ref" id="fnref-1"><a href="#fn-1">1</a></sup></p>' +
+        '<section class="footnotes"><ol><li id="fn-1">&lt;Source&gt; <a href="#fnref-1" class="footnote-back">↩</a></li></ol></section>'
+    );
+  });
+});
@@ -0,0 +1,186 @@
+import { Element, Text } from 'slate';
+
+import { withTestingYDoc } from '@/application/slate-yjs/__tests__/withTestingYjsEditor';
+import { slateContentInsertToYData } from '@/application/slate-yjs/utils/convert';
+import { BlockType, MentionType, TableAlignType, YDoc } from '@/application/types';
+
+import { documentToMarkdown, serializeToMarkdown } from '../markdown-serializer';
+
+jest.mock('nanoid');
+
+function block(type: BlockType, leaves: Text[] | string, data = {}, children: Element[] = []): Element {
+  const text = typeof leaves === 'string' ? [{ text: leaves }] : leaves;
+
+  return {
+    type,
+    data,
+    children: [{ type: 'text', textId: '', children: text }, ...children],
+  } as Element;
+}
+
+function container(type: BlockType, data = {}, children: Element[] = []): Element {
+  return { type, data, children } as Element;
+}
+
+function page(...children: Element[]): Element {
+  return container(BlockType.Page, {}, children);
+}
+
+describe('serializeToMarkdown', () => {
+  it('serializes headings, paragraphs and inline formats', () => {
+    const markdown = serializeToMarkdown(
+      page(
+        block(BlockType.HeadingBlock, 'Title', { level: 2 }),
+        block(BlockType.Paragraph, [
+          { text: 'Plain ' },
+          { text: 'bold ', bold: true },
+          { text: 'italic', italic: true },
+          { text: ' ' },
+          { text: 'a*b', code: true },
+          { text: ' and ' },
+          { text: 'link', href: 'https://appflowy.io' },
+          { text: ' ' },
+          { text: 'gone', strikethrough: true },
+        ])
+      ),
+      { title: 'My page' }
+    );
+
+    expect(markdown).toBe(
+      '# My page\n\n## Title\n\nPlain **bold** *italic* `a*b` and [link](https://appflowy.io) ~~gone~~\n'
+    );
+  });
+
+  it('escapes Markdown syntax in plain text', () => {
+    const markdown = serializeToMarkdown(page(block(BlockType.Paragraph, '# not *a* heading')));
+
+    expect(markdown).toBe('\\# not \\*a\\* heading\n');
+  });
+
+  it('serializes nested and numbered lists and todos', () => {
+    const markdown = serializeToMarkdown(
+      page(
+        block(BlockType.BulletedListBlock, 'one', {}, [block(BlockType.NumberedListBlock, 'nested', { number: 3 })]),
+        block(BlockType.BulletedListBlock, 'two'),
+        block(BlockType.NumberedListBlock, 'first'),
+        block(BlockType.NumberedListBlock, 'second'),
+        block(BlockType.TodoListBlock, 'done', { checked: true }),
+        block(BlockType.TodoListBlock, 'open', { checked: false })
+      )
+    );
+
+    expect(markdown).toBe('- one\n  3. nested\n- two\n\n1. first\n2. second\n\n- [x] done\n- [ ] open\n');
+  });
+
+  it('serializes toggles, quotes, callouts, code and math', () => {
+    const markdown = serializeToMarkdown(
+      page(
+        block(BlockType.ToggleListBlock, 'More', {}, [block(BlockType.Paragraph, 'hidden')]),
+        block(BlockType.QuoteBlock, 'quoted\nline'),
+        block(BlockType.CalloutBlock, 'note', { icon: '💡' }),
+        block(BlockType.CodeBlock, 'const a = `b`;', { language: 'ts' }),
+        container(BlockType.EquationBlock, { formula: 'E=mc^2' }),
+        container(BlockType.DividerBlock)
+      )
+    );
+
+    expect(markdown).toBe(
+      [
+        '<details>\n<summary>More</summary>\n\nhidden\n\n</details>',
+        '> quoted  \n> line',
+        '> 💡 note',
+        '```ts\nconst a = `b`;\n```',
+        '$$\nE=mc^2\n$$',
+        '---',
+      ].join('\n\n') + '\n'
+    );
+  });
+
+  it('serializes simple tables with column alignment', () => {
+    const cell = (text: string) => container(BlockType.SimpleTableCellBlock, {}, [block(BlockType.Paragraph, text)]);
+    const row = (...texts: string[]) => container(BlockType.SimpleTableRowBlock, {}, texts.map(cell));
+    const markdown = serializeToMarkdown(
+      page(
+        container(BlockType.SimpleTableBlock, { column_aligns: { '1': TableAlignType.Right } }, [
+          row('Name', 'Amount'),
+          row('a|b', '2'),
+        ])
+      )
+    );
+
+    expect(markdown).toBe('| Name | Amount |\n| --- | ---: |\n| a\\|b | 2 |\n');
+  });
+
+  it('serializes columns, images, mentions and embedded pages', () => {
+    const options = {
+      resolvePageName: (viewId: string) => (viewId === 'page-1' ? 'Roadmap' : undefined),
+      resolvePageUrl: (viewId: string) => `/app/ws/${viewId}`,
+    };
+    const markdown = serializeToMarkdown(
+      page(
+        container(BlockType.ColumnsBlock, {}, [
+          container(BlockType.ColumnBlock, {}, [block(BlockType.Paragraph, 'left')]),
+          container(BlockType.ColumnBlock, {}, [block(BlockType.Paragraph, 'right')]),
+        ]),
+        container(BlockType.ImageBlock, { url: 'https://example.com/a.png' }),
+        block(BlockType.Paragraph, [
+          { text: 'See ' },
+          { text: '$', mention: { type: MentionType.PageRef, page_id: 'page-1' } },
+          { text: ' by ' },
+          { text: '@', mention: { type: MentionType.Person, person_id: 'u1', person_name: 'Lucas' } },
+          { text: ' on ' },
+          { text: '$', mention: { type: MentionType.Date, date: '2024-03-05T10:00:00' } },
+        ]),
+        container(BlockType.SubpageBlock, { view_id: 'page-1' })
+      ),
+      options
+    );
+
+    expect(markdown).toBe(
+      [
+        'left\n\nright',
+        '![](https://example.com/a.png)',
+        'See [Roadmap](/app/ws/page-1) by @Lucas on @Mar 5, 2024',
+        '[Roadmap](/app/ws/page-1)',
+      ].join('\n\n') + '\n'
+    );
+  });
+
+  it('drops script links', () => {
+    const markdown = serializeToMarkdown(
+      page(block(BlockType.Paragraph, [{ text: 'click', href: 'javascript:alert(1)' }]))
+    );
+
+    expect(markdown).toBe('click\n');
+  });
+
+  it('numbers footnotes in reading order and lists them at the end', () => {
+    const markdown = serializeToMarkdown(
+      page(
+        block(BlockType.Paragraph, [
+          { text: 'First' },
+          { text: '*', footnote: { id: 'b', content: 'Source B' } },
+          { text: ' then' },
+          { text: '*', footnote: { id: 'a', content: 'Source A\nline two' } },
+        ])
+      )
+    );
+
+    expect(markdown).toBe('First[^1] then[^2]\n\n[^1]: Source B\n[^2]: Source A  \n    line two\n');
+  });
+});
+
+describe('documentToMarkdown', () => {
+  it('reads the document from its YDoc', () => {
+    const doc = withTestingYDoc('1') as YDoc;
+
+    slateContentInsertToYData(
+      '1',
+      0,
+      [block(BlockType.HeadingBlock, 'Hello', { level: 1 }), block(BlockType.Paragraph, 'World')],
+      doc
+    );
+
+    expect(documentToMarkdown(doc)).toBe('# Hello\n\nWorld\n');
+  });
+});
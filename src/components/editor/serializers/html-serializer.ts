@@ -0,0 +1,331 @@
+import katex from 'katex';
+import { Element, Text } from 'slate';
+
+import { yDocToSlateContent } from '@/application/slate-yjs/utils/convert';
+import {
+  BlockType,
+  CalloutBlockData,
+  CodeBlockData,
+  ColumnNodeData,
+  GalleryBlockData,
+  HeadingBlockData,
+  ImageBlockData,
+  MathEquationBlockData,
+  NumberedListBlockData,
+  SimpleTableData,
+  TableAlignType,
+  TodoListBlockData,
+  ToggleListBlockData,
+  YDoc,
+} from '@/application/types';
+
+import {
+  createSerializeContext,
+  getBlockData,
+  getBlockLeaves,
+  getChildBlocks,
+  getEmbedLink,
+  getMentionContent,
+  getPlainText,
+  isSafeUrl,
+  LIST_BLOCK_TYPES,
+  SerializeContext,
+} from './serializer-utils';
+import { DocumentSerializeOptions } from './types';
+
+const DOCUMENT_STYLE = `
+body { margin: 0; color: #1f2329; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; }
+article { max-width: 800px; margin: 0 auto; padding: 48px 24px; }
+pre { padding: 12px 16px; overflow-x: auto; background: #f5f5f7; border-radius: 8px; }
+code { font-family: 'SFMono-Regular', Consolas, monospace; }
+blockquote { margin: 0; padding-left: 16px; border-left: 4px solid #d0d3d6; }
+table { border-collapse: collapse; }
+th, td { padding: 6px 12px; border: 1px solid #d0d3d6; vertical-align: top; }
+img { max-width: 100%; }
+ul.todo-list { padding-left: 4px; list-style: none; }
+.block-children { margin-left: 24px; }
+.callout { display: flex; gap: 8px; padding: 12px 16px; background: #f5f5f7; border-radius: 8px; }
+.columns { display: flex; gap: 24px; }
+.column { flex: 1; min-width: 0; }
+.math-block { overflow-x: auto; text-align: center; }
+.mention { color: #00b5ff; }
+.footnotes { margin-top: 32px; padding-top: 12px; border-top: 1px solid #d0d3d6; font-size: 14px; }
+.footnote-ref a, .footnote-back { text-decoration: none; }
+`;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function renderFormula(formula: string, displayMode: boolean): string {
+  return katex.renderToString(formula, { output: 'mathml', throwOnError: false, displayMode });
+}
+
+function link(html: string, url: string, className?: string): string {
+  const classAttr = className ? ` class="${className}"` : '';
+
+  return `<a href="${escapeHtml(url)}"${classAttr}>${html}</a>`;
+}
+
+function serializeLeaf(leaf: Text, options: SerializeContext): string {
+  if (leaf.mention) {
+    const { text, url } = getMentionContent(leaf.mention, options);
+
+    return isSafeUrl(url) ? link(escapeHtml(text), url, 'mention') : `<span class="mention">${escapeHtml(text)}</span>`;
+  }
+
+  if (leaf.formula) {
+    return renderFormula(leaf.formula, false);
+  }
+
+  if (leaf.footnote) {
+    const number = options.footnoteNumbers.get(leaf);
+
+    return number ? `<sup class="footnote-ref" id="fnref-${number}"><a href="#fn-${number}">${number}</a></sup>` : '';
+  }
+
+  if (!leaf.text) return '';
+
+  let html = escapeHtml(leaf.text).replace(/\n/g, '<br>');
+
+  if (leaf.code) html = `<code>${html}</code>`;
+  if (leaf.bold) html = `<strong>${html}</strong>`;
+  if (leaf.italic) html = `<em>${html}</em>`;
+  if (leaf.strikethrough) html = `<s>${html}</s>`;
+  if (leaf.underline) html = `<u>${html}</u>`;
+  if (isSafeUrl(leaf.href)) html = link(html, leaf.href);
+
+  return html;
+}
+
+function serializeInline(leaves: Text[], options: SerializeContext): string {
+  return leaves.map((leaf) => serializeLeaf(leaf, options)).join('');
+}
+
+function wrapChildren(html: string): string {
+  return html ? `<div class="block-children">${html}</div>` : '';
+}
+
+function serializeTable(block: Element, options: SerializeContext): string {
+  const { enable_header_row, column_aligns = {} } = getBlockData<SimpleTableData>(block);
+  const rows = getChildBlocks(block).map((row, rowIndex) => {
+    const tag = enable_header_row && rowIndex === 0 ? 'th' : 'td';
+    const cells = getChildBlocks(row).map((cell, columnIndex) => {
+      const align = column_aligns[String(columnIndex)];
+      const style = align && align !== TableAlignType.Left ? ` style="text-align: ${align.toLowerCase()}"` : '';
+      const content = getChildBlocks(cell)
+        .map((child) => serializeInline(getBlockLeaves(child), options))
+        .join('<br>');
+
+      return `<${tag}${style}>${content}</${tag}>`;
+    });
+
+    return `<tr>${cells.join('')}</tr>`;
+  });
+
+  if (rows.length === 0) return '';
+
+  if (enable_header_row) {
+    const [header, ...body] = rows;
+
+    return `<table><thead>${header}</thead><tbody>${body.join('')}</tbody></table>`;
+  }
+
+  return `<table><tbody>${rows.join('')}</tbody></table>`;
+}
+
+function serializeListItem(block: Element, options: SerializeContext): string {
+  const text = serializeInline(getBlockLeaves(block), options);
+  const children = serializeBlocks(getChildBlocks(block), options);
+
+  if (block.type === BlockType.TodoListBlock) {
+    const checked = getBlockData<TodoListBlockData>(block).checked ? ' checked' : '';
+
+    return `<li><input type="checkbox" disabled${checked}> ${text}${children}</li>`;
+  }
+
+  return `<li>${text}${children}</li>`;
+}
+
+function serializeList(blocks: Element[], options: SerializeContext): string {
+  const items = blocks.map((block) => serializeListItem(block, options)).join('');
+
+  switch (blocks[0].type) {
+    case BlockType.NumberedListBlock: {
+      const start = getBlockData<NumberedListBlockData>(blocks[0]).number ?? 1;
+
+      return start === 1 ? `<ol>${items}</ol>` : `<ol start="${start}">${items}</ol>`;
+    }
+
+    case BlockType.TodoListBlock:
+      return `<ul class="todo-list">${items}</ul>`;
+    default:
+      return `<ul>${items}</ul>`;
+  }
+}
+
+function serializeBlock(block: Element, options: SerializeContext): string {
+  const text = serializeInline(getBlockLeaves(block), options);
+  const children = () => serializeBlocks(getChildBlocks(block), options);
+
+  switch (block.type) {
+    case BlockType.HeadingBlock: {
+      const level = Math.min(Math.max(getBlockData<HeadingBlockData>(block).level ?? 1, 1), 6);
+
+      return `<h${level}>${text}</h${level}>${wrapChildren(children())}`;
+    }
+
+    case BlockType.ToggleListBlock: {
+      const open = getBlockData<ToggleListBlockData>(block).collapsed ? '' : ' open';
+
+      return `<details${open}><summary>${text}</summary>${wrapChildren(children())}</details>`;
+    }
+
+    case BlockType.QuoteBlock:
+      return `<blockquote><p>${text}</p>${children()}</blockquote>`;
+    case BlockType.CalloutBlock: {
+      const { icon, icon_type } = getBlockData<CalloutBlockData>(block);
+      const emoji = icon && icon_type !== 'icon' ? `<span class="callout-icon">${escapeHtml(icon)}</span>` : '';
+
+      return `<div class="callout">${emoji}<div class="callout-content"><p>${text}</p>${children()}</div></div>`;
+    }
+
+    case BlockType.CodeBlock: {
+      const { language } = getBlockData<CodeBlockData>(block);
+      const classAttr = language ? ` class="language-${escapeHtml(language)}"` : '';
+
+      return `<pre><code${classAttr}>${escapeHtml(getPlainText(block))}</code></pre>`;
+    }
+
+    case BlockType.EquationBlock: {
+      const { formula } = getBlockData<MathEquationBlockData>(block);
+
+      return formula ? `<div class="math-block">${renderFormula(formula, true)}</div>` : '';
+    }
+
+    case BlockType.DividerBlock:
+      return '<hr>';
+    case BlockType.ImageBlock: {
+      const { url } = getBlockData<ImageBlockData>(block);
+
+      return isSafeUrl(url) ? `<p><img src="${escapeHtml(url)}" alt=""></p>` : '';
+    }
+
+    case BlockType.GalleryBlock: {
+      const images = (getBlockData<GalleryBlockData>(block).images ?? [])
+        .filter((image) => isSafeUrl(image.url))
+        .map((image) => `<img src="${escapeHtml(image.url)}" alt="">`);
+
+      return images.length > 0 ? `<p>${images.join('')}</p>` : '';
+    }
+
+    case BlockType.SimpleTableBlock:
+      return serializeTable(block, options);
+    case BlockType.ColumnsBlock:
+      return `<div class="columns">${children()}</div>`;
+    case BlockType.ColumnBlock: {
+      const { ratio } = getBlockData<ColumnNodeData>(block);
+      const style = ratio ? ` style="flex: ${Number(ratio)}"` : '';
+
+      return `<div class="column"${style}>${children()}</div>`;
+    }
+
+    default: {
+      const embed = getEmbedLink(block, options);
+
+      if (embed) {
+        return `<p>${isSafeUrl(embed.url) ? link(escapeHtml(embed.text), embed.url) : escapeHtml(embed.text)}</p>`;
+      }
+
+      return `<p>${text}</p>${wrapChildren(children())}`;
+    }
+  }
+}
+
+function serializeBlocks(blocks: Element[], options: SerializeContext): string {
+  let html = '';
+  let index = 0;
+
+  while (index < blocks.length) {
+    const type = blocks[index].type as string;
+
+    if (LIST_BLOCK_TYPES.includes(type)) {
+      // Consecutive items of the same kind share one list element.
+      let end = index + 1;
+
+      while (end < blocks.length && blocks[end].type === type) end += 1;
+
+      html += serializeList(blocks.slice(index, end), options);
+      index = end;
+      continue;
+    }
+
+    html += serializeBlock(blocks[index], options);
+    index += 1;
+  }
+
+  return html;
+}
+
+function serializeFootnotes({ footnotes }: SerializeContext): string {
+  if (footnotes.length === 0) return '';
+
+  const items = footnotes.map(({ number, footnote }) => {
+    const content = escapeHtml(footnote.content).replace(/\n/g, '<br>');
+
+    return `<li id="fn-${number}">${content} <a href="#fnref-${number}" class="footnote-back">↩</a></li>`;
+  });
+
+  return `<section class="footnotes"><ol>${items.join('')}</ol></section>`;
+}
+
+/**
+ * Serializes a document tree into a standalone HTML page
+ * @param root Page element produced by `yDocToSlateContent`
+ * @param options Serialization options
+ * @returns HTML document string
+ *
+ * @example
+ * ```typescript
+ * const root = yDocToSlateContent(doc);
+ * const html = root ? serializeToHtml(root, { title: 'Notes' }) : '';
+ * ```
+ */
+export function serializeToHtml(root: Element | undefined, options: DocumentSerializeOptions = {}): string {
+  const context = createSerializeContext(root, options);
+  const title = escapeHtml(options.title ?? '');
+  const content = root ? serializeBlocks(getChildBlocks(root), context) : '';
+  const heading = title ? `<h1>${title}</h1>\n` : '';
+  const footnotes = serializeFootnotes(context);
+
+  return [
+    '<!DOCTYPE html>',
+    '<html>',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${title}</title>`,
+    `<style>${DOCUMENT_STYLE}</style>`,
+    '</head>',
+    '<body>',
+    `<article>\n${heading}${content}${footnotes}\n</article>`,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Serializes a document into a standalone HTML page
+ * @param doc Document YDoc
+ * @param options Serialization options
+ * @returns HTML document string
+ */
+export function documentToHtml(doc: YDoc, options: DocumentSerializeOptions = {}): string {
+  return serializeToHtml(yDocToSlateContent(doc), options);
+}
@@ -0,0 +1,3 @@
+export * from './html-serializer';
+export * from './markdown-serializer';
+export * from './types';
@@ -0,0 +1,319 @@
+import { Element, Text } from 'slate';
+
+import { yDocToSlateContent } from '@/application/slate-yjs/utils/convert';
+import {
+  BlockType,
+  CalloutBlockData,
+  CodeBlockData,
+  GalleryBlockData,
+  HeadingBlockData,
+  ImageBlockData,
+  MathEquationBlockData,
+  NumberedListBlockData,
+  SimpleTableData,
+  TableAlignType,
+  TodoListBlockData,
+  YDoc,
+} from '@/application/types';
+
+import {
+  createSerializeContext,
+  getBlockData,
+  getBlockLeaves,
+  getChildBlocks,
+  getEmbedLink,
+  getMentionContent,
+  getPlainText,
+  isSafeUrl,
+  LIST_BLOCK_TYPES,
+  SerializeContext,
+} from './serializer-utils';
+import { DocumentSerializeOptions } from './types';
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/[\\`*_[\]<>|~$]/g, '\\$&');
+}
+
+/**
+ * Text that would otherwise be read as a heading, quote, list or rule
+ */
+function escapeLineStart(text: string): string {
+  return text.replace(/^(\s*)(#{1,6}(?=\s|$)|[-+](?=\s)|(\d+)[.)](?=\s))/, (match, space: string, marker: string) => {
+    return marker.startsWith('#') || marker.startsWith('-') || marker.startsWith('+')
+      ? `${space}\\${marker}`
+      : `${space}${marker.slice(0, -1)}\\${marker.slice(-1)}`;
+  });
+}
+
+function longestRun(text: string, char: string): number {
+  let longest = 0;
+  let current = 0;
+
+  for (const c of text) {
+    current = c === char ? current + 1 : 0;
+    longest = Math.max(longest, current);
+  }
+
+  return longest;
+}
+
+function wrapCode(text: string): string {
+  const fence = '`'.repeat(longestRun(text, '`') + 1);
+  const padding = text.startsWith('`') || text.endsWith('`') ? ' ' : '';
+
+  return `${fence}${padding}${text}${padding}${fence}`;
+}
+
+/**
+ * Wraps text in a delimiter while keeping surrounding whitespace outside,
+ * since `** bold **` is not emphasis in Markdown
+ */
+function wrapMark(text: string, open: string, close = open): string {
+  const match = /^(\s*)([\s\S]*?)(\s*)$/.exec(text);
+
+  if (!match || !match[2]) return text;
+
+  return `${match[1]}${open}${match[2]}${close}${match[3]}`;
+}
+
+function markdownLink(text: string, url: string): string {
+  return `[${text}](${url.replace(/[()\s]/g, encodeURIComponent)})`;
+}
+
+function serializeLeaf(leaf: Text, options: SerializeContext): string {
+  if (leaf.mention) {
+    const { text, url } = getMentionContent(leaf.mention, options);
+
+    return isSafeUrl(url) ? markdownLink(escapeMarkdown(text), url) : escapeMarkdown(text);
+  }
+
+  if (leaf.formula) {
+    return `$${leaf.formula}$`;
+  }
+
+  if (leaf.footnote) {
+    const number = options.footnoteNumbers.get(leaf);
+
+    return number ? `[^${number}]` : '';
+  }
+
+  if (!leaf.text) return '';
+
+  let text = leaf.code ? wrapCode(leaf.text) : escapeMarkdown(leaf.text);
+
+  if (leaf.bold) text = wrapMark(text, '**');
+  if (leaf.italic) text = wrapMark(text, '*');
+  if (leaf.strikethrough) text = wrapMark(text, '~~');
+  if (leaf.underline) text = wrapMark(text, '<u>', '</u>');
+  if (isSafeUrl(leaf.href)) text = markdownLink(text, leaf.href);
+
+  return text;
+}
+
+/**
+ * Serializes the formatted text of a block. Line breaks inside the text are
+ * kept as `\n`; callers decide how to render them.
+ */
+function serializeInline(leaves: Text[], options: SerializeContext): string {
+  return leaves.map((leaf) => serializeLeaf(leaf, options)).join('');
+}
+
+function hardBreaks(text: string): string {
+  return text.replace(/\n/g, '  \n');
+}
+
+function prefixLines(text: string, prefix: string, emptyPrefix = prefix.trimEnd()): string {
+  return text
+    .split('\n')
+    .map((line) => (line ? `${prefix}${line}` : emptyPrefix))
+    .join('\n');
+}
+
+function indent(text: string, width: number): string {
+  return prefixLines(text, ' '.repeat(width), '');
+}
+
+function joinParts(parts: string[]): string {
+  return parts.filter(Boolean).join('\n\n');
+}
+
+function serializeTable(block: Element, options: SerializeContext): string {
+  const rows = getChildBlocks(block).map((row) =>
+    getChildBlocks(row).map((cell) =>
+      getChildBlocks(cell)
+        .map((child) => serializeInline(getBlockLeaves(child), options))
+        .join('\n')
+        .replace(/\n/g, '<br>')
+    )
+  );
+
+  if (rows.length === 0) return '';
+
+  const columnCount = Math.max(...rows.map((row) => row.length), 1);
+  const aligns = getBlockData<SimpleTableData>(block).column_aligns ?? {};
+  const formatRow = (cells: string[]) =>
+    `| ${Array.from({ length: columnCount }, (_, index) => cells[index] ?? '').join(' | ')} |`;
+  const separator = Array.from({ length: columnCount }, (_, index) => {
+    switch (aligns[String(index)]) {
+      case TableAlignType.Left:
+        return ':---';
+      case TableAlignType.Center:
+        return ':---:';
+      case TableAlignType.Right:
+        return '---:';
+      default:
+        return '---';
+    }
+  });
+
+  // GFM tables always have a header, so the first row is used as one.
+  const [header, ...body] = rows;
+
+  return [formatRow(header), `| ${separator.join(' | ')} |`, ...body.map(formatRow)].join('\n');
+}
+
+function serializeCodeBlock(block: Element): string {
+  const code = getPlainText(block);
+  const fence = '`'.repeat(Math.max(3, longestRun(code, '`') + 1));
+  const { language } = getBlockData<CodeBlockData>(block);
+
+  return `${fence}${language ?? ''}\n${code}\n${fence}`;
+}
+
+function serializeBlock(block: Element, options: SerializeContext, listNumber: number): string {
+  const text = hardBreaks(serializeInline(getBlockLeaves(block), options));
+  const children = () => serializeBlocks(getChildBlocks(block), options);
+  const listItem = (marker: string) => {
+    const nested = children();
+    const line = `${marker}${text}`;
+
+    return nested ? `${line}\n${indent(nested, marker.length)}` : line;
+  };
+
+  switch (block.type) {
+    case BlockType.HeadingBlock: {
+      const level = Math.min(Math.max(getBlockData<HeadingBlockData>(block).level ?? 1, 1), 6);
+
+      return joinParts([text && `${'#'.repeat(level)} ${text}`, children()]);
+    }
+
+    case BlockType.BulletedListBlock:
+      return listItem('- ');
+    case BlockType.NumberedListBlock:
+      return listItem(`${listNumber}. `);
+    case BlockType.TodoListBlock:
+      return listItem(getBlockData<TodoListBlockData>(block).checked ? '- [x] ' : '- [ ] ');
+    case BlockType.ToggleListBlock:
+      return joinParts([`<details>\n<summary>${text}</summary>`, children(), '</details>']);
+    case BlockType.QuoteBlock:
+      return prefixLines(joinParts([text, children()]), '> ');
+    case BlockType.CalloutBlock: {
+      const { icon, icon_type } = getBlockData<CalloutBlockData>(block);
+      const emoji = icon && icon_type !== 'icon' ? `${icon} ` : '';
+
+      return prefixLines(joinParts([`${emoji}${text}`, children()]), '> ');
+    }
+
+    case BlockType.CodeBlock:
+      return serializeCodeBlock(block);
+    case BlockType.EquationBlock: {
+      const { formula } = getBlockData<MathEquationBlockData>(block);
+
+      return formula ? `$$\n${formula}\n$$` : '';
+    }
+
+    case BlockType.DividerBlock:
+      return '---';
+    case BlockType.ImageBlock: {
+      const { url } = getBlockData<ImageBlockData>(block);
+
+      return isSafeUrl(url) ? `![](${url})` : '';
+    }
+
+    case BlockType.GalleryBlock:
+      return (getBlockData<GalleryBlockData>(block).images ?? [])
+        .filter((image) => isSafeUrl(image.url))
+        .map((image) => `![](${image.url})`)
+        .join('\n');
+    case BlockType.SimpleTableBlock:
+      return serializeTable(block, options);
+    case BlockType.ColumnsBlock:
+    case BlockType.ColumnBlock:
+      return children();
+    default: {
+      const link = getEmbedLink(block, options);
+
+      if (link) {
+        return isSafeUrl(link.url) ? markdownLink(escapeMarkdown(link.text), link.url) : escapeMarkdown(link.text);
+      }
+
+      return joinParts([escapeLineStart(text), children()]);
+    }
+  }
+}
+
+function serializeBlocks(blocks: Element[], options: SerializeContext): string {
+  let output = '';
+  let previousType: string | undefined;
+  let listNumber = 0;
+
+  blocks.forEach((block) => {
+    const type = block.type as string;
+
+    if (type === BlockType.NumberedListBlock) {
+      listNumber =
+        previousType === BlockType.NumberedListBlock
+          ? listNumber + 1
+          : getBlockData<NumberedListBlockData>(block).number ?? 1;
+    }
+
+    const serialized = serializeBlock(block, options, listNumber);
+
+    if (serialized) {
+      // Items of the same list stay tight; every other block is its own paragraph.
+      const tight = type === previousType && LIST_BLOCK_TYPES.includes(type);
+
+      output += output ? `${tight ? '\n' : '\n\n'}${serialized}` : serialized;
+    }
+
+    previousType = type;
+  });
+
+  return output;
+}
+
+/**
+ * Serializes a document tree into GitHub-flavored Markdown
+ * @param root Page element produced by `yDocToSlateContent`
+ * @param options Serialization options
+ * @returns Markdown string
+ *
+ * @example
+ * ```typescript
+ * const root = yDocToSlateContent(doc);
+ * const markdown = root ? serializeToMarkdown(root, { title: 'Notes' }) : '';
+ * ```
+ */
+export function serializeToMarkdown(root: Element | undefined, options: DocumentSerializeOptions = {}): string {
+  const context = createSerializeContext(root, options);
+  const content = root ? serializeBlocks(getChildBlocks(root), context) : '';
+  const title = options.title ? `# ${escapeMarkdown(options.title)}` : '';
+  const footnotes = context.footnotes
+    .map(
+      ({ number, footnote }) => `[^${number}]: ${indent(hardBreaks(escapeMarkdown(footnote.content)), 4).trimStart()}`
+    )
+    .join('\n');
+  const markdown = joinParts([title, content, footnotes]);
+
+  return markdown ? `${markdown}\n` : '';
+}
+
+/**
+ * Serializes a document into GitHub-flavored Markdown
+ * @param doc Document YDoc
+ * @param options Serialization options
+ * @returns Markdown string
+ */
+export function documentToMarkdown(doc: YDoc, options: DocumentSerializeOptions = {}): string {
+  return serializeToMarkdown(yDocToSlateContent(doc), options);
+}
@@ -0,0 +1,173 @@
+import dayjs from 'dayjs';
+import { Element, Text } from 'slate';
+
+import {
+  BlockType,
+  DatabaseNodeData,
+  FileBlockData,
+  MentionType,
+  SubpageNodeData,
+  YjsEditorKey,
+} from '@/application/types';
+import { FootnoteEntry, getFootnotes } from '@/components/editor/components/leaf/footnote/utils';
+
+import { DocumentSerializeOptions } from './types';
+
+type MentionData = NonNullable<Text['mention']>;
+
+export const DATABASE_BLOCK_TYPES: string[] = [
+  BlockType.GridBlock,
+  BlockType.BoardBlock,
+  BlockType.CalendarBlock,
+  BlockType.ListBlock,
+  BlockType.ChartBlock,
+  BlockType.DatabaseGalleryBlock,
+];
+
+export const LIST_BLOCK_TYPES: string[] = [
+  BlockType.BulletedListBlock,
+  BlockType.NumberedListBlock,
+  BlockType.TodoListBlock,
+];
+
+/**
+ * Options threaded through one serialization, with the document's footnotes
+ * numbered up front
+ */
+export interface SerializeContext extends DocumentSerializeOptions {
+  footnotes: FootnoteEntry[];
+  footnoteNumbers: Map<Text, number>;
+}
+
+export function createSerializeContext(root: Element | undefined, options: DocumentSerializeOptions): SerializeContext {
+  const footnotes = root ? getFootnotes(root.children) : [];
+
+  return {
+    ...options,
+    footnotes,
+    footnoteNumbers: new Map(footnotes.map((entry) => [entry.text, entry.number])),
+  };
+}
+
+/**
+ * Returns the formatted text leaves of a block, or an empty array for
+ * container blocks that carry no text (tables, columns, ...)
+ */
+export function getBlockLeaves(block: Element): Text[] {
+  const first = block.children[0];
+
+  if (!first || !('type' in first) || first.type !== YjsEditorKey.text) return [];
+
+  return first.children.filter((child): child is Text => 'text' in child);
+}
+
+/**
+ * Returns the nested child blocks of a block, skipping its text node
+ */
+export function getChildBlocks(block: Element): Element[] {
+  return block.children.filter((child): child is Element => 'children' in child && child.type !== YjsEditorKey.text);
+}
+
+export function getPlainText(block: Element): string {
+  return getBlockLeaves(block)
+    .map((leaf) => leaf.text)
+    .join('');
+}
+
+export function getBlockData<T>(block: Element): Partial<T> {
+  return (block.data ?? {}) as Partial<T>;
+}
+
+/**
+ * Rejects script URLs so exported links can be opened safely
+ */
+export function isSafeUrl(url?: string): url is string {
+  if (!url) return false;
+
+  return !/^\s*(javascript|vbscript|data:text\/html)/i.test(url);
+}
+
+export function getPageName(viewId: string, options: DocumentSerializeOptions): string {
+  return options.resolvePageName?.(viewId) || viewId;
+}
+
+export function getPageUrl(viewId: string, options: DocumentSerializeOptions): string | undefined {
+  return options.resolvePageUrl?.(viewId);
+}
+
+export function formatMentionDate(mention: MentionData, options: DocumentSerializeOptions): string {
+  if (!mention.date) return '';
+
+  const date = dayjs(mention.date);
+
+  if (!date.isValid()) return mention.date;
+
+  const formatted = date.format(options.dateFormat ?? 'MMM D, YYYY');
+
+  return mention.include_time ? `${formatted} ${date.format(options.timeFormat ?? 'h:mm A')}` : formatted;
+}
+
+/**
+ * Display text and optional link of an inline mention
+ */
+export function getMentionContent(
+  mention: MentionData,
+  options: DocumentSerializeOptions
+): { text: string; url?: string } {
+  switch (mention.type) {
+    case MentionType.PageRef:
+    case MentionType.childPage: {
+      const viewId = mention.page_id ?? mention.row_document_id ?? mention.database_view_id;
+
+      if (!viewId) return { text: '' };
+
+      return { text: getPageName(viewId, options), url: getPageUrl(viewId, options) };
+    }
+
+    case MentionType.Date:
+      return { text: `@${formatMentionDate(mention, options)}` };
+    case MentionType.Person:
+      return { text: `@${mention.person_name || mention.person_id || ''}` };
+    case MentionType.externalLink:
+      return { text: mention.url ?? '', url: mention.url };
+    default:
+      return { text: '' };
+  }
+}
+
+/**
+ * Embedded blocks that have no text representation are exported as links:
+ * files, media, link previews, sub pages and databases
+ */
+export function getEmbedLink(
+  block: Element,
+  options: DocumentSerializeOptions
+): { text: string; url?: string } | undefined {
+  const type = block.type as BlockType;
+
+  if (type === BlockType.SubpageBlock || DATABASE_BLOCK_TYPES.includes(type)) {
+    const data = getBlockData<SubpageNodeData & DatabaseNodeData>(block);
+    const viewId = data.view_id ?? data.view_ids?.[0];
+
+    if (!viewId) return;
+
+    return { text: getPageName(viewId, options), url: getPageUrl(viewId, options) };
+  }
+
+  if (
+    type === BlockType.FileBlock ||
+    type === BlockType.PDFBlock ||
+    type === BlockType.VideoBlock ||
+    type === BlockType.AudioBlock ||
+    type === BlockType.GoogleDriveBlock ||
+    type === BlockType.LinkPreview
+  ) {
+    const { name, url } = getBlockData<FileBlockData>(block);
+
+    if (!url) return;
+
+    return { text: name || url, url };
+  }
+
+  return;
+}
@@ -0,0 +1,20 @@
+/**
+ * Options for serializing a document to Markdown or HTML
+ */
+export interface DocumentSerializeOptions {
+  /** Page title, rendered as a top-level heading (and as the HTML `<title>`) */
+  title?: string;
+  /** Resolves the display name of a mentioned or embedded page */
+  resolvePageName?: (viewId: string) => string | undefined;
+  /** Resolves the link of a mentioned or embedded page */
+  resolvePageUrl?: (viewId: string) => string | undefined;
+  /** dayjs format used for date mentions. Defaults to `MMM D, YYYY` */
+  dateFormat?: string;
+  /** dayjs format appended to date mentions that include a time. Defaults to `h:mm A` */
+  timeFormat?: string;
+}
+
+export enum DocumentExportFormat {
+  Markdown = 'md',
+  HTML = 'html',
+}
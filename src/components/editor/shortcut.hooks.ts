@@ -10,6 +10,7 @@ import { EditorMarkFormat } from '@/application/slate-yjs/types';
 import { getBlockEntry } from '@/application/slate-yjs/utils/editor';
 import { AlignType, BlockType } from '@/application/types';
 import { useEditorContext } from '@/components/editor/EditorContext';
+import { getSuggestingAuthor } from '@/components/inline-comment/editor/suggestions';
 import { createHotkey, HOT_KEY_NAME } from '@/utils/hotkeys';
 import { openUrl } from '@/utils/url';
 
@@ -100,7 +101,8 @@ export function useShortcuts(editor: ReactEditor) {
             if (
               editor.children.length > 1 &&
               (editor.children[0] as Element).blockId === node.blockId &&
-              currentLineText === ''
+              currentLineText === '' &&
+              !getSuggestingAuthor(editor)
             ) {
               CustomEditor.deleteBlock(yjsEditor, node.blockId as string);
             }
@@ -216,6 +218,9 @@ export function useShortcuts(editor: ReactEditor) {
 
       if (!node) return;
 
+      // Only text edits can be suggested; block changes are left to editors.
+      const suggesting = Boolean(getSuggestingAuthor(editor));
+
       // Add more cases here for editing shortcuts
       switch (!readOnly) {
         /**
@@ -247,6 +252,7 @@ export function useShortcuts(editor: ReactEditor) {
             break;
           }
 
+          if (suggesting) break;
           CustomEditor.tabEvent(yjsEditor, e);
           break;
         /**
@@ -263,6 +269,7 @@ export function useShortcuts(editor: ReactEditor) {
             break;
           }
 
+          if (suggesting) break;
           CustomEditor.tabEvent(yjsEditor, e);
           break;
         /**
@@ -300,6 +307,7 @@ export function useShortcuts(editor: ReactEditor) {
         case createHotkey(HOT_KEY_NAME.TOGGLE_COLLAPSE)(e):
           event.preventDefault();
 
+          if (suggesting) break;
           if (node[0].type === BlockType.ToggleListBlock) {
             CustomEditor.toggleToggleList(yjsEditor, node[0].blockId as string);
           } else if (node[0].type === BlockType.TodoListBlock) {
@@ -382,6 +390,11 @@ export function useShortcuts(editor: ReactEditor) {
         case createHotkey(HOT_KEY_NAME.PASTE_PLAIN_TEXT)(e):
           event.preventDefault();
           void navigator.clipboard.readText().then((text) => {
+            if (getSuggestingAuthor(editor)) {
+              editor.insertText(text);
+              return;
+            }
+
             CustomEditor.pastedText(yjsEditor, text);
           });
           break;
@@ -434,6 +447,8 @@ export function useShortcuts(editor: ReactEditor) {
         case createHotkey(HOT_KEY_NAME.ALIGN_LEFT)(e): {
           event.preventDefault();
 
+          if (suggesting) break;
+
           const blockId = node[0].blockId as string;
 
           CustomEditor.setBlockData(yjsEditor, blockId, {
@@ -448,6 +463,8 @@ export function useShortcuts(editor: ReactEditor) {
         case createHotkey(HOT_KEY_NAME.ALIGN_CENTER)(e): {
           event.preventDefault();
 
+          if (suggesting) break;
+
           const blockId = node[0].blockId as string;
 
           CustomEditor.setBlockData(yjsEditor, blockId, {
@@ -462,6 +479,8 @@ export function useShortcuts(editor: ReactEditor) {
         case createHotkey(HOT_KEY_NAME.ALIGN_RIGHT)(e): {
           event.preventDefault();
 
+          if (suggesting) break;
+
           const blockId = node[0].blockId as string;
 
           CustomEditor.setBlockData(yjsEditor, blockId, {
@@ -524,7 +543,7 @@ function findInlineTextNode(editor: Editor, point?: BasePoint) {
   const [node] = editor.nodes({
     at: point,
     match: (n) => {
-      return !Editor.isEditor(n) && Text.isText(n) && Boolean(n.mention || n.formula);
+      return !Editor.isEditor(n) && Text.isText(n) && Boolean(n.mention || n.formula || n.footnote);
     },
   });
 
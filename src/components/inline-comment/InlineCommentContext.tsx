@@ -23,6 +23,14 @@ import {
   inlineCommentAnchorsEqual,
   removeInlineCommentAnchor,
 } from './editor/anchors';
+import {
+  collectSuggestions,
+  operationsCanAffectSuggestions,
+  resolveSuggestions,
+  setSuggestingAuthor,
+  Suggestion,
+  suggestionsEqual,
+} from './editor/suggestions';
 
 export const INLINE_COMMENT_DRAWER_WIDTH = 352;
 
@@ -126,6 +134,8 @@ interface InlineCommentStatusContextValue {
 interface InlineCommentComposeContextValue {
   active: boolean;
   pendingComment: PendingInlineComment | null;
+  /** The registered editor only accepts text edits, recorded as suggestions. */
+  suggesting: boolean;
   cancelPendingComment: () => void;
   isEditorRegistered: (editor: YjsEditor) => boolean;
   startComment: (editor: YjsEditor, at?: Range) => boolean;
@@ -156,18 +166,25 @@ interface InlineCommentContextValue {
   mutatingCommentIds: ReadonlySet<string>;
   pendingComment: PendingInlineComment | null;
   reactions: InlineCommentReaction[];
+  /** Typing and deleting in the registered editor is recorded as suggestions. */
+  suggesting: boolean;
+  suggestions: Suggestion[];
   cancelPendingComment: () => void;
   createReply: (parentCommentId: string, content: string) => Promise<void>;
   deleteComment: (commentId: string) => Promise<void>;
   focusComment: (commentId: string) => void;
+  focusSuggestion: (suggestionId: string) => void;
   handleEditorChange: (editor: YjsEditor) => void;
   isEditorRegistered: (editor: YjsEditor) => boolean;
   openCommentFromAnchor: (commentIds: readonly string[]) => void;
   registerEditor: (editor: YjsEditor, options: RegisterInlineCommentEditorOptions) => () => void;
   reload: (showLoading?: boolean) => Promise<InlineComment[]>;
   resolveComment: (commentId: string, isResolved: boolean) => Promise<void>;
+  /** Accept or reject the given suggestions, or every suggestion when `ids` is null. */
+  reviewSuggestions: (ids: readonly string[] | null, accept: boolean) => void;
   setFilter: (filter: InlineCommentFilter) => void;
   setPanelOpen: (open: boolean) => void;
+  setSuggesting: (suggesting: boolean) => void;
   startComment: (editor: YjsEditor, at?: Range) => boolean;
   submitPendingComment: (content: string) => Promise<void>;
   toggleReaction: (commentId: string, reactionType: string) => Promise<void>;
@@ -268,6 +285,8 @@ export function InlineCommentProvider({
   const [mutatingCommentIds, setMutatingCommentIds] = useState<Set<string>>(() => new Set());
   const [pendingComment, setPendingComment] = useState<PendingInlineComment | null>(null);
   const [reactions, setReactions] = useState<InlineCommentReaction[]>([]);
+  const [suggesting, setSuggestingState] = useState(false);
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
 
   /**
    * Mirrors of the state above, so the callbacks below can stay referentially
@@ -282,6 +301,7 @@ export function InlineCommentProvider({
   const focusedCommentIdRef = useRef(focusedCommentId);
   const pendingCommentRef = useRef(pendingComment);
   const reactionsRef = useRef(reactions);
+  const suggestionsRef = useRef(suggestions);
 
   const anchorRetryTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const editorRef = useRef<YjsEditor | null>(null);
@@ -311,6 +331,15 @@ export function InlineCommentProvider({
     return { nextAnchors, previousAnchors };
   }, []);
 
+  const updateSuggestions = useCallback((editor: YjsEditor) => {
+    const nextSuggestions = collectSuggestions(editor);
+
+    if (!suggestionsEqual(suggestionsRef.current, nextSuggestions)) {
+      suggestionsRef.current = nextSuggestions;
+      setSuggestions(nextSuggestions);
+    }
+  }, []);
+
   const stopAnchorRefreshRetry = useCallback(() => {
     if (anchorRetryTimerRef.current === null) return;
 
@@ -760,9 +789,61 @@ export function InlineCommentProvider({
     [focusComment]
   );
 
+  const setSuggesting = useCallback(
+    (next: boolean) => {
+      const editor = editorRef.current;
+
+      if (!editor) return;
+
+      // Only people who can edit the page can propose edits to it.
+      const enabled = next && Boolean(currentUser) && editorCanWriteRef.current && !editorReadOnlyRef.current;
+
+      setSuggestingAuthor(
+        editor,
+        enabled && currentUser ? { id: currentUser.uuid, name: currentUser.name || currentUser.email || '' } : null
+      );
+      setSuggestingState(enabled);
+    },
+    [currentUser]
+  );
+
+  const reviewSuggestions = useCallback(
+    (ids: readonly string[] | null, accept: boolean) => {
+      const editor = editorRef.current;
+
+      if (!editor || !editorCanWriteRef.current) return;
+
+      resolveSuggestions(editor, ids ? new Set(ids) : null, accept);
+      updateSuggestions(editor);
+    },
+    [updateSuggestions]
+  );
+
+  const focusSuggestion = useCallback((suggestionId: string) => {
+    const suggestion = suggestionsRef.current.find((item) => item.id === suggestionId);
+    const editor = editorRef.current;
+
+    if (!suggestion || !editor) return;
+
+    try {
+      Transforms.select(editor, suggestion.range);
+      if (!editorReadOnlyRef.current) ReactEditor.focus(editor);
+      ReactEditor.toDOMRange(editor, suggestion.range).startContainer.parentElement?.scrollIntoView({
+        behavior: 'smooth',
+        block: 'center',
+      });
+    } catch {
+      // Same as comment anchors: a concurrent edit can move the range first.
+    }
+  }, []);
+
   const handleEditorChange = useCallback(
     (editor: YjsEditor) => {
       if (editor !== editorRef.current) return;
+      if (operationsCanAffectSuggestions(editor.operations, suggestionsRef.current.length > 0)) {
+        updateSuggestions(editor);
+      }
+
       if (!operationsCanAffectAnchors(editor.operations, anchorsRef.current.size > 0)) return;
 
       // Text deletion is part of Slate's undo history while cloud comment
@@ -771,7 +852,7 @@ export function InlineCommentProvider({
       // anchor. Explicit comment deletion still removes both sides together.
       updateAnchors(editor);
     },
-    [updateAnchors]
+    [updateAnchors, updateSuggestions]
   );
 
   /**
@@ -785,8 +866,9 @@ export function InlineCommentProvider({
       if (editor !== editorRef.current) return;
 
       updateAnchors(editor);
+      updateSuggestions(editor);
     },
-    [updateAnchors]
+    [updateAnchors, updateSuggestions]
   );
 
   const registerEditor = useCallback(
@@ -801,11 +883,16 @@ export function InlineCommentProvider({
       setCanResolveAllComments(options.canWrite);
       setActive(true);
       updateAnchors(editor);
+      updateSuggestions(editor);
 
       return () => {
         if (editorRef.current !== editor) return;
 
         cancelPendingComment();
+        setSuggestingAuthor(editor, null);
+        setSuggestingState(false);
+        suggestionsRef.current = [];
+        setSuggestions([]);
         stopAnchorRefreshRetry();
         requestIdRef.current += 1;
         editorRef.current = null;
@@ -831,7 +918,15 @@ export function InlineCommentProvider({
         setFilter('open');
       };
     },
-    [cancelPendingComment, setFilter, setFocusedCommentId, stopAnchorRefreshRetry, updateAnchors, viewId]
+    [
+      cancelPendingComment,
+      setFilter,
+      setFocusedCommentId,
+      stopAnchorRefreshRetry,
+      updateAnchors,
+      updateSuggestions,
+      viewId,
+    ]
   );
 
   const updateEditorAccess = useCallback(
@@ -845,6 +940,10 @@ export function InlineCommentProvider({
       setCanResolveAllComments(options.canWrite);
 
       if (!options.canComment) cancelPendingComment();
+      if (!options.canWrite || options.readOnly) {
+        setSuggestingAuthor(editor, null);
+        setSuggestingState(false);
+      }
     },
     [cancelPendingComment, viewId]
   );
@@ -900,18 +999,23 @@ export function InlineCommentProvider({
       mutatingCommentIds,
       pendingComment,
       reactions,
+      suggesting,
+      suggestions,
       cancelPendingComment,
       createReply,
       deleteComment,
       focusComment,
+      focusSuggestion,
       handleEditorChange,
       isEditorRegistered,
       openCommentFromAnchor,
       registerEditor,
       reload,
       resolveComment,
+      reviewSuggestions,
       setFilter,
       setPanelOpen,
+      setSuggesting,
       startComment,
       submitPendingComment,
       toggleReaction,
@@ -928,6 +1032,7 @@ export function InlineCommentProvider({
       deleteComment,
       filter,
       focusComment,
+      focusSuggestion,
       focusedCommentId,
       handleEditorChange,
       isEditorRegistered,
@@ -940,9 +1045,13 @@ export function InlineCommentProvider({
       registerEditor,
       reload,
       resolveComment,
+      reviewSuggestions,
       setFilter,
+      setSuggesting,
       startComment,
       submitPendingComment,
+      suggesting,
+      suggestions,
       toggleReaction,
       updateEditorAccess,
     ]
@@ -1018,8 +1127,9 @@ export function InlineCommentProvider({
       pendingComment,
       startComment,
       submitPendingComment,
+      suggesting,
     }),
-    [active, cancelPendingComment, isEditorRegistered, pendingComment, startComment, submitPendingComment]
+    [active, cancelPendingComment, isEditorRegistered, pendingComment, startComment, submitPendingComment, suggesting]
   );
 
   return (
@@ -29,10 +29,12 @@ import { ReactComponent as MoreIcon } from '@/assets/icons/more.svg';
 import { NormalModal } from '@/components/_shared/modal';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Switch } from '@/components/ui/switch';
 import { TextareaAutosize } from '@/components/ui/textarea-autosize';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 import { cn } from '@/lib/utils';
 
+import { Suggestion } from './editor/suggestions';
 import {
   INLINE_COMMENT_DRAWER_WIDTH,
   InlineCommentFilter,
@@ -48,6 +50,7 @@ const TRUNCATE_THRESHOLD = 150;
 // Hoisted so entries without reactions/replies keep a stable prop identity.
 const EMPTY_REACTIONS: InlineCommentReaction[] = [];
 const EMPTY_REPLIES: InlineComment[] = [];
+const EMPTY_SUGGESTIONS: Suggestion[] = [];
 const EmojiPicker = lazy(() => import('@/components/_shared/emoji-picker/EmojiPicker'));
 const InlineCommentPortalContainerContext = createContext<HTMLElement | null>(null);
 
@@ -675,6 +678,105 @@ function CommentThread({
   );
 }
 
+function SuggestionCard({ suggestion }: { suggestion: Suggestion }) {
+  const { t } = useTranslation();
+  const { canResolveAllComments } = useInlineCommentStatus();
+  const { focusSuggestion, reviewSuggestions } = useInlineCommentContext();
+  const createdAt = useMemo(() => new Date(suggestion.time).toISOString(), [suggestion.time]);
+  const date = useCommentDate(createdAt);
+  const name = suggestion.authorName || 'Anonymous';
+
+  return (
+    <article
+      data-testid={'inline-suggestion'}
+      data-suggestion-type={suggestion.type}
+      className={
+        'group/card cursor-pointer rounded-xl border border-border-primary bg-background-primary px-4 py-3 hover:bg-fill-content-hover'
+      }
+      onClick={() => focusSuggestion(suggestion.id)}
+    >
+      <div className={'flex items-center gap-2'}>
+        <Avatar size={'md'}>
+          <AvatarFallback>{name}</AvatarFallback>
+        </Avatar>
+        <div className={'flex min-w-0 flex-1 flex-col'}>
+          <span className={'truncate text-sm font-medium text-text-primary'}>{name}</span>
+          <span className={'text-xs text-text-tertiary'} title={date.tooltip}>
+            {date.label}
+          </span>
+        </div>
+        {canResolveAllComments && (
+          <div className={'flex items-center gap-0.5'}>
+            <ActionIconButton
+              label={t('inlineComment.accept', 'Accept')}
+              testId={'inline-suggestion-accept'}
+              onClick={() => reviewSuggestions([suggestion.id], true)}
+            >
+              <ResolveIcon className={'h-5 w-5'} />
+            </ActionIconButton>
+            <ActionIconButton
+              label={t('inlineComment.reject', 'Reject')}
+              testId={'inline-suggestion-reject'}
+              onClick={() => reviewSuggestions([suggestion.id], false)}
+            >
+              <CloseIcon className={'h-5 w-5'} />
+            </ActionIconButton>
+          </div>
+        )}
+      </div>
+      <p className={'mt-2 whitespace-pre-wrap break-words text-sm text-text-secondary'}>
+        {suggestion.type === 'insert'
+          ? t('inlineComment.suggestedInsertion', 'Add')
+          : t('inlineComment.suggestedDeletion', 'Delete')}{' '}
+        <span
+          className={cn(
+            suggestion.type === 'insert' ? 'text-function-success underline' : 'text-function-error line-through'
+          )}
+        >
+          {suggestion.text}
+        </span>
+      </p>
+    </article>
+  );
+}
+
+function SuggestionList({ suggestions }: { suggestions: Suggestion[] }) {
+  const { t } = useTranslation();
+  const { canResolveAllComments } = useInlineCommentStatus();
+  const { reviewSuggestions } = useInlineCommentContext();
+
+  return (
+    <section data-testid={'inline-suggestions'} className={'flex flex-col gap-3'}>
+      <div className={'flex items-center gap-2'}>
+        <h3 className={'flex-1 text-xs font-semibold text-text-secondary'}>
+          {t('inlineComment.suggestions', { count: suggestions.length, defaultValue: 'Suggestions ({{count}})' })}
+        </h3>
+        {canResolveAllComments && (
+          <>
+            <button
+              data-testid={'inline-suggestions-accept-all'}
+              className={'rounded-md px-2 py-0.5 text-xs text-text-primary hover:bg-fill-content-hover'}
+              onClick={() => reviewSuggestions(null, true)}
+            >
+              {t('inlineComment.acceptAll', 'Accept all')}
+            </button>
+            <button
+              data-testid={'inline-suggestions-reject-all'}
+              className={'rounded-md px-2 py-0.5 text-xs text-text-primary hover:bg-fill-content-hover'}
+              onClick={() => reviewSuggestions(null, false)}
+            >
+              {t('inlineComment.rejectAll', 'Reject all')}
+            </button>
+          </>
+        )}
+      </div>
+      {suggestions.map((suggestion) => (
+        <SuggestionCard key={suggestion.id} suggestion={suggestion} />
+      ))}
+    </section>
+  );
+}
+
 const FILTERS: InlineCommentFilter[] = ['open', 'resolved', 'all'];
 
 const EMPTY_STATE_KEY: Record<InlineCommentFilter, 'noComments' | 'noOpenComments' | 'noResolvedComments'> = {
@@ -696,7 +798,11 @@ export function InlineCommentSidebar({ elevated = false, rightOffset = 0 }: { el
     reactions,
     setFilter,
     setPanelOpen,
+    setSuggesting,
+    suggesting,
+    suggestions,
   } = useInlineCommentContext();
+  const { canResolveAllComments } = useInlineCommentStatus();
   const [portalContainer, setPortalContainer] = useState<HTMLElement | null>(null);
 
   // One pass over the reaction list instead of a filter per rendered entry.
@@ -763,6 +869,9 @@ export function InlineCommentSidebar({ elevated = false, rightOffset = 0 }: { el
     return result.sort((left, right) => (createdAtMs.get(right.commentId) ?? 0) - (createdAtMs.get(left.commentId) ?? 0));
   }, [anchors, comments, createdAtMs, filter]);
 
+  // Suggestions are pending until reviewed, so they list with the open threads.
+  const visibleSuggestions = filter === 'resolved' ? EMPTY_SUGGESTIONS : suggestions;
+
   if (!active || !isPanelOpen) return null;
 
   return (
@@ -780,6 +889,16 @@ export function InlineCommentSidebar({ elevated = false, rightOffset = 0 }: { el
       >
         <div className={'flex h-9 shrink-0 items-center bg-surface-container-layer-01 px-4'}>
           <h2 className={'flex-1 truncate text-sm font-semibold text-text-primary'}>{t('inlineComment.comments')}</h2>
+          {canResolveAllComments && (
+            <label className={'mr-2 flex items-center gap-1.5 text-xs text-text-secondary'}>
+              {t('inlineComment.suggesting', 'Suggesting')}
+              <Switch
+                data-testid={'inline-comment-suggesting-toggle'}
+                checked={suggesting}
+                onCheckedChange={setSuggesting}
+              />
+            </label>
+          )}
           <button
             aria-label={t('button.close')}
             data-testid={'inline-comment-sidebar-close'}
@@ -807,11 +926,16 @@ export function InlineCommentSidebar({ elevated = false, rightOffset = 0 }: { el
         </div>
 
         <div className={'flex-1 overflow-y-auto px-4 py-2'} aria-live={'polite'}>
+          {visibleSuggestions.length > 0 && (
+            <div className={'mb-4'}>
+              <SuggestionList suggestions={visibleSuggestions} />
+            </div>
+          )}
           {loading && threads.length === 0 ? (
             <div data-testid={'inline-comment-loading'} className={'py-10 text-center text-sm text-text-tertiary'}>
               {t('inlineComment.loading')}
             </div>
-          ) : threads.length === 0 ? (
+          ) : threads.length === 0 && visibleSuggestions.length === 0 ? (
             <div
               data-testid={'inline-comment-empty'}
               className={'flex flex-col items-center py-16 text-center text-text-secondary'}
@@ -22,6 +22,9 @@ const createReply = jest.fn().mockResolvedValue(undefined);
 const deleteComment = jest.fn().mockResolvedValue(undefined);
 const resolveComment = jest.fn().mockResolvedValue(undefined);
 const toggleReaction = jest.fn().mockResolvedValue(undefined);
+const focusSuggestion = jest.fn();
+const reviewSuggestions = jest.fn();
+const setSuggesting = jest.fn();
 const setFilter = jest.fn();
 const setPanelOpen = jest.fn();
 
@@ -106,12 +109,17 @@ function setContext(overrides: Record<string, unknown> = {}) {
     loading: false,
     mutatingCommentIds: new Set(),
     reactions: [],
+    suggesting: false,
+    suggestions: [],
     createReply,
     deleteComment,
     focusComment: jest.fn(),
+    focusSuggestion,
     resolveComment,
+    reviewSuggestions,
     setFilter,
     setPanelOpen,
+    setSuggesting,
     toggleReaction,
     ...overrides,
   };
@@ -396,4 +404,83 @@ describe('InlineCommentSidebar', () => {
     expect(screen.queryByTestId('inline-comment-action-menu-button')).toBeNull();
     expect(screen.queryByTestId('inline-comment-add-reaction-button')).toBeNull();
   });
+
+  describe('suggestions', () => {
+    const range = { anchor: { path: [0, 0], offset: 0 }, focus: { path: [0, 0], offset: 5 } };
+    const suggestions = [
+      {
+        id: 'suggestion-1',
+        type: 'insert',
+        authorId: 'user-2',
+        authorName: 'Grace',
+        time: Date.now(),
+        blockId: 'block-1',
+        text: 'added words',
+        range,
+      },
+      {
+        id: 'suggestion-2',
+        type: 'delete',
+        authorId: 'user-2',
+        authorName: 'Grace',
+        time: Date.now(),
+        blockId: 'block-1',
+        text: 'removed words',
+        range,
+      },
+    ];
+
+    it('lists pending suggestions above the threads', () => {
+      setContext({ suggestions });
+      render(<InlineCommentSidebar />);
+
+      const cards = screen.getAllByTestId('inline-suggestion');
+
+      expect(cards.map((card) => card.getAttribute('data-suggestion-type'))).toEqual(['insert', 'delete']);
+      expect(screen.getByText('added words')).not.toBeNull();
+      expect(screen.getByText('Open thread')).not.toBeNull();
+
+      fireEvent.click(cards[1]);
+      expect(focusSuggestion).toHaveBeenCalledWith('suggestion-2');
+    });
+
+    it('accepts and rejects suggestions individually or in bulk', () => {
+      setContext({ suggestions });
+      render(<InlineCommentSidebar />);
+
+      fireEvent.click(screen.getAllByTestId('inline-suggestion-accept')[0]);
+      expect(reviewSuggestions).toHaveBeenCalledWith(['suggestion-1'], true);
+
+      fireEvent.click(screen.getAllByTestId('inline-suggestion-reject')[1]);
+      expect(reviewSuggestions).toHaveBeenCalledWith(['suggestion-2'], false);
+      expect(focusSuggestion).not.toHaveBeenCalled();
+
+      fireEvent.click(screen.getByTestId('inline-suggestions-accept-all'));
+      expect(reviewSuggestions).toHaveBeenLastCalledWith(null, true);
+
+      fireEvent.click(screen.getByTestId('inline-suggestions-reject-all'));
+      expect(reviewSuggestions).toHaveBeenLastCalledWith(null, false);
+    });
+
+    it('hides review controls and the mode toggle without edit access', () => {
+      setContext({ canResolveAllComments: false, suggestions });
+      render(<InlineCommentSidebar />);
+
+      expect(screen.getAllByTestId('inline-suggestion')).toHaveLength(2);
+      expect(screen.queryByTestId('inline-suggestion-accept')).toBeNull();
+      expect(screen.queryByTestId('inline-suggestions-accept-all')).toBeNull();
+      expect(screen.queryByTestId('inline-comment-suggesting-toggle')).toBeNull();
+    });
+
+    it('toggles suggesting mode and keeps suggestions out of the resolved filter', () => {
+      setContext({ comments: [], filter: 'resolved', suggestions });
+      render(<InlineCommentSidebar />);
+
+      expect(screen.queryByTestId('inline-suggestions')).toBeNull();
+      expect(screen.getByTestId('inline-comment-empty')).not.toBeNull();
+
+      fireEvent.click(screen.getByTestId('inline-comment-suggesting-toggle'));
+      expect(setSuggesting).toHaveBeenCalledWith(true);
+    });
+  });
 });
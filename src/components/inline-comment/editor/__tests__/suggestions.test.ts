@@ -0,0 +1,213 @@
+import { createEditor, Editor, Text, Transforms } from 'slate';
+import { withReact } from 'slate-react';
+
+import { BlockType } from '@/application/types';
+import { withSuggestions } from '@/components/editor/plugins/withSuggestions';
+
+import {
+  collectSuggestions,
+  getSuggestionMark,
+  operationsCanAffectSuggestions,
+  resolveSuggestions,
+  setSuggestingAuthor,
+  SUGGESTION_DELETE_KEY,
+} from '../suggestions';
+
+const AUTHOR = { id: 'user-1', name: 'Ada' };
+const REVIEWER = { id: 'user-2', name: 'Grace' };
+
+function createSuggestingEditor(text = 'hello world') {
+  const editor = withSuggestions(withReact(createEditor()));
+
+  editor.children = [
+    {
+      type: BlockType.Paragraph,
+      blockId: 'block-1',
+      children: [{ text }],
+    },
+  ];
+  setSuggestingAuthor(editor, AUTHOR);
+  return editor;
+}
+
+function selectOffsets(editor: Editor, start: number, end = start) {
+  Transforms.select(editor, {
+    anchor: { path: [0, 0], offset: start },
+    focus: { path: [0, 0], offset: end },
+  });
+}
+
+function segments(editor: Editor) {
+  return Array.from(Editor.nodes(editor, { at: [], match: Text.isText })).map(([node]) => {
+    if (!Text.isText(node)) throw new Error('Expected text');
+
+    const insertion = getSuggestionMark(node, 'insert');
+    const deletion = getSuggestionMark(node, 'delete');
+
+    return `${node.text}${insertion ? '+' : ''}${deletion ? '-' : ''}`;
+  });
+}
+
+describe('suggesting mode', () => {
+  it('marks typed text as one insertion per run', () => {
+    const editor = createSuggestingEditor();
+
+    selectOffsets(editor, 5);
+    editor.insertText(',');
+    editor.insertText(' there');
+
+    expect(segments(editor)).toEqual(['hello', ', there+', ' world']);
+
+    const [suggestion] = collectSuggestions(editor);
+
+    expect(collectSuggestions(editor)).toHaveLength(1);
+    expect(suggestion).toMatchObject({
+      type: 'insert',
+      authorId: 'user-1',
+      authorName: 'Ada',
+      blockId: 'block-1',
+      text: ', there',
+    });
+  });
+
+  it('strikes text through on delete and moves the caret past it', () => {
+    const editor = createSuggestingEditor();
+
+    selectOffsets(editor, 5);
+    editor.deleteBackward('character');
+    editor.deleteBackward('character');
+
+    expect(segments(editor)).toEqual(['hel', 'l-', 'o-', ' world']);
+    expect(editor.selection?.anchor).toEqual({ path: [0, 0], offset: 3 });
+
+    Transforms.select(editor, Editor.end(editor, [0, 2]));
+    editor.deleteForward('character');
+
+    expect(segments(editor)).toEqual(['hel', 'l-', 'o-', ' -', 'world']);
+  });
+
+  it('withdraws the author’s own insertion instead of striking it', () => {
+    const editor = createSuggestingEditor();
+
+    selectOffsets(editor, 5);
+    editor.insertText('!!');
+    editor.deleteBackward('character');
+
+    expect(segments(editor)).toEqual(['hello', '!+', ' world']);
+  });
+
+  it('strikes the selection when typing over it', () => {
+    const editor = createSuggestingEditor();
+
+    selectOffsets(editor, 6, 11);
+    editor.insertText('there');
+
+    expect(segments(editor)).toEqual(['hello ', 'world-', 'there+']);
+    expect(collectSuggestions(editor).map((suggestion) => suggestion.type)).toEqual(['delete', 'insert']);
+  });
+
+  it('ignores block merges and edits normally once suggesting mode is off', () => {
+    const editor = createSuggestingEditor();
+
+    selectOffsets(editor, 0);
+    editor.deleteBackward('character');
+    expect(segments(editor)).toEqual(['hello world']);
+
+    setSuggestingAuthor(editor, null);
+    selectOffsets(editor, 5, 11);
+    editor.insertText('!');
+    expect(segments(editor)).toEqual(['hello!']);
+  });
+
+  it('pastes plain text as a suggested insertion', () => {
+    const editor = createSuggestingEditor();
+    const data = {
+      getData: (type: string) => (type === 'text/plain' ? ' big' : '<b>ignored</b>'),
+    } as DataTransfer;
+
+    selectOffsets(editor, 5);
+    editor.insertData(data);
+    editor.insertFragment([{ type: BlockType.Paragraph, children: [{ text: ' new' }] }]);
+
+    expect(segments(editor)).toEqual(['hello', ' big new+', ' world']);
+    expect(editor.children).toHaveLength(1);
+  });
+
+  it('does not split the block on Enter', () => {
+    const editor = createSuggestingEditor();
+
+    selectOffsets(editor, 5);
+    editor.insertBreak();
+    editor.insertSoftBreak();
+
+    expect(editor.children).toHaveLength(1);
+    expect(segments(editor)).toEqual(['hello world']);
+  });
+});
+
+describe('reviewing suggestions', () => {
+  function createReviewedEditor() {
+    const editor = createSuggestingEditor();
+
+    selectOffsets(editor, 0, 6);
+    editor.deleteFragment({ direction: 'backward' });
+    Transforms.select(editor, Editor.end(editor, []));
+    editor.insertText('!');
+    setSuggestingAuthor(editor, REVIEWER);
+    return editor;
+  }
+
+  it('accepts a deletion by removing the struck text', () => {
+    const editor = createReviewedEditor();
+    const deletion = collectSuggestions(editor).find((suggestion) => suggestion.type === 'delete');
+
+    resolveSuggestions(editor, new Set([deletion!.id]), true);
+
+    expect(segments(editor)).toEqual(['world', '!+']);
+  });
+
+  it('rejects an insertion by removing the text', () => {
+    const editor = createReviewedEditor();
+    const insertion = collectSuggestions(editor).find((suggestion) => suggestion.type === 'insert');
+
+    resolveSuggestions(editor, new Set([insertion!.id]), false);
+
+    expect(segments(editor)).toEqual(['hello -', 'world']);
+  });
+
+  it('accepts or rejects everything at once', () => {
+    const accepted = createReviewedEditor();
+
+    resolveSuggestions(accepted, null, true);
+    expect(segments(accepted)).toEqual(['world!']);
+    expect(collectSuggestions(accepted)).toEqual([]);
+
+    const rejected = createReviewedEditor();
+
+    resolveSuggestions(rejected, null, false);
+    expect(segments(rejected)).toEqual(['hello world']);
+  });
+});
+
+describe('operationsCanAffectSuggestions', () => {
+  it('skips selection changes and unrelated edits when there are no suggestions', () => {
+    expect(
+      operationsCanAffectSuggestions(
+        [{ type: 'set_selection', properties: null, newProperties: { anchor: { path: [0, 0], offset: 1 } } }],
+        true
+      )
+    ).toBe(false);
+    expect(operationsCanAffectSuggestions([{ type: 'insert_text', path: [0, 0], offset: 0, text: 'a' }], false)).toBe(
+      false
+    );
+    expect(operationsCanAffectSuggestions([{ type: 'insert_text', path: [0, 0], offset: 0, text: 'a' }], true)).toBe(
+      true
+    );
+    expect(
+      operationsCanAffectSuggestions(
+        [{ type: 'set_node', path: [0, 0], properties: {}, newProperties: { [SUGGESTION_DELETE_KEY]: undefined } }],
+        false
+      )
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,356 @@
+import { Editor, Element, Operation, Path, Point, Range, Text, TextUnit, Transforms } from 'slate';
+import { v4 as uuidv4 } from 'uuid';
+
+import { SUGGESTION_DELETE_KEY, SUGGESTION_INSERT_KEY } from '@/application/slate-yjs/types';
+
+export { SUGGESTION_DELETE_KEY, SUGGESTION_INSERT_KEY };
+
+export type SuggestionType = 'insert' | 'delete';
+
+export interface SuggestionAuthor {
+  id: string;
+  name: string;
+}
+
+/** The Delta attribute value stored on suggested text. */
+export interface SuggestionMark {
+  id: string;
+  author_id: string;
+  author_name: string;
+  time: number;
+}
+
+export interface Suggestion {
+  id: string;
+  type: SuggestionType;
+  authorId: string;
+  authorName: string;
+  time: number;
+  blockId: string | null;
+  text: string;
+  range: Range;
+}
+
+const SUGGESTION_KEYS: Record<SuggestionType, typeof SUGGESTION_INSERT_KEY | typeof SUGGESTION_DELETE_KEY> = {
+  insert: SUGGESTION_INSERT_KEY,
+  delete: SUGGESTION_DELETE_KEY,
+};
+
+const SUGGESTION_TYPES = Object.keys(SUGGESTION_KEYS) as SuggestionType[];
+
+// Suggesting mode belongs to one editor instance and one signed-in author. The
+// provider toggles it; the editor plugin reads it on every keystroke.
+const suggestingAuthors = new WeakMap<Editor, SuggestionAuthor>();
+
+export function setSuggestingAuthor(editor: Editor, author: SuggestionAuthor | null) {
+  if (author) {
+    suggestingAuthors.set(editor, author);
+  } else {
+    suggestingAuthors.delete(editor);
+  }
+}
+
+export function getSuggestingAuthor(editor: Editor): SuggestionAuthor | undefined {
+  return suggestingAuthors.get(editor);
+}
+
+export function getSuggestionMark(node: Text, type: SuggestionType): SuggestionMark | null {
+  const value: unknown = node[SUGGESTION_KEYS[type]];
+
+  if (!value || typeof value !== 'object') return null;
+
+  const mark = value as Partial<SuggestionMark>;
+
+  if (typeof mark.id !== 'string' || mark.id.length === 0) return null;
+
+  return {
+    id: mark.id,
+    author_id: typeof mark.author_id === 'string' ? mark.author_id : '',
+    author_name: typeof mark.author_name === 'string' ? mark.author_name : '',
+    time: typeof mark.time === 'number' ? mark.time : 0,
+  };
+}
+
+function createSuggestionMark(author: SuggestionAuthor): SuggestionMark {
+  return {
+    id: uuidv4(),
+    author_id: author.id,
+    author_name: author.name,
+    time: Date.now(),
+  };
+}
+
+function getBlockId(editor: Editor, point: Point): string | null {
+  const entry = Editor.above(editor, {
+    at: point,
+    match: (node) => !Editor.isEditor(node) && Element.isElement(node) && typeof node.blockId === 'string',
+  });
+
+  return entry && Element.isElement(entry[0]) ? entry[0].blockId ?? null : null;
+}
+
+function inSameTextContainer(left: Point, right: Point) {
+  return Path.equals(Path.parent(left.path), Path.parent(right.path));
+}
+
+/**
+ * The insertion the author was typing right before `point`, so a word typed in
+ * one go becomes a single suggestion rather than one per keystroke.
+ */
+function getContinuedInsertion(editor: Editor, point: Point, author: SuggestionAuthor): SuggestionMark | null {
+  const before = Editor.before(editor, point);
+
+  if (!before || !inSameTextContainer(before, point)) return null;
+
+  const [node] = Editor.node(editor, point.offset > 0 ? point.path : before.path);
+
+  if (!Text.isText(node) || getSuggestionMark(node, 'delete')) return null;
+
+  const mark = getSuggestionMark(node, 'insert');
+
+  return mark && mark.author_id === author.id ? mark : null;
+}
+
+/**
+ * Propose deleting the text in `range`: it stays in the document, struck
+ * through, until a reviewer accepts the deletion. Text the same author
+ * suggested inserting is withdrawn outright instead.
+ */
+export function suggestDeletion(editor: Editor, range: Range, author: SuggestionAuthor) {
+  const mark = createSuggestionMark(author);
+  const entries = Array.from(Editor.nodes(editor, { at: range, match: Text.isText })).reverse();
+
+  Editor.withoutNormalizing(editor, () => {
+    for (const [node, path] of entries) {
+      if (!Text.isText(node)) continue;
+
+      const intersection = Range.intersection(range, Editor.range(editor, path));
+
+      if (!intersection || Range.isCollapsed(intersection)) continue;
+
+      const insertion = getSuggestionMark(node, 'insert');
+
+      if (insertion && insertion.author_id === author.id && !getSuggestionMark(node, 'delete')) {
+        const [start, end] = Range.edges(intersection);
+
+        editor.apply({
+          type: 'remove_text',
+          path,
+          offset: start.offset,
+          text: node.text.slice(start.offset, end.offset),
+        });
+        continue;
+      }
+
+      // Keep the original author and time of text that is already struck.
+      if (getSuggestionMark(node, 'delete')) continue;
+
+      Transforms.setNodes(
+        editor,
+        { [SUGGESTION_DELETE_KEY]: mark },
+        {
+          at: intersection,
+          match: Text.isText,
+          split: true,
+        }
+      );
+    }
+  });
+}
+
+/**
+ * Insert `text` at the selection as a suggestion. `insertText` performs the
+ * actual insertion so the editor's own text handling still applies.
+ */
+export function suggestInsertion(
+  editor: Editor,
+  text: string,
+  author: SuggestionAuthor,
+  insertText: (text: string) => void
+) {
+  if (!editor.selection) return;
+
+  if (Range.isExpanded(editor.selection)) {
+    suggestDeletion(editor, editor.selection, author);
+    Transforms.collapse(editor, { edge: 'end' });
+  }
+
+  const start = editor.selection.anchor;
+  const mark = getContinuedInsertion(editor, start, author) ?? createSuggestionMark(author);
+  const startRef = Editor.pointRef(editor, start, { affinity: 'backward' });
+
+  insertText(text);
+
+  const from = startRef.unref();
+  const to = editor.selection?.anchor;
+
+  if (!from || !to || !Point.isBefore(from, to)) return;
+
+  const insertedRef = Editor.rangeRef(editor, { anchor: from, focus: to }, { affinity: 'inward' });
+
+  Transforms.setNodes(
+    editor,
+    { [SUGGESTION_INSERT_KEY]: mark },
+    {
+      at: { anchor: from, focus: to },
+      match: Text.isText,
+      split: true,
+    }
+  );
+
+  // Typing inside struck text would otherwise inherit its deletion mark.
+  const inserted = insertedRef.unref();
+
+  if (inserted) Transforms.unsetNodes(editor, SUGGESTION_DELETE_KEY, { at: inserted, match: Text.isText, split: true });
+}
+
+/**
+ * Backspace and delete in suggesting mode. Changes stay within a block:
+ * merging with the neighbouring block is not tracked, so it is ignored.
+ */
+export function suggestDeletionFromCaret(
+  editor: Editor,
+  direction: 'backward' | 'forward',
+  unit: TextUnit,
+  author: SuggestionAuthor
+) {
+  const { selection } = editor;
+
+  if (!selection) return;
+
+  if (Range.isExpanded(selection)) {
+    suggestDeletion(editor, selection, author);
+    Transforms.collapse(editor, { edge: direction === 'backward' ? 'start' : 'end' });
+    return;
+  }
+
+  const caret = selection.anchor;
+  const target =
+    direction === 'backward' ? Editor.before(editor, caret, { unit }) : Editor.after(editor, caret, { unit });
+
+  if (!target || !inSameTextContainer(target, caret)) return;
+
+  // The caret moves past the struck text, as if it had been deleted.
+  const caretRef = Editor.pointRef(editor, target, { affinity: direction });
+
+  suggestDeletion(editor, { anchor: target, focus: caret }, author);
+
+  const nextCaret = caretRef.unref();
+
+  if (nextCaret) Transforms.select(editor, nextCaret);
+}
+
+/** Every pending suggestion in document order. */
+export function collectSuggestions(editor: Editor): Suggestion[] {
+  const suggestions = new Map<string, Suggestion>();
+
+  for (const [node, path] of Editor.nodes(editor, { at: [], match: Text.isText })) {
+    if (!Text.isText(node)) continue;
+
+    for (const type of SUGGESTION_TYPES) {
+      const mark = getSuggestionMark(node, type);
+
+      if (!mark) continue;
+
+      const range = Editor.range(editor, path);
+      const existing = suggestions.get(mark.id);
+
+      if (existing) {
+        existing.range = { anchor: existing.range.anchor, focus: range.focus };
+        existing.text += node.text;
+        continue;
+      }
+
+      suggestions.set(mark.id, {
+        id: mark.id,
+        type,
+        authorId: mark.author_id,
+        authorName: mark.author_name,
+        time: mark.time,
+        blockId: getBlockId(editor, range.anchor),
+        text: node.text,
+        range,
+      });
+    }
+  }
+
+  return Array.from(suggestions.values());
+}
+
+/**
+ * Accept or reject suggestions — all of them when `ids` is null. Accepting an
+ * insertion or rejecting a deletion keeps the text and drops the mark;
+ * the other two outcomes remove the text.
+ */
+export function resolveSuggestions(editor: Editor, ids: ReadonlySet<string> | null, accept: boolean) {
+  const entries = Array.from(Editor.nodes(editor, { at: [], match: Text.isText })).reverse();
+  const matches = (mark: SuggestionMark | null) => Boolean(mark && (!ids || ids.has(mark.id)));
+
+  Editor.withoutNormalizing(editor, () => {
+    for (const [node, path] of entries) {
+      if (!Text.isText(node)) continue;
+
+      const resolvesInsertion = matches(getSuggestionMark(node, 'insert'));
+      const resolvesDeletion = matches(getSuggestionMark(node, 'delete'));
+
+      if (!resolvesInsertion && !resolvesDeletion) continue;
+
+      if ((resolvesInsertion && !accept) || (resolvesDeletion && accept)) {
+        if (node.text.length > 0) {
+          editor.apply({ type: 'remove_text', path, offset: 0, text: node.text });
+        }
+
+        continue;
+      }
+
+      const keys = [
+        ...(resolvesInsertion ? [SUGGESTION_INSERT_KEY] : []),
+        ...(resolvesDeletion ? [SUGGESTION_DELETE_KEY] : []),
+      ];
+
+      Transforms.unsetNodes(editor, keys, { at: path });
+    }
+  });
+}
+
+/**
+ * Same early-out as the comment anchors: skip the document walk for batches
+ * that cannot have added, moved or dropped a suggestion.
+ */
+export function operationsCanAffectSuggestions(operations: readonly Operation[], hasSuggestions: boolean): boolean {
+  for (const operation of operations) {
+    if (operation.type === 'set_selection') continue;
+    if (hasSuggestions) return true;
+    if (operation.type === 'insert_node' || operation.type === 'merge_node') return true;
+    if (
+      operation.type === 'set_node' &&
+      (SUGGESTION_INSERT_KEY in operation.newProperties || SUGGESTION_DELETE_KEY in operation.newProperties)
+    ) {
+      return true;
+    }
+
+    if (
+      operation.type === 'split_node' &&
+      (SUGGESTION_INSERT_KEY in operation.properties || SUGGESTION_DELETE_KEY in operation.properties)
+    ) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+export function suggestionsEqual(left: readonly Suggestion[], right: readonly Suggestion[]): boolean {
+  if (left.length !== right.length) return false;
+
+  return left.every((suggestion, index) => {
+    const other = right[index];
+
+    return (
+      suggestion.id === other.id &&
+      suggestion.type === other.type &&
+      suggestion.text === other.text &&
+      Range.equals(suggestion.range, other.range)
+    );
+  });
+}
@@ -0,0 +1,47 @@
+import { useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'sonner';
+
+import { pinViewOffline, unpinViewOffline } from '@/application/offline';
+import { ReactComponent as OfflineIcon } from '@/assets/icons/available_offline.svg';
+import { DropdownMenuItem } from '@/components/ui/dropdown-menu';
+import { Switch } from '@/components/ui/switch';
+
+import { useOfflinePin } from './useOfflineStatus';
+
+/** "Available offline" switch for the page and space action menus. */
+function AvailableOfflineMenuItem({ workspaceId, viewId }: { workspaceId?: string; viewId: string }) {
+  const { t } = useTranslation();
+  const pin = useOfflinePin(workspaceId, viewId);
+
+  const handleToggle = useCallback(async () => {
+    if (!workspaceId) return;
+
+    if (pin) {
+      await unpinViewOffline(workspaceId, viewId);
+      toast.success(t('offline.removedToast', 'No longer available offline'));
+      return;
+    }
+
+    const download = pinViewOffline(workspaceId, viewId);
+
+    toast.success(t('offline.downloadingToast', 'Downloading for offline use…'));
+    await download;
+  }, [pin, t, viewId, workspaceId]);
+
+  return (
+    <DropdownMenuItem
+      data-testid={'more-page-available-offline'}
+      onSelect={(event) => {
+        event.preventDefault();
+        void handleToggle();
+      }}
+    >
+      <OfflineIcon />
+      <span className={'flex-1'}>{t('offline.availableOffline', 'Available offline')}</span>
+      <Switch checked={!!pin} tabIndex={-1} aria-hidden className={'pointer-events-none'} />
+    </DropdownMenuItem>
+  );
+}
+
+export default AvailableOfflineMenuItem;
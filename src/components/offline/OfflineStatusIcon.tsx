@@ -0,0 +1,45 @@
+import { useTranslation } from 'react-i18next';
+
+import { ReactComponent as OfflineIcon } from '@/assets/icons/available_offline.svg';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { cn } from '@/lib/utils';
+
+import { useOfflineViewStatus } from './useOfflineStatus';
+
+/** Sidebar marker for views pinned as "Available offline", directly or through a parent. */
+function OfflineStatusIcon({ workspaceId, viewId }: { workspaceId?: string; viewId: string }) {
+  const { t } = useTranslation();
+  const status = useOfflineViewStatus(workspaceId, viewId);
+
+  if (!status) return null;
+
+  const label =
+    status === 'ready'
+      ? t('offline.available', 'Available offline')
+      : status === 'downloading'
+      ? t('offline.downloading', 'Downloading for offline use…')
+      : t('offline.failed', "Couldn't download for offline use");
+
+  return (
+    <Tooltip disableHoverableContent delayDuration={500}>
+      <TooltipTrigger asChild>
+        <span
+          data-testid={'page-offline-status'}
+          data-status={status}
+          aria-label={label}
+          className={cn(
+            'flex h-4 w-4 shrink-0 items-center justify-center',
+            status === 'ready' && 'text-text-tertiary',
+            status === 'downloading' && 'animate-pulse text-text-tertiary',
+            status === 'failed' && 'text-text-error'
+          )}
+        >
+          <OfflineIcon className={'h-4 w-4'} />
+        </span>
+      </TooltipTrigger>
+      <TooltipContent>{label}</TooltipContent>
+    </Tooltip>
+  );
+}
+
+export default OfflineStatusIcon;
@@ -0,0 +1,4 @@
+export { default as AvailableOfflineMenuItem } from './AvailableOfflineMenuItem';
+export { default as OfflineStatusIcon } from './OfflineStatusIcon';
+export * from './useOfflinePinSync';
+export * from './useOfflineStatus';
@@ -0,0 +1,23 @@
+import { useEffect } from 'react';
+
+import { refreshOfflinePins } from '@/application/offline';
+
+/** How long the connection has to stay up before pinned views are synced. */
+const REFRESH_DELAY_MS = 10_000;
+
+/**
+ * Keep pinned views current: sync them once the workspace connection has
+ * been (back) up for a while, after offline edits were handed to the outbox.
+ * A connection that drops again before the delay does not trigger a sync.
+ */
+export function useOfflinePinSync(workspaceId: string | undefined, connected: boolean) {
+  useEffect(() => {
+    if (!workspaceId || !connected) return;
+
+    const timer = setTimeout(() => {
+      void refreshOfflinePins(workspaceId);
+    }, REFRESH_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [workspaceId, connected]);
+}
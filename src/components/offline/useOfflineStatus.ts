@@ -0,0 +1,23 @@
+import { useLiveQuery } from 'dexie-react-hooks';
+
+import { OfflinePinRecord, OfflinePinStatus } from '@/application/db/tables/offline';
+import { getOfflinePin, getOfflineViewStatus } from '@/application/offline';
+
+/** The pin the user set on `viewId` itself, if any. */
+export function useOfflinePin(workspaceId?: string, viewId?: string): OfflinePinRecord | undefined {
+  return useLiveQuery(
+    () => (workspaceId && viewId ? getOfflinePin(workspaceId, viewId) : undefined),
+    [workspaceId, viewId]
+  );
+}
+
+/**
+ * Whether `viewId` is available offline, either pinned directly or through a
+ * pinned space or parent page. Updates while a download is in progress.
+ */
+export function useOfflineViewStatus(workspaceId?: string, viewId?: string): OfflinePinStatus | undefined {
+  return useLiveQuery(
+    () => (workspaceId && viewId ? getOfflineViewStatus(workspaceId, viewId) : undefined),
+    [workspaceId, viewId]
+  );
+}
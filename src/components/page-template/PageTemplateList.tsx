@@ -0,0 +1,55 @@
+import { Button } from '@mui/material';
+import { useTranslation } from 'react-i18next';
+
+import { View } from '@/application/types';
+import { ReactComponent as CheckIcon } from '@/assets/icons/tick.svg';
+import PageIcon from '@/components/_shared/view-icon/PageIcon';
+
+/** Picks the template a new page starts from; an empty value means a blank page. */
+function PageTemplateList({
+  templates,
+  value,
+  onChange,
+}: {
+  templates: View[];
+  value: string;
+  onChange: (value: string) => void;
+}) {
+  const { t } = useTranslation();
+  const items = [
+    { id: '', name: t('pageTemplate.blankPage', 'Blank page'), view: null },
+    ...templates.map((view) => ({
+      id: view.view_id,
+      name: view.name || t('menuAppHeader.defaultNewPageName'),
+      view,
+    })),
+  ];
+
+  return (
+    <div className={'flex max-h-[200px] w-[360px] flex-col gap-2 overflow-hidden max-sm:w-full'}>
+      <div className={'text-sm text-text-secondary'}>{t('pageTemplate.startFrom', 'Start from')}</div>
+      <div className={'appflowy-scroller flex w-full flex-1 flex-col gap-1 overflow-y-auto overflow-x-hidden'}>
+        {items.map((item) => (
+          <Button
+            key={item.id || 'blank'}
+            data-testid={'page-template-item'}
+            variant={'text'}
+            color={'inherit'}
+            className={'flex items-center gap-[10px] p-1 font-normal'}
+            onClick={() => onChange(item.id)}
+          >
+            {item.view ? (
+              <PageIcon view={item.view} className={'flex h-5 w-5 shrink-0 items-center justify-center'} />
+            ) : (
+              <span className={'h-5 w-5 shrink-0'} />
+            )}
+            <span className={'flex-1 truncate text-left text-sm'}>{item.name}</span>
+            <div className={'h-5 w-5'}>{value === item.id && <CheckIcon className={'h-5 w-5 text-text-action'} />}</div>
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default PageTemplateList;
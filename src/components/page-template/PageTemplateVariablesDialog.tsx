@@ -0,0 +1,77 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+/** Asks for the values of a template's `{{variables}}` before it is used. */
+function PageTemplateVariablesDialog({
+  variables,
+  onSubmit,
+  onCancel,
+}: {
+  variables: string[] | null;
+  onSubmit: (values: Record<string, string>) => void;
+  onCancel: () => void;
+}) {
+  const { t } = useTranslation();
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    setValues({});
+  }, [variables]);
+
+  const handleSubmit = () => onSubmit(values);
+
+  return (
+    <Dialog
+      open={Boolean(variables)}
+      onOpenChange={(open) => {
+        if (!open) onCancel();
+      }}
+    >
+      <DialogContent
+        data-testid={'page-template-variables-dialog'}
+        onCloseAutoFocus={(e) => {
+          e.preventDefault();
+        }}
+      >
+        <DialogHeader>
+          <DialogTitle>{t('pageTemplate.fillVariables', 'Fill in template')}</DialogTitle>
+        </DialogHeader>
+        <div className={'flex flex-col gap-3'}>
+          {variables?.map((variable, index) => (
+            <div key={variable} className={'flex flex-col gap-1.5'}>
+              <Label htmlFor={`page-template-variable-${index}`}>{variable}</Label>
+              <Input
+                id={`page-template-variable-${index}`}
+                data-testid={'page-template-variable-input'}
+                autoFocus={index === 0}
+                value={values[variable] ?? ''}
+                onChange={(e) => setValues((prev) => ({ ...prev, [variable]: e.target.value }))}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.stopPropagation();
+                    handleSubmit();
+                  }
+                }}
+              />
+            </div>
+          ))}
+        </div>
+        <DialogFooter>
+          <Button variant={'outline'} onClick={onCancel}>
+            {t('button.cancel')}
+          </Button>
+          <Button data-testid={'page-template-variables-submit'} onClick={handleSubmit}>
+            {t('button.insert', 'Insert')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default PageTemplateVariablesDialog;
@@ -0,0 +1,57 @@
+import { useCallback, useRef, useState } from 'react';
+import { Element } from 'slate';
+
+import { fillPageTemplate, getPageTemplateContent, getTemplateVariables } from '@/application/page-template';
+import { LoadView } from '@/application/types';
+import { useCurrentUserOptional } from '@/components/main/app.hooks';
+
+import PageTemplateVariablesDialog from './PageTemplateVariablesDialog';
+
+/**
+ * Loads a template page and fills in its variables, prompting for the ones
+ * that are not built in. `fill` resolves to null when the prompt is cancelled.
+ * Render `dialog` wherever the hook is used.
+ */
+export function usePageTemplateFill(loadView?: LoadView) {
+  const currentUser = useCurrentUserOptional();
+  const [variables, setVariables] = useState<string[] | null>(null);
+  const resolveRef = useRef<((values: Record<string, string> | null) => void) | null>(null);
+
+  const settle = useCallback((values: Record<string, string> | null) => {
+    resolveRef.current?.(values);
+    resolveRef.current = null;
+    setVariables(null);
+  }, []);
+
+  const fill = useCallback(
+    async (templateId: string, pageTitle: string): Promise<Element[] | null> => {
+      if (!loadView) return null;
+
+      const doc = await loadView(templateId, true);
+      const content = getPageTemplateContent(doc);
+      const prompted = getTemplateVariables(content);
+      let values: Record<string, string> | null = {};
+
+      if (prompted.length > 0) {
+        resolveRef.current?.(null);
+        values = await new Promise<Record<string, string> | null>((resolve) => {
+          resolveRef.current = resolve;
+          setVariables(prompted);
+        });
+      }
+
+      if (!values) return null;
+
+      return fillPageTemplate(content, {
+        user: currentUser?.name || currentUser?.email || '',
+        pageTitle,
+        values,
+      });
+    },
+    [currentUser, loadView]
+  );
+
+  const dialog = <PageTemplateVariablesDialog variables={variables} onSubmit={settle} onCancel={() => settle(null)} />;
+
+  return { fill, dialog };
+}
@@ -45,6 +45,7 @@ jest.mock('@/application/services/js-services/http/http_api', () => {
     ...actual,
     collabFullSyncBatch: jest.fn(),
     revertCollabVersion: jest.fn(),
+    getCollab: jest.fn(),
   };
 });
 
@@ -241,6 +242,7 @@ const mockedCollabIndexedDBExists = collabIndexedDBExists as jest.MockedFunction
 const mockedHandleMessage = handleMessage as jest.MockedFunction<typeof handleMessage>;
 const mockedCollabFullSyncBatch = httpApi.collabFullSyncBatch as jest.MockedFunction<typeof httpApi.collabFullSyncBatch>;
 const mockedRevertCollabVersion = httpApi.revertCollabVersion as jest.MockedFunction<typeof httpApi.revertCollabVersion>;
+const mockedGetCollab = httpApi.getCollab as jest.MockedFunction<typeof httpApi.getCollab>;
 const mockedUseCurrentUserOptional = useCurrentUserOptional as jest.MockedFunction<typeof useCurrentUserOptional>;
 const mockedInvalidateDatabaseRowDocSeed = invalidateDatabaseRowDocSeed as jest.MockedFunction<
   typeof invalidateDatabaseRowDocSeed
@@ -2504,3 +2506,120 @@ describe('useSync revertCollabVersion', () => {
     expect(mockedHandleMessage.mock.calls.some(([, message]) => message === queuedMessage)).toBe(true);
   });
 });
+
+describe('useSync discardLocalChanges', () => {
+  beforeEach(() => {
+    jest.useRealTimers();
+    resetCommonMocks();
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('rebuilds an open doc from the server state', async () => {
+    const user = createUser('workspace-from-user');
+    mockedUseCurrentUserOptional.mockReturnValue(user);
+    const ws = createWs();
+    const bc = createBroadcastChannel();
+    const eventEmitter = new EventEmitter();
+    const emitSpy = jest.spyOn(eventEmitter, 'emit');
+    const doc = createDoc('fa111111-1111-4111-8111-111111111111') as Y.Doc & { version?: string };
+    const nextDoc = createDoc(doc.guid) as Y.Doc & { version?: string };
+    const serverDoc = createDoc('fa111111-1111-4111-8111-111111111112');
+    const outboxMock = jest.requireMock('@/application/sync-outbox');
+
+    doc.version = '018f2f9e-3f04-7c8d-8a2e-8df6dff4b410';
+    doc.getMap('root').set('k', 'local');
+    serverDoc.getMap('root').set('k', 'server');
+    mockedGetCollab.mockResolvedValueOnce({ data: Y.encodeStateAsUpdate(serverDoc) });
+    mockedOpenCollabDB.mockResolvedValueOnce(nextDoc as Y.Doc);
+
+    const { result } = renderHook(() => useSync(ws, bc, eventEmitter, 'workspace-from-prop'));
+
+    act(() => {
+      result.current.registerSyncContext({ doc, collabType: Types.Document });
+    });
+
+    await act(async () => {
+      await result.current.discardLocalChanges(doc.guid);
+    });
+
+    expect(outboxMock.deleteOutboxByObjectId).toHaveBeenCalledWith(doc.guid, undefined);
+    expect(mockedGetCollab).toHaveBeenCalledWith('workspace-from-prop', doc.guid, Types.Document);
+    expect(mockedOpenCollabDB).toHaveBeenCalledWith(doc.guid, {
+      expectedVersion: doc.version,
+      currentUser: user.uid,
+    });
+    expect(nextDoc.getMap('root').get('k')).toBe('server');
+    expect(emitSpy).toHaveBeenCalledWith(
+      APP_EVENTS.COLLAB_DOC_RESET,
+      expect.objectContaining({ objectId: doc.guid, doc: nextDoc })
+    );
+  });
+
+  it('leaves an open doc untouched when the server state cannot be fetched', async () => {
+    mockedUseCurrentUserOptional.mockReturnValue(createUser('workspace-from-user'));
+    const doc = createDoc('fa333333-3333-4333-8333-333333333333');
+    const outboxMock = jest.requireMock('@/application/sync-outbox');
+
+    doc.getMap('root').set('k', 'local');
+    mockedGetCollab.mockRejectedValueOnce(new Error('permission denied'));
+
+    const { result } = renderHook(() =>
+      useSync(createWs(), createBroadcastChannel(), defaultEventEmitter, defaultWorkspaceId)
+    );
+
+    act(() => {
+      result.current.registerSyncContext({ doc, collabType: Types.Document });
+    });
+
+    await act(async () => {
+      await expect(result.current.discardLocalChanges(doc.guid)).rejects.toThrow('permission denied');
+    });
+
+    expect(outboxMock.deleteOutboxByObjectId).not.toHaveBeenCalled();
+    expect(mockedOpenCollabDB).not.toHaveBeenCalled();
+    expect(result.current.rebindSyncContext(doc.guid)).toBe(doc);
+    expect(doc.getMap('root').get('k')).toBe('local');
+  });
+
+  it('keeps syncing the open doc when restoring a version fails on the server', async () => {
+    mockedUseCurrentUserOptional.mockReturnValue(createUser('workspace-from-user'));
+    const doc = createDoc('fa444444-4444-4444-8444-444444444444');
+
+    mockedRevertCollabVersion.mockRejectedValueOnce(new Error('forbidden'));
+
+    const { result } = renderHook(() =>
+      useSync(createWs(), createBroadcastChannel(), defaultEventEmitter, defaultWorkspaceId)
+    );
+
+    act(() => {
+      result.current.registerSyncContext({ doc, collabType: Types.Document });
+    });
+
+    await act(async () => {
+      await expect(result.current.revertCollabVersion(doc.guid, '018f2f9e-3f04-7c8d-8a2e-8df6dff4b411')).rejects.toThrow(
+        'forbidden'
+      );
+    });
+
+    expect(mockedOpenCollabDB).not.toHaveBeenCalled();
+    expect(result.current.rebindSyncContext(doc.guid)).toBe(doc);
+  });
+
+  it('drops the outbox entries of a doc that is not open', async () => {
+    mockedUseCurrentUserOptional.mockReturnValue(createUser('workspace-from-user'));
+    const outboxMock = jest.requireMock('@/application/sync-outbox');
+    const { result } = renderHook(() =>
+      useSync(createWs(), createBroadcastChannel(), defaultEventEmitter, defaultWorkspaceId)
+    );
+
+    await act(async () => {
+      await result.current.discardLocalChanges('fa222222-2222-4222-8222-222222222222');
+    });
+
+    expect(outboxMock.deleteOutboxByObjectId).toHaveBeenCalledWith('fa222222-2222-4222-8222-222222222222');
+    expect(mockedGetCollab).not.toHaveBeenCalled();
+  });
+});
@@ -31,6 +31,8 @@ export interface RegisterSyncContext {
   doc: YDoc;
   awareness?: awarenessProtocol.Awareness;
   collabType: Types;
+  /** Only relay awareness; the doc is never synced with the server. */
+  awarenessOnly?: boolean;
   emit?: (reply: messages.IMessage) => void;
 }
 
@@ -114,6 +116,8 @@ export type SyncContextType = {
    */
   scheduleDeferredCleanup: (objectId: string, delayMs?: number) => void;
   revertCollabVersion: (viewId: string, versionId: string) => Promise<void>;
+  /** Drop unsynced local edits of an object and reset its local copy to the server state. */
+  discardLocalChanges: (objectId: string) => Promise<void>;
 };
 
 export const isCollabVersionId = (value: string | null | undefined): value is string => {
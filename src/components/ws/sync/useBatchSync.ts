@@ -448,7 +448,7 @@ export function useBatchSync(
       refs.registeredContexts.current.forEach((context) => {
         const { doc, collabType } = context;
 
-        if (!doc || collabType === undefined) return;
+        if (!doc || collabType === undefined || context.awarenessOnly) return;
 
         registeredObjectIds.add(doc.guid);
 
@@ -71,6 +71,12 @@ export function useCollabMessageHandler(
 
       let context = refs.registeredContexts.current.get(objectId);
 
+      // Awareness-only contexts never hold the document; drop its updates
+      // before they can look like a version change.
+      if (context?.awarenessOnly && !message.awarenessUpdate) {
+        return true;
+      }
+
       // While a reset is in progress for this objectId, queue incoming
       // messages for later replay. This covers both the "context already
       // unregistered" path and the narrow window where the reset has been
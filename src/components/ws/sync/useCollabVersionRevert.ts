@@ -6,6 +6,7 @@ import * as Y from 'yjs';
 import { deleteCollabDB, openCollabDB } from '@/application/db';
 import * as http from '@/application/services/js-services/http/http_api';
 import { SyncContext } from '@/application/services/js-services/sync-protocol';
+import { deleteOutboxByObjectId } from '@/application/sync-outbox';
 import { User, YDoc } from '@/application/types';
 import { collab } from '@/proto/messages';
 import { Log } from '@/utils/log';
@@ -45,11 +46,14 @@ export function useCollabVersionRevert(deps: CollabVersionRevertDeps) {
     applyCollabMessage,
   } = deps;
 
-  const revertCollabVersion = useCallback(async (viewId: string, version: string) => {
-    const context = refs.registeredContexts.current.get(viewId);
-    const currentUser = refs.latestUserRef.current;
-
-    if (currentUser && context) {
+  // Tears down the registered doc of `context`, rebuilds it from the server
+  // state returned by `loadServerState` and re-registers it.
+  const resetToServerState = useCallback(
+    async (
+      context: SyncContext,
+      currentUser: User,
+      loadServerState: () => Promise<{ docState: Uint8Array; version?: string }>
+    ) => {
       const previousDoc = context.doc as YDoc & SyncDocMeta;
       const objectId = previousDoc.guid;
       const ownerCount = Math.max(1, refs.contextRefCounts.current.get(objectId) ?? 0);
@@ -62,19 +66,33 @@ export function useCollabVersionRevert(deps: CollabVersionRevertDeps) {
       // `resettingObjectIds` (otherwise remote messages would queue forever).
       refs.resettingObjectIds.current.add(objectId);
 
+      const restorePreviousContext = () => {
+        for (let ownerIndex = 0; ownerIndex < ownerCount; ownerIndex += 1) {
+          registerSyncContext({
+            doc: previousDoc,
+            awareness: context.awareness,
+            collabType: context.collabType,
+          });
+        }
+      };
+
       try {
         await context.discardPendingUpdates?.();
         unregisterSyncContext(objectId, { flushPending: false });
 
-        const { docState, version: serverVersion } = await http.revertCollabVersion(
-          workspaceId,
-          viewId,
-          context.collabType,
-          version
-        );
-        const nextVersion = serverVersion || version;
+        let serverState: { docState: Uint8Array; version?: string };
+
+        try {
+          serverState = await loadServerState();
+        } catch (error) {
+          // Nothing was replaced yet; keep the open doc syncing.
+          restorePreviousContext();
+          throw error;
+        }
+
+        const { docState, version: nextVersion } = serverState;
 
-        Log.debug('[Version] Collab version changed:', viewId, previousDoc.version, nextVersion);
+        Log.debug('[Version] Collab version changed:', objectId, previousDoc.version, nextVersion);
         previousDoc.emit('reset', [context, nextVersion]);
         refs.skipFlushOnDestroy.current.add(previousDoc.guid);
         await deleteCollabDB(previousDoc.guid, { destroyDoc: false });
@@ -107,25 +125,66 @@ export function useCollabVersionRevert(deps: CollabVersionRevertDeps) {
             },
           });
         } catch (error) {
-          // Restore previous context if version restore fails.
-          for (let ownerIndex = 0; ownerIndex < ownerCount; ownerIndex += 1) {
-            registerSyncContext({
-              doc: previousDoc,
-              awareness: context.awareness,
-              collabType: context.collabType,
-            });
-          }
-
+          // Restore previous context if the rebuild fails.
+          restorePreviousContext();
           throw error;
         }
       } finally {
         refs.resettingObjectIds.current.delete(objectId);
         await replayQueuedMessages(objectId, refs.queuedMessagesDuringReset.current, applyCollabMessage, currentUser);
       }
-    } else {
-      throw new Error('Unable to restore version: sync context is unavailable. Please reopen the document and retry.');
-    }
-  }, [refs, workspaceId, eventEmitter, registerSyncContext, unregisterSyncContext, scheduleDeferredCleanup, applyCollabMessage]);
+    },
+    [refs, eventEmitter, registerSyncContext, unregisterSyncContext, scheduleDeferredCleanup, applyCollabMessage]
+  );
+
+  const revertCollabVersion = useCallback(
+    async (viewId: string, version: string) => {
+      const context = refs.registeredContexts.current.get(viewId);
+      const currentUser = refs.latestUserRef.current;
+
+      if (!currentUser || !context) {
+        throw new Error(
+          'Unable to restore version: sync context is unavailable. Please reopen the document and retry.'
+        );
+      }
+
+      await resetToServerState(context, currentUser, async () => {
+        const { docState, version: serverVersion } = await http.revertCollabVersion(
+          workspaceId,
+          viewId,
+          context.collabType,
+          version
+        );
+
+        return { docState, version: serverVersion || version };
+      });
+    },
+    [refs, workspaceId, resetToServerState]
+  );
+
+  // Local edits that never reached the server are dropped from the outbox and
+  // from the local copy. An open document is rebuilt from the server state;
+  // otherwise the local database is removed so the next open fetches it again.
+  const discardLocalChanges = useCallback(
+    async (objectId: string) => {
+      const context = refs.registeredContexts.current.get(objectId);
+      const currentUser = refs.latestUserRef.current;
+
+      if (!context || !currentUser) {
+        await deleteOutboxByObjectId(objectId);
+        await deleteCollabDB(objectId, { destroyDoc: true });
+        return;
+      }
+
+      const version = (context.doc as YDoc & SyncDocMeta).version;
+      // Fetch before tearing anything down: stuck edits are often permission
+      // denials, where this request fails too and the doc must stay as it is.
+      const { data } = await http.getCollab(workspaceId, objectId, context.collabType);
+
+      await resetToServerState(context, currentUser, async () => ({ docState: data, version }));
+    },
+    [refs, workspaceId, resetToServerState]
+  );
 
-  return { revertCollabVersion };
+  return { revertCollabVersion, discardLocalChanges };
 }
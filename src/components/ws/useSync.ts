@@ -97,6 +97,16 @@ export type { RegisterSyncContext, SyncContextType } from './sync/types';
  *   - `DocumentHistoryModal.handleRestore()` — when the user clicks "Restore" in
  *     the version history dialog
  *
+ * ### `discardLocalChanges(objectId): Promise<void>`
+ *
+ * Drops edits stuck in the sync outbox together with the local copy that holds
+ * them. A registered doc goes through the same rebuild as a revert, seeded with
+ * the current server state; otherwise the local IndexedDB is deleted so the
+ * next open fetches from the server.
+ *
+ * **Called by:**
+ *   - `PendingChangesPanel` — when the user discards a pending change
+ *
  * ### `flushAllSync(): Promise<boolean>`
  *
  * Awaits the persistent sync_outbox drain for every registered sync context.
@@ -338,7 +348,7 @@ export const useSync = (
   // Tears down the current doc, calls the server revert API, rebuilds a fresh doc
   // from the returned snapshot, and re-registers it.  Falls back to the previous
   // context if the rebuild fails.
-  const { revertCollabVersion } = useCollabVersionRevert({
+  const { revertCollabVersion, discardLocalChanges } = useCollabVersionRevert({
     refs,
     workspaceId,
     eventEmitter,
@@ -355,6 +365,7 @@ export const useSync = (
       registerSyncContext,
       rebindSyncContext,
       revertCollabVersion,
+      discardLocalChanges,
       flushAllSync,
       syncAllToServer,
       applyHttpFullSyncResult,
@@ -364,6 +375,7 @@ export const useSync = (
       registerSyncContext,
       rebindSyncContext,
       revertCollabVersion,
+      discardLocalChanges,
       flushAllSync,
       syncAllToServer,
       applyHttpFullSyncResult,
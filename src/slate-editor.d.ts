@@ -1,8 +1,18 @@
 import { ReactEditor } from 'slate-react';
 
+interface SuggestionMark {
+  id: string;
+  author_id: string;
+  author_name: string;
+  time: number;
+}
+
 interface EditorInlineAttributes {
   /** Desktop-compatible ids for comments anchored to this exact Delta segment. */
   'comment-ids'?: string[];
+  /** Text proposed in suggesting mode, waiting to be accepted or rejected. */
+  suggestion_insert?: SuggestionMark;
+  suggestion_delete?: SuggestionMark;
   bold?: boolean;
   italic?: boolean;
   underline?: boolean;
@@ -13,6 +23,10 @@ interface EditorInlineAttributes {
   code?: boolean;
   font_family?: string;
   formula?: string;
+  footnote?: {
+    id: string;
+    content: string;
+  };
   reference?: {
     blockIds?: string[];
     number?: number;
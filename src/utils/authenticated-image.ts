@@ -1,3 +1,4 @@
+import { getOfflineFile } from '@/application/offline/files';
 import { getTokenParsed } from '@/application/session/token';
 import { isAppFlowyFileStorageUrl } from '@/utils/file-storage-url';
 import { transcodeIfUnsupported } from '@/utils/image';
@@ -10,9 +11,40 @@ const resolveImageUrl = (url: string): string => {
   return url.startsWith('http') ? url : `${getConfigValue('APPFLOWY_BASE_URL', '')}${url}`;
 };
 
+/**
+ * Fetches an AppFlowy file storage file with authentication headers
+ *
+ * @param url - The file URL to fetch
+ * @returns A promise that resolves to the file contents, or rejects if the fetch fails
+ */
+export async function fetchAuthenticatedFile(url: string, token = getTokenParsed()): Promise<Blob> {
+  const authToken = token ?? getTokenParsed();
+
+  if (!authToken) {
+    throw new Error('No authentication token available for file fetch');
+  }
+
+  // Construct full URL if it's a relative path
+  const fullUrl = resolveImageUrl(url);
+
+  const response = await fetch(fullUrl, {
+    headers: {
+      Authorization: `Bearer ${authToken.access_token}`,
+      'x-platform': 'web-app',
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch authenticated file: ${response.status} ${response.statusText}`);
+  }
+
+  return response.blob();
+}
+
 /**
  * Fetches an image with authentication headers and converts it to a blob URL
- * Used for loading AppFlowy file storage images that require authentication
+ * Used for loading AppFlowy file storage images that require authentication.
+ * Falls back to the copy stored for pages pinned as "Available offline".
  *
  * @param url - The image URL to fetch
  * @returns A promise that resolves to a blob URL or null if fetch fails
@@ -20,34 +52,30 @@ const resolveImageUrl = (url: string): string => {
 export async function fetchAuthenticatedImage(url: string, token = getTokenParsed()): Promise<string | null> {
   if (!url) return null;
 
-  try {
-    const authToken = token ?? getTokenParsed();
+  const authToken = token ?? getTokenParsed();
 
-    if (!authToken) {
-      console.warn('No authentication token available for image fetch');
-      return null;
-    }
+  if (!authToken) {
+    console.warn('No authentication token available for image fetch');
+    return null;
+  }
 
-    // Construct full URL if it's a relative path
-    const fullUrl = resolveImageUrl(url);
+  let blob: Blob | undefined;
 
-    const response = await fetch(fullUrl, {
-      headers: {
-        Authorization: `Bearer ${authToken.access_token}`,
-        'x-platform': 'web-app',
-      },
-    });
+  try {
+    blob = await fetchAuthenticatedFile(url, authToken);
+  } catch (error) {
+    blob = await getOfflineFile(url);
 
-    if (!response.ok) {
-      console.error('Failed to fetch authenticated image:', response.status, response.statusText);
+    if (!blob) {
+      console.error('Error fetching authenticated image:', error);
       return null;
     }
+  }
 
-    const blob = await response.blob();
+  try {
     const renderableBlob = await transcodeIfUnsupported(blob, url);
-    const blobUrl = URL.createObjectURL(renderableBlob);
 
-    return blobUrl;
+    return URL.createObjectURL(renderableBlob);
   } catch (error) {
     console.error('Error fetching authenticated image:', error);
     return null;
@@ -1,5 +1,7 @@
 import { getTimezoneOffset, toZonedTime } from 'date-fns-tz';
 
+import { UserTimezone } from '@/application/user-timezone.types';
+
 export interface TimezoneInfo {
   timezone: string;
   offset: number;
@@ -66,3 +68,18 @@ export function getUserTimezoneInfo(): TimezoneInfo {
     locale,
   };
 }
+
+/**
+ * Resolve the timezone to evaluate dates in from the user's timezone setting.
+ * Prefers the explicitly set timezone, then the detected default, then the browser's.
+ * The setting is read from user metadata, either a plain IANA string or a UserTimezone object.
+ */
+export function resolveUserTimezone(setting?: unknown): string {
+  const { timezone: explicit, default_timezone: detected } = (setting ?? {}) as Partial<UserTimezone>;
+  const candidates = typeof setting === 'string' ? [setting] : [explicit, detected];
+  const timezone = candidates.find(
+    (candidate): candidate is string => typeof candidate === 'string' && isValidIANATimezone(candidate)
+  );
+
+  return timezone ?? getUserTimezoneInfo().timezone;
+}